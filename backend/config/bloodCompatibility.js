@@ -0,0 +1,119 @@
+/**
+ * ABO/Rh compatibility rules
+ *
+ * Maps each recipient blood group to the donor groups it can safely receive,
+ * per blood product. Lists are in order of preference: the exact group
+ * first, and O- last for red cells so the universal donor stock is conserved.
+ *
+ * - red_cells: donor red cells must not carry an antigen the recipient lacks
+ * - plasma:    donor plasma must not carry antibodies against the recipient's
+ *              red cells (ABO only, Rh does not apply)
+ * - platelets: ABO follows plasma rules; Rh-negative recipients receive
+ *              Rh-negative platelets only (red cell contamination)
+ * - whole_blood: ABO-identical, Rh as for red cells
+ */
+
+export const BLOOD_GROUPS = ['A+', 'A-', 'B+', 'B-', 'AB+', 'AB-', 'O+', 'O-'];
+
+export const BLOOD_PRODUCTS = ['red_cells', 'plasma', 'platelets', 'whole_blood'];
+
+export const COMPATIBILITY = {
+    red_cells: {
+        'O-': ['O-'],
+        'O+': ['O+', 'O-'],
+        'A-': ['A-', 'O-'],
+        'A+': ['A+', 'A-', 'O+', 'O-'],
+        'B-': ['B-', 'O-'],
+        'B+': ['B+', 'B-', 'O+', 'O-'],
+        'AB-': ['AB-', 'A-', 'B-', 'O-'],
+        'AB+': ['AB+', 'AB-', 'A+', 'A-', 'B+', 'B-', 'O+', 'O-']
+    },
+    plasma: {
+        'O-': ['O-', 'O+', 'A-', 'A+', 'B-', 'B+', 'AB-', 'AB+'],
+        'O+': ['O+', 'O-', 'A+', 'A-', 'B+', 'B-', 'AB+', 'AB-'],
+        'A-': ['A-', 'A+', 'AB-', 'AB+'],
+        'A+': ['A+', 'A-', 'AB+', 'AB-'],
+        'B-': ['B-', 'B+', 'AB-', 'AB+'],
+        'B+': ['B+', 'B-', 'AB+', 'AB-'],
+        'AB-': ['AB-', 'AB+'],
+        'AB+': ['AB+', 'AB-']
+    },
+    platelets: {
+        'O-': ['O-', 'A-', 'B-', 'AB-'],
+        'O+': ['O+', 'O-', 'A+', 'A-', 'B+', 'B-', 'AB+', 'AB-'],
+        'A-': ['A-', 'AB-'],
+        'A+': ['A+', 'A-', 'AB+', 'AB-'],
+        'B-': ['B-', 'AB-'],
+        'B+': ['B+', 'B-', 'AB+', 'AB-'],
+        'AB-': ['AB-'],
+        'AB+': ['AB+', 'AB-']
+    },
+    whole_blood: {
+        'O-': ['O-'],
+        'O+': ['O+', 'O-'],
+        'A-': ['A-'],
+        'A+': ['A+', 'A-'],
+        'B-': ['B-'],
+        'B+': ['B+', 'B-'],
+        'AB-': ['AB-'],
+        'AB+': ['AB+', 'AB-']
+    }
+};
+
+export const DEFAULT_PRODUCT = 'red_cells';
+
+/**
+ * Get donor groups a recipient can receive, in order of preference
+ * @param {String} recipientGroup - Recipient blood group
+ * @param {String} product - Blood product (defaults to red cells)
+ * @returns {Array} - Compatible donor groups, or [] for an unknown group
+ */
+export const getCompatibleDonorGroups = (recipientGroup, product = DEFAULT_PRODUCT) => {
+    const table = COMPATIBILITY[product] || COMPATIBILITY[DEFAULT_PRODUCT];
+    return table[recipientGroup] || [];
+};
+
+/**
+ * Get recipient groups a donor group can be given to
+ * @param {String} donorGroup - Donor blood group
+ * @param {String} product - Blood product (defaults to red cells)
+ * @returns {Array} - Recipient groups
+ */
+export const getCompatibleRecipientGroups = (donorGroup, product = DEFAULT_PRODUCT) => {
+    return BLOOD_GROUPS.filter(recipient =>
+        getCompatibleDonorGroups(recipient, product).includes(donorGroup)
+    );
+};
+
+/**
+ * Check whether a donor group is compatible with a recipient group
+ */
+export const isCompatible = (donorGroup, recipientGroup, product = DEFAULT_PRODUCT) => {
+    return getCompatibleDonorGroups(recipientGroup, product).includes(donorGroup);
+};
+
+/**
+ * Rank a donor group for a recipient (0 = exact match, higher = less preferred)
+ * @returns {Number} - Rank, or -1 when incompatible
+ */
+export const compatibilityRank = (donorGroup, recipientGroup, product = DEFAULT_PRODUCT) => {
+    return getCompatibleDonorGroups(recipientGroup, product).indexOf(donorGroup);
+};
+
+/**
+ * Match the groups a source offers against a recipient
+ * @param {Array} availableGroups - Groups in stock at a hospital
+ * @param {String} recipientGroup - Recipient blood group
+ * @param {String} product - Blood product
+ * @returns {Object} - { matchingGroups (preference order), exactMatch, bestRank }
+ */
+export const matchAvailableGroups = (availableGroups = [], recipientGroup, product = DEFAULT_PRODUCT) => {
+    const matchingGroups = getCompatibleDonorGroups(recipientGroup, product)
+        .filter(group => availableGroups.includes(group));
+
+    return {
+        matchingGroups,
+        exactMatch: availableGroups.includes(recipientGroup) && matchingGroups.includes(recipientGroup),
+        bestRank: matchingGroups.length > 0 ? compatibilityRank(matchingGroups[0], recipientGroup, product) : -1
+    };
+};
@@ -0,0 +1,61 @@
+/**
+ * Blood component definitions
+ *
+ * Shelf life is counted in days from the collection date, using the
+ * storage conditions of a standard blood bank:
+ * - Whole blood in CPDA-1: 35 days
+ * - Packed red cells in SAGM: 42 days
+ * - Platelets at 20-24°C with agitation: 5 days
+ * - Fresh frozen plasma and cryoprecipitate at -30°C or below: 1 year
+ *
+ * `product` selects the ABO/Rh rule set in bloodCompatibility.js.
+ */
+
+export const BLOOD_COMPONENTS = {
+    whole_blood: { label: 'Whole Blood', shelfLifeDays: 35, product: 'whole_blood' },
+    prbc: { label: 'Packed Red Blood Cells', shelfLifeDays: 42, product: 'red_cells' },
+    platelets: { label: 'Platelets', shelfLifeDays: 5, product: 'platelets' },
+    plasma: { label: 'Fresh Frozen Plasma', shelfLifeDays: 365, product: 'plasma' },
+    cryo: { label: 'Cryoprecipitate', shelfLifeDays: 365, product: 'plasma' }
+};
+
+export const COMPONENT_TYPES = Object.keys(BLOOD_COMPONENTS);
+
+export const DEFAULT_COMPONENT = 'whole_blood';
+
+/**
+ * Get the shelf life of a component in days
+ * @param {String} component - Component type (defaults to whole blood)
+ * @returns {Number} - Shelf life in days
+ */
+export const getShelfLifeDays = (component = DEFAULT_COMPONENT) => {
+    return (BLOOD_COMPONENTS[component] || BLOOD_COMPONENTS[DEFAULT_COMPONENT]).shelfLifeDays;
+};
+
+/**
+ * Get the compatibility rule set for a component
+ * @param {String} component - Component type (defaults to whole blood)
+ * @returns {String} - Product key for bloodCompatibility.js
+ */
+export const getCompatibilityProduct = (component = DEFAULT_COMPONENT) => {
+    return (BLOOD_COMPONENTS[component] || BLOOD_COMPONENTS[DEFAULT_COMPONENT]).product;
+};
+
+/**
+ * Get the display label of a component
+ */
+export const getComponentLabel = (component = DEFAULT_COMPONENT) => {
+    return (BLOOD_COMPONENTS[component] || BLOOD_COMPONENTS[DEFAULT_COMPONENT]).label;
+};
+
+/**
+ * Calculate the expiry date of a unit from its collection date
+ * @param {Date} collectionDate - When the unit was collected
+ * @param {String} component - Component type
+ * @returns {Date} - Expiry date
+ */
+export const calculateExpiryDate = (collectionDate, component = DEFAULT_COMPONENT) => {
+    const expiryDate = new Date(collectionDate);
+    expiryDate.setDate(expiryDate.getDate() + getShelfLifeDays(component));
+    return expiryDate;
+};
@@ -0,0 +1,119 @@
+/**
+ * Default donor eligibility questionnaire
+ *
+ * Becomes questionnaire version 1 the first time one is needed
+ * (see Questionnaire.getActive). Admins publish later versions through
+ * /api/admin/questionnaires.
+ *
+ * An option with a `deferral` is disqualifying: the donor is deferred for
+ * `days` from the day the quiz was answered, or until a staff review when
+ * `days` is null.
+ */
+
+const yesNo = (yes, no) => [
+    { value: 'yes', label: 'Yes', ...yes },
+    { value: 'no', label: 'No', ...no }
+];
+
+const defer = (code, days, message) => ({ weight: 0, deferral: { code, days, message } });
+
+export const DEFAULT_PASS_PERCENTAGE = 70;
+
+export const DEFAULT_QUESTIONS = [
+    {
+        id: 1,
+        category: 'Age',
+        question: 'Are you between 18 to 60 years old?',
+        options: yesNo(
+            { weight: 10 },
+            defer('age', null, 'You must be between 18-60 years old to donate blood.')
+        )
+    },
+    {
+        id: 2,
+        category: 'Weight',
+        question: 'Is your weight more than 50 kg?',
+        options: yesNo(
+            { weight: 10 },
+            defer('weight', null, 'Minimum weight of 50 kg is required for blood donation.')
+        )
+    },
+    {
+        id: 3,
+        category: 'Last Donation',
+        question: 'When was your last blood donation?',
+        options: [
+            { value: 'within_3_months', label: 'Within 3 months', ...defer('recent_donation', 90, 'You need to wait at least 3 months between donations.') },
+            { value: '3_to_6_months', label: 'Before 3-6 months', weight: 8 },
+            { value: 'more_than_6_months', label: 'More than 6 months', weight: 10 },
+            { value: 'never', label: 'Never', weight: 10 }
+        ]
+    },
+    {
+        id: 4,
+        category: 'Current Health',
+        question: 'Do you currently have fever, infection, cold or cough?',
+        options: yesNo(
+            defer('illness', 14, 'Please wait two weeks after recovering from illness before donating.'),
+            { weight: 10 }
+        )
+    },
+    {
+        id: 5,
+        category: 'Medication',
+        question: 'Are you currently taking any medication?',
+        options: yesNo(
+            defer('medication', 7, 'Some medications affect donation; wait a week after your course ends or ask staff.'),
+            { weight: 10 }
+        )
+    },
+    {
+        id: 6,
+        category: 'Recent Diseases',
+        question: 'Have you had typhoid, malaria or hepatitis in last 6 months?',
+        options: yesNo(
+            defer('infection', 180, 'Typhoid, malaria or hepatitis in the last 6 months requires a 6-month wait.'),
+            { weight: 10 }
+        )
+    },
+    {
+        id: 7,
+        category: 'Lifestyle',
+        question: 'Do you consume alcohol or smoke regularly?',
+        options: [
+            { value: 'yes_regular', label: 'Yes, regularly', ...defer('lifestyle', null, 'Regular alcohol or smoking needs a review by blood bank staff.') },
+            { value: 'sometimes', label: 'Sometimes', weight: 5 },
+            { value: 'no', label: 'No', weight: 10 }
+        ]
+    },
+    {
+        id: 8,
+        category: 'Surgery',
+        question: 'Have you undergone any major surgery in last 6 months?',
+        options: yesNo(
+            defer('surgery', 180, 'Please wait 6 months after surgery before donating.'),
+            { weight: 10 }
+        )
+    },
+    {
+        id: 9,
+        category: 'Tattoos/Piercings',
+        question: 'Have you had a tattoo or piercing recently (last 6 months)?',
+        options: yesNo(
+            defer('tattoo', 180, 'Tattoos and piercings require a 6-month waiting period.'),
+            { weight: 10 }
+        )
+    },
+    {
+        id: 10,
+        category: 'Pregnancy',
+        question: 'Are you pregnant or breastfeeding right now?',
+        options: [
+            ...yesNo(
+                defer('pregnancy', null, 'You cannot donate while pregnant or breastfeeding.'),
+                { weight: 10 }
+            ),
+            { value: 'prefer_not_to_say', label: 'Prefer not to say', weight: 10 }
+        ]
+    }
+];
@@ -0,0 +1,93 @@
+/**
+ * Donor achievement rules
+ *
+ * Achievement levels follow the number of donations in the current year:
+ * gold 12+, silver 6+, bronze 2+
+ *
+ * Badges are earned once and kept: lifetime milestones (10/25/50/100
+ * donations), a donation streak, donating a rare blood group and donating
+ * for an urgent blood request. Computed from Donation records by
+ * services/donorStats.js.
+ *
+ * When a donor may donate again is decided by config/eligibilityRules.js.
+ */
+
+export const ACHIEVEMENT_BADGES = [
+    { badge: 'gold', donationsThisYear: 12 },
+    { badge: 'silver', donationsThisYear: 6 },
+    { badge: 'bronze', donationsThisYear: 2 }
+];
+
+// Lifetime donation counts that earn a milestone badge
+export const DONATION_MILESTONES = [10, 25, 50, 100];
+
+// A streak continues while each donation follows the previous one within this many days
+export const STREAK_MAX_GAP_DAYS = 180;
+
+// Streak length (donations) that earns the streak badge
+export const STREAK_BADGE_LENGTH = 4;
+
+// Blood groups that earn the rare-group badge
+export const RARE_BLOOD_GROUPS = ['A-', 'B-', 'AB-', 'O-'];
+
+// Blood request urgencies that count as emergencies
+export const EMERGENCY_URGENCIES = ['high', 'critical'];
+
+// Every badge a donor can earn, in display order
+export const BADGES = [
+    ...DONATION_MILESTONES.map(count => ({
+        code: `milestone_${count}`,
+        name: `${count} Donations`,
+        description: `Donated blood ${count} times`
+    })),
+    {
+        code: 'streak',
+        name: 'Steady Donor',
+        description: `${STREAK_BADGE_LENGTH} donations in a row, none more than ${STREAK_MAX_GAP_DAYS / 30} months apart`
+    },
+    {
+        code: 'rare_group',
+        name: 'Rare Group Hero',
+        description: `Donated a rare blood group (${RARE_BLOOD_GROUPS.join(', ')})`
+    },
+    {
+        code: 'emergency_responder',
+        name: 'Emergency Responder',
+        description: 'Donated for an urgent blood request'
+    }
+];
+
+/**
+ * Get the level earned with a number of donations this year
+ * @returns {String} - 'gold' | 'silver' | 'bronze' | 'none'
+ */
+export const getAchievementBadge = (donationsThisYear) => {
+    const earned = ACHIEVEMENT_BADGES.find(level => donationsThisYear >= level.donationsThisYear);
+    return earned ? earned.badge : 'none';
+};
+
+/**
+ * Get the next level to reach with a number of donations this year
+ * @returns {Object|null} - { badge, donationsThisYear }, or null at the top level
+ */
+export const getNextAchievementBadge = (donationsThisYear) => {
+    return [...ACHIEVEMENT_BADGES].reverse()
+        .find(level => donationsThisYear < level.donationsThisYear) || null;
+};
+
+/**
+ * Get the codes of the badges earned by a donor's donation record
+ * @param {Object} record - { totalDonations, longestStreak, rareGroupDonations, emergencyDonations }
+ * @returns {Array} - Badge codes
+ */
+export const getEarnedBadges = ({ totalDonations, longestStreak, rareGroupDonations, emergencyDonations }) => {
+    const codes = DONATION_MILESTONES
+        .filter(count => totalDonations >= count)
+        .map(count => `milestone_${count}`);
+
+    if (longestStreak >= STREAK_BADGE_LENGTH) codes.push('streak');
+    if (rareGroupDonations > 0) codes.push('rare_group');
+    if (emergencyDonations > 0) codes.push('emergency_responder');
+
+    return codes;
+};
@@ -0,0 +1,78 @@
+/**
+ * Donor eligibility rules
+ *
+ * Used by services/eligibility.js for every eligibility decision (booking,
+ * reminders, recording donations, the donor dashboard and the quiz):
+ * - age and weight limits, checked against profile.dateOfBirth and profile.weight
+ * - the wait after a donation, by the component given and the donor's sex
+ *   (platelets and plasma are collected by apheresis and recover faster)
+ *
+ * Deferrals triggered by quiz answers are part of the questionnaire that
+ * admins edit (models/Questionnaire.js).
+ *
+ * Set ELIGIBILITY_RULES_FILE to a JSON file to override any of these values;
+ * objects are merged key by key. The file is read on first use.
+ */
+
+import fs from 'fs';
+
+const DEFAULT_RULES = {
+    minAge: 18,
+    maxAge: 60,
+    minWeightKg: 50,
+
+    // Days before the next donation, by component of the last donation
+    donationIntervalDays: {
+        whole_blood: { male: 90, female: 120, default: 90 },
+        prbc: { male: 90, female: 120, default: 90 },
+        cryo: { male: 90, female: 120, default: 90 },
+        platelets: { default: 2 },
+        plasma: { default: 14 }
+    }
+};
+
+const isPlainObject = (value) => value && typeof value === 'object' && !Array.isArray(value);
+
+const mergeRules = (base, overrides) => {
+    const merged = { ...base };
+    for (const [key, value] of Object.entries(overrides)) {
+        merged[key] = isPlainObject(value) && isPlainObject(base[key])
+            ? mergeRules(base[key], value)
+            : value;
+    }
+    return merged;
+};
+
+let rules = null;
+
+/**
+ * Get the rules in effect, reading ELIGIBILITY_RULES_FILE on first use
+ * (after dotenv has loaded the environment)
+ */
+export const getEligibilityRules = () => {
+    if (rules) return rules;
+    rules = DEFAULT_RULES;
+
+    if (process.env.ELIGIBILITY_RULES_FILE) {
+        try {
+            const overrides = JSON.parse(fs.readFileSync(process.env.ELIGIBILITY_RULES_FILE, 'utf8'));
+            rules = mergeRules(DEFAULT_RULES, overrides);
+            console.log(`📋 Loaded eligibility rules from ${process.env.ELIGIBILITY_RULES_FILE}`);
+        } catch (error) {
+            console.error(`❌ Could not load ELIGIBILITY_RULES_FILE, using defaults: ${error.message}`);
+        }
+    }
+    return rules;
+};
+
+/**
+ * Get the wait in days after donating a component
+ * @param {String} component - Component of the last donation (defaults to whole blood)
+ * @param {String} sex - Donor's sex ('male' | 'female' | 'other'), optional
+ * @returns {Number} - Days before the next donation
+ */
+export const getDonationIntervalDays = (component, sex) => {
+    const intervals = getEligibilityRules().donationIntervalDays;
+    const forComponent = intervals[component] || intervals.whole_blood;
+    return forComponent[sex] ?? forComponent.default;
+};
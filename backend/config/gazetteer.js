@@ -0,0 +1,87 @@
+/**
+ * Offline gazetteer
+ *
+ * City centres used by the gazetteer geocoder (services/geocoding.js) when no
+ * online geocoding provider is configured. Each place lists other names it
+ * goes by and the postal (PIN) code prefixes of its delivery area; the longest
+ * matching prefix wins, so '4006' (Thane) beats '400' (Mumbai).
+ * Exact PIN codes are also looked up in the hospital directory.
+ *
+ * coordinates are [longitude, latitude].
+ */
+
+export const GAZETTEER = [
+    { city: 'delhi', state: 'Delhi', coordinates: [77.2090, 28.6139], aliases: ['new delhi'], pincodes: ['110'] },
+    { city: 'noida', state: 'Uttar Pradesh', coordinates: [77.3910, 28.5355], aliases: ['greater noida'], pincodes: ['2013'] },
+    { city: 'ghaziabad', state: 'Uttar Pradesh', coordinates: [77.4538, 28.6692], pincodes: ['2010'] },
+    { city: 'gurugram', state: 'Haryana', coordinates: [77.0266, 28.4595], aliases: ['gurgaon'], pincodes: ['122'] },
+    { city: 'faridabad', state: 'Haryana', coordinates: [77.3178, 28.4089], pincodes: ['121'] },
+    { city: 'mumbai', state: 'Maharashtra', coordinates: [72.8777, 19.0760], aliases: ['bombay'], pincodes: ['400'] },
+    { city: 'thane', state: 'Maharashtra', coordinates: [72.9781, 19.2183], pincodes: ['4006'] },
+    { city: 'navi mumbai', state: 'Maharashtra', coordinates: [73.0297, 19.0330], aliases: ['vashi'], pincodes: ['4007'] },
+    { city: 'pune', state: 'Maharashtra', coordinates: [73.8567, 18.5204], aliases: ['poona'], pincodes: ['411', '412'] },
+    { city: 'nagpur', state: 'Maharashtra', coordinates: [79.0882, 21.1458], pincodes: ['440'] },
+    { city: 'nashik', state: 'Maharashtra', coordinates: [73.7898, 19.9975], pincodes: ['422'] },
+    { city: 'aurangabad', state: 'Maharashtra', coordinates: [75.3433, 19.8762], aliases: ['chhatrapati sambhajinagar'], pincodes: ['431'] },
+    { city: 'bangalore', state: 'Karnataka', coordinates: [77.5946, 12.9716], aliases: ['bengaluru'], pincodes: ['560'] },
+    { city: 'mysuru', state: 'Karnataka', coordinates: [76.6394, 12.2958], aliases: ['mysore'], pincodes: ['570'] },
+    { city: 'mangaluru', state: 'Karnataka', coordinates: [74.8560, 12.9141], aliases: ['mangalore'], pincodes: ['575'] },
+    { city: 'hubballi', state: 'Karnataka', coordinates: [75.1240, 15.3647], aliases: ['hubli', 'dharwad'], pincodes: ['580'] },
+    { city: 'belagavi', state: 'Karnataka', coordinates: [74.4977, 15.8497], aliases: ['belgaum'], pincodes: ['590'] },
+    { city: 'chennai', state: 'Tamil Nadu', coordinates: [80.2707, 13.0827], aliases: ['madras'], pincodes: ['600'] },
+    { city: 'coimbatore', state: 'Tamil Nadu', coordinates: [76.9558, 11.0168], pincodes: ['641'] },
+    { city: 'madurai', state: 'Tamil Nadu', coordinates: [78.1198, 9.9252], pincodes: ['625'] },
+    { city: 'tiruchirappalli', state: 'Tamil Nadu', coordinates: [78.7047, 10.7905], aliases: ['trichy'], pincodes: ['620'] },
+    { city: 'salem', state: 'Tamil Nadu', coordinates: [78.1460, 11.6643], pincodes: ['636'] },
+    { city: 'puducherry', state: 'Puducherry', coordinates: [79.8083, 11.9416], aliases: ['pondicherry'], pincodes: ['605'] },
+    { city: 'hyderabad', state: 'Telangana', coordinates: [78.4867, 17.3850], aliases: ['secunderabad'], pincodes: ['500'] },
+    { city: 'warangal', state: 'Telangana', coordinates: [79.5941, 17.9689], pincodes: ['506'] },
+    { city: 'visakhapatnam', state: 'Andhra Pradesh', coordinates: [83.2185, 17.6868], aliases: ['vizag'], pincodes: ['530'] },
+    { city: 'vijayawada', state: 'Andhra Pradesh', coordinates: [80.6480, 16.5062], pincodes: ['520'] },
+    { city: 'tirupati', state: 'Andhra Pradesh', coordinates: [79.4192, 13.6288], pincodes: ['517'] },
+    { city: 'kochi', state: 'Kerala', coordinates: [76.2673, 9.9312], aliases: ['cochin', 'ernakulam'], pincodes: ['682'] },
+    { city: 'thiruvananthapuram', state: 'Kerala', coordinates: [76.9366, 8.5241], aliases: ['trivandrum'], pincodes: ['695'] },
+    { city: 'kozhikode', state: 'Kerala', coordinates: [75.7804, 11.2588], aliases: ['calicut'], pincodes: ['673'] },
+    { city: 'thrissur', state: 'Kerala', coordinates: [76.2144, 10.5276], pincodes: ['680'] },
+    { city: 'kolkata', state: 'West Bengal', coordinates: [88.3639, 22.5726], aliases: ['calcutta', 'howrah'], pincodes: ['700'] },
+    { city: 'siliguri', state: 'West Bengal', coordinates: [88.3953, 26.7271], pincodes: ['734'] },
+    { city: 'durgapur', state: 'West Bengal', coordinates: [87.3119, 23.5204], pincodes: ['713'] },
+    { city: 'ahmedabad', state: 'Gujarat', coordinates: [72.5714, 23.0225], aliases: ['gandhinagar'], pincodes: ['380', '382'] },
+    { city: 'surat', state: 'Gujarat', coordinates: [72.8311, 21.1702], pincodes: ['394', '395'] },
+    { city: 'vadodara', state: 'Gujarat', coordinates: [73.1812, 22.3072], aliases: ['baroda'], pincodes: ['390', '391'] },
+    { city: 'rajkot', state: 'Gujarat', coordinates: [70.8022, 22.3039], pincodes: ['360'] },
+    { city: 'jaipur', state: 'Rajasthan', coordinates: [75.7873, 26.9124], pincodes: ['302', '303'] },
+    { city: 'jodhpur', state: 'Rajasthan', coordinates: [73.0243, 26.2389], pincodes: ['342'] },
+    { city: 'udaipur', state: 'Rajasthan', coordinates: [73.7125, 24.5854], pincodes: ['313'] },
+    { city: 'kota', state: 'Rajasthan', coordinates: [75.8648, 25.2138], pincodes: ['324'] },
+    { city: 'lucknow', state: 'Uttar Pradesh', coordinates: [80.9462, 26.8467], pincodes: ['226'] },
+    { city: 'kanpur', state: 'Uttar Pradesh', coordinates: [80.3319, 26.4499], pincodes: ['208'] },
+    { city: 'agra', state: 'Uttar Pradesh', coordinates: [78.0081, 27.1767], pincodes: ['282'] },
+    { city: 'varanasi', state: 'Uttar Pradesh', coordinates: [82.9739, 25.3176], aliases: ['banaras', 'benares'], pincodes: ['221'] },
+    { city: 'prayagraj', state: 'Uttar Pradesh', coordinates: [81.8463, 25.4358], aliases: ['allahabad'], pincodes: ['211'] },
+    { city: 'meerut', state: 'Uttar Pradesh', coordinates: [77.7064, 28.9845], pincodes: ['250'] },
+    { city: 'dehradun', state: 'Uttarakhand', coordinates: [78.0322, 30.3165], pincodes: ['248'] },
+    { city: 'chandigarh', state: 'Chandigarh', coordinates: [76.7794, 30.7333], aliases: ['mohali', 'panchkula'], pincodes: ['160'] },
+    { city: 'ludhiana', state: 'Punjab', coordinates: [75.8573, 30.9010], pincodes: ['141'] },
+    { city: 'amritsar', state: 'Punjab', coordinates: [74.8723, 31.6340], pincodes: ['143'] },
+    { city: 'shimla', state: 'Himachal Pradesh', coordinates: [77.1734, 31.1048], pincodes: ['171'] },
+    { city: 'jammu', state: 'Jammu and Kashmir', coordinates: [74.8570, 32.7266], pincodes: ['180'] },
+    { city: 'srinagar', state: 'Jammu and Kashmir', coordinates: [74.7973, 34.0837], pincodes: ['190'] },
+    { city: 'bhopal', state: 'Madhya Pradesh', coordinates: [77.4126, 23.2599], pincodes: ['462'] },
+    { city: 'indore', state: 'Madhya Pradesh', coordinates: [75.8577, 22.7196], pincodes: ['452'] },
+    { city: 'gwalior', state: 'Madhya Pradesh', coordinates: [78.1828, 26.2183], pincodes: ['474'] },
+    { city: 'jabalpur', state: 'Madhya Pradesh', coordinates: [79.9864, 23.1815], pincodes: ['482'] },
+    { city: 'raipur', state: 'Chhattisgarh', coordinates: [81.6296, 21.2514], pincodes: ['492'] },
+    { city: 'patna', state: 'Bihar', coordinates: [85.1376, 25.5941], pincodes: ['800'] },
+    { city: 'ranchi', state: 'Jharkhand', coordinates: [85.3096, 23.3441], pincodes: ['834'] },
+    { city: 'jamshedpur', state: 'Jharkhand', coordinates: [86.2029, 22.8046], pincodes: ['831'] },
+    { city: 'dhanbad', state: 'Jharkhand', coordinates: [86.4304, 23.7957], pincodes: ['826'] },
+    { city: 'bhubaneswar', state: 'Odisha', coordinates: [85.8245, 20.2961], pincodes: ['751'] },
+    { city: 'cuttack', state: 'Odisha', coordinates: [85.8830, 20.4625], pincodes: ['753'] },
+    { city: 'guwahati', state: 'Assam', coordinates: [91.7362, 26.1445], pincodes: ['781'] },
+    { city: 'shillong', state: 'Meghalaya', coordinates: [91.8933, 25.5788], pincodes: ['793'] },
+    { city: 'imphal', state: 'Manipur', coordinates: [93.9368, 24.8170], pincodes: ['795'] },
+    { city: 'agartala', state: 'Tripura', coordinates: [91.2868, 23.8315], pincodes: ['799'] },
+    { city: 'gangtok', state: 'Sikkim', coordinates: [88.6065, 27.3389], pincodes: ['737'] },
+    { city: 'panaji', state: 'Goa', coordinates: [73.8278, 15.4909], aliases: ['panjim', 'goa'], pincodes: ['403'] }
+];
@@ -0,0 +1,74 @@
+/**
+ * Blood request lifecycle
+ *
+ * pending → approved → reserved → dispatched → fulfilled
+ *
+ * A request can also end as rejected, cancelled or expired before it is
+ * dispatched. Each transition lists the actors allowed to make it:
+ * - admin:     any platform admin
+ * - hospital:  the hospital serving the request (hospitals it was routed to may accept it while pending)
+ * - requester: the seeker or hospital that raised the request
+ * - system:    scheduled jobs (request expiry)
+ */
+
+export const REQUEST_STATUSES = [
+    'pending',
+    'approved',
+    'reserved',
+    'dispatched',
+    'fulfilled',
+    'rejected',
+    'cancelled',
+    'expired'
+];
+
+export const TERMINAL_STATUSES = ['fulfilled', 'rejected', 'cancelled', 'expired'];
+
+export const REQUEST_TRANSITIONS = {
+    pending: {
+        approved: ['admin', 'hospital'],
+        rejected: ['admin'],
+        cancelled: ['admin', 'requester'],
+        expired: ['admin', 'system']
+    },
+    approved: {
+        // The serving hospital hands the request back so another can take it
+        pending: ['admin', 'hospital'],
+        reserved: ['admin', 'hospital'],
+        rejected: ['admin'],
+        cancelled: ['admin', 'requester'],
+        expired: ['admin', 'system']
+    },
+    reserved: {
+        dispatched: ['admin', 'hospital'],
+        cancelled: ['admin', 'requester']
+    },
+    dispatched: {
+        fulfilled: ['admin', 'hospital']
+    },
+    fulfilled: {},
+    rejected: {},
+    cancelled: {},
+    expired: {}
+};
+
+/**
+ * Check whether an actor may move a request between two statuses
+ * @param {String} from - Current status
+ * @param {String} to - Target status
+ * @param {Array} actors - Actor roles held by the user (see above)
+ * @returns {Boolean}
+ */
+export const canTransition = (from, to, actors = []) => {
+    const allowed = REQUEST_TRANSITIONS[from]?.[to] || [];
+    return actors.some(actor => allowed.includes(actor));
+};
+
+/**
+ * Get the statuses an actor may move a request to next
+ * @returns {Array} - Target statuses
+ */
+export const getAllowedTransitions = (from, actors = []) => {
+    return Object.keys(REQUEST_TRANSITIONS[from] || {})
+        .filter(to => canTransition(from, to, actors));
+};
@@ -0,0 +1,89 @@
+/**
+ * RaktSetu Google Sign-In Stand-in
+ *
+ * Signs Google-style ID tokens with a local key, so POST /api/auth/google
+ * can be tried (and tested) without a Google client. The first run creates
+ * an RSA key: its public half is written to GOOGLE_JWKS_FILE, which the
+ * backend then uses instead of Google's keys, and its private half next to it.
+ *
+ * Run with: npm run google:token -- <email> [name]
+ * Needs GOOGLE_CLIENT_ID and GOOGLE_JWKS_FILE (e.g. google-dev/jwks.json) in .env.
+ * Never set GOOGLE_JWKS_FILE in production.
+ */
+
+import crypto from 'crypto';
+import fs from 'fs/promises';
+import path from 'path';
+import jwt from 'jsonwebtoken';
+import dotenv from 'dotenv';
+
+// Load environment variables
+dotenv.config();
+
+const KEY_ID = 'raktsetu-dev';
+
+// Token lifetime, as Google's (1 hour)
+const TOKEN_EXPIRES_IN = '1h';
+
+const jwksFile = process.env.GOOGLE_JWKS_FILE;
+const clientId = (process.env.GOOGLE_CLIENT_ID || '').split(',')[0].trim();
+const [email, name] = process.argv.slice(2);
+
+/**
+ * The stand-in private key, created with its JWKS file on first use
+ */
+const loadPrivateKey = async (keyFile) => {
+    try {
+        return await fs.readFile(keyFile, 'utf8');
+    } catch (error) {
+        if (error.code !== 'ENOENT') throw error;
+    }
+
+    const { publicKey, privateKey } = crypto.generateKeyPairSync('rsa', { modulusLength: 2048 });
+    const jwk = { ...publicKey.export({ format: 'jwk' }), kid: KEY_ID, alg: 'RS256', use: 'sig' };
+    const pem = privateKey.export({ type: 'pkcs8', format: 'pem' });
+
+    await fs.mkdir(path.dirname(jwksFile), { recursive: true });
+    await fs.writeFile(jwksFile, JSON.stringify({ keys: [jwk] }, null, 2));
+    await fs.writeFile(keyFile, pem, { mode: 0o600 });
+
+    console.error(`🔑 Created stand-in Google keys in ${jwksFile}`);
+    return pem;
+};
+
+const main = async () => {
+    if (!jwksFile || !clientId) {
+        console.error('❌ Set GOOGLE_CLIENT_ID and GOOGLE_JWKS_FILE first');
+        process.exit(1);
+    }
+    if (!email) {
+        console.error('Usage: npm run google:token -- <email> [name]');
+        process.exit(1);
+    }
+
+    const privateKey = await loadPrivateKey(jwksFile.replace(/\.json$/, '') + '.key.pem');
+
+    // The same email always gets the same Google account id
+    const sub = BigInt(`0x${crypto.createHash('sha256').update(email.toLowerCase()).digest('hex').slice(0, 16)}`).toString();
+
+    const token = jwt.sign({
+        sub,
+        email,
+        email_verified: true,
+        name: name || email.split('@')[0]
+    }, privateKey, {
+        algorithm: 'RS256',
+        keyid: KEY_ID,
+        issuer: 'https://accounts.google.com',
+        audience: clientId,
+        expiresIn: TOKEN_EXPIRES_IN
+    });
+
+    // Only the token goes to stdout, so it can be piped or captured
+    console.log(token);
+};
+
+main().catch(error => {
+    console.error('❌ Could not create a token:', error);
+    process.exit(1);
+});
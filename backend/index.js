@@ -2,6 +2,15 @@ import express from 'express';
 import cors from 'cors';
 import dotenv from 'dotenv';
 import { connectDb } from './config/db.js';
+import { startExpirySweeper } from './jobs/expirySweeper.js';
+import { startRequestExpiry } from './jobs/requestExpiry.js';
+import { startNotificationRetry } from './jobs/notificationRetry.js';
+import { startStorageCleanup } from './jobs/storageCleanup.js';
+import BloodInventory from './models/BloodInventory.js';
+import { linkUnlinkedStaff } from './services/hospitalAccounts.js';
+import { geocodeMissingLocations } from './services/geocoding.js';
+import { migrateLegacyProfilePhotos } from './services/profilePhotos.js';
+import { migrateLegacyDocuments } from './services/requestDocuments.js';
 
 // Import routes
 import authRoutes from './routes/auth.js';
@@ -12,6 +21,15 @@ import registerRoutes from './routes/register.js';
 import adminAuthRoutes from './routes/adminAuth.js';
 import hospitalRoutes from './routes/hospitals.js';
 import hospitalStaffRoutes from './routes/hospitalStaff.js';
+import compatibilityRoutes from './routes/compatibility.js';
+import eventRoutes from './routes/events.js';
+import notificationRoutes from './routes/notifications.js';
+import appointmentRoutes from './routes/appointments.js';
+import donationRoutes from './routes/donations.js';
+import eligibilityRoutes from './routes/eligibility.js';
+import driveRoutes from './routes/drives.js';
+import uploadRoutes from './routes/upload.js';
+import fileRoutes from './routes/files.js';
 
 // Load environment variables
 dotenv.config();
@@ -34,42 +52,119 @@ app.get('/', (req, res) => {
         message: 'RaktSetu API is running',
         version: '1.0.0',
         endpoints: {
+            auth: {
+                login: 'POST /api/auth/login',
+                refresh: 'POST /api/auth/refresh (refresh cookie)',
+                logout: 'POST /api/auth/logout',
+                logoutAll: 'POST /api/auth/logout-all',
+                sessions: 'GET /api/auth/sessions, DELETE /api/auth/sessions/:id',
+                verifyEmail: 'POST /api/auth/verify-email/send, POST /api/auth/verify-email',
+                verifyPhone: 'POST /api/auth/verify-phone/send, POST /api/auth/verify-phone',
+                forgotPassword: 'POST /api/auth/forgot-password',
+                resetPassword: 'POST /api/auth/reset-password',
+                google: 'GET /api/auth/google/config, POST /api/auth/google, POST /api/auth/google/link'
+            },
             registration: {
                 donor: 'POST /api/register/register-donor',
                 hospital: 'POST /api/register/register-hospital',
                 seeker: 'POST /api/register/register-seeker (returns nearby hospitals)'
             },
             hospitals: {
-                search: 'GET /api/hospitals/search?location=delhi',
+                search: 'GET /api/hospitals/search?location=delhi&bloodGroup=AB%2B',
                 nearby: 'GET /api/hospitals/nearby?lat=28.6&lng=77.2&radius=10',
                 list: 'GET /api/hospitals?city=mumbai',
                 cities: 'GET /api/hospitals/cities'
             },
+            compatibility: {
+                table: 'GET /api/compatibility',
+                group: 'GET /api/compatibility?bloodGroup=AB%2B',
+                requestMatches: 'GET /api/requests/:id/matches'
+            },
+            requests: {
+                create: 'POST /api/requests',
+                transition: 'PUT /api/requests/:id { status, note }',
+                broadcast: 'POST /api/requests/:id/broadcast',
+                appeals: 'GET /api/requests/emergency (donor)',
+                respond: 'POST /api/requests/:id/respond { eta_minutes, note }',
+                documents: 'POST /api/requests/:id/documents (multipart documents), GET (signed link)|DELETE /api/requests/:id/documents/:documentId',
+                requisition: 'PUT /api/requests/:id/requisition { status: verified|rejected, note }',
+                inbox: 'GET /api/hospital/requests'
+            },
             hospitalStaff: {
+                profile: 'GET /api/hospital/profile',
                 inventory: 'GET /api/hospital/inventory',
                 addStock: 'POST /api/hospital/inventory/add',
                 updateStock: 'POST /api/hospital/inventory/update',
                 reduceStock: 'POST /api/hospital/inventory/reduce',
+                expiring: 'GET /api/hospital/inventory/expiring?days=7',
+                units: 'GET /api/hospital/units?status=available',
+                receiveUnits: 'POST /api/hospital/units/receive',
+                issueUnits: 'POST /api/hospital/units/issue',
+                unitStatus: 'PUT /api/hospital/units/:id/status',
+                slots: 'GET|POST /api/hospital/slots',
+                appointments: 'GET /api/hospital/appointments?date=2025-03-01',
+                checkIn: 'POST /api/hospital/appointments/:id/check-in',
+                recordDonation: 'POST /api/hospital/donations',
                 reminders: 'GET /api/hospital/reminders',
                 sendReminders: 'POST /api/hospital/reminders/send'
             },
+            appointments: {
+                slots: 'GET /api/appointments/slots?city=delhi',
+                mine: 'GET /api/appointments/me',
+                book: 'POST /api/appointments { slotId }',
+                reschedule: 'PUT /api/appointments/:id { slotId }',
+                cancel: 'DELETE /api/appointments/:id'
+            },
+            donations: {
+                mine: 'GET /api/donations/me'
+            },
+            drives: {
+                nearby: 'GET /api/drives?lat=28.6&lng=77.2&radius=50',
+                mine: 'GET /api/drives/me',
+                register: 'POST|DELETE /api/drives/:id/register',
+                checkIn: 'POST /api/drives/:id/check-in',
+                organised: 'GET /api/drives/organised',
+                create: 'POST /api/drives',
+                cancel: 'POST /api/drives/:id/cancel',
+                registrations: 'GET /api/drives/:id/registrations',
+                recordDonation: 'POST /api/drives/:id/registrations/:registrationId/donation'
+            },
+            eligibility: {
+                mine: 'GET /api/eligibility/me',
+                questionnaire: 'GET /api/eligibility/questionnaire',
+                check: 'POST /api/eligibility/check { answers }',
+                quizHistory: 'GET /api/eligibility/quiz',
+                submitQuiz: 'POST /api/eligibility/quiz { version, answers }'
+            },
+            users: {
+                notificationPreferences: 'GET|PUT /api/users/notification-preferences',
+                profilePhoto: 'POST /api/users/profile-photo (multipart profileDetail)'
+            },
+            files: {
+                download: 'GET /api/files/:key (profile photos, or signed ?expires=&signature=)'
+            },
+            notifications: {
+                list: 'GET /api/notifications?unread=true',
+                markRead: 'PUT /api/notifications/:id/read',
+                markAllRead: 'PUT /api/notifications/read-all'
+            },
+            events: {
+                ticket: 'POST /api/events/ticket',
+                stream: 'GET /api/events?ticket=<ticket> (Server-Sent Events)'
+            },
             admin: {
                 login: 'POST /api/admin/admin-login',
-                dashboard: 'GET /api/admin/admin-dashboard'
+                dashboard: 'GET /api/admin/admin-dashboard',
+                linkHospital: 'PUT /api/admin/users/:id/hospital { hospitalId }',
+                pendingHospitals: 'GET /api/admin/hospitals/pending',
+                approveHospital: 'PUT /api/admin/hospitals/:id/approve',
+                questionnaires: 'GET|POST /api/admin/questionnaires',
+                activateQuestionnaire: 'POST /api/admin/questionnaires/:id/activate'
             }
         }
     });
 });
 
-// Serve static files from uploads directory
-import path from 'path';
-import { fileURLToPath } from 'url';
-import uploadRoutes from './routes/upload.js';
-
-const __filename = fileURLToPath(import.meta.url);
-const __dirname = path.dirname(__filename);
-app.use('/uploads', express.static(path.join(__dirname, 'uploads')));
-
 // API Routes
 app.use('/api/auth', authRoutes);
 app.use('/api/users', userRoutes);
@@ -80,6 +175,14 @@ app.use('/api/admin', adminAuthRoutes);      // Admin login and dashboard
 app.use('/api/register', registerRoutes);    // Role-specific registration
 app.use('/api/hospitals', hospitalRoutes);   // Hospital search
 app.use('/api/hospital', hospitalStaffRoutes); // Hospital staff inventory & reminders
+app.use('/api/compatibility', compatibilityRoutes); // ABO/Rh compatibility rules
+app.use('/api/events', eventRoutes);         // Live updates (Server-Sent Events)
+app.use('/api/notifications', notificationRoutes); // In-app notification center
+app.use('/api/appointments', appointmentRoutes); // Donation appointment booking
+app.use('/api/donations', donationRoutes);   // Donor donation history
+app.use('/api/eligibility', eligibilityRoutes); // Donor eligibility checks
+app.use('/api/drives', driveRoutes);         // Donation drives (camps)
+app.use('/api/files', fileRoutes);           // Stored files (photos, signed document links)
 
 // 404 handler
 app.use((req, res) => {
@@ -100,7 +203,32 @@ app.use((err, req, res, next) => {
 });
 
 // Connect to database and start server
-connectDb().then(() => {
+connectDb().then(async () => {
+    // Stock recorded before component tracking is whole blood
+    await BloodInventory.migrateComponents();
+
+    // Stock counted before unit tracking gets bag records
+    const backfilled = await BloodInventory.backfillUnits();
+    if (backfilled > 0) console.log(`🩸 Created ${backfilled} bag records for stock counted before unit tracking`);
+
+    // Staff accounts created before hospital linking own their stock directly
+    const linked = await linkUnlinkedStaff();
+    if (linked > 0) console.log(`🔗 Linked ${linked} hospital staff accounts to hospitals`);
+
+    // Users and open requests saved before geocoding get coordinates
+    const located = await geocodeMissingLocations();
+    if (located > 0) console.log(`📍 Geocoded ${located} users and blood requests`);
+
+    // Files written before storage drivers move into storage
+    const photos = await migrateLegacyProfilePhotos();
+    const documents = await migrateLegacyDocuments();
+    if (photos + documents > 0) console.log(`📦 Moved ${photos} profile photos and ${documents} request documents into storage`);
+
+    startExpirySweeper();
+    startRequestExpiry();
+    startNotificationRetry();
+    startStorageCleanup();
+
     app.listen(port, () => {
         console.log(`Server is running at http://localhost:${port}`);
         console.log(`Environment: ${process.env.NODE_ENV || 'development'}`);
@@ -0,0 +1,54 @@
+/**
+ * Expiry Sweeper Job
+ *
+ * Periodically marks blood units past their expiry date as expired and
+ * recomputes the affected inventory counters so that expired bags are
+ * never offered for issue.
+ */
+
+import BloodUnit from '../models/BloodUnit.js';
+import BloodInventory from '../models/BloodInventory.js';
+import { publishInventoryChange } from '../services/realtime.js';
+
+// Default interval between sweeps (minutes)
+const DEFAULT_INTERVAL_MINUTES = 60;
+
+/**
+ * Run a single sweep
+ * @returns {Number} - Number of units marked expired
+ */
+export const sweepExpiredUnits = async () => {
+    const affected = await BloodUnit.markExpired();
+
+    for (const { hospital_id, blood_group, component } of affected) {
+        const inventory = await BloodInventory.syncFromUnits(hospital_id, blood_group, component);
+        publishInventoryChange(hospital_id, [inventory]);
+    }
+
+    const expiredCount = affected.reduce((sum, item) => sum + item.count, 0);
+    if (expiredCount > 0) {
+        console.log(`🗑️ Expiry sweep: marked ${expiredCount} units expired across ${affected.length} stock groups`);
+    }
+
+    return expiredCount;
+};
+
+/**
+ * Start the sweeper on a fixed interval
+ * Interval is read from EXPIRY_SWEEP_INTERVAL_MINUTES (default 60).
+ * @returns {Object} - Interval handle
+ */
+export const startExpirySweeper = () => {
+    const minutes = parseInt(process.env.EXPIRY_SWEEP_INTERVAL_MINUTES) || DEFAULT_INTERVAL_MINUTES;
+
+    const run = () => sweepExpiredUnits().catch(error => {
+        console.error('❌ Expiry sweep failed:', error);
+    });
+
+    // Sweep once on startup, then on every interval
+    run();
+    const handle = setInterval(run, minutes * 60 * 1000);
+
+    console.log(`⏱️ Expiry sweeper running every ${minutes} minutes`);
+    return handle;
+};
@@ -0,0 +1,27 @@
+/**
+ * Notification Retry Job
+ *
+ * Periodically retries notification deliveries that failed and are due for
+ * another attempt (see services/notificationDispatcher.js).
+ */
+
+import { retryPendingDeliveries } from '../services/notificationDispatcher.js';
+
+// Interval between checks (minutes)
+const CHECK_INTERVAL_MINUTES = 1;
+
+/**
+ * Start the retry check on a fixed interval
+ * @returns {Object} - Interval handle
+ */
+export const startNotificationRetry = () => {
+    const run = () => retryPendingDeliveries()
+        .then(retried => {
+            if (retried > 0) console.log(`🔁 Notification retry: retried ${retried} notifications`);
+        })
+        .catch(error => {
+            console.error('❌ Notification retry failed:', error);
+        });
+
+    return setInterval(run, CHECK_INTERVAL_MINUTES * 60 * 1000);
+};
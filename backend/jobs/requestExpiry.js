@@ -0,0 +1,43 @@
+/**
+ * Request Expiry Job
+ *
+ * Periodically expires blood requests that have sat pending without a
+ * hospital taking them up, so stale requests drop out of hospital queues.
+ */
+
+import BloodRequest from '../models/BloodRequest.js';
+import { publishRequestChange } from '../services/realtime.js';
+
+// Defaults (hours)
+const DEFAULT_EXPIRY_HOURS = 72;
+const CHECK_INTERVAL_HOURS = 1;
+
+/**
+ * Expire stale requests once
+ * Age limit is read from REQUEST_EXPIRY_HOURS (default 72).
+ * @returns {Number} - Number of requests expired
+ */
+export const expireStaleRequests = async () => {
+    const hours = parseInt(process.env.REQUEST_EXPIRY_HOURS) || DEFAULT_EXPIRY_HOURS;
+    const expired = await BloodRequest.expireStale(hours);
+    expired.forEach(request => publishRequestChange(request));
+
+    if (expired.length > 0) {
+        console.log(`⌛ Request expiry: expired ${expired.length} requests with no progress in ${hours} hours`);
+    }
+
+    return expired.length;
+};
+
+/**
+ * Start the request expiry check on a fixed interval
+ * @returns {Object} - Interval handle
+ */
+export const startRequestExpiry = () => {
+    const run = () => expireStaleRequests().catch(error => {
+        console.error('❌ Request expiry failed:', error);
+    });
+
+    run();
+    return setInterval(run, CHECK_INTERVAL_HOURS * 60 * 60 * 1000);
+};
@@ -0,0 +1,97 @@
+/**
+ * Storage Cleanup Job
+ *
+ * Periodically deletes stored files nothing points at any more: profile
+ * photos whose user has a newer one (or is gone) and request documents whose
+ * request or document entry was deleted, e.g. when a delete failed half-way.
+ * Files younger than STORAGE_ORPHAN_GRACE_HOURS are left alone so uploads
+ * that are still being saved are not caught.
+ */
+
+import User from '../models/User.js';
+import BloodRequest from '../models/BloodRequest.js';
+import { getStorage } from '../services/storage.js';
+import { AVATAR_PREFIX } from '../services/profilePhotos.js';
+import { DOCUMENT_PREFIX, getDocumentKey } from '../services/requestDocuments.js';
+
+// Defaults
+const DEFAULT_INTERVAL_HOURS = 24;
+const DEFAULT_GRACE_HOURS = 24;
+
+/**
+ * Storage keys still in use
+ * @returns {Set}
+ */
+const findReferencedKeys = async () => {
+    const keys = new Set();
+
+    const users = await User.find({ 'profilePhotoKeys.0': { $exists: true } }).select('profilePhotoKeys');
+    for (const user of users) {
+        user.profilePhotoKeys.forEach(key => keys.add(key));
+    }
+
+    const requests = await BloodRequest.find({ 'documents.0': { $exists: true } }).select('documents.fileName');
+    for (const request of requests) {
+        request.documents.forEach(doc => keys.add(getDocumentKey(doc)));
+    }
+
+    return keys;
+};
+
+/**
+ * Run a single cleanup
+ * @returns {Number} - Number of files deleted
+ */
+export const cleanupOrphanedFiles = async () => {
+    const storage = getStorage();
+    const graceHours = parseInt(process.env.STORAGE_ORPHAN_GRACE_HOURS) || DEFAULT_GRACE_HOURS;
+    const cutoff = Date.now() - graceHours * 60 * 60 * 1000;
+
+    // List before looking up references, so a file saved in between is never seen as unused
+    const files = [
+        ...await storage.list(AVATAR_PREFIX),
+        ...await storage.list(DOCUMENT_PREFIX)
+    ].filter(file => file.lastModified.getTime() < cutoff);
+
+    if (files.length === 0) return 0;
+
+    const referenced = await findReferencedKeys();
+    let deleted = 0;
+
+    for (const file of files) {
+        if (referenced.has(file.key)) continue;
+
+        try {
+            await storage.remove(file.key);
+            deleted++;
+        } catch (error) {
+            console.error(`⚠️ Could not delete orphaned file ${file.key}:`, error.message);
+        }
+    }
+
+    if (deleted > 0) {
+        console.log(`🧹 Storage cleanup: deleted ${deleted} orphaned files`);
+    }
+
+    return deleted;
+};
+
+/**
+ * Start the cleanup on a fixed interval
+ * Interval is read from STORAGE_CLEANUP_INTERVAL_HOURS (default 24).
+ * @returns {Object} - Interval handle
+ */
+export const startStorageCleanup = () => {
+    const hours = parseInt(process.env.STORAGE_CLEANUP_INTERVAL_HOURS) || DEFAULT_INTERVAL_HOURS;
+
+    const run = () => cleanupOrphanedFiles().catch(error => {
+        console.error('❌ Storage cleanup failed:', error);
+    });
+
+    // Clean once on startup, then on every interval
+    run();
+    const handle = setInterval(run, hours * 60 * 60 * 1000);
+
+    console.log(`⏱️ Storage cleanup running every ${hours} hours`);
+    return handle;
+};
@@ -1,5 +1,6 @@
 import jwt from 'jsonwebtoken';
 import User from '../models/User.js';
+import { isSessionActive } from '../services/sessions.js';
 
 export const protect = async (req, res, next) => {
     try {
@@ -21,6 +22,14 @@ export const protect = async (req, res, next) => {
             // Verify token
             const decoded = jwt.verify(token, process.env.JWT_SECRET);
 
+            // Tokens stop working as soon as their session is logged out
+            if (!(await isSessionActive(decoded.sid, decoded.id))) {
+                return res.status(401).json({
+                    success: false,
+                    message: 'Session has ended. Please log in again.'
+                });
+            }
+
             // Get user from token
             const user = await User.findById(decoded.id);
 
@@ -32,6 +41,7 @@ export const protect = async (req, res, next) => {
             }
 
             req.user = user;
+            req.sessionId = decoded.sid;
             next();
         } catch (error) {
             return res.status(401).json({
@@ -48,9 +58,16 @@ export const protect = async (req, res, next) => {
     }
 };
 
-// Generate JWT token
-export const generateToken = (id) => {
-    return jwt.sign({ id }, process.env.JWT_SECRET, {
-        expiresIn: process.env.JWT_EXPIRES_IN || '7d'
-    });
+
+/**
+ * Only let users with a verified email address through (use after protect)
+ */
+export const requireVerified = (req, res, next) => {
+    if (!req.user.verified) {
+        return res.status(403).json({
+            success: false,
+            message: 'Please verify your email address first. Check your inbox for the link, or send a new one from your dashboard.'
+        });
+    }
+    next();
 };
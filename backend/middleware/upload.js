@@ -1,41 +1,100 @@
 import multer from 'multer';
-import path from 'path';
-import fs from 'fs';
-
-// Ensure uploads directory exists
-const uploadDir = 'uploads';
-if (!fs.existsSync(uploadDir)) {
-    fs.mkdirSync(uploadDir, { recursive: true });
-}
-
-// Configure storage
-const storage = multer.diskStorage({
-    destination: function (req, file, cb) {
-        cb(null, 'uploads/');
-    },
-    filename: function (req, file, cb) {
-        // Create unique filename: fieldname-timestamp-random.ext
-        const uniqueSuffix = Date.now() + '-' + Math.round(Math.random() * 1E9);
-        cb(null, file.fieldname + '-' + uniqueSuffix + path.extname(file.originalname));
+
+// Uploads are held in memory and checked before anything is stored;
+// services/storage.js decides where files end up
+
+// Recognised file types: magic bytes at the start of the file
+const FILE_SIGNATURES = [
+    { mimeType: 'image/jpeg', extension: '.jpg', matches: (b) => b[0] === 0xFF && b[1] === 0xD8 && b[2] === 0xFF },
+    { mimeType: 'image/png', extension: '.png', matches: (b) => b.subarray(0, 8).equals(Buffer.from([0x89, 0x50, 0x4E, 0x47, 0x0D, 0x0A, 0x1A, 0x0A])) },
+    { mimeType: 'image/gif', extension: '.gif', matches: (b) => /^GIF8[79]a$/.test(b.toString('latin1', 0, 6)) },
+    { mimeType: 'image/webp', extension: '.webp', matches: (b) => b.toString('latin1', 0, 4) === 'RIFF' && b.toString('latin1', 8, 12) === 'WEBP' },
+    { mimeType: 'application/pdf', extension: '.pdf', matches: (b) => b.toString('latin1', 0, 5) === '%PDF-' }
+];
+
+/**
+ * Work out a file's type from its content (the name and declared type can lie)
+ * @param {Buffer} buffer - File content
+ * @returns {Object|null} - { mimeType, extension }, or null when unrecognised
+ */
+export const detectFileType = (buffer) => {
+    if (!buffer || buffer.length < 12) return null;
+
+    const signature = FILE_SIGNATURES.find(type => type.matches(buffer));
+    return signature ? { mimeType: signature.mimeType, extension: signature.extension } : null;
+};
+
+// Profile photos: any common image, resized by services/profilePhotos.js
+const PHOTO_TYPES = ['image/jpeg', 'image/png', 'image/gif', 'image/webp'];
+
+// Request documents (prescriptions, requisition forms)
+const DOCUMENT_TYPES = ['image/jpeg', 'image/png', 'application/pdf'];
+
+export const MAX_DOCUMENTS = 5;
+
+const photoUpload = multer({
+    storage: multer.memoryStorage(),
+    limits: {
+        fileSize: 5 * 1024 * 1024, // 5MB max file size
+        files: 1
     }
 });
 
-// File filter (only images)
-const fileFilter = (req, file, cb) => {
-    // Accept images only
-    if (!file.originalname.match(/\.(jpg|jpeg|png|gif)$/)) {
-        return cb(new Error('Only image files are allowed!'), false);
+const documentUpload = multer({
+    storage: multer.memoryStorage(),
+    limits: {
+        fileSize: 10 * 1024 * 1024, // 10MB per document
+        files: MAX_DOCUMENTS
     }
-    cb(null, true);
+});
+
+/**
+ * Wrap a multer handler: answer upload errors with a 400, then check every
+ * file's content and replace its declared type with the detected one
+ */
+const checkUpload = (handler, allowedTypes, { messages, typeError }) => (req, res, next) => {
+    handler(req, res, (error) => {
+        const fail = (message) => res.status(400).json({
+            success: false,
+            message
+        });
+
+        if (error) return fail(messages[error.code] || error.message);
+
+        const files = req.files || (req.file ? [req.file] : []);
+        for (const file of files) {
+            const detected = detectFileType(file.buffer);
+            if (!detected || !allowedTypes.includes(detected.mimeType)) return fail(typeError);
+
+            file.mimetype = detected.mimeType;
+            file.extension = detected.extension;
+        }
+
+        next();
+    });
 };
 
-// Initialize upload middleware
-const upload = multer({
-    storage: storage,
-    fileFilter: fileFilter,
-    limits: {
-        fileSize: 5 * 1024 * 1024 // 5MB max file size
-    }
+/**
+ * Accept one profile photo in the `profileDetail` field
+ */
+export const uploadProfilePhoto = checkUpload(photoUpload.single('profileDetail'), PHOTO_TYPES, {
+    messages: {
+        LIMIT_FILE_SIZE: 'Photo must be 5MB or smaller',
+        LIMIT_FILE_COUNT: 'Upload one photo at a time',
+        LIMIT_UNEXPECTED_FILE: 'Unexpected file field'
+    },
+    typeError: 'Only JPG, PNG, GIF and WebP images are allowed'
 });
 
-export default upload;
+/**
+ * Accept up to MAX_DOCUMENTS files in the `documents` field
+ * Requests that are not multipart pass straight through.
+ */
+export const uploadDocuments = checkUpload(documentUpload.array('documents', MAX_DOCUMENTS), DOCUMENT_TYPES, {
+    messages: {
+        LIMIT_FILE_SIZE: 'Each document must be 10MB or smaller',
+        LIMIT_FILE_COUNT: `Upload at most ${MAX_DOCUMENTS} documents at a time`,
+        LIMIT_UNEXPECTED_FILE: 'Unexpected file field'
+    },
+    typeError: 'Only JPG, PNG and PDF documents are allowed'
+});
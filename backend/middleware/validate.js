@@ -1,4 +1,5 @@
 import { validationResult, body } from 'express-validator';
+import { COMPONENT_TYPES } from '../config/bloodComponents.js';
 
 // Middleware to check validation results
 export const validate = (req, res, next) => {
@@ -48,17 +49,44 @@ export const loginValidation = [
         .notEmpty().withMessage('Password is required')
 ];
 
+// Validation rules for asking for a password reset link
+// (not normalised: accounts from /api/register keep their email as typed, lowercased)
+export const forgotPasswordValidation = [
+    body('email')
+        .trim()
+        .notEmpty().withMessage('Email is required')
+        .isEmail().withMessage('Please provide a valid email')
+];
+
+// Validation rules for setting a new password from a reset link
+export const resetPasswordValidation = [
+    body('token')
+        .isString().notEmpty().withMessage('Reset token is required'),
+    body('password')
+        .notEmpty().withMessage('Password is required')
+        .isLength({ min: 6 }).withMessage('Password must be at least 6 characters')
+];
+
 // Validation rules for blood request
 export const bloodRequestValidation = [
     body('bloodGroup')
         .notEmpty().withMessage('Blood group is required')
         .isIn(['A+', 'A-', 'B+', 'B-', 'AB+', 'AB-', 'O+', 'O-']).withMessage('Invalid blood group'),
+    body('component')
+        .optional()
+        .isIn(COMPONENT_TYPES).withMessage('Invalid blood component'),
     body('unitsRequested')
         .notEmpty().withMessage('Number of units is required')
         .isInt({ min: 1 }).withMessage('At least 1 unit must be requested'),
     body('urgency')
         .optional()
         .isIn(['low', 'medium', 'high', 'critical']).withMessage('Invalid urgency level'),
+    body('latitude')
+        .optional()
+        .isFloat({ min: -90, max: 90 }).withMessage('Latitude must be between -90 and 90'),
+    body('longitude')
+        .optional()
+        .isFloat({ min: -180, max: 180 }).withMessage('Longitude must be between -180 and 180'),
     body('reason')
         .trim()
         .notEmpty().withMessage('Reason for request is required')
@@ -0,0 +1,56 @@
+/**
+ * Account Token Model
+ *
+ * A single-use secret sent to a user to prove they control an address:
+ * an email verification link, a password reset link or a phone code
+ * (see services/accountTokens.js). Only a hash of the secret is stored.
+ * A token is used once, then kept until it expires; expired tokens are
+ * removed by MongoDB.
+ */
+
+import mongoose from 'mongoose';
+
+export const TOKEN_PURPOSES = ['email_verification', 'phone_verification', 'password_reset'];
+
+const accountTokenSchema = new mongoose.Schema({
+    user: {
+        type: mongoose.Schema.Types.ObjectId,
+        ref: 'User',
+        required: true
+    },
+    purpose: {
+        type: String,
+        enum: TOKEN_PURPOSES,
+        required: true
+    },
+    // SHA-256 of the link token or code
+    tokenHash: {
+        type: String,
+        required: true
+    },
+    // Email or phone number the token was sent to; it only proves that one
+    sentTo: {
+        type: String,
+        required: true
+    },
+    // Wrong guesses, for phone codes
+    attempts: {
+        type: Number,
+        default: 0
+    },
+    usedAt: Date,
+    expiresAt: {
+        type: Date,
+        required: true
+    }
+}, {
+    timestamps: true
+});
+
+accountTokenSchema.index({ tokenHash: 1 });
+accountTokenSchema.index({ user: 1, purpose: 1, usedAt: 1 });
+accountTokenSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+const AccountToken = mongoose.model('AccountToken', accountTokenSchema);
+
+export default AccountToken;
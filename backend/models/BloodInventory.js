@@ -2,16 +2,29 @@
  * BloodInventory Model
  * 
  * Stores blood stock data for each hospital.
- * Each hospital can have multiple blood groups with different quantities.
+ * Each hospital holds one row per blood group and component
+ * (whole blood, packed red cells, plasma, platelets, cryoprecipitate).
+ * The units_available counter is derived from the hospital's BloodUnit records.
  */
 
 import mongoose from 'mongoose';
+import BloodUnit from './BloodUnit.js';
+import { getCompatibleDonorGroups, compatibilityRank } from '../config/bloodCompatibility.js';
+import {
+    COMPONENT_TYPES,
+    DEFAULT_COMPONENT,
+    getCompatibilityProduct,
+    calculateExpiryDate
+} from '../config/bloodComponents.js';
+
+// Note on bags created from stock counts kept before unit tracking
+const LEGACY_UNIT_NOTE = 'Migrated from stock counts: check collection and expiry dates against the bag label';
 
 const bloodInventorySchema = new mongoose.Schema({
-    // Reference to the hospital (user with role 'hospital')
+    // Reference to the hospital directory record
     hospital_id: {
         type: mongoose.Schema.Types.ObjectId,
-        ref: 'User',
+        ref: 'Hospital',
         required: [true, 'Hospital ID is required']
     },
 
@@ -22,6 +35,13 @@ const bloodInventorySchema = new mongoose.Schema({
         enum: ['A+', 'A-', 'B+', 'B-', 'AB+', 'AB-', 'O+', 'O-']
     },
 
+    // Blood component type
+    component: {
+        type: String,
+        enum: COMPONENT_TYPES,
+        default: DEFAULT_COMPONENT
+    },
+
     // Number of units available
     units_available: {
         type: Number,
@@ -45,8 +65,8 @@ const bloodInventorySchema = new mongoose.Schema({
     timestamps: true
 });
 
-// Compound index for hospital + blood group (unique combination)
-bloodInventorySchema.index({ hospital_id: 1, blood_group: 1 }, { unique: true });
+// Compound index for hospital + blood group + component (unique combination)
+bloodInventorySchema.index({ hospital_id: 1, blood_group: 1, component: 1 }, { unique: true });
 
 /**
  * Check if stock is low (below threshold)
@@ -55,22 +75,122 @@ bloodInventorySchema.methods.isLowStock = function () {
     return this.units_available <= this.min_threshold;
 };
 
+/**
+ * Static method to upgrade stock recorded before component tracking
+ * Rows and bags without a component are whole blood, and the old
+ * hospital + blood group unique index is replaced by the component-aware one.
+ */
+bloodInventorySchema.statics.migrateComponents = async function () {
+    await this.updateMany({ component: { $exists: false } }, { component: DEFAULT_COMPONENT });
+    await BloodUnit.updateMany({ component: { $exists: false } }, { component: DEFAULT_COMPONENT });
+    await this.syncIndexes();
+};
+
 /**
  * Static method to get all inventory for a hospital
+ * @param {String} component - Only return rows for this component (optional)
  */
-bloodInventorySchema.statics.getHospitalInventory = async function (hospitalId) {
-    return this.find({ hospital_id: hospitalId })
-        .sort({ blood_group: 1 });
+bloodInventorySchema.statics.getHospitalInventory = async function (hospitalId, component) {
+    const query = { hospital_id: hospitalId };
+    if (component) query.component = component;
+
+    return this.find(query)
+        .sort({ component: 1, blood_group: 1 });
 };
 
 /**
- * Static method to update or create inventory for a blood group
+ * Static method to get the blood groups each hospital currently has in stock
+ * @param {Array} hospitalIds - Hospital IDs to look up
+ * @param {String} product - Only count the components that make up this product (optional)
+ * @returns {Map} - hospital id → blood groups with at least one available unit (any component unless a product is given)
  */
-bloodInventorySchema.statics.upsertInventory = async function (hospitalId, bloodGroup, units) {
+bloodInventorySchema.statics.getAvailableGroupsByHospital = async function (hospitalIds, product) {
+    const match = { hospital_id: { $in: hospitalIds }, units_available: { $gt: 0 } };
+    if (product) {
+        match.component = { $in: COMPONENT_TYPES.filter(component => getCompatibilityProduct(component) === product) };
+    }
+
+    const rows = await this.aggregate([
+        { $match: match },
+        { $group: { _id: '$hospital_id', groups: { $addToSet: '$blood_group' } } }
+    ]);
+
+    return new Map(rows.map(row => [row._id.toString(), row.groups.sort()]));
+};
+
+/**
+ * Static method to count the units each hospital holds for a recipient
+ * Counts every group compatible with the recipient, across the components
+ * that make up the product.
+ * @param {Array} hospitalIds - Hospital IDs to look up
+ * @param {String} recipientGroup - Patient blood group
+ * @param {String} product - red_cells | plasma | platelets | whole_blood
+ * @returns {Map} - hospital id → compatible units available
+ */
+bloodInventorySchema.statics.getCompatibleUnitsByHospital = async function (hospitalIds, recipientGroup, product) {
+    const components = COMPONENT_TYPES.filter(component => getCompatibilityProduct(component) === product);
+
+    const rows = await this.aggregate([
+        {
+            $match: {
+                hospital_id: { $in: hospitalIds },
+                blood_group: { $in: getCompatibleDonorGroups(recipientGroup, product) },
+                component: { $in: components },
+                units_available: { $gt: 0 }
+            }
+        },
+        { $group: { _id: '$hospital_id', units: { $sum: '$units_available' } } }
+    ]);
+
+    return new Map(rows.map(row => [row._id.toString(), row.units]));
+};
+
+/**
+ * Static method to find hospitals holding stock compatible with a recipient
+ * Hospitals holding the exact group come first, then those with the most
+ * compatible units.
+ * @param {String} recipientGroup - Patient blood group
+ * @param {String} component - Requested component (defaults to whole blood)
+ * @returns {Array} - [{ hospital_id, stock: [{ blood_group, units_available, rank }], total_units, exact_match }]
+ */
+bloodInventorySchema.statics.findCompatibleStock = async function (recipientGroup, component = DEFAULT_COMPONENT) {
+    const product = getCompatibilityProduct(component);
+    const compatibleGroups = getCompatibleDonorGroups(recipientGroup, product);
+
+    const rows = await this.find({
+        blood_group: { $in: compatibleGroups },
+        component,
+        units_available: { $gt: 0 }
+    });
+
+    const byHospital = new Map();
+    for (const row of rows) {
+        const key = row.hospital_id.toString();
+        if (!byHospital.has(key)) {
+            byHospital.set(key, { hospital_id: row.hospital_id, stock: [], total_units: 0, exact_match: false });
+        }
+        const entry = byHospital.get(key);
+        const rank = compatibilityRank(row.blood_group, recipientGroup, product);
+        entry.stock.push({ blood_group: row.blood_group, units_available: row.units_available, rank });
+        entry.total_units += row.units_available;
+        if (rank === 0) entry.exact_match = true;
+    }
+
+    return [...byHospital.values()]
+        .map(entry => ({ ...entry, stock: entry.stock.sort((a, b) => a.rank - b.rank) }))
+        .sort((a, b) => (b.exact_match - a.exact_match) || (b.total_units - a.total_units));
+};
+
+/**
+ * Static method to recompute units_available from the hospital's bag records
+ */
+bloodInventorySchema.statics.syncFromUnits = async function (hospitalId, bloodGroup, component = DEFAULT_COMPONENT) {
+    const unitsAvailable = await BloodUnit.countAvailable(hospitalId, bloodGroup, component);
+
     return this.findOneAndUpdate(
-        { hospital_id: hospitalId, blood_group: bloodGroup },
+        { hospital_id: hospitalId, blood_group: bloodGroup, component },
         {
-            units_available: units,
+            units_available: unitsAvailable,
             last_updated: new Date()
         },
         { upsert: true, new: true, runValidators: true }
@@ -78,42 +198,127 @@ bloodInventorySchema.statics.upsertInventory = async function (hospitalId, blood
 };
 
 /**
- * Static method to add units to inventory
+ * Static method to recompute every stock row touched by a set of units
+ * @param {Array} units - Unit documents (or { blood_group, component } objects)
+ * @returns {Array} - Updated inventory rows
  */
-bloodInventorySchema.statics.addUnits = async function (hospitalId, bloodGroup, unitsToAdd) {
-    const inventory = await this.findOne({ hospital_id: hospitalId, blood_group: bloodGroup });
-
-    if (inventory) {
-        inventory.units_available += unitsToAdd;
-        inventory.last_updated = new Date();
-        return inventory.save();
-    } else {
-        return this.create({
-            hospital_id: hospitalId,
-            blood_group: bloodGroup,
-            units_available: unitsToAdd,
-            last_updated: new Date()
-        });
+bloodInventorySchema.statics.syncUnitGroups = async function (hospitalId, units) {
+    const groups = new Map();
+    for (const unit of units) {
+        const component = unit.component || DEFAULT_COMPONENT;
+        groups.set(`${unit.blood_group}|${component}`, { blood_group: unit.blood_group, component });
+    }
+
+    const rows = [];
+    for (const { blood_group, component } of groups.values()) {
+        rows.push(await this.syncFromUnits(hospitalId, blood_group, component));
     }
+    return rows;
 };
 
 /**
- * Static method to reduce units from inventory
+ * Static method to create bag records for stock counted before unit tracking (run on startup)
+ * Any counter without tracked bags gets untraced "LEGACY" bags for its count.
+ * Their collection dates are unknown, but every bag was on the shelf when the
+ * row was last updated, so they are dated from then: the latest their expiry
+ * can be. Bags past even that date are recorded as expired.
+ * Batch IDs are numbered per stock row and written with upserts, so running again,
+ * or on two servers at once, never creates a bag twice.
+ * @returns {Number} - Bags created
  */
-bloodInventorySchema.statics.reduceUnits = async function (hospitalId, bloodGroup, unitsToReduce) {
-    const inventory = await this.findOne({ hospital_id: hospitalId, blood_group: bloodGroup });
+bloodInventorySchema.statics.backfillUnits = async function () {
+    const inventory = await this.find({ units_available: { $gt: 0 } });
+    const now = new Date();
+    let created = 0;
+
+    for (const item of inventory) {
+        const component = item.component || DEFAULT_COMPONENT;
+        const stock = { hospital_id: item.hospital_id, blood_group: item.blood_group, component };
 
-    if (!inventory) {
-        throw new Error(`No inventory found for blood group ${bloodGroup}`);
+        const tracked = await BloodUnit.exists({ ...stock, batch_id: { $not: /^LEGACY-/ } });
+        if (tracked) continue;
+
+        const collectionDate = item.last_updated || item.updatedAt;
+        const expiryDate = calculateExpiryDate(collectionDate, component);
+        const operations = Array.from({ length: item.units_available }, (_, i) => {
+            const batchId = `LEGACY-${item._id}-${i + 1}`;
+            return {
+                updateOne: {
+                    filter: { hospital_id: item.hospital_id, batch_id: batchId },
+                    update: {
+                        $setOnInsert: {
+                            ...stock,
+                            batch_id: batchId,
+                            collection_date: collectionDate,
+                            expiry_date: expiryDate,
+                            status: expiryDate <= now ? 'expired' : 'available',
+                            notes: LEGACY_UNIT_NOTE
+                        }
+                    },
+                    upsert: true
+                }
+            };
+        });
+
+        try {
+            const result = await BloodUnit.bulkWrite(operations, { ordered: false });
+            created += result.upsertedCount;
+        } catch (error) {
+            // Another server inserted the same bags first
+            if (error.code !== 11000) throw error;
+            created += error.result?.upsertedCount || 0;
+        }
+
+        await this.syncFromUnits(item.hospital_id, item.blood_group, component);
     }
 
-    if (inventory.units_available < unitsToReduce) {
-        throw new Error(`Insufficient stock. Only ${inventory.units_available} units available.`);
+    return created;
+};
+
+/**
+ * Static method to set the stock level after a physical stock-take
+ * Missing bags are received as untraced units; surplus bags are written off
+ * (first-expiry-first) as missing from the shelf.
+ */
+bloodInventorySchema.statics.upsertInventory = async function (hospitalId, bloodGroup, units, component = DEFAULT_COMPONENT) {
+    const current = await BloodUnit.countAvailable(hospitalId, bloodGroup, component);
+
+    if (units > current) {
+        await BloodUnit.receiveUnits(hospitalId, bloodGroup, Array.from({ length: units - current }, () => ({ component })));
+    } else if (units < current) {
+        await BloodUnit.discardUnits(hospitalId, bloodGroup, current - units, {
+            component,
+            notes: 'Written off at stock-take: not found on the shelf'
+        });
     }
 
-    inventory.units_available -= unitsToReduce;
-    inventory.last_updated = new Date();
-    return inventory.save();
+    return this.syncFromUnits(hospitalId, bloodGroup, component);
+};
+
+/**
+ * Static method to receive bags into inventory
+ * @param {Number} unitsToAdd - Number of bags received
+ * @param {Object} details - Shared bag details (incl. component), or `bags` with one entry per bag
+ * @returns {Object} - Updated inventory row for the shared component
+ */
+bloodInventorySchema.statics.addUnits = async function (hospitalId, bloodGroup, unitsToAdd, details = {}) {
+    const { bags, ...shared } = details;
+    const bagList = bags && bags.length > 0
+        ? bags
+        : Array.from({ length: unitsToAdd }, () => ({ ...shared }));
+
+    const received = await BloodUnit.receiveUnits(hospitalId, bloodGroup, bagList);
+    const [inventory] = await this.syncUnitGroups(hospitalId, received);
+    return inventory;
+};
+
+/**
+ * Static method to issue bags from inventory (first-expiry-first-out)
+ * @param {Object} details - { component, unitIds, issued_to, notes }
+ */
+bloodInventorySchema.statics.reduceUnits = async function (hospitalId, bloodGroup, unitsToReduce, details = {}) {
+    await BloodUnit.issueUnits(hospitalId, bloodGroup, unitsToReduce, details);
+    return this.syncFromUnits(hospitalId, bloodGroup, details.component || DEFAULT_COMPONENT);
 };
 
 const BloodInventory = mongoose.model('BloodInventory', bloodInventorySchema);
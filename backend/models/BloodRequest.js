@@ -1,4 +1,120 @@
 import mongoose from 'mongoose';
+import { COMPONENT_TYPES, DEFAULT_COMPONENT } from '../config/bloodComponents.js';
+import { REQUEST_STATUSES, canTransition } from '../config/requestLifecycle.js';
+
+// Longest requisition review note; short enough to quote in the requester's notification
+export const REQUISITION_NOTE_MAX_LENGTH = 300;
+
+// One entry per status change (append-only)
+const statusChangeSchema = new mongoose.Schema({
+    from: {
+        type: String,
+        enum: [...REQUEST_STATUSES, null],
+        default: null
+    },
+    to: {
+        type: String,
+        enum: REQUEST_STATUSES,
+        required: true
+    },
+    changedBy: {
+        type: mongoose.Schema.Types.ObjectId,
+        ref: 'User'
+    },
+    actor: {
+        type: String,
+        enum: ['admin', 'hospital', 'requester', 'system'],
+        required: true
+    },
+    note: String,
+    changedAt: {
+        type: Date,
+        default: Date.now
+    }
+}, { _id: false });
+
+// One entry per hospital the request was routed to
+const routedHospitalSchema = new mongoose.Schema({
+    // Hospital whose staff see the request in their inbox
+    hospital: {
+        type: mongoose.Schema.Types.ObjectId,
+        ref: 'Hospital',
+        required: true
+    },
+    // Compatible units the hospital held when the request was routed
+    availableUnits: {
+        type: Number,
+        default: 0
+    },
+    status: {
+        type: String,
+        enum: ['pending', 'accepted', 'partial', 'declined'],
+        default: 'pending'
+    },
+    unitsSupplied: {
+        type: Number,
+        default: 0
+    },
+    declineReason: String,
+    routedAt: {
+        type: Date,
+        default: Date.now
+    },
+    respondedAt: Date
+}, { _id: false });
+
+// One entry per donor who answered an emergency appeal
+const donorResponseSchema = new mongoose.Schema({
+    donor: {
+        type: mongoose.Schema.Types.ObjectId,
+        ref: 'User',
+        required: true
+    },
+    donorName: String,
+    bloodGroup: String,
+    phone: String,
+    // Minutes the donor needs to reach the hospital
+    etaMinutes: {
+        type: Number,
+        min: 1
+    },
+    note: String,
+    status: {
+        type: String,
+        enum: ['coming', 'withdrawn'],
+        default: 'coming'
+    },
+    respondedAt: {
+        type: Date,
+        default: Date.now
+    },
+    withdrawnAt: Date
+}, { _id: false });
+
+// One entry per prescription or requisition form attached by the requester
+const requestDocumentSchema = new mongoose.Schema({
+    kind: {
+        type: String,
+        enum: ['prescription', 'requisition', 'other'],
+        default: 'requisition'
+    },
+    originalName: String,
+    // File name in storage, under documents/ (services/requestDocuments.js)
+    fileName: {
+        type: String,
+        required: true
+    },
+    mimeType: String,
+    size: Number,
+    uploadedBy: {
+        type: mongoose.Schema.Types.ObjectId,
+        ref: 'User'
+    },
+    uploadedAt: {
+        type: Date,
+        default: Date.now
+    }
+});
 
 const bloodRequestSchema = new mongoose.Schema({
     requesterId: {
@@ -20,6 +136,11 @@ const bloodRequestSchema = new mongoose.Schema({
         enum: ['A+', 'A-', 'B+', 'B-', 'AB+', 'AB-', 'O+', 'O-'],
         required: [true, 'Blood group is required']
     },
+    component: {
+        type: String,
+        enum: COMPONENT_TYPES,
+        default: DEFAULT_COMPONENT
+    },
     unitsRequested: {
         type: Number,
         required: [true, 'Number of units is required'],
@@ -37,24 +158,411 @@ const bloodRequestSchema = new mongoose.Schema({
     },
     status: {
         type: String,
-        enum: ['pending', 'approved', 'fulfilled', 'rejected'],
+        enum: REQUEST_STATUSES,
         default: 'pending'
     },
+    statusHistory: {
+        type: [statusChangeSchema],
+        default: []
+    },
     approvedBy: {
         type: mongoose.Schema.Types.ObjectId,
         ref: 'User'
     },
+    // Hospital that accepted the request and is supplying the blood
+    servingHospital: {
+        type: mongoose.Schema.Types.ObjectId,
+        ref: 'Hospital'
+    },
+    // Hospitals the request was routed to by the matching service
+    routedTo: {
+        type: [routedHospitalSchema],
+        default: []
+    },
+    // Emergency appeals sent to nearby donors (services/emergencyBroadcast.js)
+    broadcast: {
+        count: {
+            type: Number,
+            default: 0
+        },
+        donorsNotified: {
+            type: Number,
+            default: 0
+        },
+        lastSentAt: Date
+    },
+    // Donors who answered an appeal
+    donorResponses: {
+        type: [donorResponseSchema],
+        default: []
+    },
+    // Prescriptions / requisition forms backing the request
+    documents: {
+        type: [requestDocumentSchema],
+        default: []
+    },
+    // Review of the documents; seeker requests need it verified before approval
+    requisition: {
+        // Set when the request is raised; requests from before documents were collected are exempt
+        requiredForApproval: Boolean,
+        status: {
+            type: String,
+            enum: ['pending', 'verified', 'rejected'],
+            default: 'pending'
+        },
+        reviewedBy: {
+            type: mongoose.Schema.Types.ObjectId,
+            ref: 'User'
+        },
+        reviewedAt: Date,
+        note: {
+            type: String,
+            maxlength: [REQUISITION_NOTE_MAX_LENGTH, `Note cannot exceed ${REQUISITION_NOTE_MAX_LENGTH} characters`]
+        }
+    },
+    // Units already supplied through partial fulfilment
+    unitsFulfilled: {
+        type: Number,
+        default: 0
+    },
     fulfilledAt: Date,
     notes: String,
     location: String,
+    // Where the blood is needed, [longitude, latitude] (sent or geocoded from location)
+    coordinates: {
+        type: [Number],
+        default: undefined
+    },
+    // device = sent by the browser, pincode / city = geocoded from location
+    locationPrecision: {
+        type: String,
+        enum: ['device', 'pincode', 'city']
+    },
     contactPhone: String
 }, {
     timestamps: true
 });
 
 // Index for efficient queries
-bloodRequestSchema.index({ status: 1, bloodGroup: 1 });
+bloodRequestSchema.index({ status: 1, bloodGroup: 1, component: 1 });
 bloodRequestSchema.index({ requesterId: 1 });
+bloodRequestSchema.index({ servingHospital: 1, status: 1 });
+bloodRequestSchema.index({ 'routedTo.hospital': 1, status: 1 });
+bloodRequestSchema.index({ urgency: 1, status: 1, 'broadcast.lastSentAt': -1 });
+
+// Seeker requests raised from now on need a verified requisition before approval
+bloodRequestSchema.pre('save', function (next) {
+    if (this.isNew && this.requisition.requiredForApproval === undefined) {
+        this.requisition.requiredForApproval = this.requesterType === 'seeker';
+    }
+    next();
+});
+
+// Record the initial status of a new request
+bloodRequestSchema.pre('save', function (next) {
+    if (this.isNew && this.statusHistory.length === 0) {
+        this.statusHistory.push({
+            from: null,
+            to: this.status,
+            changedBy: this.requesterId,
+            actor: 'requester'
+        });
+    }
+    next();
+});
+
+/**
+ * Get the lifecycle actor roles a user holds for this request
+ * @param {Object} user - Authenticated user (omit for system jobs)
+ * @returns {Array} - Subset of ['admin', 'hospital', 'requester', 'system']
+ */
+bloodRequestSchema.methods.getActors = function (user) {
+    if (!user) return ['system'];
+
+    const userId = user._id.toString();
+    const requesterId = (this.requesterId?._id || this.requesterId).toString();
+    const servingId = (this.servingHospital?._id || this.servingHospital)?.toString();
+    const hospitalId = user.hospital?.toString();
+    const actors = [];
+
+    if (user.role === 'admin') actors.push('admin');
+    if (requesterId === userId) actors.push('requester');
+
+    // Staff of a hospital the request was routed to may accept it while pending; after that only the serving one
+    if (user.role === 'hospital' && hospitalId && requesterId !== userId &&
+        (servingId ? servingId === hospitalId : Boolean(this.getRouting(hospitalId)))) {
+        actors.push('hospital');
+    }
+
+    return actors;
+};
+
+/**
+ * Move the request to a new status and append it to the history
+ * @param {String} status - Target status
+ * @param {Object} user - User making the change (omit for system jobs)
+ * @param {String} note - Optional note shown on the timeline
+ * @throws {Error} - When the transition is not allowed for this user
+ */
+bloodRequestSchema.methods.transitionTo = function (status, user, note) {
+    const from = this.status;
+    const actors = this.getActors(user);
+
+    if (!canTransition(from, status, actors)) {
+        throw new Error(`Cannot move request from ${from} to ${status}`);
+    }
+
+    // Record the most privileged role that allows the change
+    const actor = ['admin', 'hospital', 'requester', 'system']
+        .find(role => actors.includes(role) && canTransition(from, status, [role]));
+
+    if (status === 'approved') {
+        if (this.needsRequisition() && this.requisition?.status !== 'verified') {
+            throw new Error('The requisition must be verified before the request can be approved');
+        }
+
+        this.approvedBy = user._id;
+        if (actor === 'hospital') {
+            this.servingHospital = user.hospital;
+
+            const routing = this.getRouting(user.hospital);
+            if (routing) {
+                routing.status = 'accepted';
+                routing.respondedAt = new Date();
+            } else {
+                this.routedTo.push({ hospital: user.hospital, status: 'accepted', respondedAt: new Date() });
+            }
+        }
+    }
+    if (status === 'rejected') {
+        this.approvedBy = user._id;
+    }
+    if (status === 'pending') {
+        // A hospital handing the request back has declined it; an admin reopens it for them
+        const routing = this.servingHospital && this.getRouting(this.servingHospital._id || this.servingHospital);
+        if (routing?.status === 'accepted') {
+            routing.status = actor === 'hospital' ? 'declined' : 'pending';
+            if (actor === 'hospital') routing.declineReason = note;
+        }
+        this.servingHospital = undefined;
+    }
+    if (status === 'fulfilled') {
+        this.fulfilledAt = new Date();
+        this.unitsFulfilled = this.unitsRequested;
+    }
+
+    this.status = status;
+    this.statusHistory.push({
+        from,
+        to: status,
+        changedBy: user?._id,
+        actor,
+        note
+    });
+
+    return this;
+};
+
+/**
+ * Check whether approval waits for a verified requisition
+ * Hospitals raising their own requests already hold the prescription, and
+ * requests raised before documents were collected have none to verify.
+ */
+bloodRequestSchema.methods.needsRequisition = function () {
+    return this.requisition?.requiredForApproval === true;
+};
+
+/**
+ * Get an attached document
+ * @returns {Object|undefined}
+ */
+bloodRequestSchema.methods.getDocument = function (documentId) {
+    return this.documents.find(doc => doc._id.toString() === documentId.toString());
+};
+
+/**
+ * Attach stored documents; a rejected requisition goes back for review
+ * @param {Array} documents - [{ kind, originalName, fileName, mimeType, size }]
+ * @param {Object} user - Uploading user
+ */
+bloodRequestSchema.methods.addDocuments = function (documents, user) {
+    for (const doc of documents) {
+        this.documents.push({ ...doc, uploadedBy: user._id });
+    }
+
+    if (this.requisition.status === 'rejected') {
+        this.requisition.status = 'pending';
+    }
+    return this;
+};
+
+/**
+ * Record the reviewer's decision on the requisition
+ * @param {String} status - 'verified' or 'rejected'
+ * @param {Object} user - Reviewing admin or hospital staff
+ * @param {String} note - Required when rejecting
+ * @throws {Error} - When there is nothing to review or the decision is invalid
+ */
+bloodRequestSchema.methods.reviewRequisition = function (status, user, note) {
+    if (!['verified', 'rejected'].includes(status)) {
+        throw new Error('Status must be verified or rejected');
+    }
+    if (this.documents.length === 0) {
+        throw new Error('No documents have been uploaded for this request');
+    }
+    if (status === 'rejected' && !note) {
+        throw new Error('A note is required to reject a requisition');
+    }
+    if (note && note.length > REQUISITION_NOTE_MAX_LENGTH) {
+        throw new Error(`Note cannot exceed ${REQUISITION_NOTE_MAX_LENGTH} characters`);
+    }
+
+    this.requisition = {
+        status,
+        reviewedBy: user._id,
+        reviewedAt: new Date(),
+        note
+    };
+    return this;
+};
+
+/**
+ * Units still to be supplied
+ */
+bloodRequestSchema.methods.remainingUnits = function () {
+    return Math.max(this.unitsRequested - (this.unitsFulfilled || 0), 0);
+};
+
+/**
+ * Get the routing entry for a hospital
+ * @returns {Object|undefined}
+ */
+bloodRequestSchema.methods.getRouting = function (hospitalId) {
+    return this.routedTo.find(entry => entry.hospital.toString() === hospitalId.toString());
+};
+
+/**
+ * Decline a routed request on behalf of a hospital
+ * @param {Object} user - Hospital staff user
+ * @param {String} reason - Shown to admins and the requester
+ * @throws {Error} - When the request was not routed to this hospital or is no longer open
+ */
+bloodRequestSchema.methods.declineFor = function (user, reason) {
+    const routing = user.hospital && this.getRouting(user.hospital);
+
+    if (!routing || routing.status !== 'pending' || this.status !== 'pending') {
+        throw new Error('This request is not awaiting a response from your hospital');
+    }
+
+    routing.status = 'declined';
+    routing.declineReason = reason;
+    routing.respondedAt = new Date();
+    return this;
+};
+
+/**
+ * Record a partial supply by the serving hospital and reopen the request for the rest
+ * @param {Number} units - Units supplied now (less than the remaining units)
+ * @param {Object} user - Serving hospital staff user
+ * @param {String} note - Optional note for the timeline
+ * @throws {Error} - When the hospital is not serving the request or units are out of range
+ */
+bloodRequestSchema.methods.supplyPartial = function (units, user, note) {
+    const remaining = this.remainingUnits();
+
+    if (this.status !== 'approved' || !this.getActors(user).includes('hospital')) {
+        throw new Error('Only the hospital serving an accepted request can supply part of it');
+    }
+    if (!Number.isInteger(units) || units < 1 || units >= remaining) {
+        throw new Error(`Partial supply must be between 1 and ${remaining - 1} units`);
+    }
+
+    let routing = this.getRouting(user.hospital);
+    if (!routing) {
+        this.routedTo.push({ hospital: user.hospital });
+        routing = this.routedTo[this.routedTo.length - 1];
+    }
+    routing.status = 'partial';
+    routing.unitsSupplied = (routing.unitsSupplied || 0) + units;
+    routing.respondedAt = new Date();
+    this.unitsFulfilled = (this.unitsFulfilled || 0) + units;
+
+    return this.transitionTo('pending', user, note || `Supplied ${units} of ${remaining} units`);
+};
+
+/**
+ * Get a donor's answer to an emergency appeal
+ * @returns {Object|undefined}
+ */
+bloodRequestSchema.methods.getDonorResponse = function (donorId) {
+    return this.donorResponses.find(entry => entry.donor.toString() === donorId.toString());
+};
+
+/**
+ * Record that a donor is coming to donate (or update their ETA)
+ * @param {Object} donor - Donor user document
+ * @param {Number} etaMinutes - Minutes until the donor arrives
+ * @param {String} note - Optional message for the requester
+ * @returns {Object} - The donor's response entry
+ */
+bloodRequestSchema.methods.respondAsDonor = function (donor, etaMinutes, note) {
+    let response = this.getDonorResponse(donor._id);
+    if (!response) {
+        this.donorResponses.push({ donor: donor._id });
+        response = this.donorResponses[this.donorResponses.length - 1];
+    }
+
+    response.donorName = donor.name;
+    response.bloodGroup = donor.profile?.bloodGroup;
+    response.phone = donor.phone;
+    response.etaMinutes = etaMinutes;
+    response.note = note;
+    response.status = 'coming';
+    response.respondedAt = new Date();
+    response.withdrawnAt = undefined;
+
+    return response;
+};
+
+/**
+ * Withdraw a donor's answer to an emergency appeal
+ * @throws {Error} - When the donor has not said they are coming
+ */
+bloodRequestSchema.methods.withdrawDonorResponse = function (donorId) {
+    const response = this.getDonorResponse(donorId);
+
+    if (!response || response.status !== 'coming') {
+        throw new Error('You have not offered to donate for this request');
+    }
+
+    response.status = 'withdrawn';
+    response.withdrawnAt = new Date();
+    return response;
+};
+
+/**
+ * Static method to expire pending requests no hospital has taken up in time
+ * Approved requests are being filled by their hospital, so they never expire here.
+ * Requests raised before the lifecycle existed have no status history; they
+ * were never promised a time limit, so they are left for an admin to close.
+ * @param {Number} hours - Age since the last update after which a pending request expires
+ * @returns {Array} - Requests expired
+ */
+bloodRequestSchema.statics.expireStale = async function (hours) {
+    const cutoff = new Date(Date.now() - hours * 60 * 60 * 1000);
+    const stale = await this.find({
+        status: 'pending',
+        'statusHistory.0': { $exists: true },
+        updatedAt: { $lt: cutoff }
+    });
+
+    for (const request of stale) {
+        request.transitionTo('expired', null, `No progress within ${hours} hours`);
+        await request.save();
+    }
+
+    return stale;
+};
 
 const BloodRequest = mongoose.model('BloodRequest', bloodRequestSchema);
 
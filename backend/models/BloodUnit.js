@@ -0,0 +1,400 @@
+/**
+ * BloodUnit Model
+ *
+ * Stores individual blood bags held by a hospital.
+ * Each unit has its own batch ID, donor reference and expiry date so that
+ * every bag can be traced from collection to issue.
+ */
+
+import mongoose from 'mongoose';
+import {
+    COMPONENT_TYPES,
+    DEFAULT_COMPONENT,
+    BLOOD_COMPONENTS,
+    calculateExpiryDate
+} from '../config/bloodComponents.js';
+
+// Default volume of a single bag in ml
+export const DEFAULT_UNIT_VOLUME = 450;
+
+// Times a receive is retried when a generated batch ID is already taken
+const MAX_RECEIVE_ATTEMPTS = 3;
+
+/**
+ * Raised when bags cannot be received, issued or written off as asked
+ */
+export class BloodUnitError extends Error {
+    constructor(message, status = 400) {
+        super(message);
+        this.status = status;
+    }
+}
+
+const bloodUnitSchema = new mongoose.Schema({
+    // Reference to the hospital directory record holding the unit
+    hospital_id: {
+        type: mongoose.Schema.Types.ObjectId,
+        ref: 'Hospital',
+        required: [true, 'Hospital ID is required']
+    },
+
+    // Blood group type
+    blood_group: {
+        type: String,
+        required: [true, 'Blood group is required'],
+        enum: ['A+', 'A-', 'B+', 'B-', 'AB+', 'AB-', 'O+', 'O-']
+    },
+
+    // Blood component (determines shelf life)
+    component: {
+        type: String,
+        enum: COMPONENT_TYPES,
+        default: DEFAULT_COMPONENT
+    },
+
+    // Batch / bag number printed on the label
+    batch_id: {
+        type: String,
+        required: [true, 'Batch ID is required'],
+        trim: true,
+        uppercase: true
+    },
+
+    // Donor who gave the unit (optional for units received from other banks)
+    donor_id: {
+        type: mongoose.Schema.Types.ObjectId,
+        ref: 'User'
+    },
+    donor_name: {
+        type: String,
+        trim: true
+    },
+
+    collection_date: {
+        type: Date,
+        required: [true, 'Collection date is required']
+    },
+    expiry_date: {
+        type: Date,
+        required: [true, 'Expiry date is required']
+    },
+
+    // Volume in ml
+    volume: {
+        type: Number,
+        default: DEFAULT_UNIT_VOLUME,
+        min: [1, 'Volume must be positive']
+    },
+
+    // Unit status
+    status: {
+        type: String,
+        enum: ['available', 'reserved', 'expired', 'used'],
+        default: 'available'
+    },
+
+    // Storage location inside the blood bank (fridge / shelf)
+    storage_location: {
+        type: String,
+        trim: true
+    },
+
+    // Issue details (set when the unit leaves the blood bank)
+    issued_at: Date,
+    issued_to: {
+        type: String,
+        trim: true
+    },
+
+    notes: {
+        type: String,
+        maxlength: [500, 'Notes cannot exceed 500 characters']
+    }
+}, {
+    timestamps: true
+});
+
+// Batch IDs are unique within a hospital
+bloodUnitSchema.index({ hospital_id: 1, batch_id: 1 }, { unique: true });
+bloodUnitSchema.index({ hospital_id: 1, blood_group: 1, component: 1, status: 1, expiry_date: 1 });
+bloodUnitSchema.index({ donor_id: 1 });
+
+/**
+ * Check if the unit is past its expiry date
+ */
+bloodUnitSchema.methods.isExpired = function () {
+    return this.expiry_date <= new Date();
+};
+
+/**
+ * Generate a batch ID for units received without a printed label
+ * The suffix is the tail of the unit's own ObjectId (process id + counter),
+ * so IDs generated together never repeat.
+ * Format: <GROUP>-<YYYYMMDD>-<SUFFIX>, e.g. OPOS-20250114-3FA1000C2B
+ */
+export const generateBatchId = (bloodGroup, collectionDate, unitId) => {
+    const group = bloodGroup.replace('+', 'POS').replace('-', 'NEG');
+    const date = collectionDate.toISOString().slice(0, 10).replace(/-/g, '');
+    const suffix = unitId.toHexString().slice(-10).toUpperCase();
+    return `${group}-${date}-${suffix}`;
+};
+
+/**
+ * Fields to write back when an issue or write-off is undone
+ */
+const restoreUpdate = (unit) => {
+    const $set = { status: unit.status };
+    const $unset = {};
+    for (const field of ['issued_at', 'issued_to', 'notes']) {
+        if (unit[field] === undefined) $unset[field] = 1;
+        else $set[field] = unit[field];
+    }
+    return { $set, $unset };
+};
+
+/**
+ * Take bags out of stock with one conditional update per bag
+ * Two requests running at once never take the same bag; if fewer bags can be
+ * claimed than asked for, the claimed ones are put back and nothing changes.
+ * @param {Model} model - BloodUnit model
+ * @param {Object} query - Bags that may be taken
+ * @param {Number} count - Number of bags to take (ignored when unitIds given)
+ * @param {Array} unitIds - Specific bags to take (optional)
+ * @param {Object} update - Fields to set on each bag
+ * @returns {Array} - Units as they were before being taken
+ */
+const claimUnits = async (model, query, count, unitIds, update) => {
+    const selected = unitIds && unitIds.length > 0;
+    const total = selected ? unitIds.length : count;
+
+    const claimed = [];
+    try {
+        for (let i = 0; i < total; i++) {
+            const unit = selected
+                ? await model.findOneAndUpdate({ ...query, _id: unitIds[i] }, update)
+                : await model.findOneAndUpdate({ ...query, status: 'available' }, update, { sort: { expiry_date: 1 } });
+            if (!unit) break;
+            claimed.push(unit);
+        }
+
+        if (claimed.length < total) {
+            throw new BloodUnitError(selected
+                ? 'Some selected units are not available'
+                : `Insufficient stock. Only ${claimed.length} units available.`);
+        }
+    } catch (error) {
+        await Promise.all(claimed.map(unit => model.updateOne({ _id: unit._id }, restoreUpdate(unit))));
+        throw error;
+    }
+
+    return claimed;
+};
+
+/**
+ * Static method to get units for a hospital (soonest expiry first)
+ */
+bloodUnitSchema.statics.getHospitalUnits = async function (hospitalId, filters = {}) {
+    const query = { hospital_id: hospitalId };
+    if (filters.status) query.status = filters.status;
+    if (filters.blood_group) query.blood_group = filters.blood_group;
+    if (filters.component) query.component = filters.component;
+
+    return this.find(query)
+        .sort({ expiry_date: 1 })
+        .populate('donor_id', 'name email');
+};
+
+/**
+ * Static method to count available units for a hospital, blood group and component
+ */
+bloodUnitSchema.statics.countAvailable = async function (hospitalId, bloodGroup, component = DEFAULT_COMPONENT) {
+    return this.countDocuments({
+        hospital_id: hospitalId,
+        blood_group: bloodGroup,
+        component,
+        status: 'available'
+    });
+};
+
+/**
+ * Static method to receive bags into stock
+ * All bags are saved or none are: if any insert fails, the bags saved before
+ * it are removed again. A clash on a generated batch ID is retried with new IDs.
+ * @param {ObjectId} hospitalId - Receiving hospital
+ * @param {String} bloodGroup - Blood group of the bags
+ * @param {Array} bags - One entry per bag: { batch_id, component, donor_id, donor_name, collection_date, expiry_date, volume, storage_location, notes }
+ * @returns {Array} - Created units
+ */
+bloodUnitSchema.statics.receiveUnits = async function (hospitalId, bloodGroup, bags) {
+    const docs = bags.map(bag => {
+        const component = bag.component || DEFAULT_COMPONENT;
+        if (!BLOOD_COMPONENTS[component]) {
+            throw new BloodUnitError(`Invalid component type: ${component}`);
+        }
+
+        const collectionDate = bag.collection_date ? new Date(bag.collection_date) : new Date();
+        const maxExpiryDate = calculateExpiryDate(collectionDate, component);
+        const expiryDate = bag.expiry_date ? new Date(bag.expiry_date) : maxExpiryDate;
+
+        if (expiryDate <= collectionDate) {
+            throw new BloodUnitError('Expiry date must be after collection date');
+        }
+
+        if (expiryDate > maxExpiryDate) {
+            const { label, shelfLifeDays } = BLOOD_COMPONENTS[component];
+            throw new BloodUnitError(`Expiry date exceeds the ${shelfLifeDays}-day shelf life of ${label}`);
+        }
+
+        const _id = new mongoose.Types.ObjectId();
+        return {
+            _id,
+            hospital_id: hospitalId,
+            blood_group: bloodGroup,
+            component,
+            batch_id: bag.batch_id || generateBatchId(bloodGroup, collectionDate, _id),
+            generated: !bag.batch_id,
+            donor_id: bag.donor_id,
+            donor_name: bag.donor_name,
+            collection_date: collectionDate,
+            expiry_date: expiryDate,
+            volume: bag.volume || DEFAULT_UNIT_VOLUME,
+            storage_location: bag.storage_location,
+            notes: bag.notes,
+            status: expiryDate <= new Date() ? 'expired' : 'available'
+        };
+    });
+
+    for (let attempt = 1; ; attempt++) {
+        try {
+            return await this.insertMany(docs.map(({ generated, ...doc }) => doc));
+        } catch (error) {
+            await this.deleteMany({ _id: { $in: docs.map(doc => doc._id) } });
+
+            const clashed = [].concat(error.writeErrors || []).map(writeError => writeError.getOperation?.()?.batch_id);
+            const generatedClash = docs.some(doc => doc.generated && clashed.includes(doc.batch_id));
+            if (error.code !== 11000 || !generatedClash || attempt >= MAX_RECEIVE_ATTEMPTS) throw error;
+
+            for (const doc of docs) {
+                doc._id = new mongoose.Types.ObjectId();
+                if (doc.generated) doc.batch_id = generateBatchId(bloodGroup, doc.collection_date, doc._id);
+            }
+        }
+    }
+};
+
+/**
+ * Static method to get units expiring within the next N days (soonest first)
+ * @param {ObjectId} hospitalId - Hospital holding the units
+ * @param {Number} days - Look-ahead window in days
+ */
+bloodUnitSchema.statics.getExpiringUnits = async function (hospitalId, days = 7) {
+    const now = new Date();
+    const cutoff = new Date(now);
+    cutoff.setDate(cutoff.getDate() + days);
+
+    return this.find({
+        hospital_id: hospitalId,
+        status: { $in: ['available', 'reserved'] },
+        expiry_date: { $gt: now, $lte: cutoff }
+    })
+        .sort({ expiry_date: 1 })
+        .populate('donor_id', 'name email');
+};
+
+/**
+ * Static method to mark every unit past its expiry date as expired
+ * @returns {Array} - Distinct { hospital_id, blood_group, component } stock groups that changed
+ */
+bloodUnitSchema.statics.markExpired = async function () {
+    const query = {
+        status: { $in: ['available', 'reserved'] },
+        expiry_date: { $lte: new Date() }
+    };
+
+    const affected = await this.aggregate([
+        { $match: query },
+        {
+            $group: {
+                _id: { hospital_id: '$hospital_id', blood_group: '$blood_group', component: '$component' },
+                count: { $sum: 1 }
+            }
+        }
+    ]);
+
+    if (affected.length > 0) {
+        await this.updateMany(query, { status: 'expired' });
+    }
+
+    return affected.map(item => ({ ...item._id, count: item.count }));
+};
+
+/**
+ * Static method to issue bags out of stock
+ * Units are issued first-expiry-first-out unless specific unit IDs are given.
+ * Either every bag asked for is issued or none is (see claimUnits).
+ * @param {ObjectId} hospitalId - Issuing hospital
+ * @param {String} bloodGroup - Blood group to issue
+ * @param {Number} count - Number of bags to issue (ignored when unitIds given)
+ * @param {Object} details - { component, unitIds, issued_to, notes }
+ * @returns {Array} - Issued units
+ */
+bloodUnitSchema.statics.issueUnits = async function (hospitalId, bloodGroup, count, details = {}) {
+    const query = {
+        hospital_id: hospitalId,
+        blood_group: bloodGroup,
+        status: { $in: ['available', 'reserved'] },
+        expiry_date: { $gt: new Date() }
+    };
+
+    // FIFO issues always draw from one component; selected units may span components
+    if (details.component || !details.unitIds?.length) {
+        query.component = details.component || DEFAULT_COMPONENT;
+    }
+
+    if (!details.unitIds?.length) {
+        // Reserved units are held for a specific patient, so FIFO only draws from available stock
+        const available = await this.countDocuments({ ...query, status: 'available' });
+        if (available < count) {
+            throw new BloodUnitError(`Insufficient stock. Only ${available} units available.`);
+        }
+    }
+
+    const claimed = await claimUnits(this, query, count, details.unitIds, {
+        status: 'used',
+        issued_at: new Date(),
+        issued_to: details.issued_to,
+        notes: details.notes
+    });
+
+    return this.find({ _id: { $in: claimed.map(u => u._id) } }).sort({ expiry_date: 1 });
+};
+
+/**
+ * Static method to write off bags that are no longer on the shelf
+ * Available bags are written off first-expiry-first; they are marked expired
+ * (discarded) with the reason, never issued.
+ * @param {ObjectId} hospitalId - Hospital holding the bags
+ * @param {String} bloodGroup - Blood group to write off
+ * @param {Number} count - Number of bags to write off
+ * @param {Object} details - { component, notes (reason) }
+ * @returns {Array} - Written-off units
+ */
+bloodUnitSchema.statics.discardUnits = async function (hospitalId, bloodGroup, count, details = {}) {
+    const query = {
+        hospital_id: hospitalId,
+        blood_group: bloodGroup,
+        component: details.component || DEFAULT_COMPONENT,
+        status: 'available'
+    };
+
+    const claimed = await claimUnits(this, query, count, null, {
+        status: 'expired',
+        notes: details.notes
+    });
+
+    return this.find({ _id: { $in: claimed.map(u => u._id) } }).sort({ expiry_date: 1 });
+};
+
+const BloodUnit = mongoose.model('BloodUnit', bloodUnitSchema);
+
+export default BloodUnit;
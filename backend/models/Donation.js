@@ -1,4 +1,5 @@
 import mongoose from 'mongoose';
+import { COMPONENT_TYPES, DEFAULT_COMPONENT } from '../config/bloodComponents.js';
 
 const donationSchema = new mongoose.Schema({
     donorId: {
@@ -20,6 +21,11 @@ const donationSchema = new mongoose.Schema({
         default: 1,
         min: 1
     },
+    component: {
+        type: String,
+        enum: COMPONENT_TYPES,
+        default: DEFAULT_COMPONENT
+    },
     donationDate: {
         type: Date,
         required: true
@@ -30,7 +36,7 @@ const donationSchema = new mongoose.Schema({
     },
     status: {
         type: String,
-        enum: ['scheduled', 'completed', 'cancelled'],
+        enum: ['scheduled', 'checked_in', 'completed', 'cancelled'],
         default: 'scheduled'
     },
     notes: String,
@@ -38,7 +44,33 @@ const donationSchema = new mongoose.Schema({
     collectedBy: {
         type: mongoose.Schema.Types.ObjectId,
         ref: 'User'
-    }
+    },
+    // Appointment booking (donations booked through a hospital slot)
+    hospital: {
+        type: mongoose.Schema.Types.ObjectId,
+        ref: 'Hospital'
+    },
+    slot: {
+        type: mongoose.Schema.Types.ObjectId,
+        ref: 'DonationSlot'
+    },
+    // Donation drive the donation was collected at
+    drive: {
+        type: mongoose.Schema.Types.ObjectId,
+        ref: 'DonationDrive'
+    },
+    // Blood request the donation answered; emergency when it was urgent
+    bloodRequest: {
+        type: mongoose.Schema.Types.ObjectId,
+        ref: 'BloodRequest'
+    },
+    emergency: {
+        type: Boolean,
+        default: false
+    },
+    checkedInAt: Date,
+    cancelledAt: Date,
+    completedAt: Date
 }, {
     timestamps: true
 });
@@ -46,6 +78,7 @@ const donationSchema = new mongoose.Schema({
 // Index for efficient queries
 donationSchema.index({ donorId: 1, donationDate: -1 });
 donationSchema.index({ status: 1 });
+donationSchema.index({ hospital: 1, donationDate: 1 });
 
 const Donation = mongoose.model('Donation', donationSchema);
 
@@ -0,0 +1,136 @@
+/**
+ * DonationDrive Model
+ *
+ * A blood donation drive (camp) run by a hospital at a venue for a few
+ * hours. Donors RSVP for one of `capacity` places; registered_count is kept
+ * in step with the active DriveRegistration documents, and collected_units
+ * with the donations recorded at the drive (see routes/drives.js).
+ */
+
+import mongoose from 'mongoose';
+
+const donationDriveSchema = new mongoose.Schema({
+    name: {
+        type: String,
+        required: [true, 'Drive name is required'],
+        trim: true,
+        maxlength: [120, 'Drive name cannot exceed 120 characters']
+    },
+    description: {
+        type: String,
+        trim: true,
+        maxlength: [1000, 'Description cannot exceed 1000 characters']
+    },
+
+    // Hospital running the drive; collected blood goes into its stock
+    hospital_id: {
+        type: mongoose.Schema.Types.ObjectId,
+        ref: 'Hospital',
+        required: [true, 'Hospital ID is required']
+    },
+
+    // Where the drive is held
+    venue: {
+        name: { type: String, required: [true, 'Venue name is required'], trim: true },
+        address: { type: String, required: [true, 'Venue address is required'], trim: true },
+        city: { type: String, required: [true, 'City is required'], trim: true, lowercase: true }
+    },
+    location: {
+        type: {
+            type: String,
+            enum: ['Point'],
+            default: 'Point'
+        },
+        coordinates: {
+            type: [Number],  // [longitude, latitude]
+            required: [true, 'Venue coordinates are required']
+        }
+    },
+
+    start_time: {
+        type: Date,
+        required: [true, 'Start time is required']
+    },
+    end_time: {
+        type: Date,
+        required: [true, 'End time is required']
+    },
+
+    // Units the organisers aim to collect
+    target_units: {
+        type: Number,
+        required: [true, 'Target units are required'],
+        min: [1, 'Target must be at least 1 unit']
+    },
+    collected_units: {
+        type: Number,
+        default: 0,
+        min: 0
+    },
+
+    // Number of donors who can RSVP
+    capacity: {
+        type: Number,
+        required: [true, 'Capacity is required'],
+        min: [1, 'Capacity must be at least 1']
+    },
+    registered_count: {
+        type: Number,
+        default: 0,
+        min: 0
+    },
+
+    status: {
+        type: String,
+        enum: ['scheduled', 'cancelled'],
+        default: 'scheduled'
+    },
+    cancelled_reason: String,
+    cancelled_at: Date,
+
+    // Admin or staff account that created the drive
+    created_by: {
+        type: mongoose.Schema.Types.ObjectId,
+        ref: 'User'
+    }
+}, {
+    timestamps: true
+});
+
+donationDriveSchema.index({ location: '2dsphere' });
+donationDriveSchema.index({ hospital_id: 1, start_time: -1 });
+donationDriveSchema.index({ status: 1, end_time: 1 });
+
+/**
+ * Atomically reserve a place at a drive
+ * Only succeeds while the drive is scheduled, has space and has not ended.
+ * @param {String} driveId - Drive to register for
+ * @returns {Object|null} - Updated drive, or null when full, over or missing
+ */
+donationDriveSchema.statics.reservePlace = function (driveId) {
+    return this.findOneAndUpdate(
+        {
+            _id: driveId,
+            status: 'scheduled',
+            end_time: { $gt: new Date() },
+            $expr: { $lt: ['$registered_count', '$capacity'] }
+        },
+        { $inc: { registered_count: 1 } },
+        { new: true }
+    );
+};
+
+/**
+ * Give a reserved place back to a drive
+ * @param {String} driveId - Drive to release
+ */
+donationDriveSchema.statics.releasePlace = function (driveId) {
+    return this.updateOne(
+        { _id: driveId, registered_count: { $gt: 0 } },
+        { $inc: { registered_count: -1 } }
+    );
+};
+
+const DonationDrive = mongoose.model('DonationDrive', donationDriveSchema);
+
+export default DonationDrive;
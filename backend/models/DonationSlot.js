@@ -0,0 +1,90 @@
+/**
+ * DonationSlot Model
+ *
+ * A time window in which a hospital accepts walk-in donors by appointment.
+ * Each slot holds up to `capacity` bookings; booked_count is kept in step
+ * with the scheduled Donation documents that reference the slot.
+ */
+
+import mongoose from 'mongoose';
+
+const donationSlotSchema = new mongoose.Schema({
+    // Hospital directory record offering the slot
+    hospital_id: {
+        type: mongoose.Schema.Types.ObjectId,
+        ref: 'Hospital',
+        required: [true, 'Hospital ID is required']
+    },
+
+    start_time: {
+        type: Date,
+        required: [true, 'Start time is required']
+    },
+    end_time: {
+        type: Date,
+        required: [true, 'End time is required']
+    },
+
+    // Number of donors the slot can take
+    capacity: {
+        type: Number,
+        required: [true, 'Capacity is required'],
+        min: [1, 'Capacity must be at least 1']
+    },
+    booked_count: {
+        type: Number,
+        default: 0,
+        min: 0
+    },
+
+    // Staff account that published the slot
+    created_by: {
+        type: mongoose.Schema.Types.ObjectId,
+        ref: 'User'
+    }
+}, {
+    timestamps: true
+});
+
+donationSlotSchema.index({ hospital_id: 1, start_time: 1 });
+donationSlotSchema.index({ start_time: 1 });
+
+/**
+ * Check if the slot can take another booking
+ */
+donationSlotSchema.methods.hasSpace = function () {
+    return this.booked_count < this.capacity;
+};
+
+/**
+ * Atomically reserve a place in a slot
+ * Only succeeds while the slot has space and has not started.
+ * @param {String} slotId - Slot to book
+ * @returns {Object|null} - Updated slot, or null when full, past or missing
+ */
+donationSlotSchema.statics.reservePlace = function (slotId) {
+    return this.findOneAndUpdate(
+        {
+            _id: slotId,
+            start_time: { $gt: new Date() },
+            $expr: { $lt: ['$booked_count', '$capacity'] }
+        },
+        { $inc: { booked_count: 1 } },
+        { new: true }
+    );
+};
+
+/**
+ * Give a reserved place back to a slot
+ * @param {String} slotId - Slot to release
+ */
+donationSlotSchema.statics.releasePlace = function (slotId) {
+    return this.updateOne(
+        { _id: slotId, booked_count: { $gt: 0 } },
+        { $inc: { booked_count: -1 } }
+    );
+};
+
+const DonationSlot = mongoose.model('DonationSlot', donationSlotSchema);
+
+export default DonationSlot;
@@ -0,0 +1,64 @@
+/**
+ * DriveRegistration Model
+ *
+ * A donor's RSVP for a donation drive. Registered and checked-in donors
+ * hold a place at the drive; a donation recorded at the drive links the
+ * completed Donation document.
+ */
+
+import mongoose from 'mongoose';
+
+export const REGISTRATION_STATUSES = ['registered', 'checked_in', 'donated', 'cancelled'];
+
+// Registrations the donor can still check in with or cancel
+export const ACTIVE_REGISTRATION_STATUSES = ['registered', 'checked_in'];
+
+const driveRegistrationSchema = new mongoose.Schema({
+    drive_id: {
+        type: mongoose.Schema.Types.ObjectId,
+        ref: 'DonationDrive',
+        required: [true, 'Drive ID is required']
+    },
+    donor_id: {
+        type: mongoose.Schema.Types.ObjectId,
+        ref: 'User',
+        required: [true, 'Donor ID is required']
+    },
+    donor_name: String,
+    blood_group: {
+        type: String,
+        enum: ['A+', 'A-', 'B+', 'B-', 'AB+', 'AB-', 'O+', 'O-']
+    },
+
+    status: {
+        type: String,
+        enum: REGISTRATION_STATUSES,
+        default: 'registered'
+    },
+    registered_at: {
+        type: Date,
+        default: Date.now
+    },
+    checked_in_at: Date,
+    cancelled_at: Date,
+
+    // Donation recorded at the drive
+    donation_id: {
+        type: mongoose.Schema.Types.ObjectId,
+        ref: 'Donation'
+    },
+    units_collected: {
+        type: Number,
+        default: 0
+    }
+}, {
+    timestamps: true
+});
+
+// One registration per donor and drive (re-registering reuses it)
+driveRegistrationSchema.index({ drive_id: 1, donor_id: 1 }, { unique: true });
+driveRegistrationSchema.index({ donor_id: 1, status: 1 });
+
+const DriveRegistration = mongoose.model('DriveRegistration', driveRegistrationSchema);
+
+export default DriveRegistration;
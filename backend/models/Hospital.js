@@ -82,11 +82,8 @@ const hospitalSchema = new mongoose.Schema({
         trim: true
     },
 
-    // Available Blood Groups (current inventory status)
-    availableBloodGroups: [{
-        type: String,
-        enum: ['A+', 'A-', 'B+', 'B-', 'AB+', 'AB-', 'O+', 'O-']
-    }],
+    // Available blood groups are not stored here; they are derived from the
+    // hospital's BloodInventory (see BloodInventory.getAvailableGroupsByHospital)
 
     // Operating Hours
     operatingHours: {
@@ -118,13 +115,16 @@ hospitalSchema.index({ name: 'text', city: 'text', address: 'text' });
 // Create index on city for faster lookups
 hospitalSchema.index({ city: 1 });
 
+// Match user-typed text literally inside a regex
+const escapeRegex = (text) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
 /**
  * Static method to find hospitals by city (case-insensitive)
  * @param {String} city - City name to search
  * @returns {Array} - List of matching hospitals
  */
 hospitalSchema.statics.findByCity = function (city) {
-    const normalizedCity = city.toLowerCase().trim();
+    const normalizedCity = escapeRegex(city.toLowerCase().trim());
     return this.find({
         city: { $regex: new RegExp(normalizedCity, 'i') },
         isActive: true
@@ -153,28 +153,56 @@ hospitalSchema.statics.findNearby = function (longitude, latitude, maxDistanceKm
     });
 };
 
+/**
+ * Static method to find hospitals near a location with their distance
+ * Uses $geoNear, so results come back nearest first as plain objects.
+ * @param {Number} longitude - Longitude coordinate
+ * @param {Number} latitude - Latitude coordinate
+ * @param {Number} maxDistanceKm - Maximum distance in kilometers
+ * @param {Object} filter - Extra conditions (e.g. { type: { $in: [...] } })
+ * @returns {Array} - Hospitals with `distance` in meters
+ */
+hospitalSchema.statics.findNearbyWithDistance = function (longitude, latitude, maxDistanceKm = 10, filter = {}) {
+    return this.aggregate([
+        {
+            $geoNear: {
+                near: { type: 'Point', coordinates: [longitude, latitude] },
+                key: 'location',
+                distanceField: 'distance',
+                maxDistance: maxDistanceKm * 1000,
+                spherical: true,
+                query: { ...filter, isActive: true }
+            }
+        }
+    ]);
+};
+
 /**
  * Static method to search hospitals by city name or partial match
  * This is more flexible and handles variations in city names
  * @param {String} searchTerm - Search term (city, area, etc.)
+ * @param {Object} filter - Extra conditions (optional)
  * @returns {Array} - List of matching hospitals
  */
-hospitalSchema.statics.searchByLocation = async function (searchTerm) {
+hospitalSchema.statics.searchByLocation = async function (searchTerm, filter = {}) {
     const normalizedTerm = searchTerm.toLowerCase().trim();
 
     // First, try exact city match
     let hospitals = await this.find({
+        ...filter,
         city: normalizedTerm,
         isActive: true
     }).sort({ name: 1 });
 
     // If no exact match, try partial match
     if (hospitals.length === 0) {
+        const pattern = escapeRegex(normalizedTerm);
         hospitals = await this.find({
+            ...filter,
             $or: [
-                { city: { $regex: new RegExp(normalizedTerm, 'i') } },
-                { address: { $regex: new RegExp(normalizedTerm, 'i') } },
-                { state: { $regex: new RegExp(normalizedTerm, 'i') } }
+                { city: { $regex: new RegExp(pattern, 'i') } },
+                { address: { $regex: new RegExp(pattern, 'i') } },
+                { state: { $regex: new RegExp(pattern, 'i') } }
             ],
             isActive: true
         }).sort({ name: 1 });
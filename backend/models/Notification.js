@@ -2,11 +2,43 @@
  * Notification Model
  * 
  * Stores reminder notifications sent to donors.
- * Tracks which donors have been reminded and when.
+ * Tracks which donors have been reminded and when, and how each delivery
+ * channel (email, SMS, in-app) fared. Delivery is handled by
+ * services/notificationDispatcher.js.
  */
 
 import mongoose from 'mongoose';
 
+export const DELIVERY_CHANNELS = ['email', 'sms', 'app', 'console'];
+
+// One entry per channel the notification is delivered through
+const deliverySchema = new mongoose.Schema({
+    channel: {
+        type: String,
+        enum: DELIVERY_CHANNELS,
+        required: true
+    },
+    // pending = waiting for a (re)try, sent = accepted by the provider,
+    // delivered = reached the donor, failed = gave up after retries
+    status: {
+        type: String,
+        enum: ['pending', 'sent', 'delivered', 'failed'],
+        default: 'pending'
+    },
+    // Adapter that handled the last attempt (e.g. smtp, sms_gateway, console)
+    provider: String,
+    // Provider message ID, when the provider returns one
+    reference: String,
+    attempts: {
+        type: Number,
+        default: 0
+    },
+    last_error: String,
+    last_attempt_at: Date,
+    next_attempt_at: Date,
+    delivered_at: Date
+}, { _id: false });
+
 const notificationSchema = new mongoose.Schema({
     // Recipient donor
     donor_id: {
@@ -18,17 +50,31 @@ const notificationSchema = new mongoose.Schema({
     // Hospital that sent the notification
     hospital_id: {
         type: mongoose.Schema.Types.ObjectId,
-        ref: 'User',
+        refPath: 'sender_model',
         required: [true, 'Hospital ID is required']
     },
 
+    // What hospital_id points to: a hospital directory record, or the user who sent it
+    sender_model: {
+        type: String,
+        enum: ['User', 'Hospital'],
+        default: 'User'
+    },
+
     // Notification type
     type: {
         type: String,
-        enum: ['donation_reminder', 'blood_request', 'thank_you', 'general'],
+        enum: ['donation_reminder', 'blood_request', 'emergency_appeal', 'thank_you', 'achievement', 'general'],
         default: 'donation_reminder'
     },
 
+    // Short heading (email subject, notification title)
+    title: {
+        type: String,
+        trim: true,
+        maxlength: [120, 'Title cannot exceed 120 characters']
+    },
+
     // Message content
     message: {
         type: String,
@@ -36,14 +82,17 @@ const notificationSchema = new mongoose.Schema({
         maxlength: [500, 'Message cannot exceed 500 characters']
     },
 
-    // Delivery method
+    // Delivery method (primary channel)
     delivery_method: {
         type: String,
-        enum: ['email', 'sms', 'app', 'console'],
+        enum: DELIVERY_CHANNELS,
         default: 'console'
     },
 
-    // Notification status
+    // Delivery attempts per channel
+    deliveries: [deliverySchema],
+
+    // Notification status (summary of deliveries)
     status: {
         type: String,
         enum: ['pending', 'sent', 'delivered', 'failed'],
@@ -55,10 +104,19 @@ const notificationSchema = new mongoose.Schema({
         type: Date
     },
 
+    // Where the donor can act on the notification (frontend path)
+    link: {
+        type: String,
+        trim: true
+    },
+
     // Read status
     is_read: {
         type: Boolean,
         default: false
+    },
+    read_at: {
+        type: Date
     }
 }, {
     timestamps: true
@@ -67,6 +125,8 @@ const notificationSchema = new mongoose.Schema({
 // Index for quick lookups
 notificationSchema.index({ donor_id: 1, hospital_id: 1, type: 1 });
 notificationSchema.index({ status: 1 });
+notificationSchema.index({ donor_id: 1, is_read: 1, createdAt: -1 });
+notificationSchema.index({ 'deliveries.status': 1, 'deliveries.next_attempt_at': 1 });
 
 /**
  * Mark notification as sent
@@ -77,18 +137,54 @@ notificationSchema.methods.markAsSent = async function () {
     return this.save();
 };
 
+/**
+ * Summarise channel deliveries into the notification status
+ * Delivered on any channel wins; failed only when every channel failed.
+ */
+notificationSchema.methods.refreshStatus = function () {
+    const statuses = this.deliveries.map(d => d.status);
+
+    if (statuses.includes('delivered')) this.status = 'delivered';
+    else if (statuses.includes('sent')) this.status = 'sent';
+    else if (statuses.includes('pending')) this.status = 'pending';
+    else if (statuses.length > 0) this.status = 'failed';
+
+    return this.status;
+};
+
+/**
+ * Static method to find notifications with a delivery due for retry
+ */
+notificationSchema.statics.findDueRetries = async function (limit = 100) {
+    return this.find({
+        deliveries: { $elemMatch: { status: 'pending', next_attempt_at: { $lte: new Date() } } }
+    }).limit(limit);
+};
+
 /**
  * Static method to get recent notifications for a donor
+ * @param {Object} options - { unreadOnly }
  */
-notificationSchema.statics.getDonorNotifications = async function (donorId, limit = 10) {
-    return this.find({ donor_id: donorId })
+notificationSchema.statics.getDonorNotifications = async function (donorId, limit = 10, options = {}) {
+    const query = { donor_id: donorId };
+    if (options.unreadOnly) query.is_read = false;
+
+    return this.find(query)
         .sort({ createdAt: -1 })
         .limit(limit)
         .populate('hospital_id', 'name profile.hospitalName');
 };
 
+/**
+ * Static method to count a donor's unread notifications
+ */
+notificationSchema.statics.countUnread = async function (donorId) {
+    return this.countDocuments({ donor_id: donorId, is_read: false });
+};
+
 /**
  * Static method to check if reminder was sent recently
+ * @param {ObjectId|Array} hospitalId - Sender ID, or every ID the sender's reminders were stored under
  */
 notificationSchema.statics.wasReminderSentRecently = async function (donorId, hospitalId, daysAgo = 30) {
     const cutoffDate = new Date();
@@ -96,7 +192,7 @@ notificationSchema.statics.wasReminderSentRecently = async function (donorId, ho
 
     const recentReminder = await this.findOne({
         donor_id: donorId,
-        hospital_id: hospitalId,
+        hospital_id: { $in: [].concat(hospitalId) },
         type: 'donation_reminder',
         sent_at: { $gte: cutoffDate }
     });
@@ -104,6 +200,24 @@ notificationSchema.statics.wasReminderSentRecently = async function (donorId, ho
     return !!recentReminder;
 };
 
+/**
+ * Static method to find donors sent an emergency appeal recently
+ * @param {Array} donorIds - Donors to check
+ * @param {Number} hours - Look-back window
+ * @returns {Set} - Donor ID strings appealed within the window
+ */
+notificationSchema.statics.findRecentlyAppealed = async function (donorIds, hours) {
+    const cutoff = new Date(Date.now() - hours * 60 * 60 * 1000);
+
+    const donors = await this.distinct('donor_id', {
+        donor_id: { $in: donorIds },
+        type: 'emergency_appeal',
+        sent_at: { $gte: cutoff }
+    });
+
+    return new Set(donors.map(id => id.toString()));
+};
+
 const Notification = mongoose.model('Notification', notificationSchema);
 
 export default Notification;
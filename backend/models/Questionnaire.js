@@ -0,0 +1,112 @@
+/**
+ * Questionnaire Model
+ *
+ * A version of the donor eligibility quiz. Admins edit drafts and activate
+ * one version at a time; active and archived versions are never changed,
+ * so every QuizAttempt can be read against the questions it answered.
+ */
+
+import mongoose from 'mongoose';
+import { DEFAULT_QUESTIONS, DEFAULT_PASS_PERCENTAGE } from '../config/defaultQuestionnaire.js';
+
+export const QUESTIONNAIRE_STATUSES = ['draft', 'active', 'archived'];
+
+const optionSchema = new mongoose.Schema({
+    value: { type: String, required: true },
+    label: { type: String, required: true },
+    weight: { type: Number, default: 0, min: 0 },
+
+    // Set on disqualifying answers; days null = deferred until a staff review
+    deferral: {
+        type: new mongoose.Schema({
+            code: { type: String, required: true },
+            days: { type: Number, default: null, min: 0 },
+            message: { type: String, required: true }
+        }, { _id: false }),
+        default: undefined
+    }
+}, { _id: false });
+
+const questionSchema = new mongoose.Schema({
+    id: { type: Number, required: true },
+    category: String,
+    question: { type: String, required: true },
+    options: [optionSchema]
+}, { _id: false });
+
+const questionnaireSchema = new mongoose.Schema({
+    version: {
+        type: Number,
+        required: true,
+        unique: true
+    },
+    status: {
+        type: String,
+        enum: QUESTIONNAIRE_STATUSES,
+        default: 'draft'
+    },
+    questions: [questionSchema],
+
+    // Minimum score (percent of the maximum) to pass the quiz
+    passPercentage: {
+        type: Number,
+        default: DEFAULT_PASS_PERCENTAGE,
+        min: 0,
+        max: 100
+    },
+    notes: String,
+
+    createdBy: {
+        type: mongoose.Schema.Types.ObjectId,
+        ref: 'User'
+    },
+    activatedBy: {
+        type: mongoose.Schema.Types.ObjectId,
+        ref: 'User'
+    },
+    activatedAt: Date
+}, {
+    timestamps: true
+});
+
+// Only one version is active at a time
+questionnaireSchema.index(
+    { status: 1 },
+    { unique: true, partialFilterExpression: { status: 'active' } }
+);
+
+/**
+ * Get the active questionnaire, creating version 1 from the defaults
+ * when no questionnaire exists yet
+ */
+questionnaireSchema.statics.getActive = async function () {
+    const active = await this.findOne({ status: 'active' });
+    if (active || await this.exists({})) return active;
+
+    try {
+        return await this.create({
+            version: 1,
+            status: 'active',
+            questions: DEFAULT_QUESTIONS,
+            passPercentage: DEFAULT_PASS_PERCENTAGE,
+            notes: 'Default questionnaire',
+            activatedAt: new Date()
+        });
+    } catch (error) {
+        // Another request created it first
+        if (error.code === 11000) return this.findOne({ status: 'active' });
+        throw error;
+    }
+};
+
+/**
+ * Get the number for a new version
+ */
+questionnaireSchema.statics.nextVersion = async function () {
+    const latest = await this.findOne().sort({ version: -1 }).select('version');
+    return (latest?.version || 0) + 1;
+};
+
+const Questionnaire = mongoose.model('Questionnaire', questionnaireSchema);
+
+export default Questionnaire;
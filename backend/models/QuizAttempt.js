@@ -0,0 +1,55 @@
+/**
+ * QuizAttempt Model
+ *
+ * One submission of the donor eligibility quiz. The latest attempt is also
+ * copied to user.profile.quizResult, and its disqualifying answers become
+ * dated deferrals on user.profile.deferrals (see routes/eligibility.js).
+ */
+
+import mongoose from 'mongoose';
+
+const quizAttemptSchema = new mongoose.Schema({
+    donorId: {
+        type: mongoose.Schema.Types.ObjectId,
+        ref: 'User',
+        required: [true, 'Donor ID is required']
+    },
+
+    // Questionnaire version answered
+    questionnaire: {
+        type: mongoose.Schema.Types.ObjectId,
+        ref: 'Questionnaire'
+    },
+    questionnaireVersion: Number,
+
+    // Question ID → selected answer value
+    answers: {
+        type: mongoose.Schema.Types.Mixed,
+        required: [true, 'Answers are required']
+    },
+
+    score: Number,
+    maxScore: Number,
+    percentage: Number,
+    isEligible: Boolean,
+
+    // Deferrals the answers triggered
+    deferrals: [{
+        code: String,
+        message: String,
+        until: Date // Not set when the deferral needs a staff review
+    }],
+
+    completedAt: {
+        type: Date,
+        default: Date.now
+    }
+}, {
+    timestamps: true
+});
+
+quizAttemptSchema.index({ donorId: 1, completedAt: -1 });
+
+const QuizAttempt = mongoose.model('QuizAttempt', quizAttemptSchema);
+
+export default QuizAttempt;
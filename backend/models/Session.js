@@ -0,0 +1,97 @@
+/**
+ * Session Model
+ *
+ * One signed-in device. The browser holds the session's refresh token in an
+ * httpOnly cookie and trades it for short-lived access tokens; every trade
+ * rotates the refresh token (see services/sessions.js). Only hashes of the
+ * tokens are stored. Revoked sessions are kept until they expire so a
+ * replayed token is still recognised; expired sessions are removed by MongoDB.
+ */
+
+import mongoose from 'mongoose';
+
+export const REVOKE_REASONS = ['logout', 'logout_all', 'revoked', 'token_reuse', 'password_reset'];
+
+const sessionSchema = new mongoose.Schema({
+    user: {
+        type: mongoose.Schema.Types.ObjectId,
+        ref: 'User',
+        required: true
+    },
+    // SHA-256 of the current refresh token
+    tokenHash: {
+        type: String,
+        required: true
+    },
+    // SHA-256 of the token the last rotation replaced, accepted for a short
+    // grace period so tabs refreshing at the same moment are not mistaken for theft
+    previousTokenHash: String,
+    rotatedAt: Date,
+
+    userAgent: String,
+    ip: String,
+    lastUsedAt: {
+        type: Date,
+        default: Date.now
+    },
+    expiresAt: {
+        type: Date,
+        required: true
+    },
+
+    revokedAt: Date,
+    revokedReason: {
+        type: String,
+        enum: REVOKE_REASONS
+    }
+}, {
+    timestamps: true
+});
+
+sessionSchema.index({ user: 1, revokedAt: 1 });
+sessionSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+/**
+ * Whether the session can still be used
+ */
+sessionSchema.methods.isActive = function (now = new Date()) {
+    return !this.revokedAt && this.expiresAt > now;
+};
+
+/**
+ * End the session (the caller saves)
+ */
+sessionSchema.methods.revoke = function (reason) {
+    if (!this.revokedAt) {
+        this.revokedAt = new Date();
+        this.revokedReason = reason;
+    }
+    return this;
+};
+
+/**
+ * Sessions a user is still signed in with, most recently used first
+ */
+sessionSchema.statics.findActiveForUser = function (userId) {
+    return this.find({
+        user: userId,
+        revokedAt: null,
+        expiresAt: { $gt: new Date() }
+    }).sort({ lastUsedAt: -1 });
+};
+
+/**
+ * End every active session of a user
+ * @returns {Number} - Sessions ended
+ */
+sessionSchema.statics.revokeAllForUser = async function (userId, reason) {
+    const result = await this.updateMany(
+        { user: userId, revokedAt: null },
+        { revokedAt: new Date(), revokedReason: reason }
+    );
+    return result.modifiedCount;
+};
+
+const Session = mongoose.model('Session', sessionSchema);
+
+export default Session;
@@ -18,7 +18,8 @@ const userSchema = new mongoose.Schema({
     },
     password: {
         type: String,
-        required: [true, 'Password is required'],
+        // Accounts created with Google sign-in may not have one
+        required: [function () { return !this.googleId; }, 'Password is required'],
         minlength: [6, 'Password must be at least 6 characters'],
         select: false // Don't include password in queries by default
     },
@@ -32,19 +33,56 @@ const userSchema = new mongoose.Schema({
         trim: true,
         maxlength: [200, 'Location cannot exceed 200 characters']
     },
+    // Where the user is, [longitude, latitude] (services/geocoding.js)
+    coordinates: {
+        type: [Number],
+        default: undefined
+    },
+    // device = sent by the browser, pincode / city = geocoded from location
+    locationPrecision: {
+        type: String,
+        enum: ['device', 'pincode', 'city']
+    },
     role: {
         type: String,
         enum: ['admin', 'donor', 'seeker', 'hospital'],
         default: 'seeker'
     },
+    // Email address confirmed (services/accountTokens.js)
     verified: {
         type: Boolean,
         default: false
     },
+    emailVerifiedAt: Date,
+    // Phone number confirmed by SMS code; cleared when the number changes
+    phoneVerified: {
+        type: Boolean,
+        default: false
+    },
+    phoneVerifiedAt: Date,
+    // Google account ("sub") that can sign in to this account (services/googleAuth.js)
+    googleId: {
+        type: String,
+        unique: true,
+        sparse: true
+    },
     profilePicture: {
         type: String,
         default: ''
     },
+    // Storage keys of every size of the profile photo (services/profilePhotos.js)
+    profilePhotoKeys: [String],
+    // Hospital a staff account works for (role 'hospital')
+    hospital: {
+        type: mongoose.Schema.Types.ObjectId,
+        ref: 'Hospital'
+    },
+    // Channels the user wants notifications on
+    notificationPreferences: {
+        email: { type: Boolean, default: true },
+        sms: { type: Boolean, default: false },
+        app: { type: Boolean, default: true }
+    },
     // Donor-specific profile fields
     profile: {
         bloodGroup: {
@@ -53,6 +91,11 @@ const userSchema = new mongoose.Schema({
         },
         dateOfBirth: Date,
         weight: Number,
+        // Used for the wait between donations (config/eligibilityRules.js)
+        sex: {
+            type: String,
+            enum: ['male', 'female', 'other']
+        },
         lastDonation: Date,
         eligibleNext: Date,
         totalDonations: {
@@ -73,15 +116,38 @@ const userSchema = new mongoose.Schema({
             default: 'none'
         },
 
+        // Donation streak (config/donationRules.js)
+        streak: {
+            current: { type: Number, default: 0 },
+            longest: { type: Number, default: 0 },
+            since: Date
+        },
+
+        // Badges earned, kept once earned (config/donationRules.js)
+        badges: [{
+            code: String,
+            earnedAt: Date
+        }],
+
         // Eligibility quiz results
         quizResult: {
             isEligible: Boolean,
             score: Number,
             percentage: Number,
+            questionnaireVersion: Number,
             completedAt: Date,
             answers: mongoose.Schema.Types.Mixed
         },
 
+        // Temporary deferrals from the latest eligibility quiz
+        deferrals: [{
+            code: String,
+            message: String,
+            startsAt: Date,
+            until: Date, // Not set when the deferral needs a staff review
+            quizAttempt: { type: mongoose.Schema.Types.ObjectId, ref: 'QuizAttempt' }
+        }],
+
         // Donation history
         donationHistory: [{
             date: Date,
@@ -101,6 +167,9 @@ const userSchema = new mongoose.Schema({
     timestamps: true
 });
 
+// Distance-based donor matching
+userSchema.index({ coordinates: '2dsphere' });
+
 // Hash password before saving
 userSchema.pre('save', async function (next) {
     if (!this.isModified('password')) {
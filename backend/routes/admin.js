@@ -1,9 +1,15 @@
 import express from 'express';
+import mongoose from 'mongoose';
 import User from '../models/User.js';
 import BloodRequest from '../models/BloodRequest.js';
+import Hospital from '../models/Hospital.js';
 import Donation from '../models/Donation.js';
+import Questionnaire from '../models/Questionnaire.js';
 import { protect } from '../middleware/auth.js';
 import { roleCheck } from '../middleware/roleCheck.js';
+import { relinkStaffAccount } from '../services/hospitalAccounts.js';
+import { publishUserChange } from '../services/realtime.js';
+import { parseQuestionnaire, formatQuestionnaire } from '../services/questionnaire.js';
 
 const router = express.Router();
 
@@ -141,6 +147,8 @@ router.put('/users/:id/role', async (req, res) => {
             });
         }
 
+        publishUserChange(user);
+
         res.json({
             success: true,
             message: 'User role updated successfully',
@@ -155,6 +163,110 @@ router.put('/users/:id/role', async (req, res) => {
     }
 });
 
+// @route   PUT /api/admin/users/:id/hospital
+// @desc    Link a hospital staff account to a directory hospital
+// @access  Private (admin only)
+router.put('/users/:id/hospital', async (req, res) => {
+    try {
+        const { hospitalId } = req.body;
+
+        const user = await User.findById(req.params.id);
+
+        if (!user || user.role !== 'hospital') {
+            return res.status(404).json({
+                success: false,
+                message: 'Hospital staff account not found'
+            });
+        }
+
+        const { hospital, moved } = await relinkStaffAccount(user, hospitalId);
+
+        if (!hospital) {
+            return res.status(404).json({
+                success: false,
+                message: 'Hospital not found'
+            });
+        }
+
+        publishUserChange(user);
+
+        res.json({
+            success: true,
+            message: moved
+                ? `Account linked to ${hospital.name}; stock moved with it`
+                : `Account linked to ${hospital.name}`,
+            data: { user, hospital }
+        });
+    } catch (error) {
+        console.error('Link hospital error:', error);
+        res.status(500).json({
+            success: false,
+            message: 'Server error'
+        });
+    }
+});
+
+// @route   GET /api/admin/hospitals/pending
+// @desc    Get hospitals created by staff registration that await approval
+// @access  Private (admin only)
+router.get('/hospitals/pending', async (req, res) => {
+    try {
+        const hospitals = await Hospital.find({ verified: false, isActive: false })
+            .sort({ createdAt: -1 });
+
+        res.json({
+            success: true,
+            count: hospitals.length,
+            data: { hospitals }
+        });
+    } catch (error) {
+        console.error('Get pending hospitals error:', error);
+        res.status(500).json({
+            success: false,
+            message: 'Server error'
+        });
+    }
+});
+
+// @route   PUT /api/admin/hospitals/:id/approve
+// @desc    Approve a registered hospital so it is listed and receives requests
+// @access  Private (admin only)
+router.put('/hospitals/:id/approve', async (req, res) => {
+    try {
+        if (!mongoose.isValidObjectId(req.params.id)) {
+            return res.status(404).json({
+                success: false,
+                message: 'Hospital not found'
+            });
+        }
+
+        const hospital = await Hospital.findByIdAndUpdate(
+            req.params.id,
+            { verified: true, isActive: true },
+            { new: true }
+        );
+
+        if (!hospital) {
+            return res.status(404).json({
+                success: false,
+                message: 'Hospital not found'
+            });
+        }
+
+        res.json({
+            success: true,
+            message: `${hospital.name} is now listed`,
+            data: { hospital }
+        });
+    } catch (error) {
+        console.error('Approve hospital error:', error);
+        res.status(500).json({
+            success: false,
+            message: 'Server error'
+        });
+    }
+});
+
 // @route   DELETE /api/admin/users/:id
 // @desc    Delete user
 // @access  Private (admin only)
@@ -169,6 +281,8 @@ router.delete('/users/:id', async (req, res) => {
             });
         }
 
+        publishUserChange(user, 'deleted');
+
         res.json({
             success: true,
             message: 'User deleted successfully'
@@ -182,4 +296,196 @@ router.delete('/users/:id', async (req, res) => {
     }
 });
 
+// @route   GET /api/admin/questionnaires
+// @desc    Get all eligibility questionnaire versions, newest first
+// @access  Private (admin only)
+router.get('/questionnaires', async (req, res) => {
+    try {
+        // Make sure the default version exists before listing
+        await Questionnaire.getActive();
+
+        const questionnaires = await Questionnaire.find().sort({ version: -1 });
+
+        res.json({
+            success: true,
+            count: questionnaires.length,
+            data: { questionnaires: questionnaires.map(formatQuestionnaire) }
+        });
+    } catch (error) {
+        console.error('Get questionnaires error:', error);
+        res.status(500).json({
+            success: false,
+            message: 'Server error'
+        });
+    }
+});
+
+// @route   POST /api/admin/questionnaires
+// @desc    Create a draft questionnaire version
+// @access  Private (admin only)
+//
+// Body: { questions, pass_percentage?, notes? } or { copy_from: questionnaireId }
+router.post('/questionnaires', async (req, res) => {
+    try {
+        let fields;
+
+        if (req.body.copy_from) {
+            const source = mongoose.isValidObjectId(req.body.copy_from) &&
+                await Questionnaire.findById(req.body.copy_from);
+            if (!source) {
+                return res.status(404).json({
+                    success: false,
+                    message: 'Questionnaire to copy not found'
+                });
+            }
+            fields = {
+                questions: source.toObject().questions,
+                passPercentage: source.passPercentage,
+                notes: `Copy of version ${source.version}`
+            };
+        } else {
+            fields = parseQuestionnaire(req.body);
+            if (fields.error) {
+                return res.status(400).json({
+                    success: false,
+                    message: fields.error
+                });
+            }
+        }
+
+        const questionnaire = await Questionnaire.create({
+            ...fields,
+            version: await Questionnaire.nextVersion(),
+            status: 'draft',
+            createdBy: req.user._id
+        });
+
+        res.status(201).json({
+            success: true,
+            message: `Draft version ${questionnaire.version} created`,
+            data: { questionnaire: formatQuestionnaire(questionnaire) }
+        });
+    } catch (error) {
+        console.error('Create questionnaire error:', error);
+        res.status(error.code === 11000 ? 409 : 500).json({
+            success: false,
+            message: error.code === 11000 ? 'Another version was created at the same time, please retry' : 'Server error'
+        });
+    }
+});
+
+/**
+ * Load a draft questionnaire by ID
+ * @returns {Object|null} - Questionnaire, or null after sending an error
+ */
+const findDraftQuestionnaire = async (req, res) => {
+    const questionnaire = mongoose.isValidObjectId(req.params.id) &&
+        await Questionnaire.findById(req.params.id);
+
+    if (!questionnaire) {
+        res.status(404).json({
+            success: false,
+            message: 'Questionnaire not found'
+        });
+        return null;
+    }
+    if (questionnaire.status !== 'draft') {
+        res.status(409).json({
+            success: false,
+            message: `Version ${questionnaire.version} is ${questionnaire.status} and can no longer be changed`
+        });
+        return null;
+    }
+    return questionnaire;
+};
+
+// @route   PUT /api/admin/questionnaires/:id
+// @desc    Update a draft questionnaire
+// @access  Private (admin only)
+//
+// Body: { questions, pass_percentage?, notes? }
+router.put('/questionnaires/:id', async (req, res) => {
+    try {
+        const questionnaire = await findDraftQuestionnaire(req, res);
+        if (!questionnaire) return;
+
+        const fields = parseQuestionnaire(req.body);
+        if (fields.error) {
+            return res.status(400).json({
+                success: false,
+                message: fields.error
+            });
+        }
+
+        questionnaire.questions = fields.questions;
+        if (fields.passPercentage !== undefined) questionnaire.passPercentage = fields.passPercentage;
+        if (fields.notes !== undefined) questionnaire.notes = fields.notes;
+        await questionnaire.save();
+
+        res.json({
+            success: true,
+            message: `Draft version ${questionnaire.version} saved`,
+            data: { questionnaire: formatQuestionnaire(questionnaire) }
+        });
+    } catch (error) {
+        console.error('Update questionnaire error:', error);
+        res.status(500).json({
+            success: false,
+            message: 'Server error'
+        });
+    }
+});
+
+// @route   POST /api/admin/questionnaires/:id/activate
+// @desc    Make a draft the questionnaire donors answer; the current version is archived
+// @access  Private (admin only)
+router.post('/questionnaires/:id/activate', async (req, res) => {
+    try {
+        const questionnaire = await findDraftQuestionnaire(req, res);
+        if (!questionnaire) return;
+
+        await Questionnaire.updateMany({ status: 'active' }, { status: 'archived' });
+
+        questionnaire.status = 'active';
+        questionnaire.activatedAt = new Date();
+        questionnaire.activatedBy = req.user._id;
+        await questionnaire.save();
+
+        res.json({
+            success: true,
+            message: `Version ${questionnaire.version} is now active`,
+            data: { questionnaire: formatQuestionnaire(questionnaire) }
+        });
+    } catch (error) {
+        console.error('Activate questionnaire error:', error);
+        res.status(500).json({
+            success: false,
+            message: 'Server error'
+        });
+    }
+});
+
+// @route   DELETE /api/admin/questionnaires/:id
+// @desc    Delete a draft questionnaire
+// @access  Private (admin only)
+router.delete('/questionnaires/:id', async (req, res) => {
+    try {
+        const questionnaire = await findDraftQuestionnaire(req, res);
+        if (!questionnaire) return;
+
+        await questionnaire.deleteOne();
+
+        res.json({
+            success: true,
+            message: `Draft version ${questionnaire.version} deleted`
+        });
+    } catch (error) {
+        console.error('Delete questionnaire error:', error);
+        res.status(500).json({
+            success: false,
+            message: 'Server error'
+        });
+    }
+});
+
 export default router;
@@ -13,7 +13,8 @@
 import express from 'express';
 import bcrypt from 'bcryptjs';
 import User from '../models/User.js';
-import { generateToken, protect } from '../middleware/auth.js';
+import { protect } from '../middleware/auth.js';
+import { startSession } from '../services/sessions.js';
 
 const router = express.Router();
 
@@ -139,8 +140,8 @@ router.post('/admin-login', async (req, res) => {
 
         console.log('✅ Password verified successfully');
 
-        // Generate JWT token
-        const token = generateToken(admin._id);
+        // Sign in on this device (refresh cookie + access token)
+        const { token, tokenExpiresAt } = await startSession(req, res, admin);
 
         // Fetch dashboard data for response
         const dashboardData = await getDashboardData();
@@ -159,6 +160,7 @@ router.post('/admin-login', async (req, res) => {
                     verified: admin.verified
                 },
                 token,
+                tokenExpiresAt,
                 dashboard: dashboardData
             }
         });
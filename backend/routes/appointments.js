@@ -0,0 +1,357 @@
+/**
+ * RaktSetu - Donation Appointment Routes
+ *
+ * Donors find open hospital donation slots and book, reschedule or cancel
+ * an appointment in one. Hospitals publish slots and check donors in
+ * through /api/hospital (see routes/hospitalStaff.js).
+ */
+
+import express from 'express';
+import mongoose from 'mongoose';
+import Donation from '../models/Donation.js';
+import DonationSlot from '../models/DonationSlot.js';
+import Hospital from '../models/Hospital.js';
+import { protect } from '../middleware/auth.js';
+import { roleCheck } from '../middleware/roleCheck.js';
+import {
+    ACTIVE_APPOINTMENT_STATUSES,
+    formatSlot,
+    formatAppointment
+} from '../services/appointments.js';
+import { evaluateEligibility, formatEligibility } from '../services/eligibility.js';
+import { publishAppointmentChange } from '../services/realtime.js';
+
+const router = express.Router();
+
+// Slots are listed this many days ahead by default
+const DEFAULT_SLOT_DAYS = 14;
+
+router.use(protect, roleCheck('donor'));
+
+/**
+ * Load an open slot the donor can book
+ * @returns {Object|null} - Slot with its hospital, or null after sending an error
+ */
+const findBookableSlot = async (req, res, slotId) => {
+    const slot = mongoose.isValidObjectId(slotId) &&
+        await DonationSlot.findById(slotId).populate('hospital_id', 'name address city isActive');
+
+    if (!slot || !slot.hospital_id?.isActive) {
+        res.status(404).json({
+            success: false,
+            message: 'Slot not found'
+        });
+        return null;
+    }
+
+    if (slot.start_time <= new Date()) {
+        res.status(400).json({
+            success: false,
+            message: 'This slot has already started'
+        });
+        return null;
+    }
+
+    const eligibility = await evaluateEligibility(req.user, { asOf: slot.start_time });
+    if (!eligibility.eligible) {
+        res.status(400).json({
+            success: false,
+            message: eligibility.eligibleFrom
+                ? `You can book a donation from ${eligibility.eligibleFrom.toDateString()}`
+                : eligibility.reasons.map(reason => reason.message).join(' '),
+            data: { eligibility: formatEligibility(eligibility) }
+        });
+        return null;
+    }
+
+    return slot;
+};
+
+/**
+ * Load one of the donor's scheduled appointments
+ * @returns {Object|null} - Donation document, or null after sending a 404
+ */
+const findDonorAppointment = async (req, res) => {
+    const appointment = mongoose.isValidObjectId(req.params.id) && await Donation.findOne({
+        _id: req.params.id,
+        donorId: req.user._id,
+        status: 'scheduled'
+    });
+
+    if (!appointment) {
+        res.status(404).json({
+            success: false,
+            message: 'Appointment not found'
+        });
+        return null;
+    }
+    return appointment;
+};
+
+// @route   GET /api/appointments/slots
+// @desc    Get open donation slots, soonest first
+// @access  Private (donor)
+//
+// Query parameters:
+// - hospitalId: Only slots of this hospital
+// - city: Only slots of hospitals in this city
+// - days: How many days ahead to look (default 14, max 60)
+router.get('/slots', async (req, res) => {
+    try {
+        const days = Math.min(parseInt(req.query.days) || DEFAULT_SLOT_DAYS, 60);
+        const until = new Date();
+        until.setDate(until.getDate() + days);
+
+        // Slots before the donor is eligible again are not offered
+        const eligibility = await evaluateEligibility(req.user);
+        if (eligibility.requiresReview) {
+            return res.json({
+                success: true,
+                count: 0,
+                data: { slots: [], eligibility: formatEligibility(eligibility) }
+            });
+        }
+        const from = eligibility.eligibleFrom || new Date();
+
+        const hospitalQuery = { isActive: true };
+        if (req.query.hospitalId) {
+            if (!mongoose.isValidObjectId(req.query.hospitalId)) {
+                return res.status(400).json({
+                    success: false,
+                    message: 'Invalid hospital ID'
+                });
+            }
+            hospitalQuery._id = req.query.hospitalId;
+        }
+        if (req.query.city) {
+            hospitalQuery.city = req.query.city.toLowerCase().trim();
+        }
+
+        const hospitalIds = await Hospital.find(hospitalQuery).distinct('_id');
+
+        const slots = await DonationSlot.find({
+            hospital_id: { $in: hospitalIds },
+            start_time: { $gt: from, $lt: until },
+            $expr: { $lt: ['$booked_count', '$capacity'] }
+        })
+            .populate('hospital_id', 'name address city')
+            .sort({ start_time: 1 })
+            .limit(200);
+
+        res.json({
+            success: true,
+            count: slots.length,
+            data: {
+                slots: slots.map(formatSlot),
+                eligibility: formatEligibility(eligibility)
+            }
+        });
+    } catch (error) {
+        console.error('Get donation slots error:', error);
+        res.status(500).json({
+            success: false,
+            message: 'Server error'
+        });
+    }
+});
+
+// @route   GET /api/appointments/me
+// @desc    Get the donor's appointments, upcoming first
+// @access  Private (donor)
+router.get('/me', async (req, res) => {
+    try {
+        const appointments = await Donation.find({
+            donorId: req.user._id,
+            slot: { $exists: true }
+        })
+            .populate('hospital', 'name address city')
+            .populate('slot', 'start_time end_time')
+            .sort({ donationDate: -1 })
+            .limit(50);
+        const eligibility = await evaluateEligibility(req.user);
+
+        const upcoming = appointments
+            .filter(a => ACTIVE_APPOINTMENT_STATUSES.includes(a.status))
+            .reverse();
+        const past = appointments.filter(a => !ACTIVE_APPOINTMENT_STATUSES.includes(a.status));
+
+        res.json({
+            success: true,
+            data: {
+                upcoming: upcoming.map(formatAppointment),
+                past: past.map(formatAppointment),
+                eligibility: formatEligibility(eligibility)
+            }
+        });
+    } catch (error) {
+        console.error('Get appointments error:', error);
+        res.status(500).json({
+            success: false,
+            message: 'Server error'
+        });
+    }
+});
+
+// @route   POST /api/appointments
+// @desc    Book a donation appointment in a slot
+// @access  Private (donor)
+//
+// Body: { slotId, notes? }
+router.post('/', async (req, res) => {
+    try {
+        const bloodGroup = req.user.profile?.bloodGroup;
+        if (!bloodGroup) {
+            return res.status(400).json({
+                success: false,
+                message: 'Add your blood group to your profile before booking'
+            });
+        }
+
+        const existing = await Donation.findOne({
+            donorId: req.user._id,
+            status: { $in: ACTIVE_APPOINTMENT_STATUSES }
+        });
+        if (existing) {
+            return res.status(409).json({
+                success: false,
+                message: 'You already have an upcoming appointment. Reschedule or cancel it instead.'
+            });
+        }
+
+        const slot = await findBookableSlot(req, res, req.body.slotId);
+        if (!slot) return;
+
+        const reserved = await DonationSlot.reservePlace(slot._id);
+        if (!reserved) {
+            return res.status(409).json({
+                success: false,
+                message: 'This slot is fully booked'
+            });
+        }
+
+        let appointment;
+        try {
+            appointment = await Donation.create({
+                donorId: req.user._id,
+                donorName: req.user.name,
+                bloodGroup,
+                donationDate: slot.start_time,
+                location: slot.hospital_id.name,
+                status: 'scheduled',
+                notes: req.body.notes?.trim() || undefined,
+                hospital: slot.hospital_id._id,
+                slot: slot._id
+            });
+        } catch (error) {
+            await DonationSlot.releasePlace(slot._id);
+            throw error;
+        }
+
+        publishAppointmentChange(appointment, 'booked');
+        console.log(`📅 ${req.user.name} booked a donation at ${slot.hospital_id.name} on ${slot.start_time.toISOString()}`);
+
+        appointment.hospital = slot.hospital_id;
+        appointment.slot = reserved;
+
+        res.status(201).json({
+            success: true,
+            message: `Appointment booked at ${slot.hospital_id.name}`,
+            data: { appointment: formatAppointment(appointment) }
+        });
+    } catch (error) {
+        console.error('Book appointment error:', error);
+        res.status(500).json({
+            success: false,
+            message: 'Server error'
+        });
+    }
+});
+
+// @route   PUT /api/appointments/:id
+// @desc    Move a scheduled appointment to another slot
+// @access  Private (donor, own appointments)
+//
+// Body: { slotId }
+router.put('/:id', async (req, res) => {
+    try {
+        const appointment = await findDonorAppointment(req, res);
+        if (!appointment) return;
+
+        if (appointment.slot?.toString() === req.body.slotId) {
+            return res.status(400).json({
+                success: false,
+                message: 'The appointment is already in this slot'
+            });
+        }
+
+        const slot = await findBookableSlot(req, res, req.body.slotId);
+        if (!slot) return;
+
+        const reserved = await DonationSlot.reservePlace(slot._id);
+        if (!reserved) {
+            return res.status(409).json({
+                success: false,
+                message: 'This slot is fully booked'
+            });
+        }
+
+        const previousSlot = appointment.slot;
+
+        appointment.slot = slot._id;
+        appointment.hospital = slot.hospital_id._id;
+        appointment.location = slot.hospital_id.name;
+        appointment.donationDate = slot.start_time;
+        await appointment.save();
+
+        if (previousSlot) await DonationSlot.releasePlace(previousSlot);
+
+        publishAppointmentChange(appointment, 'rescheduled');
+
+        appointment.hospital = slot.hospital_id;
+        appointment.slot = reserved;
+
+        res.json({
+            success: true,
+            message: `Appointment moved to ${slot.start_time.toDateString()} at ${slot.hospital_id.name}`,
+            data: { appointment: formatAppointment(appointment) }
+        });
+    } catch (error) {
+        console.error('Reschedule appointment error:', error);
+        res.status(500).json({
+            success: false,
+            message: 'Server error'
+        });
+    }
+});
+
+// @route   DELETE /api/appointments/:id
+// @desc    Cancel a scheduled appointment and free its place
+// @access  Private (donor, own appointments)
+router.delete('/:id', async (req, res) => {
+    try {
+        const appointment = await findDonorAppointment(req, res);
+        if (!appointment) return;
+
+        appointment.status = 'cancelled';
+        appointment.cancelledAt = new Date();
+        await appointment.save();
+
+        if (appointment.slot) await DonationSlot.releasePlace(appointment.slot);
+
+        publishAppointmentChange(appointment, 'cancelled');
+
+        res.json({
+            success: true,
+            message: 'Appointment cancelled',
+            data: { appointment: formatAppointment(appointment) }
+        });
+    } catch (error) {
+        console.error('Cancel appointment error:', error);
+        res.status(500).json({
+            success: false,
+            message: 'Server error'
+        });
+    }
+});
+
+export default router;
@@ -1,10 +1,69 @@
 import express from 'express';
+import mongoose from 'mongoose';
 import User from '../models/User.js';
-import { generateToken, protect } from '../middleware/auth.js';
-import { registerValidation, loginValidation, validate } from '../middleware/validate.js';
+import Session from '../models/Session.js';
+import { protect } from '../middleware/auth.js';
+import {
+    registerValidation,
+    loginValidation,
+    forgotPasswordValidation,
+    resetPasswordValidation,
+    validate
+} from '../middleware/validate.js';
+import { linkStaffAccount } from '../services/hospitalAccounts.js';
+import { publishUserChange } from '../services/realtime.js';
+import { locateUser } from '../services/geocoding.js';
+import {
+    SessionError,
+    clearRefreshCookie,
+    endSession,
+    formatSession,
+    refreshSession,
+    startSession
+} from '../services/sessions.js';
+import {
+    AccountTokenError,
+    requestPasswordReset,
+    resetPassword,
+    sendEmailVerification,
+    sendPhoneCode,
+    verifyEmail,
+    verifyPhoneCode
+} from '../services/accountTokens.js';
+import {
+    GOOGLE_SIGNUP_ROLES,
+    GoogleAuthError,
+    findGoogleUser,
+    getGoogleClientIds,
+    isGoogleSignInEnabled,
+    markGoogleEmailVerified,
+    verifyGoogleCredential
+} from '../services/googleAuth.js';
 
 const router = express.Router();
 
+// Account details returned when a session is started or resumed
+const formatAuthUser = (user) => ({
+    id: user._id,
+    name: user.name,
+    email: user.email,
+    phone: user.phone,
+    role: user.role,
+    verified: user.verified,
+    phoneVerified: user.phoneVerified,
+    googleLinked: Boolean(user.googleId),
+    profilePicture: user.profilePicture,
+    profile: user.profile,
+    hospital: user.hospital,
+    createdAt: user.createdAt
+});
+
+// Reply for a token that could not be sent or used
+const sendAccountTokenError = (res, error) => res.status(error.status).json({
+    success: false,
+    message: error.message
+});
+
 // @route   POST /api/auth/register
 // @desc    Register a new user
 // @access  Public
@@ -21,8 +80,8 @@ router.post('/register', registerValidation, validate, async (req, res) => {
             });
         }
 
-        // Create user
-        const user = await User.create({
+        // Create user (located from latitude/longitude when sent, else from location)
+        const user = new User({
             name,
             email,
             password,
@@ -30,9 +89,21 @@ router.post('/register', registerValidation, validate, async (req, res) => {
             location,
             role: role || 'seeker'
         });
+        await locateUser(user, req.body);
+        await user.save();
 
-        // Generate token
-        const token = generateToken(user._id);
+        if (user.role === 'hospital') {
+            await linkStaffAccount(user, req.body);
+        }
+        publishUserChange(user, 'created');
+
+        // Ask the user to confirm their email; they can resend the link if this fails
+        sendEmailVerification(user).catch(error => {
+            console.error('Send verification email error:', error);
+        });
+
+        // Sign in on this device (refresh cookie + access token)
+        const { token, tokenExpiresAt } = await startSession(req, res, user);
 
         res.status(201).json({
             success: true,
@@ -45,9 +116,12 @@ router.post('/register', registerValidation, validate, async (req, res) => {
                     phone: user.phone,
                     role: user.role,
                     verified: user.verified,
+                    phoneVerified: user.phoneVerified,
+                    hospital: user.hospital,
                     createdAt: user.createdAt
                 },
-                token
+                token,
+                tokenExpiresAt
             }
         });
     } catch (error) {
@@ -75,6 +149,14 @@ router.post('/login', loginValidation, validate, async (req, res) => {
             });
         }
 
+        // Accounts created with Google have no password until one is set by a reset link
+        if (!user.password) {
+            return res.status(401).json({
+                success: false,
+                message: 'This account signs in with Google'
+            });
+        }
+
         // Check password
         const isMatch = await user.comparePassword(password);
         if (!isMatch) {
@@ -84,8 +166,8 @@ router.post('/login', loginValidation, validate, async (req, res) => {
             });
         }
 
-        // Generate token
-        const token = generateToken(user._id);
+        // Sign in on this device (refresh cookie + access token)
+        const { token, tokenExpiresAt } = await startSession(req, res, user);
 
         res.json({
             success: true,
@@ -98,12 +180,14 @@ router.post('/login', loginValidation, validate, async (req, res) => {
                     phone: user.phone,
                     role: user.role,
                     verified: user.verified,
-                    verified: user.verified,
+                    phoneVerified: user.phoneVerified,
                     profilePicture: user.profilePicture,
                     profile: user.profile,
+                    hospital: user.hospital,
                     createdAt: user.createdAt
                 },
-                token
+                token,
+                tokenExpiresAt
             }
         });
     } catch (error) {
@@ -125,16 +209,7 @@ router.get('/me', protect, async (req, res) => {
         res.json({
             success: true,
             data: {
-                user: {
-                    id: user._id,
-                    name: user.name,
-                    email: user.email,
-                    phone: user.phone,
-                    role: user.role,
-                    verified: user.verified,
-                    profile: user.profile,
-                    createdAt: user.createdAt
-                }
+                user: formatAuthUser(user)
             }
         });
     } catch (error) {
@@ -146,14 +221,431 @@ router.get('/me', protect, async (req, res) => {
     }
 });
 
+// @route   POST /api/auth/refresh
+// @desc    Trade the refresh cookie for a new access token (rotates the cookie)
+// @access  Public (refresh cookie)
+router.post('/refresh', async (req, res) => {
+    try {
+        const { session, token, tokenExpiresAt } = await refreshSession(req, res);
+
+        const user = await User.findById(session.user);
+        if (!user) {
+            clearRefreshCookie(res);
+            return res.status(401).json({
+                success: false,
+                message: 'User not found'
+            });
+        }
+
+        res.json({
+            success: true,
+            data: {
+                user: formatAuthUser(user),
+                token,
+                tokenExpiresAt
+            }
+        });
+    } catch (error) {
+        if (error instanceof SessionError) {
+            clearRefreshCookie(res);
+            return res.status(401).json({
+                success: false,
+                message: error.message
+            });
+        }
+
+        console.error('Refresh session error:', error);
+        res.status(500).json({
+            success: false,
+            message: 'Server error'
+        });
+    }
+});
+
 // @route   POST /api/auth/logout
-// @desc    Logout user (client-side token removal)
+// @desc    End the session on this device (access token or refresh cookie)
+// @access  Public
+router.post('/logout', async (req, res) => {
+    try {
+        await endSession(req, res);
+
+        res.json({
+            success: true,
+            message: 'Logged out successfully'
+        });
+    } catch (error) {
+        console.error('Logout error:', error);
+        res.status(500).json({
+            success: false,
+            message: 'Server error'
+        });
+    }
+});
+
+// @route   POST /api/auth/logout-all
+// @desc    End every session of the user, on all devices
+// @access  Private
+router.post('/logout-all', protect, async (req, res) => {
+    try {
+        const ended = await Session.revokeAllForUser(req.user._id, 'logout_all');
+        clearRefreshCookie(res);
+
+        res.json({
+            success: true,
+            message: `Logged out of ${ended} session${ended !== 1 ? 's' : ''}`,
+            data: { ended }
+        });
+    } catch (error) {
+        console.error('Logout all error:', error);
+        res.status(500).json({
+            success: false,
+            message: 'Server error'
+        });
+    }
+});
+
+// @route   GET /api/auth/sessions
+// @desc    Devices the user is signed in on
+// @access  Private
+router.get('/sessions', protect, async (req, res) => {
+    try {
+        const sessions = await Session.findActiveForUser(req.user._id);
+
+        res.json({
+            success: true,
+            count: sessions.length,
+            data: {
+                sessions: sessions.map(session => formatSession(session, req.sessionId))
+            }
+        });
+    } catch (error) {
+        console.error('Get sessions error:', error);
+        res.status(500).json({
+            success: false,
+            message: 'Server error'
+        });
+    }
+});
+
+// @route   DELETE /api/auth/sessions/:id
+// @desc    Sign out one device
+// @access  Private
+router.delete('/sessions/:id', protect, async (req, res) => {
+    try {
+        const session = mongoose.isValidObjectId(req.params.id) &&
+            await Session.findOne({ _id: req.params.id, user: req.user._id, revokedAt: null });
+
+        if (!session) {
+            return res.status(404).json({
+                success: false,
+                message: 'Session not found'
+            });
+        }
+
+        await session.revoke('revoked').save();
+
+        const current = session._id.toString() === req.sessionId;
+        if (current) clearRefreshCookie(res);
+
+        res.json({
+            success: true,
+            message: current ? 'Logged out on this device' : 'Device signed out',
+            data: { current }
+        });
+    } catch (error) {
+        console.error('Revoke session error:', error);
+        res.status(500).json({
+            success: false,
+            message: 'Server error'
+        });
+    }
+});
+
+// Reply for a Google credential that could not be used
+const sendGoogleAuthError = (res, error) => res.status(error.status).json({
+    success: false,
+    message: error.message,
+    data: error.data
+});
+
+// @route   GET /api/auth/google/config
+// @desc    Whether Google sign-in is available, and the client ID to use
 // @access  Public
-router.post('/logout', (req, res) => {
+router.get('/google/config', (req, res) => {
     res.json({
         success: true,
-        message: 'Logged out successfully'
+        data: {
+            enabled: isGoogleSignInEnabled(),
+            clientId: getGoogleClientIds()[0] || null
+        }
     });
 });
 
+// @route   POST /api/auth/google
+// @desc    Sign in with a Google ID token ({ credential }). New accounts also send
+//          role (donor, seeker or hospital), phone and optionally location
+// @access  Public
+router.post('/google', async (req, res) => {
+    try {
+        const profile = await verifyGoogleCredential(req.body.credential);
+        let user = await findGoogleUser(profile);
+        const created = !user;
+
+        if (user) {
+            markGoogleEmailVerified(user, profile);
+            if (user.isModified()) await user.save();
+        } else {
+            // The role is the user's choice, never derived from the email
+            const role = req.body.role || 'seeker';
+            if (!GOOGLE_SIGNUP_ROLES.includes(role)) {
+                return res.status(400).json({
+                    success: false,
+                    message: `Choose one of: ${GOOGLE_SIGNUP_ROLES.join(', ')}`
+                });
+            }
+
+            const phone = typeof req.body.phone === 'string' ? req.body.phone.trim() : '';
+            if (!phone) {
+                return res.status(400).json({
+                    success: false,
+                    message: 'Add your phone number to finish signing up',
+                    data: {
+                        signupRequired: true,
+                        profile: { name: profile.name, email: profile.email }
+                    }
+                });
+            }
+
+            // Google has already confirmed the email address
+            user = new User({
+                name: profile.name,
+                email: profile.email,
+                phone,
+                location: req.body.location,
+                role,
+                googleId: profile.googleId,
+                verified: true,
+                emailVerifiedAt: new Date()
+            });
+            await locateUser(user, req.body);
+            await user.save();
+
+            if (user.role === 'hospital') {
+                await linkStaffAccount(user, req.body);
+            }
+            publishUserChange(user, 'created');
+        }
+
+        // Sign in on this device (refresh cookie + access token)
+        const { token, tokenExpiresAt } = await startSession(req, res, user);
+
+        res.status(created ? 201 : 200).json({
+            success: true,
+            message: created ? 'Registration successful' : 'Login successful',
+            data: {
+                user: formatAuthUser(user),
+                token,
+                tokenExpiresAt
+            }
+        });
+    } catch (error) {
+        if (error instanceof GoogleAuthError) return sendGoogleAuthError(res, error);
+
+        console.error('Google sign-in error:', error);
+        res.status(500).json({
+            success: false,
+            message: 'Server error during Google sign-in'
+        });
+    }
+});
+
+// @route   POST /api/auth/google/link
+// @desc    Link a Google account to the password account with its email
+//          ({ credential, password }) and sign in
+// @access  Public
+router.post('/google/link', async (req, res) => {
+    try {
+        const profile = await verifyGoogleCredential(req.body.credential);
+
+        const user = await User.findOne({ email: profile.email }).select('+password');
+        if (!user || user.googleId) {
+            return res.status(409).json({
+                success: false,
+                message: user ? 'This account is already linked to a Google account' : 'No account uses this email'
+            });
+        }
+
+        const isMatch = user.password && typeof req.body.password === 'string' &&
+            await user.comparePassword(req.body.password);
+        if (!isMatch) {
+            return res.status(401).json({
+                success: false,
+                message: 'Incorrect password'
+            });
+        }
+
+        user.googleId = profile.googleId;
+        markGoogleEmailVerified(user, profile);
+        await user.save();
+
+        // Sign in on this device (refresh cookie + access token)
+        const { token, tokenExpiresAt } = await startSession(req, res, user);
+
+        res.json({
+            success: true,
+            message: 'Google sign-in linked to your account',
+            data: {
+                user: formatAuthUser(user),
+                token,
+                tokenExpiresAt
+            }
+        });
+    } catch (error) {
+        if (error instanceof GoogleAuthError) return sendGoogleAuthError(res, error);
+
+        console.error('Link Google account error:', error);
+        res.status(500).json({
+            success: false,
+            message: 'Server error'
+        });
+    }
+});
+
+// @route   POST /api/auth/verify-email/send
+// @desc    Email a new verification link to the user
+// @access  Private
+router.post('/verify-email/send', protect, async (req, res) => {
+    try {
+        await sendEmailVerification(req.user);
+
+        res.json({
+            success: true,
+            message: `Verification link sent to ${req.user.email}`
+        });
+    } catch (error) {
+        if (error instanceof AccountTokenError) return sendAccountTokenError(res, error);
+
+        console.error('Send verification email error:', error);
+        res.status(500).json({
+            success: false,
+            message: 'Could not send the verification email. Please try again later.'
+        });
+    }
+});
+
+// @route   POST /api/auth/verify-email
+// @desc    Verify an email address with the token from the emailed link
+// @access  Public
+router.post('/verify-email', async (req, res) => {
+    try {
+        const user = await verifyEmail(req.body.token);
+
+        res.json({
+            success: true,
+            message: 'Email address verified',
+            data: {
+                user: formatAuthUser(user)
+            }
+        });
+    } catch (error) {
+        if (error instanceof AccountTokenError) return sendAccountTokenError(res, error);
+
+        console.error('Verify email error:', error);
+        res.status(500).json({
+            success: false,
+            message: 'Server error'
+        });
+    }
+});
+
+// @route   POST /api/auth/verify-phone/send
+// @desc    Text a verification code to the user's phone
+// @access  Private
+router.post('/verify-phone/send', protect, async (req, res) => {
+    try {
+        await sendPhoneCode(req.user);
+
+        res.json({
+            success: true,
+            message: `Verification code sent to ${req.user.phone}`
+        });
+    } catch (error) {
+        if (error instanceof AccountTokenError) return sendAccountTokenError(res, error);
+
+        console.error('Send phone code error:', error);
+        res.status(500).json({
+            success: false,
+            message: 'Could not send the verification code. Please try again later.'
+        });
+    }
+});
+
+// @route   POST /api/auth/verify-phone
+// @desc    Verify the user's phone number with the texted code
+// @access  Private
+router.post('/verify-phone', protect, async (req, res) => {
+    try {
+        const user = await verifyPhoneCode(req.user, req.body.code);
+
+        res.json({
+            success: true,
+            message: 'Phone number verified',
+            data: {
+                user: formatAuthUser(user)
+            }
+        });
+    } catch (error) {
+        if (error instanceof AccountTokenError) return sendAccountTokenError(res, error);
+
+        console.error('Verify phone error:', error);
+        res.status(500).json({
+            success: false,
+            message: 'Server error'
+        });
+    }
+});
+
+// @route   POST /api/auth/forgot-password
+// @desc    Email a password reset link (same reply whether or not the account exists)
+// @access  Public
+router.post('/forgot-password', forgotPasswordValidation, validate, async (req, res) => {
+    try {
+        await requestPasswordReset(req.body.email);
+
+        res.json({
+            success: true,
+            message: 'If an account uses that email, a link to reset the password is on its way'
+        });
+    } catch (error) {
+        console.error('Forgot password error:', error);
+        res.status(500).json({
+            success: false,
+            message: 'Could not send the reset email. Please try again later.'
+        });
+    }
+});
+
+// @route   POST /api/auth/reset-password
+// @desc    Set a new password with the token from a reset link (signs out every device)
+// @access  Public
+router.post('/reset-password', resetPasswordValidation, validate, async (req, res) => {
+    try {
+        await resetPassword(req.body.token, req.body.password);
+        clearRefreshCookie(res);
+
+        res.json({
+            success: true,
+            message: 'Password updated. Please log in with your new password.'
+        });
+    } catch (error) {
+        if (error instanceof AccountTokenError) return sendAccountTokenError(res, error);
+
+        console.error('Reset password error:', error);
+        res.status(500).json({
+            success: false,
+            message: 'Server error'
+        });
+    }
+});
+
 export default router;
@@ -1,11 +1,106 @@
 import express from 'express';
 import BloodRequest from '../models/BloodRequest.js';
-import { protect } from '../middleware/auth.js';
+import User from '../models/User.js';
+import BloodInventory from '../models/BloodInventory.js';
+import Hospital from '../models/Hospital.js';
+import { protect, requireVerified } from '../middleware/auth.js';
 import { roleCheck } from '../middleware/roleCheck.js';
 import { bloodRequestValidation, validate } from '../middleware/validate.js';
+import { uploadDocuments } from '../middleware/upload.js';
+import { REQUEST_STATUSES, TERMINAL_STATUSES, getAllowedTransitions } from '../config/requestLifecycle.js';
+import { routeRequest } from '../services/requestMatching.js';
+import { publishRequestChange } from '../services/realtime.js';
+import { evaluateEligibility, formatEligibility } from '../services/eligibility.js';
+import { resolveLocation } from '../services/geocoding.js';
+import { dispatchNotification } from '../services/notificationDispatcher.js';
+import {
+    DOCUMENT_KINDS,
+    canReviewDocuments,
+    canViewDocuments,
+    formatDocument,
+    getDocumentUrl,
+    removeDocuments,
+    storeDocuments
+} from '../services/requestDocuments.js';
+import {
+    MAX_ETA_MINUTES,
+    OPEN_REQUEST_STATUSES,
+    broadcastEmergency,
+    canDonorServe,
+    formatAppeal,
+    formatDonorResponse,
+    getRebroadcastWait,
+    isDonorNearRequest,
+    isOpenEmergency
+} from '../services/emergencyBroadcast.js';
 
 const router = express.Router();
 
+// Attach the statuses the current user may move a request to
+// Donor contact details are only shown to the people handling the request,
+// documents only to those allowed to open them
+const withTransitions = (request, user) => {
+    const actors = request.getActors(user);
+    const { donorResponses, documents, ...fields } = request.toObject();
+
+    return {
+        ...fields,
+        donorResponses: actors.length > 0 ? donorResponses : undefined,
+        documents: canViewDocuments(request, user)
+            ? request.documents.map(doc => formatDocument(request, doc))
+            : undefined,
+        requisitionRequired: request.needsRequisition(),
+        canReviewRequisition: canReviewDocuments(request, user),
+        allowedTransitions: getAllowedTransitions(request.status, actors)
+    };
+};
+
+// Find a request whose documents the user may open, or send the error response
+const findRequestWithDocuments = async (req, res) => {
+    const request = await BloodRequest.findById(req.params.id);
+
+    if (!request) {
+        res.status(404).json({
+            success: false,
+            message: 'Blood request not found'
+        });
+        return null;
+    }
+
+    if (!canViewDocuments(request, req.user)) {
+        res.status(403).json({
+            success: false,
+            message: 'Not authorized to view the documents of this request'
+        });
+        return null;
+    }
+
+    return request;
+};
+
+// Find an open emergency a donor can answer, or send the error response
+const findOpenEmergency = async (req, res) => {
+    const request = await BloodRequest.findById(req.params.id);
+
+    if (!request) {
+        res.status(404).json({
+            success: false,
+            message: 'Blood request not found'
+        });
+        return null;
+    }
+
+    if (!isOpenEmergency(request)) {
+        res.status(400).json({
+            success: false,
+            message: 'This request is no longer an open emergency'
+        });
+        return null;
+    }
+
+    return request;
+};
+
 // @route   GET /api/requests
 // @desc    Get blood requests (filtered by role)
 // @access  Private
@@ -14,21 +109,27 @@ router.get('/', protect, async (req, res) => {
         let query = {};
 
         // Filter based on role
-        if (req.user.role === 'seeker' || req.user.role === 'hospital') {
-            // Users see only their own requests
+        if (req.user.role === 'seeker') {
+            // Seekers see only their own requests
             query.requesterId = req.user._id;
+        } else if (req.user.role === 'hospital') {
+            // Hospitals see their own requests and the ones their hospital is serving
+            query.$or = [{ requesterId: req.user._id }];
+            if (req.user.hospital) query.$or.push({ servingHospital: req.user.hospital });
         }
         // Admin sees all requests
 
         const requests = await BloodRequest.find(query)
             .populate('requesterId', 'name email phone')
             .populate('approvedBy', 'name')
+            .populate('servingHospital', 'name phone address city')
+            .populate('statusHistory.changedBy', 'name role')
             .sort({ createdAt: -1 });
 
         res.json({
             success: true,
             count: requests.length,
-            data: { requests }
+            data: { requests: requests.map(request => withTransitions(request, req.user)) }
         });
     } catch (error) {
         console.error('Get requests error:', error);
@@ -40,28 +141,78 @@ router.get('/', protect, async (req, res) => {
 });
 
 // @route   POST /api/requests
-// @desc    Create a blood request
-// @access  Private (seeker, hospital)
-router.post('/', protect, roleCheck('seeker', 'hospital'), bloodRequestValidation, validate, async (req, res) => {
+// @desc    Create a blood request (JSON, or multipart with up to 5 `documents`)
+// @access  Private (seeker, hospital; verified email)
+router.post('/', protect, roleCheck('seeker', 'hospital'), requireVerified, uploadDocuments, bloodRequestValidation, validate, async (req, res) => {
     try {
-        const { bloodGroup, unitsRequested, urgency, reason, location, contactPhone } = req.body;
+        const { bloodGroup, component, unitsRequested, urgency, reason, location, contactPhone, latitude, longitude, documentKind } = req.body;
+
+        if (documentKind && !DOCUMENT_KINDS.includes(documentKind)) {
+            return res.status(400).json({
+                success: false,
+                message: `Invalid document kind. Must be one of: ${DOCUMENT_KINDS.join(', ')}`
+            });
+        }
+
+        // Browser coordinates, else the geocoded location, else where the requester is
+        const placed = await resolveLocation({ latitude, longitude, text: location }) ||
+            (req.user.coordinates?.length === 2
+                ? { coordinates: req.user.coordinates, precision: req.user.locationPrecision }
+                : null);
 
-        const request = await BloodRequest.create({
+        const request = new BloodRequest({
             requesterId: req.user._id,
             requesterName: req.user.name,
             requesterType: req.user.role === 'hospital' ? 'hospital' : 'seeker',
             bloodGroup,
+            component,
             unitsRequested,
             urgency: urgency || 'medium',
             reason,
             location,
+            coordinates: placed?.coordinates,
+            locationPrecision: placed?.precision,
             contactPhone: contactPhone || req.user.phone
         });
 
+        if (req.files?.length > 0) {
+            request.addDocuments(await storeDocuments(req.files, documentKind), req.user);
+        }
+
+        // Send the request to nearby hospitals with compatible stock
+        try {
+            await routeRequest(request);
+        } catch (routingError) {
+            console.error('⚠️ Error routing request to hospitals:', routingError.message);
+            // Still create the request; admins can see unrouted requests
+        }
+
+        await request.save();
+
+        // Critical requests also go out to nearby donors
+        let donorsNotified = 0;
+        if (request.urgency === 'critical') {
+            try {
+                ({ notified: donorsNotified } = await broadcastEmergency(request));
+                await request.save();
+            } catch (broadcastError) {
+                console.error('⚠️ Error broadcasting emergency appeal:', broadcastError.message);
+            }
+        }
+
+        publishRequestChange(request, 'created');
+
+        const sentTo = [
+            request.routedTo.length > 0 && `${request.routedTo.length} nearby hospitals`,
+            donorsNotified > 0 && `${donorsNotified} nearby donors`
+        ].filter(Boolean);
+
         res.status(201).json({
             success: true,
-            message: 'Blood request created successfully',
-            data: { request }
+            message: sentTo.length > 0
+                ? `Blood request sent to ${sentTo.join(' and ')}`
+                : 'Blood request created successfully',
+            data: { request: withTransitions(request, req.user) }
         });
     } catch (error) {
         console.error('Create request error:', error);
@@ -72,6 +223,37 @@ router.post('/', protect, roleCheck('seeker', 'hospital'), bloodRequestValidatio
     }
 });
 
+// @route   GET /api/requests/emergency
+// @desc    Get open emergency appeals a donor can answer
+// @access  Private (donor)
+router.get('/emergency', protect, roleCheck('donor'), async (req, res) => {
+    try {
+        const requests = await BloodRequest.find({
+            urgency: 'critical',
+            status: { $in: OPEN_REQUEST_STATUSES },
+            'broadcast.lastSentAt': { $exists: true },
+            requesterId: { $ne: req.user._id }
+        }).sort({ createdAt: -1 }).limit(50);
+
+        // Nearby compatible appeals, plus any the donor already answered
+        const appeals = requests.filter(request =>
+            request.getDonorResponse(req.user._id) ||
+            (canDonorServe(req.user, request) && isDonorNearRequest(req.user, request)));
+
+        res.json({
+            success: true,
+            count: appeals.length,
+            data: { appeals: appeals.map(request => formatAppeal(request, req.user)) }
+        });
+    } catch (error) {
+        console.error('Get emergency appeals error:', error);
+        res.status(500).json({
+            success: false,
+            message: 'Server error'
+        });
+    }
+});
+
 // @route   GET /api/requests/:id
 // @desc    Get single blood request
 // @access  Private
@@ -79,7 +261,9 @@ router.get('/:id', protect, async (req, res) => {
     try {
         const request = await BloodRequest.findById(req.params.id)
             .populate('requesterId', 'name email phone')
-            .populate('approvedBy', 'name');
+            .populate('approvedBy', 'name')
+            .populate('servingHospital', 'name phone address city')
+            .populate('statusHistory.changedBy', 'name role');
 
         if (!request) {
             return res.status(404).json({
@@ -88,8 +272,8 @@ router.get('/:id', protect, async (req, res) => {
             });
         }
 
-        // Check authorization (admin can see all, others only their own)
-        if (req.user.role !== 'admin' && request.requesterId._id.toString() !== req.user._id.toString()) {
+        // Check authorization (admin can see all, others their own or the ones they can serve)
+        if (request.getActors(req.user).length === 0) {
             return res.status(403).json({
                 success: false,
                 message: 'Not authorized to view this request'
@@ -98,7 +282,7 @@ router.get('/:id', protect, async (req, res) => {
 
         res.json({
             success: true,
-            data: { request }
+            data: { request: withTransitions(request, req.user) }
         });
     } catch (error) {
         console.error('Get request error:', error);
@@ -109,12 +293,454 @@ router.get('/:id', protect, async (req, res) => {
     }
 });
 
+// @route   GET /api/requests/:id/matches
+// @desc    Find hospitals with stock compatible with the request's blood group
+// @access  Private (owner or admin)
+router.get('/:id/matches', protect, async (req, res) => {
+    try {
+        const request = await BloodRequest.findById(req.params.id);
+
+        if (!request) {
+            return res.status(404).json({
+                success: false,
+                message: 'Blood request not found'
+            });
+        }
+
+        if (req.user.role !== 'admin' && request.requesterId.toString() !== req.user._id.toString()) {
+            return res.status(403).json({
+                success: false,
+                message: 'Not authorized to view this request'
+            });
+        }
+
+        const matches = await BloodInventory.findCompatibleStock(request.bloodGroup, request.component);
+
+        const hospitals = await Hospital.find({ _id: { $in: matches.map(m => m.hospital_id) } })
+            .select('name phone address city');
+        const hospitalsById = new Map(hospitals.map(h => [h._id.toString(), h]));
+
+        const results = matches
+            .filter(m => hospitalsById.has(m.hospital_id.toString()))
+            .map(m => {
+                const hospital = hospitalsById.get(m.hospital_id.toString());
+                return {
+                    hospital: {
+                        id: hospital._id,
+                        name: hospital.name,
+                        phone: hospital.phone,
+                        location: `${hospital.address}, ${hospital.city}`
+                    },
+                    exactMatch: m.exact_match,
+                    totalUnits: m.total_units,
+                    canFulfil: m.total_units >= request.unitsRequested,
+                    stock: m.stock.map(({ blood_group, units_available }) => ({ bloodGroup: blood_group, units: units_available }))
+                };
+            });
+
+        res.json({
+            success: true,
+            count: results.length,
+            data: {
+                bloodGroup: request.bloodGroup,
+                component: request.component,
+                unitsRequested: request.unitsRequested,
+                matches: results
+            }
+        });
+    } catch (error) {
+        console.error('Get request matches error:', error);
+        res.status(500).json({
+            success: false,
+            message: 'Server error'
+        });
+    }
+});
+
+// @route   POST /api/requests/:id/broadcast
+// @desc    Send the emergency appeal for a critical request to nearby donors again
+// @access  Private (requester, handling hospital or admin; verified email)
+router.post('/:id/broadcast', protect, requireVerified, async (req, res) => {
+    try {
+        const request = await BloodRequest.findById(req.params.id);
+
+        if (!request) {
+            return res.status(404).json({
+                success: false,
+                message: 'Blood request not found'
+            });
+        }
+
+        if (request.getActors(req.user).length === 0) {
+            return res.status(403).json({
+                success: false,
+                message: 'Not authorized to broadcast this request'
+            });
+        }
+
+        if (!isOpenEmergency(request)) {
+            return res.status(400).json({
+                success: false,
+                message: 'Only open critical requests can be broadcast to donors'
+            });
+        }
+
+        const wait = getRebroadcastWait(request);
+        if (wait > 0) {
+            return res.status(429).json({
+                success: false,
+                message: `Donors were appealed to recently. You can broadcast again in ${wait} minute${wait !== 1 ? 's' : ''}`
+            });
+        }
+
+        const { notified, cooledDown } = await broadcastEmergency(request);
+        await request.save();
+        publishRequestChange(request);
+
+        res.json({
+            success: true,
+            message: notified > 0
+                ? `Emergency appeal sent to ${notified} nearby donor${notified !== 1 ? 's' : ''}`
+                : 'No new nearby donors to appeal to right now',
+            data: {
+                notified,
+                skipped_recently_appealed: cooledDown,
+                broadcast: request.broadcast
+            }
+        });
+    } catch (error) {
+        console.error('Broadcast request error:', error);
+        res.status(500).json({
+            success: false,
+            message: 'Server error'
+        });
+    }
+});
+
+// @route   POST /api/requests/:id/respond
+// @desc    Tell the requester the donor can donate, with an ETA
+// @access  Private (donor; verified email)
+router.post('/:id/respond', protect, roleCheck('donor'), requireVerified, async (req, res) => {
+    try {
+        const request = await findOpenEmergency(req, res);
+        if (!request) return;
+
+        if (!canDonorServe(req.user, request)) {
+            return res.status(400).json({
+                success: false,
+                message: req.user.profile?.bloodGroup
+                    ? `${req.user.profile.bloodGroup} blood cannot be given for this ${request.bloodGroup} request`
+                    : 'Add your blood group to your profile first'
+            });
+        }
+
+        const etaMinutes = parseInt(req.body.eta_minutes);
+        if (!(etaMinutes >= 1 && etaMinutes <= MAX_ETA_MINUTES)) {
+            return res.status(400).json({
+                success: false,
+                message: `ETA must be between 1 and ${MAX_ETA_MINUTES} minutes`
+            });
+        }
+
+        const eligibility = await evaluateEligibility(req.user);
+        if (!eligibility.eligible) {
+            return res.status(400).json({
+                success: false,
+                message: eligibility.reasons[0]?.message || 'You are not eligible to donate right now',
+                data: { eligibility: formatEligibility(eligibility) }
+            });
+        }
+
+        const response = request.respondAsDonor(req.user, etaMinutes, req.body.note?.trim() || undefined);
+        await request.save();
+        publishRequestChange(request);
+
+        console.log(`🙋 ${req.user.name} can donate for request ${request._id} (ETA ${etaMinutes} min)`);
+
+        res.json({
+            success: true,
+            message: 'Thank you! The requester can see that you are on your way',
+            data: { response: formatDonorResponse(response) }
+        });
+    } catch (error) {
+        console.error('Respond to request error:', error);
+        res.status(500).json({
+            success: false,
+            message: 'Server error'
+        });
+    }
+});
+
+// @route   DELETE /api/requests/:id/respond
+// @desc    Withdraw the donor's offer to donate
+// @access  Private (donor)
+router.delete('/:id/respond', protect, roleCheck('donor'), async (req, res) => {
+    try {
+        const request = await findOpenEmergency(req, res);
+        if (!request) return;
+
+        let response;
+        try {
+            response = request.withdrawDonorResponse(req.user._id);
+        } catch (withdrawError) {
+            return res.status(400).json({
+                success: false,
+                message: withdrawError.message
+            });
+        }
+
+        await request.save();
+        publishRequestChange(request);
+
+        res.json({
+            success: true,
+            message: 'Your offer to donate was withdrawn',
+            data: { response: formatDonorResponse(response) }
+        });
+    } catch (error) {
+        console.error('Withdraw request response error:', error);
+        res.status(500).json({
+            success: false,
+            message: 'Server error'
+        });
+    }
+});
+
+// @route   GET /api/requests/:id/documents/:documentId
+// @desc    Get a short-lived link to open an attached prescription or requisition form
+// @access  Private (requester, admin, routed or serving hospital)
+router.get('/:id/documents/:documentId', protect, async (req, res) => {
+    try {
+        const request = await findRequestWithDocuments(req, res);
+        if (!request) return;
+
+        const document = request.getDocument(req.params.documentId);
+        if (!document) {
+            return res.status(404).json({
+                success: false,
+                message: 'Document not found'
+            });
+        }
+
+        const { url, expiresAt } = await getDocumentUrl(document);
+
+        res.set('Cache-Control', 'private, no-store');
+        res.json({
+            success: true,
+            data: {
+                url,
+                expires_at: expiresAt
+            }
+        });
+    } catch (error) {
+        console.error('Get document error:', error);
+        res.status(500).json({
+            success: false,
+            message: 'Server error'
+        });
+    }
+});
+
+// @route   POST /api/requests/:id/documents
+// @desc    Attach prescriptions or requisition forms (multipart `documents`, optional `documentKind`)
+// @access  Private (requester)
+router.post('/:id/documents', protect, uploadDocuments, async (req, res) => {
+    try {
+        const { documentKind } = req.body;
+
+        const request = await BloodRequest.findById(req.params.id);
+
+        if (!request) {
+            return res.status(404).json({
+                success: false,
+                message: 'Blood request not found'
+            });
+        }
+
+        if (request.requesterId.toString() !== req.user._id.toString()) {
+            return res.status(403).json({
+                success: false,
+                message: 'Only the requester can attach documents'
+            });
+        }
+
+        if (!req.files?.length) {
+            return res.status(400).json({
+                success: false,
+                message: 'No documents uploaded'
+            });
+        }
+
+        if (documentKind && !DOCUMENT_KINDS.includes(documentKind)) {
+            return res.status(400).json({
+                success: false,
+                message: `Invalid document kind. Must be one of: ${DOCUMENT_KINDS.join(', ')}`
+            });
+        }
+
+        if (TERMINAL_STATUSES.includes(request.status) || request.requisition.status === 'verified') {
+            return res.status(400).json({
+                success: false,
+                message: request.requisition.status === 'verified'
+                    ? 'The requisition has already been verified'
+                    : `Cannot attach documents to a ${request.status} request`
+            });
+        }
+
+        request.addDocuments(await storeDocuments(req.files, documentKind), req.user);
+        await request.save();
+        publishRequestChange(request);
+
+        res.status(201).json({
+            success: true,
+            message: `${req.files.length} document${req.files.length !== 1 ? 's' : ''} attached`,
+            data: { request: withTransitions(request, req.user) }
+        });
+    } catch (error) {
+        console.error('Attach documents error:', error);
+        res.status(500).json({
+            success: false,
+            message: 'Server error'
+        });
+    }
+});
+
+// @route   DELETE /api/requests/:id/documents/:documentId
+// @desc    Remove an attached document before the requisition is verified
+// @access  Private (requester)
+router.delete('/:id/documents/:documentId', protect, async (req, res) => {
+    try {
+        const request = await BloodRequest.findById(req.params.id);
+
+        if (!request) {
+            return res.status(404).json({
+                success: false,
+                message: 'Blood request not found'
+            });
+        }
+
+        if (request.requesterId.toString() !== req.user._id.toString()) {
+            return res.status(403).json({
+                success: false,
+                message: 'Only the requester can remove documents'
+            });
+        }
+
+        const document = request.getDocument(req.params.documentId);
+        if (!document) {
+            return res.status(404).json({
+                success: false,
+                message: 'Document not found'
+            });
+        }
+
+        if (request.requisition.status === 'verified') {
+            return res.status(400).json({
+                success: false,
+                message: 'Verified documents cannot be removed'
+            });
+        }
+
+        request.documents.pull(document._id);
+        await request.save();
+        await removeDocuments([document]);
+        publishRequestChange(request);
+
+        res.json({
+            success: true,
+            message: 'Document removed',
+            data: { request: withTransitions(request, req.user) }
+        });
+    } catch (error) {
+        console.error('Remove document error:', error);
+        res.status(500).json({
+            success: false,
+            message: 'Server error'
+        });
+    }
+});
+
+// @route   PUT /api/requests/:id/requisition
+// @desc    Verify or reject the attached requisition ({ status: verified | rejected, note })
+// @access  Private (admin, routed or serving hospital)
+router.put('/:id/requisition', protect, async (req, res) => {
+    try {
+        const { status, note } = req.body;
+
+        const request = await BloodRequest.findById(req.params.id);
+
+        if (!request) {
+            return res.status(404).json({
+                success: false,
+                message: 'Blood request not found'
+            });
+        }
+
+        if (!canReviewDocuments(request, req.user)) {
+            return res.status(403).json({
+                success: false,
+                message: 'Not authorized to review this requisition'
+            });
+        }
+
+        if (TERMINAL_STATUSES.includes(request.status)) {
+            return res.status(400).json({
+                success: false,
+                message: `Cannot review the requisition of a ${request.status} request`
+            });
+        }
+
+        try {
+            request.reviewRequisition(status, req.user, note?.trim());
+        } catch (reviewError) {
+            return res.status(400).json({
+                success: false,
+                message: reviewError.message
+            });
+        }
+
+        await request.save();
+        publishRequestChange(request);
+
+        // Let the requester know, so they can upload a clearer document if rejected
+        try {
+            const requester = await User.findById(request.requesterId);
+            if (requester) {
+                await dispatchNotification({
+                    recipient: requester,
+                    hospitalId: req.user._id,
+                    type: 'blood_request',
+                    title: status === 'verified' ? 'Requisition verified' : 'Requisition needs attention',
+                    message: status === 'verified'
+                        ? `The documents for your ${request.bloodGroup} request have been verified.`
+                        : `The documents for your ${request.bloodGroup} request could not be verified: ${request.requisition.note}. Please upload a new prescription or requisition form.`,
+                    link: '/seeker/dashboard'
+                });
+            }
+        } catch (notifyError) {
+            console.error('⚠️ Error notifying requester of requisition review:', notifyError.message);
+        }
+
+        res.json({
+            success: true,
+            message: `Requisition marked as ${request.requisition.status}`,
+            data: { request: withTransitions(request, req.user) }
+        });
+    } catch (error) {
+        console.error('Review requisition error:', error);
+        res.status(500).json({
+            success: false,
+            message: 'Server error'
+        });
+    }
+});
+
 // @route   PUT /api/requests/:id
-// @desc    Update blood request status
-// @access  Private (admin only)
-router.put('/:id', protect, roleCheck('admin'), async (req, res) => {
+// @desc    Move a blood request along its lifecycle and/or update notes
+// @access  Private (admin, serving hospital, requester - see config/requestLifecycle.js)
+router.put('/:id', protect, async (req, res) => {
     try {
-        const { status, notes } = req.body;
+        const { status, note, notes } = req.body;
 
         const request = await BloodRequest.findById(req.params.id);
 
@@ -125,26 +751,63 @@ router.put('/:id', protect, roleCheck('admin'), async (req, res) => {
             });
         }
 
-        // Update fields
-        if (status) {
-            request.status = status;
-            if (status === 'approved' || status === 'rejected') {
-                request.approvedBy = req.user._id;
+        const actors = request.getActors(req.user);
+        if (actors.length === 0) {
+            return res.status(403).json({
+                success: false,
+                message: 'Not authorized to update this request'
+            });
+        }
+
+        if (status && status !== request.status) {
+            if (!REQUEST_STATUSES.includes(status)) {
+                return res.status(400).json({
+                    success: false,
+                    message: `Invalid status. Must be one of: ${REQUEST_STATUSES.join(', ')}`
+                });
+            }
+
+            const allowed = getAllowedTransitions(request.status, actors);
+            if (!allowed.includes(status)) {
+                return res.status(400).json({
+                    success: false,
+                    message: allowed.length > 0
+                        ? `Cannot move request from ${request.status} to ${status}. Allowed: ${allowed.join(', ')}`
+                        : `Cannot move request from ${request.status} to ${status}`
+                });
             }
-            if (status === 'fulfilled') {
-                request.fulfilledAt = new Date();
+
+            try {
+                request.transitionTo(status, req.user, note);
+            } catch (transitionError) {
+                return res.status(400).json({
+                    success: false,
+                    message: transitionError.message
+                });
+            }
+
+            // Reopened requests go back out to other hospitals
+            if (request.status === 'pending') {
+                await routeRequest(request);
             }
         }
-        if (notes) {
+
+        // Free-text notes stay admin-only
+        if (notes && actors.includes('admin')) {
             request.notes = notes;
         }
 
         await request.save();
+        publishRequestChange(request);
+        await request.populate([
+            { path: 'servingHospital', select: 'name phone address city' },
+            { path: 'statusHistory.changedBy', select: 'name role' }
+        ]);
 
         res.json({
             success: true,
-            message: 'Request updated successfully',
-            data: { request }
+            message: status ? `Request marked as ${request.status}` : 'Request updated successfully',
+            data: { request: withTransitions(request, req.user) }
         });
     } catch (error) {
         console.error('Update request error:', error);
@@ -178,6 +841,8 @@ router.delete('/:id', protect, async (req, res) => {
         }
 
         await BloodRequest.findByIdAndDelete(req.params.id);
+        await removeDocuments(request.documents);
+        publishRequestChange(request, 'deleted');
 
         res.json({
             success: true,
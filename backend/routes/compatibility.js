@@ -0,0 +1,68 @@
+/**
+ * RaktSetu - Blood Compatibility Routes
+ *
+ * Exposes the ABO/Rh compatibility rules used for request matching so the
+ * frontend never has to duplicate them.
+ */
+
+import express from 'express';
+import {
+    BLOOD_GROUPS,
+    BLOOD_PRODUCTS,
+    COMPATIBILITY,
+    getCompatibleDonorGroups,
+    getCompatibleRecipientGroups
+} from '../config/bloodCompatibility.js';
+
+const router = express.Router();
+
+/**
+ * @route   GET /api/compatibility
+ * @desc    Get the full compatibility table, or the rules for one blood group
+ * @access  Public
+ *
+ * Query parameters:
+ * - bloodGroup: Return donor and recipient groups for this group only (optional)
+ *
+ * Example: /api/compatibility?bloodGroup=AB%2B
+ */
+router.get('/', (req, res) => {
+    const { bloodGroup } = req.query;
+
+    if (!bloodGroup) {
+        return res.json({
+            success: true,
+            data: {
+                bloodGroups: BLOOD_GROUPS,
+                products: BLOOD_PRODUCTS,
+                table: COMPATIBILITY
+            }
+        });
+    }
+
+    if (!BLOOD_GROUPS.includes(bloodGroup)) {
+        return res.status(400).json({
+            success: false,
+            message: `Invalid blood group. Must be one of: ${BLOOD_GROUPS.join(', ')}`
+        });
+    }
+
+    // For each product: who this group can receive from, and give to
+    const canReceiveFrom = {};
+    const canDonateTo = {};
+    for (const product of BLOOD_PRODUCTS) {
+        canReceiveFrom[product] = getCompatibleDonorGroups(bloodGroup, product);
+        canDonateTo[product] = getCompatibleRecipientGroups(bloodGroup, product);
+    }
+
+    res.json({
+        success: true,
+        data: {
+            bloodGroup,
+            canReceiveFrom,
+            canDonateTo
+        }
+    });
+});
+
+export default router;
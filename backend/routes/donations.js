@@ -0,0 +1,65 @@
+/**
+ * RaktSetu - Donation History Routes
+ *
+ * A donor's completed donations and the stats derived from them.
+ * Donations are recorded by hospital staff (POST /api/hospital/donations).
+ */
+
+import express from 'express';
+import Donation from '../models/Donation.js';
+import { protect } from '../middleware/auth.js';
+import { roleCheck } from '../middleware/roleCheck.js';
+import { recomputeDonorStats, formatDonorStats } from '../services/donorStats.js';
+
+const router = express.Router();
+
+router.use(protect, roleCheck('donor'));
+
+// Format a completed donation for the donor's history
+const formatDonation = (donation) => ({
+    id: donation._id,
+    date: donation.donationDate,
+    location: donation.hospital?.name || donation.location,
+    city: donation.hospital?.city || null,
+    blood_group: donation.bloodGroup,
+    component: donation.component,
+    units: donation.units,
+    status: donation.status
+});
+
+// @route   GET /api/donations/me
+// @desc    Get the logged-in donor's completed donations, newest first, with stats
+// @access  Private (donor)
+//
+// Query parameters:
+// - limit: Number of donations (default 50, max 200)
+router.get('/me', async (req, res) => {
+    try {
+        const limit = Math.min(parseInt(req.query.limit) || 50, 200);
+
+        const donations = await Donation.find({ donorId: req.user._id, status: 'completed' })
+            .populate('hospital', 'name city')
+            .sort({ donationDate: -1 })
+            .limit(limit);
+
+        // Recomputed so the yearly count and streak are current after a new year or a long gap
+        const donor = await recomputeDonorStats(req.user._id);
+
+        res.json({
+            success: true,
+            count: donations.length,
+            data: {
+                donations: donations.map(formatDonation),
+                stats: formatDonorStats(donor || req.user)
+            }
+        });
+    } catch (error) {
+        console.error('Get donations error:', error);
+        res.status(500).json({
+            success: false,
+            message: 'Server error'
+        });
+    }
+});
+
+export default router;
@@ -0,0 +1,804 @@
+/**
+ * RaktSetu - Donation Drive Routes
+ *
+ * Hospitals and admins organise donation drives (camps) at a venue; donors
+ * find drives near them, RSVP and check in on the day. Organisers see the
+ * registrations and record the units collected, which go into the
+ * organising hospital's stock and the donor's donation history.
+ */
+
+import express from 'express';
+import mongoose from 'mongoose';
+import BloodInventory from '../models/BloodInventory.js';
+import Donation from '../models/Donation.js';
+import DonationDrive from '../models/DonationDrive.js';
+import DriveRegistration, { ACTIVE_REGISTRATION_STATUSES } from '../models/DriveRegistration.js';
+import Hospital from '../models/Hospital.js';
+import User from '../models/User.js';
+import { protect } from '../middleware/auth.js';
+import { roleCheck } from '../middleware/roleCheck.js';
+import { COMPONENT_TYPES, DEFAULT_COMPONENT } from '../config/bloodComponents.js';
+import {
+    CHECK_IN_OPENS_MINUTES,
+    parseDrive,
+    getDrivePhase,
+    isCheckInOpen,
+    formatDrive,
+    formatRegistration
+} from '../services/drives.js';
+import { evaluateEligibility, formatEligibility } from '../services/eligibility.js';
+import { recomputeDonorStats, formatDonorStats } from '../services/donorStats.js';
+import { linkStaffAccount } from '../services/hospitalAccounts.js';
+import { dispatchNotification } from '../services/notificationDispatcher.js';
+import { publishInventoryChange } from '../services/realtime.js';
+
+const router = express.Router();
+
+// Drives are listed this many days ahead by default, within this radius (km)
+const DEFAULT_DRIVE_DAYS = 60;
+const DEFAULT_RADIUS_KM = 50;
+
+router.use(protect);
+
+// Admins organise drives for any hospital; hospital staff for their own hospital
+const organiserOnly = [
+    roleCheck('admin', 'hospital'),
+    async (req, res, next) => {
+        try {
+            // Accounts created before hospitals were linked get linked on first use
+            if (req.user.role === 'hospital' && !req.user.hospital) {
+                await linkStaffAccount(req.user);
+            }
+            // A listed hospital is only linked once the account is verified
+            if (req.user.role === 'hospital' && !req.user.hospital) {
+                return res.status(403).json({
+                    success: false,
+                    message: 'Your account must be verified before it can be linked to your hospital'
+                });
+            }
+            next();
+        } catch (error) {
+            console.error('Resolve organiser error:', error);
+            res.status(500).json({
+                success: false,
+                message: 'Server error'
+            });
+        }
+    }
+];
+
+/**
+ * Load a drive the logged-in organiser manages
+ * @returns {Object|null} - Drive document, or null after sending a 404
+ */
+const findOrganisedDrive = async (req, res) => {
+    const query = { _id: req.params.id };
+    if (req.user.role === 'hospital') query.hospital_id = req.user.hospital;
+
+    const drive = mongoose.isValidObjectId(req.params.id) && await DonationDrive.findOne(query);
+
+    if (!drive) {
+        res.status(404).json({
+            success: false,
+            message: 'Drive not found'
+        });
+        return null;
+    }
+    return drive;
+};
+
+/**
+ * Load a scheduled drive a donor can act on
+ * @returns {Object|null} - Drive with its hospital, or null after sending an error
+ */
+const findOpenDrive = async (req, res) => {
+    const drive = mongoose.isValidObjectId(req.params.id) &&
+        await DonationDrive.findById(req.params.id).populate('hospital_id', 'name city');
+
+    if (!drive || drive.status === 'cancelled') {
+        res.status(404).json({
+            success: false,
+            message: 'Drive not found'
+        });
+        return null;
+    }
+
+    if (drive.end_time <= new Date()) {
+        res.status(400).json({
+            success: false,
+            message: 'This drive has ended'
+        });
+        return null;
+    }
+
+    return drive;
+};
+
+/**
+ * Count a list of drives' registrations by status
+ * @returns {Map} - Drive ID → { registered, checked_in, donated, cancelled }
+ */
+const countRegistrations = async (driveIds) => {
+    const rows = await DriveRegistration.aggregate([
+        { $match: { drive_id: { $in: driveIds } } },
+        { $group: { _id: { drive: '$drive_id', status: '$status' }, count: { $sum: 1 } } }
+    ]);
+
+    const counts = new Map();
+    for (const row of rows) {
+        const key = row._id.drive.toString();
+        if (!counts.has(key)) counts.set(key, { registered: 0, checked_in: 0, donated: 0, cancelled: 0 });
+        counts.get(key)[row._id.status] = row.count;
+    }
+    return counts;
+};
+
+// ============================================================================
+// DONOR ROUTES
+// ============================================================================
+
+// @route   GET /api/drives
+// @desc    Get upcoming and ongoing drives, nearest first when a location is given
+// @access  Private
+//
+// Query parameters:
+// - lat, lng: Where the donor is; drives are sorted by distance from here
+// - radius: Search radius in km (default 50, max 500)
+// - city: Only drives in this city
+// - days: How many days ahead to look (default 60, max 180)
+router.get('/', async (req, res) => {
+    try {
+        const { lat, lng, city } = req.query;
+        const days = Math.min(parseInt(req.query.days) || DEFAULT_DRIVE_DAYS, 180);
+        const now = new Date();
+        const until = new Date(now);
+        until.setDate(until.getDate() + days);
+
+        const query = {
+            status: 'scheduled',
+            end_time: { $gt: now },
+            start_time: { $lt: until }
+        };
+        if (city) query['venue.city'] = city.toLowerCase().trim();
+
+        let drives;
+        if (lat !== undefined || lng !== undefined) {
+            const latitude = parseFloat(lat);
+            const longitude = parseFloat(lng);
+            const radius = Math.min(parseFloat(req.query.radius) || DEFAULT_RADIUS_KM, 500);
+
+            if (!(latitude >= -90 && latitude <= 90) || !(longitude >= -180 && longitude <= 180)) {
+                return res.status(400).json({
+                    success: false,
+                    message: 'Please provide a valid latitude (lat) and longitude (lng)'
+                });
+            }
+
+            const nearby = await DonationDrive.aggregate([
+                {
+                    $geoNear: {
+                        near: { type: 'Point', coordinates: [longitude, latitude] },
+                        distanceField: 'distance',
+                        maxDistance: radius * 1000,
+                        spherical: true,
+                        query
+                    }
+                },
+                { $limit: 100 }
+            ]);
+            drives = await DonationDrive.populate(nearby, { path: 'hospital_id', select: 'name city' });
+        } else {
+            drives = await DonationDrive.find(query)
+                .populate('hospital_id', 'name city')
+                .sort({ start_time: 1 })
+                .limit(100);
+        }
+
+        // Donors see their own RSVP on each drive
+        const registrations = req.user.role === 'donor'
+            ? await DriveRegistration.find({
+                donor_id: req.user._id,
+                drive_id: { $in: drives.map(d => d._id) }
+            })
+            : [];
+        const byDrive = new Map(registrations.map(r => [r.drive_id.toString(), r]));
+
+        res.json({
+            success: true,
+            count: drives.length,
+            data: {
+                drives: drives.map(drive => {
+                    const registration = byDrive.get(drive._id.toString());
+                    return {
+                        ...formatDrive(drive),
+                        my_registration: registration
+                            ? { id: registration._id, status: registration.status }
+                            : null
+                    };
+                })
+            }
+        });
+    } catch (error) {
+        console.error('Get drives error:', error);
+        res.status(500).json({
+            success: false,
+            message: 'Server error'
+        });
+    }
+});
+
+// @route   GET /api/drives/me
+// @desc    Get the donor's drive registrations, upcoming first
+// @access  Private (donor)
+router.get('/me', roleCheck('donor'), async (req, res) => {
+    try {
+        const registrations = await DriveRegistration.find({ donor_id: req.user._id })
+            .populate({ path: 'drive_id', populate: { path: 'hospital_id', select: 'name city' } })
+            .sort({ registered_at: -1 })
+            .limit(50);
+
+        const now = new Date();
+        const current = registrations.filter(r => r.drive_id);
+        const isUpcoming = (r) => ACTIVE_REGISTRATION_STATUSES.includes(r.status) &&
+            r.drive_id.status === 'scheduled' && r.drive_id.end_time > now;
+
+        res.json({
+            success: true,
+            data: {
+                upcoming: current.filter(isUpcoming)
+                    .sort((a, b) => a.drive_id.start_time - b.drive_id.start_time)
+                    .map(formatRegistration),
+                past: current.filter(r => !isUpcoming(r)).map(formatRegistration)
+            }
+        });
+    } catch (error) {
+        console.error('Get drive registrations error:', error);
+        res.status(500).json({
+            success: false,
+            message: 'Server error'
+        });
+    }
+});
+
+// @route   POST /api/drives/:id/register
+// @desc    RSVP for a drive
+// @access  Private (donor)
+router.post('/:id/register', roleCheck('donor'), async (req, res) => {
+    try {
+        const bloodGroup = req.user.profile?.bloodGroup;
+        if (!bloodGroup) {
+            return res.status(400).json({
+                success: false,
+                message: 'Add your blood group to your profile before registering'
+            });
+        }
+
+        const drive = await findOpenDrive(req, res);
+        if (!drive) return;
+
+        let registration = await DriveRegistration.findOne({ drive_id: drive._id, donor_id: req.user._id });
+        if (registration && registration.status !== 'cancelled') {
+            return res.status(409).json({
+                success: false,
+                message: 'You are already registered for this drive'
+            });
+        }
+
+        const eligibility = await evaluateEligibility(req.user, { asOf: drive.start_time });
+        if (!eligibility.eligible) {
+            return res.status(400).json({
+                success: false,
+                message: eligibility.eligibleFrom
+                    ? `You can donate again from ${eligibility.eligibleFrom.toDateString()}`
+                    : eligibility.reasons.map(reason => reason.message).join(' '),
+                data: { eligibility: formatEligibility(eligibility) }
+            });
+        }
+
+        const reserved = await DonationDrive.reservePlace(drive._id);
+        if (!reserved) {
+            return res.status(409).json({
+                success: false,
+                message: 'This drive is fully booked'
+            });
+        }
+
+        try {
+            registration = registration || new DriveRegistration({ drive_id: drive._id, donor_id: req.user._id });
+            registration.set({
+                donor_name: req.user.name,
+                blood_group: bloodGroup,
+                status: 'registered',
+                registered_at: new Date(),
+                checked_in_at: undefined,
+                cancelled_at: undefined
+            });
+            await registration.save();
+        } catch (error) {
+            await DonationDrive.releasePlace(drive._id);
+            throw error;
+        }
+
+        console.log(`🏕️ ${req.user.name} registered for drive "${drive.name}"`);
+
+        reserved.hospital_id = drive.hospital_id;
+
+        res.status(201).json({
+            success: true,
+            message: `You are registered for ${drive.name}`,
+            data: {
+                registration: formatRegistration(registration),
+                drive: formatDrive(reserved)
+            }
+        });
+    } catch (error) {
+        console.error('Register for drive error:', error);
+        res.status(500).json({
+            success: false,
+            message: 'Server error'
+        });
+    }
+});
+
+// @route   DELETE /api/drives/:id/register
+// @desc    Cancel the donor's RSVP and free their place
+// @access  Private (donor)
+router.delete('/:id/register', roleCheck('donor'), async (req, res) => {
+    try {
+        const registration = mongoose.isValidObjectId(req.params.id) && await DriveRegistration.findOne({
+            drive_id: req.params.id,
+            donor_id: req.user._id,
+            status: { $in: ACTIVE_REGISTRATION_STATUSES }
+        });
+
+        if (!registration) {
+            return res.status(404).json({
+                success: false,
+                message: 'Registration not found'
+            });
+        }
+
+        registration.status = 'cancelled';
+        registration.cancelled_at = new Date();
+        await registration.save();
+
+        await DonationDrive.releasePlace(registration.drive_id);
+
+        res.json({
+            success: true,
+            message: 'Registration cancelled',
+            data: { registration: formatRegistration(registration) }
+        });
+    } catch (error) {
+        console.error('Cancel drive registration error:', error);
+        res.status(500).json({
+            success: false,
+            message: 'Server error'
+        });
+    }
+});
+
+// @route   POST /api/drives/:id/check-in
+// @desc    Check in at a drive on the day
+// @access  Private (donor)
+router.post('/:id/check-in', roleCheck('donor'), async (req, res) => {
+    try {
+        const drive = await findOpenDrive(req, res);
+        if (!drive) return;
+
+        const registration = await DriveRegistration.findOne({
+            drive_id: drive._id,
+            donor_id: req.user._id,
+            status: 'registered'
+        });
+
+        if (!registration) {
+            return res.status(404).json({
+                success: false,
+                message: 'You are not registered for this drive, or have already checked in'
+            });
+        }
+
+        if (!isCheckInOpen(drive)) {
+            return res.status(400).json({
+                success: false,
+                message: `Check-in opens ${CHECK_IN_OPENS_MINUTES} minutes before the drive starts`
+            });
+        }
+
+        registration.status = 'checked_in';
+        registration.checked_in_at = new Date();
+        await registration.save();
+
+        res.json({
+            success: true,
+            message: `Checked in at ${drive.name}`,
+            data: { registration: formatRegistration(registration) }
+        });
+    } catch (error) {
+        console.error('Drive check-in error:', error);
+        res.status(500).json({
+            success: false,
+            message: 'Server error'
+        });
+    }
+});
+
+// ============================================================================
+// ORGANISER ROUTES
+// ============================================================================
+
+// @route   GET /api/drives/organised
+// @desc    Get the drives the organiser manages, newest first, with registration counts
+// @access  Private (admin, hospital)
+//
+// Query parameters:
+// - hospitalId: Only drives of this hospital (admins)
+router.get('/organised', organiserOnly, async (req, res) => {
+    try {
+        const query = {};
+        if (req.user.role === 'hospital') {
+            query.hospital_id = req.user.hospital;
+        } else if (req.query.hospitalId) {
+            if (!mongoose.isValidObjectId(req.query.hospitalId)) {
+                return res.status(400).json({
+                    success: false,
+                    message: 'Invalid hospital ID'
+                });
+            }
+            query.hospital_id = req.query.hospitalId;
+        }
+
+        const drives = await DonationDrive.find(query)
+            .populate('hospital_id', 'name city')
+            .sort({ start_time: -1 })
+            .limit(100);
+        const counts = await countRegistrations(drives.map(d => d._id));
+
+        res.json({
+            success: true,
+            count: drives.length,
+            data: {
+                drives: drives.map(drive => ({
+                    ...formatDrive(drive),
+                    registrations: counts.get(drive._id.toString()) ||
+                        { registered: 0, checked_in: 0, donated: 0, cancelled: 0 }
+                }))
+            }
+        });
+    } catch (error) {
+        console.error('Get organised drives error:', error);
+        res.status(500).json({
+            success: false,
+            message: 'Server error'
+        });
+    }
+});
+
+// @route   POST /api/drives
+// @desc    Create a donation drive
+// @access  Private (admin, hospital)
+//
+// Body: { name, description?, venue_name, address, city, latitude, longitude,
+//         start_time, end_time, target_units, capacity, hospital_id (admins) }
+router.post('/', organiserOnly, async (req, res) => {
+    try {
+        let hospitalId = req.user.hospital;
+
+        if (req.user.role === 'admin') {
+            const hospital = mongoose.isValidObjectId(req.body.hospital_id) &&
+                await Hospital.findOne({ _id: req.body.hospital_id, isActive: true });
+
+            if (!hospital) {
+                return res.status(400).json({
+                    success: false,
+                    message: 'Choose an active hospital to run the drive'
+                });
+            }
+            hospitalId = hospital._id;
+        }
+
+        const fields = parseDrive(req.body);
+        if (fields.error) {
+            return res.status(400).json({
+                success: false,
+                message: fields.error
+            });
+        }
+
+        const drive = await DonationDrive.create({
+            ...fields,
+            hospital_id: hospitalId,
+            created_by: req.user._id
+        });
+        await drive.populate('hospital_id', 'name city');
+
+        console.log(`🏕️ Drive "${drive.name}" created for ${drive.start_time.toISOString()}`);
+
+        res.status(201).json({
+            success: true,
+            message: `Drive "${drive.name}" created`,
+            data: { drive: formatDrive(drive) }
+        });
+    } catch (error) {
+        console.error('Create drive error:', error);
+        res.status(500).json({
+            success: false,
+            message: 'Server error'
+        });
+    }
+});
+
+// @route   PUT /api/drives/:id
+// @desc    Update a drive that has not ended
+// @access  Private (admin, hospital)
+router.put('/:id', organiserOnly, async (req, res) => {
+    try {
+        const drive = await findOrganisedDrive(req, res);
+        if (!drive) return;
+
+        if (['cancelled', 'ended'].includes(getDrivePhase(drive))) {
+            return res.status(400).json({
+                success: false,
+                message: 'Cancelled or finished drives cannot be changed'
+            });
+        }
+
+        const fields = parseDrive(req.body, drive);
+        if (fields.error) {
+            return res.status(400).json({
+                success: false,
+                message: fields.error
+            });
+        }
+
+        drive.set(fields);
+        await drive.save();
+        await drive.populate('hospital_id', 'name city');
+
+        res.json({
+            success: true,
+            message: 'Drive updated',
+            data: { drive: formatDrive(drive) }
+        });
+    } catch (error) {
+        console.error('Update drive error:', error);
+        res.status(500).json({
+            success: false,
+            message: 'Server error'
+        });
+    }
+});
+
+// @route   POST /api/drives/:id/cancel
+// @desc    Cancel a drive and tell the registered donors
+// @access  Private (admin, hospital)
+//
+// Body: { reason? }
+router.post('/:id/cancel', organiserOnly, async (req, res) => {
+    try {
+        const drive = await findOrganisedDrive(req, res);
+        if (!drive) return;
+
+        if (['cancelled', 'ended'].includes(getDrivePhase(drive))) {
+            return res.status(400).json({
+                success: false,
+                message: 'Only drives that have not ended can be cancelled'
+            });
+        }
+
+        const reason = req.body.reason?.trim();
+
+        drive.status = 'cancelled';
+        drive.cancelled_reason = reason || undefined;
+        drive.cancelled_at = new Date();
+        drive.registered_count = 0;
+        await drive.save();
+
+        const registrations = await DriveRegistration.find({
+            drive_id: drive._id,
+            status: { $in: ACTIVE_REGISTRATION_STATUSES }
+        });
+        await DriveRegistration.updateMany(
+            { _id: { $in: registrations.map(r => r._id) } },
+            { status: 'cancelled', cancelled_at: new Date() }
+        );
+
+        const donors = await User.find({ _id: { $in: registrations.map(r => r.donor_id) } });
+        for (const donor of donors) {
+            try {
+                await dispatchNotification({
+                    recipient: donor,
+                    hospitalId: req.user._id,
+                    type: 'general',
+                    title: `${drive.name} is cancelled`,
+                    message: `The donation drive on ${drive.start_time.toDateString()} at ${drive.venue.name} has been cancelled.${reason ? ` ${reason}` : ''}`,
+                    link: '/donor/dashboard'
+                });
+            } catch (error) {
+                console.error(`Drive cancellation notice to ${donor._id} failed:`, error.message);
+            }
+        }
+
+        console.log(`🏕️ Drive "${drive.name}" cancelled; ${registrations.length} donors told`);
+
+        res.json({
+            success: true,
+            message: `Drive cancelled and ${registrations.length} registered donor${registrations.length !== 1 ? 's' : ''} notified`,
+            data: { drive: formatDrive(drive) }
+        });
+    } catch (error) {
+        console.error('Cancel drive error:', error);
+        res.status(500).json({
+            success: false,
+            message: 'Server error'
+        });
+    }
+});
+
+// @route   GET /api/drives/:id/registrations
+// @desc    Get a drive's registrations with donor contact details
+// @access  Private (admin, hospital)
+router.get('/:id/registrations', organiserOnly, async (req, res) => {
+    try {
+        const drive = await findOrganisedDrive(req, res);
+        if (!drive) return;
+
+        const registrations = await DriveRegistration.find({ drive_id: drive._id })
+            .populate('donor_id', 'name email phone')
+            .sort({ registered_at: 1 });
+        const counts = await countRegistrations([drive._id]);
+
+        await drive.populate('hospital_id', 'name city');
+
+        res.json({
+            success: true,
+            count: registrations.length,
+            data: {
+                drive: {
+                    ...formatDrive(drive),
+                    registrations: counts.get(drive._id.toString()) ||
+                        { registered: 0, checked_in: 0, donated: 0, cancelled: 0 }
+                },
+                registrations: registrations.map(formatRegistration)
+            }
+        });
+    } catch (error) {
+        console.error('Get drive registrations error:', error);
+        res.status(500).json({
+            success: false,
+            message: 'Server error'
+        });
+    }
+});
+
+// @route   POST /api/drives/:id/registrations/:registrationId/donation
+// @desc    Record the donation of a registered donor at the drive
+// @access  Private (admin, hospital)
+//
+// Body: { units?: 1, component?: "whole_blood", notes? }
+router.post('/:id/registrations/:registrationId/donation', organiserOnly, async (req, res) => {
+    try {
+        const drive = await findOrganisedDrive(req, res);
+        if (!drive) return;
+
+        const opens = new Date(drive.start_time.getTime() - CHECK_IN_OPENS_MINUTES * 60 * 1000);
+        if (drive.status === 'cancelled' || new Date() < opens) {
+            return res.status(400).json({
+                success: false,
+                message: 'Donations can only be recorded once the drive has opened'
+            });
+        }
+
+        const { component = DEFAULT_COMPONENT } = req.body;
+        if (!COMPONENT_TYPES.includes(component)) {
+            return res.status(400).json({
+                success: false,
+                message: `Invalid component. Must be one of: ${COMPONENT_TYPES.join(', ')}`
+            });
+        }
+
+        const units = parseInt(req.body.units ?? 1);
+        if (isNaN(units) || units <= 0) {
+            return res.status(400).json({
+                success: false,
+                message: 'Units must be a positive number'
+            });
+        }
+
+        const registration = mongoose.isValidObjectId(req.params.registrationId) && await DriveRegistration.findOne({
+            _id: req.params.registrationId,
+            drive_id: drive._id,
+            status: { $in: ACTIVE_REGISTRATION_STATUSES }
+        });
+        const donor = registration && await User.findOne({ _id: registration.donor_id, role: 'donor' });
+
+        if (!donor) {
+            return res.status(404).json({
+                success: false,
+                message: 'Open registration not found'
+            });
+        }
+
+        const bloodGroup = donor.profile?.bloodGroup;
+        if (!bloodGroup) {
+            return res.status(400).json({
+                success: false,
+                message: `${donor.name} has no blood group on their profile`
+            });
+        }
+
+        const now = new Date();
+        const eligibility = await evaluateEligibility(donor, { asOf: now });
+        if (!eligibility.eligible) {
+            return res.status(400).json({
+                success: false,
+                message: eligibility.eligibleFrom
+                    ? `${donor.name} is not eligible to donate until ${eligibility.eligibleFrom.toDateString()}`
+                    : `${donor.name} needs a review before donating: ${eligibility.reasons.map(reason => reason.message).join(' ')}`,
+                data: { eligibility: formatEligibility(eligibility) }
+            });
+        }
+
+        // Receive the donated bags into the organising hospital's stock
+        const inventory = await BloodInventory.addUnits(drive.hospital_id, bloodGroup, units, {
+            component,
+            donor_id: donor._id,
+            donor_name: donor.name,
+            collection_date: now
+        });
+        publishInventoryChange(drive.hospital_id, [inventory]);
+
+        const donation = await Donation.create({
+            donorId: donor._id,
+            donorName: donor.name,
+            bloodGroup,
+            units,
+            component,
+            donationDate: now,
+            location: drive.venue.name,
+            status: 'completed',
+            completedAt: now,
+            collectedBy: req.user._id,
+            hospital: drive.hospital_id,
+            drive: drive._id,
+            notes: req.body.notes?.trim() || undefined
+        });
+
+        registration.set({
+            status: 'donated',
+            checked_in_at: registration.checked_in_at || now,
+            donation_id: donation._id,
+            units_collected: units
+        });
+        await registration.save();
+
+        const updatedDrive = await DonationDrive.findByIdAndUpdate(
+            drive._id,
+            { $inc: { collected_units: units } },
+            { new: true }
+        ).populate('hospital_id', 'name city');
+
+        const updatedDonor = await recomputeDonorStats(donor._id, { awardedBy: req.user._id });
+
+        console.log(`🩸 Recorded ${units} unit(s) of ${bloodGroup} from ${donor.name} at drive "${drive.name}"`);
+
+        res.status(201).json({
+            success: true,
+            message: `Recorded ${units} unit${units !== 1 ? 's' : ''} of ${bloodGroup} from ${donor.name}`,
+            data: {
+                registration: formatRegistration(registration),
+                drive: formatDrive(updatedDrive),
+                donor_stats: formatDonorStats(updatedDonor)
+            }
+        });
+    } catch (error) {
+        console.error('Record drive donation error:', error);
+        res.status(500).json({
+            success: false,
+            message: 'Server error'
+        });
+    }
+});
+
+export default router;
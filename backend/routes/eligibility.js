@@ -0,0 +1,257 @@
+/**
+ * RaktSetu - Donor Eligibility Routes
+ *
+ * Whether the logged-in donor may donate, from when, and why not.
+ * Decided by services/eligibility.js with the rules in config/eligibilityRules.js.
+ *
+ * The quiz is the active Questionnaire version. Submitted quizzes are kept
+ * as QuizAttempt documents; the latest attempt's disqualifying answers
+ * replace the donor's deferrals (profile.deferrals).
+ */
+
+import express from 'express';
+import Questionnaire from '../models/Questionnaire.js';
+import QuizAttempt from '../models/QuizAttempt.js';
+import { protect } from '../middleware/auth.js';
+import { roleCheck } from '../middleware/roleCheck.js';
+import { evaluateEligibility, formatEligibility } from '../services/eligibility.js';
+import { scoreQuiz, formatQuestionnaire } from '../services/questionnaire.js';
+
+const router = express.Router();
+
+router.use(protect, roleCheck('donor'));
+
+// Check that quiz answers are a { questionId: answer } object
+const isAnswersObject = (answers) =>
+    Boolean(answers) && typeof answers === 'object' && !Array.isArray(answers);
+
+// Format a saved deferral for API responses
+const formatDeferral = (deferral) => ({
+    code: deferral.code,
+    message: deferral.message,
+    starts_at: deferral.startsAt || null,
+    until: deferral.until || null
+});
+
+// Format a quiz attempt for API responses
+const formatAttempt = (attempt) => ({
+    id: attempt._id,
+    questionnaire_version: attempt.questionnaireVersion ?? null,
+    answers: attempt.answers,
+    score: attempt.score ?? null,
+    max_score: attempt.maxScore ?? null,
+    percentage: attempt.percentage ?? null,
+    is_eligible: attempt.isEligible,
+    deferrals: attempt.deferrals.map(formatDeferral),
+    completed_at: attempt.completedAt
+});
+
+// @route   GET /api/eligibility/me
+// @desc    Check the donor's eligibility from their profile, donations and saved quiz
+// @access  Private (donor)
+router.get('/me', async (req, res) => {
+    try {
+        const eligibility = await evaluateEligibility(req.user);
+
+        res.json({
+            success: true,
+            data: {
+                eligibility: formatEligibility(eligibility),
+                deferrals: (req.user.profile?.deferrals || []).map(formatDeferral)
+            }
+        });
+    } catch (error) {
+        console.error('Get eligibility error:', error);
+        res.status(500).json({
+            success: false,
+            message: 'Server error'
+        });
+    }
+});
+
+// @route   GET /api/eligibility/questionnaire
+// @desc    Get the active eligibility questionnaire
+// @access  Private (donor)
+router.get('/questionnaire', async (req, res) => {
+    try {
+        const questionnaire = await Questionnaire.getActive();
+        if (!questionnaire) {
+            return res.status(404).json({
+                success: false,
+                message: 'No eligibility questionnaire is active'
+            });
+        }
+
+        res.json({
+            success: true,
+            data: { questionnaire: formatQuestionnaire(questionnaire) }
+        });
+    } catch (error) {
+        console.error('Get questionnaire error:', error);
+        res.status(500).json({
+            success: false,
+            message: 'Server error'
+        });
+    }
+});
+
+/**
+ * Score quiz answers against the active questionnaire
+ * @returns {Object|null} - { questionnaire, result }, or null after sending an error
+ */
+const scoreAnswers = async (req, res, completedAt) => {
+    const { answers, version } = req.body;
+    if (!isAnswersObject(answers)) {
+        res.status(400).json({
+            success: false,
+            message: 'Quiz answers are required'
+        });
+        return null;
+    }
+
+    const questionnaire = await Questionnaire.getActive();
+    if (!questionnaire) {
+        res.status(404).json({
+            success: false,
+            message: 'No eligibility questionnaire is active'
+        });
+        return null;
+    }
+
+    if (version !== undefined && Number(version) !== questionnaire.version) {
+        res.status(409).json({
+            success: false,
+            message: 'The questionnaire has been updated. Please take the quiz again.'
+        });
+        return null;
+    }
+
+    const result = scoreQuiz(questionnaire, answers, completedAt);
+    if (result.error) {
+        res.status(400).json({
+            success: false,
+            message: result.error
+        });
+        return null;
+    }
+
+    return { questionnaire, result };
+};
+
+// @route   POST /api/eligibility/check
+// @desc    Check the donor's eligibility with eligibility quiz answers, without saving them
+// @access  Private (donor)
+//
+// Body: { answers: { [questionId]: answerValue }, version? }
+router.post('/check', async (req, res) => {
+    try {
+        const scored = await scoreAnswers(req, res, new Date());
+        if (!scored) return;
+
+        const eligibility = await evaluateEligibility(req.user, { deferrals: scored.result.deferrals });
+
+        res.json({
+            success: true,
+            data: { eligibility: formatEligibility(eligibility) }
+        });
+    } catch (error) {
+        console.error('Check eligibility error:', error);
+        res.status(500).json({
+            success: false,
+            message: 'Server error'
+        });
+    }
+});
+
+// @route   GET /api/eligibility/quiz
+// @desc    Get the donor's eligibility quiz attempts, newest first
+// @access  Private (donor)
+router.get('/quiz', async (req, res) => {
+    try {
+        const attempts = await QuizAttempt.find({ donorId: req.user._id })
+            .sort({ completedAt: -1 })
+            .limit(20);
+
+        res.json({
+            success: true,
+            count: attempts.length,
+            data: { attempts: attempts.map(formatAttempt) }
+        });
+    } catch (error) {
+        console.error('Get quiz attempts error:', error);
+        res.status(500).json({
+            success: false,
+            message: 'Server error'
+        });
+    }
+});
+
+// @route   POST /api/eligibility/quiz
+// @desc    Submit an eligibility quiz; its answers replace the donor's deferrals
+// @access  Private (donor)
+//
+// Body: { answers: { [questionId]: answerValue }, version }
+// version is the questionnaire version answered; 409 when it is no longer active
+router.post('/quiz', async (req, res) => {
+    try {
+        const completedAt = new Date();
+        const scored = await scoreAnswers(req, res, completedAt);
+        if (!scored) return;
+
+        const { questionnaire, result } = scored;
+        const { deferrals } = result;
+
+        const attempt = new QuizAttempt({
+            donorId: req.user._id,
+            questionnaire: questionnaire._id,
+            questionnaireVersion: questionnaire.version,
+            answers: result.answers,
+            score: result.score,
+            maxScore: result.maxScore,
+            percentage: result.percentage,
+            deferrals,
+            completedAt
+        });
+
+        const donor = req.user;
+        donor.profile = donor.profile || {};
+        donor.profile.deferrals = deferrals.map(deferral => ({
+            ...deferral,
+            startsAt: completedAt,
+            quizAttempt: attempt._id
+        }));
+
+        const eligibility = await evaluateEligibility(donor);
+        attempt.isEligible = result.passed && eligibility.eligible;
+
+        donor.profile.quizResult = {
+            isEligible: attempt.isEligible,
+            score: attempt.score,
+            percentage: attempt.percentage,
+            questionnaireVersion: questionnaire.version,
+            completedAt,
+            answers: result.answers
+        };
+
+        await attempt.save();
+        await donor.save();
+
+        res.status(201).json({
+            success: true,
+            message: 'Quiz saved',
+            data: {
+                attempt: formatAttempt(attempt),
+                eligibility: formatEligibility(eligibility),
+                deferrals: donor.profile.deferrals.map(formatDeferral)
+            }
+        });
+    } catch (error) {
+        console.error('Submit quiz error:', error);
+        res.status(500).json({
+            success: false,
+            message: 'Server error'
+        });
+    }
+});
+
+export default router;
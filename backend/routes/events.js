@@ -0,0 +1,75 @@
+/**
+ * RaktSetu - Live Event Routes
+ *
+ * Server-Sent Events stream of inventory, request, appointment, notification
+ * and account changes for the logged-in user (see services/realtime.js).
+ */
+
+import express from 'express';
+import User from '../models/User.js';
+import { protect } from '../middleware/auth.js';
+import { isSessionActive } from '../services/sessions.js';
+import { addClient, createStreamTicket, redeemStreamTicket } from '../services/realtime.js';
+
+const router = express.Router();
+
+/**
+ * Authenticate the stream with ?ticket=, or an Authorization header
+ * The browser EventSource API cannot send an Authorization header, so
+ * browsers trade their access token for a ticket first (POST /ticket).
+ */
+const streamAuth = async (req, res, next) => {
+    if (!req.query.ticket) return protect(req, res, next);
+
+    try {
+        const grant = redeemStreamTicket(req.query.ticket);
+        const user = grant && await User.findById(grant.userId);
+
+        if (!user || !(await isSessionActive(grant.sessionId, user._id))) {
+            return res.status(401).json({
+                success: false,
+                message: 'Stream ticket is invalid or expired'
+            });
+        }
+
+        req.user = user;
+        req.sessionId = grant.sessionId;
+        next();
+    } catch (error) {
+        console.error('❌ Error opening event stream:', error);
+        res.status(500).json({
+            success: false,
+            message: 'Server error opening event stream'
+        });
+    }
+};
+
+/**
+ * @route   POST /api/events/ticket
+ * @desc    Get a single-use ticket for opening the event stream
+ * @access  Private
+ */
+router.post('/ticket', protect, (req, res) => {
+    const { ticket, expiresAt } = createStreamTicket(req.user, req.sessionId);
+
+    res.json({
+        success: true,
+        data: { ticket, expiresAt }
+    });
+});
+
+/**
+ * @route   GET /api/events
+ * @desc    Open a live event stream (text/event-stream)
+ * @access  Private
+ *
+ * Query parameters:
+ * - ticket: From POST /api/events/ticket, when no Authorization header can be sent
+ *
+ * Events: connected, inventory, request, appointment, notification, user
+ */
+router.get('/', streamAuth, (req, res) => {
+    addClient(req, res);
+});
+
+export default router;
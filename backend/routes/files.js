@@ -0,0 +1,59 @@
+import express from 'express';
+import { getStorage, isPublicKey, isValidKey, verifySignedUrl } from '../services/storage.js';
+
+const router = express.Router();
+
+/**
+ * @route   GET /api/files/:key
+ * @desc    Serve a stored file: public files (profile photos) to anyone,
+ *          private files only with a valid signature (?expires=&signature=)
+ * @access  Public / signed URL
+ */
+router.get('/*key', async (req, res) => {
+    try {
+        const key = req.params.key.join('/');
+        if (!isValidKey(key)) {
+            return res.status(404).json({
+                success: false,
+                message: 'File not found'
+            });
+        }
+
+        const isPublic = isPublicKey(key);
+        if (!isPublic && !verifySignedUrl(key, req.query)) {
+            return res.status(403).json({
+                success: false,
+                message: 'This link is invalid or has expired'
+            });
+        }
+
+        const file = await getStorage().get(key);
+        if (!file) {
+            return res.status(404).json({
+                success: false,
+                message: 'File not found'
+            });
+        }
+
+        res.set({
+            'Content-Type': file.contentType,
+            'X-Content-Type-Options': 'nosniff',
+            // Public keys are never reused, so they can be cached for good
+            'Cache-Control': isPublic ? 'public, max-age=31536000, immutable' : 'private, no-store'
+        });
+        if (req.query.name) {
+            res.set('Content-Disposition', `inline; filename="${encodeURIComponent(req.query.name)}"`);
+        }
+
+        res.send(file.body);
+
+    } catch (error) {
+        console.error('❌ File download error:', error);
+        res.status(500).json({
+            success: false,
+            message: 'Server error'
+        });
+    }
+});
+
+export default router;
@@ -1,278 +1,1533 @@
 /**
  * Hospital Staff Routes
  * 
+ * Staff accounts belong to a Hospital directory record; stock and requests
+ * are shared by every staff account of that hospital.
+ *
  * Routes for hospital staff to manage:
  * 1. Blood Inventory - View and update stock levels
- * 2. Donor Reminders - Send notifications to eligible donors
+ * 2. Blood Units - Receive, issue and trace individual bags
+ * 3. Incoming Requests - Accept, partially supply or decline routed blood requests
+ * 4. Donation Appointments - Publish donation slots, check donors in and record donations
+ * 5. Donor Reminders - Send notifications to eligible donors
  */
 
 import express from 'express';
+import mongoose from 'mongoose';
 import BloodInventory from '../models/BloodInventory.js';
+import BloodUnit, { BloodUnitError } from '../models/BloodUnit.js';
+import BloodRequest from '../models/BloodRequest.js';
+import Hospital from '../models/Hospital.js';
 import Notification from '../models/Notification.js';
 import User from '../models/User.js';
+import Donation from '../models/Donation.js';
+import DonationSlot from '../models/DonationSlot.js';
 import { protect } from '../middleware/auth.js';
+import { COMPONENT_TYPES, DEFAULT_COMPONENT, getComponentLabel } from '../config/bloodComponents.js';
+import { getAllowedTransitions } from '../config/requestLifecycle.js';
+import { EMERGENCY_URGENCIES } from '../config/donationRules.js';
+import { routeRequest } from '../services/requestMatching.js';
+import { linkStaffAccount } from '../services/hospitalAccounts.js';
+import { publishInventoryChange, publishRequestChange, publishAppointmentChange } from '../services/realtime.js';
+import { dispatchNotification } from '../services/notificationDispatcher.js';
+import {
+    parseClock,
+    parseDay,
+    toDayString,
+    isWithinOperatingHours,
+    formatSlot,
+    formatAppointment
+} from '../services/appointments.js';
+import { recomputeDonorStats, formatDonorStats } from '../services/donorStats.js';
+import { evaluateEligibility, evaluateDonors, formatEligibility } from '../services/eligibility.js';
+import { formatDocument } from '../services/requestDocuments.js';
 
 const router = express.Router();
 
-// Middleware to check if user is hospital staff
-const isHospitalStaff = (req, res, next) => {
+// Middleware to check if user is hospital staff and resolve their hospital
+const isHospitalStaff = async (req, res, next) => {
     if (req.user.role !== 'hospital') {
         return res.status(403).json({
             success: false,
             message: 'Access denied. Hospital staff only.'
         });
     }
-    next();
+
+    try {
+        // Accounts created before hospitals were linked get linked on first use
+        if (!req.user.hospital) {
+            await linkStaffAccount(req.user);
+        }
+        // A listed hospital is only linked once the account is verified
+        if (!req.user.hospital) {
+            return res.status(403).json({
+                success: false,
+                message: 'Your account must be verified before it can be linked to your hospital'
+            });
+        }
+        req.hospitalId = req.user.hospital;
+        next();
+    } catch (error) {
+        console.error('❌ Error linking hospital account:', error);
+        res.status(500).json({
+            success: false,
+            message: 'Server error resolving hospital'
+        });
+    }
+};
+
+// Apply authentication to all routes
+router.use(protect);
+router.use(isHospitalStaff);
+
+// Most bags one request may receive, issue or count (each bag is its own record)
+const MAX_UNITS_PER_REQUEST = 500;
+
+// Donor fields needed to check eligibility
+const DONOR_ELIGIBILITY_FIELDS = 'profile.bloodGroup profile.lastDonation profile.sex profile.dateOfBirth profile.weight profile.deferrals';
+
+/**
+ * Resolve the donor of a received unit from donor_id or donor_email
+ * @returns {Object|undefined|null} - Donor user, undefined when none given, null when not found
+ */
+const resolveDonor = async ({ donor_id, donor_email }) => {
+    if (donor_id) {
+        if (!mongoose.isValidObjectId(donor_id)) return null;
+        return User.findOne({ _id: donor_id, role: 'donor' }).select(`name email ${DONOR_ELIGIBILITY_FIELDS}`);
+    }
+    if (donor_email) {
+        return User.findOne({ email: donor_email.toLowerCase().trim(), role: 'donor' }).select(`name email ${DONOR_ELIGIBILITY_FIELDS}`);
+    }
+    return undefined;
+};
+
+/**
+ * IDs a hospital's reminders are stored under
+ * Reminders sent before staff were linked to hospitals were keyed to the
+ * staff account that sent them, so those still count as sent.
+ */
+const getReminderSenderIds = async (hospitalId) => [
+    hospitalId,
+    ...await User.distinct('_id', { role: 'hospital', hospital: hospitalId })
+];
+
+/**
+ * Format a unit document for API responses
+ */
+const formatUnit = (unit) => ({
+    id: unit._id,
+    blood_group: unit.blood_group,
+    component: unit.component,
+    batch_id: unit.batch_id,
+    donor_id: unit.donor_id?._id || unit.donor_id || null,
+    donor_name: unit.donor_id?.name || unit.donor_name || null,
+    collection_date: unit.collection_date,
+    expiry_date: unit.expiry_date,
+    volume: unit.volume,
+    status: unit.status,
+    storage_location: unit.storage_location || null,
+    issued_at: unit.issued_at || null,
+    issued_to: unit.issued_to || null
+});
+
+/**
+ * Send the error response for a failed stock change
+ * Stock rules (BloodUnitError) and duplicate batch IDs are reported to the
+ * client; anything else is logged and reported generically.
+ */
+const sendStockError = (res, error, message) => {
+    if (error instanceof BloodUnitError) {
+        return res.status(error.status).json({
+            success: false,
+            message: error.message
+        });
+    }
+
+    if (error.code === 11000) {
+        return res.status(409).json({
+            success: false,
+            message: 'A unit with this batch ID already exists'
+        });
+    }
+
+    console.error(`❌ ${message}:`, error);
+    res.status(500).json({
+        success: false,
+        message
+    });
+};
+
+/**
+ * Reject requests naming an unknown blood component
+ * @returns {Boolean} - true when a 400 response was sent
+ */
+const rejectInvalidComponent = (component, res) => {
+    if (component && !COMPONENT_TYPES.includes(component)) {
+        res.status(400).json({
+            success: false,
+            message: `Invalid component. Must be one of: ${COMPONENT_TYPES.join(', ')}`
+        });
+        return true;
+    }
+    return false;
+};
+
+// ============================================================================
+// HOSPITAL PROFILE ROUTES
+// ============================================================================
+
+/**
+ * @route   GET /api/hospital/profile
+ * @desc    Get the hospital the logged-in staff account belongs to
+ * @access  Hospital Staff
+ */
+router.get('/profile', async (req, res) => {
+    try {
+        const [hospital, staffCount] = await Promise.all([
+            Hospital.findById(req.hospitalId),
+            User.countDocuments({ role: 'hospital', hospital: req.hospitalId })
+        ]);
+
+        if (!hospital) {
+            return res.status(404).json({
+                success: false,
+                message: 'Hospital not found'
+            });
+        }
+
+        res.json({
+            success: true,
+            data: {
+                hospital: {
+                    id: hospital._id,
+                    name: hospital.name,
+                    address: hospital.address,
+                    city: hospital.city,
+                    state: hospital.state || null,
+                    phone: hospital.phone,
+                    email: hospital.email || null,
+                    verified: hospital.verified,
+                    staff_count: staffCount
+                }
+            }
+        });
+
+    } catch (error) {
+        console.error('❌ Error fetching hospital profile:', error);
+        res.status(500).json({
+            success: false,
+            message: 'Server error fetching hospital profile'
+        });
+    }
+});
+
+// ============================================================================
+// BLOOD INVENTORY ROUTES
+// ============================================================================
+
+/**
+ * @route   GET /api/hospital/inventory
+ * @desc    Get blood inventory for the logged-in hospital
+ * @access  Hospital Staff
+ * 
+ * Query parameters:
+ * - component: whole_blood | prbc | platelets | plasma | cryo (optional, all when omitted)
+ */
+router.get('/inventory', async (req, res) => {
+    try {
+        const hospitalId = req.hospitalId;
+        const { component } = req.query;
+        if (rejectInvalidComponent(component, res)) return;
+
+        console.log(`📦 Fetching inventory for hospital: ${hospitalId}`);
+
+        // Get all inventory items for this hospital
+        let inventory = await BloodInventory.getHospitalInventory(hospitalId, component);
+
+        // If no inventory exists, create default entries for all blood groups
+        if (inventory.length === 0) {
+            console.log('📝 Creating default inventory entries...');
+            const bloodGroups = ['A+', 'A-', 'B+', 'B-', 'AB+', 'AB-', 'O+', 'O-'];
+
+            for (const bg of bloodGroups) {
+                await BloodInventory.create({
+                    hospital_id: hospitalId,
+                    blood_group: bg,
+                    component: component || DEFAULT_COMPONENT,
+                    units_available: 0
+                });
+            }
+
+            inventory = await BloodInventory.getHospitalInventory(hospitalId, component);
+        }
+
+        // Format response
+        const formattedInventory = inventory.map(item => ({
+            id: item._id,
+            blood_group: item.blood_group,
+            component: item.component,
+            component_label: getComponentLabel(item.component),
+            units_available: item.units_available,
+            last_updated: item.last_updated,
+            is_low_stock: item.isLowStock(),
+            min_threshold: item.min_threshold
+        }));
+
+        res.json({
+            success: true,
+            count: formattedInventory.length,
+            data: { inventory: formattedInventory }
+        });
+
+    } catch (error) {
+        console.error('❌ Error fetching inventory:', error);
+        res.status(500).json({
+            success: false,
+            message: 'Server error fetching inventory'
+        });
+    }
+});
+
+/**
+ * @route   GET /api/hospital/inventory/expiring
+ * @desc    Get units that will expire within the next N days (soonest first)
+ * @access  Hospital Staff
+ * 
+ * Query parameters:
+ * - days: Look-ahead window in days (default 7, max 90)
+ */
+router.get('/inventory/expiring', async (req, res) => {
+    try {
+        const days = parseInt(req.query.days ?? 7);
+
+        if (isNaN(days) || days < 1 || days > 90) {
+            return res.status(400).json({
+                success: false,
+                message: 'Days must be between 1 and 90'
+            });
+        }
+
+        const units = await BloodUnit.getExpiringUnits(req.hospitalId, days);
+
+        // Count expiring units per blood group
+        const byBloodGroup = units.reduce((acc, unit) => {
+            acc[unit.blood_group] = (acc[unit.blood_group] || 0) + 1;
+            return acc;
+        }, {});
+
+        res.json({
+            success: true,
+            count: units.length,
+            data: {
+                days,
+                expiring_units: units.length,
+                by_blood_group: byBloodGroup,
+                units: units.map(formatUnit)
+            }
+        });
+
+    } catch (error) {
+        console.error('❌ Error fetching expiring units:', error);
+        res.status(500).json({
+            success: false,
+            message: 'Server error fetching expiring units'
+        });
+    }
+});
+
+/**
+ * @route   POST /api/hospital/inventory/add
+ * @desc    Receive units of a blood group (creates one bag record per unit)
+ * @access  Hospital Staff
+ * 
+ * Body: { blood_group: "A+", units: 5, component?, donor_email?, collection_date?, expiry_date? }
+ */
+router.post('/inventory/add', async (req, res) => {
+    try {
+        const { blood_group, units, component = DEFAULT_COMPONENT } = req.body;
+        const hospitalId = req.hospitalId;
+
+        // Validate input
+        if (!blood_group || units === undefined) {
+            return res.status(400).json({
+                success: false,
+                message: 'Blood group and units are required'
+            });
+        }
+
+        if (rejectInvalidComponent(component, res)) return;
+
+        const unitsToAdd = parseInt(units);
+        if (isNaN(unitsToAdd) || unitsToAdd <= 0 || unitsToAdd > MAX_UNITS_PER_REQUEST) {
+            return res.status(400).json({
+                success: false,
+                message: `Units must be between 1 and ${MAX_UNITS_PER_REQUEST}`
+            });
+        }
+
+        const donor = await resolveDonor(req.body);
+        if (donor === null) {
+            return res.status(404).json({
+                success: false,
+                message: 'Donor not found'
+            });
+        }
+
+        console.log(`➕ Receiving ${unitsToAdd} units of ${blood_group} ${component}`);
+
+        // Receive bags into inventory
+        const inventory = await BloodInventory.addUnits(hospitalId, blood_group, unitsToAdd, {
+            component,
+            donor_id: donor?._id,
+            donor_name: donor?.name,
+            collection_date: req.body.collection_date,
+            expiry_date: req.body.expiry_date,
+            storage_location: req.body.storage_location
+        });
+        publishInventoryChange(hospitalId, [inventory]);
+
+        res.json({
+            success: true,
+            message: `Received ${unitsToAdd} units of ${blood_group} ${getComponentLabel(component)}. Total: ${inventory.units_available}`,
+            data: {
+                blood_group: inventory.blood_group,
+                component: inventory.component,
+                units_available: inventory.units_available,
+                last_updated: inventory.last_updated
+            }
+        });
+
+    } catch (error) {
+        sendStockError(res, error, 'Server error adding inventory');
+    }
+});
+
+/**
+ * @route   POST /api/hospital/inventory/update
+ * @desc    Set a new value for units_available
+ * @access  Hospital Staff
+ * 
+ * Body: { blood_group: "A+", units: 10, component? }
+ */
+router.post('/inventory/update', async (req, res) => {
+    try {
+        const { blood_group, units, component = DEFAULT_COMPONENT } = req.body;
+        const hospitalId = req.hospitalId;
+
+        // Validate input
+        if (!blood_group || units === undefined) {
+            return res.status(400).json({
+                success: false,
+                message: 'Blood group and units are required'
+            });
+        }
+
+        if (rejectInvalidComponent(component, res)) return;
+
+        const newUnits = parseInt(units);
+        if (isNaN(newUnits) || newUnits < 0) {
+            return res.status(400).json({
+                success: false,
+                message: 'Units cannot be negative'
+            });
+        }
+
+        // A stock-take receives or writes off one bag per unit of difference
+        const current = await BloodUnit.countAvailable(hospitalId, blood_group, component);
+        if (Math.abs(newUnits - current) > MAX_UNITS_PER_REQUEST) {
+            return res.status(400).json({
+                success: false,
+                message: `A stock-take can change stock by at most ${MAX_UNITS_PER_REQUEST} units at a time`
+            });
+        }
+
+        console.log(`🔄 Updating ${blood_group} ${component} to ${newUnits} units`);
+
+        // Update inventory
+        const inventory = await BloodInventory.upsertInventory(hospitalId, blood_group, newUnits, component);
+        publishInventoryChange(hospitalId, [inventory]);
+
+        res.json({
+            success: true,
+            message: `Updated ${blood_group} ${getComponentLabel(component)} to ${newUnits} units`,
+            data: {
+                blood_group: inventory.blood_group,
+                component: inventory.component,
+                units_available: inventory.units_available,
+                last_updated: inventory.last_updated
+            }
+        });
+
+    } catch (error) {
+        sendStockError(res, error, 'Server error updating inventory');
+    }
+});
+
+/**
+ * @route   POST /api/hospital/inventory/reduce
+ * @desc    Issue units of a blood group (first-expiry-first-out)
+ * @access  Hospital Staff
+ * 
+ * Body: { blood_group: "A+", units: 2, component?, issued_to? }
+ */
+router.post('/inventory/reduce', async (req, res) => {
+    try {
+        const { blood_group, units, component = DEFAULT_COMPONENT } = req.body;
+        const hospitalId = req.hospitalId;
+
+        // Validate input
+        if (!blood_group || units === undefined) {
+            return res.status(400).json({
+                success: false,
+                message: 'Blood group and units are required'
+            });
+        }
+
+        if (rejectInvalidComponent(component, res)) return;
+
+        const unitsToReduce = parseInt(units);
+        if (isNaN(unitsToReduce) || unitsToReduce <= 0 || unitsToReduce > MAX_UNITS_PER_REQUEST) {
+            return res.status(400).json({
+                success: false,
+                message: `Units must be between 1 and ${MAX_UNITS_PER_REQUEST}`
+            });
+        }
+
+        console.log(`➖ Issuing ${unitsToReduce} units of ${blood_group} ${component}`);
+
+        // Issue bags from inventory
+        const inventory = await BloodInventory.reduceUnits(hospitalId, blood_group, unitsToReduce, {
+            component,
+            issued_to: req.body.issued_to,
+            notes: req.body.notes
+        });
+        publishInventoryChange(hospitalId, [inventory]);
+
+        res.json({
+            success: true,
+            message: `Issued ${unitsToReduce} units of ${blood_group} ${getComponentLabel(component)}. Remaining: ${inventory.units_available}`,
+            data: {
+                blood_group: inventory.blood_group,
+                component: inventory.component,
+                units_available: inventory.units_available,
+                last_updated: inventory.last_updated,
+                is_low_stock: inventory.isLowStock()
+            }
+        });
+
+    } catch (error) {
+        sendStockError(res, error, 'Server error reducing inventory');
+    }
+});
+
+// ============================================================================
+// BLOOD UNIT ROUTES
+// ============================================================================
+
+/**
+ * @route   GET /api/hospital/units
+ * @desc    List blood units held by the logged-in hospital (soonest expiry first)
+ * @access  Hospital Staff
+ * 
+ * Query parameters:
+ * - status: available | reserved | expired | used
+ * - blood_group: Filter by blood group
+ */
+router.get('/units', async (req, res) => {
+    try {
+        const { status, blood_group, component } = req.query;
+        if (rejectInvalidComponent(component, res)) return;
+
+        const units = await BloodUnit.getHospitalUnits(req.hospitalId, { status, blood_group, component });
+
+        res.json({
+            success: true,
+            count: units.length,
+            data: { units: units.map(formatUnit) }
+        });
+
+    } catch (error) {
+        console.error('❌ Error fetching units:', error);
+        res.status(500).json({
+            success: false,
+            message: 'Server error fetching units'
+        });
+    }
+});
+
+/**
+ * @route   POST /api/hospital/units/receive
+ * @desc    Receive individual bags into stock
+ * @access  Hospital Staff
+ * 
+ * Body: {
+ *   blood_group: "A+",
+ *   component?: "whole_blood",
+ *   units: [{ batch_id, donor_id | donor_email, collection_date, expiry_date, volume, storage_location }]
+ * }
+ */
+router.post('/units/receive', async (req, res) => {
+    try {
+        const { blood_group, units, component = DEFAULT_COMPONENT } = req.body;
+        const hospitalId = req.hospitalId;
+
+        if (!blood_group || !Array.isArray(units) || units.length === 0) {
+            return res.status(400).json({
+                success: false,
+                message: 'Blood group and at least one unit are required'
+            });
+        }
+
+        if (units.length > MAX_UNITS_PER_REQUEST) {
+            return res.status(400).json({
+                success: false,
+                message: `At most ${MAX_UNITS_PER_REQUEST} units can be received at a time`
+            });
+        }
+
+        if (rejectInvalidComponent(component, res)) return;
+
+        const bags = [];
+        for (const unit of units) {
+            const donor = await resolveDonor(unit);
+            if (donor === null) {
+                return res.status(404).json({
+                    success: false,
+                    message: `Donor not found for unit ${unit.batch_id || ''}`.trim()
+                });
+            }
+            bags.push({ ...unit, component, donor_id: donor?._id, donor_name: donor?.name });
+        }
+
+        console.log(`📥 Receiving ${bags.length} bags of ${blood_group} ${component}`);
+
+        const received = await BloodUnit.receiveUnits(hospitalId, blood_group, bags);
+        const inventory = await BloodInventory.syncFromUnits(hospitalId, blood_group, component);
+        publishInventoryChange(hospitalId, [inventory]);
+
+        res.status(201).json({
+            success: true,
+            message: `Received ${bags.length} units of ${blood_group} ${getComponentLabel(component)}. Total: ${inventory.units_available}`,
+            data: {
+                units: received.map(formatUnit),
+                units_available: inventory.units_available
+            }
+        });
+
+    } catch (error) {
+        sendStockError(res, error, 'Server error receiving units');
+    }
+});
+
+/**
+ * @route   POST /api/hospital/units/issue
+ * @desc    Issue bags out of stock, either specific units or FIFO by count
+ * @access  Hospital Staff
+ * 
+ * Body: { blood_group: "A+", component?, unit_ids?: [...], units?: 2, issued_to?, notes? }
+ * Selected units may span components; FIFO issues default to whole blood.
+ */
+router.post('/units/issue', async (req, res) => {
+    try {
+        const { blood_group, unit_ids, units, issued_to, notes } = req.body;
+        const component = req.body.component || (Array.isArray(unit_ids) ? undefined : DEFAULT_COMPONENT);
+        const hospitalId = req.hospitalId;
+
+        const count = Array.isArray(unit_ids) ? unit_ids.length : parseInt(units);
+        if (!blood_group || isNaN(count) || count <= 0) {
+            return res.status(400).json({
+                success: false,
+                message: 'Blood group and unit IDs or a positive number of units are required'
+            });
+        }
+
+        if (count > MAX_UNITS_PER_REQUEST) {
+            return res.status(400).json({
+                success: false,
+                message: `At most ${MAX_UNITS_PER_REQUEST} units can be issued at a time`
+            });
+        }
+
+        if (rejectInvalidComponent(component, res)) return;
+
+        console.log(`📤 Issuing ${count} bags of ${blood_group} ${component || 'selected units'}`);
+
+        const issued = await BloodUnit.issueUnits(hospitalId, blood_group, count, {
+            component,
+            unitIds: unit_ids,
+            issued_to,
+            notes
+        });
+
+        // Re-sync every stock row the issued bags came from
+        const rows = await BloodInventory.syncUnitGroups(hospitalId, issued);
+        publishInventoryChange(hospitalId, rows);
+
+        const stock = rows.map(row => ({
+            component: row.component,
+            units_available: row.units_available,
+            is_low_stock: row.isLowStock()
+        }));
+
+        res.json({
+            success: true,
+            message: rows.length === 1
+                ? `Issued ${issued.length} units of ${blood_group} ${getComponentLabel(rows[0].component)}. Remaining: ${rows[0].units_available}`
+                : `Issued ${issued.length} units of ${blood_group} across ${rows.length} components`,
+            data: {
+                units: issued.map(formatUnit),
+                ...(stock.length === 1 && { units_available: stock[0].units_available, is_low_stock: stock[0].is_low_stock }),
+                stock
+            }
+        });
+
+    } catch (error) {
+        sendStockError(res, error, 'Server error issuing units');
+    }
+});
+
+/**
+ * @route   PUT /api/hospital/units/:id/status
+ * @desc    Reserve, release or discard a single unit
+ * @access  Hospital Staff
+ * 
+ * Body: { status: "reserved" | "available" | "expired", notes? }
+ */
+router.put('/units/:id/status', async (req, res) => {
+    try {
+        const { status, notes } = req.body;
+
+        if (!['available', 'reserved', 'expired'].includes(status)) {
+            return res.status(400).json({
+                success: false,
+                message: 'Status must be one of: available, reserved, expired'
+            });
+        }
+
+        const unit = await BloodUnit.findOne({ _id: req.params.id, hospital_id: req.hospitalId });
+
+        if (!unit) {
+            return res.status(404).json({
+                success: false,
+                message: 'Unit not found'
+            });
+        }
+
+        if (unit.status === 'used' || (unit.status === 'expired' && status !== 'expired')) {
+            return res.status(400).json({
+                success: false,
+                message: `Unit ${unit.batch_id} is ${unit.status} and cannot be changed`
+            });
+        }
+
+        if (status !== 'expired' && unit.isExpired()) {
+            return res.status(400).json({
+                success: false,
+                message: `Unit ${unit.batch_id} is past its expiry date`
+            });
+        }
+
+        unit.status = status;
+        if (notes) unit.notes = notes;
+        await unit.save();
+
+        const inventory = await BloodInventory.syncFromUnits(req.hospitalId, unit.blood_group, unit.component);
+        publishInventoryChange(req.hospitalId, [inventory]);
+
+        res.json({
+            success: true,
+            message: `Unit ${unit.batch_id} marked as ${status}`,
+            data: { unit: formatUnit(unit) }
+        });
+
+    } catch (error) {
+        console.error('❌ Error updating unit status:', error);
+        res.status(500).json({
+            success: false,
+            message: 'Server error updating unit'
+        });
+    }
+});
+
+/**
+ * @route   GET /api/hospital/units/:id
+ * @desc    Get a single unit with its donor trace
+ * @access  Hospital Staff
+ */
+router.get('/units/:id', async (req, res) => {
+    try {
+        const unit = await BloodUnit.findOne({ _id: req.params.id, hospital_id: req.hospitalId })
+            .populate('donor_id', 'name email phone');
+
+        if (!unit) {
+            return res.status(404).json({
+                success: false,
+                message: 'Unit not found'
+            });
+        }
+
+        res.json({
+            success: true,
+            data: {
+                unit: {
+                    ...formatUnit(unit),
+                    donor: unit.donor_id ? {
+                        id: unit.donor_id._id,
+                        name: unit.donor_id.name,
+                        email: unit.donor_id.email,
+                        phone: unit.donor_id.phone
+                    } : null,
+                    notes: unit.notes || null
+                }
+            }
+        });
+
+    } catch (error) {
+        console.error('❌ Error fetching unit:', error);
+        res.status(500).json({
+            success: false,
+            message: 'Server error fetching unit'
+        });
+    }
+});
+
+// ============================================================================
+// INCOMING REQUEST ROUTES
+// ============================================================================
+
+// Most urgent requests first
+const URGENCY_ORDER = { critical: 0, high: 1, medium: 2, low: 3 };
+
+/**
+ * Format a routed blood request for the hospital inbox
+ */
+const formatIncomingRequest = (request, user) => {
+    const routing = request.getRouting(user.hospital);
+    const isServing = request.servingHospital?.toString() === user.hospital.toString();
+
+    return {
+        id: request._id,
+        blood_group: request.bloodGroup,
+        component: request.component,
+        component_label: getComponentLabel(request.component),
+        units_requested: request.unitsRequested,
+        units_remaining: request.remainingUnits(),
+        urgency: request.urgency,
+        reason: request.reason,
+        location: request.location || null,
+        requester_name: request.requesterName,
+        // Contact details are shared once the hospital has taken the request
+        contact_phone: isServing ? request.contactPhone : null,
+        status: request.status,
+        routing_status: routing?.status || null,
+        available_units: routing?.availableUnits ?? null,
+        // Seeker requests are accepted once the requisition is verified
+        requisition_required: request.needsRequisition(),
+        requisition_status: request.requisition.status,
+        requisition_note: request.requisition.note || null,
+        documents: request.documents.map(doc => formatDocument(request, doc)),
+        allowed_transitions: getAllowedTransitions(request.status, request.getActors(user)),
+        created_at: request.createdAt
+    };
+};
+
+/**
+ * Load a request routed to (or served by) the logged-in hospital
+ * @returns {Object|null} - Request document, or null after sending a 404
+ */
+const findHospitalRequest = async (req, res) => {
+    const request = mongoose.isValidObjectId(req.params.id) && await BloodRequest.findOne({
+        _id: req.params.id,
+        $or: [{ 'routedTo.hospital': req.hospitalId }, { servingHospital: req.hospitalId }]
+    });
+
+    if (!request) {
+        res.status(404).json({
+            success: false,
+            message: 'Request not found'
+        });
+        return null;
+    }
+    return request;
 };
 
-// Apply authentication to all routes
-router.use(protect);
-router.use(isHospitalStaff);
+/**
+ * @route   GET /api/hospital/requests
+ * @desc    Get requests routed to this hospital and the ones it is serving
+ * @access  Hospital Staff
+ */
+router.get('/requests', async (req, res) => {
+    try {
+        const hospitalId = req.hospitalId;
+
+        const [incoming, serving] = await Promise.all([
+            BloodRequest.find({
+                status: 'pending',
+                routedTo: { $elemMatch: { hospital: hospitalId, status: 'pending' } }
+            }),
+            BloodRequest.find({
+                servingHospital: hospitalId,
+                status: { $in: ['approved', 'reserved', 'dispatched'] }
+            }).sort({ updatedAt: -1 })
+        ]);
+
+        incoming.sort((a, b) =>
+            (URGENCY_ORDER[a.urgency] - URGENCY_ORDER[b.urgency]) || (a.createdAt - b.createdAt)
+        );
+
+        res.json({
+            success: true,
+            count: incoming.length,
+            data: {
+                incoming: incoming.map(r => formatIncomingRequest(r, req.user)),
+                serving: serving.map(r => formatIncomingRequest(r, req.user))
+            }
+        });
+
+    } catch (error) {
+        console.error('❌ Error fetching incoming requests:', error);
+        res.status(500).json({
+            success: false,
+            message: 'Server error fetching requests'
+        });
+    }
+});
+
+/**
+ * @route   POST /api/hospital/requests/:id/accept
+ * @desc    Accept a routed request and become its serving hospital
+ * @access  Hospital Staff
+ * 
+ * Body: { note? }
+ */
+router.post('/requests/:id/accept', async (req, res) => {
+    try {
+        const request = await findHospitalRequest(req, res);
+        if (!request) return;
+
+        if (request.status !== 'pending') {
+            return res.status(400).json({
+                success: false,
+                message: 'This request has already been taken or closed'
+            });
+        }
+
+        request.transitionTo('approved', req.user, req.body.note);
+        await request.save();
+        publishRequestChange(request);
+
+        console.log(`🤝 Request ${request._id} accepted by hospital ${req.hospitalId}`);
+
+        res.json({
+            success: true,
+            message: `Accepted request for ${request.unitsRequested} units of ${request.bloodGroup} ${getComponentLabel(request.component)}`,
+            data: { request: formatIncomingRequest(request, req.user) }
+        });
+
+    } catch (error) {
+        console.error('❌ Error accepting request:', error);
+        res.status(400).json({
+            success: false,
+            message: error.message || 'Server error accepting request'
+        });
+    }
+});
+
+/**
+ * @route   POST /api/hospital/requests/:id/decline
+ * @desc    Decline a routed request
+ * @access  Hospital Staff
+ * 
+ * Body: { reason: "No compatible stock" }
+ */
+router.post('/requests/:id/decline', async (req, res) => {
+    try {
+        const reason = req.body.reason?.trim();
+
+        if (!reason) {
+            return res.status(400).json({
+                success: false,
+                message: 'A reason is required to decline a request'
+            });
+        }
+
+        const request = await findHospitalRequest(req, res);
+        if (!request) return;
+
+        request.declineFor(req.user, reason);
+        await request.save();
+        publishRequestChange(request);
+
+        console.log(`🚫 Request ${request._id} declined by hospital ${req.hospitalId}: ${reason}`);
+
+        res.json({
+            success: true,
+            message: 'Request declined',
+            data: { request: formatIncomingRequest(request, req.user) }
+        });
+
+    } catch (error) {
+        console.error('❌ Error declining request:', error);
+        res.status(400).json({
+            success: false,
+            message: error.message || 'Server error declining request'
+        });
+    }
+});
+
+/**
+ * @route   POST /api/hospital/requests/:id/partial
+ * @desc    Supply part of an accepted request; the rest is routed to other hospitals
+ * @access  Hospital Staff
+ * 
+ * Body: { units: 1, note? }
+ */
+router.post('/requests/:id/partial', async (req, res) => {
+    try {
+        const units = parseInt(req.body.units);
+
+        if (isNaN(units) || units <= 0) {
+            return res.status(400).json({
+                success: false,
+                message: 'Units must be a positive number'
+            });
+        }
+
+        const request = await findHospitalRequest(req, res);
+        if (!request) return;
+
+        request.supplyPartial(units, req.user, req.body.note);
+        await routeRequest(request);
+        await request.save();
+        publishRequestChange(request);
+
+        console.log(`➗ Request ${request._id}: hospital ${req.hospitalId} supplied ${units} units, ${request.remainingUnits()} remaining`);
+
+        res.json({
+            success: true,
+            message: `Supplied ${units} units. ${request.remainingUnits()} units are being sourced from other hospitals`,
+            data: { request: formatIncomingRequest(request, req.user) }
+        });
+
+    } catch (error) {
+        console.error('❌ Error recording partial supply:', error);
+        res.status(400).json({
+            success: false,
+            message: error.message || 'Server error recording partial supply'
+        });
+    }
+});
 
 // ============================================================================
-// BLOOD INVENTORY ROUTES
+// DONATION APPOINTMENT ROUTES
 // ============================================================================
 
+// Most slots one POST /slots call can create
+const MAX_SLOTS_PER_REQUEST = 48;
+
 /**
- * @route   GET /api/hospital/inventory
- * @desc    Get blood inventory for the logged-in hospital
+ * @route   GET /api/hospital/slots
+ * @desc    Get this hospital's donation slots
  * @access  Hospital Staff
+ * 
+ * Query parameters:
+ * - from: First day, YYYY-MM-DD (default today)
+ * - days: Number of days (default 7, max 31)
  */
-router.get('/inventory', async (req, res) => {
+router.get('/slots', async (req, res) => {
     try {
-        const hospitalId = req.user._id;
-        console.log(`📦 Fetching inventory for hospital: ${hospitalId}`);
-
-        // Get all inventory items for this hospital
-        let inventory = await BloodInventory.getHospitalInventory(hospitalId);
-
-        // If no inventory exists, create default entries for all blood groups
-        if (inventory.length === 0) {
-            console.log('📝 Creating default inventory entries...');
-            const bloodGroups = ['A+', 'A-', 'B+', 'B-', 'AB+', 'AB-', 'O+', 'O-'];
-
-            for (const bg of bloodGroups) {
-                await BloodInventory.create({
-                    hospital_id: hospitalId,
-                    blood_group: bg,
-                    units_available: 0
-                });
-            }
-
-            inventory = await BloodInventory.getHospitalInventory(hospitalId);
+        const day = parseDay(req.query.from || toDayString(new Date()));
+        if (!day) {
+            return res.status(400).json({
+                success: false,
+                message: 'from must be a date in YYYY-MM-DD format'
+            });
         }
 
-        // Format response
-        const formattedInventory = inventory.map(item => ({
-            id: item._id,
-            blood_group: item.blood_group,
-            units_available: item.units_available,
-            last_updated: item.last_updated,
-            is_low_stock: item.isLowStock(),
-            min_threshold: item.min_threshold
-        }));
+        const days = Math.min(parseInt(req.query.days) || 7, 31);
+        const until = new Date(day.start);
+        until.setDate(until.getDate() + days);
+
+        const slots = await DonationSlot.find({
+            hospital_id: req.hospitalId,
+            start_time: { $gte: day.start, $lt: until }
+        }).sort({ start_time: 1 });
 
         res.json({
             success: true,
-            count: formattedInventory.length,
-            data: { inventory: formattedInventory }
+            count: slots.length,
+            data: { slots: slots.map(formatSlot) }
         });
 
     } catch (error) {
-        console.error('❌ Error fetching inventory:', error);
+        console.error('❌ Error fetching donation slots:', error);
         res.status(500).json({
             success: false,
-            message: 'Server error fetching inventory'
+            message: 'Server error fetching slots'
         });
     }
 });
 
 /**
- * @route   POST /api/hospital/inventory/add
- * @desc    Add units to a blood group
+ * @route   POST /api/hospital/slots
+ * @desc    Publish donation slots for a day, inside the hospital's operating hours
  * @access  Hospital Staff
  * 
- * Body: { blood_group: "A+", units: 5 }
+ * Body: { date: "2025-03-01", start_time: "09:00", end_time: "13:00", duration_minutes: 30, capacity: 4 }
+ * The window is split into slots of duration_minutes (one slot when omitted).
  */
-router.post('/inventory/add', async (req, res) => {
+router.post('/slots', async (req, res) => {
     try {
-        const { blood_group, units } = req.body;
-        const hospitalId = req.user._id;
+        const { date, start_time, end_time, duration_minutes, capacity } = req.body;
 
-        // Validate input
-        if (!blood_group || units === undefined) {
+        const day = parseDay(date);
+        const startMinutes = parseClock(start_time);
+        const endMinutes = end_time === '24:00' ? 24 * 60 : parseClock(end_time);
+
+        if (!day || startMinutes === null || endMinutes === null || endMinutes <= startMinutes) {
             return res.status(400).json({
                 success: false,
-                message: 'Blood group and units are required'
+                message: 'Please provide a date (YYYY-MM-DD) and a start_time before end_time (HH:MM)'
             });
         }
 
-        const unitsToAdd = parseInt(units);
-        if (isNaN(unitsToAdd) || unitsToAdd <= 0) {
+        const slotCapacity = parseInt(capacity);
+        if (!slotCapacity || slotCapacity < 1) {
             return res.status(400).json({
                 success: false,
-                message: 'Units must be a positive number'
+                message: 'Capacity must be at least 1'
             });
         }
 
-        console.log(`➕ Adding ${unitsToAdd} units of ${blood_group}`);
+        const duration = parseInt(duration_minutes) || endMinutes - startMinutes;
+        if (duration < 5) {
+            return res.status(400).json({
+                success: false,
+                message: 'Slots must be at least 5 minutes long'
+            });
+        }
 
-        // Add units to inventory
-        const inventory = await BloodInventory.addUnits(hospitalId, blood_group, unitsToAdd);
+        const windowStart = new Date(day.start.getTime() + startMinutes * 60 * 1000);
+        const windowEnd = new Date(day.start.getTime() + endMinutes * 60 * 1000);
 
-        res.json({
+        if (windowStart <= new Date()) {
+            return res.status(400).json({
+                success: false,
+                message: 'Slots must start in the future'
+            });
+        }
+
+        const hospital = await Hospital.findById(req.hospitalId);
+        if (!isWithinOperatingHours(hospital, windowStart, windowEnd)) {
+            const { open, close } = hospital.operatingHours;
+            return res.status(400).json({
+                success: false,
+                message: `Slots must fall within operating hours (${open} - ${close})`
+            });
+        }
+
+        const times = [];
+        for (let start = startMinutes; start + duration <= endMinutes; start += duration) {
+            times.push(start);
+        }
+
+        if (times.length > MAX_SLOTS_PER_REQUEST) {
+            return res.status(400).json({
+                success: false,
+                message: `At most ${MAX_SLOTS_PER_REQUEST} slots can be created at once`
+            });
+        }
+
+        const overlapping = await DonationSlot.countDocuments({
+            hospital_id: req.hospitalId,
+            start_time: { $lt: windowEnd },
+            end_time: { $gt: windowStart }
+        });
+        if (overlapping > 0) {
+            return res.status(409).json({
+                success: false,
+                message: 'This time overlaps slots that are already published'
+            });
+        }
+
+        const slots = await DonationSlot.insertMany(times.map(start => ({
+            hospital_id: req.hospitalId,
+            start_time: new Date(day.start.getTime() + start * 60 * 1000),
+            end_time: new Date(day.start.getTime() + (start + duration) * 60 * 1000),
+            capacity: slotCapacity,
+            created_by: req.user._id
+        })));
+
+        console.log(`📅 Hospital ${req.hospitalId} published ${slots.length} donation slots for ${date}`);
+
+        res.status(201).json({
             success: true,
-            message: `Added ${unitsToAdd} units of ${blood_group}. Total: ${inventory.units_available}`,
-            data: {
-                blood_group: inventory.blood_group,
-                units_available: inventory.units_available,
-                last_updated: inventory.last_updated
-            }
+            message: `Published ${slots.length} slot${slots.length === 1 ? '' : 's'} for ${date}`,
+            data: { slots: slots.map(formatSlot) }
         });
 
     } catch (error) {
-        console.error('❌ Error adding inventory:', error);
+        console.error('❌ Error creating donation slots:', error);
         res.status(500).json({
             success: false,
-            message: error.message || 'Server error adding inventory'
+            message: 'Server error creating slots'
         });
     }
 });
 
 /**
- * @route   POST /api/hospital/inventory/update
- * @desc    Set a new value for units_available
+ * @route   DELETE /api/hospital/slots/:id
+ * @desc    Remove a donation slot that has no bookings
  * @access  Hospital Staff
- * 
- * Body: { blood_group: "A+", units: 10 }
  */
-router.post('/inventory/update', async (req, res) => {
+router.delete('/slots/:id', async (req, res) => {
     try {
-        const { blood_group, units } = req.body;
-        const hospitalId = req.user._id;
+        const slot = mongoose.isValidObjectId(req.params.id) &&
+            await DonationSlot.findOne({ _id: req.params.id, hospital_id: req.hospitalId });
 
-        // Validate input
-        if (!blood_group || units === undefined) {
-            return res.status(400).json({
+        if (!slot) {
+            return res.status(404).json({
                 success: false,
-                message: 'Blood group and units are required'
+                message: 'Slot not found'
             });
         }
 
-        const newUnits = parseInt(units);
-        if (isNaN(newUnits) || newUnits < 0) {
+        const deleted = await DonationSlot.deleteOne({ _id: slot._id, booked_count: 0 });
+        if (deleted.deletedCount === 0) {
+            return res.status(409).json({
+                success: false,
+                message: 'Donors have booked this slot. Ask them to reschedule before removing it.'
+            });
+        }
+
+        res.json({
+            success: true,
+            message: 'Slot removed'
+        });
+
+    } catch (error) {
+        console.error('❌ Error deleting donation slot:', error);
+        res.status(500).json({
+            success: false,
+            message: 'Server error deleting slot'
+        });
+    }
+});
+
+/**
+ * @route   GET /api/hospital/appointments
+ * @desc    Get the donation appointments booked for a day
+ * @access  Hospital Staff
+ * 
+ * Query parameters:
+ * - date: Day to list, YYYY-MM-DD (default today)
+ */
+router.get('/appointments', async (req, res) => {
+    try {
+        const day = parseDay(req.query.date || toDayString(new Date()));
+        if (!day) {
             return res.status(400).json({
                 success: false,
-                message: 'Units cannot be negative'
+                message: 'date must be in YYYY-MM-DD format'
             });
         }
 
-        console.log(`🔄 Updating ${blood_group} to ${newUnits} units`);
+        const appointments = await Donation.find({
+            hospital: req.hospitalId,
+            donationDate: { $gte: day.start, $lt: day.end }
+        })
+            .populate('donorId', 'name email phone')
+            .populate('slot', 'start_time end_time')
+            .sort({ donationDate: 1, createdAt: 1 });
 
-        // Update inventory
-        const inventory = await BloodInventory.upsertInventory(hospitalId, blood_group, newUnits);
+        const counts = appointments.reduce((acc, a) => {
+            acc[a.status] = (acc[a.status] || 0) + 1;
+            return acc;
+        }, {});
 
         res.json({
             success: true,
-            message: `Updated ${blood_group} to ${newUnits} units`,
+            count: appointments.length,
             data: {
-                blood_group: inventory.blood_group,
-                units_available: inventory.units_available,
-                last_updated: inventory.last_updated
+                date: toDayString(day.start),
+                appointments: appointments.map(formatAppointment),
+                summary: {
+                    scheduled: counts.scheduled || 0,
+                    checked_in: counts.checked_in || 0,
+                    completed: counts.completed || 0,
+                    cancelled: counts.cancelled || 0
+                }
             }
         });
 
     } catch (error) {
-        console.error('❌ Error updating inventory:', error);
+        console.error('❌ Error fetching appointments:', error);
         res.status(500).json({
             success: false,
-            message: error.message || 'Server error updating inventory'
+            message: 'Server error fetching appointments'
         });
     }
 });
 
 /**
- * @route   POST /api/hospital/inventory/reduce
- * @desc    Reduce units from a blood group (when blood is used)
+ * @route   POST /api/hospital/appointments/:id/check-in
+ * @desc    Check in a donor who has arrived for today's appointment
  * @access  Hospital Staff
- * 
- * Body: { blood_group: "A+", units: 2 }
  */
-router.post('/inventory/reduce', async (req, res) => {
+router.post('/appointments/:id/check-in', async (req, res) => {
     try {
-        const { blood_group, units } = req.body;
-        const hospitalId = req.user._id;
+        const appointment = mongoose.isValidObjectId(req.params.id) &&
+            await Donation.findOne({ _id: req.params.id, hospital: req.hospitalId });
 
-        // Validate input
-        if (!blood_group || units === undefined) {
+        if (!appointment) {
+            return res.status(404).json({
+                success: false,
+                message: 'Appointment not found'
+            });
+        }
+
+        if (appointment.status !== 'scheduled') {
             return res.status(400).json({
                 success: false,
-                message: 'Blood group and units are required'
+                message: `Cannot check in an appointment that is ${appointment.status.replace('_', ' ')}`
             });
         }
 
-        const unitsToReduce = parseInt(units);
-        if (isNaN(unitsToReduce) || unitsToReduce <= 0) {
+        if (appointment.donationDate.toDateString() !== new Date().toDateString()) {
             return res.status(400).json({
                 success: false,
-                message: 'Units must be a positive number'
+                message: 'Donors can only be checked in on the day of their appointment'
             });
         }
 
-        console.log(`➖ Reducing ${unitsToReduce} units of ${blood_group}`);
+        appointment.status = 'checked_in';
+        appointment.checkedInAt = new Date();
+        appointment.collectedBy = req.user._id;
+        await appointment.save();
+
+        publishAppointmentChange(appointment, 'checked_in');
 
-        // Reduce units from inventory
-        const inventory = await BloodInventory.reduceUnits(hospitalId, blood_group, unitsToReduce);
+        console.log(`✅ ${appointment.donorName} checked in at hospital ${req.hospitalId}`);
+
+        await appointment.populate([
+            { path: 'donorId', select: 'name email phone' },
+            { path: 'slot', select: 'start_time end_time' }
+        ]);
 
         res.json({
             success: true,
-            message: `Reduced ${unitsToReduce} units of ${blood_group}. Remaining: ${inventory.units_available}`,
-            data: {
-                blood_group: inventory.blood_group,
-                units_available: inventory.units_available,
-                last_updated: inventory.last_updated,
-                is_low_stock: inventory.isLowStock()
-            }
+            message: `${appointment.donorName} checked in`,
+            data: { appointment: formatAppointment(appointment) }
         });
 
     } catch (error) {
-        console.error('❌ Error reducing inventory:', error);
-        res.status(400).json({
+        console.error('❌ Error checking in donor:', error);
+        res.status(500).json({
             success: false,
-            message: error.message || 'Server error reducing inventory'
+            message: 'Server error checking in donor'
         });
     }
 });
 
-// ============================================================================
-// DONOR REMINDER ROUTES
-// ============================================================================
-
 /**
- * Calculate if a donor is eligible to donate (3 months after last donation)
+ * @route   POST /api/hospital/donations
+ * @desc    Record a completed donation, receive its bags into stock and update the donor's stats
+ * @access  Hospital Staff
+ * 
+ * Body: {
+ *   appointment_id?,               // completes a booked appointment
+ *   donor_id? | donor_email?,      // walk-in donor (when no appointment)
+ *   units?: 1, component?: "whole_blood", collection_date?, batch_id?, storage_location?, notes?,
+ *   blood_request_id?              // request the donation answers (high/critical urgency earns a badge)
+ * }
  */
-const isDonorEligible = (lastDonationDate) => {
-    if (!lastDonationDate) return true; // Never donated = eligible
+router.post('/donations', async (req, res) => {
+    try {
+        const { appointment_id, component = DEFAULT_COMPONENT } = req.body;
+        const hospitalId = req.hospitalId;
 
-    const lastDonation = new Date(lastDonationDate);
-    const threeMonthsLater = new Date(lastDonation);
-    threeMonthsLater.setMonth(threeMonthsLater.getMonth() + 3);
+        if (rejectInvalidComponent(component, res)) return;
 
-    return new Date() >= threeMonthsLater;
-};
+        const units = parseInt(req.body.units ?? 1);
+        if (isNaN(units) || units <= 0) {
+            return res.status(400).json({
+                success: false,
+                message: 'Units must be a positive number'
+            });
+        }
 
-/**
- * Calculate eligible date (3 months after last donation)
- */
-const getEligibleDate = (lastDonationDate) => {
-    if (!lastDonationDate) return new Date(); // Already eligible
+        if (req.body.batch_id && units !== 1) {
+            return res.status(400).json({
+                success: false,
+                message: 'A batch ID can only be given for a single unit'
+            });
+        }
 
-    const lastDonation = new Date(lastDonationDate);
-    const eligibleDate = new Date(lastDonation);
-    eligibleDate.setMonth(eligibleDate.getMonth() + 3);
+        const collectionDate = req.body.collection_date ? new Date(req.body.collection_date) : new Date();
+        if (isNaN(collectionDate) || collectionDate > new Date()) {
+            return res.status(400).json({
+                success: false,
+                message: 'Collection date must be a valid date that is not in the future'
+            });
+        }
 
-    return eligibleDate;
-};
+        // Booked appointment, or a walk-in donor
+        let donation = null;
+        let donor;
+
+        if (appointment_id) {
+            donation = mongoose.isValidObjectId(appointment_id) && await Donation.findOne({
+                _id: appointment_id,
+                hospital: hospitalId,
+                status: { $in: ['scheduled', 'checked_in'] }
+            });
+
+            if (!donation) {
+                return res.status(404).json({
+                    success: false,
+                    message: 'Open appointment not found'
+                });
+            }
+            donor = await User.findOne({ _id: donation.donorId, role: 'donor' });
+        } else {
+            donor = await resolveDonor(req.body);
+        }
+
+        if (!donor) {
+            return res.status(donor === undefined ? 400 : 404).json({
+                success: false,
+                message: donor === undefined ? 'An appointment or donor is required' : 'Donor not found'
+            });
+        }
+
+        // Request the donor answered, routed to or served by this hospital
+        let bloodRequest = null;
+        if (req.body.blood_request_id) {
+            bloodRequest = mongoose.isValidObjectId(req.body.blood_request_id) && await BloodRequest.findOne({
+                _id: req.body.blood_request_id,
+                $or: [{ 'routedTo.hospital': hospitalId }, { servingHospital: hospitalId }]
+            });
+
+            if (!bloodRequest) {
+                return res.status(404).json({
+                    success: false,
+                    message: 'Blood request not found'
+                });
+            }
+        }
+
+        const bloodGroup = donor.profile?.bloodGroup;
+        if (!bloodGroup) {
+            return res.status(400).json({
+                success: false,
+                message: `${donor.name} has no blood group on their profile`
+            });
+        }
+
+        const eligibility = await evaluateEligibility(donor, { asOf: collectionDate });
+        if (!eligibility.eligible) {
+            return res.status(400).json({
+                success: false,
+                message: eligibility.eligibleFrom
+                    ? `${donor.name} is not eligible to donate until ${eligibility.eligibleFrom.toDateString()}`
+                    : `${donor.name} needs a review before donating: ${eligibility.reasons.map(reason => reason.message).join(' ')}`,
+                data: { eligibility: formatEligibility(eligibility) }
+            });
+        }
+
+        const hospital = await Hospital.findById(hospitalId).select('name');
+
+        // Claim the appointment before stock changes, so it is never recorded twice
+        const openStatus = donation?.status;
+        if (donation) {
+            donation = await Donation.findOneAndUpdate(
+                { _id: donation._id, status: { $in: ['scheduled', 'checked_in'] } },
+                { status: 'completed', completedAt: new Date() },
+                { new: true }
+            );
+
+            if (!donation) {
+                return res.status(409).json({
+                    success: false,
+                    message: 'This appointment has already been recorded'
+                });
+            }
+        }
+
+        // Receive the donated bags into stock, traced to the donor
+        const bagDetails = {
+            component,
+            donor_id: donor._id,
+            donor_name: donor.name,
+            collection_date: collectionDate,
+            storage_location: req.body.storage_location
+        };
+        let inventory;
+        try {
+            inventory = await BloodInventory.addUnits(hospitalId, bloodGroup, units, req.body.batch_id
+                ? { bags: [{ ...bagDetails, batch_id: req.body.batch_id }] }
+                : bagDetails
+            );
+        } catch (error) {
+            // Reopen the appointment so the donation can be recorded again
+            if (donation) {
+                await Donation.updateOne({ _id: donation._id }, { status: openStatus, $unset: { completedAt: 1 } });
+            }
+            throw error;
+        }
+        publishInventoryChange(hospitalId, [inventory]);
+
+        if (!donation) {
+            donation = new Donation({
+                donorId: donor._id,
+                donorName: donor.name,
+                hospital: hospitalId
+            });
+        }
+
+        donation.set({
+            bloodGroup,
+            units,
+            component,
+            donationDate: collectionDate,
+            location: hospital?.name || donation.location,
+            status: 'completed',
+            completedAt: new Date(),
+            collectedBy: req.user._id,
+            notes: req.body.notes?.trim() || donation.notes
+        });
+        if (bloodRequest) {
+            donation.set({
+                bloodRequest: bloodRequest._id,
+                emergency: EMERGENCY_URGENCIES.includes(bloodRequest.urgency)
+            });
+        }
+        await donation.save();
+
+        if (donation.slot) publishAppointmentChange(donation, 'completed');
+
+        const updatedDonor = await recomputeDonorStats(donor._id, { awardedBy: req.user._id });
+
+        console.log(`🩸 Recorded ${units} unit(s) of ${bloodGroup} from ${donor.name} at hospital ${hospitalId}`);
+
+        res.status(201).json({
+            success: true,
+            message: `Recorded ${units} unit${units !== 1 ? 's' : ''} of ${bloodGroup} ${getComponentLabel(component)} from ${donor.name}`,
+            data: {
+                donation: formatAppointment(donation),
+                donor_stats: formatDonorStats(updatedDonor),
+                units_available: inventory.units_available
+            }
+        });
+
+    } catch (error) {
+        sendStockError(res, error, 'Server error recording donation');
+    }
+});
+
+// ============================================================================
+// DONOR REMINDER ROUTES
+// ============================================================================
 
 /**
  * @route   GET /api/hospital/reminders
@@ -281,25 +1536,23 @@ const getEligibleDate = (lastDonationDate) => {
  */
 router.get('/reminders', async (req, res) => {
     try {
-        const hospitalId = req.user._id;
+        const senderIds = await getReminderSenderIds(req.hospitalId);
         console.log(`🔔 Fetching eligible donors for reminders`);
 
         // Find all donors (users with role 'donor')
         const donors = await User.find({ role: 'donor' })
-            .select('name email phone profile.bloodGroup profile.lastDonation');
+            .select(`name email phone profile.eligibleNext ${DONOR_ELIGIBILITY_FIELDS}`);
 
-        // Check each donor's eligibility
+        // Check each donor's eligibility (services/eligibility.js)
+        const eligibility = await evaluateDonors(donors);
         const eligibleDonors = [];
 
         for (const donor of donors) {
-            const lastDonation = donor.profile?.lastDonation;
-            const isEligible = isDonorEligible(lastDonation);
-
-            if (isEligible) {
+            if (eligibility.get(donor._id.toString()).eligible) {
                 // Check if reminder was already sent recently
                 const reminderSent = await Notification.wasReminderSentRecently(
                     donor._id,
-                    hospitalId,
+                    senderIds,
                     30 // Don't re-remind within 30 days
                 );
 
@@ -309,8 +1562,8 @@ router.get('/reminders', async (req, res) => {
                     email: donor.email,
                     phone: donor.phone,
                     blood_group: donor.profile?.bloodGroup || 'Unknown',
-                    last_donation: lastDonation,
-                    eligible_from: getEligibleDate(lastDonation),
+                    last_donation: donor.profile?.lastDonation,
+                    eligible_from: donor.profile?.eligibleNext || new Date(),
                     reminder_sent: reminderSent
                 });
             }
@@ -341,30 +1594,30 @@ router.get('/reminders', async (req, res) => {
  */
 router.post('/reminders/send', async (req, res) => {
     try {
-        const hospitalId = req.user._id;
+        const hospitalId = req.hospitalId;
         const hospitalName = req.user.profile?.hospitalName || req.user.name;
+        const senderIds = await getReminderSenderIds(hospitalId);
 
         console.log(`📧 Sending reminders from hospital: ${hospitalName}`);
 
         // Find eligible donors
         const donors = await User.find({ role: 'donor' })
-            .select('name email phone profile.bloodGroup profile.lastDonation');
+            .select(`name email phone notificationPreferences ${DONOR_ELIGIBILITY_FIELDS}`);
+        const eligibility = await evaluateDonors(donors);
 
         let sentCount = 0;
         let skippedCount = 0;
         const results = [];
 
         for (const donor of donors) {
-            const lastDonation = donor.profile?.lastDonation;
-
-            if (!isDonorEligible(lastDonation)) {
+            if (!eligibility.get(donor._id.toString()).eligible) {
                 continue; // Skip ineligible donors
             }
 
             // Check if reminder was sent recently
             const recentlyReminded = await Notification.wasReminderSentRecently(
                 donor._id,
-                hospitalId,
+                senderIds,
                 30
             );
 
@@ -376,25 +1629,22 @@ router.post('/reminders/send', async (req, res) => {
             // Create reminder message
             const message = `Hello ${donor.name}! You're eligible to donate blood again. Please visit ${hospitalName} to save a life. Your blood type ${donor.profile?.bloodGroup || ''} is needed!`;
 
-            // Create notification record
-            const notification = await Notification.create({
-                donor_id: donor._id,
-                hospital_id: hospitalId,
+            // Store and deliver on the donor's preferred channels
+            const notification = await dispatchNotification({
+                recipient: donor,
+                hospitalId,
+                senderModel: 'Hospital',
                 type: 'donation_reminder',
-                message: message,
-                delivery_method: 'console', // For now, just log
-                status: 'sent',
-                sent_at: new Date()
+                title: `Reminder from ${hospitalName}`,
+                message
             });
 
-            // Simulate sending (console.log for now)
-            console.log(`📨 REMINDER SENT to ${donor.name} (${donor.email}): ${message}`);
-
             sentCount++;
             results.push({
                 donor_name: donor.name,
                 email: donor.email,
-                status: 'sent'
+                channels: notification.deliveries.map(d => d.channel),
+                status: notification.status
             });
         }
 
@@ -429,7 +1679,7 @@ router.post('/reminders/send', async (req, res) => {
 router.post('/reminders/send-single', async (req, res) => {
     try {
         const { donor_id } = req.body;
-        const hospitalId = req.user._id;
+        const hospitalId = req.hospitalId;
         const hospitalName = req.user.profile?.hospitalName || req.user.name;
 
         if (!donor_id) {
@@ -449,28 +1699,36 @@ router.post('/reminders/send-single', async (req, res) => {
             });
         }
 
+        const eligibility = await evaluateEligibility(donor);
+        if (!eligibility.eligible) {
+            return res.status(400).json({
+                success: false,
+                message: `${donor.name} is not eligible to donate yet`,
+                data: { eligibility: formatEligibility(eligibility) }
+            });
+        }
+
         // Create reminder message
         const message = `Hello ${donor.name}! You're eligible to donate blood again. Please visit ${hospitalName} to save a life.`;
 
-        // Create notification record
-        await Notification.create({
-            donor_id: donor._id,
-            hospital_id: hospitalId,
+        // Store and deliver on the donor's preferred channels
+        const notification = await dispatchNotification({
+            recipient: donor,
+            hospitalId,
+            senderModel: 'Hospital',
             type: 'donation_reminder',
-            message: message,
-            delivery_method: 'console',
-            status: 'sent',
-            sent_at: new Date()
+            title: `Reminder from ${hospitalName}`,
+            message
         });
 
-        console.log(`📨 REMINDER SENT to ${donor.name}: ${message}`);
-
         res.json({
             success: true,
             message: `Reminder sent to ${donor.name}`,
             data: {
                 donor_name: donor.name,
-                email: donor.email
+                email: donor.email,
+                channels: notification.deliveries.map(d => d.channel),
+                status: notification.status
             }
         });
 
@@ -5,13 +5,150 @@
  * - /hospitals/search    : Search hospitals by location
  * - /hospitals/nearby    : Find hospitals near coordinates
  * - /hospitals           : List all hospitals
+ *
+ * availableBloodGroups is derived live from each hospital's blood inventory.
+ * Search and nearby results carry distanceKm, openNow and, when a patient
+ * blood group is given, compatibleUnits.
  */
 
 import express from 'express';
 import Hospital from '../models/Hospital.js';
+import BloodInventory from '../models/BloodInventory.js';
+import {
+    BLOOD_GROUPS,
+    BLOOD_PRODUCTS,
+    DEFAULT_PRODUCT,
+    matchAvailableGroups
+} from '../config/bloodCompatibility.js';
+import { geocode } from '../services/geocoding.js';
+import { isOpenAt } from '../services/appointments.js';
 
 const router = express.Router();
 
+// Radius around a geocoded search location (km)
+const SEARCH_RADIUS_KM = 25;
+
+// Orders for search and nearby results
+const SORT_OPTIONS = ['distance', 'stock', 'name'];
+
+const HOSPITAL_TYPES = Hospital.schema.path('type').enumValues;
+
+// "government,trust" → ['government', 'trust']
+const parseTypes = (type) => (type || '').split(',').map(t => t.trim().toLowerCase()).filter(Boolean);
+
+/**
+ * Validate the optional bloodGroup / product / type / sort query parameters
+ * @returns {String|null} - Error message, or null when valid
+ */
+const validateSearchQuery = ({ bloodGroup, product, type, sort }) => {
+    if (bloodGroup && !BLOOD_GROUPS.includes(bloodGroup)) {
+        return `Invalid blood group. Must be one of: ${BLOOD_GROUPS.join(', ')}`;
+    }
+    if (product && !BLOOD_PRODUCTS.includes(product)) {
+        return `Invalid product. Must be one of: ${BLOOD_PRODUCTS.join(', ')}`;
+    }
+    if (parseTypes(type).some(t => !HOSPITAL_TYPES.includes(t))) {
+        return `Invalid hospital type. Must be one of: ${HOSPITAL_TYPES.join(', ')}`;
+    }
+    if (sort && !SORT_OPTIONS.includes(sort)) {
+        return `Invalid sort. Must be one of: ${SORT_OPTIONS.join(', ')}`;
+    }
+    if (sort === 'stock' && !bloodGroup) {
+        return 'Sorting by stock needs a bloodGroup';
+    }
+    return null;
+};
+
+/**
+ * Build the hospital filter for the type query parameter
+ */
+const buildTypeFilter = (type) => {
+    const types = parseTypes(type);
+    return types.length > 0 ? { type: { $in: types } } : {};
+};
+
+/**
+ * Keep only hospitals holding the product in a group compatible with the patient and rank them
+ * Exact-group matches come first, then the best compatible group; the incoming
+ * order (e.g. distance) is preserved within each tier.
+ * @param {Array} hospitals - Formatted hospitals with compatibleUnits
+ * @param {String} bloodGroup - Patient blood group
+ * @param {String} product - Blood product
+ * @param {Map} productGroupsById - hospital id → blood groups in stock for the product
+ */
+const rankByCompatibility = (hospitals, bloodGroup, product, productGroupsById) => {
+    return hospitals
+        .filter(h => h.compatibleUnits > 0)
+        .map(h => {
+            const match = matchAvailableGroups(productGroupsById.get(h.id.toString()), bloodGroup, product);
+            return {
+                ...h,
+                matchingBloodGroups: match.matchingGroups,
+                exactMatch: match.exactMatch,
+                bestRank: match.bestRank
+            };
+        })
+        .filter(h => h.matchingBloodGroups.length > 0)
+        .sort((a, b) => a.bestRank - b.bestRank)
+        .map(({ bestRank, ...h }) => h);
+};
+
+/**
+ * Format hospitals for search results, then filter and order them
+ * Incoming hospitals are nearest first when they carry a distance. Ordering:
+ * - distance: nearest first (exact-group tiers first when bloodGroup is given)
+ * - stock: most compatible units first
+ * - name: alphabetical
+ * @param {Array} hospitals - Hospital documents or findNearbyWithDistance results
+ * @param {Object} query - { bloodGroup, product, sort, openNow }
+ */
+const buildSearchResults = async (hospitals, { bloodGroup, product = DEFAULT_PRODUCT, sort = 'distance', openNow }) => {
+    const ids = hospitals.map(h => h._id);
+    const groupsById = await BloodInventory.getAvailableGroupsByHospital(ids);
+    const unitsById = bloodGroup
+        ? await BloodInventory.getCompatibleUnitsByHospital(ids, bloodGroup, product)
+        : null;
+    const productGroupsById = bloodGroup
+        ? await BloodInventory.getAvailableGroupsByHospital(ids, product)
+        : null;
+    const now = new Date();
+
+    let results = hospitals.map(h => ({
+        id: h._id,
+        name: h.name,
+        address: h.address,
+        city: h.city,
+        state: h.state,
+        phone: h.phone,
+        email: h.email,
+        website: h.website,
+        type: h.type,
+        hasBloodBank: h.hasBloodBank,
+        availableBloodGroups: groupsById.get(h._id.toString()) || [],
+        is24x7: h.operatingHours?.is24x7,
+        operatingHours: h.operatingHours,
+        openNow: isOpenAt(h, now),
+        coordinates: h.location?.coordinates,
+        distanceKm: h.distance !== undefined ? Math.round(h.distance / 100) / 10 : null,
+        ...(unitsById && { compatibleUnits: unitsById.get(h._id.toString()) || 0 })
+    }));
+
+    if (openNow === 'true') {
+        results = results.filter(h => h.openNow);
+    }
+    if (bloodGroup) {
+        results = rankByCompatibility(results, bloodGroup, product, productGroupsById);
+    }
+    if (sort === 'stock') {
+        results.sort((a, b) => b.compatibleUnits - a.compatibleUnits);
+    }
+    if (sort === 'name') {
+        results.sort((a, b) => a.name.localeCompare(b.name));
+    }
+
+    return results;
+};
+
 // ============================================================================
 // HOSPITAL SEARCH ROUTES
 // ============================================================================
@@ -39,10 +176,17 @@ router.get('/', async (req, res) => {
             .limit(parseInt(limit))
             .sort({ name: 1 });
 
+        const groupsById = await BloodInventory.getAvailableGroupsByHospital(hospitals.map(h => h._id));
+
         res.json({
             success: true,
             count: hospitals.length,
-            data: { hospitals }
+            data: {
+                hospitals: hospitals.map(h => ({
+                    ...h.toObject(),
+                    availableBloodGroups: groupsById.get(h._id.toString()) || []
+                }))
+            }
         });
 
     } catch (error) {
@@ -56,17 +200,27 @@ router.get('/', async (req, res) => {
 
 /**
  * @route   GET /api/hospitals/search
- * @desc    Search hospitals by location (city, area, or address)
+ * @desc    Search hospitals by location (city, area, PIN code or address)
  * @access  Public
+ *
+ * Locations the geocoder can place return hospitals within 25 km with their
+ * distance from it; anything else falls back to matching city, address and
+ * state (distanceKm is then null).
  * 
  * Query parameters:
  * - location: Search term (city name, area, etc.)
+ * - bloodGroup: Patient blood group; only hospitals with compatible stock are
+ *   returned, exact matches first (optional)
+ * - product: red_cells | plasma | platelets | whole_blood (default red_cells)
+ * - type: Comma-separated hospital types, e.g. government,trust (optional)
+ * - openNow: true to keep only hospitals open right now (optional)
+ * - sort: distance (default) | stock (needs bloodGroup) | name
  * 
- * Example: /api/hospitals/search?location=delhi
+ * Example: /api/hospitals/search?location=delhi&bloodGroup=AB%2B&sort=stock
  */
 router.get('/search', async (req, res) => {
     try {
-        const { location } = req.query;
+        const { location, bloodGroup, type, sort = 'distance' } = req.query;
 
         if (!location) {
             return res.status(400).json({
@@ -75,27 +229,27 @@ router.get('/search', async (req, res) => {
             });
         }
 
+        const queryError = validateSearchQuery(req.query);
+        if (queryError) {
+            return res.status(400).json({
+                success: false,
+                message: queryError
+            });
+        }
+
         console.log(`🔍 Searching hospitals for location: "${location}"`);
 
-        // Search for hospitals matching the location
-        const hospitals = await Hospital.searchByLocation(location);
-
-        // Format the response
-        const formattedHospitals = hospitals.map(h => ({
-            id: h._id,
-            name: h.name,
-            address: h.address,
-            city: h.city,
-            state: h.state,
-            phone: h.phone,
-            email: h.email,
-            website: h.website,
-            type: h.type,
-            hasBloodBank: h.hasBloodBank,
-            availableBloodGroups: h.availableBloodGroups,
-            is24x7: h.operatingHours?.is24x7,
-            coordinates: h.location?.coordinates
-        }));
+        // Hospitals around the geocoded location, else a name match
+        const filter = buildTypeFilter(type);
+        const placed = await geocode({ text: location });
+        let hospitals = placed
+            ? await Hospital.findNearbyWithDistance(placed.coordinates[0], placed.coordinates[1], SEARCH_RADIUS_KM, filter)
+            : [];
+        if (hospitals.length === 0) {
+            hospitals = await Hospital.searchByLocation(location, filter);
+        }
+
+        const formattedHospitals = await buildSearchResults(hospitals, { ...req.query, sort });
 
         console.log(`✅ Found ${formattedHospitals.length} hospitals in "${location}"`);
 
@@ -103,6 +257,9 @@ router.get('/search', async (req, res) => {
             success: true,
             message: `Found ${formattedHospitals.length} hospitals in or near "${location}"`,
             searchedLocation: location,
+            searchedCoordinates: placed?.coordinates || null,
+            bloodGroup: bloodGroup || null,
+            sort,
             count: formattedHospitals.length,
             data: { hospitals: formattedHospitals }
         });
@@ -125,12 +282,18 @@ router.get('/search', async (req, res) => {
  * - lat: Latitude
  * - lng: Longitude
  * - radius: Search radius in km (default 10)
+ * - bloodGroup: Patient blood group; only hospitals with compatible stock are
+ *   returned, exact matches first and nearest first within a tier (optional)
+ * - product: red_cells | plasma | platelets | whole_blood (default red_cells)
+ * - type: Comma-separated hospital types (optional)
+ * - openNow: true to keep only hospitals open right now (optional)
+ * - sort: distance (default) | stock (needs bloodGroup) | name
  * 
  * Example: /api/hospitals/nearby?lat=28.6139&lng=77.2090&radius=5
  */
 router.get('/nearby', async (req, res) => {
     try {
-        const { lat, lng, radius = 10 } = req.query;
+        const { lat, lng, radius = 10, bloodGroup, type, sort = 'distance' } = req.query;
 
         if (!lat || !lng) {
             return res.status(400).json({
@@ -139,27 +302,23 @@ router.get('/nearby', async (req, res) => {
             });
         }
 
+        const queryError = validateSearchQuery(req.query);
+        if (queryError) {
+            return res.status(400).json({
+                success: false,
+                message: queryError
+            });
+        }
+
         const latitude = parseFloat(lat);
         const longitude = parseFloat(lng);
         const maxDistance = parseFloat(radius);
 
         console.log(`📍 Searching hospitals near [${latitude}, ${longitude}] within ${maxDistance}km`);
 
-        // Find hospitals near the coordinates
-        const hospitals = await Hospital.findNearby(longitude, latitude, maxDistance);
-
-        // Format the response with distance info
-        const formattedHospitals = hospitals.map(h => ({
-            id: h._id,
-            name: h.name,
-            address: h.address,
-            city: h.city,
-            phone: h.phone,
-            type: h.type,
-            hasBloodBank: h.hasBloodBank,
-            availableBloodGroups: h.availableBloodGroups,
-            coordinates: h.location?.coordinates
-        }));
+        // Find hospitals near the coordinates, nearest first with their distance
+        const hospitals = await Hospital.findNearbyWithDistance(longitude, latitude, maxDistance, buildTypeFilter(type));
+        const formattedHospitals = await buildSearchResults(hospitals, { ...req.query, sort });
 
         console.log(`✅ Found ${formattedHospitals.length} hospitals nearby`);
 
@@ -167,6 +326,8 @@ router.get('/nearby', async (req, res) => {
             success: true,
             message: `Found ${formattedHospitals.length} hospitals within ${maxDistance}km`,
             searchedLocation: { latitude, longitude, radiusKm: maxDistance },
+            bloodGroup: bloodGroup || null,
+            sort,
             count: formattedHospitals.length,
             data: { hospitals: formattedHospitals }
         });
@@ -0,0 +1,130 @@
+/**
+ * RaktSetu - Notification Center Routes
+ *
+ * In-app inbox of the notifications a user has received (reminders,
+ * blood request appeals), with read tracking.
+ */
+
+import express from 'express';
+import mongoose from 'mongoose';
+import Notification from '../models/Notification.js';
+import { protect } from '../middleware/auth.js';
+
+const router = express.Router();
+
+router.use(protect);
+
+// Format a notification for the inbox
+const formatNotification = (notification) => ({
+    id: notification._id,
+    type: notification.type,
+    title: notification.title || null,
+    message: notification.message,
+    link: notification.link || null,
+    hospital_name: notification.hospital_id?.profile?.hospitalName || notification.hospital_id?.name || null,
+    is_read: notification.is_read,
+    read_at: notification.read_at || null,
+    created_at: notification.createdAt
+});
+
+// @route   GET /api/notifications
+// @desc    Get the logged-in user's notifications, newest first
+// @access  Private
+//
+// Query parameters:
+// - unread: 'true' to return unread notifications only
+// - limit: Number of results (default 20, max 100)
+router.get('/', async (req, res) => {
+    try {
+        const limit = Math.min(parseInt(req.query.limit) || 20, 100);
+
+        const [notifications, unreadCount] = await Promise.all([
+            Notification.getDonorNotifications(req.user._id, limit, { unreadOnly: req.query.unread === 'true' }),
+            Notification.countUnread(req.user._id)
+        ]);
+
+        res.json({
+            success: true,
+            count: notifications.length,
+            data: {
+                notifications: notifications.map(formatNotification),
+                unread_count: unreadCount
+            }
+        });
+    } catch (error) {
+        console.error('Get notifications error:', error);
+        res.status(500).json({
+            success: false,
+            message: 'Server error'
+        });
+    }
+});
+
+// @route   PUT /api/notifications/read-all
+// @desc    Mark every notification of the logged-in user as read
+// @access  Private
+router.put('/read-all', async (req, res) => {
+    try {
+        const result = await Notification.updateMany(
+            { donor_id: req.user._id, is_read: false },
+            { is_read: true, read_at: new Date() }
+        );
+
+        res.json({
+            success: true,
+            message: `Marked ${result.modifiedCount} notifications as read`,
+            data: { updated: result.modifiedCount, unread_count: 0 }
+        });
+    } catch (error) {
+        console.error('Mark all notifications read error:', error);
+        res.status(500).json({
+            success: false,
+            message: 'Server error'
+        });
+    }
+});
+
+// @route   PUT /api/notifications/:id/read
+// @desc    Mark one notification as read
+// @access  Private (recipient only)
+router.put('/:id/read', async (req, res) => {
+    try {
+        if (!mongoose.isValidObjectId(req.params.id)) {
+            return res.status(404).json({
+                success: false,
+                message: 'Notification not found'
+            });
+        }
+
+        const notification = await Notification.findOneAndUpdate(
+            { _id: req.params.id, donor_id: req.user._id },
+            { is_read: true, read_at: new Date() },
+            { new: true }
+        ).populate('hospital_id', 'name profile.hospitalName');
+
+        if (!notification) {
+            return res.status(404).json({
+                success: false,
+                message: 'Notification not found'
+            });
+        }
+
+        const unreadCount = await Notification.countUnread(req.user._id);
+
+        res.json({
+            success: true,
+            data: {
+                notification: formatNotification(notification),
+                unread_count: unreadCount
+            }
+        });
+    } catch (error) {
+        console.error('Mark notification read error:', error);
+        res.status(500).json({
+            success: false,
+            message: 'Server error'
+        });
+    }
+});
+
+export default router;
@@ -13,7 +13,15 @@
 import express from 'express';
 import User from '../models/User.js';
 import Hospital from '../models/Hospital.js';
-import { generateToken } from '../middleware/auth.js';
+import BloodInventory from '../models/BloodInventory.js';
+import { startSession } from '../services/sessions.js';
+import { linkStaffAccount } from '../services/hospitalAccounts.js';
+import { publishUserChange } from '../services/realtime.js';
+import { locateUser } from '../services/geocoding.js';
+import { sendEmailVerification } from '../services/accountTokens.js';
+
+// Radius for the hospitals suggested to a new seeker (km)
+const SEEKER_HOSPITAL_RADIUS_KM = 25;
 
 const router = express.Router();
 
@@ -33,11 +41,14 @@ const validateRequiredFields = (data, requiredFields) => {
 
 /**
  * Helper function to create a user with a specific role
- * @param {Object} userData - User data from request
+ * Also signs the new user in on this device.
+ * @param {Object} req - Request (user data in the body)
+ * @param {Object} res - Response (refresh cookie)
  * @param {String} role - User role (donor, hospital, seeker)
  * @returns {Object} - Created user or error
  */
-const createUserWithRole = async (userData, role) => {
+const createUserWithRole = async (req, res, role) => {
+    const userData = req.body;
     const { name, email, password, contact, location, blood_group } = userData;
 
     // Check if user already exists
@@ -76,11 +87,24 @@ const createUserWithRole = async (userData, role) => {
         };
     }
 
-    // Create the user
-    const user = await User.create(userObj);
+    // Create the user, located from latitude/longitude when sent, else from location
+    const user = new User(userObj);
+    await locateUser(user, userData);
+    await user.save();
+
+    // Hospital staff share stock with the hospital's directory record
+    if (role === 'hospital') {
+        await linkStaffAccount(user, userData);
+    }
+    publishUserChange(user, 'created');
+
+    // Ask the user to confirm their email; they can resend the link if this fails
+    sendEmailVerification(user).catch(error => {
+        console.error('⚠️ Failed to send verification email:', error.message);
+    });
 
-    // Generate authentication token
-    const token = generateToken(user._id);
+    // Sign in on this device (refresh cookie + access token)
+    const { token, tokenExpiresAt } = await startSession(req, res, user);
 
     return {
         success: true,
@@ -90,11 +114,16 @@ const createUserWithRole = async (userData, role) => {
             email: user.email,
             phone: user.phone,
             location: user.location,
+            coordinates: user.coordinates,
             role: user.role,
+            verified: user.verified,
+            phoneVerified: user.phoneVerified,
             profile: user.profile,
+            hospital: user.hospital,
             createdAt: user.createdAt
         },
-        token
+        token,
+        tokenExpiresAt
     };
 };
 
@@ -114,6 +143,10 @@ const createUserWithRole = async (userData, role) => {
  * - contact: Phone number
  * - location: City/Area
  * - blood_group: Blood type (A+, A-, B+, B-, AB+, AB-, O+, O-)
+
+ *
+ * Optional fields:
+ * - latitude, longitude: Browser location (otherwise geocoded from location)
  */
 router.post('/register-donor', async (req, res) => {
     try {
@@ -141,7 +174,7 @@ router.post('/register-donor', async (req, res) => {
 
         // Create donor user with quiz data if provided
         const { quiz_result } = req.body;
-        const result = await createUserWithRole(req.body, 'donor');
+        const result = await createUserWithRole(req, res, 'donor');
 
         if (!result.success) {
             return res.status(result.status || 400).json({
@@ -204,6 +237,8 @@ router.post('/register-donor', async (req, res) => {
  * Optional fields:
  * - hospital_name: Name of the hospital
  * - contact_person: Contact person name
+ * - city, state, pincode, latitude, longitude: Used when the hospital is not
+ *   yet in the directory (matched by email) and a new record is created
  */
 router.post('/register-hospital', async (req, res) => {
     try {
@@ -221,7 +256,7 @@ router.post('/register-hospital', async (req, res) => {
         }
 
         // Create hospital staff user
-        const result = await createUserWithRole(req.body, 'hospital');
+        const result = await createUserWithRole(req, res, 'hospital');
 
         if (!result.success) {
             return res.status(result.status || 400).json({
@@ -260,6 +295,10 @@ router.post('/register-hospital', async (req, res) => {
  * - contact: Phone number
  * - location: City/Area
  * - blood_group: Required blood type (A+, A-, B+, B-, AB+, AB-, O+, O-)
+
+ *
+ * Optional fields:
+ * - latitude, longitude: Browser location (otherwise geocoded from location)
  */
 router.post('/register-seeker', async (req, res) => {
     try {
@@ -286,7 +325,7 @@ router.post('/register-seeker', async (req, res) => {
         }
 
         // Create seeker user
-        const result = await createUserWithRole(req.body, 'seeker');
+        const result = await createUserWithRole(req, res, 'seeker');
 
         if (!result.success) {
             return res.status(result.status || 400).json({
@@ -305,8 +344,15 @@ router.post('/register-seeker', async (req, res) => {
 
         let nearbyHospitals = [];
         try {
-            // Search for hospitals matching the seeker's location
-            const hospitals = await Hospital.searchByLocation(seekerLocation);
+            // Nearest hospitals when the location could be placed, else a name match
+            const coordinates = result.user.coordinates;
+            let hospitals = coordinates
+                ? await Hospital.findNearby(coordinates[0], coordinates[1], SEEKER_HOSPITAL_RADIUS_KM)
+                : [];
+            if (hospitals.length === 0) {
+                hospitals = await Hospital.searchByLocation(seekerLocation);
+            }
+            const groupsById = await BloodInventory.getAvailableGroupsByHospital(hospitals.map(h => h._id));
 
             // Format hospital data for response
             nearbyHospitals = hospitals.map(h => ({
@@ -320,7 +366,7 @@ router.post('/register-seeker', async (req, res) => {
                 website: h.website,
                 type: h.type,
                 hasBloodBank: h.hasBloodBank,
-                availableBloodGroups: h.availableBloodGroups,
+                availableBloodGroups: groupsById.get(h._id.toString()) || [],
                 is24x7: h.operatingHours?.is24x7,
                 // Include distance if available
                 coordinates: h.location?.coordinates
@@ -1,18 +1,17 @@
 import express from 'express';
-import upload from '../middleware/upload.js';
+import { uploadProfilePhoto } from '../middleware/upload.js';
 import { protect } from '../middleware/auth.js';
 import User from '../models/User.js';
-import fs from 'fs';
-import path from 'path';
+import { saveProfilePhoto, getAvatarUrls } from '../services/profilePhotos.js';
 
 const router = express.Router();
 
 /**
  * @route   POST /api/users/profile-photo
- * @desc    Upload user profile photo
+ * @desc    Upload user profile photo (resized to avatar sizes; the old photo is deleted)
  * @access  Private
  */
-router.post('/profile-photo', protect, upload.single('profileDetail'), async (req, res) => {
+router.post('/profile-photo', protect, uploadProfilePhoto, async (req, res) => {
     try {
         if (!req.file) {
             return res.status(400).json({
@@ -21,33 +20,28 @@ router.post('/profile-photo', protect, upload.single('profileDetail'), async (re
             });
         }
 
-        const userId = req.user._id;
-        const fileUrl = `/uploads/${req.file.filename}`;
-
-        // Get current user to check for old photo
-        const currentUser = await User.findById(userId);
-
-        // Delete old photo if exists and isn't a default/external one
-        if (currentUser.profilePicture && currentUser.profilePicture.startsWith('/uploads/')) {
-            const oldPath = path.join(process.cwd(), currentUser.profilePicture);
-            if (fs.existsSync(oldPath)) {
-                fs.unlinkSync(oldPath);
+        const user = await User.findById(req.user._id).select('-password');
+
+        try {
+            await saveProfilePhoto(user, req.file.buffer);
+        } catch (imageError) {
+            // Passed the type check but sharp could not decode it
+            if (imageError.message?.includes('Input')) {
+                return res.status(400).json({
+                    success: false,
+                    message: 'The image could not be read. Please try another photo.'
+                });
             }
+            throw imageError;
         }
 
-        // Update user profile with new photo URL
-        const user = await User.findByIdAndUpdate(
-            userId,
-            { profilePicture: fileUrl },
-            { new: true }
-        ).select('-password');
-
         res.json({
             success: true,
             message: 'Profile photo uploaded successfully',
             data: {
                 user,
-                fileUrl
+                fileUrl: user.profilePicture,
+                sizes: getAvatarUrls(user)
             }
         });
 
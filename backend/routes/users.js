@@ -1,9 +1,24 @@
 import express from 'express';
 import User from '../models/User.js';
 import { protect } from '../middleware/auth.js';
+import { resolveLocation } from '../services/geocoding.js';
 
 const router = express.Router();
 
+// Profile fields users cannot set themselves
+const DERIVED_PROFILE_FIELDS = [
+    'totalDonations',
+    'donationsThisYear',
+    'lastDonation',
+    'eligibleNext',
+    'achievementBadge',
+    'streak',
+    'badges',
+    'donationHistory',
+    'quizResult',
+    'deferrals'
+];
+
 // @route   GET /api/users/profile
 // @desc    Get user profile
 // @access  Private
@@ -25,11 +40,11 @@ router.get('/profile', protect, async (req, res) => {
 });
 
 // @route   PUT /api/users/profile
-// @desc    Update user profile
+// @desc    Update user profile (location is re-geocoded unless latitude/longitude are sent)
 // @access  Private
 router.put('/profile', protect, async (req, res) => {
     try {
-        const allowedUpdates = ['name', 'phone', 'profile'];
+        const allowedUpdates = ['name', 'phone', 'location', 'profile'];
         const updates = {};
 
         // Filter only allowed fields
@@ -39,10 +54,37 @@ router.put('/profile', protect, async (req, res) => {
             }
         });
 
+        // A new number has to be verified again
+        if (updates.phone !== undefined && updates.phone !== req.user.phone) {
+            updates.phoneVerified = false;
+            updates.phoneVerifiedAt = null;
+        }
+
         // Handle nested profile updates
         if (req.body.profile) {
             const existingProfile = req.user.profile || {};
-            updates.profile = { ...existingProfile, ...req.body.profile };
+            const profileUpdates = { ...req.body.profile };
+
+            // Donation stats are derived from recorded donations (services/donorStats.js)
+            DERIVED_PROFILE_FIELDS.forEach(field => delete profileUpdates[field]);
+
+            updates.profile = { ...existingProfile, ...profileUpdates };
+        }
+
+        // Place the user again when they move or share their browser location
+        const { latitude, longitude } = req.body;
+        if (updates.location !== undefined || (latitude !== undefined && longitude !== undefined)) {
+            const placed = await resolveLocation({
+                latitude,
+                longitude,
+                text: updates.location ?? req.user.location
+            });
+            if (placed) {
+                updates.coordinates = placed.coordinates;
+                updates.locationPrecision = placed.precision;
+            } else {
+                updates.$unset = { coordinates: 1, locationPrecision: 1 };
+            }
         }
 
         const user = await User.findByIdAndUpdate(
@@ -65,4 +107,71 @@ router.put('/profile', protect, async (req, res) => {
     }
 });
 
+// @route   GET /api/users/notification-preferences
+// @desc    Get the channels the user receives notifications on
+// @access  Private
+router.get('/notification-preferences', protect, async (req, res) => {
+    res.json({
+        success: true,
+        data: { preferences: req.user.notificationPreferences }
+    });
+});
+
+// @route   PUT /api/users/notification-preferences
+// @desc    Turn notification channels (email, sms, app) on or off
+// @access  Private
+router.put('/notification-preferences', protect, async (req, res) => {
+    try {
+        const channels = ['email', 'sms', 'app'];
+        const preferences = { ...req.user.toObject().notificationPreferences };
+        const updates = {};
+
+        for (const channel of channels) {
+            if (req.body[channel] === undefined) continue;
+
+            if (typeof req.body[channel] !== 'boolean') {
+                return res.status(400).json({
+                    success: false,
+                    message: `${channel} must be true or false`
+                });
+            }
+            preferences[channel] = req.body[channel];
+            updates[`notificationPreferences.${channel}`] = req.body[channel];
+        }
+
+        // SMS alerts need a number the user has confirmed
+        if (req.body.sms === true && !req.user.phoneVerified) {
+            return res.status(400).json({
+                success: false,
+                message: 'Verify your phone number before turning on SMS notifications'
+            });
+        }
+
+        if (!channels.some(channel => preferences[channel])) {
+            return res.status(400).json({
+                success: false,
+                message: 'Keep at least one notification channel on'
+            });
+        }
+
+        const user = await User.findByIdAndUpdate(
+            req.user._id,
+            { $set: updates },
+            { new: true, runValidators: true }
+        );
+
+        res.json({
+            success: true,
+            message: 'Notification preferences updated',
+            data: { preferences: user.notificationPreferences }
+        });
+    } catch (error) {
+        console.error('Update notification preferences error:', error);
+        res.status(500).json({
+            success: false,
+            message: 'Server error'
+        });
+    }
+});
+
 export default router;
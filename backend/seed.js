@@ -48,7 +48,6 @@ const HOSPITALS_DATA = [
         location: { type: 'Point', coordinates: [77.2090, 28.5672] },
         type: 'government',
         hasBloodBank: true,
-        availableBloodGroups: ['A+', 'A-', 'B+', 'B-', 'AB+', 'AB-', 'O+', 'O-'],
         operatingHours: { is24x7: true }
     },
     {
@@ -62,7 +61,6 @@ const HOSPITALS_DATA = [
         location: { type: 'Point', coordinates: [77.2023, 28.5679] },
         type: 'government',
         hasBloodBank: true,
-        availableBloodGroups: ['A+', 'B+', 'O+', 'O-', 'AB+'],
         operatingHours: { is24x7: true }
     },
     {
@@ -77,7 +75,6 @@ const HOSPITALS_DATA = [
         location: { type: 'Point', coordinates: [77.1855, 28.6411] },
         type: 'private',
         hasBloodBank: true,
-        availableBloodGroups: ['A+', 'A-', 'B+', 'B-', 'O+', 'O-'],
         operatingHours: { is24x7: true }
     },
     {
@@ -92,7 +89,6 @@ const HOSPITALS_DATA = [
         location: { type: 'Point', coordinates: [77.2177, 28.5274] },
         type: 'private',
         hasBloodBank: true,
-        availableBloodGroups: ['A+', 'B+', 'AB+', 'O+'],
         operatingHours: { is24x7: true }
     },
 
@@ -109,7 +105,6 @@ const HOSPITALS_DATA = [
         location: { type: 'Point', coordinates: [72.8425, 19.0048] },
         type: 'government',
         hasBloodBank: true,
-        availableBloodGroups: ['A+', 'A-', 'B+', 'B-', 'AB+', 'AB-', 'O+', 'O-'],
         operatingHours: { is24x7: true }
     },
     {
@@ -124,7 +119,6 @@ const HOSPITALS_DATA = [
         location: { type: 'Point', coordinates: [72.8296, 19.0509] },
         type: 'private',
         hasBloodBank: true,
-        availableBloodGroups: ['A+', 'B+', 'O+', 'AB+'],
         operatingHours: { is24x7: true }
     },
     {
@@ -138,7 +132,6 @@ const HOSPITALS_DATA = [
         location: { type: 'Point', coordinates: [72.8423, 19.0011] },
         type: 'government',
         hasBloodBank: true,
-        availableBloodGroups: ['A+', 'A-', 'B+', 'O+', 'O-'],
         operatingHours: { is24x7: true }
     },
 
@@ -155,7 +148,6 @@ const HOSPITALS_DATA = [
         location: { type: 'Point', coordinates: [77.6480, 12.9584] },
         type: 'private',
         hasBloodBank: true,
-        availableBloodGroups: ['A+', 'A-', 'B+', 'B-', 'O+', 'O-'],
         operatingHours: { is24x7: true }
     },
     {
@@ -170,7 +162,6 @@ const HOSPITALS_DATA = [
         location: { type: 'Point', coordinates: [77.6244, 12.9279] },
         type: 'trust',
         hasBloodBank: true,
-        availableBloodGroups: ['A+', 'B+', 'AB+', 'O+'],
         operatingHours: { is24x7: true }
     },
 
@@ -187,7 +178,6 @@ const HOSPITALS_DATA = [
         location: { type: 'Point', coordinates: [80.2510, 13.0569] },
         type: 'private',
         hasBloodBank: true,
-        availableBloodGroups: ['A+', 'A-', 'B+', 'B-', 'AB+', 'O+', 'O-'],
         operatingHours: { is24x7: true }
     },
     {
@@ -201,7 +191,6 @@ const HOSPITALS_DATA = [
         location: { type: 'Point', coordinates: [80.2764, 13.0827] },
         type: 'government',
         hasBloodBank: true,
-        availableBloodGroups: ['A+', 'B+', 'O+', 'O-', 'AB+'],
         operatingHours: { is24x7: true }
     },
 
@@ -217,7 +206,6 @@ const HOSPITALS_DATA = [
         location: { type: 'Point', coordinates: [88.3486, 22.5405] },
         type: 'government',
         hasBloodBank: true,
-        availableBloodGroups: ['A+', 'A-', 'B+', 'B-', 'O+', 'O-'],
         operatingHours: { is24x7: true }
     },
     {
@@ -232,7 +220,6 @@ const HOSPITALS_DATA = [
         location: { type: 'Point', coordinates: [88.3959, 22.5175] },
         type: 'private',
         hasBloodBank: true,
-        availableBloodGroups: ['A+', 'B+', 'O+', 'AB+'],
         operatingHours: { is24x7: true }
     },
 
@@ -249,7 +236,6 @@ const HOSPITALS_DATA = [
         location: { type: 'Point', coordinates: [78.4487, 17.4189] },
         type: 'government',
         hasBloodBank: true,
-        availableBloodGroups: ['A+', 'A-', 'B+', 'B-', 'AB+', 'O+', 'O-'],
         operatingHours: { is24x7: true }
     },
     {
@@ -264,7 +250,6 @@ const HOSPITALS_DATA = [
         location: { type: 'Point', coordinates: [78.4604, 17.4258] },
         type: 'private',
         hasBloodBank: true,
-        availableBloodGroups: ['A+', 'B+', 'O+'],
         operatingHours: { is24x7: true }
     }
 ];
@@ -299,7 +284,6 @@ const hospitalSchema = new mongoose.Schema({
     },
     type: { type: String, enum: ['government', 'private', 'trust', 'clinic'] },
     hasBloodBank: { type: Boolean, default: true },
-    availableBloodGroups: [String],
     operatingHours: { is24x7: Boolean },
     isActive: { type: Boolean, default: true },
     verified: { type: Boolean, default: true }
@@ -0,0 +1,296 @@
+/**
+ * Account Tokens
+ *
+ * Proving a user controls their email address or phone number, and resetting
+ * a forgotten password:
+ * - email verification: a link to APP_URL/verify-email, valid for
+ *   EMAIL_VERIFICATION_HOURS; using it marks the account verified
+ * - phone verification: a 6 digit code by SMS, valid for PHONE_CODE_MINUTES
+ *   and PHONE_CODE_MAX_ATTEMPTS guesses
+ * - password reset: a link to APP_URL/reset-password, valid for
+ *   PASSWORD_RESET_MINUTES; using it signs the account out everywhere
+ *
+ * Every token is single use, and asking for a new one replaces the old one.
+ * Messages go out through the mailer (services/mailer.js).
+ */
+
+import crypto from 'crypto';
+import AccountToken from '../models/AccountToken.js';
+import Session from '../models/Session.js';
+import User from '../models/User.js';
+import { sendAccountMessage } from './mailer.js';
+
+// Defaults
+const DEFAULT_APP_URL = 'http://localhost:5173';
+const DEFAULT_EMAIL_VERIFICATION_HOURS = 24;
+const DEFAULT_PASSWORD_RESET_MINUTES = 30;
+const DEFAULT_PHONE_CODE_MINUTES = 10;
+const DEFAULT_PHONE_CODE_MAX_ATTEMPTS = 5;
+
+// Shortest wait before the same kind of token can be sent again
+const RESEND_COOLDOWN_SECONDS = 60;
+
+/**
+ * Raised when a token cannot be sent or used
+ */
+export class AccountTokenError extends Error {
+    constructor(message, status = 400) {
+        super(message);
+        this.status = status;
+    }
+}
+
+const hashToken = (secret) => crypto.createHash('sha256').update(secret).digest('hex');
+
+const newLinkToken = () => crypto.randomBytes(32).toString('base64url');
+
+const newPhoneCode = () => crypto.randomInt(0, 1000000).toString().padStart(6, '0');
+
+const getAppUrl = () => (process.env.APP_URL || DEFAULT_APP_URL).replace(/\/+$/, '');
+
+const getSetting = (name, fallback) => parseInt(process.env[name]) || fallback;
+
+/**
+ * Store a new token for a purpose, replacing any unused one, and send it
+ * @param {Object} user - User document
+ * @param {String} purpose - One of TOKEN_PURPOSES
+ * @param {Object} options - { secret, sentTo, lifetimeMinutes, message(expiresAt) }
+ * @throws {AccountTokenError} - One was sent less than RESEND_COOLDOWN_SECONDS ago
+ */
+const issueToken = async (user, purpose, { secret, sentTo, lifetimeMinutes, message }) => {
+    const latest = await AccountToken.findOne({ user: user._id, purpose, usedAt: null }).sort({ createdAt: -1 });
+    const waitSeconds = latest
+        ? Math.ceil(RESEND_COOLDOWN_SECONDS - (Date.now() - latest.createdAt.getTime()) / 1000)
+        : 0;
+    if (waitSeconds > 0) {
+        throw new AccountTokenError(`Please wait ${waitSeconds} seconds before asking again`, 429);
+    }
+
+    await AccountToken.deleteMany({ user: user._id, purpose, usedAt: null });
+    const token = await AccountToken.create({
+        user: user._id,
+        purpose,
+        tokenHash: hashToken(secret),
+        sentTo,
+        expiresAt: new Date(Date.now() + lifetimeMinutes * 60 * 1000)
+    });
+
+    try {
+        await sendAccountMessage({ to: user, ...message(token.expiresAt) });
+    } catch (error) {
+        // Nothing reached the user, so let them ask again straight away
+        await AccountToken.deleteOne({ _id: token._id });
+        throw error;
+    }
+};
+
+/**
+ * Use a link token: only the first request for an unexpired token gets it
+ * @returns {Object|null} - The token, or null when it is unknown, used or expired
+ */
+const claimLinkToken = (purpose, secret) => {
+    if (typeof secret !== 'string' || !secret) return null;
+
+    return AccountToken.findOneAndUpdate(
+        { tokenHash: hashToken(secret), purpose, usedAt: null, expiresAt: { $gt: new Date() } },
+        { usedAt: new Date() },
+        { new: true }
+    );
+};
+
+// ---------------------------------------------------------------------------
+// Email verification
+// ---------------------------------------------------------------------------
+
+/**
+ * Email a verification link to the user
+ * @throws {AccountTokenError} - Already verified, or asked again too soon
+ */
+export const sendEmailVerification = async (user) => {
+    if (user.verified) {
+        throw new AccountTokenError('Your email address is already verified');
+    }
+
+    const secret = newLinkToken();
+    const hours = getSetting('EMAIL_VERIFICATION_HOURS', DEFAULT_EMAIL_VERIFICATION_HOURS);
+
+    await issueToken(user, 'email_verification', {
+        secret,
+        sentTo: user.email,
+        lifetimeMinutes: hours * 60,
+        message: () => ({
+            channel: 'email',
+            subject: 'Verify your RaktSetu email address',
+            text: [
+                `Hi ${user.name},`,
+                '',
+                'Please confirm this is your email address by opening the link below:',
+                `${getAppUrl()}/verify-email?token=${secret}`,
+                '',
+                `The link expires in ${hours} hours. If you did not create a RaktSetu account, you can ignore this email.`
+            ].join('\n')
+        })
+    });
+};
+
+/**
+ * Verify an email address with the token from its link
+ * @returns {Object} - Updated user
+ * @throws {AccountTokenError} - Unknown, used or expired link
+ */
+export const verifyEmail = async (secret) => {
+    const token = await claimLinkToken('email_verification', secret);
+    const user = token && await User.findOneAndUpdate(
+        { _id: token.user, email: token.sentTo },
+        { verified: true, emailVerifiedAt: new Date() },
+        { new: true }
+    );
+
+    if (!user) {
+        throw new AccountTokenError('This verification link is invalid or has expired');
+    }
+    return user;
+};
+
+// ---------------------------------------------------------------------------
+// Phone verification
+// ---------------------------------------------------------------------------
+
+/**
+ * Text a verification code to the user's phone
+ * @throws {AccountTokenError} - Already verified, or asked again too soon
+ */
+export const sendPhoneCode = async (user) => {
+    if (user.phoneVerified) {
+        throw new AccountTokenError('Your phone number is already verified');
+    }
+
+    const code = newPhoneCode();
+    const minutes = getSetting('PHONE_CODE_MINUTES', DEFAULT_PHONE_CODE_MINUTES);
+
+    await issueToken(user, 'phone_verification', {
+        secret: code,
+        sentTo: user.phone,
+        lifetimeMinutes: minutes,
+        message: () => ({
+            channel: 'sms',
+            subject: 'RaktSetu verification code',
+            text: `${code} is your RaktSetu verification code. It expires in ${minutes} minutes. Do not share it with anyone.`
+        })
+    });
+};
+
+/**
+ * Verify the user's phone number with the code sent to it
+ * @returns {Object} - Updated user
+ * @throws {AccountTokenError} - Wrong, used or expired code
+ */
+export const verifyPhoneCode = async (user, code) => {
+    const maxAttempts = getSetting('PHONE_CODE_MAX_ATTEMPTS', DEFAULT_PHONE_CODE_MAX_ATTEMPTS);
+
+    // Count the guess before checking it, so parallel guesses cannot exceed the limit
+    const token = await AccountToken.findOneAndUpdate(
+        {
+            user: user._id,
+            purpose: 'phone_verification',
+            usedAt: null,
+            expiresAt: { $gt: new Date() },
+            attempts: { $lt: maxAttempts }
+        },
+        { $inc: { attempts: 1 } },
+        { new: true }
+    );
+
+    if (!token || token.sentTo !== user.phone) {
+        throw new AccountTokenError('This code has expired. Please ask for a new one');
+    }
+
+    const matches = typeof code === 'string' && crypto.timingSafeEqual(
+        Buffer.from(hashToken(code.trim())),
+        Buffer.from(token.tokenHash)
+    );
+    if (!matches) {
+        throw new AccountTokenError(token.attempts >= maxAttempts
+            ? 'Too many incorrect codes. Please ask for a new one'
+            : 'Incorrect code');
+    }
+
+    const claimed = await AccountToken.findOneAndUpdate(
+        { _id: token._id, usedAt: null },
+        { usedAt: new Date() }
+    );
+    const updated = claimed && await User.findOneAndUpdate(
+        { _id: user._id, phone: token.sentTo },
+        { phoneVerified: true, phoneVerifiedAt: new Date() },
+        { new: true }
+    );
+
+    if (!updated) {
+        throw new AccountTokenError('This code has expired. Please ask for a new one');
+    }
+    return updated;
+};
+
+// ---------------------------------------------------------------------------
+// Password reset
+// ---------------------------------------------------------------------------
+
+/**
+ * Email a password reset link, if the address belongs to an account.
+ * Resolves the same way either way, so callers cannot tell which emails are registered.
+ */
+export const requestPasswordReset = async (email) => {
+    const user = await User.findOne({ email: String(email).toLowerCase().trim() });
+    if (!user) return;
+
+    const secret = newLinkToken();
+    const minutes = getSetting('PASSWORD_RESET_MINUTES', DEFAULT_PASSWORD_RESET_MINUTES);
+
+    try {
+        await issueToken(user, 'password_reset', {
+            secret,
+            sentTo: user.email,
+            lifetimeMinutes: minutes,
+            message: () => ({
+                channel: 'email',
+                subject: 'Reset your RaktSetu password',
+                text: [
+                    `Hi ${user.name},`,
+                    '',
+                    'Someone asked to reset the password for your RaktSetu account. To choose a new password, open the link below:',
+                    `${getAppUrl()}/reset-password?token=${secret}`,
+                    '',
+                    `The link expires in ${minutes} minutes and works once. If you did not ask for this, you can ignore this email; your password has not changed.`
+                ].join('\n')
+            })
+        });
+    } catch (error) {
+        // A link was sent moments ago; reporting it would reveal the account exists
+        if (!(error instanceof AccountTokenError)) throw error;
+    }
+};
+
+/**
+ * Set a new password with the token from a reset link and sign out every device
+ * @returns {Object} - Updated user
+ * @throws {AccountTokenError} - Unknown, used or expired link
+ */
+export const resetPassword = async (secret, password) => {
+    const token = await claimLinkToken('password_reset', secret);
+    const user = token && await User.findById(token.user).select('+password');
+
+    if (!user || user.email !== token.sentTo) {
+        throw new AccountTokenError('This reset link is invalid or has expired');
+    }
+
+    user.password = password;
+    // The link was opened from the user's inbox, which proves the address too
+    if (!user.verified) {
+        user.verified = true;
+        user.emailVerifiedAt = new Date();
+    }
+    await user.save();
+
+    await Session.revokeAllForUser(user._id, 'password_reset');
+    return user;
+};
@@ -0,0 +1,133 @@
+/**
+ * Donation Appointments
+ *
+ * Shared rules for hospital donation slots and the donor bookings made in
+ * them (Donation documents with status 'scheduled' or 'checked_in'):
+ * - slots must fall inside the hospital's operating hours
+ * - donors can only book once they are eligible again (services/eligibility.js)
+ */
+
+// Bookings that still hold a place in their slot
+export const ACTIVE_APPOINTMENT_STATUSES = ['scheduled', 'checked_in'];
+
+/**
+ * Convert "HH:MM" to minutes after midnight
+ * @returns {Number|null} - Minutes, or null when the value is not a valid time
+ */
+export const parseClock = (value) => {
+    const match = /^([01]\d|2[0-3]):([0-5]\d)$/.exec(value || '');
+    return match ? parseInt(match[1]) * 60 + parseInt(match[2]) : null;
+};
+
+/**
+ * Format a date as its local "YYYY-MM-DD" day
+ */
+export const toDayString = (date) => {
+    const pad = (n) => String(n).padStart(2, '0');
+    return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+};
+
+/**
+ * Parse a "YYYY-MM-DD" day into the [start, end) range of that local day
+ * @returns {Object|null} - { start, end }, or null when the value is not a valid day
+ */
+export const parseDay = (value) => {
+    const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(value || '');
+    if (!match) return null;
+
+    const start = new Date(parseInt(match[1]), parseInt(match[2]) - 1, parseInt(match[3]));
+    if (start.getDate() !== parseInt(match[3])) return null;
+
+    const end = new Date(start);
+    end.setDate(end.getDate() + 1);
+    return { start, end };
+};
+
+/**
+ * Check that a time window falls inside a hospital's operating hours
+ * Windows must start and end on the same day.
+ */
+export const isWithinOperatingHours = (hospital, start, end) => {
+    if (start.toDateString() !== new Date(end.getTime() - 1).toDateString()) return false;
+
+    const hours = hospital.operatingHours || {};
+    if (hours.is24x7) return true;
+
+    const open = parseClock(hours.open) ?? 0;
+    const close = parseClock(hours.close) ?? 24 * 60 - 1;
+    const startMinutes = start.getHours() * 60 + start.getMinutes();
+    const endMinutes = end.getHours() * 60 + end.getMinutes() || 24 * 60;
+
+    return startMinutes >= open && endMinutes <= close;
+};
+
+/**
+ * Check whether a hospital is open at a given time
+ * Hours that close before they open run past midnight (e.g. 20:00 - 08:00).
+ */
+export const isOpenAt = (hospital, date = new Date()) => {
+    const hours = hospital.operatingHours || {};
+    if (hours.is24x7) return true;
+
+    const open = parseClock(hours.open) ?? 0;
+    const close = parseClock(hours.close) ?? 24 * 60 - 1;
+    const minutes = date.getHours() * 60 + date.getMinutes();
+
+    return open <= close
+        ? minutes >= open && minutes < close
+        : minutes >= open || minutes < close;
+};
+
+/**
+ * Format a slot for API responses
+ * Populated hospitals are included as { id, name, address, city }.
+ */
+export const formatSlot = (slot) => {
+    const hospital = slot.hospital_id?.name ? slot.hospital_id : null;
+
+    return {
+        id: slot._id,
+        hospital_id: hospital ? hospital._id : slot.hospital_id,
+        hospital: hospital && {
+            id: hospital._id,
+            name: hospital.name,
+            address: hospital.address,
+            city: hospital.city
+        },
+        start_time: slot.start_time,
+        end_time: slot.end_time,
+        capacity: slot.capacity,
+        booked_count: slot.booked_count,
+        spaces_left: Math.max(slot.capacity - slot.booked_count, 0)
+    };
+};
+
+/**
+ * Format a booked donation for API responses
+ * Populated slots, hospitals and donors add their details.
+ */
+export const formatAppointment = (donation) => {
+    const hospital = donation.hospital?.name ? donation.hospital : null;
+    const slot = donation.slot?.start_time ? donation.slot : null;
+    const donor = donation.donorId?.email ? donation.donorId : null;
+
+    return {
+        id: donation._id,
+        status: donation.status,
+        blood_group: donation.bloodGroup,
+        units: donation.units,
+        donation_date: donation.donationDate,
+        end_time: slot ? slot.end_time : null,
+        slot_id: slot ? slot._id : donation.slot,
+        hospital_id: hospital ? hospital._id : donation.hospital,
+        hospital_name: hospital ? hospital.name : donation.location,
+        hospital_address: hospital ? hospital.address : null,
+        donor_id: donor ? donor._id : donation.donorId,
+        donor_name: donation.donorName,
+        donor_phone: donor ? donor.phone || null : null,
+        donor_email: donor ? donor.email : null,
+        notes: donation.notes || null,
+        checked_in_at: donation.checkedInAt || null,
+        cancelled_at: donation.cancelledAt || null
+    };
+};
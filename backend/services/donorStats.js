@@ -0,0 +1,178 @@
+/**
+ * Donor Stats Service
+ *
+ * Derives a donor's profile counters from their completed Donation records:
+ * totalDonations, donationsThisYear, lastDonation, eligibleNext,
+ * achievementBadge, streak, badges and the donationHistory summary.
+ * Recomputed whenever a donation is recorded, so the profile never drifts
+ * from the records. Newly earned badges are announced to the donor.
+ */
+
+import Donation from '../models/Donation.js';
+import User from '../models/User.js';
+import {
+    ACHIEVEMENT_BADGES,
+    BADGES,
+    DONATION_MILESTONES,
+    RARE_BLOOD_GROUPS,
+    STREAK_MAX_GAP_DAYS,
+    getAchievementBadge,
+    getNextAchievementBadge,
+    getEarnedBadges
+} from '../config/donationRules.js';
+import { getNextEligibleDate } from './eligibility.js';
+import { dispatchNotification } from './notificationDispatcher.js';
+
+// Entries kept in profile.donationHistory
+const HISTORY_LIMIT = 20;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Work out the current and longest donation streaks
+ * @param {Array} donations - Completed donations, newest first
+ * @param {Date} now - Reference date for the current streak
+ * @returns {Object} - { current, longest, since }
+ */
+const getStreaks = (donations, now = new Date()) => {
+    const maxGap = STREAK_MAX_GAP_DAYS * DAY_MS;
+    const runs = []; // Newest first: { length, since }
+
+    donations.forEach((donation, index) => {
+        const newer = donations[index - 1];
+        if (newer && newer.donationDate - donation.donationDate <= maxGap) {
+            const run = runs[runs.length - 1];
+            run.length += 1;
+            run.since = donation.donationDate;
+        } else {
+            runs.push({ length: 1, since: donation.donationDate });
+        }
+    });
+
+    // The newest run is still going if the last donation is recent enough
+    const ongoing = runs.length > 0 && now - donations[0].donationDate <= maxGap;
+
+    return {
+        current: ongoing ? runs[0].length : 0,
+        longest: Math.max(0, ...runs.map(run => run.length)),
+        since: ongoing ? runs[0].since : null
+    };
+};
+
+/**
+ * Tell a donor about badges they just earned
+ */
+const announceBadges = async (donor, earned, awardedBy) => {
+    const names = earned.map(badge => badge.name);
+
+    try {
+        await dispatchNotification({
+            recipient: donor,
+            hospitalId: awardedBy,
+            type: 'achievement',
+            title: names.length === 1 ? `New badge: ${names[0]}` : `${names.length} new badges`,
+            message: `Congratulations! You earned ${names.join(', ')}. Thank you for donating.`,
+            link: '/donor/dashboard'
+        });
+    } catch (error) {
+        // The donation is already recorded; a missed announcement is not fatal
+        console.error(`❌ Could not announce badges to donor ${donor._id}:`, error.message);
+    }
+};
+
+/**
+ * Recompute and save a donor's donation stats
+ * @param {String} donorId - Donor user ID
+ * @param {Object} options - { awardedBy } staff user announcing newly earned badges
+ * @returns {Object|null} - Updated donor, or null when the donor no longer exists
+ */
+export const recomputeDonorStats = async (donorId, options = {}) => {
+    const donor = await User.findById(donorId);
+    if (!donor) return null;
+
+    const donations = await Donation.find({ donorId, status: 'completed' })
+        .sort({ donationDate: -1 });
+
+    const now = new Date();
+    const yearStart = new Date(now.getFullYear(), 0, 1);
+    const donationsThisYear = donations.filter(d => d.donationDate >= yearStart).length;
+    const lastDonation = donations[0]?.donationDate;
+    const streak = getStreaks(donations, now);
+
+    donor.profile = donor.profile || {};
+    const previousLevel = donor.profile.achievementBadge || 'none';
+
+    donor.profile.totalDonations = donations.length;
+    donor.profile.donationsThisYear = donationsThisYear;
+    donor.profile.lastDonation = lastDonation;
+    donor.profile.eligibleNext = lastDonation
+        ? getNextEligibleDate(lastDonation, donations[0].component, donor.profile.sex)
+        : undefined;
+    donor.profile.achievementBadge = getAchievementBadge(donationsThisYear);
+    donor.profile.streak = streak;
+    donor.profile.donationHistory = donations.slice(0, HISTORY_LIMIT).map(d => ({
+        date: d.donationDate,
+        location: d.location,
+        units: d.units,
+        status: 'completed'
+    }));
+
+    // Badges are kept once earned
+    const held = new Set((donor.profile.badges || []).map(badge => badge.code));
+    const newCodes = getEarnedBadges({
+        totalDonations: donations.length,
+        longestStreak: streak.longest,
+        rareGroupDonations: donations.filter(d => RARE_BLOOD_GROUPS.includes(d.bloodGroup)).length,
+        emergencyDonations: donations.filter(d => d.emergency).length
+    }).filter(code => !held.has(code));
+
+    newCodes.forEach(code => donor.profile.badges.push({ code, earnedAt: now }));
+
+    await donor.save();
+
+    if (options.awardedBy) {
+        const levels = ACHIEVEMENT_BADGES.map(level => level.badge);
+        const level = donor.profile.achievementBadge;
+        const earned = BADGES.filter(badge => newCodes.includes(badge.code));
+
+        // A higher level than before (levels are listed highest first)
+        if (level !== 'none' && (previousLevel === 'none' || levels.indexOf(level) < levels.indexOf(previousLevel))) {
+            earned.unshift({ name: `${level.charAt(0).toUpperCase()}${level.slice(1)} Donor` });
+        }
+        if (earned.length > 0) await announceBadges(donor, earned, options.awardedBy);
+    }
+
+    return donor;
+};
+
+/**
+ * Format a donor's stats for API responses
+ * Lists every badge, with earned_at null for the ones not earned yet.
+ */
+export const formatDonorStats = (donor) => {
+    const profile = donor.profile || {};
+    const totalDonations = profile.totalDonations || 0;
+    const donationsThisYear = profile.donationsThisYear || 0;
+    const nextLevel = getNextAchievementBadge(donationsThisYear);
+    const held = new Map((profile.badges || []).map(badge => [badge.code, badge.earnedAt]));
+
+    return {
+        total_donations: totalDonations,
+        donations_this_year: donationsThisYear,
+        last_donation: profile.lastDonation || null,
+        eligible_next: profile.eligibleNext || null,
+        achievement_badge: profile.achievementBadge || 'none',
+        next_badge: nextLevel?.badge || null,
+        donations_needed: nextLevel ? nextLevel.donationsThisYear - donationsThisYear : 0,
+        next_milestone: DONATION_MILESTONES.find(count => count > totalDonations) || null,
+        streak: {
+            current: profile.streak?.current || 0,
+            longest: profile.streak?.longest || 0,
+            since: profile.streak?.since || null
+        },
+        badges: BADGES.map(badge => ({
+            ...badge,
+            earned_at: held.get(badge.code) || null
+        }))
+    };
+};
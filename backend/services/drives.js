@@ -0,0 +1,159 @@
+/**
+ * Donation Drives
+ *
+ * Shared rules for donation drives (camps) and donor RSVPs:
+ * - drives run for at most a day and are created in the future
+ * - donors check in from an hour before the drive starts until it ends
+ * - a drive's status is derived from its times unless it was cancelled
+ */
+
+const MAX_DRIVE_HOURS = 24;
+
+// Donors may check in this long before a drive starts
+export const CHECK_IN_OPENS_MINUTES = 60;
+
+const isBlank = (value) => typeof value !== 'string' || value.trim() === '';
+
+/**
+ * Check and clean drive fields sent by an organiser
+ * On updates, fields not sent keep their current values.
+ * @param {Object} body - { name, description?, venue_name, address, city, latitude, longitude,
+ *                          start_time, end_time, target_units, capacity }
+ * @param {Object} current - Drive being updated (omit when creating)
+ * @returns {Object} - { error } or the fields to set on the drive
+ */
+export const parseDrive = (body, current = null) => {
+    const pick = (key, fallback) => (body[key] !== undefined ? body[key] : fallback);
+
+    const name = pick('name', current?.name);
+    const description = pick('description', current?.description);
+    const venueName = pick('venue_name', current?.venue?.name);
+    const address = pick('address', current?.venue?.address);
+    const city = pick('city', current?.venue?.city);
+
+    if (isBlank(name)) return { error: 'Drive name is required' };
+    if (isBlank(venueName) || isBlank(address) || isBlank(city)) {
+        return { error: 'Venue name, address and city are required' };
+    }
+
+    const latitude = Number(pick('latitude', current?.location?.coordinates?.[1]));
+    const longitude = Number(pick('longitude', current?.location?.coordinates?.[0]));
+    if (!(latitude >= -90 && latitude <= 90) || !(longitude >= -180 && longitude <= 180)) {
+        return { error: 'Valid venue latitude and longitude are required' };
+    }
+
+    const start = new Date(pick('start_time', current?.start_time));
+    const end = new Date(pick('end_time', current?.end_time));
+    if (isNaN(start) || isNaN(end) || end <= start) {
+        return { error: 'Start and end times are required, and the drive must end after it starts' };
+    }
+    if (end - start > MAX_DRIVE_HOURS * 60 * 60 * 1000) {
+        return { error: `A drive can run for at most ${MAX_DRIVE_HOURS} hours` };
+    }
+    if ((!current || start.getTime() !== current.start_time.getTime()) && start <= new Date()) {
+        return { error: 'The drive must start in the future' };
+    }
+
+    const targetUnits = Number(pick('target_units', current?.target_units));
+    const capacity = Number(pick('capacity', current?.capacity));
+    if (!Number.isInteger(targetUnits) || targetUnits < 1) {
+        return { error: 'Target units must be a whole number of at least 1' };
+    }
+    if (!Number.isInteger(capacity) || capacity < 1) {
+        return { error: 'Capacity must be a whole number of at least 1' };
+    }
+    if (current && capacity < current.registered_count) {
+        return { error: `${current.registered_count} donors are already registered; capacity cannot be lower` };
+    }
+
+    return {
+        name: name.trim(),
+        description: typeof description === 'string' ? description.trim() : undefined,
+        venue: { name: venueName.trim(), address: address.trim(), city: city.trim() },
+        location: { type: 'Point', coordinates: [longitude, latitude] },
+        start_time: start,
+        end_time: end,
+        target_units: targetUnits,
+        capacity
+    };
+};
+
+/**
+ * Get where a drive stands
+ * @returns {String} - 'upcoming' | 'ongoing' | 'ended' | 'cancelled'
+ */
+export const getDrivePhase = (drive, now = new Date()) => {
+    if (drive.status === 'cancelled') return 'cancelled';
+    if (now < drive.start_time) return 'upcoming';
+    return now < drive.end_time ? 'ongoing' : 'ended';
+};
+
+/**
+ * Check if donors can check in at a drive now
+ */
+export const isCheckInOpen = (drive, now = new Date()) => {
+    const opens = new Date(drive.start_time.getTime() - CHECK_IN_OPENS_MINUTES * 60 * 1000);
+    return drive.status === 'scheduled' && now >= opens && now < drive.end_time;
+};
+
+/**
+ * Format a drive for API responses
+ * Works on documents and on $geoNear results (which carry `distance` in metres).
+ * Populated hospitals are included as { id, name, city }.
+ */
+export const formatDrive = (drive) => {
+    const hospital = drive.hospital_id?.name ? drive.hospital_id : null;
+
+    return {
+        id: drive._id,
+        name: drive.name,
+        description: drive.description || null,
+        hospital_id: hospital ? hospital._id : drive.hospital_id,
+        hospital: hospital && {
+            id: hospital._id,
+            name: hospital.name,
+            city: hospital.city
+        },
+        venue: {
+            name: drive.venue.name,
+            address: drive.venue.address,
+            city: drive.venue.city
+        },
+        latitude: drive.location.coordinates[1],
+        longitude: drive.location.coordinates[0],
+        start_time: drive.start_time,
+        end_time: drive.end_time,
+        target_units: drive.target_units,
+        collected_units: drive.collected_units || 0,
+        capacity: drive.capacity,
+        registered_count: drive.registered_count || 0,
+        places_left: Math.max(drive.capacity - (drive.registered_count || 0), 0),
+        status: getDrivePhase(drive),
+        cancelled_reason: drive.cancelled_reason || null,
+        distance_km: drive.distance !== undefined ? Math.round(drive.distance / 100) / 10 : null
+    };
+};
+
+/**
+ * Format a drive registration for API responses
+ * Populated donors add their contact details; populated drives are formatted.
+ */
+export const formatRegistration = (registration) => {
+    const donor = registration.donor_id?.name ? registration.donor_id : null;
+    const drive = registration.drive_id?.name ? registration.drive_id : null;
+
+    return {
+        id: registration._id,
+        drive_id: drive ? drive._id : registration.drive_id,
+        drive: drive && formatDrive(drive),
+        donor_id: donor ? donor._id : registration.donor_id,
+        donor_name: registration.donor_name,
+        donor_email: donor?.email || null,
+        donor_phone: donor?.phone || null,
+        blood_group: registration.blood_group,
+        status: registration.status,
+        registered_at: registration.registered_at,
+        checked_in_at: registration.checked_in_at || null,
+        units_collected: registration.units_collected || 0
+    };
+};
@@ -0,0 +1,153 @@
+/**
+ * Donor Eligibility Service
+ *
+ * The one place that decides whether a donor may donate and from when,
+ * following config/eligibilityRules.js. A result is:
+ * {
+ *   eligible:       true when the donor may donate on the checked date
+ *   eligibleFrom:   first day every temporary deferral has ended (null when
+ *                   eligible now, or when a deferral needs a staff review)
+ *   requiresReview: true when a deferral has no end date
+ *   reasons:        [{ code, message, until }] - every rule the donor fails
+ * }
+ */
+
+import Donation from '../models/Donation.js';
+import { getEligibilityRules, getDonationIntervalDays } from '../config/eligibilityRules.js';
+import { DEFAULT_COMPONENT } from '../config/bloodComponents.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const addDays = (date, days) => new Date(new Date(date).getTime() + days * DAY_MS);
+
+const addYears = (date, years) => {
+    const result = new Date(date);
+    result.setFullYear(result.getFullYear() + years);
+    return result;
+};
+
+/**
+ * Get the date a donor may donate again after a donation
+ * @param {Date} donationDate - Date of the donation
+ * @param {String} component - Component donated
+ * @param {String} sex - Donor's sex, optional
+ * @returns {Date} - First day of the next donation
+ */
+export const getNextEligibleDate = (donationDate, component = DEFAULT_COMPONENT, sex) => {
+    return addDays(donationDate, getDonationIntervalDays(component, sex));
+};
+
+/**
+ * Find the latest completed donation of each donor
+ * @param {Array} donorIds - Donor user IDs
+ * @returns {Map} - donorId string → { date, component }
+ */
+const getLastDonations = async (donorIds) => {
+    const rows = await Donation.aggregate([
+        { $match: { donorId: { $in: donorIds }, status: 'completed' } },
+        { $sort: { donationDate: -1 } },
+        { $group: { _id: '$donorId', date: { $first: '$donationDate' }, component: { $first: '$component' } } }
+    ]);
+
+    return new Map(rows.map(row => [row._id.toString(), { date: row.date, component: row.component }]));
+};
+
+/**
+ * Apply the rules to a donor whose last donation is already known
+ */
+const buildEligibility = (donor, lastDonation, { deferrals, asOf }) => {
+    const rules = getEligibilityRules();
+    const profile = donor.profile || {};
+    const reasons = [];
+
+    // Age
+    if (profile.dateOfBirth) {
+        const minAgeDate = addYears(profile.dateOfBirth, rules.minAge);
+        const maxAgeDate = addYears(profile.dateOfBirth, rules.maxAge + 1);
+
+        if (asOf < minAgeDate) {
+            reasons.push({ code: 'age', message: `You can donate from your ${rules.minAge}th birthday.`, until: minAgeDate });
+        } else if (asOf >= maxAgeDate) {
+            reasons.push({ code: 'age', message: `Donors must be ${rules.maxAge} or younger.`, until: null });
+        }
+    }
+
+    // Weight
+    if (profile.weight && profile.weight < rules.minWeightKg) {
+        reasons.push({ code: 'weight', message: `Minimum weight of ${rules.minWeightKg} kg is required for blood donation.`, until: null });
+    }
+
+    // Wait after the last donation (recorded donations, else the profile date)
+    const last = lastDonation || (profile.lastDonation && { date: profile.lastDonation, component: DEFAULT_COMPONENT });
+    if (last) {
+        const nextDate = getNextEligibleDate(last.date, last.component, profile.sex);
+        if (asOf < nextDate) {
+            const days = getDonationIntervalDays(last.component, profile.sex);
+            reasons.push({ code: 'recent_donation', message: `You need to wait ${days} days after your last donation.`, until: nextDate });
+        }
+    }
+
+    // Deferrals from quiz answers being checked, else the donor's saved deferrals
+    const activeDeferrals = deferrals ||
+        (profile.deferrals || []).map(({ code, message, until }) => ({ code, message, until: until || null }));
+
+    for (const deferral of activeDeferrals) {
+        // The donation record is more precise than the quiz answer
+        if (deferral.code === 'recent_donation' && last) continue;
+
+        if (deferral.until === null || asOf < deferral.until) {
+            reasons.push(deferral);
+        }
+    }
+
+    const requiresReview = reasons.some(reason => reason.until === null);
+    const eligibleFrom = reasons.length > 0 && !requiresReview
+        ? new Date(Math.max(...reasons.map(reason => reason.until.getTime())))
+        : null;
+
+    return {
+        eligible: reasons.length === 0,
+        eligibleFrom,
+        requiresReview,
+        reasons
+    };
+};
+
+/**
+ * Check a donor's eligibility
+ * @param {Object} donor - Donor user document
+ * @param {Object} options - deferrals: quiz deferrals not yet saved (defaults to
+ *                           profile.deferrals), asOf: date to check (default now)
+ * @returns {Object} - { eligible, eligibleFrom, requiresReview, reasons }
+ */
+export const evaluateEligibility = async (donor, options = {}) => {
+    const lastDonations = await getLastDonations([donor._id]);
+    return buildEligibility(donor, lastDonations.get(donor._id.toString()), {
+        ...options,
+        asOf: options.asOf || new Date()
+    });
+};
+
+/**
+ * Check the eligibility of many donors with one donation lookup
+ * @param {Array} donors - Donor user documents
+ * @returns {Map} - donorId string → eligibility result
+ */
+export const evaluateDonors = async (donors, asOf = new Date()) => {
+    const lastDonations = await getLastDonations(donors.map(donor => donor._id));
+
+    return new Map(donors.map(donor => [
+        donor._id.toString(),
+        buildEligibility(donor, lastDonations.get(donor._id.toString()), { asOf })
+    ]));
+};
+
+/**
+ * Format an eligibility result for API responses
+ */
+export const formatEligibility = (result) => ({
+    eligible: result.eligible,
+    eligible_from: result.eligibleFrom,
+    requires_review: result.requiresReview,
+    reasons: result.reasons
+});
@@ -0,0 +1,215 @@
+/**
+ * Emergency Broadcast Service
+ *
+ * Appeals to donors for critical blood requests: finds eligible donors with a
+ * compatible blood group within EMERGENCY_RADIUS_KM of the request (or in its
+ * city when the request could not be placed) and notifies them on their
+ * preferred channels. Donors answer "I can donate" with an ETA, which the
+ * requester sees on the request.
+ *
+ * Throttling keeps donors from being spammed:
+ * - a donor gets at most one appeal per EMERGENCY_DONOR_COOLDOWN_HOURS
+ * - one broadcast reaches at most EMERGENCY_MAX_DONORS donors
+ * - a request can be broadcast again after EMERGENCY_REBROADCAST_MINUTES
+ */
+
+import User from '../models/User.js';
+import Notification from '../models/Notification.js';
+import { getCompatibleDonorGroups, compatibilityRank, isCompatible } from '../config/bloodCompatibility.js';
+import { getCompatibilityProduct, getComponentLabel } from '../config/bloodComponents.js';
+import { evaluateDonors } from './eligibility.js';
+import { dispatchNotification } from './notificationDispatcher.js';
+import { getRequestPlace } from './requestMatching.js';
+import { distanceKm } from './geocoding.js';
+
+// Defaults
+const DEFAULT_RADIUS_KM = 25;
+const DEFAULT_MAX_DONORS = 50;
+const DEFAULT_DONOR_COOLDOWN_HOURS = 24;
+const DEFAULT_REBROADCAST_MINUTES = 60;
+
+// Longest ETA a donor can give (minutes)
+export const MAX_ETA_MINUTES = 24 * 60;
+
+// Requests donors can still respond to
+export const OPEN_REQUEST_STATUSES = ['pending', 'approved'];
+
+const DONOR_FIELDS = 'name email phone location coordinates notificationPreferences profile.bloodGroup profile.lastDonation profile.sex profile.dateOfBirth profile.weight profile.deferrals';
+
+const escapeRegex = (text) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const getRadiusKm = () => parseFloat(process.env.EMERGENCY_RADIUS_KM) || DEFAULT_RADIUS_KM;
+
+const hasCoordinates = (record) => record.coordinates?.length === 2;
+
+const getRebroadcastMinutes = () =>
+    parseInt(process.env.EMERGENCY_REBROADCAST_MINUTES) || DEFAULT_REBROADCAST_MINUTES;
+
+/**
+ * Check whether a request is an open emergency donors can answer
+ */
+export const isOpenEmergency = (request) => {
+    return request.urgency === 'critical' && OPEN_REQUEST_STATUSES.includes(request.status);
+};
+
+/**
+ * Check whether a donor is within the appeal radius of a request
+ * Falls back to a free-text city match when either has no coordinates.
+ */
+export const isDonorNearRequest = (donor, request) => {
+    if (hasCoordinates(donor) && hasCoordinates(request)) {
+        return distanceKm(donor.coordinates, request.coordinates) <= getRadiusKm();
+    }
+
+    const place = getRequestPlace(request);
+    return Boolean(place && donor.location &&
+        new RegExp(escapeRegex(place), 'i').test(donor.location));
+};
+
+/**
+ * Check whether a donor's group can be given for a request
+ */
+export const canDonorServe = (donor, request) => {
+    const donorGroup = donor.profile?.bloodGroup;
+    return Boolean(donorGroup) &&
+        isCompatible(donorGroup, request.bloodGroup, getCompatibilityProduct(request.component));
+};
+
+/**
+ * Minutes until the request may be broadcast again (0 when it may be now)
+ */
+export const getRebroadcastWait = (request, now = new Date()) => {
+    const lastSentAt = request.broadcast?.lastSentAt;
+    if (!lastSentAt) return 0;
+
+    const nextAt = lastSentAt.getTime() + getRebroadcastMinutes() * 60 * 1000;
+    return Math.max(Math.ceil((nextAt - now.getTime()) / 60000), 0);
+};
+
+/**
+ * Find donors to appeal to for a request
+ * Eligible donors with a compatible group near the request who have not had
+ * an appeal within the cooldown, exact group first, then nearest first.
+ * @param {Object} request - BloodRequest document
+ * @returns {Object} - { donors, cooledDown } (cooledDown: donors skipped by the cooldown)
+ */
+export const findDonorsForRequest = async (request) => {
+    const place = getRequestPlace(request);
+    if (!hasCoordinates(request) && !place) return { donors: [], cooledDown: 0 };
+
+    const product = getCompatibilityProduct(request.component);
+    const groups = getCompatibleDonorGroups(request.bloodGroup, product);
+
+    const near = hasCoordinates(request)
+        ? {
+            coordinates: {
+                $nearSphere: {
+                    $geometry: { type: 'Point', coordinates: request.coordinates },
+                    $maxDistance: getRadiusKm() * 1000
+                }
+            }
+        }
+        : { location: { $regex: new RegExp(escapeRegex(place), 'i') } };
+
+    const candidates = await User.find({
+        role: 'donor',
+        _id: { $ne: request.requesterId },
+        'profile.bloodGroup': { $in: groups },
+        ...near
+    }).select(DONOR_FIELDS);
+
+    if (candidates.length === 0) return { donors: [], cooledDown: 0 };
+
+    const cooldownHours = parseInt(process.env.EMERGENCY_DONOR_COOLDOWN_HOURS) || DEFAULT_DONOR_COOLDOWN_HOURS;
+    const appealed = await Notification.findRecentlyAppealed(candidates.map(d => d._id), cooldownHours);
+    const eligibility = await evaluateDonors(candidates);
+
+    const eligible = candidates.filter(donor => eligibility.get(donor._id.toString()).eligible);
+    const donors = eligible
+        .filter(donor => !appealed.has(donor._id.toString()))
+        .filter(donor => !request.getDonorResponse(donor._id))
+        .sort((a, b) =>
+            compatibilityRank(a.profile.bloodGroup, request.bloodGroup, product) -
+            compatibilityRank(b.profile.bloodGroup, request.bloodGroup, product));
+
+    const maxDonors = parseInt(process.env.EMERGENCY_MAX_DONORS) || DEFAULT_MAX_DONORS;
+
+    return {
+        donors: donors.slice(0, maxDonors),
+        cooledDown: eligible.length - donors.length
+    };
+};
+
+/**
+ * Send an emergency appeal for a critical request to nearby donors
+ * @param {Object} request - Saved BloodRequest document (saved again by the caller)
+ * @returns {Object} - { notified, cooledDown }
+ */
+export const broadcastEmergency = async (request) => {
+    const { donors, cooledDown } = await findDonorsForRequest(request);
+    const place = getRequestPlace(request) || 'your area';
+    const units = `${request.unitsRequested} unit${request.unitsRequested !== 1 ? 's' : ''}`;
+    let notified = 0;
+
+    for (const donor of donors) {
+        try {
+            await dispatchNotification({
+                recipient: donor,
+                hospitalId: request.requesterId,
+                type: 'emergency_appeal',
+                title: `Urgent: ${request.bloodGroup} blood needed in ${place}`,
+                message: `${units} of ${request.bloodGroup} ${getComponentLabel(request.component)} needed urgently at ${request.location || place}. Your ${donor.profile.bloodGroup} blood can help - let the requester know if you can donate.`,
+                link: '/donor/dashboard'
+            });
+            notified++;
+        } catch (error) {
+            console.error(`⚠️ Could not send emergency appeal to donor ${donor._id}:`, error.message);
+        }
+    }
+
+    request.broadcast.count += 1;
+    request.broadcast.donorsNotified += notified;
+    request.broadcast.lastSentAt = new Date();
+
+    console.log(`🚨 Emergency appeal for request ${request._id} sent to ${notified} donors (${cooledDown} skipped by cooldown)`);
+    return { notified, cooledDown };
+};
+
+/**
+ * Format a donor's answer to an appeal for API responses
+ */
+export const formatDonorResponse = (response) => ({
+    donor_id: response.donor,
+    donor_name: response.donorName,
+    blood_group: response.bloodGroup,
+    phone: response.phone,
+    eta_minutes: response.etaMinutes,
+    note: response.note || null,
+    status: response.status,
+    responded_at: response.respondedAt,
+    expected_at: new Date(response.respondedAt.getTime() + response.etaMinutes * 60 * 1000)
+});
+
+/**
+ * Format an open emergency for the donor being appealed to
+ * @param {Object} request - BloodRequest document
+ * @param {Object} donor - Donor user document
+ */
+export const formatAppeal = (request, donor) => {
+    const myResponse = request.getDonorResponse(donor._id);
+
+    return {
+        id: request._id,
+        requester_name: request.requesterName,
+        blood_group: request.bloodGroup,
+        component: request.component,
+        units_requested: request.unitsRequested,
+        reason: request.reason,
+        location: request.location,
+        contact_phone: request.contactPhone,
+        status: request.status,
+        created_at: request.createdAt,
+        responders: request.donorResponses.filter(r => r.status === 'coming').length,
+        my_response: myResponse ? formatDonorResponse(myResponse) : null
+    };
+};
@@ -0,0 +1,224 @@
+/**
+ * Geocoding Service
+ *
+ * Turns free-text locations ("District, State - Pincode") into coordinates so
+ * users and blood requests can be matched by distance. Lookups go through a
+ * provider, picked with GEOCODER_PROVIDER. The built-in gazetteer provider
+ * works offline from config/gazetteer.js and the hospital directory:
+ * 1. exact PIN code of a directory hospital
+ * 2. longest matching PIN code prefix
+ * 3. city / district name anywhere in the text (longest name wins)
+ * Coordinates sent by the browser always win over geocoded ones.
+ */
+
+import User from '../models/User.js';
+import BloodRequest from '../models/BloodRequest.js';
+import Hospital from '../models/Hospital.js';
+import { GAZETTEER } from '../config/gazetteer.js';
+
+const EARTH_RADIUS_KM = 6371;
+
+// "411001" or "411 001"
+const PINCODE_PATTERN = /\b(\d{3})\s?(\d{3})\b/;
+
+const normalize = (text) => ` ${text.toLowerCase().replace(/[^a-z]+/g, ' ').trim()} `;
+
+/**
+ * Split a free-text location into its PIN code and leading place name
+ * @returns {Object} - { pincode, place } (either may be undefined)
+ */
+export const parseLocation = (text = '') => {
+    const match = text.match(PINCODE_PATTERN);
+    return {
+        pincode: match ? match[1] + match[2] : undefined,
+        place: text.split(/[,-]/)[0]?.trim() || undefined
+    };
+};
+
+/**
+ * Check a latitude / longitude pair
+ */
+export const isValidCoordinate = (latitude, longitude) => {
+    return Number.isFinite(latitude) && Number.isFinite(longitude) &&
+        Math.abs(latitude) <= 90 && Math.abs(longitude) <= 180 &&
+        !(latitude === 0 && longitude === 0);
+};
+
+/**
+ * Great-circle distance between two [longitude, latitude] points
+ * @returns {Number} - Distance in km
+ */
+export const distanceKm = ([lng1, lat1], [lng2, lat2]) => {
+    const toRad = (deg) => deg * Math.PI / 180;
+    const dLat = toRad(lat2 - lat1);
+    const dLng = toRad(lng2 - lng1);
+    const a = Math.sin(dLat / 2) ** 2 +
+        Math.cos(toRad(lat1)) * Math.cos(toRad(lat2)) * Math.sin(dLng / 2) ** 2;
+    return 2 * EARTH_RADIUS_KM * Math.asin(Math.sqrt(a));
+};
+
+/**
+ * Centre of the directory hospitals that share a PIN code
+ * @returns {Array|null} - [longitude, latitude]
+ */
+const findPincodeInDirectory = async (pincode) => {
+    const hospitals = await Hospital.find({
+        pincode,
+        'location.coordinates.0': { $ne: 0 }
+    }).select('location');
+
+    if (hospitals.length === 0) return null;
+
+    const sum = hospitals.reduce(([lng, lat], h) =>
+        [lng + h.location.coordinates[0], lat + h.location.coordinates[1]], [0, 0]);
+    return [sum[0] / hospitals.length, sum[1] / hospitals.length];
+};
+
+const findByPincodePrefix = (pincode) => {
+    let best = null;
+    let bestLength = 0;
+
+    for (const entry of GAZETTEER) {
+        for (const prefix of entry.pincodes) {
+            if (pincode.startsWith(prefix) && prefix.length > bestLength) {
+                best = entry;
+                bestLength = prefix.length;
+            }
+        }
+    }
+    return best;
+};
+
+const findByName = (text) => {
+    const haystack = normalize(text);
+    let best = null;
+    let bestLength = 0;
+
+    for (const entry of GAZETTEER) {
+        for (const name of [entry.city, ...(entry.aliases || [])]) {
+            if (haystack.includes(normalize(name)) && name.length > bestLength) {
+                best = entry;
+                bestLength = name.length;
+            }
+        }
+    }
+    return best;
+};
+
+// Offline provider backed by config/gazetteer.js and the hospital directory
+const gazetteerProvider = {
+    name: 'gazetteer',
+    geocode: async ({ text = '', pincode, city }) => {
+        const pin = pincode || parseLocation(text).pincode;
+
+        if (pin) {
+            const exact = await findPincodeInDirectory(pin);
+            const area = findByPincodePrefix(pin);
+
+            if (exact) {
+                return { coordinates: exact, city: area?.city, state: area?.state, precision: 'pincode' };
+            }
+            if (area) {
+                return { coordinates: area.coordinates, city: area.city, state: area.state, precision: 'city' };
+            }
+        }
+
+        const entry = findByName(`${city || ''} ${text}`);
+        return entry
+            ? { coordinates: entry.coordinates, city: entry.city, state: entry.state, precision: 'city' }
+            : null;
+    }
+};
+
+const providers = {
+    gazetteer: gazetteerProvider
+};
+
+/**
+ * Replace or add a geocoding provider (e.g. an online geocoding API)
+ * @param {String} name - Value of GEOCODER_PROVIDER that selects it
+ * @param {Object} provider - { name, geocode({ text, pincode, city }) }
+ */
+export const registerGeocoder = (name, provider) => {
+    providers[name] = provider;
+};
+
+/**
+ * Geocode a free-text location
+ * @param {Object} query - { text, pincode, city }
+ * @returns {Object|null} - { coordinates, city, state, precision, provider }, or null when unknown
+ */
+export const geocode = async (query) => {
+    const provider = providers[process.env.GEOCODER_PROVIDER] || providers.gazetteer;
+
+    try {
+        const result = await provider.geocode(query);
+        return result ? { ...result, provider: provider.name } : null;
+    } catch (error) {
+        console.error(`⚠️ Geocoding with ${provider.name} failed:`, error.message);
+        return null;
+    }
+};
+
+/**
+ * Work out where something is, from browser coordinates or its location text
+ * @param {Object} details - { latitude, longitude, text, pincode, city }
+ * @returns {Object|null} - { coordinates: [longitude, latitude], precision }
+ */
+export const resolveLocation = async ({ latitude, longitude, ...query }) => {
+    const lat = parseFloat(latitude);
+    const lng = parseFloat(longitude);
+
+    if (isValidCoordinate(lat, lng)) {
+        return { coordinates: [lng, lat], precision: 'device' };
+    }
+
+    if (!query.text && !query.pincode && !query.city) return null;
+
+    const result = await geocode(query);
+    return result ? { coordinates: result.coordinates, precision: result.precision } : null;
+};
+
+/**
+ * Set a user's coordinates from browser coordinates or their location text
+ * The caller saves the user.
+ * @param {Object} user - User document
+ * @param {Object} details - { latitude, longitude } (optional)
+ * @returns {Object} - The user
+ */
+export const locateUser = async (user, { latitude, longitude } = {}) => {
+    const resolved = await resolveLocation({ latitude, longitude, text: user.location });
+
+    user.coordinates = resolved?.coordinates;
+    user.locationPrecision = resolved?.precision;
+    return user;
+};
+
+/**
+ * Geocode users and open requests saved before geocoding
+ * @returns {Number} - Records that got coordinates
+ */
+export const geocodeMissingLocations = async () => {
+    const missing = { coordinates: { $exists: false }, location: { $nin: [null, ''] } };
+    let located = 0;
+
+    const users = await User.find(missing).select('location');
+    const requests = await BloodRequest.find({ ...missing, status: { $in: ['pending', 'approved'] } })
+        .select('location');
+
+    for (const [Model, records] of [[User, users], [BloodRequest, requests]]) {
+        for (const record of records) {
+            const resolved = await resolveLocation({ text: record.location });
+            if (!resolved) continue;
+
+            // Not a real change, so request expiry keeps counting from the last update
+            await Model.updateOne({ _id: record._id }, {
+                coordinates: resolved.coordinates,
+                locationPrecision: resolved.precision
+            }, { timestamps: false });
+            located++;
+        }
+    }
+
+    return located;
+};
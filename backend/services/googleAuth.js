@@ -0,0 +1,187 @@
+/**
+ * Google Sign-In
+ *
+ * Checks ID tokens from Google Identity Services before anyone is signed in
+ * with them: the RS256 signature against Google's published keys, the
+ * issuer, the audience (GOOGLE_CLIENT_ID, comma-separated for several
+ * clients), the expiry and that Google has verified the email address.
+ *
+ * Keys are fetched from GOOGLE_JWKS_URL (default: Google's certs endpoint)
+ * and cached for as long as its Cache-Control allows. GOOGLE_JWKS_FILE reads
+ * them from a local JWKS file instead, a stand-in for development and tests
+ * (see googleDevToken.js for signing tokens against it).
+ */
+
+import crypto from 'crypto';
+import fs from 'fs/promises';
+import jwt from 'jsonwebtoken';
+import User from '../models/User.js';
+
+// Defaults
+const DEFAULT_JWKS_URL = 'https://www.googleapis.com/oauth2/v3/certs';
+const DEFAULT_JWKS_CACHE_SECONDS = 60 * 60;
+
+// Shortest wait between fetches when a token names an unknown key
+const MIN_REFETCH_SECONDS = 60;
+
+export const GOOGLE_ISSUERS = ['accounts.google.com', 'https://accounts.google.com'];
+
+// Roles a new account can pick when signing up with Google (never admin)
+export const GOOGLE_SIGNUP_ROLES = ['donor', 'seeker', 'hospital'];
+
+/**
+ * Raised when a Google credential cannot be used
+ */
+export class GoogleAuthError extends Error {
+    constructor(message, status = 401, data = undefined) {
+        super(message);
+        this.status = status;
+        this.data = data; // What the client should do next (sign-up details, linking)
+    }
+}
+
+let cachedKeys = null; // { keys: Map<kid, KeyObject>, expiresAt, fetchedAt }
+
+/**
+ * Client IDs tokens may be issued for
+ */
+export const getGoogleClientIds = () => (process.env.GOOGLE_CLIENT_ID || '')
+    .split(',')
+    .map(id => id.trim())
+    .filter(Boolean);
+
+export const isGoogleSignInEnabled = () => getGoogleClientIds().length > 0;
+
+const toKeyMap = (jwks) => new Map(
+    (jwks.keys || [])
+        .filter(jwk => jwk.kty === 'RSA' && jwk.kid)
+        .map(jwk => [jwk.kid, crypto.createPublicKey({ key: jwk, format: 'jwk' })])
+);
+
+const getMaxAge = (cacheControl) => {
+    const match = /max-age=(\d+)/.exec(cacheControl || '');
+    return match ? parseInt(match[1]) : DEFAULT_JWKS_CACHE_SECONDS;
+};
+
+/**
+ * Load the signing keys
+ * @returns {Object} - { keys, expiresAt, fetchedAt }
+ */
+const loadKeys = async () => {
+    const now = Date.now();
+
+    if (process.env.GOOGLE_JWKS_FILE) {
+        // Re-read every time so a regenerated stand-in key takes effect at once
+        const jwks = JSON.parse(await fs.readFile(process.env.GOOGLE_JWKS_FILE, 'utf8'));
+        return { keys: toKeyMap(jwks), expiresAt: now, fetchedAt: now };
+    }
+
+    const response = await fetch(process.env.GOOGLE_JWKS_URL || DEFAULT_JWKS_URL);
+    if (!response.ok) {
+        throw new Error(`Google keys responded with ${response.status}`);
+    }
+
+    const maxAge = getMaxAge(response.headers.get('cache-control'));
+    return { keys: toKeyMap(await response.json()), expiresAt: now + maxAge * 1000, fetchedAt: now };
+};
+
+/**
+ * Public key a token was signed with
+ * Google rotates keys, so an unknown kid refetches them (at most once a minute).
+ */
+const getSigningKey = async (kid) => {
+    const now = Date.now();
+
+    if (!cachedKeys || cachedKeys.expiresAt <= now ||
+        (!cachedKeys.keys.has(kid) && now - cachedKeys.fetchedAt > MIN_REFETCH_SECONDS * 1000)) {
+        cachedKeys = await loadKeys();
+    }
+
+    return cachedKeys.keys.get(kid) || null;
+};
+
+/**
+ * Verify a Google ID token
+ * @param {String} credential - ID token from Google Identity Services
+ * @returns {Object} - { googleId, email, name, picture }
+ * @throws {GoogleAuthError} - Not configured, or the token is not valid
+ */
+export const verifyGoogleCredential = async (credential) => {
+    const clientIds = getGoogleClientIds();
+    if (clientIds.length === 0) {
+        throw new GoogleAuthError('Google sign-in is not configured', 503);
+    }
+
+    const decoded = typeof credential === 'string' && jwt.decode(credential, { complete: true });
+    if (!decoded || decoded.header.alg !== 'RS256' || !decoded.header.kid) {
+        throw new GoogleAuthError('Invalid Google credential');
+    }
+
+    const key = await getSigningKey(decoded.header.kid);
+    if (!key) {
+        throw new GoogleAuthError('Invalid Google credential');
+    }
+
+    let payload;
+    try {
+        payload = jwt.verify(credential, key, {
+            algorithms: ['RS256'],
+            audience: clientIds,
+            issuer: GOOGLE_ISSUERS
+        });
+    } catch (error) {
+        throw new GoogleAuthError(error.name === 'TokenExpiredError'
+            ? 'Google sign-in expired. Please try again'
+            : 'Invalid Google credential');
+    }
+
+    if (!payload.sub || !payload.email) {
+        throw new GoogleAuthError('Invalid Google credential');
+    }
+    if (payload.email_verified !== true) {
+        throw new GoogleAuthError('Your Google account email is not verified', 403);
+    }
+
+    return {
+        googleId: payload.sub,
+        email: payload.email.toLowerCase(),
+        name: payload.name || payload.email.split('@')[0],
+        picture: payload.picture
+    };
+};
+
+/**
+ * Account already signed in with this Google account, if any
+ * Accounts are matched on the Google account, never on the email alone: an
+ * existing password account with the same email has to be linked first,
+ * by proving its password (POST /api/auth/google/link).
+ * @param {Object} profile - From verifyGoogleCredential
+ * @returns {Object|null} - User, or null when the email is new
+ * @throws {GoogleAuthError} - The email belongs to an account not linked to this Google account
+ */
+export const findGoogleUser = async (profile) => {
+    const user = await User.findOne({ googleId: profile.googleId });
+    if (user) return user;
+
+    const existing = await User.findOne({ email: profile.email });
+    if (!existing) return null;
+
+    if (existing.googleId) {
+        throw new GoogleAuthError('This email is linked to a different Google account', 409);
+    }
+    throw new GoogleAuthError(
+        `An account already uses ${profile.email}. Enter its password to link Google sign-in`,
+        409,
+        { linkRequired: true, email: profile.email }
+    );
+};
+
+/**
+ * Record that Google has confirmed the account's email address
+ */
+export const markGoogleEmailVerified = (user, profile) => {
+    if (!user.verified && user.email === profile.email) {
+        user.verified = true;
+        user.emailVerifiedAt = new Date();
+    }
+};
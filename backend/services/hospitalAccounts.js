@@ -0,0 +1,147 @@
+/**
+ * Hospital Accounts Service
+ *
+ * Links hospital staff accounts (User with role 'hospital') to the Hospital
+ * directory record they work for. Stock, bags and routed requests are keyed
+ * to the Hospital, so every staff account of a hospital shares them.
+ */
+
+import mongoose from 'mongoose';
+import Hospital from '../models/Hospital.js';
+import BloodInventory from '../models/BloodInventory.js';
+import BloodUnit from '../models/BloodUnit.js';
+import BloodRequest from '../models/BloodRequest.js';
+import User from '../models/User.js';
+import { resolveLocation } from './geocoding.js';
+
+/**
+ * Move stock and requests from one owner key to another
+ * Skipped when the target hospital already holds stock, so two inventories
+ * are never merged silently.
+ * @returns {Boolean} - true when records were moved
+ */
+const rekeyHospitalData = async (fromId, toId) => {
+    if (fromId.toString() === toId.toString()) return false;
+
+    const [existing, toMove] = await Promise.all([
+        BloodInventory.countDocuments({ hospital_id: toId }),
+        BloodInventory.countDocuments({ hospital_id: fromId })
+    ]);
+
+    if (toMove > 0 && existing > 0) {
+        console.warn(`⚠️ Hospital ${toId} already has stock; records of ${fromId} were left in place`);
+        return false;
+    }
+
+    await BloodInventory.updateMany({ hospital_id: fromId }, { hospital_id: toId });
+    await BloodUnit.updateMany({ hospital_id: fromId }, { hospital_id: toId });
+    await BloodRequest.updateMany({ servingHospital: fromId }, { servingHospital: toId });
+    await BloodRequest.updateMany(
+        { 'routedTo.hospital': fromId },
+        { $set: { 'routedTo.$[entry].hospital': toId } },
+        { arrayFilters: [{ 'entry.hospital': fromId }] }
+    );
+    return true;
+};
+
+/**
+ * Find the directory record for a staff account, or create one
+ * Only an exact email match links to an existing record; anything else gets a
+ * new unverified record, kept out of search and routing until an admin
+ * approves it (PUT /api/admin/hospitals/:id/approve).
+ * Directory emails are public, so the match only counts once the account has
+ * verified that address; until then the account is left unlinked.
+ * @param {Object} user - Staff user
+ * @param {Object} details - { hospital_name, address, city, state, pincode, latitude, longitude }
+ * @returns {Object|null} - Hospital document, or null while the matching email is unverified
+ */
+const findOrCreateHospital = async (user, details = {}) => {
+    const byEmail = await Hospital.findOne({ email: user.email });
+    if (byEmail) return user.verified ? byEmail : null;
+
+    const location = details.address || user.location || '';
+    const city = details.city || location.split(',')[0].trim() || 'unknown';
+    const placed = await resolveLocation({
+        latitude: details.latitude,
+        longitude: details.longitude,
+        text: location,
+        pincode: details.pincode,
+        city: details.city
+    });
+
+    return Hospital.create({
+        name: details.hospital_name || user.profile?.hospitalName || user.name,
+        email: user.email,
+        phone: user.phone,
+        address: location || city,
+        city,
+        state: details.state,
+        pincode: details.pincode,
+        location: placed ? { type: 'Point', coordinates: placed.coordinates } : undefined,
+        verified: false,
+        isActive: false
+    });
+};
+
+/**
+ * Link a staff account to its hospital and move any stock it held directly
+ * @param {Object} user - Staff user document
+ * @param {Object} details - Registration details (see findOrCreateHospital)
+ * @returns {Object|null} - Hospital document, or null until the account's email is verified
+ */
+export const linkStaffAccount = async (user, details = {}) => {
+    if (user.hospital) return Hospital.findById(user.hospital);
+
+    const hospital = await findOrCreateHospital(user, details);
+    if (!hospital) return null;
+
+    user.hospital = hospital._id;
+    await User.updateOne({ _id: user._id }, { hospital: hospital._id });
+
+    // Stock recorded before accounts were linked was keyed to the staff user
+    await rekeyHospitalData(user._id, hospital._id);
+
+    console.log(`🔗 Linked hospital staff ${user.email} to ${hospital.name}`);
+    return hospital;
+};
+
+/**
+ * Move a staff account to another directory record (admin)
+ * Stock follows the account when the target hospital has none.
+ * @returns {Object} - { hospital, moved }
+ */
+export const relinkStaffAccount = async (user, hospitalId) => {
+    if (!mongoose.isValidObjectId(hospitalId)) return { hospital: null, moved: false };
+
+    const hospital = await Hospital.findById(hospitalId);
+    if (!hospital) return { hospital: null, moved: false };
+
+    const previous = user.hospital;
+    user.hospital = hospital._id;
+    await User.updateOne({ _id: user._id }, { hospital: hospital._id });
+
+    // Only move stock when no one else still works for the previous hospital
+    const colleagues = previous
+        ? await User.countDocuments({ hospital: previous, _id: { $ne: user._id } })
+        : 0;
+    const moved = previous && colleagues === 0
+        ? await rekeyHospitalData(previous, hospital._id)
+        : false;
+
+    return { hospital, moved };
+};
+
+/**
+ * Link every staff account that has no hospital yet (run on startup)
+ * @returns {Number} - Number of accounts linked
+ */
+export const linkUnlinkedStaff = async () => {
+    const unlinked = await User.find({ role: 'hospital', hospital: { $exists: false } });
+
+    let linked = 0;
+    for (const user of unlinked) {
+        if (await linkStaffAccount(user)) linked++;
+    }
+
+    return linked;
+};
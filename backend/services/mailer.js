@@ -0,0 +1,92 @@
+/**
+ * Mailer
+ *
+ * Delivers account messages (verification links, password reset links and
+ * phone codes) straight to one address. Unlike notifications they are not
+ * kept in an inbox, not subject to notification preferences and not retried.
+ * - channels: the notification providers (services/notificationChannels.js):
+ *             SMTP for email, the SMS gateway for text messages
+ * - outbox:   local stand-in that writes each message to a file in
+ *             MAIL_OUTBOX_DIR, so links and codes can be opened by hand
+ * MAILER picks one (default: outbox, or channels in production).
+ *
+ * A mailer is { name, send({ channel, to, subject, text }) }; channel is
+ * 'email' or 'sms' and to is a user (name, email, phone).
+ */
+
+import crypto from 'crypto';
+import fs from 'fs/promises';
+import path from 'path';
+import { getChannelAdapter } from './notificationChannels.js';
+
+// Defaults
+const DEFAULT_OUTBOX_DIR = 'outbox';
+
+const channelMailer = {
+    name: 'channels',
+    send: async ({ channel, to, subject, text }) => {
+        const adapter = getChannelAdapter(channel);
+        if (!adapter) throw new Error(`No ${channel} provider is configured`);
+
+        return adapter.send({ channel, to, title: subject, message: text });
+    }
+};
+
+const outboxMailer = {
+    name: 'outbox',
+    send: async ({ channel, to, subject, text }) => {
+        const dir = process.env.MAIL_OUTBOX_DIR || DEFAULT_OUTBOX_DIR;
+        const address = channel === 'sms' ? to.phone : to.email;
+        const sentAt = new Date();
+
+        // Sortable by time; the random part keeps same-millisecond messages apart
+        const fileName = `${sentAt.toISOString().replace(/[:.]/g, '-')}-${channel}-${crypto.randomBytes(3).toString('hex')}.txt`;
+        const file = path.join(dir, fileName);
+
+        await fs.mkdir(dir, { recursive: true });
+        await fs.writeFile(file, [
+            `To: ${to.name} <${address}>`,
+            `Channel: ${channel}`,
+            `Subject: ${subject}`,
+            `Date: ${sentAt.toISOString()}`,
+            '',
+            text,
+            ''
+        ].join('\n'));
+
+        console.log(`📬 Outbox: ${channel} to ${address} - ${subject} (${file})`);
+        return { status: 'delivered', reference: fileName };
+    }
+};
+
+const mailers = {
+    channels: channelMailer,
+    outbox: outboxMailer
+};
+
+/**
+ * Replace or add a mailer (e.g. a transactional email service)
+ * @param {String} name - Value of MAILER that selects it
+ * @param {Object} mailer - { name, send }
+ */
+export const registerMailer = (name, mailer) => {
+    mailers[name] = mailer;
+};
+
+/**
+ * The mailer picked by MAILER
+ */
+export const getMailer = () => {
+    const name = process.env.MAILER || (process.env.NODE_ENV === 'production' ? 'channels' : 'outbox');
+    const mailer = mailers[name];
+    if (!mailer) throw new Error(`Unknown mailer: ${name}`);
+    return mailer;
+};
+
+/**
+ * Send an account message
+ * @param {Object} message - { channel: 'email' | 'sms', to, subject, text }
+ */
+export const sendAccountMessage = async (message) => {
+    return getMailer().send(message);
+};
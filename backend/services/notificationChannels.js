@@ -0,0 +1,139 @@
+/**
+ * Notification Channels
+ *
+ * Delivery adapters used by the notification dispatcher, one per channel:
+ * - email:   SMTP (SMTP_HOST, SMTP_PORT, SMTP_SECURE, SMTP_USER, SMTP_PASS, SMTP_FROM)
+ * - sms:     HTTP SMS gateway (SMS_GATEWAY_URL, SMS_GATEWAY_API_KEY, SMS_SENDER_ID)
+ * - app:     in-app, pushed live to open sessions (services/realtime.js)
+ * - console: local stand-in that logs, and appends to NOTIFICATION_LOG_FILE when set
+ *
+ * An adapter is { name, isConfigured(), send({ channel, to, title, message, notification }) }
+ * and send resolves { status: 'sent' | 'delivered', reference? } or throws.
+ * Outside production, channels without provider settings use the console stand-in.
+ */
+
+import fs from 'fs/promises';
+import path from 'path';
+import nodemailer from 'nodemailer';
+import { publishNotification } from './realtime.js';
+
+let transport = null;
+
+const getTransport = () => {
+    if (!transport) {
+        transport = nodemailer.createTransport({
+            host: process.env.SMTP_HOST,
+            port: parseInt(process.env.SMTP_PORT) || 587,
+            secure: process.env.SMTP_SECURE === 'true',
+            auth: process.env.SMTP_USER
+                ? { user: process.env.SMTP_USER, pass: process.env.SMTP_PASS }
+                : undefined
+        });
+    }
+    return transport;
+};
+
+const emailAdapter = {
+    name: 'smtp',
+    isConfigured: () => Boolean(process.env.SMTP_HOST),
+    send: async ({ to, title, message }) => {
+        if (!to.email) throw new Error('Recipient has no email address');
+
+        const info = await getTransport().sendMail({
+            from: process.env.SMTP_FROM || process.env.SMTP_USER,
+            to: to.email,
+            subject: title || 'RaktSetu notification',
+            text: message
+        });
+        return { status: 'sent', reference: info.messageId };
+    }
+};
+
+const smsAdapter = {
+    name: 'sms_gateway',
+    isConfigured: () => Boolean(process.env.SMS_GATEWAY_URL),
+    send: async ({ to, message }) => {
+        if (!to.phone) throw new Error('Recipient has no phone number');
+
+        const response = await fetch(process.env.SMS_GATEWAY_URL, {
+            method: 'POST',
+            headers: {
+                'Content-Type': 'application/json',
+                ...(process.env.SMS_GATEWAY_API_KEY && { Authorization: `Bearer ${process.env.SMS_GATEWAY_API_KEY}` })
+            },
+            body: JSON.stringify({
+                to: to.phone,
+                sender: process.env.SMS_SENDER_ID || 'RKTSTU',
+                message
+            })
+        });
+
+        if (!response.ok) {
+            throw new Error(`SMS gateway responded with ${response.status}`);
+        }
+
+        const body = await response.json().catch(() => ({}));
+        return {
+            status: body.status === 'delivered' ? 'delivered' : 'sent',
+            reference: body.id || body.message_id
+        };
+    }
+};
+
+const appAdapter = {
+    name: 'in_app',
+    isConfigured: () => true,
+    send: async ({ to, title, message, notification }) => {
+        const reached = publishNotification([to._id], {
+            id: notification._id,
+            type: notification.type,
+            title,
+            message,
+            link: notification.link
+        });
+        // Stored notifications stay in the donor's inbox until they next log in
+        return { status: reached > 0 ? 'delivered' : 'sent' };
+    }
+};
+
+const consoleAdapter = {
+    name: 'console',
+    isConfigured: () => true,
+    send: async ({ channel, to, title, message }) => {
+        const address = channel === 'sms' ? to.phone : to.email;
+        const line = `[${new Date().toISOString()}] ${channel} → ${to.name} <${address}>: ${title ? `${title} - ` : ''}${message}`;
+
+        console.log(`📨 ${line}`);
+
+        if (process.env.NOTIFICATION_LOG_FILE) {
+            await fs.mkdir(path.dirname(process.env.NOTIFICATION_LOG_FILE), { recursive: true });
+            await fs.appendFile(process.env.NOTIFICATION_LOG_FILE, `${line}\n`);
+        }
+        return { status: 'delivered' };
+    }
+};
+
+const adapters = {
+    email: emailAdapter,
+    sms: smsAdapter,
+    app: appAdapter,
+    console: consoleAdapter
+};
+
+/**
+ * Replace or add the adapter for a channel (e.g. another SMS provider)
+ */
+export const registerChannelAdapter = (channel, adapter) => {
+    adapters[channel] = adapter;
+};
+
+/**
+ * Get the adapter that delivers a channel
+ * @returns {Object|null} - Adapter, or null when the channel cannot be delivered
+ */
+export const getChannelAdapter = (channel) => {
+    const adapter = adapters[channel];
+    if (adapter?.isConfigured()) return adapter;
+
+    return process.env.NODE_ENV === 'production' ? null : adapters.console;
+};
@@ -0,0 +1,137 @@
+/**
+ * Notification Dispatcher
+ *
+ * Stores a notification for a user and delivers it on every channel the user
+ * has switched on (see User.notificationPreferences). Each channel is tracked
+ * separately; failed attempts are retried with backoff by
+ * jobs/notificationRetry.js until NOTIFICATION_MAX_ATTEMPTS is reached.
+ */
+
+import Notification from '../models/Notification.js';
+import User from '../models/User.js';
+import { getChannelAdapter } from './notificationChannels.js';
+
+// Defaults
+const DEFAULT_MAX_ATTEMPTS = 3;
+const RETRY_DELAYS_MINUTES = [1, 5, 15, 60];
+
+// Channels offered to users, in delivery order
+const PREFERENCE_CHANNELS = ['app', 'email', 'sms'];
+
+/**
+ * Get the channels a user wants notifications on
+ * Falls back to in-app so a notification is never dropped.
+ * @returns {Array} - Channel names
+ */
+export const getPreferredChannels = (user) => {
+    const preferences = user.notificationPreferences || {};
+    const channels = PREFERENCE_CHANNELS.filter(channel => preferences[channel]);
+    return channels.length > 0 ? channels : ['app'];
+};
+
+/**
+ * Make one attempt on a single channel and record the outcome
+ */
+const attemptDelivery = async (notification, delivery, recipient) => {
+    const maxAttempts = parseInt(process.env.NOTIFICATION_MAX_ATTEMPTS) || DEFAULT_MAX_ATTEMPTS;
+
+    delivery.attempts += 1;
+    delivery.last_attempt_at = new Date();
+
+    try {
+        const adapter = getChannelAdapter(delivery.channel);
+        if (!adapter) throw new Error(`No provider is configured for ${delivery.channel}`);
+
+        const result = await adapter.send({
+            channel: delivery.channel,
+            to: recipient,
+            title: notification.title,
+            message: notification.message,
+            notification
+        });
+
+        delivery.provider = adapter.name;
+        delivery.reference = result.reference;
+        delivery.status = result.status || 'sent';
+        delivery.last_error = undefined;
+        delivery.next_attempt_at = undefined;
+        if (delivery.status === 'delivered') delivery.delivered_at = new Date();
+
+    } catch (error) {
+        delivery.last_error = error.message;
+
+        if (delivery.attempts >= maxAttempts) {
+            delivery.status = 'failed';
+            delivery.next_attempt_at = undefined;
+        } else {
+            const delay = RETRY_DELAYS_MINUTES[Math.min(delivery.attempts - 1, RETRY_DELAYS_MINUTES.length - 1)];
+            delivery.status = 'pending';
+            delivery.next_attempt_at = new Date(Date.now() + delay * 60 * 1000);
+        }
+
+        console.error(`❌ ${delivery.channel} delivery of notification ${notification._id} failed (attempt ${delivery.attempts}/${maxAttempts}): ${error.message}`);
+    }
+};
+
+/**
+ * Store a notification and deliver it on the recipient's channels
+ * @param {Object} details - { recipient (User document), hospitalId, senderModel ('User' or 'Hospital'), type, title, message, link }
+ * @returns {Object} - Saved Notification document
+ */
+export const dispatchNotification = async ({ recipient, hospitalId, senderModel, type, title, message, link }) => {
+    const channels = getPreferredChannels(recipient);
+
+    const notification = new Notification({
+        donor_id: recipient._id,
+        hospital_id: hospitalId,
+        sender_model: senderModel,
+        type,
+        title,
+        message,
+        link,
+        delivery_method: channels[0],
+        deliveries: channels.map(channel => ({ channel })),
+        sent_at: new Date()
+    });
+
+    // Saved first so it is already in the inbox when the in-app push arrives
+    await notification.save();
+
+    for (const delivery of notification.deliveries) {
+        await attemptDelivery(notification, delivery, recipient);
+    }
+
+    notification.refreshStatus();
+    await notification.save();
+
+    return notification;
+};
+
+/**
+ * Retry every channel delivery whose backoff has elapsed
+ * @returns {Number} - Number of notifications retried
+ */
+export const retryPendingDeliveries = async () => {
+    const due = await Notification.findDueRetries();
+    const now = new Date();
+
+    for (const notification of due) {
+        const recipient = await User.findById(notification.donor_id);
+        const retries = notification.deliveries.filter(d => d.status === 'pending' && d.next_attempt_at <= now);
+
+        for (const delivery of retries) {
+            if (recipient) {
+                await attemptDelivery(notification, delivery, recipient);
+            } else {
+                delivery.status = 'failed';
+                delivery.last_error = 'Recipient no longer exists';
+                delivery.next_attempt_at = undefined;
+            }
+        }
+
+        notification.refreshStatus();
+        await notification.save();
+    }
+
+    return due.length;
+};
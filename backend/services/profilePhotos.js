@@ -0,0 +1,146 @@
+/**
+ * Profile Photos
+ *
+ * Uploaded profile photos are re-encoded server-side into square WebP
+ * avatars, one per AVATAR_SIZES entry, and kept in public storage
+ * (services/storage.js). Re-encoding drops EXIF data such as GPS position.
+ * user.profilePicture holds the URL of the largest size; the previous
+ * photo's files are deleted when a new one is saved.
+ */
+
+import crypto from 'crypto';
+import fs from 'fs/promises';
+import path from 'path';
+import sharp from 'sharp';
+import User from '../models/User.js';
+import { getStorage, getPublicUrl } from './storage.js';
+
+// Storage key prefix of profile photos
+export const AVATAR_PREFIX = 'avatars/';
+
+// Square sizes (px) every photo is resized to, largest first
+export const AVATAR_SIZES = [256, 128, 64];
+
+// Folder and URL prefix photos were served from before storage drivers
+const LEGACY_UPLOAD_DIR = 'uploads';
+const LEGACY_URL_PREFIX = '/uploads/';
+
+const WEBP_QUALITY = 82;
+
+/**
+ * Resize a photo into every avatar size
+ * @param {Buffer} buffer - Uploaded image
+ * @returns {Array} - [{ size, body }]
+ */
+export const resizeAvatar = async (buffer) => {
+    // First frame only for animated GIFs; rotate() applies the EXIF orientation
+    const image = sharp(buffer, { animated: false, limitInputPixels: 40_000_000 }).rotate();
+
+    return Promise.all(AVATAR_SIZES.map(async (size) => ({
+        size,
+        body: await image.clone()
+            .resize(size, size, { fit: 'cover', position: 'attention' })
+            .webp({ quality: WEBP_QUALITY })
+            .toBuffer()
+    })));
+};
+
+/**
+ * URLs of every size of a user's photo
+ * @returns {Object} - { 256: url, 128: url, 64: url } (empty without a stored photo)
+ */
+export const getAvatarUrls = (user) => {
+    const urls = {};
+    for (const key of user.profilePhotoKeys || []) {
+        const size = key.match(/-(\d+)\.webp$/)?.[1];
+        if (size) urls[size] = getPublicUrl(key);
+    }
+    return urls;
+};
+
+/**
+ * Delete the files of a photo (stored or legacy)
+ * Failures are logged; the storage cleanup job removes what is left.
+ * @param {Object} photo - { profilePicture, profilePhotoKeys }
+ */
+const removePhotoFiles = async ({ profilePicture, profilePhotoKeys }) => {
+    const storage = getStorage();
+
+    for (const key of profilePhotoKeys || []) {
+        try {
+            await storage.remove(key);
+        } catch (error) {
+            console.error(`⚠️ Could not delete profile photo ${key}:`, error.message);
+        }
+    }
+
+    if (profilePicture?.startsWith(LEGACY_URL_PREFIX)) {
+        const legacyPath = path.join(LEGACY_UPLOAD_DIR, path.basename(profilePicture));
+        await fs.unlink(legacyPath).catch(() => { });
+    }
+};
+
+/**
+ * Store a new profile photo on the user and delete the one it replaces
+ * @param {Object} user - User document (profilePicture and profilePhotoKeys are saved)
+ * @param {Buffer} buffer - Uploaded image (checked by uploadProfilePhoto)
+ * @param {Object} options - { timestamps: false to leave updatedAt alone }
+ * @returns {Object} - The user
+ */
+export const saveProfilePhoto = async (user, buffer, { timestamps = true } = {}) => {
+    const storage = getStorage();
+    const versions = await resizeAvatar(buffer);
+
+    // A fresh name per upload, so browsers and CDNs can cache photos forever
+    const baseKey = `${AVATAR_PREFIX}${user._id}-${crypto.randomBytes(6).toString('hex')}`;
+    const keys = [];
+
+    for (const { size, body } of versions) {
+        const key = `${baseKey}-${size}.webp`;
+        await storage.put(key, body, 'image/webp');
+        keys.push(key);
+    }
+
+    const previous = { profilePicture: user.profilePicture, profilePhotoKeys: [...(user.profilePhotoKeys || [])] };
+
+    user.profilePhotoKeys = keys;
+    user.profilePicture = getPublicUrl(keys[0]);
+    await User.updateOne({ _id: user._id }, {
+        profilePicture: user.profilePicture,
+        profilePhotoKeys: keys
+    }, { timestamps });
+
+    // Only once the user points at the new photo
+    await removePhotoFiles(previous);
+    return user;
+};
+
+/**
+ * Move photos from the old public uploads folder into storage
+ * Each is resized like a new upload and the original deleted.
+ * @returns {Number} - Users whose photo was moved
+ */
+export const migrateLegacyProfilePhotos = async () => {
+    const users = await User.find({ profilePicture: { $regex: `^${LEGACY_URL_PREFIX}` } })
+        .select('profilePicture profilePhotoKeys');
+    let moved = 0;
+
+    for (const user of users) {
+        const legacyPath = path.join(LEGACY_UPLOAD_DIR, path.basename(user.profilePicture));
+
+        try {
+            // Not a real profile change, so leave updatedAt alone
+            await saveProfilePhoto(user, await fs.readFile(legacyPath), { timestamps: false });
+            moved++;
+        } catch (error) {
+            console.error(`⚠️ Could not move profile photo ${user.profilePicture}:`, error.message);
+
+            // The file is gone, so the user can upload a new photo; otherwise retry next start
+            if (error.code === 'ENOENT') {
+                await User.updateOne({ _id: user._id }, { profilePicture: '' }, { timestamps: false });
+            }
+        }
+    }
+
+    return moved;
+};
@@ -0,0 +1,171 @@
+/**
+ * Questionnaire Service
+ *
+ * Validates questionnaire edits from admins, scores quiz answers against a
+ * questionnaire version and turns disqualifying answers into deferrals.
+ */
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const MAX_QUESTIONS = 50;
+const MAX_OPTIONS = 10;
+
+const isBlank = (value) => typeof value !== 'string' || value.trim() === '';
+
+/**
+ * Check and clean questionnaire fields sent by an admin
+ * @param {Object} body - { questions, pass_percentage?, notes? }
+ * @returns {Object} - { error } or { questions, passPercentage, notes }
+ */
+export const parseQuestionnaire = (body) => {
+    const { questions, pass_percentage, notes } = body;
+
+    if (!Array.isArray(questions) || questions.length === 0) {
+        return { error: 'At least one question is required' };
+    }
+    if (questions.length > MAX_QUESTIONS) {
+        return { error: `A questionnaire can have at most ${MAX_QUESTIONS} questions` };
+    }
+
+    const passPercentage = pass_percentage === undefined ? undefined : Number(pass_percentage);
+    if (passPercentage !== undefined && !(passPercentage >= 0 && passPercentage <= 100)) {
+        return { error: 'Pass percentage must be between 0 and 100' };
+    }
+
+    const ids = new Set();
+    const cleaned = [];
+
+    for (const [index, question] of questions.entries()) {
+        const label = `Question ${index + 1}`;
+        const id = Number(question.id);
+
+        if (!Number.isInteger(id) || id < 1) return { error: `${label}: ID must be a positive whole number` };
+        if (ids.has(id)) return { error: `${label}: ID ${id} is used twice` };
+        ids.add(id);
+
+        if (isBlank(question.question)) return { error: `${label}: Question text is required` };
+        if (!Array.isArray(question.options) || question.options.length < 2) {
+            return { error: `${label}: At least two options are required` };
+        }
+        if (question.options.length > MAX_OPTIONS) {
+            return { error: `${label}: At most ${MAX_OPTIONS} options are allowed` };
+        }
+
+        const values = new Set();
+        const options = [];
+
+        for (const option of question.options) {
+            if (isBlank(option.value) || isBlank(option.label)) {
+                return { error: `${label}: Every option needs a value and a label` };
+            }
+            const value = option.value.trim();
+            if (values.has(value)) return { error: `${label}: Option value "${value}" is used twice` };
+            values.add(value);
+
+            const weight = Number(option.weight ?? 0);
+            if (!(weight >= 0)) return { error: `${label}: Option weights cannot be negative` };
+
+            const cleanedOption = { value, label: option.label.trim(), weight };
+
+            if (option.deferral) {
+                const { code, days, message } = option.deferral;
+                if (isBlank(code) || isBlank(message)) {
+                    return { error: `${label}: Disqualifying options need a deferral code and message` };
+                }
+                const deferralDays = days === null || days === undefined || days === '' ? null : Number(days);
+                if (deferralDays !== null && !(Number.isInteger(deferralDays) && deferralDays >= 0)) {
+                    return { error: `${label}: Deferral days must be a whole number, or empty for a staff review` };
+                }
+                cleanedOption.deferral = { code: code.trim(), days: deferralDays, message: message.trim() };
+            }
+
+            options.push(cleanedOption);
+        }
+
+        cleaned.push({
+            id,
+            category: question.category?.trim() || undefined,
+            question: question.question.trim(),
+            options
+        });
+    }
+
+    return {
+        questions: cleaned,
+        passPercentage,
+        notes: typeof notes === 'string' ? notes.trim() : undefined
+    };
+};
+
+/**
+ * Score quiz answers against a questionnaire
+ * @param {Object} questionnaire - Questionnaire document
+ * @param {Object} answers - Question ID → selected option value
+ * @param {Date} answeredAt - Deferrals run from this day
+ * @returns {Object} - { error } or { answers, score, maxScore, percentage, passed, deferrals },
+ *                     answers keeping only the questionnaire's questions
+ */
+export const scoreQuiz = (questionnaire, answers, answeredAt = new Date()) => {
+    let score = 0;
+    let maxScore = 0;
+    const answered = {};
+    const deferrals = [];
+
+    for (const question of questionnaire.questions) {
+        const option = question.options.find(opt => opt.value === answers[question.id]);
+        if (!option) {
+            return { error: `Please answer: ${question.question}` };
+        }
+
+        answered[question.id] = option.value;
+        score += option.weight;
+        maxScore += Math.max(...question.options.map(opt => opt.weight));
+
+        if (option.deferral) {
+            deferrals.push({
+                code: option.deferral.code,
+                message: option.deferral.message,
+                until: option.deferral.days === null
+                    ? null
+                    : new Date(answeredAt.getTime() + option.deferral.days * DAY_MS)
+            });
+        }
+    }
+
+    const percentage = maxScore > 0 ? Math.round((score / maxScore) * 100) : 100;
+
+    return {
+        answers: answered,
+        score,
+        maxScore,
+        percentage,
+        passed: deferrals.length === 0 && percentage >= questionnaire.passPercentage,
+        deferrals
+    };
+};
+
+/**
+ * Format a questionnaire for API responses
+ */
+export const formatQuestionnaire = (questionnaire) => ({
+    id: questionnaire._id,
+    version: questionnaire.version,
+    status: questionnaire.status,
+    pass_percentage: questionnaire.passPercentage,
+    notes: questionnaire.notes || null,
+    questions: questionnaire.questions.map(question => ({
+        id: question.id,
+        category: question.category || null,
+        question: question.question,
+        options: question.options.map(option => ({
+            value: option.value,
+            label: option.label,
+            weight: option.weight,
+            deferral: option.deferral
+                ? { code: option.deferral.code, days: option.deferral.days, message: option.deferral.message }
+                : null
+        }))
+    })),
+    created_at: questionnaire.createdAt,
+    activated_at: questionnaire.activatedAt || null
+});
@@ -0,0 +1,227 @@
+/**
+ * Realtime Service
+ *
+ * Pushes live updates to logged-in browsers over Server-Sent Events (SSE).
+ * Every connection is tagged with its user, role and linked hospital so an
+ * event only reaches the people it concerns:
+ * - inventory:    a hospital's stock changed (its staff, admins)
+ * - request:      a blood request was created or changed (requester, routed
+ *                 and serving hospitals, admins)
+ * - appointment:  a donation appointment was booked or changed (donor, hospital)
+ * - notification: a message for specific users
+ * - user:         an account was created, changed or removed (admins)
+ *
+ * Browsers open a stream with a stream ticket rather than their access token,
+ * so no bearer token ends up in URLs and access logs. A ticket is only good
+ * for opening one stream, once, within STREAM_TICKET_SECONDS. Open streams
+ * re-check their sign-in session and close once it has ended.
+ */
+
+import crypto from 'crypto';
+import { isSessionActive } from './sessions.js';
+
+// Comment line sent periodically so proxies keep idle streams open (seconds)
+const HEARTBEAT_SECONDS = 25;
+
+// How often an open stream checks its session is still active (seconds)
+const SESSION_CHECK_SECONDS = 60;
+
+// Lifetime of a stream ticket (seconds)
+const STREAM_TICKET_SECONDS = 30;
+
+// Delay before the browser reconnects after a dropped stream (ms)
+const RETRY_MS = 5000;
+
+// connection id → { res, userId, role, hospitalId }
+const clients = new Map();
+let nextClientId = 1;
+
+// ticket → { userId, sessionId, expiresAt }
+const tickets = new Map();
+
+const toId = (value) => (value?._id || value)?.toString();
+
+const send = (res, event, data) => {
+    res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+};
+
+/**
+ * Issue a single-use ticket for opening an event stream
+ * @param {Object} user - Authenticated user
+ * @param {String} sessionId - Session the ticket belongs to
+ * @returns {Object} - { ticket, expiresAt }
+ */
+export const createStreamTicket = (user, sessionId) => {
+    const now = Date.now();
+    for (const [key, grant] of tickets) {
+        if (grant.expiresAt <= now) tickets.delete(key);
+    }
+
+    const ticket = crypto.randomBytes(24).toString('base64url');
+    const expiresAt = now + STREAM_TICKET_SECONDS * 1000;
+    tickets.set(ticket, { userId: user._id.toString(), sessionId, expiresAt });
+
+    return { ticket, expiresAt: new Date(expiresAt) };
+};
+
+/**
+ * Use up a stream ticket
+ * @returns {Object|null} - { userId, sessionId }, or null when unknown, used or expired
+ */
+export const redeemStreamTicket = (ticket) => {
+    const grant = typeof ticket === 'string' && tickets.get(ticket);
+    if (!grant) return null;
+
+    tickets.delete(ticket);
+    return grant.expiresAt > Date.now() ? grant : null;
+};
+
+/**
+ * Open an event stream for an authenticated request
+ * The response stays open until the browser disconnects or the session ends.
+ * @param {Object} req - Express request with req.user (and req.sessionId) set
+ * @param {Object} res - Express response
+ */
+export const addClient = (req, res) => {
+    res.writeHead(200, {
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache',
+        'Connection': 'keep-alive',
+        'X-Accel-Buffering': 'no'
+    });
+    res.write(`retry: ${RETRY_MS}\n\n`);
+
+    const id = nextClientId++;
+    clients.set(id, {
+        res,
+        userId: req.user._id.toString(),
+        role: req.user.role,
+        hospitalId: toId(req.user.hospital)
+    });
+    send(res, 'connected', { at: new Date() });
+
+    const heartbeat = setInterval(() => res.write(': ping\n\n'), HEARTBEAT_SECONDS * 1000);
+
+    const close = () => {
+        clearInterval(heartbeat);
+        clearInterval(sessionCheck);
+        clients.delete(id);
+    };
+
+    // Stop delivering once the user logs out or the session is revoked
+    const sessionCheck = setInterval(async () => {
+        try {
+            if (!(await isSessionActive(req.sessionId, req.user._id))) {
+                close();
+                res.end();
+            }
+        } catch (error) {
+            console.error('⚠️ Event stream session check failed:', error.message);
+        }
+    }, SESSION_CHECK_SECONDS * 1000);
+
+    req.on('close', close);
+};
+
+/**
+ * Send an event to every connection in the audience
+ * @param {String} event - Event name
+ * @param {Object} data - JSON payload
+ * @param {Object} audience - { userIds, hospitalIds, roles }
+ * @returns {Number} - Number of connections reached
+ */
+export const publish = (event, data, audience = {}) => {
+    const userIds = new Set((audience.userIds || []).filter(Boolean).map(toId));
+    const hospitalIds = new Set((audience.hospitalIds || []).filter(Boolean).map(toId));
+    const roles = audience.roles || [];
+    let delivered = 0;
+
+    for (const client of clients.values()) {
+        const inAudience = userIds.has(client.userId) ||
+            (client.hospitalId && hospitalIds.has(client.hospitalId)) ||
+            roles.includes(client.role);
+
+        if (inAudience) {
+            send(client.res, event, data);
+            delivered++;
+        }
+    }
+
+    return delivered;
+};
+
+/**
+ * Announce new stock levels of a hospital
+ * @param {String} hospitalId - Hospital whose stock changed
+ * @param {Array} rows - Updated BloodInventory rows
+ */
+export const publishInventoryChange = (hospitalId, rows = []) => {
+    return publish('inventory', {
+        hospitalId: toId(hospitalId),
+        rows: rows.filter(Boolean).map(row => ({
+            blood_group: row.blood_group,
+            component: row.component,
+            units_available: row.units_available,
+            is_low_stock: row.isLowStock()
+        })),
+        at: new Date()
+    }, { hospitalIds: [hospitalId], roles: ['admin'] });
+};
+
+/**
+ * Announce a created, changed or deleted blood request
+ * @param {Object} request - BloodRequest document
+ * @param {String} action - 'created' | 'updated' | 'deleted'
+ */
+export const publishRequestChange = (request, action = 'updated') => {
+    return publish('request', {
+        id: request._id.toString(),
+        action,
+        status: request.status,
+        bloodGroup: request.bloodGroup,
+        component: request.component,
+        unitsRequested: request.unitsRequested,
+        urgency: request.urgency,
+        updatedAt: request.updatedAt || new Date()
+    }, {
+        userIds: [request.requesterId],
+        hospitalIds: [...(request.routedTo || []).map(r => r.hospital), request.servingHospital],
+        roles: ['admin']
+    });
+};
+
+/**
+ * Announce a booked, changed or cancelled donation appointment
+ * @param {Object} donation - Donation document booked in a slot
+ * @param {String} action - 'booked' | 'rescheduled' | 'cancelled' | 'checked_in' | 'completed'
+ */
+export const publishAppointmentChange = (donation, action = 'updated') => {
+    return publish('appointment', {
+        id: donation._id.toString(),
+        action,
+        status: donation.status,
+        donationDate: donation.donationDate,
+        hospitalId: toId(donation.hospital)
+    }, {
+        userIds: [donation.donorId],
+        hospitalIds: [donation.hospital]
+    });
+};
+
+/**
+ * Deliver a notification to specific users
+ * @param {Array} userIds - Recipients
+ * @param {Object} notification - { type, title, message }
+ */
+export const publishNotification = (userIds, notification) => {
+    return publish('notification', { ...notification, createdAt: new Date() }, { userIds });
+};
+
+/**
+ * Tell admins an account was created, changed or removed
+ * @param {Object} user - User document
+ * @param {String} action - 'created' | 'updated' | 'deleted'
+ */
+export const publishUserChange = (user, action = 'updated') => {
+    return publish('user', { id: user._id.toString(), role: user.role, action }, { roles: ['admin'] });
+};
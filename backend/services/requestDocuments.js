@@ -0,0 +1,153 @@
+/**
+ * Request Documents
+ *
+ * Prescriptions and requisition forms attached to blood requests. They carry
+ * patient details, so files are kept private in storage (services/storage.js)
+ * and are only handed out as short-lived signed URLs to:
+ * - the requester
+ * - admins
+ * - staff of hospitals the request was routed to or is served by
+ * Admins and those hospitals review the requisition; seeker requests must be
+ * verified before they can be approved (see BloodRequest.transitionTo).
+ */
+
+import crypto from 'crypto';
+import fs from 'fs/promises';
+import path from 'path';
+import { getStorage, getSignedUrl } from './storage.js';
+
+// Storage key prefix of request documents
+export const DOCUMENT_PREFIX = 'documents/';
+
+// Folder documents were written to before storage drivers
+const LEGACY_DOCUMENT_DIR = 'private_uploads';
+
+// Kinds of document a requester can attach
+export const DOCUMENT_KINDS = ['prescription', 'requisition', 'other'];
+
+/**
+ * Storage key of a document
+ */
+export const getDocumentKey = (document) => DOCUMENT_PREFIX + document.fileName;
+
+/**
+ * Check whether a hospital staff user's hospital handles a request
+ */
+const isHandlingHospital = (request, user) => {
+    if (user.role !== 'hospital' || !user.hospital) return false;
+
+    const hospitalId = user.hospital.toString();
+    const servingId = (request.servingHospital?._id || request.servingHospital)?.toString();
+    return servingId === hospitalId || Boolean(request.getRouting(hospitalId));
+};
+
+/**
+ * Check whether a user may open a request's documents
+ */
+export const canViewDocuments = (request, user) => {
+    const requesterId = (request.requesterId?._id || request.requesterId).toString();
+    return user.role === 'admin' || requesterId === user._id.toString() || isHandlingHospital(request, user);
+};
+
+/**
+ * Check whether a user may verify or reject a request's requisition
+ */
+export const canReviewDocuments = (request, user) => {
+    const requesterId = (request.requesterId?._id || request.requesterId).toString();
+    return user.role === 'admin' || (requesterId !== user._id.toString() && isHandlingHospital(request, user));
+};
+
+/**
+ * Store uploaded files (checked by uploadDocuments)
+ * @param {Array} files - req.files from uploadDocuments
+ * @param {String} kind - Document kind for all files
+ * @returns {Array} - Document details for BloodRequest.addDocuments
+ */
+export const storeDocuments = async (files = [], kind = 'requisition') => {
+    const storage = getStorage();
+
+    const documents = [];
+    for (const file of files) {
+        // Unguessable, and named after the detected type rather than the upload
+        const fileName = `document-${Date.now()}-${crypto.randomBytes(8).toString('hex')}${file.extension}`;
+
+        await storage.put(DOCUMENT_PREFIX + fileName, file.buffer, file.mimetype);
+        documents.push({
+            kind,
+            originalName: file.originalname,
+            fileName,
+            mimeType: file.mimetype,
+            size: file.size
+        });
+    }
+
+    return documents;
+};
+
+/**
+ * Short-lived link to open a document
+ * @returns {Object} - { url, expiresAt }
+ */
+export const getDocumentUrl = (document) => {
+    return getSignedUrl(getDocumentKey(document), { fileName: document.originalName || document.fileName });
+};
+
+/**
+ * Delete stored document files (missing files are ignored)
+ * Files that could not be deleted are left for the storage cleanup job.
+ */
+export const removeDocuments = async (documents = []) => {
+    const storage = getStorage();
+
+    for (const document of documents) {
+        try {
+            await storage.remove(getDocumentKey(document));
+        } catch (error) {
+            console.error(`⚠️ Could not delete document ${document.fileName}:`, error.message);
+        }
+    }
+};
+
+/**
+ * Move documents from the old private_uploads folder into storage
+ * Keeps the file names, so request.documents entries still point at them.
+ * @returns {Number} - Files moved
+ */
+export const migrateLegacyDocuments = async () => {
+    let fileNames;
+    try {
+        fileNames = await fs.readdir(LEGACY_DOCUMENT_DIR);
+    } catch (error) {
+        if (error.code === 'ENOENT') return 0;
+        throw error;
+    }
+
+    const storage = getStorage();
+    let moved = 0;
+
+    for (const fileName of fileNames) {
+        const filePath = path.join(LEGACY_DOCUMENT_DIR, fileName);
+        if (!(await fs.stat(filePath)).isFile()) continue;
+
+        await storage.put(DOCUMENT_PREFIX + fileName, await fs.readFile(filePath));
+        await fs.unlink(filePath);
+        moved++;
+    }
+
+    return moved;
+};
+
+/**
+ * Format a document for API responses
+ * @param {Object} request - BloodRequest the document belongs to
+ * @param {Object} document - Entry in request.documents
+ */
+export const formatDocument = (request, document) => ({
+    id: document._id,
+    kind: document.kind,
+    original_name: document.originalName,
+    mime_type: document.mimeType,
+    size: document.size,
+    uploaded_at: document.uploadedAt,
+    url: `/api/requests/${request._id}/documents/${document._id}`
+});
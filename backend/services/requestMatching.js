@@ -0,0 +1,107 @@
+/**
+ * Request Matching Service
+ *
+ * Routes a blood request to the hospitals that can serve it: hospitals within
+ * a radius of the request (or in the same city when its location could not be
+ * placed, see services/geocoding.js) whose inventory holds stock compatible
+ * with the patient's group.
+ * Matched hospitals see the request in their "Incoming requests" inbox.
+ */
+
+import Hospital from '../models/Hospital.js';
+import BloodInventory from '../models/BloodInventory.js';
+import User from '../models/User.js';
+
+// Default search radius around the request (km)
+const DEFAULT_RADIUS_KM = 25;
+
+/**
+ * Get the city / district at the start of a request's free-text location
+ * ("District, State - Pincode")
+ * @returns {String|undefined}
+ */
+export const getRequestPlace = (request) => {
+    return request.location?.split(/[,-]/)[0]?.trim() || undefined;
+};
+
+/**
+ * Find directory hospitals near the request
+ * Uses the request's coordinates, or the city / district at the start of the
+ * free-text location ("District, State - Pincode") when it has none.
+ * @returns {Array} - Hospital documents
+ */
+const findHospitalsNear = async (request, radiusKm) => {
+    if (request.coordinates?.length === 2) {
+        const [longitude, latitude] = request.coordinates;
+        return Hospital.findNearby(longitude, latitude, radiusKm);
+    }
+
+    const place = getRequestPlace(request);
+    if (!place) return [];
+
+    return Hospital.searchByLocation(place);
+};
+
+/**
+ * Find hospitals that can serve a request
+ * @param {Object} request - BloodRequest document
+ * @param {Object} options - { radiusKm }
+ * @returns {Array} - [{ hospital, availableUnits, canCover }], full cover first
+ */
+export const findCandidateHospitals = async (request, options = {}) => {
+    const radiusKm = options.radiusKm || parseFloat(process.env.REQUEST_MATCH_RADIUS_KM) || DEFAULT_RADIUS_KM;
+
+    const hospitals = await findHospitalsNear(request, radiusKm);
+    if (hospitals.length === 0) return [];
+
+    // A hospital raising a request is not asked to serve it
+    const requester = request.requesterType === 'hospital'
+        ? await User.findById(request.requesterId).select('hospital')
+        : null;
+    const excludedId = requester?.hospital?.toString();
+
+    const nearbyIds = new Set(hospitals.map(h => h._id.toString()));
+    const stock = await BloodInventory.findCompatibleStock(request.bloodGroup, request.component);
+    const remaining = request.remainingUnits();
+
+    return stock
+        .filter(entry => nearbyIds.has(entry.hospital_id.toString()))
+        .filter(entry => entry.hospital_id.toString() !== excludedId)
+        .map(entry => ({
+            hospital: entry.hospital_id,
+            availableUnits: entry.total_units,
+            canCover: entry.total_units >= remaining
+        }))
+        .sort((a, b) => (b.canCover - a.canCover) || (b.availableUnits - a.availableUnits));
+};
+
+/**
+ * Route a pending request to matching hospitals
+ * Hospitals that already responded are not asked again; hospitals still
+ * pending keep their place with refreshed stock.
+ * @param {Object} request - BloodRequest document (saved by the caller)
+ * @returns {Number} - Number of hospitals newly routed to
+ */
+export const routeRequest = async (request, options = {}) => {
+    const candidates = await findCandidateHospitals(request, options);
+    let added = 0;
+
+    for (const candidate of candidates) {
+        const existing = request.getRouting(candidate.hospital);
+        if (existing) {
+            if (existing.status === 'pending' || existing.status === 'accepted') {
+                existing.availableUnits = candidate.availableUnits;
+            }
+            continue;
+        }
+
+        request.routedTo.push({
+            hospital: candidate.hospital,
+            availableUnits: candidate.availableUnits
+        });
+        added++;
+    }
+
+    console.log(`🧭 Routed request ${request._id} to ${added} new hospitals (${candidates.length} matched)`);
+    return added;
+};
@@ -0,0 +1,236 @@
+/**
+ * Sessions
+ *
+ * Sign-in sessions with short-lived access tokens and rotating refresh tokens:
+ * - the access token (JWT, ACCESS_TOKEN_EXPIRES_IN) is sent as a Bearer header
+ *   and names its session, so ending the session locks it out at once
+ * - the refresh token lives in an httpOnly cookie scoped to /api/auth and is
+ *   swapped for a new one on every refresh; a session ends after
+ *   REFRESH_TOKEN_DAYS without a refresh
+ * - presenting a refresh token that was already swapped (outside a short grace
+ *   period) means it was copied, so the whole session is ended
+ */
+
+import crypto from 'crypto';
+import jwt from 'jsonwebtoken';
+import mongoose from 'mongoose';
+import Session from '../models/Session.js';
+
+// Defaults
+const DEFAULT_ACCESS_TOKEN_EXPIRES_IN = '15m';
+const DEFAULT_REFRESH_TOKEN_DAYS = 30;
+
+// Seconds a just-replaced refresh token is still honoured (parallel tabs)
+const ROTATION_GRACE_SECONDS = 30;
+
+export const REFRESH_COOKIE = 'raktsetu_refresh';
+const REFRESH_COOKIE_PATH = '/api/auth';
+
+/**
+ * Raised when a refresh token cannot be used
+ */
+export class SessionError extends Error { }
+
+const hashToken = (secret) => crypto.createHash('sha256').update(secret).digest('hex');
+
+const newSecret = () => crypto.randomBytes(32).toString('base64url');
+
+const getRefreshExpiry = () => {
+    const days = parseInt(process.env.REFRESH_TOKEN_DAYS) || DEFAULT_REFRESH_TOKEN_DAYS;
+    return new Date(Date.now() + days * 24 * 60 * 60 * 1000);
+};
+
+const describeClient = (req) => ({
+    userAgent: req.get('user-agent')?.slice(0, 300),
+    ip: req.ip
+});
+
+/**
+ * Read the refresh token cookie
+ */
+export const readRefreshToken = (req) => {
+    for (const part of (req.headers.cookie || '').split(';')) {
+        const [name, ...value] = part.trim().split('=');
+        if (name === REFRESH_COOKIE) return decodeURIComponent(value.join('='));
+    }
+    return null;
+};
+
+const setRefreshCookie = (res, refreshToken, expiresAt) => {
+    res.cookie(REFRESH_COOKIE, refreshToken, {
+        httpOnly: true,
+        secure: process.env.NODE_ENV === 'production',
+        sameSite: 'lax',
+        path: REFRESH_COOKIE_PATH,
+        expires: expiresAt
+    });
+};
+
+export const clearRefreshCookie = (res) => {
+    res.clearCookie(REFRESH_COOKIE, { path: REFRESH_COOKIE_PATH });
+};
+
+/**
+ * Access token for a session
+ * @returns {Object} - { token, tokenExpiresAt }
+ */
+const issueAccessToken = (userId, sessionId) => {
+    const token = jwt.sign({ id: userId, sid: sessionId }, process.env.JWT_SECRET, {
+        expiresIn: process.env.ACCESS_TOKEN_EXPIRES_IN || DEFAULT_ACCESS_TOKEN_EXPIRES_IN
+    });
+    return { token, tokenExpiresAt: new Date(jwt.decode(token).exp * 1000) };
+};
+
+/**
+ * Sign a user in on this device: create a session and set its refresh cookie
+ * @param {Object} req - Express request (device details)
+ * @param {Object} res - Express response (cookie)
+ * @param {Object} user - User document
+ * @returns {Object} - { token, tokenExpiresAt }
+ */
+export const startSession = async (req, res, user) => {
+    const secret = newSecret();
+    const session = await Session.create({
+        user: user._id,
+        tokenHash: hashToken(secret),
+        expiresAt: getRefreshExpiry(),
+        ...describeClient(req)
+    });
+
+    setRefreshCookie(res, `${session._id}.${secret}`, session.expiresAt);
+    return issueAccessToken(user._id, session._id);
+};
+
+/**
+ * Trade the refresh cookie for a new access token, rotating the refresh token
+ * @returns {Object} - { session, token, tokenExpiresAt }
+ * @throws {SessionError} - Missing, unknown, ended or reused refresh token
+ */
+export const refreshSession = async (req, res) => {
+    const [sessionId, secret] = (readRefreshToken(req) || '').split('.');
+    if (!secret || !mongoose.isValidObjectId(sessionId)) {
+        throw new SessionError('No active session');
+    }
+
+    const hash = hashToken(secret);
+    const nextSecret = newSecret();
+    const now = new Date();
+
+    // Only one refresh can claim the current token
+    let session = await Session.findOneAndUpdate(
+        { _id: sessionId, tokenHash: hash, revokedAt: null, expiresAt: { $gt: now } },
+        {
+            tokenHash: hashToken(nextSecret),
+            previousTokenHash: hash,
+            rotatedAt: now,
+            lastUsedAt: now,
+            expiresAt: getRefreshExpiry(),
+            ...describeClient(req)
+        },
+        { new: true }
+    );
+
+    if (session) {
+        setRefreshCookie(res, `${session._id}.${nextSecret}`, session.expiresAt);
+        return { session, ...issueAccessToken(session.user, session._id) };
+    }
+
+    session = await Session.findById(sessionId);
+    if (!session || !session.isActive(now)) {
+        throw new SessionError('Session has ended. Please log in again.');
+    }
+
+    // Another tab refreshed a moment ago; the browser already has the new cookie
+    const graceEnds = session.rotatedAt && session.rotatedAt.getTime() + ROTATION_GRACE_SECONDS * 1000;
+    if (hash === session.previousTokenHash && graceEnds > now.getTime()) {
+        return { session, ...issueAccessToken(session.user, session._id) };
+    }
+
+    // An old or forged token: assume it was stolen and end the session
+    session.revoke('token_reuse');
+    await session.save();
+    console.warn(`🚫 Refresh token reuse on session ${session._id}; session ended`);
+    throw new SessionError('Session has ended. Please log in again.');
+};
+
+/**
+ * Session named by a valid Bearer access token, if any
+ */
+const getBearerSessionId = (req) => {
+    const [scheme, token] = (req.headers.authorization || '').split(' ');
+    if (scheme !== 'Bearer' || !token) return null;
+
+    try {
+        return jwt.verify(token, process.env.JWT_SECRET).sid || null;
+    } catch (error) {
+        return null;
+    }
+};
+
+/**
+ * End the session behind the request's access token or refresh cookie
+ */
+export const endSession = async (req, res) => {
+    const sessionId = getBearerSessionId(req);
+    let session = null;
+
+    if (sessionId) {
+        session = await Session.findById(sessionId);
+    } else {
+        // The cookie must hold the session's token, not just its id
+        const [id, secret] = (readRefreshToken(req) || '').split('.');
+        if (secret && mongoose.isValidObjectId(id)) {
+            const hash = hashToken(secret);
+            session = await Session.findOne({ _id: id, $or: [{ tokenHash: hash }, { previousTokenHash: hash }] });
+        }
+    }
+
+    if (session) {
+        await session.revoke('logout').save();
+    }
+    clearRefreshCookie(res);
+};
+
+/**
+ * Check an access token's session is still active
+ */
+export const isSessionActive = async (sessionId, userId) => {
+    if (!mongoose.isValidObjectId(sessionId)) return false;
+
+    const session = await Session.findById(sessionId).select('user revokedAt expiresAt');
+    return Boolean(session && session.isActive() && session.user.equals(userId));
+};
+
+/**
+ * Short device name from a user agent, e.g. "Chrome on Windows"
+ */
+export const describeDevice = (userAgent = '') => {
+    const browser = [
+        ['Edge', /Edg\//], ['Opera', /OPR\//], ['Samsung Internet', /SamsungBrowser/],
+        ['Chrome', /Chrome\//], ['Firefox', /Firefox\//], ['Safari', /Safari\//]
+    ].find(([, pattern]) => pattern.test(userAgent))?.[0];
+
+    const os = [
+        ['Android', /Android/], ['iOS', /iPhone|iPad|iPod/], ['Windows', /Windows/],
+        ['macOS', /Mac OS X/], ['Linux', /Linux/]
+    ].find(([, pattern]) => pattern.test(userAgent))?.[0];
+
+    if (browser && os) return `${browser} on ${os}`;
+    return browser || os || 'Unknown device';
+};
+
+/**
+ * Format a session for API responses
+ * @param {Object} session - Session document
+ * @param {String} currentId - Session the request was made with
+ */
+export const formatSession = (session, currentId) => ({
+    id: session._id,
+    device: describeDevice(session.userAgent),
+    user_agent: session.userAgent || null,
+    ip: session.ip || null,
+    created_at: session.createdAt,
+    last_used_at: session.lastUsedAt,
+    expires_at: session.expiresAt,
+    current: Boolean(currentId) && session._id.toString() === currentId.toString()
+});
@@ -0,0 +1,393 @@
+/**
+ * File Storage
+ *
+ * Where uploaded files live, behind one driver interface so the backend can
+ * move from local disk to object storage without touching the routes:
+ * - local: a folder on disk (STORAGE_LOCAL_DIR)
+ * - s3:    an S3-compatible bucket (S3_ENDPOINT, S3_REGION, S3_BUCKET,
+ *          S3_ACCESS_KEY_ID, S3_SECRET_ACCESS_KEY). Path-style URLs, so a
+ *          local MinIO server works as a stand-in for AWS S3.
+ * STORAGE_DRIVER picks the driver (default: local).
+ *
+ * A driver is { name, put(key, body, contentType), get(key), remove(key),
+ * list(prefix), signedUrl?(key, { expiresIn, fileName }) }. get resolves
+ * { body, contentType } or null when the file is missing; list resolves
+ * [{ key, size, lastModified }].
+ *
+ * Files under PUBLIC_PREFIXES (profile photos) are served to anyone through
+ * GET /api/files/<key>. Everything else is private and is only reachable
+ * through a signed URL that expires after SIGNED_URL_TTL_SECONDS.
+ */
+
+import crypto from 'crypto';
+import fs from 'fs/promises';
+import path from 'path';
+
+// Defaults
+const DEFAULT_LOCAL_DIR = 'storage';
+const DEFAULT_S3_REGION = 'us-east-1';
+const DEFAULT_SIGNED_URL_TTL_SECONDS = 5 * 60;
+
+// Longest a signed URL may live (the S3 limit)
+const MAX_SIGNED_URL_TTL_SECONDS = 7 * 24 * 60 * 60;
+
+// Key prefixes anyone may read
+export const PUBLIC_PREFIXES = ['avatars/'];
+
+// Base path of the file route (routes/files.js)
+export const FILE_ROUTE = '/api/files';
+
+const CONTENT_TYPES = {
+    '.jpg': 'image/jpeg',
+    '.jpeg': 'image/jpeg',
+    '.png': 'image/png',
+    '.gif': 'image/gif',
+    '.webp': 'image/webp',
+    '.pdf': 'application/pdf'
+};
+
+const sha256 = (data) => crypto.createHash('sha256').update(data).digest('hex');
+const hmac = (key, data) => crypto.createHmac('sha256', key).update(data).digest();
+
+// RFC 3986 encoding, as S3 signatures expect
+const encodeRfc3986 = (text) => encodeURIComponent(text)
+    .replace(/[!'()*]/g, c => `%${c.charCodeAt(0).toString(16).toUpperCase()}`);
+
+const encodeKey = (key) => key.split('/').map(encodeRfc3986).join('/');
+
+const contentTypeFor = (key) => CONTENT_TYPES[path.extname(key).toLowerCase()] || 'application/octet-stream';
+
+/**
+ * Check a storage key: relative, '/'-separated, no '..' or empty segments
+ */
+export const isValidKey = (key) => {
+    return typeof key === 'string' && key.length > 0 && key.length <= 512 &&
+        !key.startsWith('/') && !key.includes('\\') &&
+        key.split('/').every(segment => segment && segment !== '.' && segment !== '..');
+};
+
+const assertKey = (key) => {
+    if (!isValidKey(key)) throw new Error(`Invalid storage key: ${key}`);
+};
+
+export const isPublicKey = (key) => PUBLIC_PREFIXES.some(prefix => key.startsWith(prefix));
+
+const getSignedUrlTtl = (expiresIn) => Math.min(
+    expiresIn || parseInt(process.env.SIGNED_URL_TTL_SECONDS) || DEFAULT_SIGNED_URL_TTL_SECONDS,
+    MAX_SIGNED_URL_TTL_SECONDS
+);
+
+// ---------------------------------------------------------------------------
+// Local disk
+// ---------------------------------------------------------------------------
+
+const getLocalDir = () => path.resolve(process.env.STORAGE_LOCAL_DIR || DEFAULT_LOCAL_DIR);
+
+const localPath = (key) => {
+    assertKey(key);
+    return path.join(getLocalDir(), ...key.split('/'));
+};
+
+const listLocal = async (dir, prefix) => {
+    let entries;
+    try {
+        entries = await fs.readdir(dir, { withFileTypes: true });
+    } catch (error) {
+        if (error.code === 'ENOENT') return [];
+        throw error;
+    }
+
+    const files = [];
+    for (const entry of entries) {
+        const key = prefix + entry.name;
+        if (entry.isDirectory()) {
+            files.push(...await listLocal(path.join(dir, entry.name), `${key}/`));
+        } else if (entry.isFile()) {
+            const stats = await fs.stat(path.join(dir, entry.name));
+            files.push({ key, size: stats.size, lastModified: stats.mtime });
+        }
+    }
+    return files;
+};
+
+const localDriver = {
+    name: 'local',
+    put: async (key, body) => {
+        const filePath = localPath(key);
+        await fs.mkdir(path.dirname(filePath), { recursive: true });
+        await fs.writeFile(filePath, body);
+    },
+    get: async (key) => {
+        try {
+            return { body: await fs.readFile(localPath(key)), contentType: contentTypeFor(key) };
+        } catch (error) {
+            if (error.code === 'ENOENT') return null;
+            throw error;
+        }
+    },
+    remove: async (key) => {
+        try {
+            await fs.unlink(localPath(key));
+        } catch (error) {
+            if (error.code !== 'ENOENT') throw error;
+        }
+    },
+    list: async (prefix = '') => {
+        const files = await listLocal(getLocalDir(), '');
+        return files.filter(file => file.key.startsWith(prefix));
+    }
+    // Signed URLs point at GET /api/files (see signedUrl below)
+};
+
+// ---------------------------------------------------------------------------
+// S3-compatible object storage (AWS Signature Version 4)
+// ---------------------------------------------------------------------------
+
+const getS3Config = () => {
+    const region = process.env.S3_REGION || DEFAULT_S3_REGION;
+    return {
+        endpoint: (process.env.S3_ENDPOINT || `https://s3.${region}.amazonaws.com`).replace(/\/+$/, ''),
+        region,
+        bucket: process.env.S3_BUCKET,
+        accessKeyId: process.env.S3_ACCESS_KEY_ID,
+        secretAccessKey: process.env.S3_SECRET_ACCESS_KEY
+    };
+};
+
+const toAmzDate = (date) => date.toISOString().replace(/[:-]|\.\d{3}/g, '');
+
+const canonicalQuery = (query) => Object.keys(query).sort()
+    .map(name => `${encodeRfc3986(name)}=${encodeRfc3986(String(query[name]))}`)
+    .join('&');
+
+/**
+ * Sign an S3 request, in the Authorization header or (presign) the query string
+ * @returns {Object} - { url, headers }
+ */
+const signS3Request = ({ method, key = '', query = {}, headers = {}, body, presign, expiresIn, now = new Date() }) => {
+    const config = getS3Config();
+    if (!config.bucket || !config.accessKeyId || !config.secretAccessKey) {
+        throw new Error('S3 storage is not configured (S3_BUCKET, S3_ACCESS_KEY_ID, S3_SECRET_ACCESS_KEY)');
+    }
+
+    const url = new URL(config.endpoint);
+    const basePath = url.pathname.replace(/\/+$/, '');
+    const canonicalUri = `${basePath}/${encodeRfc3986(config.bucket)}${key ? `/${encodeKey(key)}` : ''}`;
+
+    const amzDate = toAmzDate(now);
+    const dateStamp = amzDate.slice(0, 8);
+    const scope = `${dateStamp}/${config.region}/s3/aws4_request`;
+    const payloadHash = presign ? 'UNSIGNED-PAYLOAD' : sha256(body || '');
+
+    const signedHeaders = { host: url.host };
+    if (!presign) {
+        signedHeaders['x-amz-content-sha256'] = payloadHash;
+        signedHeaders['x-amz-date'] = amzDate;
+    }
+    for (const [name, value] of Object.entries(headers)) {
+        signedHeaders[name.toLowerCase()] = String(value).trim();
+    }
+    const headerNames = Object.keys(signedHeaders).sort();
+    const signedHeaderList = headerNames.join(';');
+
+    const fullQuery = { ...query };
+    if (presign) {
+        Object.assign(fullQuery, {
+            'X-Amz-Algorithm': 'AWS4-HMAC-SHA256',
+            'X-Amz-Credential': `${config.accessKeyId}/${scope}`,
+            'X-Amz-Date': amzDate,
+            'X-Amz-Expires': expiresIn,
+            'X-Amz-SignedHeaders': signedHeaderList
+        });
+    }
+
+    const canonicalRequest = [
+        method,
+        canonicalUri,
+        canonicalQuery(fullQuery),
+        headerNames.map(name => `${name}:${signedHeaders[name]}\n`).join(''),
+        signedHeaderList,
+        payloadHash
+    ].join('\n');
+
+    const stringToSign = ['AWS4-HMAC-SHA256', amzDate, scope, sha256(canonicalRequest)].join('\n');
+
+    const signingKey = ['s3', 'aws4_request'].reduce(
+        (current, part) => hmac(current, part),
+        hmac(hmac(`AWS4${config.secretAccessKey}`, dateStamp), config.region)
+    );
+    const signature = crypto.createHmac('sha256', signingKey).update(stringToSign).digest('hex');
+
+    if (presign) fullQuery['X-Amz-Signature'] = signature;
+    const queryString = canonicalQuery(fullQuery);
+
+    const requestHeaders = { ...signedHeaders };
+    delete requestHeaders.host;
+    if (!presign) {
+        requestHeaders.authorization = `AWS4-HMAC-SHA256 Credential=${config.accessKeyId}/${scope}, SignedHeaders=${signedHeaderList}, Signature=${signature}`;
+    }
+
+    return {
+        url: `${url.origin}${canonicalUri}${queryString ? `?${queryString}` : ''}`,
+        headers: requestHeaders
+    };
+};
+
+const s3Fetch = async (options) => {
+    const { url, headers } = signS3Request(options);
+    const response = await fetch(url, { method: options.method, headers, body: options.body });
+
+    if (!response.ok && !(options.allowNotFound && response.status === 404)) {
+        const detail = (await response.text()).match(/<Message>([^<]*)<\/Message>/)?.[1];
+        throw new Error(`S3 ${options.method} failed with ${response.status}${detail ? `: ${detail}` : ''}`);
+    }
+    return response;
+};
+
+const unescapeXml = (text) => text
+    .replace(/&lt;/g, '<').replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"').replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&');
+
+const xmlValue = (xml, tag) => {
+    const match = xml.match(new RegExp(`<${tag}>([^<]*)</${tag}>`));
+    return match ? unescapeXml(match[1]) : undefined;
+};
+
+const s3Driver = {
+    name: 's3',
+    put: async (key, body, contentType) => {
+        assertKey(key);
+        await s3Fetch({
+            method: 'PUT',
+            key,
+            body,
+            headers: { 'content-type': contentType || contentTypeFor(key) }
+        });
+    },
+    get: async (key) => {
+        assertKey(key);
+        const response = await s3Fetch({ method: 'GET', key, allowNotFound: true });
+        if (response.status === 404) return null;
+
+        return {
+            body: Buffer.from(await response.arrayBuffer()),
+            contentType: response.headers.get('content-type') || contentTypeFor(key)
+        };
+    },
+    remove: async (key) => {
+        assertKey(key);
+        await s3Fetch({ method: 'DELETE', key, allowNotFound: true });
+    },
+    list: async (prefix = '') => {
+        const files = [];
+        let continuationToken;
+
+        do {
+            const query = { 'list-type': 2, prefix };
+            if (continuationToken) query['continuation-token'] = continuationToken;
+
+            const xml = await (await s3Fetch({ method: 'GET', query })).text();
+            for (const [, contents] of xml.matchAll(/<Contents>([\s\S]*?)<\/Contents>/g)) {
+                files.push({
+                    key: xmlValue(contents, 'Key'),
+                    size: parseInt(xmlValue(contents, 'Size')) || 0,
+                    lastModified: new Date(xmlValue(contents, 'LastModified'))
+                });
+            }
+
+            continuationToken = xmlValue(xml, 'IsTruncated') === 'true'
+                ? xmlValue(xml, 'NextContinuationToken')
+                : undefined;
+        } while (continuationToken);
+
+        return files;
+    },
+    signedUrl: async (key, { expiresIn, fileName }) => {
+        assertKey(key);
+        const query = fileName
+            ? { 'response-content-disposition': `inline; filename="${encodeURIComponent(fileName)}"` }
+            : {};
+        return signS3Request({ method: 'GET', key, query, presign: true, expiresIn }).url;
+    }
+};
+
+const drivers = {
+    local: localDriver,
+    s3: s3Driver
+};
+
+/**
+ * Replace or add a storage driver (e.g. another object store)
+ * @param {String} name - Value of STORAGE_DRIVER that selects it
+ * @param {Object} driver - { name, put, get, remove, list, signedUrl? }
+ */
+export const registerStorageDriver = (name, driver) => {
+    drivers[name] = driver;
+};
+
+/**
+ * The storage driver picked by STORAGE_DRIVER
+ */
+export const getStorage = () => {
+    const name = process.env.STORAGE_DRIVER || 'local';
+    const driver = drivers[name];
+    if (!driver) throw new Error(`Unknown storage driver: ${name}`);
+    return driver;
+};
+
+// ---------------------------------------------------------------------------
+// URLs
+// ---------------------------------------------------------------------------
+
+const getSigningSecret = () => process.env.STORAGE_SIGNING_SECRET || process.env.JWT_SECRET;
+
+const signFileRoute = (key, expires, fileName = '') => {
+    return crypto.createHmac('sha256', getSigningSecret())
+        .update(`${key}\n${expires}\n${fileName}`)
+        .digest('hex');
+};
+
+/**
+ * URL of a public file (profile photos)
+ */
+export const getPublicUrl = (key) => `${FILE_ROUTE}/${encodeKey(key)}`;
+
+/**
+ * Short-lived URL for a private file
+ * Drivers that can sign their own URLs (S3) send the browser straight to the
+ * bucket; otherwise the URL points at GET /api/files with an HMAC signature.
+ * @param {String} key - Storage key
+ * @param {Object} options - { expiresIn (seconds), fileName (shown on download) }
+ * @returns {Object} - { url, expiresAt }
+ */
+export const getSignedUrl = async (key, { expiresIn, fileName } = {}) => {
+    assertKey(key);
+    const ttl = getSignedUrlTtl(expiresIn);
+    const expiresAt = new Date(Date.now() + ttl * 1000);
+    const driver = getStorage();
+
+    if (driver.signedUrl) {
+        return { url: await driver.signedUrl(key, { expiresIn: ttl, fileName }), expiresAt };
+    }
+
+    const expires = Math.floor(expiresAt.getTime() / 1000);
+    const query = new URLSearchParams({ expires, signature: signFileRoute(key, expires, fileName) });
+    if (fileName) query.set('name', fileName);
+
+    return { url: `${getPublicUrl(key)}?${query}`, expiresAt };
+};
+
+/**
+ * Check the signature of a GET /api/files URL
+ * @param {String} key - Storage key
+ * @param {Object} query - { expires, signature, name }
+ */
+export const verifySignedUrl = (key, { expires, signature, name } = {}) => {
+    const expiresAt = parseInt(expires);
+    if (!expiresAt || !signature || expiresAt * 1000 < Date.now()) return false;
+
+    const expected = Buffer.from(signFileRoute(key, expiresAt, name || ''));
+    const given = Buffer.from(String(signature));
+    return expected.length === given.length && crypto.timingSafeEqual(expected, given);
+};
@@ -0,0 +1,118 @@
+/**
+ * Compatibility tests: every table is checked against the ABO/Rh antigen
+ * rules it encodes, rather than against a copy of itself.
+ */
+
+import { test, describe } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+    BLOOD_GROUPS,
+    BLOOD_PRODUCTS,
+    getCompatibleDonorGroups,
+    getCompatibleRecipientGroups,
+    isCompatible,
+    compatibilityRank,
+    matchAvailableGroups
+} from '../config/bloodCompatibility.js';
+
+// 'AB+' → { abo: ['A', 'B'], rh: true }
+const antigens = (group) => {
+    const abo = group.slice(0, -1);
+    return { abo: abo === 'O' ? [] : abo.split(''), rh: group.endsWith('+') };
+};
+
+const includesAll = (list, items) => items.every(item => list.includes(item));
+
+const RULES = {
+    // Donor red cells carry no antigen the recipient lacks
+    red_cells: (donor, recipient) =>
+        includesAll(recipient.abo, donor.abo) && (recipient.rh || !donor.rh),
+    // Donor plasma has no antibody against the recipient's ABO antigens; Rh does not apply
+    plasma: (donor, recipient) => includesAll(donor.abo, recipient.abo),
+    // ABO as plasma; Rh-negative recipients only get Rh-negative platelets
+    platelets: (donor, recipient) =>
+        includesAll(donor.abo, recipient.abo) && (recipient.rh || !donor.rh),
+    // ABO-identical, Rh as red cells
+    whole_blood: (donor, recipient) =>
+        donor.abo.join() === recipient.abo.join() && (recipient.rh || !donor.rh)
+};
+
+describe('compatibility tables', () => {
+    for (const product of BLOOD_PRODUCTS) {
+        test(`${product} follows the antigen rules`, () => {
+            for (const recipient of BLOOD_GROUPS) {
+                const expected = BLOOD_GROUPS
+                    .filter(donor => RULES[product](antigens(donor), antigens(recipient)))
+                    .sort();
+                assert.deepEqual([...getCompatibleDonorGroups(recipient, product)].sort(), expected, `${product} for ${recipient}`);
+            }
+        });
+    }
+
+    test('lists the exact group first', () => {
+        for (const product of BLOOD_PRODUCTS) {
+            for (const group of BLOOD_GROUPS) {
+                assert.equal(getCompatibleDonorGroups(group, product)[0], group);
+                assert.equal(compatibilityRank(group, group, product), 0);
+            }
+        }
+    });
+
+    test('keeps O- red cells for last', () => {
+        for (const group of BLOOD_GROUPS) {
+            assert.equal(getCompatibleDonorGroups(group, 'red_cells').at(-1), 'O-');
+        }
+    });
+});
+
+describe('compatibility lookups', () => {
+    test('default to red cells', () => {
+        assert.deepEqual(getCompatibleDonorGroups('A+'), getCompatibleDonorGroups('A+', 'red_cells'));
+        assert.equal(isCompatible('O-', 'AB+'), true);
+        assert.equal(isCompatible('AB+', 'O-'), false);
+    });
+
+    test('return nothing for an unknown group', () => {
+        assert.deepEqual(getCompatibleDonorGroups('C+'), []);
+        assert.equal(compatibilityRank('O-', 'C+'), -1);
+    });
+
+    test('find recipients as the inverse of donors', () => {
+        assert.deepEqual(getCompatibleRecipientGroups('O-'), BLOOD_GROUPS);
+        assert.deepEqual(getCompatibleRecipientGroups('AB+'), ['AB+']);
+        assert.deepEqual(getCompatibleRecipientGroups('AB+', 'plasma'), BLOOD_GROUPS);
+        assert.deepEqual(getCompatibleRecipientGroups('O+', 'plasma'), ['O+', 'O-']);
+    });
+
+    test('rank incompatible groups as -1', () => {
+        assert.equal(compatibilityRank('A+', 'O+'), -1);
+        assert.ok(compatibilityRank('O-', 'A+') > compatibilityRank('A-', 'A+'));
+    });
+});
+
+describe('matchAvailableGroups', () => {
+    test('matches stock in preference order', () => {
+        assert.deepEqual(matchAvailableGroups(['O-', 'B+', 'A+'], 'A+'), {
+            matchingGroups: ['A+', 'O-'],
+            exactMatch: true,
+            bestRank: 0
+        });
+    });
+
+    test('reports the best compatible group without an exact match', () => {
+        assert.deepEqual(matchAvailableGroups(['O-', 'O+'], 'A+'), {
+            matchingGroups: ['O+', 'O-'],
+            exactMatch: false,
+            bestRank: 2
+        });
+    });
+
+    test('reports no match when nothing compatible is in stock', () => {
+        assert.deepEqual(matchAvailableGroups(['A+', 'AB+'], 'O-'), {
+            matchingGroups: [],
+            exactMatch: false,
+            bestRank: -1
+        });
+        assert.equal(matchAvailableGroups(undefined, 'O-').matchingGroups.length, 0);
+    });
+});
@@ -0,0 +1,136 @@
+/**
+ * Blood unit tests: batch IDs, and receiving and issuing bags all-or-nothing.
+ * Model calls that would reach MongoDB are replaced with node:test mocks.
+ */
+
+import { test, describe, afterEach, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import mongoose from 'mongoose';
+import BloodUnit, { BloodUnitError, generateBatchId } from '../models/BloodUnit.js';
+
+const HOSPITAL_ID = new mongoose.Types.ObjectId();
+
+const duplicateKeyError = (batchIds) => Object.assign(new Error('E11000 duplicate key error'), {
+    code: 11000,
+    writeErrors: batchIds.map(batch_id => ({ getOperation: () => ({ batch_id }) }))
+});
+
+afterEach(() => mock.restoreAll());
+
+describe('generateBatchId', () => {
+    test('encodes the group, collection date and unit ID', () => {
+        const unitId = new mongoose.Types.ObjectId('65a3f0c2e4b0a1b2c3d4e5f6');
+        assert.equal(generateBatchId('O+', new Date('2025-01-14T10:00:00Z'), unitId), 'OPOS-20250114-B2C3D4E5F6');
+        assert.equal(generateBatchId('AB-', new Date('2025-01-14T10:00:00Z'), unitId), 'ABNEG-20250114-B2C3D4E5F6');
+    });
+
+    test('never repeats for units generated together', () => {
+        const date = new Date();
+        const ids = Array.from({ length: 5000 }, () => generateBatchId('A+', date, new mongoose.Types.ObjectId()));
+        assert.equal(new Set(ids).size, ids.length);
+    });
+});
+
+describe('receiveUnits', () => {
+    test('labels bags without a batch ID and keeps printed ones', async () => {
+        const insertMany = mock.method(BloodUnit, 'insertMany', async (docs) => docs);
+
+        const units = await BloodUnit.receiveUnits(HOSPITAL_ID, 'B+', [{}, { batch_id: 'BAG-1' }]);
+
+        assert.equal(insertMany.mock.callCount(), 1);
+        assert.match(units[0].batch_id, /^BPOS-\d{8}-[0-9A-F]{10}$/);
+        assert.equal(units[1].batch_id, 'BAG-1');
+        assert.ok(units.every(unit => !('generated' in unit)));
+    });
+
+    test('retries with new IDs when a generated batch ID is taken', async () => {
+        const attempts = [];
+        mock.method(BloodUnit, 'insertMany', async (docs) => {
+            attempts.push(docs.map(doc => doc.batch_id));
+            if (attempts.length === 1) throw duplicateKeyError([docs[0].batch_id]);
+            return docs;
+        });
+        const deleteMany = mock.method(BloodUnit, 'deleteMany', async () => ({}));
+
+        const units = await BloodUnit.receiveUnits(HOSPITAL_ID, 'A-', [{}, {}]);
+
+        assert.equal(attempts.length, 2);
+        assert.equal(deleteMany.mock.callCount(), 1);
+        assert.notEqual(attempts[1][0], attempts[0][0]);
+        assert.deepEqual(units.map(unit => unit.batch_id), attempts[1]);
+    });
+
+    test('removes every bag and gives up when a printed batch ID is taken', async () => {
+        mock.method(BloodUnit, 'insertMany', async () => {
+            throw duplicateKeyError(['BAG-1']);
+        });
+        const deleteMany = mock.method(BloodUnit, 'deleteMany', async () => ({}));
+
+        await assert.rejects(
+            BloodUnit.receiveUnits(HOSPITAL_ID, 'A-', [{}, { batch_id: 'BAG-1' }]),
+            { code: 11000 }
+        );
+
+        assert.equal(deleteMany.mock.callCount(), 1);
+        assert.equal(deleteMany.mock.calls[0].arguments[0]._id.$in.length, 2);
+    });
+
+    test('rejects expiry dates outside the shelf life', async () => {
+        mock.method(BloodUnit, 'insertMany', async (docs) => docs);
+
+        await assert.rejects(
+            BloodUnit.receiveUnits(HOSPITAL_ID, 'O-', [{ collection_date: '2025-01-10', expiry_date: '2025-01-09' }]),
+            (error) => error instanceof BloodUnitError && error.status === 400
+        );
+        await assert.rejects(
+            BloodUnit.receiveUnits(HOSPITAL_ID, 'O-', [{ collection_date: '2025-01-10', expiry_date: '2026-01-10' }]),
+            (error) => error instanceof BloodUnitError && /shelf life/.test(error.message)
+        );
+    });
+});
+
+describe('taking bags out of stock', () => {
+    const bag = (batch_id) => ({ _id: new mongoose.Types.ObjectId(), batch_id, status: 'available' });
+
+    test('puts claimed bags back when fewer can be issued than asked for', async () => {
+        const shelf = [bag('BAG-1'), bag('BAG-2')];
+        mock.method(BloodUnit, 'countDocuments', async () => 3);
+        mock.method(BloodUnit, 'findOneAndUpdate', async () => shelf.shift() || null);
+        const updateOne = mock.method(BloodUnit, 'updateOne', async () => ({}));
+
+        await assert.rejects(
+            BloodUnit.issueUnits(HOSPITAL_ID, 'A+', 3),
+            (error) => error instanceof BloodUnitError && /Only 2 units/.test(error.message)
+        );
+
+        assert.equal(updateOne.mock.callCount(), 2);
+        for (const call of updateOne.mock.calls) {
+            assert.deepEqual(call.arguments[1], {
+                $set: { status: 'available' },
+                $unset: { issued_at: 1, issued_to: 1, notes: 1 }
+            });
+        }
+    });
+
+    test('refuses a FIFO issue larger than the available stock up front', async () => {
+        mock.method(BloodUnit, 'countDocuments', async () => 1);
+        const findOneAndUpdate = mock.method(BloodUnit, 'findOneAndUpdate', async () => null);
+
+        await assert.rejects(BloodUnit.issueUnits(HOSPITAL_ID, 'A+', 2), BloodUnitError);
+        assert.equal(findOneAndUpdate.mock.callCount(), 0);
+    });
+
+    test('writes surplus bags off as expired with the reason, never as issued', async () => {
+        const shelf = [bag('BAG-1')];
+        const findOneAndUpdate = mock.method(BloodUnit, 'findOneAndUpdate', async () => shelf.shift() || null);
+        mock.method(BloodUnit, 'find', () => ({ sort: async () => [] }));
+
+        await BloodUnit.discardUnits(HOSPITAL_ID, 'A+', 1, { component: 'plasma', notes: 'Not on the shelf' });
+
+        const [filter, update, options] = findOneAndUpdate.mock.calls[0].arguments;
+        assert.equal(filter.component, 'plasma');
+        assert.equal(filter.status, 'available');
+        assert.deepEqual(update, { status: 'expired', notes: 'Not on the shelf' });
+        assert.deepEqual(options.sort, { expiry_date: 1 });
+    });
+});
@@ -0,0 +1,132 @@
+/**
+ * Donor eligibility tests: age, weight, the wait after a donation and
+ * deferrals. The donation lookup is replaced with a node:test mock.
+ */
+
+import { test, describe, afterEach, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import mongoose from 'mongoose';
+import Donation from '../models/Donation.js';
+import { evaluateEligibility, evaluateDonors, getNextEligibleDate } from '../services/eligibility.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const AS_OF = new Date('2025-06-01T00:00:00Z');
+
+const daysBefore = (days) => new Date(AS_OF.getTime() - days * DAY_MS);
+const daysAfter = (days) => new Date(AS_OF.getTime() + days * DAY_MS);
+
+const donor = (profile = {}) => ({
+    _id: new mongoose.Types.ObjectId(),
+    profile: { dateOfBirth: new Date('1990-01-01'), weight: 70, ...profile }
+});
+
+// Completed donations as the aggregate returns them: { donorId, date, component }
+const useDonations = (donations = []) => mock.method(Donation, 'aggregate', async () =>
+    donations.map(({ donorId, date, component }) => ({ _id: donorId, date, component })));
+
+afterEach(() => mock.restoreAll());
+
+describe('getNextEligibleDate', () => {
+    test('waits longer after whole blood than after apheresis', () => {
+        const donated = new Date('2025-01-01T00:00:00Z');
+        assert.deepEqual(getNextEligibleDate(donated, 'whole_blood', 'male'), new Date('2025-04-01T00:00:00Z'));
+        assert.deepEqual(getNextEligibleDate(donated, 'whole_blood', 'female'), new Date('2025-05-01T00:00:00Z'));
+        assert.deepEqual(getNextEligibleDate(donated, 'platelets', 'female'), new Date('2025-01-03T00:00:00Z'));
+        assert.deepEqual(getNextEligibleDate(donated, 'plasma'), new Date('2025-01-15T00:00:00Z'));
+    });
+});
+
+describe('evaluateEligibility', () => {
+    test('clears a donor who meets every rule', async () => {
+        useDonations();
+
+        const result = await evaluateEligibility(donor(), { asOf: AS_OF });
+
+        assert.deepEqual(result, { eligible: true, eligibleFrom: null, requiresReview: false, reasons: [] });
+    });
+
+    test('dates an under-age donor from their 18th birthday', async () => {
+        useDonations();
+
+        const result = await evaluateEligibility(donor({ dateOfBirth: new Date('2008-03-15T00:00:00Z') }), { asOf: AS_OF });
+
+        assert.equal(result.eligible, false);
+        assert.deepEqual(result.reasons.map(reason => reason.code), ['age']);
+        assert.deepEqual(result.eligibleFrom, new Date('2026-03-15T00:00:00Z'));
+        assert.equal(result.requiresReview, false);
+    });
+
+    test('sends permanent reasons to a staff review', async () => {
+        useDonations();
+
+        const result = await evaluateEligibility(donor({ dateOfBirth: new Date('1960-01-01'), weight: 45 }), { asOf: AS_OF });
+
+        assert.deepEqual(result.reasons.map(reason => reason.code), ['age', 'weight']);
+        assert.equal(result.requiresReview, true);
+        assert.equal(result.eligibleFrom, null);
+    });
+
+    test('prefers the recorded donation over the profile date', async () => {
+        const person = donor({ sex: 'female', lastDonation: daysBefore(200) });
+        useDonations([{ donorId: person._id, date: daysBefore(10), component: 'plasma' }]);
+
+        const result = await evaluateEligibility(person, { asOf: AS_OF });
+
+        assert.deepEqual(result.reasons.map(reason => reason.code), ['recent_donation']);
+        assert.deepEqual(result.eligibleFrom, daysAfter(4));
+    });
+
+    test('counts only deferrals that have not ended', async () => {
+        useDonations();
+        const person = donor({
+            deferrals: [
+                { code: 'tattoo', message: 'Tattoo', until: daysAfter(30) },
+                { code: 'illness', message: 'Illness', until: daysBefore(1) }
+            ]
+        });
+
+        const result = await evaluateEligibility(person, { asOf: AS_OF });
+
+        assert.deepEqual(result.reasons.map(reason => reason.code), ['tattoo']);
+        assert.deepEqual(result.eligibleFrom, daysAfter(30));
+    });
+
+    test('ends on the latest of several deferrals', async () => {
+        const person = donor({ lastDonation: daysBefore(60) });
+        useDonations();
+
+        const result = await evaluateEligibility(person, {
+            asOf: AS_OF,
+            deferrals: [{ code: 'surgery', message: 'Surgery', until: daysAfter(120) }]
+        });
+
+        assert.deepEqual(result.reasons.map(reason => reason.code), ['recent_donation', 'surgery']);
+        assert.deepEqual(result.eligibleFrom, daysAfter(120));
+    });
+
+    test('ignores a quiz recent-donation deferral when the donation is on record', async () => {
+        const person = donor({ lastDonation: daysBefore(100) });
+        useDonations();
+
+        const result = await evaluateEligibility(person, {
+            asOf: AS_OF,
+            deferrals: [{ code: 'recent_donation', message: 'Donated recently', until: daysAfter(80) }]
+        });
+
+        assert.equal(result.eligible, true);
+    });
+});
+
+describe('evaluateDonors', () => {
+    test('checks every donor with one donation lookup', async () => {
+        const rested = donor();
+        const recent = donor({ sex: 'male' });
+        const aggregate = useDonations([{ donorId: recent._id, date: daysBefore(30), component: 'whole_blood' }]);
+
+        const results = await evaluateDonors([rested, recent], AS_OF);
+
+        assert.equal(aggregate.mock.callCount(), 1);
+        assert.equal(results.get(rested._id.toString()).eligible, true);
+        assert.deepEqual(results.get(recent._id.toString()).eligibleFrom, daysAfter(60));
+    });
+});
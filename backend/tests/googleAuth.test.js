@@ -0,0 +1,159 @@
+/**
+ * Google sign-in tests: ID tokens are checked against a local JWKS stand-in
+ * (GOOGLE_JWKS_FILE), the same way googleDevToken.js signs them.
+ */
+
+import { test, describe, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import crypto from 'crypto';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import jwt from 'jsonwebtoken';
+import { verifyGoogleCredential, GoogleAuthError } from '../services/googleAuth.js';
+
+const CLIENT_ID = 'raktsetu-test.apps.googleusercontent.com';
+const KEY_ID = 'test-key';
+
+const newKeyPair = () => crypto.generateKeyPairSync('rsa', { modulusLength: 2048 });
+
+describe('verifyGoogleCredential', () => {
+    let dir;
+    let keys;
+    const previousEnv = {};
+
+    const sign = (claims = {}, { privateKey = keys.privateKey, keyid = KEY_ID, ...options } = {}) => jwt.sign({
+        sub: '1234567890',
+        email: 'Donor@Example.com',
+        email_verified: true,
+        name: 'Test Donor',
+        ...claims
+    }, privateKey, {
+        algorithm: 'RS256',
+        keyid,
+        issuer: 'https://accounts.google.com',
+        audience: CLIENT_ID,
+        expiresIn: '1h',
+        ...options
+    });
+
+    const rejects = (credential, status, message) => assert.rejects(
+        verifyGoogleCredential(credential),
+        (error) => {
+            assert.ok(error instanceof GoogleAuthError);
+            assert.equal(error.status, status);
+            if (message) assert.match(error.message, message);
+            return true;
+        }
+    );
+
+    before(async () => {
+        for (const name of ['GOOGLE_CLIENT_ID', 'GOOGLE_JWKS_FILE']) previousEnv[name] = process.env[name];
+
+        keys = newKeyPair();
+        dir = await fs.mkdtemp(path.join(os.tmpdir(), 'raktsetu-google-'));
+        const jwk = { ...keys.publicKey.export({ format: 'jwk' }), kid: KEY_ID, alg: 'RS256', use: 'sig' };
+        await fs.writeFile(path.join(dir, 'jwks.json'), JSON.stringify({ keys: [jwk] }));
+
+        process.env.GOOGLE_CLIENT_ID = `other-client, ${CLIENT_ID}`;
+        process.env.GOOGLE_JWKS_FILE = path.join(dir, 'jwks.json');
+    });
+
+    after(async () => {
+        for (const [name, value] of Object.entries(previousEnv)) {
+            if (value === undefined) delete process.env[name];
+            else process.env[name] = value;
+        }
+        await fs.rm(dir, { recursive: true, force: true });
+    });
+
+    test('accepts a valid token and returns the profile', async () => {
+        assert.deepEqual(await verifyGoogleCredential(sign()), {
+            googleId: '1234567890',
+            email: 'donor@example.com',
+            name: 'Test Donor',
+            picture: undefined
+        });
+    });
+
+    test('accepts the issuer without a scheme', async () => {
+        const profile = await verifyGoogleCredential(sign({}, { issuer: 'accounts.google.com' }));
+        assert.equal(profile.googleId, '1234567890');
+    });
+
+    test('rejects a token for another audience', async () => {
+        await rejects(sign({}, { audience: 'someone-else.apps.googleusercontent.com' }), 401, /Invalid Google credential/);
+    });
+
+    test('rejects a token from another issuer', async () => {
+        await rejects(sign({}, { issuer: 'https://evil.example.com' }), 401, /Invalid Google credential/);
+    });
+
+    test('rejects an expired token', async () => {
+        const expired = sign({ iat: Math.floor(Date.now() / 1000) - 7200 }, { expiresIn: '1h' });
+        await rejects(expired, 401, /expired/);
+    });
+
+    test('rejects a token signed with another key', async () => {
+        await rejects(sign({}, { privateKey: newKeyPair().privateKey }), 401, /Invalid Google credential/);
+    });
+
+    test('rejects a token whose payload was altered', async () => {
+        const [header, , signature] = sign().split('.');
+        const payload = Buffer.from(JSON.stringify({
+            sub: 'attacker',
+            email: 'admin@example.com',
+            email_verified: true,
+            iss: 'https://accounts.google.com',
+            aud: CLIENT_ID,
+            exp: Math.floor(Date.now() / 1000) + 3600
+        })).toString('base64url');
+
+        await rejects(`${header}.${payload}.${signature}`, 401, /Invalid Google credential/);
+    });
+
+    test('rejects a token naming an unknown key', async () => {
+        await rejects(sign({}, { keyid: 'unknown-key' }), 401, /Invalid Google credential/);
+    });
+
+    test('rejects tokens not signed with RS256', async () => {
+        const hs256 = jwt.sign({ sub: '1', email: 'a@example.com', email_verified: true }, 'secret', {
+            algorithm: 'HS256',
+            keyid: KEY_ID,
+            issuer: 'https://accounts.google.com',
+            audience: CLIENT_ID
+        });
+        await rejects(hs256, 401, /Invalid Google credential/);
+
+        const unsigned = jwt.sign({ sub: '1', email: 'a@example.com', email_verified: true }, null, {
+            algorithm: 'none',
+            issuer: 'https://accounts.google.com',
+            audience: CLIENT_ID
+        });
+        await rejects(unsigned, 401, /Invalid Google credential/);
+    });
+
+    test('rejects malformed credentials', async () => {
+        await rejects('not-a-token', 401);
+        await rejects(undefined, 401);
+        await rejects({ credential: sign() }, 401);
+    });
+
+    test('rejects an unverified Google email', async () => {
+        await rejects(sign({ email_verified: false }), 403, /not verified/);
+    });
+
+    test('rejects a token without an email', async () => {
+        await rejects(sign({ email: undefined }), 401, /Invalid Google credential/);
+    });
+
+    test('is unavailable when no client ID is configured', async () => {
+        const clientIds = process.env.GOOGLE_CLIENT_ID;
+        process.env.GOOGLE_CLIENT_ID = '';
+        try {
+            await rejects(sign(), 503, /not configured/);
+        } finally {
+            process.env.GOOGLE_CLIENT_ID = clientIds;
+        }
+    });
+});
@@ -0,0 +1,177 @@
+/**
+ * Request lifecycle tests: allowed transitions per actor, the status history
+ * and the expiry of stale requests. Database calls are replaced with
+ * node:test mocks over in-memory documents.
+ */
+
+import { test, describe, afterEach, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import mongoose from 'mongoose';
+import BloodRequest from '../models/BloodRequest.js';
+import {
+    REQUEST_STATUSES,
+    TERMINAL_STATUSES,
+    REQUEST_TRANSITIONS,
+    canTransition,
+    getAllowedTransitions
+} from '../config/requestLifecycle.js';
+
+const HOUR = 60 * 60 * 1000;
+
+const newId = () => new mongoose.Types.ObjectId();
+
+const user = (role, extra = {}) => ({ _id: newId(), role, ...extra });
+
+const newRequest = (fields = {}) => new BloodRequest({
+    requesterId: newId(),
+    requesterName: 'Test Seeker',
+    requesterType: 'seeker',
+    bloodGroup: 'A+',
+    unitsRequested: 2,
+    urgency: 'high',
+    reason: 'Surgery',
+    contactPhone: '9876543210',
+    ...fields
+});
+
+// Evaluate the subset of MongoDB filters expireStale uses against a document
+const matches = (doc, filter) => Object.entries(filter).every(([path, condition]) => {
+    const value = path.split('.').reduce((current, key) => current?.[key], doc);
+    if (condition && typeof condition === 'object' && !(condition instanceof Date)) {
+        if ('$exists' in condition && (value !== undefined) !== condition.$exists) return false;
+        if ('$lt' in condition && !(value < condition.$lt)) return false;
+        return true;
+    }
+    return value === condition;
+});
+
+afterEach(() => mock.restoreAll());
+
+describe('transition table', () => {
+    test('covers every status and ends at the terminal ones', () => {
+        assert.deepEqual(Object.keys(REQUEST_TRANSITIONS).sort(), [...REQUEST_STATUSES].sort());
+        for (const status of TERMINAL_STATUSES) {
+            assert.deepEqual(getAllowedTransitions(status, ['admin', 'hospital', 'requester', 'system']), []);
+        }
+    });
+
+    test('only moves forward along the happy path', () => {
+        assert.equal(canTransition('pending', 'approved', ['hospital']), true);
+        assert.equal(canTransition('approved', 'reserved', ['hospital']), true);
+        assert.equal(canTransition('reserved', 'dispatched', ['hospital']), true);
+        assert.equal(canTransition('dispatched', 'fulfilled', ['hospital']), true);
+        assert.equal(canTransition('pending', 'fulfilled', ['admin']), false);
+        assert.equal(canTransition('fulfilled', 'pending', ['admin']), false);
+    });
+
+    test('gives each actor only its own moves', () => {
+        assert.deepEqual(getAllowedTransitions('pending', ['requester']), ['cancelled']);
+        assert.deepEqual(getAllowedTransitions('pending', ['system']), ['expired']);
+        assert.deepEqual(getAllowedTransitions('dispatched', ['requester']), []);
+        assert.equal(canTransition('pending', 'rejected', ['hospital']), false);
+        assert.equal(canTransition('pending', 'approved', []), false);
+    });
+});
+
+describe('BloodRequest lifecycle', () => {
+    test('grants hospital rights only to routed or serving hospitals', () => {
+        const routed = newId();
+        const request = newRequest();
+        request.routedTo.push({ hospital: routed });
+
+        assert.deepEqual(request.getActors(user('hospital', { hospital: routed })), ['hospital']);
+        assert.deepEqual(request.getActors(user('hospital', { hospital: newId() })), []);
+        assert.deepEqual(request.getActors(user('hospital')), []);
+        assert.deepEqual(request.getActors(undefined), ['system']);
+
+        request.servingHospital = newId();
+        assert.deepEqual(request.getActors(user('hospital', { hospital: routed })), []);
+    });
+
+    test('records every change in the status history', () => {
+        const admin = user('admin');
+        const request = newRequest({ requesterType: 'hospital' });
+
+        request.transitionTo('approved', admin, 'Stock confirmed');
+        request.transitionTo('reserved', admin);
+
+        assert.equal(request.status, 'reserved');
+        assert.deepEqual(request.statusHistory.map(entry => [entry.from, entry.to, entry.actor]), [
+            ['pending', 'approved', 'admin'],
+            ['approved', 'reserved', 'admin']
+        ]);
+        assert.equal(request.statusHistory[0].note, 'Stock confirmed');
+        assert.ok(request.approvedBy.equals(admin._id));
+    });
+
+    test('makes the accepting hospital the serving one', () => {
+        const hospital = newId();
+        const staff = user('hospital', { hospital });
+        const request = newRequest({ requesterType: 'hospital' });
+        request.routedTo.push({ hospital });
+
+        request.transitionTo('approved', staff);
+
+        assert.ok(request.servingHospital.equals(hospital));
+        assert.equal(request.getRouting(hospital).status, 'accepted');
+    });
+
+    test('refuses moves the user may not make', () => {
+        const requester = user('seeker');
+        const request = newRequest({ requesterId: requester._id, requesterType: 'hospital' });
+
+        assert.throws(() => request.transitionTo('approved', requester), /Cannot move request from pending to approved/);
+        request.transitionTo('cancelled', requester);
+        assert.throws(() => request.transitionTo('pending', user('admin')), /Cannot move request/);
+        assert.equal(request.statusHistory.length, 1);
+    });
+});
+
+describe('expireStale', () => {
+    const useStore = (docs) => {
+        mock.method(BloodRequest, 'find', async (filter) => docs.filter(doc => matches(doc, filter)));
+        mock.method(BloodRequest.prototype, 'save', async function () {
+            return this;
+        });
+    };
+
+    // A request as loaded from the database: new ones carry their initial status
+    const stored = (hoursAgo, fields = {}, withHistory = true) => {
+        const request = newRequest(fields);
+        if (withHistory) {
+            request.statusHistory.push({ from: null, to: request.status, actor: 'requester' });
+        }
+        request.updatedAt = new Date(Date.now() - hoursAgo * HOUR);
+        return request;
+    };
+
+    test('expires pending requests with no progress in time', async () => {
+        const stale = stored(80);
+        const fresh = stored(10);
+        useStore([stale, fresh]);
+
+        const expired = await BloodRequest.expireStale(72);
+
+        assert.deepEqual(expired, [stale]);
+        assert.equal(stale.status, 'expired');
+        assert.equal(stale.statusHistory.at(-1).actor, 'system');
+        assert.equal(fresh.status, 'pending');
+    });
+
+    test('leaves accepted requests to their hospital', async () => {
+        const approved = stored(200, { status: 'approved' });
+        useStore([approved]);
+
+        assert.deepEqual(await BloodRequest.expireStale(72), []);
+        assert.equal(approved.status, 'approved');
+    });
+
+    test('leaves requests raised before the lifecycle existed', async () => {
+        const legacy = stored(24 * 90, {}, false);
+        useStore([legacy]);
+
+        assert.deepEqual(await BloodRequest.expireStale(72), []);
+        assert.equal(legacy.status, 'pending');
+        assert.equal(legacy.statusHistory.length, 0);
+    });
+});
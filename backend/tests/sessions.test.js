@@ -0,0 +1,173 @@
+/**
+ * Session tests: refresh token rotation, the grace period for parallel tabs
+ * and ending a session whose old token is replayed. The Session model is
+ * backed by an in-memory store through node:test mocks.
+ */
+
+import { test, describe, beforeEach, afterEach, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import jwt from 'jsonwebtoken';
+import mongoose from 'mongoose';
+import Session from '../models/Session.js';
+import {
+    REFRESH_COOKIE,
+    SessionError,
+    startSession,
+    refreshSession,
+    endSession,
+    isSessionActive
+} from '../services/sessions.js';
+
+process.env.JWT_SECRET = 'test-secret';
+
+const USER_ID = new mongoose.Types.ObjectId();
+
+let sessions;
+
+// Apply the subset of MongoDB filters the service uses
+const matches = (session, filter) => Object.entries(filter).every(([path, condition]) => {
+    if (path === '$or') return condition.some(option => matches(session, option));
+    const value = session[path];
+    if (path === '_id') return value.equals(condition);
+    if (condition === null) return value == null;
+    if (condition && typeof condition === 'object' && '$gt' in condition) return value > condition.$gt;
+    return value === condition;
+});
+
+const useStore = () => {
+    sessions = [];
+    mock.method(Session, 'create', async (fields) => {
+        const session = new Session(fields);
+        sessions.push(session);
+        return session;
+    });
+    mock.method(Session, 'findById', (id) => {
+        const found = sessions.find(session => session._id.equals(id)) || null;
+        return Object.assign(Promise.resolve(found), { select: async () => found });
+    });
+    mock.method(Session, 'findOne', async (filter) => sessions.find(session => matches(session, filter)) || null);
+    mock.method(Session, 'findOneAndUpdate', async (filter, update) => {
+        const session = sessions.find(candidate => matches(candidate, filter));
+        return session ? session.set(update) : null;
+    });
+    mock.method(Session.prototype, 'save', async function () {
+        return this;
+    });
+};
+
+// Express request and response stand-ins that carry the refresh cookie
+const client = () => {
+    const jar = {};
+    return {
+        jar,
+        req: (headers = {}) => ({
+            headers: { cookie: jar.refresh ? `${REFRESH_COOKIE}=${encodeURIComponent(jar.refresh)}` : '', ...headers },
+            get: () => 'Mozilla/5.0 (Windows NT 10.0) Chrome/120.0',
+            ip: '127.0.0.1'
+        }),
+        res: {
+            cookie: (name, value) => { jar.refresh = value; },
+            clearCookie: () => { delete jar.refresh; }
+        }
+    };
+};
+
+const signIn = async () => {
+    const device = client();
+    const access = await startSession(device.req(), device.res, { _id: USER_ID });
+    return { device, access };
+};
+
+beforeEach(useStore);
+afterEach(() => mock.restoreAll());
+
+describe('startSession', () => {
+    test('stores only a hash of the refresh token and names the session in the access token', async () => {
+        const { device, access } = await signIn();
+
+        const [sessionId, secret] = device.jar.refresh.split('.');
+        assert.equal(sessions.length, 1);
+        assert.equal(sessions[0]._id.toString(), sessionId);
+        assert.notEqual(sessions[0].tokenHash, secret);
+        assert.equal(jwt.verify(access.token, process.env.JWT_SECRET).sid, sessionId);
+    });
+});
+
+describe('refreshSession', () => {
+    test('swaps the refresh token on every refresh', async () => {
+        const { device } = await signIn();
+        const first = device.jar.refresh;
+
+        const { session, token } = await refreshSession(device.req(), device.res);
+
+        assert.notEqual(device.jar.refresh, first);
+        assert.equal(device.jar.refresh.split('.')[0], first.split('.')[0]);
+        assert.equal(jwt.decode(token).sid, session._id.toString());
+        assert.ok(session.previousTokenHash);
+    });
+
+    test('lets a parallel tab use the token that was just replaced', async () => {
+        const { device } = await signIn();
+        const stale = client();
+        stale.jar.refresh = device.jar.refresh;
+        await refreshSession(device.req(), device.res);
+
+        const { session, token } = await refreshSession(stale.req(), stale.res);
+
+        assert.equal(session.isActive(), true);
+        assert.equal(jwt.decode(token).sid, session._id.toString());
+        await refreshSession(device.req(), device.res);
+    });
+
+    test('ends the session when a replaced token comes back after the grace period', async () => {
+        const { device } = await signIn();
+        const copied = client();
+        copied.jar.refresh = device.jar.refresh;
+        await refreshSession(device.req(), device.res);
+        sessions[0].rotatedAt = new Date(Date.now() - 60 * 1000);
+        mock.method(console, 'warn', () => { });
+
+        await assert.rejects(refreshSession(copied.req(), copied.res), SessionError);
+
+        assert.equal(sessions[0].revokedReason, 'token_reuse');
+        await assert.rejects(refreshSession(device.req(), device.res), /Session has ended/);
+    });
+
+    test('ends the session when a forged token names it', async () => {
+        const { device } = await signIn();
+        const forged = client();
+        forged.jar.refresh = `${device.jar.refresh.split('.')[0]}.not-the-secret`;
+        mock.method(console, 'warn', () => { });
+
+        await assert.rejects(refreshSession(forged.req(), forged.res), SessionError);
+        assert.equal(sessions[0].revokedReason, 'token_reuse');
+    });
+
+    test('refuses a request without a refresh cookie', async () => {
+        const device = client();
+        await assert.rejects(refreshSession(device.req(), device.res), /No active session/);
+    });
+});
+
+describe('endSession', () => {
+    test('ends the session behind the access token', async () => {
+        const { device, access } = await signIn();
+
+        await endSession(device.req({ authorization: `Bearer ${access.token}` }), device.res);
+
+        assert.equal(sessions[0].revokedReason, 'logout');
+        assert.equal(device.jar.refresh, undefined);
+        assert.equal(await isSessionActive(sessions[0]._id.toString(), USER_ID), false);
+    });
+
+    test('keeps other devices signed in', async () => {
+        const phone = await signIn();
+        const laptop = await signIn();
+
+        await endSession(phone.device.req(), phone.device.res);
+
+        assert.equal(await isSessionActive(sessions[0]._id.toString(), USER_ID), false);
+        assert.equal(await isSessionActive(sessions[1]._id.toString(), USER_ID), true);
+        await refreshSession(laptop.device.req(), laptop.device.res);
+    });
+});
@@ -0,0 +1,100 @@
+/**
+ * Upload tests: file types come from the content, never the name or declared type.
+ */
+
+import { test, describe, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import express from 'express';
+import { detectFileType, uploadDocuments, uploadProfilePhoto } from '../middleware/upload.js';
+
+const pad = (bytes) => Buffer.concat([Buffer.from(bytes), Buffer.alloc(16)]);
+
+const SAMPLES = {
+    jpeg: pad([0xFF, 0xD8, 0xFF, 0xE0]),
+    png: pad([0x89, 0x50, 0x4E, 0x47, 0x0D, 0x0A, 0x1A, 0x0A]),
+    gif: pad(Buffer.from('GIF89a')),
+    webp: pad(Buffer.from('RIFF\x00\x00\x00\x00WEBPVP8 ', 'latin1')),
+    pdf: pad(Buffer.from('%PDF-1.7\n')),
+    html: pad(Buffer.from('<html><script>alert(1)</script></html>'))
+};
+
+describe('detectFileType', () => {
+    test('recognises supported types by their magic bytes', () => {
+        assert.equal(detectFileType(SAMPLES.jpeg).mimeType, 'image/jpeg');
+        assert.equal(detectFileType(SAMPLES.png).mimeType, 'image/png');
+        assert.equal(detectFileType(SAMPLES.gif).mimeType, 'image/gif');
+        assert.equal(detectFileType(SAMPLES.webp).mimeType, 'image/webp');
+        assert.deepEqual(detectFileType(SAMPLES.pdf), { mimeType: 'application/pdf', extension: '.pdf' });
+    });
+
+    test('rejects unknown, short and empty content', () => {
+        assert.equal(detectFileType(SAMPLES.html), null);
+        assert.equal(detectFileType(Buffer.from('%PDF-')), null);
+        assert.equal(detectFileType(Buffer.alloc(0)), null);
+        assert.equal(detectFileType(undefined), null);
+    });
+});
+
+describe('upload middleware', () => {
+    let server;
+    let baseUrl;
+
+    before(async () => {
+        const app = express();
+        const echo = (req, res) => res.json({
+            files: (req.files || (req.file ? [req.file] : [])).map(file => ({ mimetype: file.mimetype, extension: file.extension }))
+        });
+        app.post('/documents', uploadDocuments, echo);
+        app.post('/photo', uploadProfilePhoto, echo);
+
+        server = app.listen(0, '127.0.0.1');
+        await new Promise(resolve => server.once('listening', resolve));
+        baseUrl = `http://127.0.0.1:${server.address().port}`;
+    });
+
+    after(() => server.close());
+
+    const upload = (route, field, files) => {
+        const form = new FormData();
+        for (const { content, name, type } of files) {
+            form.append(field, new Blob([content], { type }), name);
+        }
+        return fetch(`${baseUrl}${route}`, { method: 'POST', body: form });
+    };
+
+    test('replaces the declared type with the detected one', async () => {
+        const response = await upload('/documents', 'documents', [
+            { content: SAMPLES.png, name: 'prescription.pdf', type: 'application/pdf' }
+        ]);
+
+        assert.equal(response.status, 200);
+        assert.deepEqual((await response.json()).files, [{ mimetype: 'image/png', extension: '.png' }]);
+    });
+
+    test('rejects content disguised as an allowed type', async () => {
+        const response = await upload('/documents', 'documents', [
+            { content: SAMPLES.pdf, name: 'form.pdf', type: 'application/pdf' },
+            { content: SAMPLES.html, name: 'form2.pdf', type: 'application/pdf' }
+        ]);
+
+        assert.equal(response.status, 400);
+        assert.equal((await response.json()).message, 'Only JPG, PNG and PDF documents are allowed');
+    });
+
+    test('applies each upload\'s own list of types', async () => {
+        const document = await upload('/documents', 'documents', [
+            { content: SAMPLES.gif, name: 'scan.gif', type: 'image/gif' }
+        ]);
+        assert.equal(document.status, 400);
+
+        const photo = await upload('/photo', 'profileDetail', [
+            { content: SAMPLES.gif, name: 'me.gif', type: 'image/gif' }
+        ]);
+        assert.equal(photo.status, 200);
+
+        const pdfPhoto = await upload('/photo', 'profileDetail', [
+            { content: SAMPLES.pdf, name: 'me.jpg', type: 'image/jpeg' }
+        ]);
+        assert.equal(pdfPhoto.status, 400);
+    });
+});
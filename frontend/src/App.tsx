@@ -1,16 +1,23 @@
 import React from 'react';
 import { BrowserRouter as Router, Routes, Route } from 'react-router-dom';
 import { AuthProvider } from './contexts/AuthContext';
+import { NotificationProvider } from './contexts/NotificationContext';
 import { ProtectedRoute } from './components/common/ProtectedRoute';
 import { Navbar } from './components/common/Navbar';
 import { Footer } from './components/common/Footer';
+import { VerificationBanner } from './components/common/VerificationBanner';
 
 // Pages
 import { HomePage } from './pages/HomePage';
 import { LoginPage } from './pages/auth/LoginPage';
 import { RegisterPage } from './pages/auth/RegisterPage';
+import { ForgotPasswordPage } from './pages/auth/ForgotPasswordPage';
+import { ResetPasswordPage } from './pages/auth/ResetPasswordPage';
+import { VerifyEmailPage } from './pages/auth/VerifyEmailPage';
 import { AdminDashboard } from './pages/admin/AdminDashboard';
 import { AdminUsersPage } from './pages/admin/AdminUsersPage';
+import { AdminQuestionnairePage } from './pages/admin/AdminQuestionnairePage';
+import { AdminDrivesPage } from './pages/admin/AdminDrivesPage';
 import { DonorDashboard } from './pages/donor/DonorDashboard';
 import { BloodSearchPage } from './pages/seeker/BloodSearchPage';
 import { HospitalDashboard } from './pages/hospital/HospitalDashboard';
@@ -19,97 +26,119 @@ import Seeker1 from './pages/seeker/Seeker1';
 function App() {
   return (
     <AuthProvider>
-      <Router>
-        <div className="min-h-screen bg-gray-50">
-          <Navbar />
-          <main>
-            <Routes>
-              {/* Public Routes */}
-              <Route path="/" element={<HomePage />} />
-              <Route path="/login" element={<LoginPage />} />
-              <Route path="/register" element={<RegisterPage />} />
-              <Route path="/auth/login" element={<LoginPage />} />
-              <Route path="/auth/register" element={<RegisterPage />} />
-              <Route path="/seeker/search" element={<BloodSearchPage />} />
+      <NotificationProvider>
+        <Router>
+          <div className="min-h-screen bg-gray-50">
+            <Navbar />
+            <VerificationBanner />
+            <main>
+              <Routes>
+                {/* Public Routes */}
+                <Route path="/" element={<HomePage />} />
+                <Route path="/login" element={<LoginPage />} />
+                <Route path="/register" element={<RegisterPage />} />
+                <Route path="/auth/login" element={<LoginPage />} />
+                <Route path="/auth/register" element={<RegisterPage />} />
+                <Route path="/forgot-password" element={<ForgotPasswordPage />} />
+                <Route path="/reset-password" element={<ResetPasswordPage />} />
+                <Route path="/verify-email" element={<VerifyEmailPage />} />
+                <Route path="/seeker/search" element={<BloodSearchPage />} />
 
-              {/* Protected Seeker Routes */}
-              <Route
-                path="/seeker/request"
-                element={
-                  <ProtectedRoute allowedRoles={['seeker']}>
-                    <Seeker1 />
-                  </ProtectedRoute>
-                }
-              />
-              <Route
-                path="/seeker/dashboard"
-                element={
-                  <ProtectedRoute allowedRoles={['seeker']}>
-                    <Seeker1 />
-                  </ProtectedRoute>
-                }
-              />
+                {/* Protected Seeker Routes */}
+                <Route
+                  path="/seeker/request"
+                  element={
+                    <ProtectedRoute allowedRoles={['seeker']}>
+                      <Seeker1 />
+                    </ProtectedRoute>
+                  }
+                />
+                <Route
+                  path="/seeker/dashboard"
+                  element={
+                    <ProtectedRoute allowedRoles={['seeker']}>
+                      <Seeker1 />
+                    </ProtectedRoute>
+                  }
+                />
 
-              {/* Protected Admin Routes */}
-              <Route
-                path="/admin/dashboard"
-                element={
-                  <ProtectedRoute allowedRoles={['admin']}>
-                    <AdminDashboard />
-                  </ProtectedRoute>
-                }
-              />
-              <Route
-                path="/admin/users"
-                element={
-                  <ProtectedRoute allowedRoles={['admin']}>
-                    <AdminUsersPage />
-                  </ProtectedRoute>
-                }
-              />
+                {/* Protected Admin Routes */}
+                <Route
+                  path="/admin/dashboard"
+                  element={
+                    <ProtectedRoute allowedRoles={['admin']}>
+                      <AdminDashboard />
+                    </ProtectedRoute>
+                  }
+                />
+                <Route
+                  path="/admin/users"
+                  element={
+                    <ProtectedRoute allowedRoles={['admin']}>
+                      <AdminUsersPage />
+                    </ProtectedRoute>
+                  }
+                />
+                <Route
+                  path="/admin/questionnaire"
+                  element={
+                    <ProtectedRoute allowedRoles={['admin']}>
+                      <AdminQuestionnairePage />
+                    </ProtectedRoute>
+                  }
+                />
+                <Route
+                  path="/admin/drives"
+                  element={
+                    <ProtectedRoute allowedRoles={['admin']}>
+                      <AdminDrivesPage />
+                    </ProtectedRoute>
+                  }
+                />
 
-              {/* Protected Donor Routes */}
-              <Route
-                path="/donor/dashboard"
-                element={
-                  <ProtectedRoute allowedRoles={['donor']}>
-                    <DonorDashboard />
-                  </ProtectedRoute>
-                }
-              />
+                {/* Protected Donor Routes */}
+                <Route
+                  path="/donor/dashboard"
+                  element={
+                    <ProtectedRoute allowedRoles={['donor']}>
+                      <DonorDashboard />
+                    </ProtectedRoute>
+                  }
+                />
 
-              {/* Protected Hospital Routes */}
-              <Route
-                path="/hospital/dashboard"
-                element={
-                  <ProtectedRoute allowedRoles={['hospital']}>
-                    <HospitalDashboard />
-                  </ProtectedRoute>
-                }
-              />
+                {/* Protected Hospital Routes */}
+                <Route
+                  path="/hospital/dashboard"
+                  element={
+                    <ProtectedRoute allowedRoles={['hospital']}>
+                      <HospitalDashboard />
+                    </ProtectedRoute>
+                  }
+                />
 
-              {/* Role-specific login redirects */}
-              <Route path="/admin/login" element={<LoginPage />} />
-              <Route path="/donor/login" element={<LoginPage />} />
-              <Route path="/hospital/login" element={<LoginPage />} />
+                {/* Role-specific login redirects */}
+                <Route path="/admin/login" element={<LoginPage />} />
+                <Route path="/donor/login" element={<LoginPage />} />
+                <Route path="/hospital/login" element={<LoginPage />} />
 
-              {/* Fallback for unauthorized access */}
-              <Route
-                path="/unauthorized"
-                element={
-                  <div className="min-h-screen flex items-center justify-center">
-                    <div className="text-center">
-                      <h1 className="text-2xl font-bold text-gray-900 mb-4">Unauthorized Access</h1>
-                      <p className="text-gray-600">You don't have permission to access this page.</p>
+                {/* Fallback for unauthorized access */}
+                <Route
+                  path="/unauthorized"
+                  element={
+                    <div className="min-h-screen flex items-center justify-center">
+                      <div className="text-center">
+                        <h1 className="text-2xl font-bold text-gray-900 mb-4">Unauthorized Access</h1>
+                        <p className="text-gray-600">You don't have permission to access this page.</p>
+                      </div>
                     </div>
-                  </div>
-                }
-              />
-            </Routes>
-          </main>
-          <Footer />
-        </div>
-      </Router>
+                  }
+                />
+              </Routes>
+            </main>
+            <Footer />
+          </div>
+        </Router>
+      </NotificationProvider>
     </AuthProvider>
   );
 }
@@ -3,6 +3,8 @@
  * 
  * Displays a list of hospitals fetched from the API.
  * Used by blood seekers to find hospitals in their area.
+ * Shows how far each hospital is and whether it is open, with controls to
+ * sort and filter the results (applied by the API).
  */
 
 import React from 'react';
@@ -15,7 +17,10 @@ import {
     Clock,
     Heart,
     ExternalLink,
-    AlertCircle
+    AlertCircle,
+    CheckCircle2,
+    Navigation,
+    Droplet
 } from 'lucide-react';
 
 // Hospital interface matching our API response
@@ -32,15 +37,44 @@ export interface Hospital {
     hasBloodBank: boolean;
     availableBloodGroups?: string[];
     is24x7?: boolean;
+    operatingHours?: { open: string; close: string; is24x7: boolean };
+    openNow?: boolean;
     coordinates?: [number, number];
+    // Null when the searched location could not be placed
+    distanceKm?: number | null;
+    // Present when the search was filtered by patient blood group
+    matchingBloodGroups?: string[];
+    exactMatch?: boolean;
+    compatibleUnits?: number;
 }
 
+export type HospitalType = Hospital['type'];
+export type HospitalSort = 'distance' | 'stock' | 'name';
+
+export interface HospitalFilters {
+    sort: HospitalSort;
+    types: HospitalType[];
+    openNow: boolean;
+}
+
+export const DEFAULT_HOSPITAL_FILTERS: HospitalFilters = { sort: 'distance', types: [], openNow: false };
+
+const HOSPITAL_TYPES: HospitalType[] = ['government', 'private', 'trust', 'clinic'];
+
 interface HospitalListProps {
     hospitals: Hospital[];
     searchedLocation: string;
     isLoading?: boolean;
+    bloodGroup?: string;
+    filters?: HospitalFilters;
+    onFiltersChange?: (filters: HospitalFilters) => void;
 }
 
+// "850 m", "4.2 km"
+const formatDistance = (km: number) => (km < 1 ? `${Math.round(km * 1000)} m` : `${km.toFixed(1)} km`);
+
+const capitalize = (text: string) => text.charAt(0).toUpperCase() + text.slice(1);
+
 // Get badge color based on hospital type
 const getTypeColor = (type: string) => {
     switch (type) {
@@ -58,7 +92,7 @@ const getTypeColor = (type: string) => {
 };
 
 // Individual hospital card
-const HospitalCard: React.FC<{ hospital: Hospital; index: number }> = ({ hospital, index }) => {
+const HospitalCard: React.FC<{ hospital: Hospital; index: number; bloodGroup?: string }> = ({ hospital, index, bloodGroup }) => {
     return (
         <motion.div
             initial={{ opacity: 0, y: 20 }}
@@ -83,9 +117,17 @@ const HospitalCard: React.FC<{ hospital: Hospital; index: number }> = ({ hospita
                         </div>
                     </div>
                 </div>
-                <span className={`px-2 py-1 text-xs font-medium rounded-full border ${getTypeColor(hospital.type)}`}>
-                    {hospital.type.charAt(0).toUpperCase() + hospital.type.slice(1)}
-                </span>
+                <div className="flex flex-col items-end gap-1">
+                    <span className={`px-2 py-1 text-xs font-medium rounded-full border ${getTypeColor(hospital.type)}`}>
+                        {capitalize(hospital.type)}
+                    </span>
+                    {hospital.distanceKm != null && (
+                        <span className="inline-flex items-center px-2 py-1 text-xs font-medium bg-gray-900 text-white rounded-full">
+                            <Navigation className="h-3 w-3 mr-1" />
+                            {formatDistance(hospital.distanceKm)}
+                        </span>
+                    )}
+                </div>
             </div>
 
             {/* Address */}
@@ -101,18 +143,63 @@ const HospitalCard: React.FC<{ hospital: Hospital; index: number }> = ({ hospita
                         Blood Bank Available
                     </span>
                 )}
-                {hospital.is24x7 && (
+                {hospital.is24x7 ? (
                     <span className="inline-flex items-center px-2 py-1 text-xs font-medium bg-green-50 text-green-700 rounded-full">
                         <Clock className="h-3 w-3 mr-1" />
                         24x7 Open
                     </span>
+                ) : hospital.openNow !== undefined && (
+                    <span className={`inline-flex items-center px-2 py-1 text-xs font-medium rounded-full ${hospital.openNow
+                        ? 'bg-green-50 text-green-700'
+                        : 'bg-gray-100 text-gray-600'
+                        }`}>
+                        <Clock className="h-3 w-3 mr-1" />
+                        {hospital.openNow
+                            ? `Open now${hospital.operatingHours ? ` until ${hospital.operatingHours.close}` : ''}`
+                            : `Closed${hospital.operatingHours ? ` - opens ${hospital.operatingHours.open}` : ''}`}
+                    </span>
+                )}
+                {bloodGroup && hospital.compatibleUnits !== undefined && (
+                    <span className="inline-flex items-center px-2 py-1 text-xs font-medium bg-red-50 text-red-700 rounded-full">
+                        <Droplet className="h-3 w-3 mr-1" />
+                        {hospital.compatibleUnits} compatible unit{hospital.compatibleUnits !== 1 ? 's' : ''}
+                    </span>
+                )}
+                {bloodGroup && hospital.matchingBloodGroups && (
+                    <span className={`inline-flex items-center px-2 py-1 text-xs font-medium rounded-full ${hospital.exactMatch
+                        ? 'bg-red-600 text-white'
+                        : 'bg-orange-50 text-orange-700'
+                        }`}>
+                        <CheckCircle2 className="h-3 w-3 mr-1" />
+                        {hospital.exactMatch ? `${bloodGroup} in stock` : `Compatible with ${bloodGroup}`}
+                    </span>
                 )}
             </div>
 
-            {/* Available Blood Groups */}
-            {hospital.availableBloodGroups && hospital.availableBloodGroups.length > 0 && (
+            {/* Compatible Blood Groups (when searching for a patient's group) */}
+            {bloodGroup && hospital.matchingBloodGroups && hospital.matchingBloodGroups.length > 0 && (
+                <div className="mb-4">
+                    <p className="text-xs text-gray-500 mb-2">Compatible for {bloodGroup}:</p>
+                    <div className="flex flex-wrap gap-1">
+                        {hospital.matchingBloodGroups.map((group) => (
+                            <span
+                                key={group}
+                                className={`px-2 py-1 text-xs font-medium rounded ${group === bloodGroup
+                                    ? 'bg-red-600 text-white'
+                                    : 'bg-red-100 text-red-800'
+                                    }`}
+                            >
+                                {group}
+                            </span>
+                        ))}
+                    </div>
+                </div>
+            )}
+
+            {/* Blood groups currently in stock (from live inventory) */}
+            {!bloodGroup && hospital.availableBloodGroups && hospital.availableBloodGroups.length > 0 && (
                 <div className="mb-4">
-                    <p className="text-xs text-gray-500 mb-2">Available Blood Groups:</p>
+                    <p className="text-xs text-gray-500 mb-2">In Stock Now:</p>
                     <div className="flex flex-wrap gap-1">
                         {hospital.availableBloodGroups.map((group) => (
                             <span
@@ -162,12 +249,74 @@ const HospitalCard: React.FC<{ hospital: Hospital; index: number }> = ({ hospita
     );
 };
 
+// Sort and filter controls
+const HospitalControls: React.FC<{
+    filters: HospitalFilters;
+    onChange: (filters: HospitalFilters) => void;
+    bloodGroup?: string;
+}> = ({ filters, onChange, bloodGroup }) => {
+    const toggleType = (type: HospitalType) => {
+        const types = filters.types.includes(type)
+            ? filters.types.filter(t => t !== type)
+            : [...filters.types, type];
+        onChange({ ...filters, types });
+    };
+
+    return (
+        <div className="flex flex-wrap items-center gap-3">
+            <select
+                value={filters.sort}
+                onChange={(e) => onChange({ ...filters, sort: e.target.value as HospitalSort })}
+                className="border border-gray-300 rounded-lg px-3 py-2 text-sm bg-white focus:ring-2 focus:ring-red-500 focus:border-red-500"
+                aria-label="Sort hospitals"
+            >
+                <option value="distance">Nearest first</option>
+                <option value="stock" disabled={!bloodGroup}>Most compatible stock</option>
+                <option value="name">Name (A-Z)</option>
+            </select>
+
+            <div className="flex flex-wrap gap-1">
+                {HOSPITAL_TYPES.map((type) => (
+                    <button
+                        key={type}
+                        type="button"
+                        onClick={() => toggleType(type)}
+                        className={`px-3 py-1.5 text-xs font-medium rounded-full border transition-colors ${filters.types.includes(type)
+                            ? getTypeColor(type)
+                            : 'bg-white text-gray-600 border-gray-300 hover:bg-gray-50'
+                            }`}
+                    >
+                        {capitalize(type)}
+                    </button>
+                ))}
+            </div>
+
+            <label className="flex items-center space-x-2 text-sm text-gray-700">
+                <input
+                    type="checkbox"
+                    checked={filters.openNow}
+                    onChange={(e) => onChange({ ...filters, openNow: e.target.checked })}
+                    className="rounded border-gray-300 text-red-600 focus:ring-red-500"
+                />
+                <span>Open now</span>
+            </label>
+        </div>
+    );
+};
+
 // Main Hospital List Component
 export const HospitalList: React.FC<HospitalListProps> = ({
     hospitals,
     searchedLocation,
-    isLoading = false
+    isLoading = false,
+    bloodGroup,
+    filters,
+    onFiltersChange
 }) => {
+    const controls = filters && onFiltersChange && (
+        <HospitalControls filters={filters} onChange={onFiltersChange} bloodGroup={bloodGroup} />
+    );
+
     // Loading state
     if (isLoading) {
         return (
@@ -183,15 +332,19 @@ export const HospitalList: React.FC<HospitalListProps> = ({
     // No hospitals found
     if (hospitals.length === 0) {
         return (
-            <div className="text-center py-12 bg-yellow-50 rounded-xl border border-yellow-200">
-                <AlertCircle className="h-12 w-12 text-yellow-500 mx-auto mb-4" />
-                <h3 className="text-lg font-semibold text-gray-900 mb-2">
-                    No Hospitals Found
-                </h3>
-                <p className="text-gray-600 max-w-md mx-auto">
-                    No hospitals found for "<strong>{searchedLocation}</strong>".
-                    Try searching with a different city name or check nearby areas.
-                </p>
+            <div className="space-y-6">
+                {controls}
+                <div className="text-center py-12 bg-yellow-50 rounded-xl border border-yellow-200">
+                    <AlertCircle className="h-12 w-12 text-yellow-500 mx-auto mb-4" />
+                    <h3 className="text-lg font-semibold text-gray-900 mb-2">
+                        No Hospitals Found
+                    </h3>
+                    <p className="text-gray-600 max-w-md mx-auto">
+                        No hospitals found for "<strong>{searchedLocation}</strong>"
+                        {bloodGroup && <> with blood compatible with <strong>{bloodGroup}</strong></>}.
+                        Try searching with a different city name or check nearby areas.
+                    </p>
+                </div>
             </div>
         );
     }
@@ -206,15 +359,19 @@ export const HospitalList: React.FC<HospitalListProps> = ({
                         Found {hospitals.length} Hospital{hospitals.length !== 1 ? 's' : ''} in "{searchedLocation}"
                     </h2>
                     <p className="text-sm text-gray-600 mt-1">
-                        Showing hospitals with blood banks in your area
+                        {bloodGroup && filters?.sort !== 'stock' && filters?.sort !== 'name'
+                            ? `Hospitals holding ${bloodGroup} are listed first, followed by compatible groups`
+                            : 'Showing hospitals with blood banks in your area'}
                     </p>
                 </div>
             </div>
 
+            {controls}
+
             {/* Hospital Grid */}
             <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
                 {hospitals.map((hospital, index) => (
-                    <HospitalCard key={hospital.id} hospital={hospital} index={index} />
+                    <HospitalCard key={hospital.id} hospital={hospital} index={index} bloodGroup={bloodGroup} />
                 ))}
             </div>
         </div>
@@ -0,0 +1,135 @@
+/**
+ * ActiveSessions Component
+ *
+ * Devices the user is signed in on, most recently used first:
+ * - Sign out any other device
+ * - Log out everywhere, including this device
+ */
+
+import React, { useEffect, useState } from 'react';
+import { Laptop, LogOut, ShieldCheck } from 'lucide-react';
+import { formatDistanceToNow } from 'date-fns';
+import { useAuth } from '../../contexts/AuthContext';
+import { mapApiSession } from '../../lib/sessions';
+import type { AuthSession } from '../../types';
+
+const API_BASE = '/api';
+
+export const ActiveSessions: React.FC = () => {
+    const { token, logoutAllDevices } = useAuth();
+    const [sessions, setSessions] = useState<AuthSession[]>([]);
+    const [busyId, setBusyId] = useState<string | null>(null);
+    const [error, setError] = useState('');
+
+    const fetchSessions = async () => {
+        try {
+            const response = await fetch(`${API_BASE}/auth/sessions`, {
+                headers: { 'Authorization': `Bearer ${token}` }
+            });
+            const data = await response.json();
+
+            if (data.success) {
+                setSessions(data.data.sessions.map(mapApiSession));
+            }
+        } catch (err) {
+            setError('Unable to load your devices');
+        }
+    };
+
+    // Sessions only change on sign-in or sign-out, so ignore token refreshes
+    const hasToken = Boolean(token);
+    useEffect(() => {
+        if (hasToken) fetchSessions();
+    }, [hasToken]);
+
+    const signOutDevice = async (session: AuthSession) => {
+        setBusyId(session.id);
+        setError('');
+
+        try {
+            const response = await fetch(`${API_BASE}/auth/sessions/${session.id}`, {
+                method: 'DELETE',
+                headers: { 'Authorization': `Bearer ${token}` }
+            });
+            const data = await response.json();
+
+            if (data.success) {
+                setSessions(prev => prev.filter(s => s.id !== session.id));
+            } else {
+                setError(data.message || 'Could not sign out that device');
+            }
+        } catch (err) {
+            setError('Unable to connect to server');
+        } finally {
+            setBusyId(null);
+        }
+    };
+
+    const handleLogoutAll = async () => {
+        if (!window.confirm('Log out on every device, including this one?')) return;
+
+        setBusyId('all');
+        setError('');
+
+        try {
+            await logoutAllDevices();
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Could not log out of all devices');
+            setBusyId(null);
+        }
+    };
+
+    return (
+        <div className="bg-white rounded-xl shadow-md p-6">
+            <div className="flex items-start justify-between mb-4">
+                <div>
+                    <h3 className="text-lg font-semibold text-gray-900 mb-1">Signed-in Devices</h3>
+                    <p className="text-sm text-gray-500">Sign out anywhere you don't recognise</p>
+                </div>
+                <button
+                    onClick={handleLogoutAll}
+                    disabled={busyId !== null}
+                    className="flex items-center text-sm font-medium text-red-600 hover:text-red-700 disabled:opacity-50"
+                >
+                    <LogOut className="h-4 w-4 mr-1" />
+                    Log out everywhere
+                </button>
+            </div>
+
+            <div className="space-y-3">
+                {sessions.map((session) => (
+                    <div key={session.id} className="flex items-center justify-between">
+                        <div className="flex items-center space-x-3">
+                            {session.current
+                                ? <ShieldCheck className="h-5 w-5 text-green-600" />
+                                : <Laptop className="h-5 w-5 text-gray-500" />}
+                            <div>
+                                <p className="text-sm font-medium text-gray-900">
+                                    {session.device}
+                                    {session.current && <span className="ml-2 text-xs text-green-700">This device</span>}
+                                </p>
+                                <p className="text-xs text-gray-500">
+                                    {session.ip && `${session.ip} · `}
+                                    Active {formatDistanceToNow(new Date(session.lastUsedAt), { addSuffix: true })}
+                                </p>
+                            </div>
+                        </div>
+                        {!session.current && (
+                            <button
+                                onClick={() => signOutDevice(session)}
+                                disabled={busyId !== null}
+                                className="text-xs font-medium text-gray-600 hover:text-red-600 disabled:opacity-50"
+                            >
+                                {busyId === session.id ? 'Signing out...' : 'Sign out'}
+                            </button>
+                        )}
+                    </div>
+                ))}
+            </div>
+
+            {error && <p className="text-sm text-red-600 mt-3">{error}</p>}
+        </div>
+    );
+};
+
+export default ActiveSessions;
@@ -0,0 +1,265 @@
+/**
+ * GoogleSignIn Component
+ *
+ * "Continue with Google" for the login and register pages. The Google ID
+ * token goes to the backend, which verifies it, then:
+ * - signs in the account already using this Google account
+ * - asks a new user for their phone number (and role) to finish signing up
+ * - asks for the password of an existing account with the same email, to link it
+ * Hidden when Google sign-in is not configured on the backend.
+ */
+
+import React, { useEffect, useRef, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { AlertCircle, Lock, Phone } from 'lucide-react';
+import { useAuth } from '../../contexts/AuthContext';
+import type { GoogleSignInResult } from '../../types';
+
+const API_BASE = '/api';
+const GOOGLE_SCRIPT_URL = 'https://accounts.google.com/gsi/client';
+
+// Roles a new account can choose (admins are never created this way)
+const SIGNUP_ROLES = [
+    { value: 'donor', label: 'Blood Donor' },
+    { value: 'seeker', label: 'Blood Seeker' },
+    { value: 'hospital', label: 'Hospital Staff' }
+];
+
+declare global {
+    interface Window {
+        google: any;
+    }
+}
+
+interface GoogleSignInProps {
+    label: string;
+    // Text on the divider above the button
+    dividerLabel: string;
+    // Role picked on the page, used if this turns out to be a new account
+    role?: string;
+}
+
+type Step =
+    | { name: 'start' }
+    | { name: 'signup'; credential: string; email: string }
+    | { name: 'link'; credential: string; email: string };
+
+export const GoogleSignIn: React.FC<GoogleSignInProps> = ({ label, dividerLabel, role }) => {
+    const { signInWithGoogle, linkGoogleAccount } = useAuth();
+    const navigate = useNavigate();
+    const [clientId, setClientId] = useState<string | null>(null);
+    const [step, setStep] = useState<Step>({ name: 'start' });
+    const [busy, setBusy] = useState(false);
+    const [error, setError] = useState('');
+    const [signupRole, setSignupRole] = useState('');
+    const [phone, setPhone] = useState('');
+    const [password, setPassword] = useState('');
+    // Google calls back into the latest render, not the one that set it up
+    const handleCredentialRef = useRef<(credential: string) => void>(() => { });
+
+    useEffect(() => {
+        fetch(`${API_BASE}/auth/google/config`)
+            .then(response => response.json())
+            .then(data => {
+                if (data.success && data.data.enabled) setClientId(data.data.clientId);
+            })
+            .catch(() => setClientId(null));
+    }, []);
+
+    useEffect(() => {
+        if (!clientId) return;
+
+        const script = document.createElement('script');
+        script.src = GOOGLE_SCRIPT_URL;
+        script.async = true;
+        script.defer = true;
+        script.onload = () => {
+            window.google?.accounts.id.initialize({
+                client_id: clientId,
+                callback: (response: { credential: string }) => handleCredentialRef.current(response.credential)
+            });
+        };
+        document.body.appendChild(script);
+
+        return () => {
+            document.body.removeChild(script);
+        };
+    }, [clientId]);
+
+    // Keep the page's choice as the default for the sign-up step
+    useEffect(() => {
+        if (role && SIGNUP_ROLES.some(r => r.value === role)) setSignupRole(role);
+    }, [role]);
+
+    const handleResult = (result: GoogleSignInResult, credential: string) => {
+        switch (result.status) {
+            case 'signed_in':
+                navigate(`/${result.user.role}/dashboard`);
+                break;
+            case 'signup_required':
+                setStep({ name: 'signup', credential, email: result.profile.email });
+                break;
+            case 'link_required':
+                setStep({ name: 'link', credential, email: result.email });
+                setError(result.message);
+                break;
+            default:
+                setError(result.message);
+        }
+    };
+
+    const run = async (request: () => Promise<GoogleSignInResult>, credential: string) => {
+        setBusy(true);
+        setError('');
+        try {
+            handleResult(await request(), credential);
+        } finally {
+            setBusy(false);
+        }
+    };
+
+    handleCredentialRef.current = (credential: string) => {
+        run(() => signInWithGoogle(credential), credential);
+    };
+
+    const finishSignup = () => {
+        if (step.name !== 'signup') return;
+        if (!signupRole || !phone.trim()) {
+            setError('Choose how you will use RaktSetu and add your phone number');
+            return;
+        }
+        run(() => signInWithGoogle(step.credential, { role: signupRole, phone: phone.trim() }), step.credential);
+    };
+
+    const linkAccount = () => {
+        if (step.name !== 'link') return;
+        run(() => linkGoogleAccount(step.credential, password), step.credential);
+    };
+
+    const cancel = () => {
+        setStep({ name: 'start' });
+        setError('');
+        setPassword('');
+    };
+
+    if (!clientId) return null;
+
+    return (
+        <div className="space-y-4">
+            <div className="relative">
+                <div className="absolute inset-0 flex items-center">
+                    <div className="w-full border-t border-gray-300" />
+                </div>
+                <div className="relative flex justify-center text-sm">
+                    <span className="px-2 bg-white text-gray-500">{dividerLabel}</span>
+                </div>
+            </div>
+
+            {error && (
+                <div className="bg-red-50 border border-red-200 rounded-lg p-3 flex items-center space-x-2 text-sm">
+                    <AlertCircle className="h-4 w-4 text-red-500 flex-shrink-0" />
+                    <span className="text-red-700">{error}</span>
+                </div>
+            )}
+
+            {step.name === 'start' && (
+                <button
+                    type="button"
+                    onClick={() => window.google?.accounts.id.prompt()}
+                    disabled={busy}
+                    className="w-full flex justify-center items-center py-3 px-4 border border-gray-300 rounded-lg shadow-sm bg-white text-sm font-medium text-gray-700 hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-red-500 disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-200 transform hover:scale-105"
+                >
+                    {busy ? (
+                        <div className="animate-spin rounded-full h-5 w-5 border-b-2 border-gray-600"></div>
+                    ) : (
+                        <>
+                            <svg className="w-5 h-5 mr-2" viewBox="0 0 24 24">
+                                <path fill="#4285F4" d="M22.56 12.25c0-.78-.07-1.53-.2-2.25H12v4.26h5.92c-.26 1.37-1.04 2.53-2.21 3.31v2.77h3.57c2.08-1.92 3.28-4.74 3.28-8.09z" />
+                                <path fill="#34A853" d="M12 23c2.97 0 5.46-.98 7.28-2.66l-3.57-2.77c-.98.66-2.23 1.06-3.71 1.06-2.86 0-5.29-1.93-6.16-4.53H2.18v2.84C3.99 20.53 7.7 23 12 23z" />
+                                <path fill="#FBBC05" d="M5.84 14.09c-.22-.66-.35-1.36-.35-2.09s.13-1.43.35-2.09V7.07H2.18C1.43 8.55 1 10.22 1 12s.43 3.45 1.18 4.93l2.85-2.22.81-.62z" />
+                                <path fill="#EA4335" d="M12 5.38c1.62 0 3.06.56 4.21 1.64l3.15-3.15C17.45 2.09 14.97 1 12 1 7.7 1 3.99 3.47 2.18 7.07l3.66 2.84c.87-2.6 3.3-4.53 6.16-4.53z" />
+                            </svg>
+                            {label}
+                        </>
+                    )}
+                </button>
+            )}
+
+            {/* Not nested forms: the pages render this inside their own form */}
+            {step.name === 'signup' && (
+                <div className="border border-gray-200 rounded-lg p-4 space-y-3">
+                    <p className="text-sm text-gray-700">
+                        Finish creating your account for <strong>{step.email}</strong>
+                    </p>
+                    <select
+                        value={signupRole}
+                        onChange={(e) => setSignupRole(e.target.value)}
+                        className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-red-500 focus:border-red-500"
+                    >
+                        <option value="">I am a...</option>
+                        {SIGNUP_ROLES.map(r => (
+                            <option key={r.value} value={r.value}>{r.label}</option>
+                        ))}
+                    </select>
+                    <div className="relative">
+                        <input
+                            value={phone}
+                            onChange={(e) => setPhone(e.target.value)}
+                            type="tel"
+                            placeholder="Phone number"
+                            className="w-full pl-10 pr-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-red-500 focus:border-red-500"
+                        />
+                        <Phone className="absolute left-3 top-2.5 h-4 w-4 text-gray-400" />
+                    </div>
+                    <div className="flex justify-end space-x-3 text-sm">
+                        <button type="button" onClick={cancel} className="text-gray-600 hover:text-gray-800">
+                            Cancel
+                        </button>
+                        <button
+                            type="button"
+                            onClick={finishSignup}
+                            disabled={busy}
+                            className="px-4 py-2 rounded-lg font-medium text-white bg-red-600 hover:bg-red-700 disabled:opacity-50"
+                        >
+                            {busy ? 'Creating account...' : 'Create account'}
+                        </button>
+                    </div>
+                </div>
+            )}
+
+            {step.name === 'link' && (
+                <div className="border border-gray-200 rounded-lg p-4 space-y-3">
+                    <p className="text-sm text-gray-700">
+                        Enter the password for <strong>{step.email}</strong> to sign in with Google from now on
+                    </p>
+                    <div className="relative">
+                        <input
+                            value={password}
+                            onChange={(e) => setPassword(e.target.value)}
+                            type="password"
+                            autoComplete="current-password"
+                            placeholder="Account password"
+                            className="w-full pl-10 pr-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-red-500 focus:border-red-500"
+                        />
+                        <Lock className="absolute left-3 top-2.5 h-4 w-4 text-gray-400" />
+                    </div>
+                    <div className="flex justify-end space-x-3 text-sm">
+                        <button type="button" onClick={cancel} className="text-gray-600 hover:text-gray-800">
+                            Cancel
+                        </button>
+                        <button
+                            type="button"
+                            onClick={linkAccount}
+                            disabled={busy || !password}
+                            className="px-4 py-2 rounded-lg font-medium text-white bg-red-600 hover:bg-red-700 disabled:opacity-50"
+                        >
+                            {busy ? 'Linking...' : 'Link and sign in'}
+                        </button>
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default GoogleSignIn;
@@ -1,11 +1,13 @@
 import React, { useState } from 'react';
 import { Link, useLocation } from 'react-router-dom';
-import { Heart, Menu, X, User, LogOut } from 'lucide-react';
+import { Heart, Menu, X, User, LogOut, Bell } from 'lucide-react';
 import { useAuth } from '../../contexts/AuthContext';
+import { useNotifications } from '../../contexts/NotificationContext';
 
 export const Navbar = () => {
   const [isOpen, setIsOpen] = useState(false);
   const { user, logout } = useAuth();
+  const { unreadCount } = useNotifications();
   const location = useLocation();
 
   const isActive = (path: string) => location.pathname === path;
@@ -60,6 +62,21 @@ export const Navbar = () => {
                 </Link>
 
                 <div className="flex items-center space-x-4">
+                  {user.role === 'donor' && (
+                    <Link
+                      to="/donor/dashboard?notifications=open"
+                      className="relative p-2 rounded-md text-gray-700 hover:text-red-600 hover:bg-red-50 transition-colors duration-200"
+                      aria-label="Notifications"
+                    >
+                      <Bell className="h-5 w-5" />
+                      {unreadCount > 0 && (
+                        <span className="absolute -top-0.5 -right-0.5 min-w-[1.25rem] h-5 px-1 flex items-center justify-center text-xs font-bold text-white bg-red-500 rounded-full">
+                          {unreadCount > 99 ? '99+' : unreadCount}
+                        </span>
+                      )}
+                    </Link>
+                  )}
+
                   <div className="flex items-center space-x-2">
                     <User className="h-4 w-4 text-gray-500" />
                     <span className="text-sm text-gray-700">{user.name}</span>
@@ -134,6 +151,24 @@ export const Navbar = () => {
                     Dashboard
                   </Link>
 
+                  {user.role === 'donor' && (
+                    <Link
+                      to="/donor/dashboard?notifications=open"
+                      onClick={() => setIsOpen(false)}
+                      className="flex items-center justify-between px-3 py-2 rounded-md text-base font-medium text-gray-700 hover:text-red-600 hover:bg-red-50 transition-colors duration-200"
+                    >
+                      <span className="flex items-center space-x-2">
+                        <Bell className="h-4 w-4" />
+                        <span>Notifications</span>
+                      </span>
+                      {unreadCount > 0 && (
+                        <span className="px-2 py-0.5 text-xs font-bold text-white bg-red-500 rounded-full">
+                          {unreadCount > 99 ? '99+' : unreadCount}
+                        </span>
+                      )}
+                    </Link>
+                  )}
+
                   <div className="px-3 py-2 border-t border-gray-200 mt-2">
                     <div className="flex items-center space-x-2 mb-2">
                       <User className="h-4 w-4 text-gray-500" />
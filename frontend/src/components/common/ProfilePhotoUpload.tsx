@@ -4,6 +4,9 @@ import { useAuth } from '../../contexts/AuthContext';
 
 const API_BASE = 'http://localhost:3000';
 
+// Image types the API accepts for profile photos
+const PHOTO_TYPES = ['image/jpeg', 'image/png', 'image/gif', 'image/webp'];
+
 interface ProfilePhotoUploadProps {
     currentPhotoUrl?: string;
     onUploadSuccess: (newUrl: string) => void;
@@ -29,9 +32,9 @@ export const ProfilePhotoUpload: React.FC<ProfilePhotoUploadProps> = ({
         const file = e.target.files?.[0];
         if (!file) return;
 
-        // Validate file type
-        if (!file.type.startsWith('image/')) {
-            setError('Please upload an image file');
+        // Validate file type (the server checks the content too)
+        if (!PHOTO_TYPES.includes(file.type)) {
+            setError('Please upload a JPG, PNG, GIF or WebP image');
             return;
         }
 
@@ -90,7 +93,7 @@ export const ProfilePhotoUpload: React.FC<ProfilePhotoUploadProps> = ({
             >
                 {displayUrl ? (
                     <img
-                        src={`${displayUrl}?t=${Date.now()}`} // Cache bust
+                        src={displayUrl} // A new photo gets a new URL, so no cache busting
                         alt="Profile"
                         className="w-full h-full object-cover"
                     />
@@ -117,7 +120,7 @@ export const ProfilePhotoUpload: React.FC<ProfilePhotoUploadProps> = ({
                 type="file"
                 ref={fileInputRef}
                 onChange={handleFileSelect}
-                accept="image/*"
+                accept={PHOTO_TYPES.join(',')}
                 className="hidden"
             />
 
@@ -0,0 +1,242 @@
+/**
+ * RequisitionDocuments Component
+ *
+ * Prescriptions and requisition forms attached to a blood request:
+ * - requester: upload more documents or remove one until it is verified
+ * - reviewer (admin or handling hospital): open them and verify or reject
+ * Seeker requests can only be accepted once the requisition is verified.
+ */
+
+import React, { useState } from 'react';
+import { FileText, Paperclip, ShieldCheck, ShieldX, Trash2, Upload } from 'lucide-react';
+import { format } from 'date-fns';
+import { useAuth } from '../../contexts/AuthContext';
+import {
+    DOCUMENT_ACCEPT,
+    DOCUMENT_KIND_LABELS,
+    MAX_DOCUMENT_MB,
+    REQUISITION_STATUS,
+    formatFileSize,
+    openDocument
+} from '../../lib/requestDocuments';
+import type { RequestDocument, RequisitionStatus } from '../../types';
+
+const API_BASE = '/api';
+
+// Longest rejection note the backend accepts
+const NOTE_MAX_LENGTH = 300;
+
+interface RequisitionDocumentsProps {
+    requestId: string;
+    documents: RequestDocument[];
+    status: RequisitionStatus;
+    note?: string;
+    mode: 'requester' | 'reviewer';
+    // Whether the request is still open for uploads / review
+    isOpen?: boolean;
+    onChange: () => void;
+}
+
+export const RequisitionDocuments: React.FC<RequisitionDocumentsProps> = ({
+    requestId,
+    documents,
+    status,
+    note,
+    mode,
+    isOpen = true,
+    onChange
+}) => {
+    const { token } = useAuth();
+    const [busy, setBusy] = useState(false);
+    const [rejecting, setRejecting] = useState(false);
+    const [rejectNote, setRejectNote] = useState('');
+    const [error, setError] = useState('');
+
+    const canUpload = mode === 'requester' && isOpen && status !== 'verified';
+    const canReview = mode === 'reviewer' && isOpen && documents.length > 0;
+
+    const send = async (path: string, init: RequestInit) => {
+        setBusy(true);
+        setError('');
+
+        try {
+            const response = await fetch(`${API_BASE}/requests/${requestId}${path}`, {
+                ...init,
+                headers: { ...init.headers, 'Authorization': `Bearer ${token}` }
+            });
+            const data = await response.json();
+
+            if (data.success) {
+                setRejecting(false);
+                setRejectNote('');
+                onChange();
+            } else {
+                setError(data.message || 'Something went wrong');
+            }
+        } catch (err) {
+            setError('Something went wrong');
+        } finally {
+            setBusy(false);
+        }
+    };
+
+    const handleUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
+        const files = Array.from(e.target.files || []);
+        e.target.value = '';
+        if (files.length === 0) return;
+
+        if (files.some(file => file.size > MAX_DOCUMENT_MB * 1024 * 1024)) {
+            setError(`Each document must be ${MAX_DOCUMENT_MB}MB or smaller`);
+            return;
+        }
+
+        const body = new FormData();
+        files.forEach(file => body.append('documents', file));
+        send('/documents', { method: 'POST', body });
+    };
+
+    const handleRemove = (document: RequestDocument) => {
+        if (!window.confirm(`Remove ${document.originalName}?`)) return;
+        send(`/documents/${document.id}`, { method: 'DELETE' });
+    };
+
+    const handleReview = (decision: 'verified' | 'rejected') => {
+        send('/requisition', {
+            method: 'PUT',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ status: decision, note: decision === 'rejected' ? rejectNote : undefined })
+        });
+    };
+
+    const handleOpen = async (document: RequestDocument) => {
+        try {
+            await openDocument(document, token);
+        } catch (err) {
+            setError('Could not open the document');
+        }
+    };
+
+    return (
+        <div className="rounded-lg border border-gray-200 bg-gray-50 p-3 space-y-2">
+            <div className="flex items-center justify-between gap-3">
+                <p className="text-sm font-medium text-gray-800 flex items-center">
+                    <Paperclip className="h-4 w-4 mr-1" />
+                    Prescription / requisition
+                </p>
+                <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${REQUISITION_STATUS[status].color}`}>
+                    {REQUISITION_STATUS[status].label}
+                </span>
+            </div>
+
+            {status === 'rejected' && note && (
+                <p className="text-xs text-red-700">Reason: {note}</p>
+            )}
+
+            {documents.length > 0 ? (
+                <ul className="space-y-1">
+                    {documents.map(document => (
+                        <li key={document.id} className="flex items-center justify-between bg-white rounded-md px-3 py-2 text-sm">
+                            <button
+                                type="button"
+                                onClick={() => handleOpen(document)}
+                                className="flex items-center text-left text-gray-800 hover:text-red-700 min-w-0"
+                            >
+                                <FileText className="h-4 w-4 mr-2 shrink-0 text-gray-500" />
+                                <span className="truncate underline">{document.originalName}</span>
+                            </button>
+                            <div className="flex items-center gap-2 shrink-0 ml-2">
+                                <span className="text-xs text-gray-500">
+                                    {DOCUMENT_KIND_LABELS[document.kind]} • {formatFileSize(document.size)} • {format(new Date(document.uploadedAt), 'MMM d')}
+                                </span>
+                                {canUpload && (
+                                    <button
+                                        type="button"
+                                        onClick={() => handleRemove(document)}
+                                        disabled={busy}
+                                        className="p-1 text-gray-400 hover:text-red-600 disabled:opacity-50"
+                                        title="Remove"
+                                    >
+                                        <Trash2 className="h-3.5 w-3.5" />
+                                    </button>
+                                )}
+                            </div>
+                        </li>
+                    ))}
+                </ul>
+            ) : (
+                <p className="text-xs text-gray-500">
+                    {mode === 'requester'
+                        ? 'Upload the doctor\'s prescription or hospital requisition form so a hospital can accept your request.'
+                        : 'The requester has not uploaded a prescription or requisition form yet.'}
+                </p>
+            )}
+
+            {canUpload && (
+                <label className={`inline-flex items-center px-3 py-1.5 text-xs font-medium text-red-700 bg-white border border-red-200 rounded-lg cursor-pointer hover:bg-red-50 ${busy ? 'opacity-50 pointer-events-none' : ''}`}>
+                    <Upload className="h-3.5 w-3.5 mr-1" />
+                    {busy ? 'Uploading...' : 'Upload Documents'}
+                    <input type="file" accept={DOCUMENT_ACCEPT} multiple onChange={handleUpload} className="hidden" />
+                </label>
+            )}
+
+            {canReview && (
+                rejecting ? (
+                    <div className="flex flex-col sm:flex-row gap-2">
+                        <input
+                            type="text"
+                            value={rejectNote}
+                            onChange={(e) => setRejectNote(e.target.value)}
+                            maxLength={NOTE_MAX_LENGTH}
+                            placeholder="What is wrong with the documents?"
+                            className="flex-1 px-3 py-1.5 border border-gray-300 rounded-lg text-sm"
+                        />
+                        <button
+                            type="button"
+                            onClick={() => handleReview('rejected')}
+                            disabled={busy || !rejectNote.trim()}
+                            className="px-3 py-1.5 text-xs font-medium text-white bg-red-600 hover:bg-red-700 rounded-lg disabled:opacity-50"
+                        >
+                            Reject
+                        </button>
+                        <button
+                            type="button"
+                            onClick={() => setRejecting(false)}
+                            className="px-3 py-1.5 text-xs font-medium text-gray-700 bg-white border border-gray-300 rounded-lg"
+                        >
+                            Back
+                        </button>
+                    </div>
+                ) : (
+                    <div className="flex gap-2">
+                        {status !== 'verified' && (
+                            <button
+                                type="button"
+                                onClick={() => handleReview('verified')}
+                                disabled={busy}
+                                className="inline-flex items-center px-3 py-1.5 text-xs font-medium text-white bg-green-600 hover:bg-green-700 rounded-lg disabled:opacity-50"
+                            >
+                                <ShieldCheck className="h-3.5 w-3.5 mr-1" />
+                                Mark Verified
+                            </button>
+                        )}
+                        {status !== 'rejected' && (
+                            <button
+                                type="button"
+                                onClick={() => setRejecting(true)}
+                                disabled={busy}
+                                className="inline-flex items-center px-3 py-1.5 text-xs font-medium text-red-700 bg-white border border-red-200 hover:bg-red-50 rounded-lg disabled:opacity-50"
+                            >
+                                <ShieldX className="h-3.5 w-3.5 mr-1" />
+                                Reject
+                            </button>
+                        )}
+                    </div>
+                )
+            )}
+
+            {error && <p className="text-xs text-red-600">{error}</p>}
+        </div>
+    );
+};
+
+export default RequisitionDocuments;
@@ -0,0 +1,147 @@
+/**
+ * VerificationBanner Component
+ *
+ * Shown under the navbar until the signed-in user has verified:
+ * - their email address (needed to create requests and answer appeals): resend the link
+ * - their phone number (needed for SMS notifications): text a code and enter it
+ */
+
+import React, { useState } from 'react';
+import { Mail, Smartphone, X } from 'lucide-react';
+import { useAuth } from '../../contexts/AuthContext';
+
+const API_BASE = '/api';
+
+type Message = { type: 'success' | 'error'; text: string };
+
+export const VerificationBanner: React.FC = () => {
+    const { user, token, updateUser } = useAuth();
+    const [busy, setBusy] = useState<'email' | 'sendCode' | 'verifyCode' | null>(null);
+    const [message, setMessage] = useState<Message | null>(null);
+    const [codeSent, setCodeSent] = useState(false);
+    const [code, setCode] = useState('');
+    const [hidePhone, setHidePhone] = useState(false);
+
+    const showEmail = Boolean(user && !user.verified);
+    const showPhone = Boolean(user && !user.phoneVerified && !hidePhone);
+    if (!showEmail && !showPhone) return null;
+
+    const post = async (path: string, body?: object) => {
+        const response = await fetch(`${API_BASE}/auth/${path}`, {
+            method: 'POST',
+            headers: {
+                'Content-Type': 'application/json',
+                'Authorization': `Bearer ${token}`
+            },
+            body: body ? JSON.stringify(body) : undefined
+        });
+        return response.json();
+    };
+
+    const run = async (action: NonNullable<typeof busy>, request: () => Promise<any>, onSuccess?: (data: any) => void) => {
+        setBusy(action);
+        setMessage(null);
+
+        try {
+            const data = await request();
+            setMessage({ type: data.success ? 'success' : 'error', text: data.message || 'Something went wrong' });
+            if (data.success) onSuccess?.(data);
+        } catch (error) {
+            setMessage({ type: 'error', text: 'Unable to connect to server' });
+        } finally {
+            setBusy(null);
+        }
+    };
+
+    const resendEmail = () => run('email', () => post('verify-email/send'));
+
+    const sendCode = () => run('sendCode', () => post('verify-phone/send'), () => setCodeSent(true));
+
+    const verifyCode = (e: React.FormEvent) => {
+        e.preventDefault();
+        run('verifyCode', () => post('verify-phone', { code }), () => {
+            updateUser({ phoneVerified: true });
+            setCodeSent(false);
+            setCode('');
+        });
+    };
+
+    return (
+        <div className="bg-yellow-50 border-b border-yellow-200">
+            <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-3 space-y-2 text-sm">
+                {showEmail && (
+                    <div className="flex flex-wrap items-center gap-x-3 gap-y-1">
+                        <Mail className="h-4 w-4 text-yellow-700" />
+                        <span className="text-yellow-800">
+                            Verify your email address to create requests and answer emergency appeals. We sent a link to <strong>{user!.email}</strong>.
+                        </span>
+                        <button
+                            onClick={resendEmail}
+                            disabled={busy !== null}
+                            className="font-medium text-red-600 hover:text-red-700 disabled:opacity-50"
+                        >
+                            {busy === 'email' ? 'Sending...' : 'Resend link'}
+                        </button>
+                    </div>
+                )}
+
+                {showPhone && (
+                    <div className="flex flex-wrap items-center gap-x-3 gap-y-1">
+                        <Smartphone className="h-4 w-4 text-yellow-700" />
+                        <span className="text-yellow-800">
+                            Verify your phone number <strong>{user!.phone}</strong> to get SMS alerts.
+                        </span>
+                        {codeSent ? (
+                            <form onSubmit={verifyCode} className="flex items-center gap-2">
+                                <input
+                                    value={code}
+                                    onChange={(e) => setCode(e.target.value.replace(/\D/g, '').slice(0, 6))}
+                                    inputMode="numeric"
+                                    autoComplete="one-time-code"
+                                    placeholder="6 digit code"
+                                    className="w-28 px-2 py-1 border border-gray-300 rounded-md focus:ring-2 focus:ring-red-500 focus:border-red-500"
+                                />
+                                <button
+                                    type="submit"
+                                    disabled={busy !== null || code.length !== 6}
+                                    className="font-medium text-red-600 hover:text-red-700 disabled:opacity-50"
+                                >
+                                    {busy === 'verifyCode' ? 'Checking...' : 'Verify'}
+                                </button>
+                                <button
+                                    type="button"
+                                    onClick={sendCode}
+                                    disabled={busy !== null}
+                                    className="text-gray-600 hover:text-gray-800 disabled:opacity-50"
+                                >
+                                    Resend code
+                                </button>
+                            </form>
+                        ) : (
+                            <button
+                                onClick={sendCode}
+                                disabled={busy !== null}
+                                className="font-medium text-red-600 hover:text-red-700 disabled:opacity-50"
+                            >
+                                {busy === 'sendCode' ? 'Sending...' : 'Send code'}
+                            </button>
+                        )}
+                        <button
+                            onClick={() => setHidePhone(true)}
+                            className="ml-auto text-gray-400 hover:text-gray-600"
+                            aria-label="Not now"
+                        >
+                            <X className="h-4 w-4" />
+                        </button>
+                    </div>
+                )}
+
+                {message && (
+                    <p className={message.type === 'success' ? 'text-green-700' : 'text-red-600'}>{message.text}</p>
+                )}
+            </div>
+        </div>
+    );
+};
+
+export default VerificationBanner;
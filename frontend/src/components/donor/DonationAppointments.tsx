@@ -0,0 +1,294 @@
+/**
+ * DonationAppointments Component
+ *
+ * Lets donors book a donation at a hospital:
+ * - Upcoming appointment with reschedule and cancel
+ * - Open hospital slots for the next two weeks, filterable by city
+ * - Slots before the donor is eligible again are not offered, and donors
+ *   whose deferral needs a staff review cannot book
+ */
+
+import React, { useEffect, useState } from 'react';
+import { Calendar, Clock, MapPin, Search, X, RefreshCw } from 'lucide-react';
+import { format } from 'date-fns';
+import { useAuth } from '../../contexts/AuthContext';
+import { APPOINTMENT_STATUS_STYLES, mapApiAppointment, mapApiSlot } from '../../lib/appointments';
+import { mapApiEligibility } from '../../lib/eligibility';
+import type { Appointment, DonationSlot, Eligibility } from '../../types';
+
+const API_BASE = '/api';
+
+export const DonationAppointments: React.FC = () => {
+    const { token } = useAuth();
+    const [upcoming, setUpcoming] = useState<Appointment | null>(null);
+    const [eligibility, setEligibility] = useState<Eligibility | null>(null);
+    const [slots, setSlots] = useState<DonationSlot[]>([]);
+    const [city, setCity] = useState('');
+    const [showSlots, setShowSlots] = useState(false);
+    const [slotsLoading, setSlotsLoading] = useState(false);
+    const [busySlotId, setBusySlotId] = useState<string | null>(null);
+    const [cancelling, setCancelling] = useState(false);
+    const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+
+    const fetchAppointments = async () => {
+        try {
+            const response = await fetch(`${API_BASE}/appointments/me`, {
+                headers: { 'Authorization': `Bearer ${token}` }
+            });
+            const data = await response.json();
+
+            if (data.success) {
+                setUpcoming(data.data.upcoming.length > 0 ? mapApiAppointment(data.data.upcoming[0]) : null);
+                setEligibility(mapApiEligibility(data.data.eligibility));
+            }
+        } catch (error) {
+            console.error('Error fetching appointments:', error);
+        }
+    };
+
+    const fetchSlots = async () => {
+        setSlotsLoading(true);
+        try {
+            const query = city.trim() ? `?city=${encodeURIComponent(city.trim())}` : '';
+            const response = await fetch(`${API_BASE}/appointments/slots${query}`, {
+                headers: { 'Authorization': `Bearer ${token}` }
+            });
+            const data = await response.json();
+
+            if (data.success) {
+                setSlots(data.data.slots.map(mapApiSlot));
+            }
+        } catch (error) {
+            console.error('Error fetching slots:', error);
+        } finally {
+            setSlotsLoading(false);
+        }
+    };
+
+    useEffect(() => {
+        if (token) fetchAppointments();
+    }, [token]);
+
+    useEffect(() => {
+        if (showSlots) fetchSlots();
+    }, [showSlots]);
+
+    // Book a slot, or move the upcoming appointment into it
+    const chooseSlot = async (slot: DonationSlot) => {
+        setBusySlotId(slot.id);
+        setMessage(null);
+
+        try {
+            const response = await fetch(
+                upcoming ? `${API_BASE}/appointments/${upcoming.id}` : `${API_BASE}/appointments`,
+                {
+                    method: upcoming ? 'PUT' : 'POST',
+                    headers: {
+                        'Content-Type': 'application/json',
+                        'Authorization': `Bearer ${token}`
+                    },
+                    body: JSON.stringify({ slotId: slot.id })
+                }
+            );
+            const data = await response.json();
+
+            if (data.success) {
+                setUpcoming(mapApiAppointment(data.data.appointment));
+                setShowSlots(false);
+                setMessage({ type: 'success', text: data.message });
+            } else {
+                setMessage({ type: 'error', text: data.message || 'Could not book this slot' });
+                fetchSlots();
+            }
+        } catch (error) {
+            setMessage({ type: 'error', text: 'Could not book this slot' });
+        } finally {
+            setBusySlotId(null);
+        }
+    };
+
+    const cancelAppointment = async () => {
+        if (!upcoming || !window.confirm('Cancel this appointment?')) return;
+
+        setCancelling(true);
+        setMessage(null);
+
+        try {
+            const response = await fetch(`${API_BASE}/appointments/${upcoming.id}`, {
+                method: 'DELETE',
+                headers: { 'Authorization': `Bearer ${token}` }
+            });
+            const data = await response.json();
+
+            if (data.success) {
+                setUpcoming(null);
+                setMessage({ type: 'success', text: data.message });
+            } else {
+                setMessage({ type: 'error', text: data.message || 'Could not cancel the appointment' });
+            }
+        } catch (error) {
+            setMessage({ type: 'error', text: 'Could not cancel the appointment' });
+        } finally {
+            setCancelling(false);
+        }
+    };
+
+    // Group slots by day for the picker
+    const slotsByDay = slots.reduce<Record<string, DonationSlot[]>>((groups, slot) => {
+        const day = format(new Date(slot.startTime), 'yyyy-MM-dd');
+        (groups[day] = groups[day] || []).push(slot);
+        return groups;
+    }, {});
+
+    const canChangeUpcoming = upcoming?.status === 'scheduled';
+
+    return (
+        <div className="bg-white rounded-xl shadow-md border border-gray-100 p-6">
+            <div className="flex items-center justify-between mb-4">
+                <div className="flex items-center space-x-2">
+                    <Calendar className="h-5 w-5 text-red-600" />
+                    <h2 className="text-xl font-semibold text-gray-900">Donation Appointment</h2>
+                </div>
+                {!showSlots && (!upcoming || canChangeUpcoming) && !eligibility?.requiresReview && (
+                    <button
+                        onClick={() => setShowSlots(true)}
+                        className="text-sm font-medium text-red-600 hover:text-red-700"
+                    >
+                        {upcoming ? 'Reschedule' : 'Book a slot'}
+                    </button>
+                )}
+            </div>
+
+            {message && (
+                <div className={`mb-4 p-3 rounded-lg text-sm ${message.type === 'success'
+                    ? 'bg-green-50 border border-green-200 text-green-700'
+                    : 'bg-red-50 border border-red-200 text-red-700'
+                    }`}>
+                    {message.text}
+                </div>
+            )}
+
+            {/* Upcoming appointment */}
+            {upcoming ? (
+                <div className="p-4 rounded-lg bg-red-50 border border-red-100 mb-4">
+                    <div className="flex items-start justify-between">
+                        <div>
+                            <p className="font-semibold text-gray-900">{upcoming.hospitalName}</p>
+                            {upcoming.hospitalAddress && (
+                                <p className="text-sm text-gray-600 flex items-center mt-1">
+                                    <MapPin className="h-3.5 w-3.5 mr-1" />{upcoming.hospitalAddress}
+                                </p>
+                            )}
+                            <p className="text-sm text-gray-700 flex items-center mt-1">
+                                <Clock className="h-3.5 w-3.5 mr-1" />
+                                {format(new Date(upcoming.donationDate), 'EEE, MMM d • h:mm a')}
+                                {upcoming.endTime && ` - ${format(new Date(upcoming.endTime), 'h:mm a')}`}
+                            </p>
+                        </div>
+                        <span className={`px-2 py-1 rounded-full text-xs font-medium ${APPOINTMENT_STATUS_STYLES[upcoming.status].className}`}>
+                            {APPOINTMENT_STATUS_STYLES[upcoming.status].label}
+                        </span>
+                    </div>
+                    {canChangeUpcoming && (
+                        <button
+                            onClick={cancelAppointment}
+                            disabled={cancelling}
+                            className="mt-3 text-sm text-gray-600 hover:text-red-600 disabled:opacity-50"
+                        >
+                            {cancelling ? 'Cancelling...' : 'Cancel appointment'}
+                        </button>
+                    )}
+                </div>
+            ) : !showSlots && (
+                <p className="text-sm text-gray-600 mb-4">
+                    {eligibility?.requiresReview
+                        ? 'Please speak to blood bank staff before booking a donation.'
+                        : eligibility?.eligibleFrom
+                            ? `You can book a donation from ${format(new Date(eligibility.eligibleFrom), 'MMM d, yyyy')}.`
+                            : 'You have no upcoming appointment. Book a slot at a hospital near you.'}
+                </p>
+            )}
+
+            {/* Slot picker */}
+            {showSlots && (
+                <div>
+                    <div className="flex items-center space-x-2 mb-4">
+                        <div className="relative flex-1">
+                            <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-gray-400" />
+                            <input
+                                type="text"
+                                value={city}
+                                onChange={(e) => setCity(e.target.value)}
+                                onKeyDown={(e) => e.key === 'Enter' && fetchSlots()}
+                                placeholder="Filter by city"
+                                className="w-full pl-9 pr-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-red-500 focus:border-red-500"
+                            />
+                        </div>
+                        <button
+                            onClick={fetchSlots}
+                            className="p-2 border border-gray-300 rounded-lg text-gray-600 hover:bg-gray-50"
+                            aria-label="Search slots"
+                        >
+                            <RefreshCw className={`h-4 w-4 ${slotsLoading ? 'animate-spin' : ''}`} />
+                        </button>
+                        <button
+                            onClick={() => setShowSlots(false)}
+                            className="p-2 rounded-lg text-gray-500 hover:bg-gray-100"
+                            aria-label="Close slot picker"
+                        >
+                            <X className="h-4 w-4" />
+                        </button>
+                    </div>
+
+                    {eligibility?.eligibleFrom && (
+                        <p className="text-xs text-gray-500 mb-3">
+                            Showing slots from {format(new Date(eligibility.eligibleFrom), 'MMM d, yyyy')}, when you are eligible to donate again.
+                        </p>
+                    )}
+
+                    {slotsLoading && slots.length === 0 ? (
+                        <p className="text-sm text-gray-500 py-6 text-center">Loading slots...</p>
+                    ) : slots.length === 0 ? (
+                        <p className="text-sm text-gray-500 py-6 text-center">
+                            No open slots in the next two weeks{city.trim() && ` in ${city.trim()}`}.
+                        </p>
+                    ) : (
+                        <div className="space-y-4 max-h-96 overflow-y-auto pr-1">
+                            {Object.entries(slotsByDay).map(([day, daySlots]) => (
+                                <div key={day}>
+                                    <p className="text-sm font-semibold text-gray-700 mb-2">
+                                        {format(new Date(daySlots[0].startTime), 'EEEE, MMM d')}
+                                    </p>
+                                    <div className="space-y-2">
+                                        {daySlots.map((slot) => (
+                                            <div
+                                                key={slot.id}
+                                                className="flex items-center justify-between p-3 border border-gray-200 rounded-lg hover:border-red-200"
+                                            >
+                                                <div>
+                                                    <p className="text-sm font-medium text-gray-900">
+                                                        {format(new Date(slot.startTime), 'h:mm a')} - {format(new Date(slot.endTime), 'h:mm a')}
+                                                    </p>
+                                                    <p className="text-xs text-gray-500 capitalize">
+                                                        {slot.hospitalName}{slot.hospitalCity && `, ${slot.hospitalCity}`} • {slot.spacesLeft} place{slot.spacesLeft !== 1 ? 's' : ''} left
+                                                    </p>
+                                                </div>
+                                                <button
+                                                    onClick={() => chooseSlot(slot)}
+                                                    disabled={busySlotId !== null || slot.id === upcoming?.slotId}
+                                                    className="px-3 py-1.5 text-sm font-medium text-white bg-red-600 hover:bg-red-700 rounded-lg disabled:opacity-50"
+                                                >
+                                                    {busySlotId === slot.id ? 'Saving...' : upcoming ? 'Move here' : 'Book'}
+                                                </button>
+                                            </div>
+                                        ))}
+                                    </div>
+                                </div>
+                            ))}
+                        </div>
+                    )}
+                </div>
+            )}
+        </div>
+    );
+};
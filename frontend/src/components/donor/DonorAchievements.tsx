@@ -1,28 +1,18 @@
 /**
  * DonorAchievements Component
  * 
- * Displays donor achievement badges based on donation frequency:
+ * Displays donor achievements computed by the backend from recorded donations:
  * - 🥇 GOLD: 12+ donations/year (donates every month)
  * - 🥈 SILVER: 6+ donations/year (donates every 2 months)
  * - 🎖 BRONZE: 2+ donations/year (donates every 6 months)
+ * - Donation streak and badges kept once earned (milestones, rare group, emergencies)
  */
 
 import React from 'react';
 import { motion } from 'framer-motion';
-import { Trophy, Star, Target, TrendingUp } from 'lucide-react';
-
-// Achievement badge types
-export type AchievementLevel = 'gold' | 'silver' | 'bronze' | 'none';
-
-export interface DonorAchievementData {
-    totalDonations: number;
-    currentYear: number;
-    donationsThisYear: number;
-    currentBadge: AchievementLevel;
-    nextBadge: AchievementLevel | null;
-    donationsNeeded: number;
-    streakMonths: number;
-}
+import { format } from 'date-fns';
+import { Trophy, Star, Target, TrendingUp, Flame, Award } from 'lucide-react';
+import type { AchievementLevel, DonorStats } from '../../types';
 
 // Badge configuration
 const BADGE_CONFIG = {
@@ -68,53 +58,30 @@ const BADGE_CONFIG = {
     }
 };
 
-// Calculate achievement data based on donation history
-export const calculateAchievement = (donationsThisYear: number, totalDonations: number): DonorAchievementData => {
-    let currentBadge: AchievementLevel = 'none';
-    let nextBadge: AchievementLevel | null = 'bronze';
-    let donationsNeeded = 2;
-
-    if (donationsThisYear >= 12) {
-        currentBadge = 'gold';
-        nextBadge = null;
-        donationsNeeded = 0;
-    } else if (donationsThisYear >= 6) {
-        currentBadge = 'silver';
-        nextBadge = 'gold';
-        donationsNeeded = 12 - donationsThisYear;
-    } else if (donationsThisYear >= 2) {
-        currentBadge = 'bronze';
-        nextBadge = 'silver';
-        donationsNeeded = 6 - donationsThisYear;
-    } else {
-        donationsNeeded = 2 - donationsThisYear;
-    }
-
-    return {
-        totalDonations,
-        currentYear: new Date().getFullYear(),
-        donationsThisYear,
-        currentBadge,
-        nextBadge,
-        donationsNeeded,
-        streakMonths: 0 // Can be calculated from donation dates
-    };
+// Badge emojis by code (milestone_10, milestone_25, ...)
+const BADGE_EMOJI: Record<string, string> = {
+    milestone_10: '🔟',
+    milestone_25: '🏅',
+    milestone_50: '🏆',
+    milestone_100: '💯',
+    streak: '🔥',
+    rare_group: '💎',
+    emergency_responder: '🚑'
 };
 
 interface DonorAchievementsProps {
-    donationsThisYear: number;
-    totalDonations: number;
+    stats: DonorStats;
     showProgress?: boolean;
 }
 
 export const DonorAchievements: React.FC<DonorAchievementsProps> = ({
-    donationsThisYear,
-    totalDonations,
+    stats,
     showProgress = true
 }) => {
-    const achievement = calculateAchievement(donationsThisYear, totalDonations);
-    const currentBadgeConfig = BADGE_CONFIG[achievement.currentBadge];
-    const nextBadgeConfig = achievement.nextBadge ? BADGE_CONFIG[achievement.nextBadge] : null;
+    const { totalDonations, donationsThisYear, streak, badges } = stats;
+    const currentBadgeConfig = BADGE_CONFIG[stats.achievementBadge];
+    const nextBadgeConfig = stats.nextBadge ? BADGE_CONFIG[stats.nextBadge] : null;
+    const earnedCount = badges.filter(badge => badge.earnedAt).length;
 
     // Calculate progress to next badge
     const getProgressPercentage = () => {
@@ -154,6 +121,10 @@ export const DonorAchievements: React.FC<DonorAchievementsProps> = ({
                                 <Star className="h-4 w-4 text-yellow-500" />
                                 <span className="text-sm font-medium">{donationsThisYear} this year</span>
                             </div>
+                            <div className="flex items-center space-x-1" title={`Longest streak: ${streak.longest}`}>
+                                <Flame className="h-4 w-4 text-orange-500" />
+                                <span className="text-sm font-medium">{streak.current} in a row</span>
+                            </div>
                         </div>
                     </div>
                 </div>
@@ -190,7 +161,7 @@ export const DonorAchievements: React.FC<DonorAchievementsProps> = ({
                             {donationsThisYear} / {nextBadgeConfig.requirement} donations
                         </span>
                         <span className={`font-medium ${nextBadgeConfig.textColor}`}>
-                            {achievement.donationsNeeded} more needed
+                            {stats.donationsNeeded} more needed
                         </span>
                     </div>
                 </motion.div>
@@ -211,10 +182,7 @@ export const DonorAchievements: React.FC<DonorAchievementsProps> = ({
                 <div className="grid grid-cols-3 gap-3">
                     {(['bronze', 'silver', 'gold'] as const).map((level, index) => {
                         const config = BADGE_CONFIG[level];
-                        const isAchieved =
-                            (level === 'bronze' && donationsThisYear >= 2) ||
-                            (level === 'silver' && donationsThisYear >= 6) ||
-                            (level === 'gold' && donationsThisYear >= 12);
+                        const isAchieved = donationsThisYear >= config.requirement;
 
                         return (
                             <div
@@ -233,6 +201,50 @@ export const DonorAchievements: React.FC<DonorAchievementsProps> = ({
                     })}
                 </div>
             </motion.div>
+
+            {/* Earned Badges */}
+            <motion.div
+                initial={{ opacity: 0, y: 20 }}
+                animate={{ opacity: 1, y: 0 }}
+                transition={{ delay: 0.3 }}
+                className="bg-white p-4 rounded-xl border border-gray-200"
+            >
+                <div className="flex items-center justify-between mb-3">
+                    <h4 className="font-medium text-gray-700 flex items-center space-x-2">
+                        <Award className="h-5 w-5" />
+                        <span>Badges</span>
+                    </h4>
+                    <span className="text-sm text-gray-500">{earnedCount} / {badges.length} earned</span>
+                </div>
+
+                <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+                    {badges.map(badge => (
+                        <div
+                            key={badge.code}
+                            title={badge.description}
+                            className={`p-3 rounded-lg text-center border-2 transition-all ${badge.earnedAt
+                                    ? 'bg-gradient-to-r from-yellow-50 to-amber-50 border-yellow-300'
+                                    : 'bg-gray-50 border-gray-200 opacity-50'
+                                }`}
+                        >
+                            <div className="text-3xl mb-1">{BADGE_EMOJI[badge.code] || '🏅'}</div>
+                            <p className="text-xs font-medium text-gray-700">{badge.name}</p>
+                            <p className="text-[11px] text-gray-500 mt-0.5">
+                                {badge.earnedAt ? format(new Date(badge.earnedAt), 'MMM d, yyyy') : badge.description}
+                            </p>
+                        </div>
+                    ))}
+                </div>
+
+                <div className="mt-3 text-sm text-gray-600 space-y-1">
+                    {stats.nextMilestone && (
+                        <p>{stats.nextMilestone - totalDonations} more donation{stats.nextMilestone - totalDonations !== 1 ? 's' : ''} to the {stats.nextMilestone} Donations badge</p>
+                    )}
+                    {streak.current > 0 && streak.since && (
+                        <p>Current streak: {streak.current} donation{streak.current !== 1 ? 's' : ''} since {format(new Date(streak.since), 'MMM yyyy')} (longest {streak.longest})</p>
+                    )}
+                </div>
+            </motion.div>
         </div>
     );
 };
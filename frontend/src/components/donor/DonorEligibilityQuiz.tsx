@@ -1,15 +1,19 @@
 /**
  * DonorEligibilityQuiz Component
  * 
- * A 10-question eligibility quiz for blood donors with:
+ * The eligibility quiz for blood donors, using the questionnaire version
+ * that admins have made active, with:
  * - Progress bar
- * - Score calculation
+ * - Score calculation (on the server)
  * - Eligibility result display
- * - Reasons for ineligibility
+ * - Reasons for ineligibility, checked by the server's deferral rules
+ *   together with the donor's profile and donation records
+ * - Results are saved; disqualifying answers become dated deferrals
  */
 
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
+import { format } from 'date-fns';
 import {
     X,
     ChevronLeft,
@@ -19,14 +23,12 @@ import {
     AlertTriangle,
     Heart
 } from 'lucide-react';
+import { useAuth } from '../../contexts/AuthContext';
+import { mapApiDeferral, mapApiEligibility } from '../../lib/eligibility';
+import { mapApiQuestionnaire } from '../../lib/questionnaire';
+import type { Deferral, Eligibility, Questionnaire } from '../../types';
 
-// Quiz question structure
-interface QuizQuestion {
-    id: number;
-    question: string;
-    options: { value: string; label: string; eligible: boolean; weight: number }[];
-    category: string;
-}
+const API_BASE = '/api';
 
 // Quiz answers structure
 export interface QuizAnswers {
@@ -40,122 +42,13 @@ export interface QuizResult {
     maxScore: number;
     percentage: number;
     ineligibleReasons: string[];
+    eligibility?: Eligibility;
+    deferrals?: Deferral[];
+    questionnaireVersion: number;
     answers: QuizAnswers;
     completedAt: Date;
 }
 
-// 10 Eligibility Questions
-const QUIZ_QUESTIONS: QuizQuestion[] = [
-    {
-        id: 1,
-        category: 'Age',
-        question: 'Are you between 18 to 60 years old?',
-        options: [
-            { value: 'yes', label: 'Yes', eligible: true, weight: 10 },
-            { value: 'no', label: 'No', eligible: false, weight: 0 }
-        ]
-    },
-    {
-        id: 2,
-        category: 'Weight',
-        question: 'Is your weight more than 50 kg?',
-        options: [
-            { value: 'yes', label: 'Yes', eligible: true, weight: 10 },
-            { value: 'no', label: 'No', eligible: false, weight: 0 }
-        ]
-    },
-    {
-        id: 3,
-        category: 'Last Donation',
-        question: 'When was your last blood donation?',
-        options: [
-            { value: 'within_3_months', label: 'Within 3 months', eligible: false, weight: 0 },
-            { value: '3_to_6_months', label: 'Before 3-6 months', eligible: true, weight: 8 },
-            { value: 'more_than_6_months', label: 'More than 6 months', eligible: true, weight: 10 },
-            { value: 'never', label: 'Never', eligible: true, weight: 10 }
-        ]
-    },
-    {
-        id: 4,
-        category: 'Current Health',
-        question: 'Do you currently have fever, infection, cold or cough?',
-        options: [
-            { value: 'yes', label: 'Yes', eligible: false, weight: 0 },
-            { value: 'no', label: 'No', eligible: true, weight: 10 }
-        ]
-    },
-    {
-        id: 5,
-        category: 'Medication',
-        question: 'Are you currently taking any medication?',
-        options: [
-            { value: 'yes', label: 'Yes', eligible: false, weight: 0 },
-            { value: 'no', label: 'No', eligible: true, weight: 10 }
-        ]
-    },
-    {
-        id: 6,
-        category: 'Recent Diseases',
-        question: 'Have you had typhoid, malaria or hepatitis in last 6 months?',
-        options: [
-            { value: 'yes', label: 'Yes', eligible: false, weight: 0 },
-            { value: 'no', label: 'No', eligible: true, weight: 10 }
-        ]
-    },
-    {
-        id: 7,
-        category: 'Lifestyle',
-        question: 'Do you consume alcohol or smoke regularly?',
-        options: [
-            { value: 'yes_regular', label: 'Yes, regularly', eligible: false, weight: 0 },
-            { value: 'sometimes', label: 'Sometimes', eligible: true, weight: 5 },
-            { value: 'no', label: 'No', eligible: true, weight: 10 }
-        ]
-    },
-    {
-        id: 8,
-        category: 'Surgery',
-        question: 'Have you undergone any major surgery in last 6 months?',
-        options: [
-            { value: 'yes', label: 'Yes', eligible: false, weight: 0 },
-            { value: 'no', label: 'No', eligible: true, weight: 10 }
-        ]
-    },
-    {
-        id: 9,
-        category: 'Tattoos/Piercings',
-        question: 'Have you had a tattoo or piercing recently (last 6 months)?',
-        options: [
-            { value: 'yes', label: 'Yes', eligible: false, weight: 0 },
-            { value: 'no', label: 'No', eligible: true, weight: 10 }
-        ]
-    },
-    {
-        id: 10,
-        category: 'Pregnancy',
-        question: 'Are you pregnant or breastfeeding right now?',
-        options: [
-            { value: 'yes', label: 'Yes', eligible: false, weight: 0 },
-            { value: 'no', label: 'No', eligible: true, weight: 10 },
-            { value: 'prefer_not_to_say', label: 'Prefer not to say', eligible: true, weight: 10 }
-        ]
-    }
-];
-
-// Reason messages for ineligibility
-const INELIGIBILITY_REASONS: { [key: string]: string } = {
-    '1': 'You must be between 18-60 years old to donate blood.',
-    '2': 'Minimum weight of 50 kg is required for blood donation.',
-    '3': 'You need to wait at least 3 months between donations.',
-    '4': 'Please wait until you recover from illness before donating.',
-    '5': 'Some medications may affect blood donation eligibility.',
-    '6': 'Recent infections require a waiting period before donation.',
-    '7': 'Regular alcohol/smoking may affect blood quality.',
-    '8': 'Please wait 6 months after surgery before donating.',
-    '9': 'Tattoos/piercings require a 6-month waiting period.',
-    '10': 'Pregnancy and breastfeeding affect donation eligibility.'
-};
-
 interface DonorEligibilityQuizProps {
     isOpen: boolean;
     onClose: () => void;
@@ -167,13 +60,44 @@ export const DonorEligibilityQuiz: React.FC<DonorEligibilityQuizProps> = ({
     onClose,
     onComplete
 }) => {
+    const { token } = useAuth();
+    const [questionnaire, setQuestionnaire] = useState<Questionnaire | null>(null);
+    const [loadError, setLoadError] = useState<string | null>(null);
     const [currentQuestion, setCurrentQuestion] = useState(0);
     const [answers, setAnswers] = useState<QuizAnswers>({});
     const [showResult, setShowResult] = useState(false);
     const [result, setResult] = useState<QuizResult | null>(null);
+    const [checking, setChecking] = useState(false);
+    const [submitError, setSubmitError] = useState<string | null>(null);
+
+    const questions = questionnaire?.questions || [];
+
+    // Load the active questionnaire
+    const fetchQuestionnaire = async () => {
+        setLoadError(null);
+        try {
+            const response = await fetch(`${API_BASE}/eligibility/questionnaire`, {
+                headers: { 'Authorization': `Bearer ${token}` }
+            });
+            const data = await response.json();
+
+            if (data.success) {
+                setQuestionnaire(mapApiQuestionnaire(data.data.questionnaire));
+            } else {
+                setLoadError(data.message || 'Could not load the quiz');
+            }
+        } catch (error) {
+            console.error('Error loading questionnaire:', error);
+            setLoadError('Could not load the quiz');
+        }
+    };
+
+    useEffect(() => {
+        if (isOpen && token && !questionnaire) fetchQuestionnaire();
+    }, [isOpen, token]);
 
     // Calculate progress percentage
-    const progressPercentage = ((currentQuestion + 1) / QUIZ_QUESTIONS.length) * 100;
+    const progressPercentage = questions.length > 0 ? ((currentQuestion + 1) / questions.length) * 100 : 0;
 
     // Handle answer selection
     const handleAnswer = (questionId: number, value: string) => {
@@ -185,10 +109,10 @@ export const DonorEligibilityQuiz: React.FC<DonorEligibilityQuizProps> = ({
 
     // Go to next question
     const handleNext = () => {
-        if (currentQuestion < QUIZ_QUESTIONS.length - 1) {
+        if (currentQuestion < questions.length - 1) {
             setCurrentQuestion(prev => prev + 1);
         } else {
-            calculateResult();
+            submitQuiz();
         }
     };
 
@@ -199,43 +123,61 @@ export const DonorEligibilityQuiz: React.FC<DonorEligibilityQuizProps> = ({
         }
     };
 
-    // Calculate final result
-    const calculateResult = () => {
-        let totalScore = 0;
-        const maxScore = QUIZ_QUESTIONS.length * 10;
-        const ineligibleReasons: string[] = [];
-        let hasDisqualifyingAnswer = false;
-
-        QUIZ_QUESTIONS.forEach(question => {
-            const answer = answers[question.id];
-            const selectedOption = question.options.find(opt => opt.value === answer);
-
-            if (selectedOption) {
-                totalScore += selectedOption.weight;
-
-                if (!selectedOption.eligible) {
-                    hasDisqualifyingAnswer = true;
-                    ineligibleReasons.push(INELIGIBILITY_REASONS[question.id.toString()]);
-                }
+    // Save the attempt; the server scores it and checks its deferrals
+    const submitQuiz = async () => {
+        if (!questionnaire) return;
+        setChecking(true);
+        setSubmitError(null);
+
+        try {
+            const response = await fetch(`${API_BASE}/eligibility/quiz`, {
+                method: 'POST',
+                headers: {
+                    'Content-Type': 'application/json',
+                    'Authorization': `Bearer ${token}`
+                },
+                body: JSON.stringify({ version: questionnaire.version, answers })
+            });
+            const data = await response.json();
+
+            if (response.status === 409) {
+                // A new questionnaire version was published while answering
+                resetQuiz();
+                setQuestionnaire(null);
+                await fetchQuestionnaire();
+                setSubmitError(data.message);
+                return;
+            }
+            if (!data.success) {
+                setSubmitError(data.message || 'Could not save your answers');
+                return;
             }
-        });
-
-        const percentage = Math.round((totalScore / maxScore) * 100);
-        const isEligible = !hasDisqualifyingAnswer && percentage >= 70;
-
-        const quizResult: QuizResult = {
-            isEligible,
-            score: totalScore,
-            maxScore,
-            percentage,
-            ineligibleReasons,
-            answers,
-            completedAt: new Date()
-        };
-
-        setResult(quizResult);
-        setShowResult(true);
-        onComplete(quizResult);
+
+            const { attempt } = data.data;
+            const eligibility: Eligibility = mapApiEligibility(data.data.eligibility);
+
+            const quizResult: QuizResult = {
+                isEligible: attempt.is_eligible,
+                score: attempt.score,
+                maxScore: attempt.max_score,
+                percentage: attempt.percentage,
+                ineligibleReasons: eligibility.reasons.map(reason => reason.message),
+                eligibility,
+                deferrals: data.data.deferrals.map(mapApiDeferral),
+                questionnaireVersion: attempt.questionnaire_version,
+                answers,
+                completedAt: new Date(attempt.completed_at)
+            };
+
+            setResult(quizResult);
+            setShowResult(true);
+            onComplete(quizResult);
+        } catch (error) {
+            console.error('Error saving quiz:', error);
+            setSubmitError('Could not save your answers');
+        } finally {
+            setChecking(false);
+        }
     };
 
     // Reset quiz
@@ -244,6 +186,7 @@ export const DonorEligibilityQuiz: React.FC<DonorEligibilityQuizProps> = ({
         setAnswers({});
         setShowResult(false);
         setResult(null);
+        setSubmitError(null);
     };
 
     // Close and reset
@@ -254,7 +197,7 @@ export const DonorEligibilityQuiz: React.FC<DonorEligibilityQuizProps> = ({
 
     if (!isOpen) return null;
 
-    const question = QUIZ_QUESTIONS[currentQuestion];
+    const question = questions[currentQuestion];
     const isAnswered = answers[question?.id] !== undefined;
 
     return (
@@ -287,10 +230,10 @@ export const DonorEligibilityQuiz: React.FC<DonorEligibilityQuizProps> = ({
                         </div>
 
                         {/* Progress Bar */}
-                        {!showResult && (
+                        {!showResult && question && (
                             <div className="mt-4">
                                 <div className="flex justify-between text-sm mb-1">
-                                    <span>Question {currentQuestion + 1} of {QUIZ_QUESTIONS.length}</span>
+                                    <span>Question {currentQuestion + 1} of {questions.length}</span>
                                     <span>{Math.round(progressPercentage)}% Complete</span>
                                 </div>
                                 <div className="h-2 bg-white/30 rounded-full overflow-hidden">
@@ -306,7 +249,25 @@ export const DonorEligibilityQuiz: React.FC<DonorEligibilityQuizProps> = ({
 
                     {/* Content */}
                     <div className="p-6">
-                        {!showResult ? (
+                        {submitError && (
+                            <div className="mb-4 p-3 rounded-lg bg-red-50 text-sm text-red-700">{submitError}</div>
+                        )}
+                        {!question && !showResult ? (
+                            /* Loading the questionnaire */
+                            <div className="py-10 text-center text-gray-500">
+                                {loadError ? (
+                                    <>
+                                        <p className="mb-3">{loadError}</p>
+                                        <button
+                                            onClick={fetchQuestionnaire}
+                                            className="text-sm font-medium text-red-600 hover:text-red-700"
+                                        >
+                                            Try again
+                                        </button>
+                                    </>
+                                ) : 'Loading quiz...'}
+                            </div>
+                        ) : !showResult ? (
                             /* Quiz Questions */
                             <AnimatePresence mode="wait">
                                 <motion.div
@@ -387,9 +348,17 @@ export const DonorEligibilityQuiz: React.FC<DonorEligibilityQuizProps> = ({
                                     <p className="text-sm text-gray-500">
                                         {result?.score} / {result?.maxScore} points
                                     </p>
+                                    <p className="text-xs text-gray-400 mt-1">
+                                        Questionnaire version {result?.questionnaireVersion}
+                                    </p>
                                 </div>
 
                                 {/* Ineligibility Reasons */}
+                                {result && !result.isEligible && result.ineligibleReasons.length === 0 && questionnaire && (
+                                    <div className="bg-red-50 rounded-xl p-4 mb-6 text-sm text-red-700">
+                                        Your score is below the pass mark of {questionnaire.passPercentage}%.
+                                    </div>
+                                )}
                                 {result && !result.isEligible && result.ineligibleReasons.length > 0 && (
                                     <div className="bg-red-50 rounded-xl p-4 mb-6 text-left">
                                         <div className="flex items-center space-x-2 text-red-700 mb-2">
@@ -397,10 +366,23 @@ export const DonorEligibilityQuiz: React.FC<DonorEligibilityQuizProps> = ({
                                             <span className="font-semibold">Reasons for Ineligibility:</span>
                                         </div>
                                         <ul className="space-y-1 text-sm text-red-600">
-                                            {result.ineligibleReasons.map((reason, idx) => (
-                                                <li key={idx}>• {reason}</li>
+                                            {result.eligibility?.reasons.map((reason, idx) => (
+                                                <li key={idx}>
+                                                    • {reason.message}
+                                                    {reason.until && ` Lifts on ${format(new Date(reason.until), 'MMM d, yyyy')}.`}
+                                                </li>
                                             ))}
                                         </ul>
+                                        {result.eligibility?.eligibleFrom && (
+                                            <p className="mt-3 text-sm font-medium text-red-700">
+                                                You can donate again from {format(new Date(result.eligibility.eligibleFrom), 'MMM d, yyyy')}.
+                                            </p>
+                                        )}
+                                        {result.eligibility?.requiresReview && (
+                                            <p className="mt-3 text-sm font-medium text-red-700">
+                                                Please speak to blood bank staff before donating.
+                                            </p>
+                                        )}
                                     </div>
                                 )}
 
@@ -437,7 +419,7 @@ export const DonorEligibilityQuiz: React.FC<DonorEligibilityQuizProps> = ({
                     </div>
 
                     {/* Footer Navigation (only during quiz) */}
-                    {!showResult && (
+                    {!showResult && question && (
                         <div className="border-t p-4 flex justify-between">
                             <button
                                 onClick={handlePrevious}
@@ -452,13 +434,13 @@ export const DonorEligibilityQuiz: React.FC<DonorEligibilityQuizProps> = ({
                             </button>
                             <button
                                 onClick={handleNext}
-                                disabled={!isAnswered}
-                                className={`flex items-center space-x-2 px-6 py-2 rounded-lg font-medium transition-colors ${isAnswered
+                                disabled={!isAnswered || checking}
+                                className={`flex items-center space-x-2 px-6 py-2 rounded-lg font-medium transition-colors ${isAnswered && !checking
                                         ? 'bg-red-600 hover:bg-red-700 text-white'
                                         : 'bg-gray-200 text-gray-400 cursor-not-allowed'
                                     }`}
                             >
-                                <span>{currentQuestion === QUIZ_QUESTIONS.length - 1 ? 'See Result' : 'Next'}</span>
+                                <span>{checking ? 'Checking...' : currentQuestion === questions.length - 1 ? 'See Result' : 'Next'}</span>
                                 <ChevronRight className="h-5 w-5" />
                             </button>
                         </div>
@@ -0,0 +1,182 @@
+/**
+ * EmergencyAppeals Component
+ *
+ * Critical blood requests near the donor that match their blood group:
+ * - "I can donate" with an arrival time, shown to the requester
+ * - Withdraw the offer if plans change
+ * Refreshes when a new appeal notification arrives. Hidden when there are none.
+ */
+
+import React, { useEffect, useState } from 'react';
+import { Clock, MapPin, Phone, Siren, Users } from 'lucide-react';
+import { format, formatDistanceToNow } from 'date-fns';
+import { useAuth } from '../../contexts/AuthContext';
+import { useRealtime } from '../../hooks/useRealtime';
+import { getComponentLabel } from '../../lib/bloodComponents';
+import { ETA_OPTIONS, formatEta, mapApiAppeal } from '../../lib/emergency';
+import type { EmergencyAppeal } from '../../types';
+
+const API_BASE = '/api';
+
+export const EmergencyAppeals: React.FC = () => {
+    const { token } = useAuth();
+    const [appeals, setAppeals] = useState<EmergencyAppeal[]>([]);
+    const [etas, setEtas] = useState<Record<string, number>>({});
+    const [busyId, setBusyId] = useState<string | null>(null);
+    const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+
+    const fetchAppeals = async () => {
+        try {
+            const response = await fetch(`${API_BASE}/requests/emergency`, {
+                headers: { 'Authorization': `Bearer ${token}` }
+            });
+            const data = await response.json();
+
+            if (data.success) {
+                setAppeals(data.data.appeals.map(mapApiAppeal));
+            }
+        } catch (error) {
+            console.error('Error fetching emergency appeals:', error);
+        }
+    };
+
+    useEffect(() => {
+        if (token) fetchAppeals();
+    }, [token]);
+
+    useRealtime({
+        notification: (notification) => {
+            if (notification.type === 'emergency_appeal') fetchAppeals();
+        }
+    });
+
+    // Offer to donate, or withdraw the offer
+    const respond = async (appeal: EmergencyAppeal, withdraw = false) => {
+        if (withdraw && !window.confirm('Withdraw your offer to donate? The requester will see that you are not coming.')) return;
+
+        setBusyId(appeal.id);
+        setMessage(null);
+
+        try {
+            const response = await fetch(`${API_BASE}/requests/${appeal.id}/respond`, {
+                method: withdraw ? 'DELETE' : 'POST',
+                headers: {
+                    'Content-Type': 'application/json',
+                    'Authorization': `Bearer ${token}`
+                },
+                body: withdraw ? undefined : JSON.stringify({ eta_minutes: etas[appeal.id] || ETA_OPTIONS[1] })
+            });
+            const data = await response.json();
+
+            setMessage({ type: data.success ? 'success' : 'error', text: data.message || 'Something went wrong' });
+            if (data.success) fetchAppeals();
+        } catch (error) {
+            setMessage({ type: 'error', text: 'Something went wrong' });
+        } finally {
+            setBusyId(null);
+        }
+    };
+
+    if (appeals.length === 0) return null;
+
+    return (
+        <div className="bg-white rounded-xl shadow-md border-2 border-red-500 mb-8">
+            <div className="p-6 border-b border-gray-200 flex items-center space-x-3">
+                <Siren className="h-6 w-6 text-red-600 animate-pulse" />
+                <div>
+                    <h3 className="text-lg font-semibold text-gray-900">Emergency Appeals Near You</h3>
+                    <p className="text-sm text-gray-500">Patients urgently need blood you can give</p>
+                </div>
+            </div>
+
+            {message && (
+                <div className={`mx-6 mt-4 p-3 rounded-lg text-sm ${message.type === 'success'
+                    ? 'bg-green-50 border border-green-200 text-green-700'
+                    : 'bg-red-50 border border-red-200 text-red-700'
+                    }`}>
+                    {message.text}
+                </div>
+            )}
+
+            <div className="p-6 space-y-4">
+                {appeals.map((appeal) => {
+                    const coming = appeal.myResponse?.status === 'coming';
+                    const busy = busyId === appeal.id;
+
+                    return (
+                        <div key={appeal.id} className="border border-red-200 bg-red-50 rounded-lg p-4">
+                            <div className="flex flex-col md:flex-row md:items-start md:justify-between gap-4">
+                                <div className="space-y-1">
+                                    <p className="font-semibold text-gray-900">
+                                        {appeal.unitsRequested} × {appeal.bloodGroup} {getComponentLabel(appeal.component)}
+                                    </p>
+                                    <p className="text-sm text-gray-700">{appeal.reason}</p>
+                                    {appeal.location && (
+                                        <p className="text-sm text-gray-600 flex items-center">
+                                            <MapPin className="h-3.5 w-3.5 mr-1" />{appeal.location}
+                                        </p>
+                                    )}
+                                    <p className="text-xs text-gray-500 flex items-center flex-wrap gap-x-3">
+                                        <span className="flex items-center">
+                                            <Clock className="h-3 w-3 mr-1" />
+                                            Raised {formatDistanceToNow(new Date(appeal.createdAt), { addSuffix: true })} by {appeal.requesterName}
+                                        </span>
+                                        <span className="flex items-center">
+                                            <Users className="h-3 w-3 mr-1" />
+                                            {appeal.responders} donor{appeal.responders !== 1 ? 's' : ''} on the way
+                                        </span>
+                                    </p>
+                                    {coming && appeal.contactPhone && (
+                                        <p className="text-sm text-gray-700 flex items-center">
+                                            <Phone className="h-3.5 w-3.5 mr-1" />
+                                            <a href={`tel:${appeal.contactPhone}`} className="underline">{appeal.contactPhone}</a>
+                                        </p>
+                                    )}
+                                </div>
+
+                                <div className="md:w-56 shrink-0">
+                                    {coming ? (
+                                        <div className="space-y-2">
+                                            <p className="text-sm font-medium text-green-700 text-center">
+                                                You're expected by {format(new Date(appeal.myResponse!.expectedAt), 'h:mm a')}
+                                            </p>
+                                            <button
+                                                onClick={() => respond(appeal, true)}
+                                                disabled={busy}
+                                                className="w-full border border-gray-300 bg-white text-gray-700 hover:bg-gray-50 py-2 px-4 rounded-lg text-sm font-medium disabled:opacity-50"
+                                            >
+                                                Withdraw
+                                            </button>
+                                        </div>
+                                    ) : (
+                                        <div className="space-y-2">
+                                            <select
+                                                value={etas[appeal.id] || ETA_OPTIONS[1]}
+                                                onChange={(e) => setEtas(prev => ({ ...prev, [appeal.id]: parseInt(e.target.value) }))}
+                                                className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm bg-white"
+                                                aria-label="Arrival time"
+                                            >
+                                                {ETA_OPTIONS.map(minutes => (
+                                                    <option key={minutes} value={minutes}>I can be there in {formatEta(minutes)}</option>
+                                                ))}
+                                            </select>
+                                            <button
+                                                onClick={() => respond(appeal)}
+                                                disabled={busy}
+                                                className="w-full bg-red-600 hover:bg-red-700 text-white py-2 px-4 rounded-lg text-sm font-medium disabled:opacity-50"
+                                            >
+                                                {busy ? 'Sending...' : 'I Can Donate'}
+                                            </button>
+                                        </div>
+                                    )}
+                                </div>
+                            </div>
+                        </div>
+                    );
+                })}
+            </div>
+        </div>
+    );
+};
+
+export default EmergencyAppeals;
@@ -0,0 +1,218 @@
+/**
+ * NearbyDrives Component
+ *
+ * Lists upcoming blood donation drives for donors:
+ * - Nearest first when the browser shares the donor's location, else soonest first
+ * - RSVP, cancel, and check in on the day of the drive
+ */
+
+import React, { useEffect, useState } from 'react';
+import { Calendar, Clock, MapPin, Navigation, RefreshCw, Users } from 'lucide-react';
+import { format } from 'date-fns';
+import { useAuth } from '../../contexts/AuthContext';
+import { REGISTRATION_STATUS_STYLES, isDriveCheckInOpen, mapApiDrive } from '../../lib/drives';
+import type { DonationDrive } from '../../types';
+
+const API_BASE = '/api';
+
+// Search radius around the donor, in km
+const NEARBY_RADIUS_KM = 50;
+
+export const NearbyDrives: React.FC = () => {
+    const { token } = useAuth();
+    const [drives, setDrives] = useState<DonationDrive[]>([]);
+    const [coords, setCoords] = useState<{ lat: number; lng: number } | null>(null);
+    const [locating, setLocating] = useState(true);
+    const [loading, setLoading] = useState(false);
+    const [busyDriveId, setBusyDriveId] = useState<string | null>(null);
+    const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+
+    // Ask the browser where the donor is (once)
+    useEffect(() => {
+        if (!navigator.geolocation) {
+            setLocating(false);
+            return;
+        }
+        navigator.geolocation.getCurrentPosition(
+            (position) => {
+                setCoords({ lat: position.coords.latitude, lng: position.coords.longitude });
+                setLocating(false);
+            },
+            () => setLocating(false),
+            { timeout: 10000, maximumAge: 10 * 60 * 1000 }
+        );
+    }, []);
+
+    const fetchDrives = async () => {
+        setLoading(true);
+        try {
+            const query = coords ? `?lat=${coords.lat}&lng=${coords.lng}&radius=${NEARBY_RADIUS_KM}` : '';
+            const response = await fetch(`${API_BASE}/drives${query}`, {
+                headers: { 'Authorization': `Bearer ${token}` }
+            });
+            const data = await response.json();
+
+            if (data.success) {
+                setDrives(data.data.drives.map(mapApiDrive));
+            }
+        } catch (error) {
+            console.error('Error fetching drives:', error);
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    useEffect(() => {
+        if (token && !locating) fetchDrives();
+    }, [token, locating, coords]);
+
+    // RSVP, cancel or check in, then refresh the list
+    const driveAction = async (drive: DonationDrive, action: 'register' | 'cancel' | 'check-in') => {
+        if (action === 'cancel' && !window.confirm(`Cancel your registration for ${drive.name}?`)) return;
+
+        setBusyDriveId(drive.id);
+        setMessage(null);
+
+        try {
+            const response = await fetch(
+                `${API_BASE}/drives/${drive.id}/${action === 'check-in' ? 'check-in' : 'register'}`,
+                {
+                    method: action === 'cancel' ? 'DELETE' : 'POST',
+                    headers: { 'Authorization': `Bearer ${token}` }
+                }
+            );
+            const data = await response.json();
+
+            setMessage({
+                type: data.success ? 'success' : 'error',
+                text: data.message || 'Something went wrong'
+            });
+            fetchDrives();
+        } catch (error) {
+            setMessage({ type: 'error', text: 'Something went wrong' });
+        } finally {
+            setBusyDriveId(null);
+        }
+    };
+
+    const renderAction = (drive: DonationDrive) => {
+        const status = drive.myRegistration?.status;
+        const busy = busyDriveId === drive.id;
+
+        if (status === 'registered') {
+            return (
+                <div className="flex space-x-2">
+                    {isDriveCheckInOpen(drive) && (
+                        <button
+                            onClick={() => driveAction(drive, 'check-in')}
+                            disabled={busy}
+                            className="flex-1 bg-green-600 hover:bg-green-700 text-white py-2 px-4 rounded-lg text-sm font-medium transition-colors disabled:opacity-50"
+                        >
+                            Check In
+                        </button>
+                    )}
+                    <button
+                        onClick={() => driveAction(drive, 'cancel')}
+                        disabled={busy}
+                        className="flex-1 border border-gray-300 text-gray-700 hover:bg-gray-50 py-2 px-4 rounded-lg text-sm font-medium transition-colors disabled:opacity-50"
+                    >
+                        Cancel RSVP
+                    </button>
+                </div>
+            );
+        }
+
+        if (status && status !== 'cancelled') {
+            return (
+                <p className={`text-center py-2 rounded-lg text-sm font-medium ${REGISTRATION_STATUS_STYLES[status].className}`}>
+                    {status === 'donated' ? 'Donated - thank you!' : REGISTRATION_STATUS_STYLES[status].label}
+                </p>
+            );
+        }
+
+        return (
+            <button
+                onClick={() => driveAction(drive, 'register')}
+                disabled={busy || drive.placesLeft === 0}
+                className="w-full bg-red-600 hover:bg-red-700 text-white py-2 px-4 rounded-lg text-sm font-medium transition-colors disabled:opacity-50"
+            >
+                {busy ? 'Saving...' : drive.placesLeft === 0 ? 'Fully Booked' : 'Register'}
+            </button>
+        );
+    };
+
+    return (
+        <div>
+            <div className="p-6 border-b border-gray-200">
+                <div className="flex items-center justify-between">
+                    <div>
+                        <h3 className="text-lg font-semibold text-gray-900">Upcoming Blood Drives</h3>
+                        <p className="text-sm text-gray-500">
+                            {coords
+                                ? `Nearest first, within ${NEARBY_RADIUS_KM} km of you`
+                                : 'Allow location access to see the drives nearest to you'}
+                        </p>
+                    </div>
+                    <button
+                        onClick={fetchDrives}
+                        className="p-2 border border-gray-300 rounded-lg text-gray-600 hover:bg-gray-50"
+                        aria-label="Refresh drives"
+                    >
+                        <RefreshCw className={`h-4 w-4 ${loading ? 'animate-spin' : ''}`} />
+                    </button>
+                </div>
+                {message && (
+                    <div className={`mt-4 p-3 rounded-lg text-sm ${message.type === 'success'
+                        ? 'bg-green-50 border border-green-200 text-green-700'
+                        : 'bg-red-50 border border-red-200 text-red-700'
+                        }`}>
+                        {message.text}
+                    </div>
+                )}
+            </div>
+
+            {(locating || loading) && drives.length === 0 ? (
+                <p className="text-sm text-gray-500 p-6 text-center">Finding drives near you...</p>
+            ) : drives.length === 0 ? (
+                <div className="p-6 text-center text-gray-500">
+                    <Calendar className="h-8 w-8 mx-auto mb-2 text-gray-400" />
+                    <p className="text-sm">No upcoming drives{coords ? ` within ${NEARBY_RADIUS_KM} km` : ''}.</p>
+                </div>
+            ) : (
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-6 p-6">
+                    {drives.map((drive) => (
+                        <div key={drive.id} className="border border-gray-200 rounded-lg p-4 hover:shadow-md transition-shadow flex flex-col">
+                            <div className="flex items-center justify-between mb-3">
+                                <Calendar className="h-5 w-5 text-red-600" />
+                                {drive.distanceKm !== null && (
+                                    <span className="text-sm text-gray-600 flex items-center">
+                                        <Navigation className="h-3.5 w-3.5 mr-1" />{drive.distanceKm} km
+                                    </span>
+                                )}
+                            </div>
+                            <h4 className="font-medium text-gray-900 mb-1">{drive.name}</h4>
+                            {drive.hospitalName && (
+                                <p className="text-xs text-gray-500 mb-2">By {drive.hospitalName}</p>
+                            )}
+                            <p className="text-sm text-gray-600 mb-1 flex items-start">
+                                <MapPin className="h-3.5 w-3.5 mr-1 mt-0.5 shrink-0" />
+                                <span className="capitalize">{drive.venueName}, {drive.city}</span>
+                            </p>
+                            <p className="text-sm text-gray-600 mb-1 flex items-center">
+                                <Clock className="h-3.5 w-3.5 mr-1" />
+                                {format(new Date(drive.startTime), 'EEE, MMM d • h:mm a')} - {format(new Date(drive.endTime), 'h:mm a')}
+                            </p>
+                            <p className="text-sm text-gray-600 mb-3 flex items-center">
+                                <Users className="h-3.5 w-3.5 mr-1" />
+                                {drive.placesLeft} of {drive.capacity} places left
+                            </p>
+                            <div className="mt-auto">{renderAction(drive)}</div>
+                        </div>
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default NearbyDrives;
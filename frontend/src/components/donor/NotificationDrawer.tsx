@@ -0,0 +1,162 @@
+/**
+ * NotificationDrawer Component
+ *
+ * Slide-over inbox for donors:
+ * - Donation reminders, blood request and emergency appeals, thank-you notes and new badges
+ * - Unread markers, cleared when a notification is opened
+ * - "Respond" link for notifications that point to a page
+ */
+
+import React from 'react';
+import { Link } from 'react-router-dom';
+import { motion, AnimatePresence } from 'framer-motion';
+import { Award, Bell, CalendarClock, Droplets, Heart, Info, Siren, X, CheckCheck, ArrowRight } from 'lucide-react';
+import { formatDistanceToNow } from 'date-fns';
+import { useNotifications } from '../../contexts/NotificationContext';
+import type { AppNotification, NotificationType } from '../../types';
+
+interface NotificationDrawerProps {
+    isOpen: boolean;
+    onClose: () => void;
+}
+
+const TYPE_STYLES: Record<NotificationType, { icon: React.ElementType; color: string; action: string }> = {
+    donation_reminder: { icon: CalendarClock, color: 'bg-blue-100 text-blue-600', action: 'View' },
+    blood_request: { icon: Droplets, color: 'bg-red-100 text-red-600', action: 'Respond' },
+    emergency_appeal: { icon: Siren, color: 'bg-red-600 text-white', action: 'Respond' },
+    thank_you: { icon: Heart, color: 'bg-pink-100 text-pink-600', action: 'View' },
+    achievement: { icon: Award, color: 'bg-yellow-100 text-yellow-700', action: 'View' },
+    general: { icon: Info, color: 'bg-gray-100 text-gray-600', action: 'View' }
+};
+
+export const NotificationDrawer: React.FC<NotificationDrawerProps> = ({ isOpen, onClose }) => {
+    const { notifications, unreadCount, loading, markRead, markAllRead } = useNotifications();
+
+    const handleOpen = (notification: AppNotification) => {
+        if (!notification.isRead) markRead(notification.id);
+    };
+
+    return (
+        <AnimatePresence>
+            {isOpen && (
+                <>
+                    <motion.div
+                        initial={{ opacity: 0 }}
+                        animate={{ opacity: 1 }}
+                        exit={{ opacity: 0 }}
+                        onClick={onClose}
+                        className="fixed inset-0 bg-black bg-opacity-30 z-50"
+                    />
+                    <motion.aside
+                        initial={{ x: '100%' }}
+                        animate={{ x: 0 }}
+                        exit={{ x: '100%' }}
+                        transition={{ type: 'tween', duration: 0.25 }}
+                        className="fixed top-0 right-0 h-full w-full max-w-md bg-white shadow-2xl z-50 flex flex-col"
+                    >
+                        {/* Header */}
+                        <div className="flex items-center justify-between px-6 py-4 border-b">
+                            <div className="flex items-center space-x-2">
+                                <Bell className="h-5 w-5 text-red-600" />
+                                <h2 className="text-lg font-semibold text-gray-900">Notifications</h2>
+                                {unreadCount > 0 && (
+                                    <span className="px-2 py-0.5 text-xs font-bold text-white bg-red-500 rounded-full">
+                                        {unreadCount}
+                                    </span>
+                                )}
+                            </div>
+                            <div className="flex items-center space-x-2">
+                                {unreadCount > 0 && (
+                                    <button
+                                        onClick={markAllRead}
+                                        className="flex items-center space-x-1 text-sm text-gray-600 hover:text-red-600 transition-colors"
+                                    >
+                                        <CheckCheck className="h-4 w-4" />
+                                        <span>Mark all read</span>
+                                    </button>
+                                )}
+                                <button
+                                    onClick={onClose}
+                                    className="p-1 rounded-md text-gray-500 hover:text-gray-700 hover:bg-gray-100 transition-colors"
+                                    aria-label="Close notifications"
+                                >
+                                    <X className="h-5 w-5" />
+                                </button>
+                            </div>
+                        </div>
+
+                        {/* List */}
+                        <div className="flex-1 overflow-y-auto">
+                            {loading && notifications.length === 0 ? (
+                                <div className="flex items-center justify-center py-16">
+                                    <div className="h-8 w-8 border-4 border-red-200 border-t-red-600 rounded-full animate-spin" />
+                                </div>
+                            ) : notifications.length === 0 ? (
+                                <div className="text-center py-16 px-6">
+                                    <Bell className="h-12 w-12 text-gray-300 mx-auto mb-3" />
+                                    <p className="text-gray-600 font-medium">You're all caught up</p>
+                                    <p className="text-sm text-gray-500 mt-1">
+                                        Reminders and blood request appeals will appear here.
+                                    </p>
+                                </div>
+                            ) : (
+                                <ul className="divide-y">
+                                    {notifications.map((notification) => {
+                                        const style = TYPE_STYLES[notification.type] || TYPE_STYLES.general;
+                                        const Icon = style.icon;
+
+                                        return (
+                                            <li
+                                                key={notification.id}
+                                                onClick={() => handleOpen(notification)}
+                                                className={`flex items-start space-x-3 px-6 py-4 cursor-pointer transition-colors ${notification.isRead ? 'bg-white hover:bg-gray-50' : 'bg-red-50/50 hover:bg-red-50'
+                                                    }`}
+                                            >
+                                                <div className={`p-2 rounded-lg ${style.color}`}>
+                                                    <Icon className="h-5 w-5" />
+                                                </div>
+                                                <div className="flex-1 min-w-0">
+                                                    <div className="flex items-start justify-between gap-2">
+                                                        <p className={`text-sm ${notification.isRead ? 'text-gray-800' : 'font-semibold text-gray-900'}`}>
+                                                            {notification.title || notification.message}
+                                                        </p>
+                                                        {!notification.isRead && (
+                                                            <span className="mt-1.5 h-2 w-2 flex-shrink-0 rounded-full bg-red-500" />
+                                                        )}
+                                                    </div>
+                                                    {notification.title && (
+                                                        <p className="text-sm text-gray-600 mt-0.5">{notification.message}</p>
+                                                    )}
+                                                    <div className="flex items-center justify-between mt-2">
+                                                        <p className="text-xs text-gray-500">
+                                                            {formatDistanceToNow(new Date(notification.createdAt), { addSuffix: true })}
+                                                            {notification.hospitalName && ` · ${notification.hospitalName}`}
+                                                        </p>
+                                                        {notification.link && (
+                                                            <Link
+                                                                to={notification.link}
+                                                                onClick={(e) => {
+                                                                    e.stopPropagation();
+                                                                    handleOpen(notification);
+                                                                    onClose();
+                                                                }}
+                                                                className="flex items-center space-x-1 text-xs font-medium text-red-600 hover:text-red-700"
+                                                            >
+                                                                <span>{style.action}</span>
+                                                                <ArrowRight className="h-3 w-3" />
+                                                            </Link>
+                                                        )}
+                                                    </div>
+                                                </div>
+                                            </li>
+                                        );
+                                    })}
+                                </ul>
+                            )}
+                        </div>
+                    </motion.aside>
+                </>
+            )}
+        </AnimatePresence>
+    );
+};
@@ -0,0 +1,122 @@
+/**
+ * NotificationPreferences Component
+ *
+ * Lets donors choose the channels reminders and blood appeals reach them on:
+ * - In-app: shown in RaktSetu (live while logged in)
+ * - Email
+ * - SMS
+ * At least one channel stays on.
+ */
+
+import React, { useEffect, useState } from 'react';
+import { Bell, Mail, MessageSquare } from 'lucide-react';
+import { useAuth } from '../../contexts/AuthContext';
+import type { NotificationPreferences as Preferences } from '../../types';
+
+const API_BASE = '/api';
+
+const CHANNELS: { key: keyof Preferences; label: string; description: string; icon: React.ElementType }[] = [
+    { key: 'app', label: 'In-app', description: 'Alerts inside RaktSetu', icon: Bell },
+    { key: 'email', label: 'Email', description: 'Reminders to your inbox', icon: Mail },
+    { key: 'sms', label: 'SMS', description: 'Text messages to your phone', icon: MessageSquare }
+];
+
+export const NotificationPreferences: React.FC = () => {
+    const { token, updateUser } = useAuth();
+    const [preferences, setPreferences] = useState<Preferences | null>(null);
+    const [savingChannel, setSavingChannel] = useState<keyof Preferences | null>(null);
+    const [error, setError] = useState('');
+
+    useEffect(() => {
+        if (!token) return;
+
+        const fetchPreferences = async () => {
+            try {
+                const response = await fetch(`${API_BASE}/users/notification-preferences`, {
+                    headers: { 'Authorization': `Bearer ${token}` }
+                });
+                const data = await response.json();
+
+                if (data.success) {
+                    setPreferences(data.data.preferences);
+                }
+            } catch (err) {
+                setError('Unable to load notification settings');
+            }
+        };
+
+        fetchPreferences();
+    }, [token]);
+
+    const handleToggle = async (channel: keyof Preferences) => {
+        if (!preferences) return;
+
+        setSavingChannel(channel);
+        setError('');
+
+        try {
+            const response = await fetch(`${API_BASE}/users/notification-preferences`, {
+                method: 'PUT',
+                headers: {
+                    'Content-Type': 'application/json',
+                    'Authorization': `Bearer ${token}`
+                },
+                body: JSON.stringify({ [channel]: !preferences[channel] })
+            });
+            const data = await response.json();
+
+            if (data.success) {
+                setPreferences(data.data.preferences);
+                updateUser({ notificationPreferences: data.data.preferences });
+            } else {
+                setError(data.message || 'Could not update settings');
+            }
+        } catch (err) {
+            setError('Unable to connect to server');
+        } finally {
+            setSavingChannel(null);
+        }
+    };
+
+    return (
+        <div className="bg-white rounded-xl shadow-md p-6">
+            <h3 className="text-lg font-semibold text-gray-900 mb-1">Notification Settings</h3>
+            <p className="text-sm text-gray-500 mb-4">Choose how hospitals can reach you</p>
+
+            <div className="space-y-3">
+                {CHANNELS.map(({ key, label, description, icon: Icon }) => {
+                    const enabled = preferences?.[key] ?? false;
+
+                    return (
+                        <div key={key} className="flex items-center justify-between">
+                            <div className="flex items-center space-x-3">
+                                <Icon className="h-5 w-5 text-red-600" />
+                                <div>
+                                    <p className="text-sm font-medium text-gray-900">{label}</p>
+                                    <p className="text-xs text-gray-500">{description}</p>
+                                </div>
+                            </div>
+                            <button
+                                type="button"
+                                role="switch"
+                                aria-checked={enabled}
+                                aria-label={`${label} notifications`}
+                                onClick={() => handleToggle(key)}
+                                disabled={!preferences || savingChannel !== null}
+                                className={`relative inline-flex h-6 w-11 items-center rounded-full transition-colors disabled:opacity-50 ${enabled ? 'bg-red-600' : 'bg-gray-300'}`}
+                            >
+                                <span
+                                    className={`inline-block h-4 w-4 transform rounded-full bg-white transition-transform ${enabled ? 'translate-x-6' : 'translate-x-1'}`}
+                                />
+                            </button>
+                        </div>
+                    );
+                })}
+            </div>
+
+            {error && <p className="text-sm text-red-600 mt-3">{error}</p>}
+        </div>
+    );
+};
+
+export default NotificationPreferences;
@@ -0,0 +1,523 @@
+/**
+ * DonationDrivesManager Component
+ *
+ * Lets hospital staff and admins organise blood donation drives:
+ * - Create and edit drives with venue, coordinates, times, target units and capacity
+ * - Registrations and collected units against the target for each drive
+ * - Record the donation of a registered donor, and cancel a drive
+ */
+
+import React, { useEffect, useState } from 'react';
+import { CalendarDays, Droplet, LocateFixed, Plus, RefreshCw, Users, X } from 'lucide-react';
+import { format } from 'date-fns';
+import { useAuth } from '../../contexts/AuthContext';
+import { DEFAULT_COMPONENT } from '../../lib/bloodComponents';
+import {
+    DRIVE_STATUS_STYLES,
+    REGISTRATION_STATUS_STYLES,
+    mapApiDrive,
+    mapApiDriveRegistration
+} from '../../lib/drives';
+import type { DonationDrive, DriveRegistration } from '../../types';
+
+const API_BASE = '/api';
+
+interface DriveForm {
+    hospitalId: string;
+    name: string;
+    description: string;
+    venueName: string;
+    address: string;
+    city: string;
+    latitude: string;
+    longitude: string;
+    date: string;
+    startTime: string;
+    endTime: string;
+    targetUnits: string;
+    capacity: string;
+}
+
+const EMPTY_FORM: DriveForm = {
+    hospitalId: '',
+    name: '',
+    description: '',
+    venueName: '',
+    address: '',
+    city: '',
+    latitude: '',
+    longitude: '',
+    date: '',
+    startTime: '09:00',
+    endTime: '15:00',
+    targetUnits: '50',
+    capacity: '60'
+};
+
+// Fill the form from an existing drive
+const toForm = (drive: DonationDrive): DriveForm => ({
+    hospitalId: drive.hospitalId,
+    name: drive.name,
+    description: drive.description || '',
+    venueName: drive.venueName,
+    address: drive.address,
+    city: drive.city,
+    latitude: String(drive.latitude),
+    longitude: String(drive.longitude),
+    date: format(new Date(drive.startTime), 'yyyy-MM-dd'),
+    startTime: format(new Date(drive.startTime), 'HH:mm'),
+    endTime: format(new Date(drive.endTime), 'HH:mm'),
+    targetUnits: String(drive.targetUnits),
+    capacity: String(drive.capacity)
+});
+
+interface DonationDrivesManagerProps {
+    // Admins choose the hospital that runs a new drive
+    selectHospital?: boolean;
+}
+
+export const DonationDrivesManager: React.FC<DonationDrivesManagerProps> = ({ selectHospital = false }) => {
+    const { token } = useAuth();
+    const [drives, setDrives] = useState<DonationDrive[]>([]);
+    const [hospitals, setHospitals] = useState<{ id: string; name: string }[]>([]);
+    const [loading, setLoading] = useState(false);
+    const [showForm, setShowForm] = useState(false);
+    const [editingId, setEditingId] = useState<string | null>(null);
+    const [form, setForm] = useState<DriveForm>(EMPTY_FORM);
+    const [saving, setSaving] = useState(false);
+    const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+    const [selectedDrive, setSelectedDrive] = useState<DonationDrive | null>(null);
+    const [registrations, setRegistrations] = useState<DriveRegistration[]>([]);
+    const [registrationsLoading, setRegistrationsLoading] = useState(false);
+    const [busyRegistrationId, setBusyRegistrationId] = useState<string | null>(null);
+
+    const authHeaders = {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${token}`
+    };
+
+    const fetchDrives = async () => {
+        setLoading(true);
+        try {
+            const response = await fetch(`${API_BASE}/drives/organised`, { headers: authHeaders });
+            const data = await response.json();
+
+            if (data.success) {
+                setDrives(data.data.drives.map(mapApiDrive));
+            }
+        } catch (error) {
+            console.error('Error fetching drives:', error);
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    const fetchRegistrations = async (drive: DonationDrive) => {
+        setRegistrationsLoading(true);
+        try {
+            const response = await fetch(`${API_BASE}/drives/${drive.id}/registrations`, { headers: authHeaders });
+            const data = await response.json();
+
+            if (data.success) {
+                setSelectedDrive(mapApiDrive(data.data.drive));
+                setRegistrations(data.data.registrations.map(mapApiDriveRegistration));
+            }
+        } catch (error) {
+            console.error('Error fetching registrations:', error);
+        } finally {
+            setRegistrationsLoading(false);
+        }
+    };
+
+    useEffect(() => {
+        if (!token) return;
+        fetchDrives();
+
+        if (selectHospital) {
+            fetch(`${API_BASE}/hospitals?limit=200`)
+                .then(response => response.json())
+                .then(data => {
+                    if (data.success) {
+                        setHospitals(data.data.hospitals.map((h: any) => ({ id: h._id, name: h.name })));
+                    }
+                })
+                .catch(error => console.error('Error fetching hospitals:', error));
+        }
+    }, [token]);
+
+    const updateForm = (field: keyof DriveForm, value: string) => {
+        setForm(prev => ({ ...prev, [field]: value }));
+    };
+
+    const openForm = (drive?: DonationDrive) => {
+        setEditingId(drive ? drive.id : null);
+        setForm(drive ? toForm(drive) : EMPTY_FORM);
+        setShowForm(true);
+        setMessage(null);
+    };
+
+    // Fill the venue coordinates from the browser's location
+    const useMyLocation = () => {
+        navigator.geolocation?.getCurrentPosition(
+            (position) => setForm(prev => ({
+                ...prev,
+                latitude: position.coords.latitude.toFixed(6),
+                longitude: position.coords.longitude.toFixed(6)
+            })),
+            () => setMessage({ type: 'error', text: 'Could not read your location' })
+        );
+    };
+
+    const saveDrive = async () => {
+        setSaving(true);
+        setMessage(null);
+
+        try {
+            const response = await fetch(
+                editingId ? `${API_BASE}/drives/${editingId}` : `${API_BASE}/drives`,
+                {
+                    method: editingId ? 'PUT' : 'POST',
+                    headers: authHeaders,
+                    body: JSON.stringify({
+                        hospital_id: selectHospital ? form.hospitalId : undefined,
+                        name: form.name,
+                        description: form.description,
+                        venue_name: form.venueName,
+                        address: form.address,
+                        city: form.city,
+                        latitude: parseFloat(form.latitude),
+                        longitude: parseFloat(form.longitude),
+                        start_time: new Date(`${form.date}T${form.startTime}`).toISOString(),
+                        end_time: new Date(`${form.date}T${form.endTime}`).toISOString(),
+                        target_units: parseInt(form.targetUnits),
+                        capacity: parseInt(form.capacity)
+                    })
+                }
+            );
+            const data = await response.json();
+
+            if (data.success) {
+                setShowForm(false);
+                setMessage({ type: 'success', text: data.message });
+                fetchDrives();
+            } else {
+                setMessage({ type: 'error', text: data.message || 'Could not save the drive' });
+            }
+        } catch (error) {
+            setMessage({ type: 'error', text: 'Could not save the drive' });
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    const cancelDrive = async (drive: DonationDrive) => {
+        const reason = window.prompt(`Cancel ${drive.name}? Registered donors will be notified.\n\nReason (optional):`);
+        if (reason === null) return;
+
+        try {
+            const response = await fetch(`${API_BASE}/drives/${drive.id}/cancel`, {
+                method: 'POST',
+                headers: authHeaders,
+                body: JSON.stringify({ reason })
+            });
+            const data = await response.json();
+
+            setMessage({ type: data.success ? 'success' : 'error', text: data.message || 'Could not cancel the drive' });
+            if (data.success) {
+                fetchDrives();
+                if (selectedDrive?.id === drive.id) fetchRegistrations(drive);
+            }
+        } catch (error) {
+            setMessage({ type: 'error', text: 'Could not cancel the drive' });
+        }
+    };
+
+    // Record one unit of whole blood from a registered donor
+    const recordDonation = async (registration: DriveRegistration) => {
+        if (!selectedDrive) return;
+        if (!window.confirm(`Record 1 unit of ${registration.bloodGroup} whole blood from ${registration.donorName}?`)) return;
+
+        setBusyRegistrationId(registration.id);
+
+        try {
+            const response = await fetch(
+                `${API_BASE}/drives/${selectedDrive.id}/registrations/${registration.id}/donation`,
+                {
+                    method: 'POST',
+                    headers: authHeaders,
+                    body: JSON.stringify({ units: 1, component: DEFAULT_COMPONENT })
+                }
+            );
+            const data = await response.json();
+
+            if (data.success) {
+                fetchRegistrations(selectedDrive);
+                fetchDrives();
+            } else {
+                alert(data.message || 'Could not record donation');
+            }
+        } catch (error) {
+            alert('Error recording donation');
+        } finally {
+            setBusyRegistrationId(null);
+        }
+    };
+
+    const inputClass = "w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-red-500 focus:border-red-500";
+    const canRecord = selectedDrive && ['ongoing', 'ended'].includes(selectedDrive.status);
+
+    return (
+        <div className="bg-white rounded-xl shadow-md mb-8">
+            <div className="p-6 border-b border-gray-200">
+                <div className="flex items-center justify-between">
+                    <div className="flex items-center space-x-3">
+                        <CalendarDays className="h-6 w-6 text-red-600" />
+                        <div>
+                            <h2 className="text-xl font-semibold text-gray-900">Donation Drives</h2>
+                            <p className="text-sm text-gray-600">Organise camps, track RSVPs and units collected against the target</p>
+                        </div>
+                    </div>
+                    <div className="flex items-center space-x-2">
+                        <button
+                            onClick={fetchDrives}
+                            className="p-2 border border-gray-300 rounded-lg text-gray-600 hover:bg-gray-50"
+                            aria-label="Refresh drives"
+                        >
+                            <RefreshCw className={`h-4 w-4 ${loading ? 'animate-spin' : ''}`} />
+                        </button>
+                        <button
+                            onClick={() => openForm()}
+                            className="flex items-center space-x-1 px-4 py-2 bg-red-600 hover:bg-red-700 text-white rounded-lg text-sm font-medium"
+                        >
+                            <Plus className="h-4 w-4" />
+                            <span>New Drive</span>
+                        </button>
+                    </div>
+                </div>
+                {message && (
+                    <div className={`mt-4 p-3 rounded-lg text-sm ${message.type === 'success'
+                        ? 'bg-green-50 border border-green-200 text-green-700'
+                        : 'bg-red-50 border border-red-200 text-red-700'
+                        }`}>
+                        {message.text}
+                    </div>
+                )}
+            </div>
+
+            {/* Create / edit form */}
+            {showForm && (
+                <div className="p-6 border-b border-gray-200 bg-gray-50">
+                    <div className="flex items-center justify-between mb-4">
+                        <h3 className="text-sm font-semibold text-gray-900">{editingId ? 'Edit drive' : 'New drive'}</h3>
+                        <button onClick={() => setShowForm(false)} className="p-1 text-gray-500 hover:text-gray-700" aria-label="Close form">
+                            <X className="h-4 w-4" />
+                        </button>
+                    </div>
+                    <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+                        {selectHospital && !editingId && (
+                            <select
+                                value={form.hospitalId}
+                                onChange={(e) => updateForm('hospitalId', e.target.value)}
+                                className={`${inputClass} md:col-span-4`}
+                            >
+                                <option value="">Hospital running the drive</option>
+                                {hospitals.map(h => (
+                                    <option key={h.id} value={h.id}>{h.name}</option>
+                                ))}
+                            </select>
+                        )}
+                        <input value={form.name} onChange={(e) => updateForm('name', e.target.value)} placeholder="Drive name" className={`${inputClass} md:col-span-2`} />
+                        <input value={form.description} onChange={(e) => updateForm('description', e.target.value)} placeholder="Description (optional)" className={`${inputClass} md:col-span-2`} />
+                        <input value={form.venueName} onChange={(e) => updateForm('venueName', e.target.value)} placeholder="Venue" className={inputClass} />
+                        <input value={form.address} onChange={(e) => updateForm('address', e.target.value)} placeholder="Address" className={`${inputClass} md:col-span-2`} />
+                        <input value={form.city} onChange={(e) => updateForm('city', e.target.value)} placeholder="City" className={inputClass} />
+                        <input type="number" step="any" value={form.latitude} onChange={(e) => updateForm('latitude', e.target.value)} placeholder="Latitude" className={inputClass} />
+                        <input type="number" step="any" value={form.longitude} onChange={(e) => updateForm('longitude', e.target.value)} placeholder="Longitude" className={inputClass} />
+                        <button
+                            type="button"
+                            onClick={useMyLocation}
+                            className="flex items-center justify-center space-x-1 px-3 py-2 border border-gray-300 rounded-lg text-sm text-gray-700 hover:bg-white md:col-span-2"
+                        >
+                            <LocateFixed className="h-4 w-4" />
+                            <span>Use my location for the venue</span>
+                        </button>
+                        <label className="text-xs text-gray-600">
+                            Date
+                            <input type="date" value={form.date} onChange={(e) => updateForm('date', e.target.value)} className={`${inputClass} mt-1`} />
+                        </label>
+                        <label className="text-xs text-gray-600">
+                            Starts
+                            <input type="time" value={form.startTime} onChange={(e) => updateForm('startTime', e.target.value)} className={`${inputClass} mt-1`} />
+                        </label>
+                        <label className="text-xs text-gray-600">
+                            Ends
+                            <input type="time" value={form.endTime} onChange={(e) => updateForm('endTime', e.target.value)} className={`${inputClass} mt-1`} />
+                        </label>
+                        <div className="grid grid-cols-2 gap-2">
+                            <label className="text-xs text-gray-600">
+                                Target units
+                                <input type="number" min={1} value={form.targetUnits} onChange={(e) => updateForm('targetUnits', e.target.value)} className={`${inputClass} mt-1`} />
+                            </label>
+                            <label className="text-xs text-gray-600">
+                                Donor places
+                                <input type="number" min={1} value={form.capacity} onChange={(e) => updateForm('capacity', e.target.value)} className={`${inputClass} mt-1`} />
+                            </label>
+                        </div>
+                    </div>
+                    <div className="flex justify-end mt-4">
+                        <button
+                            onClick={saveDrive}
+                            disabled={saving || !form.date}
+                            className="px-4 py-2 bg-red-600 hover:bg-red-700 text-white rounded-lg text-sm font-medium disabled:opacity-50"
+                        >
+                            {saving ? 'Saving...' : editingId ? 'Save Changes' : 'Create Drive'}
+                        </button>
+                    </div>
+                </div>
+            )}
+
+            {/* Drives table */}
+            <div className="overflow-x-auto">
+                <table className="w-full">
+                    <thead className="bg-gray-50">
+                        <tr>
+                            <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Drive</th>
+                            <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">When</th>
+                            <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Status</th>
+                            <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Registrations</th>
+                            <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Collected</th>
+                            <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Actions</th>
+                        </tr>
+                    </thead>
+                    <tbody className="divide-y divide-gray-200">
+                        {loading && drives.length === 0 ? (
+                            <tr>
+                                <td colSpan={6} className="px-6 py-8 text-center text-gray-500">Loading drives...</td>
+                            </tr>
+                        ) : drives.length === 0 ? (
+                            <tr>
+                                <td colSpan={6} className="px-6 py-8 text-center text-gray-500">
+                                    <CalendarDays className="h-8 w-8 mx-auto mb-2 text-gray-400" />
+                                    <p>No drives yet. Create one to invite donors.</p>
+                                </td>
+                            </tr>
+                        ) : (
+                            drives.map((drive) => {
+                                const progress = Math.min((drive.collectedUnits / drive.targetUnits) * 100, 100);
+                                const editable = drive.status === 'upcoming' || drive.status === 'ongoing';
+
+                                return (
+                                    <tr key={drive.id} className={`hover:bg-gray-50 ${selectedDrive?.id === drive.id ? 'bg-red-50' : ''}`}>
+                                        <td className="px-6 py-4">
+                                            <p className="font-medium text-gray-900">{drive.name}</p>
+                                            <p className="text-sm text-gray-500 capitalize">{drive.venueName}, {drive.city}</p>
+                                            {selectHospital && drive.hospitalName && (
+                                                <p className="text-xs text-gray-400">{drive.hospitalName}</p>
+                                            )}
+                                        </td>
+                                        <td className="px-6 py-4 text-sm text-gray-900 whitespace-nowrap">
+                                            <p>{format(new Date(drive.startTime), 'MMM d, yyyy')}</p>
+                                            <p className="text-gray-500">
+                                                {format(new Date(drive.startTime), 'h:mm a')} - {format(new Date(drive.endTime), 'h:mm a')}
+                                            </p>
+                                        </td>
+                                        <td className="px-6 py-4">
+                                            <span className={`px-2 py-1 rounded-full text-xs font-medium ${DRIVE_STATUS_STYLES[drive.status].className}`}>
+                                                {DRIVE_STATUS_STYLES[drive.status].label}
+                                            </span>
+                                        </td>
+                                        <td className="px-6 py-4 text-sm text-gray-900">
+                                            <p>{drive.registeredCount} / {drive.capacity}</p>
+                                            {drive.registrations && (
+                                                <p className="text-xs text-gray-500">
+                                                    {drive.registrations.checkedIn} checked in • {drive.registrations.donated} donated
+                                                </p>
+                                            )}
+                                        </td>
+                                        <td className="px-6 py-4 min-w-[160px]">
+                                            <p className="text-sm text-gray-900 mb-1">{drive.collectedUnits} / {drive.targetUnits} units</p>
+                                            <div className="h-2 bg-gray-100 rounded-full overflow-hidden">
+                                                <div className="h-full bg-red-500 rounded-full" style={{ width: `${progress}%` }} />
+                                            </div>
+                                        </td>
+                                        <td className="px-6 py-4">
+                                            <div className="flex items-center space-x-3 text-sm">
+                                                <button
+                                                    onClick={() => fetchRegistrations(drive)}
+                                                    className="flex items-center space-x-1 text-blue-600 hover:text-blue-700"
+                                                >
+                                                    <Users className="h-4 w-4" />
+                                                    <span>Donors</span>
+                                                </button>
+                                                {editable && (
+                                                    <>
+                                                        <button onClick={() => openForm(drive)} className="text-gray-600 hover:text-gray-900">Edit</button>
+                                                        <button onClick={() => cancelDrive(drive)} className="text-gray-600 hover:text-red-600">Cancel</button>
+                                                    </>
+                                                )}
+                                            </div>
+                                        </td>
+                                    </tr>
+                                );
+                            })
+                        )}
+                    </tbody>
+                </table>
+            </div>
+
+            {/* Registrations for the selected drive */}
+            {selectedDrive && (
+                <div className="p-6 border-t border-gray-200">
+                    <div className="flex items-center justify-between mb-3">
+                        <h3 className="text-sm font-semibold text-gray-900">
+                            Registrations for {selectedDrive.name} ({selectedDrive.collectedUnits} of {selectedDrive.targetUnits} units collected)
+                        </h3>
+                        <button onClick={() => setSelectedDrive(null)} className="p-1 text-gray-500 hover:text-gray-700" aria-label="Close registrations">
+                            <X className="h-4 w-4" />
+                        </button>
+                    </div>
+
+                    {registrationsLoading && registrations.length === 0 ? (
+                        <p className="text-sm text-gray-500 py-4 text-center">Loading registrations...</p>
+                    ) : registrations.length === 0 ? (
+                        <p className="text-sm text-gray-500 py-4 text-center">No donors have registered yet.</p>
+                    ) : (
+                        <div className="space-y-2 max-h-96 overflow-y-auto pr-1">
+                            {registrations.map((registration) => (
+                                <div key={registration.id} className="flex items-center justify-between p-3 border border-gray-200 rounded-lg">
+                                    <div>
+                                        <p className="text-sm font-medium text-gray-900">
+                                            {registration.donorName} <span className="text-gray-500">• {registration.bloodGroup}</span>
+                                        </p>
+                                        <p className="text-xs text-gray-500">
+                                            {registration.donorPhone || registration.donorEmail}
+                                            {registration.checkedInAt && ` • checked in at ${format(new Date(registration.checkedInAt), 'h:mm a')}`}
+                                        </p>
+                                    </div>
+                                    <div className="flex items-center space-x-3">
+                                        <span className={`px-2 py-1 rounded-full text-xs font-medium ${REGISTRATION_STATUS_STYLES[registration.status].className}`}>
+                                            {REGISTRATION_STATUS_STYLES[registration.status].label}
+                                            {registration.status === 'donated' && ` (${registration.unitsCollected})`}
+                                        </span>
+                                        {canRecord && ['registered', 'checked_in'].includes(registration.status) && (
+                                            <button
+                                                onClick={() => recordDonation(registration)}
+                                                disabled={busyRegistrationId === registration.id}
+                                                className="flex items-center space-x-1 px-3 py-1.5 text-sm bg-red-600 hover:bg-red-700 text-white rounded-lg disabled:opacity-50"
+                                            >
+                                                <Droplet className="h-4 w-4" />
+                                                <span>{busyRegistrationId === registration.id ? 'Saving...' : 'Record Donation'}</span>
+                                            </button>
+                                        )}
+                                    </div>
+                                </div>
+                            ))}
+                        </div>
+                    )}
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default DonationDrivesManager;
@@ -0,0 +1,375 @@
+/**
+ * RequestTimeline Component
+ *
+ * Lists the seeker's blood requests with a timeline of every status change:
+ * pending → approved → reserved → dispatched → fulfilled
+ * (or rejected / cancelled / expired). Requests can be cancelled until dispatch.
+ * Critical requests list the donors answering the emergency appeal, with their ETA.
+ * Prescriptions / requisition forms can be uploaded until a hospital verifies them.
+ * Status changes made by hospitals and admins are pushed live.
+ */
+
+import React, { useEffect, useState } from 'react';
+import { format } from 'date-fns';
+import {
+    CheckCircle2,
+    Circle,
+    Clock,
+    Package,
+    Phone,
+    RefreshCw,
+    Siren,
+    Truck,
+    XCircle
+} from 'lucide-react';
+import { useAuth } from '../../contexts/AuthContext';
+import { useRealtime } from '../../hooks/useRealtime';
+import { getComponentLabel } from '../../lib/bloodComponents';
+import { formatEta } from '../../lib/emergency';
+import { mapApiDocument } from '../../lib/requestDocuments';
+import { RequisitionDocuments } from '../common/RequisitionDocuments';
+import type { BloodRequest, BloodRequestStatus, RequestStatusChange } from '../../types';
+
+const API_BASE = '/api';
+
+// The happy path, in order
+const LIFECYCLE: BloodRequestStatus[] = ['pending', 'approved', 'reserved', 'dispatched', 'fulfilled'];
+
+const STATUS_CONFIG: Record<BloodRequestStatus, { label: string; color: string }> = {
+    pending: { label: 'Pending', color: 'bg-yellow-100 text-yellow-800' },
+    approved: { label: 'Accepted', color: 'bg-blue-100 text-blue-800' },
+    reserved: { label: 'Units Reserved', color: 'bg-indigo-100 text-indigo-800' },
+    dispatched: { label: 'Dispatched', color: 'bg-purple-100 text-purple-800' },
+    fulfilled: { label: 'Fulfilled', color: 'bg-green-100 text-green-800' },
+    rejected: { label: 'Rejected', color: 'bg-red-100 text-red-800' },
+    cancelled: { label: 'Cancelled', color: 'bg-gray-200 text-gray-700' },
+    expired: { label: 'Expired', color: 'bg-gray-200 text-gray-700' }
+};
+
+const ACTOR_LABELS: Record<RequestStatusChange['actor'], string> = {
+    admin: 'Admin',
+    hospital: 'Hospital',
+    requester: 'You',
+    system: 'RaktSetu'
+};
+
+// Map a request from the API to the shared BloodRequest type
+const mapApiRequest = (request: any): BloodRequest => ({
+    id: request._id,
+    requesterId: request.requesterId?._id || request.requesterId,
+    requesterName: request.requesterName,
+    requesterType: request.requesterType,
+    bloodGroup: request.bloodGroup,
+    component: request.component,
+    unitsRequested: request.unitsRequested,
+    urgency: request.urgency,
+    reason: request.reason,
+    status: request.status,
+    statusHistory: (request.statusHistory || []).map((change: any) => ({
+        from: change.from,
+        to: change.to,
+        changedByName: change.changedBy?.name,
+        actor: change.actor,
+        note: change.note,
+        changedAt: change.changedAt
+    })),
+    allowedTransitions: request.allowedTransitions || [],
+    servingHospitalName: request.servingHospital?.name,
+    location: request.location,
+    createdAt: request.createdAt,
+    fulfilledAt: request.fulfilledAt,
+    notes: request.notes,
+    broadcast: request.broadcast,
+    donorResponses: (request.donorResponses || []).map((response: any) => ({
+        donorId: response.donor,
+        donorName: response.donorName,
+        bloodGroup: response.bloodGroup,
+        phone: response.phone,
+        etaMinutes: response.etaMinutes,
+        note: response.note,
+        status: response.status,
+        respondedAt: response.respondedAt
+    })),
+    documents: (request.documents || []).map(mapApiDocument),
+    requisition: request.requisition,
+    requisitionRequired: request.requisitionRequired
+});
+
+// Request statuses donors can still answer an emergency appeal for
+const OPEN_STATUSES: BloodRequestStatus[] = ['pending', 'approved'];
+
+const StepIcon: React.FC<{ status: BloodRequestStatus; className?: string }> = ({ status, className }) => {
+    if (status === 'dispatched') return <Truck className={className} />;
+    if (status === 'reserved') return <Package className={className} />;
+    if (status === 'fulfilled' || status === 'approved') return <CheckCircle2 className={className} />;
+    if (status === 'pending') return <Clock className={className} />;
+    return <XCircle className={className} />;
+};
+
+interface RequestCardProps {
+    request: BloodRequest;
+    onCancel: (request: BloodRequest) => void;
+    isCancelling: boolean;
+    onBroadcast: (request: BloodRequest) => void;
+    isBroadcasting: boolean;
+    onDocumentsChange: () => void;
+}
+
+const RequestCard: React.FC<RequestCardProps> = ({ request, onCancel, isCancelling, onBroadcast, isBroadcasting, onDocumentsChange }) => {
+    const reachedIndex = LIFECYCLE.indexOf(request.status);
+    const endedEarly = reachedIndex === -1;
+    const isEmergency = request.urgency === 'critical';
+    const responders = (request.donorResponses || []).filter(response => response.status === 'coming');
+
+    return (
+        <div className="border border-gray-200 rounded-lg p-4">
+            <div className="flex items-start justify-between gap-3">
+                <div>
+                    <p className="font-semibold text-gray-900">
+                        {request.unitsRequested} × {request.bloodGroup} {getComponentLabel(request.component)}
+                    </p>
+                    <p className="text-xs text-gray-500">
+                        Raised {format(new Date(request.createdAt), 'MMM d, yyyy h:mm a')}
+                        {request.servingHospitalName && ` • Served by ${request.servingHospitalName}`}
+                    </p>
+                </div>
+                <span className={`px-2 py-1 rounded-full text-xs font-medium ${STATUS_CONFIG[request.status].color}`}>
+                    {STATUS_CONFIG[request.status].label}
+                </span>
+            </div>
+
+            {/* Progress along the happy path */}
+            {!endedEarly && (
+                <div className="flex items-center mt-4">
+                    {LIFECYCLE.map((step, index) => (
+                        <React.Fragment key={step}>
+                            <div className="flex flex-col items-center">
+                                {index <= reachedIndex ? (
+                                    <StepIcon status={step} className="h-5 w-5 text-red-600" />
+                                ) : (
+                                    <Circle className="h-5 w-5 text-gray-300" />
+                                )}
+                                <span className={`text-[10px] mt-1 ${index <= reachedIndex ? 'text-gray-800' : 'text-gray-400'}`}>
+                                    {STATUS_CONFIG[step].label}
+                                </span>
+                            </div>
+                            {index < LIFECYCLE.length - 1 && (
+                                <div className={`flex-1 h-0.5 mx-1 mb-4 ${index < reachedIndex ? 'bg-red-500' : 'bg-gray-200'}`} />
+                            )}
+                        </React.Fragment>
+                    ))}
+                </div>
+            )}
+
+            {/* Full history */}
+            <ol className="mt-4 space-y-2 border-l border-gray-200 pl-4">
+                {request.statusHistory.map((change, index) => (
+                    <li key={index} className="relative">
+                        <StepIcon status={change.to} className="absolute -left-[1.45rem] top-0.5 h-3.5 w-3.5 bg-white text-gray-500" />
+                        <p className="text-sm text-gray-800">
+                            {STATUS_CONFIG[change.to].label}
+                            <span className="text-gray-500">
+                                {' '}by {change.actor === 'requester' ? ACTOR_LABELS.requester : change.changedByName || ACTOR_LABELS[change.actor]}
+                            </span>
+                        </p>
+                        <p className="text-xs text-gray-400">{format(new Date(change.changedAt), 'MMM d, h:mm a')}</p>
+                        {change.note && <p className="text-xs text-gray-600 italic">{change.note}</p>}
+                    </li>
+                ))}
+            </ol>
+
+            {/* Prescription / requisition documents */}
+            {(request.requisitionRequired || (request.documents || []).length > 0) && (
+                <div className="mt-4">
+                    <RequisitionDocuments
+                        requestId={request.id}
+                        documents={request.documents || []}
+                        status={request.requisition?.status || 'pending'}
+                        note={request.requisition?.note}
+                        mode="requester"
+                        isOpen={OPEN_STATUSES.includes(request.status)}
+                        onChange={onDocumentsChange}
+                    />
+                </div>
+            )}
+
+            {/* Donors answering the emergency appeal */}
+            {isEmergency && (
+                <div className="mt-4 rounded-lg border border-red-200 bg-red-50 p-3">
+                    <div className="flex items-center justify-between gap-3">
+                        <p className="text-sm font-medium text-red-800 flex items-center">
+                            <Siren className="h-4 w-4 mr-1" />
+                            {request.broadcast?.donorsNotified
+                                ? `Appeal sent to ${request.broadcast.donorsNotified} nearby donor${request.broadcast.donorsNotified !== 1 ? 's' : ''}`
+                                : 'No nearby donors appealed to yet'}
+                        </p>
+                        {OPEN_STATUSES.includes(request.status) && (
+                            <button
+                                onClick={() => onBroadcast(request)}
+                                disabled={isBroadcasting}
+                                className="px-3 py-1 text-xs font-medium text-white bg-red-600 hover:bg-red-700 rounded-lg disabled:opacity-50"
+                            >
+                                {isBroadcasting ? 'Sending...' : 'Appeal Again'}
+                            </button>
+                        )}
+                    </div>
+
+                    {responders.length > 0 ? (
+                        <ul className="mt-2 space-y-2">
+                            {responders.map(response => (
+                                <li key={response.donorId} className="flex items-center justify-between bg-white rounded-md px-3 py-2 text-sm">
+                                    <div>
+                                        <p className="font-medium text-gray-900">
+                                            {response.donorName} <span className="text-gray-500">• {response.bloodGroup}</span>
+                                        </p>
+                                        <p className="text-xs text-gray-500">
+                                            Arriving in {formatEta(response.etaMinutes)} (by {format(new Date(new Date(response.respondedAt).getTime() + response.etaMinutes * 60000), 'h:mm a')})
+                                        </p>
+                                        {response.note && <p className="text-xs text-gray-600 italic">{response.note}</p>}
+                                    </div>
+                                    {response.phone && (
+                                        <a href={`tel:${response.phone}`} className="flex items-center text-xs text-red-700 hover:text-red-800">
+                                            <Phone className="h-3.5 w-3.5 mr-1" />{response.phone}
+                                        </a>
+                                    )}
+                                </li>
+                            ))}
+                        </ul>
+                    ) : (
+                        <p className="mt-1 text-xs text-red-700">Donors who can come will appear here with their arrival time.</p>
+                    )}
+                </div>
+            )}
+
+            {request.allowedTransitions.includes('cancelled') && (
+                <div className="mt-3 text-right">
+                    <button
+                        onClick={() => onCancel(request)}
+                        disabled={isCancelling}
+                        className="px-3 py-1.5 text-sm font-medium text-red-700 bg-red-50 hover:bg-red-100 rounded-lg disabled:opacity-50"
+                    >
+                        {isCancelling ? 'Cancelling...' : 'Cancel Request'}
+                    </button>
+                </div>
+            )}
+        </div>
+    );
+};
+
+export const RequestTimeline: React.FC = () => {
+    const { token } = useAuth();
+    const [requests, setRequests] = useState<BloodRequest[]>([]);
+    const [isLoading, setIsLoading] = useState(false);
+    const [error, setError] = useState('');
+    const [cancellingId, setCancellingId] = useState<string | null>(null);
+    const [broadcastingId, setBroadcastingId] = useState<string | null>(null);
+
+    const fetchRequests = async () => {
+        setIsLoading(true);
+        setError('');
+
+        try {
+            const response = await fetch(`${API_BASE}/requests`, {
+                headers: { 'Authorization': `Bearer ${token}` }
+            });
+            const data = await response.json();
+
+            if (data.success) {
+                setRequests(data.data.requests.map(mapApiRequest));
+            } else {
+                setError(data.message || 'Failed to load requests');
+            }
+        } catch (err) {
+            setError('Unable to connect to server');
+        } finally {
+            setIsLoading(false);
+        }
+    };
+
+    useEffect(() => {
+        if (token) fetchRequests();
+    }, [token]);
+
+    useRealtime({
+        request: () => fetchRequests()
+    });
+
+    const handleCancel = async (request: BloodRequest) => {
+        if (!window.confirm('Cancel this blood request?')) return;
+
+        setCancellingId(request.id);
+        try {
+            const response = await fetch(`${API_BASE}/requests/${request.id}`, {
+                method: 'PUT',
+                headers: {
+                    'Content-Type': 'application/json',
+                    'Authorization': `Bearer ${token}`
+                },
+                body: JSON.stringify({ status: 'cancelled', note: 'Cancelled by requester' })
+            });
+            const data = await response.json();
+
+            if (data.success) {
+                const updated = mapApiRequest(data.data.request);
+                setRequests(prev => prev.map(r => (r.id === updated.id ? updated : r)));
+            } else {
+                alert(data.message || 'Could not cancel request');
+            }
+        } catch (err) {
+            alert('Error cancelling request');
+        } finally {
+            setCancellingId(null);
+        }
+    };
+
+    const handleBroadcast = async (request: BloodRequest) => {
+        setBroadcastingId(request.id);
+        try {
+            const response = await fetch(`${API_BASE}/requests/${request.id}/broadcast`, {
+                method: 'POST',
+                headers: { 'Authorization': `Bearer ${token}` }
+            });
+            const data = await response.json();
+
+            alert(data.message || (data.success ? 'Appeal sent' : 'Could not send the appeal'));
+            if (data.success) fetchRequests();
+        } catch (err) {
+            alert('Error sending the appeal');
+        } finally {
+            setBroadcastingId(null);
+        }
+    };
+
+    return (
+        <div className="space-y-3">
+            <div className="flex items-center justify-between">
+                <p className="text-xs text-gray-500">{requests.length} request{requests.length !== 1 ? 's' : ''}</p>
+                <button onClick={fetchRequests} className="p-1 text-gray-500 hover:text-gray-800" title="Refresh">
+                    <RefreshCw className={`h-4 w-4 ${isLoading ? 'animate-spin' : ''}`} />
+                </button>
+            </div>
+
+            {error && <p className="text-sm text-red-600">{error}</p>}
+
+            {!isLoading && requests.length === 0 && !error && (
+                <p className="text-sm text-gray-500 text-center py-6">You have not raised any blood requests yet.</p>
+            )}
+
+            <div className="space-y-3 max-h-[32rem] overflow-y-auto">
+                {requests.map(request => (
+                    <RequestCard
+                        key={request.id}
+                        request={request}
+                        onCancel={handleCancel}
+                        isCancelling={cancellingId === request.id}
+                        onBroadcast={handleBroadcast}
+                        isBroadcasting={broadcastingId === request.id}
+                        onDocumentsChange={fetchRequests}
+                    />
+                ))}
+            </div>
+        </div>
+    );
+};
+
+export default RequestTimeline;
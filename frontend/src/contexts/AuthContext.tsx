@@ -1,13 +1,22 @@
-import React, { createContext, useContext, useState, useEffect } from 'react';
-import type { User } from '../types';
+import React, { createContext, useContext, useState, useEffect, useRef } from 'react';
+import type { GoogleSignInResult, GoogleSignupDetails, User } from '../types';
 
 const API_BASE = '/api';
 
+// Refresh the access token this long before it expires
+const REFRESH_MARGIN_MS = 60 * 1000;
+
+// Key the access token was kept under before cookie sessions
+const LEGACY_TOKEN_KEY = 'bloodbank_token';
+
 interface AuthContextType {
   user: User | null;
   login: (email: string, password: string, role: string) => Promise<boolean>;
-  logout: () => void;
+  logout: () => Promise<void>;
+  logoutAllDevices: () => Promise<void>;
   register: (userData: RegisterData) => Promise<{ success: boolean; message?: string }>;
+  signInWithGoogle: (credential: string, details?: GoogleSignupDetails) => Promise<GoogleSignInResult>;
+  linkGoogleAccount: (credential: string, password: string) => Promise<GoogleSignInResult>;
   updateUser: (userData: Partial<User>) => void;
   loading: boolean;
   token: string | null;
@@ -20,7 +29,6 @@ interface RegisterData {
   phone: string;
   location?: string;
   role?: string;
-  googleAuth?: boolean;
 }
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
@@ -37,45 +45,77 @@ const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children }) =>
   const [user, setUser] = useState<User | null>(null);
   const [token, setToken] = useState<string | null>(null);
   const [loading, setLoading] = useState(true);
+  // When the access token expires (ms); the refresh cookie renews it before then
+  const [tokenExpiresAt, setTokenExpiresAt] = useState<number | null>(null);
+  const refreshing = useRef<Promise<boolean> | null>(null);
 
-  // Check for stored token on mount and fetch user data
-  useEffect(() => {
-    const initAuth = async () => {
-      const storedToken = localStorage.getItem('bloodbank_token');
-      if (storedToken) {
-        setToken(storedToken);
+  // Keep the access token in memory only; the refresh token is an httpOnly cookie
+  const startSession = (data: { user: any; token: string; tokenExpiresAt: string }) => {
+    setToken(data.token);
+    setTokenExpiresAt(new Date(data.tokenExpiresAt).getTime());
+    setUser(mapApiUserToLocalUser(data.user));
+  };
+
+  const clearSession = () => {
+    setUser(null);
+    setToken(null);
+    setTokenExpiresAt(null);
+  };
+
+  // Trade the refresh cookie for a new access token (one request at a time)
+  const refreshSession = () => {
+    if (!refreshing.current) {
+      refreshing.current = (async () => {
         try {
-          const response = await fetch(`${API_BASE}/auth/me`, {
-            headers: {
-              'Authorization': `Bearer ${storedToken}`
-            }
+          const response = await fetch(`${API_BASE}/auth/refresh`, {
+            method: 'POST',
+            credentials: 'include'
           });
+          const data = await response.json();
 
-          if (response.ok) {
-            const data = await response.json();
-            if (data.success && data.data.user) {
-              setUser(mapApiUserToLocalUser(data.data.user));
-            } else {
-              // Token invalid, clear storage
-              localStorage.removeItem('bloodbank_token');
-              setToken(null);
-            }
-          } else {
-            // Token invalid, clear storage
-            localStorage.removeItem('bloodbank_token');
-            setToken(null);
+          if (response.ok && data.success) {
+            startSession(data.data);
+            return true;
           }
+          clearSession();
+          return false;
         } catch (error) {
-          console.error('Auth init error:', error);
-          localStorage.removeItem('bloodbank_token');
-          setToken(null);
+          // Offline: keep the current token and try again later
+          console.error('Session refresh error:', error);
+          return false;
+        } finally {
+          refreshing.current = null;
         }
+      })();
+    }
+    return refreshing.current;
+  };
+
+  // Resume the session from the refresh cookie on page load
+  useEffect(() => {
+    localStorage.removeItem(LEGACY_TOKEN_KEY);
+    refreshSession().finally(() => setLoading(false));
+  }, []);
+
+  // Silently refresh shortly before the access token expires
+  useEffect(() => {
+    if (!tokenExpiresAt) return;
+
+    const timer = window.setTimeout(refreshSession, Math.max(tokenExpiresAt - Date.now() - REFRESH_MARGIN_MS, 0));
+
+    // Timers are paused while a laptop sleeps, so also check when the tab comes back
+    const handleVisible = () => {
+      if (document.visibilityState === 'visible' && tokenExpiresAt - Date.now() < REFRESH_MARGIN_MS) {
+        refreshSession();
       }
-      setLoading(false);
     };
+    document.addEventListener('visibilitychange', handleVisible);
 
-    initAuth();
-  }, []);
+    return () => {
+      window.clearTimeout(timer);
+      document.removeEventListener('visibilitychange', handleVisible);
+    };
+  }, [tokenExpiresAt]);
 
   // Map API user to local User type
   const mapApiUserToLocalUser = (apiUser: any): User => {
@@ -86,6 +126,8 @@ const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children }) =>
       phone: apiUser.phone,
       role: apiUser.role,
       verified: apiUser.verified,
+      phoneVerified: apiUser.phoneVerified,
+      googleLinked: apiUser.googleLinked,
       profilePicture: apiUser.profilePicture,
       createdAt: apiUser.createdAt,
       profile: apiUser.profile
@@ -100,21 +142,14 @@ const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children }) =>
         headers: {
           'Content-Type': 'application/json'
         },
+        credentials: 'include',
         body: JSON.stringify({ email, password })
       });
 
       const data = await response.json();
 
       if (response.ok && data.success) {
-        const { user: apiUser, token: newToken } = data.data;
-
-        // Store token
-        localStorage.setItem('bloodbank_token', newToken);
-        setToken(newToken);
-
-        // Set user
-        setUser(mapApiUserToLocalUser(apiUser));
-
+        startSession(data.data);
         return true;
       } else {
         console.error('Login failed:', data.message);
@@ -131,17 +166,12 @@ const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children }) =>
   const register = async (userData: RegisterData): Promise<{ success: boolean; message?: string }> => {
     setLoading(true);
     try {
-      // Handle Google authentication separately (mock for now)
-      if (userData.googleAuth) {
-        // For Google auth, we still use the regular register endpoint
-        // In a real app, you'd have a separate Google OAuth flow
-      }
-
       const response = await fetch(`${API_BASE}/auth/register`, {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json'
         },
+        credentials: 'include',
         body: JSON.stringify({
           name: userData.name,
           email: userData.email,
@@ -155,6 +185,8 @@ const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children }) =>
       const data = await response.json();
 
       if (response.ok && data.success) {
+        // Registering signs the new user in
+        startSession(data.data);
         return { success: true };
       } else {
         return {
@@ -173,10 +205,66 @@ const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children }) =>
     }
   };
 
-  const logout = () => {
-    setUser(null);
-    setToken(null);
-    localStorage.removeItem('bloodbank_token');
+  // Send a Google ID token to the backend, which verifies it and signs the user in
+  const postGoogleCredential = async (path: string, body: object): Promise<GoogleSignInResult> => {
+    try {
+      const response = await fetch(`${API_BASE}/auth/${path}`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json'
+        },
+        credentials: 'include',
+        body: JSON.stringify(body)
+      });
+      const data = await response.json();
+
+      if (response.ok && data.success) {
+        startSession(data.data);
+        return { status: 'signed_in', user: mapApiUserToLocalUser(data.data.user) };
+      }
+      if (data.data?.signupRequired) {
+        return { status: 'signup_required', message: data.message, profile: data.data.profile };
+      }
+      if (data.data?.linkRequired) {
+        return { status: 'link_required', message: data.message, email: data.data.email };
+      }
+      return { status: 'error', message: data.message || 'Google sign-in failed. Please try again.' };
+    } catch (error) {
+      console.error('Google sign-in error:', error);
+      return { status: 'error', message: 'Network error. Please try again.' };
+    }
+  };
+
+  const signInWithGoogle = (credential: string, details?: GoogleSignupDetails) =>
+    postGoogleCredential('google', { credential, ...details });
+
+  const linkGoogleAccount = (credential: string, password: string) =>
+    postGoogleCredential('google/link', { credential, password });
+
+  // End the session on the server too, so the refresh cookie stops working
+  const logout = async () => {
+    try {
+      await fetch(`${API_BASE}/auth/logout`, {
+        method: 'POST',
+        headers: token ? { 'Authorization': `Bearer ${token}` } : {},
+        credentials: 'include'
+      });
+    } catch (error) {
+      console.error('Logout error:', error);
+    }
+    clearSession();
+  };
+
+  const logoutAllDevices = async () => {
+    const response = await fetch(`${API_BASE}/auth/logout-all`, {
+      method: 'POST',
+      headers: { 'Authorization': `Bearer ${token}` },
+      credentials: 'include'
+    });
+    const data = await response.json();
+    if (!data.success) throw new Error(data.message || 'Could not log out of all devices');
+
+    clearSession();
   };
 
   const updateUser = (userData: Partial<User>) => {
@@ -187,7 +275,7 @@ const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children }) =>
   };
 
   return (
-    <AuthContext.Provider value={{ user, login, logout, register, updateUser, loading, token }}>
+    <AuthContext.Provider value={{ user, login, logout, logoutAllDevices, register, signInWithGoogle, linkGoogleAccount, updateUser, loading, token }}>
       {children}
     </AuthContext.Provider>
   );
@@ -0,0 +1,124 @@
+import React, { createContext, useContext, useEffect, useState } from 'react';
+import { useAuth } from './AuthContext';
+import { useRealtime } from '../hooks/useRealtime';
+import type { AppNotification } from '../types';
+
+const API_BASE = '/api';
+
+interface NotificationContextType {
+  notifications: AppNotification[];
+  unreadCount: number;
+  loading: boolean;
+  refresh: () => Promise<void>;
+  markRead: (id: string) => Promise<void>;
+  markAllRead: () => Promise<void>;
+}
+
+const NotificationContext = createContext<NotificationContextType | undefined>(undefined);
+
+export const useNotifications = () => {
+  const context = useContext(NotificationContext);
+  if (context === undefined) {
+    throw new Error('useNotifications must be used within a NotificationProvider');
+  }
+  return context;
+};
+
+// Map a notification from the API (snake_case) to the shared type
+const mapApiNotification = (notification: any): AppNotification => ({
+  id: notification.id,
+  type: notification.type,
+  title: notification.title || undefined,
+  message: notification.message,
+  link: notification.link || undefined,
+  hospitalName: notification.hospital_name || undefined,
+  isRead: notification.is_read,
+  createdAt: notification.created_at
+});
+
+// Notifications are sent to donors; other roles have no inbox
+const NotificationProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const { user, token } = useAuth();
+  const [notifications, setNotifications] = useState<AppNotification[]>([]);
+  const [unreadCount, setUnreadCount] = useState(0);
+  const [loading, setLoading] = useState(false);
+
+  const hasInbox = !!token && user?.role === 'donor';
+
+  const refresh = async () => {
+    if (!hasInbox) return;
+
+    setLoading(true);
+    try {
+      const response = await fetch(`${API_BASE}/notifications`, {
+        headers: { 'Authorization': `Bearer ${token}` }
+      });
+      const data = await response.json();
+
+      if (data.success) {
+        setNotifications(data.data.notifications.map(mapApiNotification));
+        setUnreadCount(data.data.unread_count);
+      }
+    } catch (error) {
+      console.error('Error fetching notifications:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const markRead = async (id: string) => {
+    try {
+      const response = await fetch(`${API_BASE}/notifications/${id}/read`, {
+        method: 'PUT',
+        headers: { 'Authorization': `Bearer ${token}` }
+      });
+      const data = await response.json();
+
+      if (data.success) {
+        setNotifications(prev => prev.map(n => (n.id === id ? { ...n, isRead: true } : n)));
+        setUnreadCount(data.data.unread_count);
+      }
+    } catch (error) {
+      console.error('Error marking notification read:', error);
+    }
+  };
+
+  const markAllRead = async () => {
+    try {
+      const response = await fetch(`${API_BASE}/notifications/read-all`, {
+        method: 'PUT',
+        headers: { 'Authorization': `Bearer ${token}` }
+      });
+      const data = await response.json();
+
+      if (data.success) {
+        setNotifications(prev => prev.map(n => ({ ...n, isRead: true })));
+        setUnreadCount(0);
+      }
+    } catch (error) {
+      console.error('Error marking notifications read:', error);
+    }
+  };
+
+  useEffect(() => {
+    if (hasInbox) {
+      refresh();
+    } else {
+      setNotifications([]);
+      setUnreadCount(0);
+    }
+  }, [hasInbox, token]);
+
+  // New notifications arrive over the live event stream
+  useRealtime({
+    notification: () => refresh()
+  }, hasInbox);
+
+  return (
+    <NotificationContext.Provider value={{ notifications, unreadCount, loading, refresh, markRead, markAllRead }}>
+      {children}
+    </NotificationContext.Provider>
+  );
+};
+
+export { NotificationProvider };
@@ -0,0 +1,85 @@
+import { useEffect, useRef, useState } from 'react';
+import { useAuth } from '../contexts/AuthContext';
+import type { RealtimeEventMap } from '../types';
+
+const API_BASE = '/api';
+
+const REALTIME_EVENTS: (keyof RealtimeEventMap)[] = ['inventory', 'request', 'appointment', 'notification', 'user'];
+
+// Delay before reopening a dropped stream (ms)
+const RECONNECT_MS = 5000;
+
+export type RealtimeHandlers = {
+  [K in keyof RealtimeEventMap]?: (payload: RealtimeEventMap[K]) => void;
+};
+
+/**
+ * Subscribe to live server events (GET /api/events, Server-Sent Events).
+ * Handlers always see the latest props and state; the stream is only reopened
+ * when the access token changes (login, or a silent refresh), so it never
+ * reconnects with an expired token. Each stream is opened with a single-use
+ * ticket (POST /api/events/ticket) instead of the token, so dropped streams
+ * are reopened here with a new ticket rather than by the browser.
+ * Pass enabled = false to stay disconnected.
+ */
+export const useRealtime = (handlers: RealtimeHandlers, enabled = true) => {
+  const { token } = useAuth();
+  const handlersRef = useRef(handlers);
+  const [connected, setConnected] = useState(false);
+
+  handlersRef.current = handlers;
+
+  useEffect(() => {
+    if (!token || !enabled) return;
+
+    let source: EventSource | null = null;
+    let reconnectTimer: number | undefined;
+    let stopped = false;
+
+    const reconnect = () => {
+      setConnected(false);
+      if (!stopped) reconnectTimer = window.setTimeout(connect, RECONNECT_MS);
+    };
+
+    const connect = async () => {
+      try {
+        const response = await fetch(`${API_BASE}/events/ticket`, {
+          method: 'POST',
+          headers: { 'Authorization': `Bearer ${token}` }
+        });
+        // The session has ended: wait for a new token instead of retrying
+        if (response.status === 401) return;
+        const data = await response.json();
+        if (stopped) return;
+        if (!data.success) return reconnect();
+
+        source = new EventSource(`${API_BASE}/events?ticket=${encodeURIComponent(data.data.ticket)}`);
+        source.addEventListener('connected', () => setConnected(true));
+        source.onerror = () => {
+          source?.close();
+          reconnect();
+        };
+
+        REALTIME_EVENTS.forEach((event) => {
+          source?.addEventListener(event, (message) => {
+            const handler = handlersRef.current[event] as ((payload: unknown) => void) | undefined;
+            handler?.(JSON.parse((message as MessageEvent).data));
+          });
+        });
+      } catch (error) {
+        reconnect();
+      }
+    };
+
+    connect();
+
+    return () => {
+      stopped = true;
+      window.clearTimeout(reconnectTimer);
+      source?.close();
+      setConnected(false);
+    };
+  }, [token, enabled]);
+
+  return { connected };
+};
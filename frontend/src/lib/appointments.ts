@@ -0,0 +1,40 @@
+import type { Appointment, AppointmentStatus, DonationSlot } from '../types';
+
+export const APPOINTMENT_STATUS_STYLES: Record<AppointmentStatus, { label: string; className: string }> = {
+  scheduled: { label: 'Scheduled', className: 'bg-blue-100 text-blue-800' },
+  checked_in: { label: 'Checked In', className: 'bg-green-100 text-green-800' },
+  completed: { label: 'Completed', className: 'bg-gray-100 text-gray-800' },
+  cancelled: { label: 'Cancelled', className: 'bg-red-100 text-red-700' },
+};
+
+// Map a slot from the API (snake_case) to the shared DonationSlot type
+export const mapApiSlot = (slot: any): DonationSlot => ({
+  id: slot.id,
+  hospitalId: slot.hospital_id,
+  hospitalName: slot.hospital?.name,
+  hospitalAddress: slot.hospital?.address,
+  hospitalCity: slot.hospital?.city,
+  startTime: slot.start_time,
+  endTime: slot.end_time,
+  capacity: slot.capacity,
+  bookedCount: slot.booked_count,
+  spacesLeft: slot.spaces_left,
+});
+
+// Map an appointment from the API (snake_case) to the shared Appointment type
+export const mapApiAppointment = (appointment: any): Appointment => ({
+  id: appointment.id,
+  status: appointment.status,
+  bloodGroup: appointment.blood_group,
+  donationDate: appointment.donation_date,
+  endTime: appointment.end_time || undefined,
+  slotId: appointment.slot_id,
+  hospitalId: appointment.hospital_id,
+  hospitalName: appointment.hospital_name,
+  hospitalAddress: appointment.hospital_address || undefined,
+  donorName: appointment.donor_name,
+  donorPhone: appointment.donor_phone || undefined,
+  donorEmail: appointment.donor_email || undefined,
+  notes: appointment.notes || undefined,
+  checkedInAt: appointment.checked_in_at || undefined,
+});
@@ -0,0 +1,17 @@
+import type { BloodComponent } from '../types';
+
+// Mirrors backend/config/bloodComponents.js
+export const BLOOD_COMPONENTS: Record<BloodComponent, { label: string; shortLabel: string; shelfLifeDays: number }> = {
+  whole_blood: { label: 'Whole Blood', shortLabel: 'WB', shelfLifeDays: 35 },
+  prbc: { label: 'Packed Red Blood Cells', shortLabel: 'PRBC', shelfLifeDays: 42 },
+  platelets: { label: 'Platelets', shortLabel: 'PLT', shelfLifeDays: 5 },
+  plasma: { label: 'Fresh Frozen Plasma', shortLabel: 'FFP', shelfLifeDays: 365 },
+  cryo: { label: 'Cryoprecipitate', shortLabel: 'CRYO', shelfLifeDays: 365 },
+};
+
+export const COMPONENT_TYPES = Object.keys(BLOOD_COMPONENTS) as BloodComponent[];
+
+export const DEFAULT_COMPONENT: BloodComponent = 'whole_blood';
+
+export const getComponentLabel = (component?: BloodComponent) =>
+  BLOOD_COMPONENTS[component || DEFAULT_COMPONENT].label;
@@ -0,0 +1,71 @@
+import type { DonationDrive, DriveRegistration, DriveRegistrationStatus, DriveStatus } from '../types';
+
+export const DRIVE_STATUS_STYLES: Record<DriveStatus, { label: string; className: string }> = {
+  upcoming: { label: 'Upcoming', className: 'bg-blue-100 text-blue-800' },
+  ongoing: { label: 'Ongoing', className: 'bg-green-100 text-green-800' },
+  ended: { label: 'Ended', className: 'bg-gray-100 text-gray-800' },
+  cancelled: { label: 'Cancelled', className: 'bg-red-100 text-red-700' },
+};
+
+export const REGISTRATION_STATUS_STYLES: Record<DriveRegistrationStatus, { label: string; className: string }> = {
+  registered: { label: 'Registered', className: 'bg-blue-100 text-blue-800' },
+  checked_in: { label: 'Checked In', className: 'bg-green-100 text-green-800' },
+  donated: { label: 'Donated', className: 'bg-red-100 text-red-700' },
+  cancelled: { label: 'Cancelled', className: 'bg-gray-100 text-gray-700' },
+};
+
+// Donors can check in from this long before a drive starts (matches the backend)
+export const CHECK_IN_OPENS_MINUTES = 60;
+
+// Check if donors can check in at a drive now
+export const isDriveCheckInOpen = (drive: DonationDrive, now = new Date()) => {
+  const opens = new Date(drive.startTime).getTime() - CHECK_IN_OPENS_MINUTES * 60 * 1000;
+  return drive.status !== 'cancelled' && now.getTime() >= opens && now < new Date(drive.endTime);
+};
+
+// Map a drive from the API (snake_case) to the shared DonationDrive type
+export const mapApiDrive = (drive: any): DonationDrive => ({
+  id: drive.id,
+  name: drive.name,
+  description: drive.description || undefined,
+  hospitalId: drive.hospital_id,
+  hospitalName: drive.hospital?.name,
+  venueName: drive.venue.name,
+  address: drive.venue.address,
+  city: drive.venue.city,
+  latitude: drive.latitude,
+  longitude: drive.longitude,
+  startTime: drive.start_time,
+  endTime: drive.end_time,
+  targetUnits: drive.target_units,
+  collectedUnits: drive.collected_units,
+  capacity: drive.capacity,
+  registeredCount: drive.registered_count,
+  placesLeft: drive.places_left,
+  status: drive.status,
+  cancelledReason: drive.cancelled_reason || undefined,
+  distanceKm: drive.distance_km,
+  myRegistration: drive.my_registration,
+  registrations: drive.registrations && {
+    registered: drive.registrations.registered,
+    checkedIn: drive.registrations.checked_in,
+    donated: drive.registrations.donated,
+    cancelled: drive.registrations.cancelled,
+  },
+});
+
+// Map a drive registration from the API (snake_case) to the shared DriveRegistration type
+export const mapApiDriveRegistration = (registration: any): DriveRegistration => ({
+  id: registration.id,
+  driveId: registration.drive_id,
+  drive: registration.drive ? mapApiDrive(registration.drive) : undefined,
+  donorId: registration.donor_id,
+  donorName: registration.donor_name,
+  donorEmail: registration.donor_email || undefined,
+  donorPhone: registration.donor_phone || undefined,
+  bloodGroup: registration.blood_group,
+  status: registration.status,
+  registeredAt: registration.registered_at,
+  checkedInAt: registration.checked_in_at || undefined,
+  unitsCollected: registration.units_collected,
+});
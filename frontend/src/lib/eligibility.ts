@@ -0,0 +1,17 @@
+import type { Deferral, Eligibility } from '../types';
+
+// Map an eligibility result from the API (snake_case) to the shared Eligibility type
+export const mapApiEligibility = (eligibility: any): Eligibility => ({
+  eligible: eligibility.eligible,
+  eligibleFrom: eligibility.eligible_from,
+  requiresReview: eligibility.requires_review,
+  reasons: eligibility.reasons,
+});
+
+// Map a saved deferral from the API (snake_case) to the shared Deferral type
+export const mapApiDeferral = (deferral: any): Deferral => ({
+  code: deferral.code,
+  message: deferral.message,
+  startsAt: deferral.starts_at,
+  until: deferral.until,
+});
@@ -0,0 +1,31 @@
+import type { EmergencyAppeal } from '../types';
+
+// Arrival times offered to donors answering an appeal (minutes)
+export const ETA_OPTIONS = [15, 30, 45, 60, 90, 120];
+
+// Describe an ETA in minutes for display
+export const formatEta = (minutes: number) => {
+  if (minutes < 60) return `${minutes} min`;
+  const hours = Math.floor(minutes / 60);
+  const rest = minutes % 60;
+  return rest > 0 ? `${hours} h ${rest} min` : `${hours} h`;
+};
+
+// Map an emergency appeal from the API (snake_case) to the shared EmergencyAppeal type
+export const mapApiAppeal = (appeal: any): EmergencyAppeal => ({
+  id: appeal.id,
+  requesterName: appeal.requester_name,
+  bloodGroup: appeal.blood_group,
+  component: appeal.component,
+  unitsRequested: appeal.units_requested,
+  reason: appeal.reason,
+  location: appeal.location || undefined,
+  contactPhone: appeal.contact_phone || undefined,
+  createdAt: appeal.created_at,
+  responders: appeal.responders,
+  myResponse: appeal.my_response && {
+    status: appeal.my_response.status,
+    etaMinutes: appeal.my_response.eta_minutes,
+    expectedAt: appeal.my_response.expected_at,
+  },
+});
@@ -0,0 +1,29 @@
+import type { Questionnaire, QuestionnaireStatus } from '../types';
+
+export const QUESTIONNAIRE_STATUS_STYLES: Record<QuestionnaireStatus, { label: string; className: string }> = {
+  draft: { label: 'Draft', className: 'bg-yellow-100 text-yellow-800' },
+  active: { label: 'Active', className: 'bg-green-100 text-green-800' },
+  archived: { label: 'Archived', className: 'bg-gray-100 text-gray-700' },
+};
+
+// Map a questionnaire from the API (snake_case) to the shared Questionnaire type
+export const mapApiQuestionnaire = (questionnaire: any): Questionnaire => ({
+  id: questionnaire.id,
+  version: questionnaire.version,
+  status: questionnaire.status,
+  passPercentage: questionnaire.pass_percentage,
+  notes: questionnaire.notes || '',
+  questions: questionnaire.questions.map((question: any) => ({
+    ...question,
+    category: question.category || '',
+  })),
+  createdAt: questionnaire.created_at,
+  activatedAt: questionnaire.activated_at || undefined,
+});
+
+// Build the API body for saving a questionnaire draft
+export const toApiQuestionnaire = (questionnaire: Questionnaire) => ({
+  questions: questionnaire.questions,
+  pass_percentage: questionnaire.passPercentage,
+  notes: questionnaire.notes,
+});
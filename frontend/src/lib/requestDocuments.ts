@@ -0,0 +1,44 @@
+import type { RequestDocument, RequestDocumentKind, RequisitionStatus } from '../types';
+
+// File types the API accepts for request documents
+export const DOCUMENT_ACCEPT = '.jpg,.jpeg,.png,.pdf';
+
+export const MAX_DOCUMENT_MB = 10;
+
+export const DOCUMENT_KIND_LABELS: Record<RequestDocumentKind, string> = {
+  prescription: 'Prescription',
+  requisition: 'Requisition form',
+  other: 'Other',
+};
+
+export const REQUISITION_STATUS: Record<RequisitionStatus, { label: string; color: string }> = {
+  pending: { label: 'Awaiting verification', color: 'bg-yellow-100 text-yellow-800' },
+  verified: { label: 'Verified', color: 'bg-green-100 text-green-800' },
+  rejected: { label: 'Needs new documents', color: 'bg-red-100 text-red-800' },
+};
+
+// "850 KB", "2.4 MB"
+export const formatFileSize = (bytes: number) =>
+  bytes < 1024 * 1024 ? `${Math.max(Math.round(bytes / 1024), 1)} KB` : `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+
+// Map a request document from the API (snake_case) to the shared RequestDocument type
+export const mapApiDocument = (document: any): RequestDocument => ({
+  id: document.id,
+  kind: document.kind,
+  originalName: document.original_name,
+  mimeType: document.mime_type,
+  size: document.size,
+  uploadedAt: document.uploaded_at,
+  url: document.url,
+});
+
+// Documents are private: ask for a short-lived signed link and open that
+export const openDocument = async (document: RequestDocument, token: string | null) => {
+  const response = await fetch(document.url, {
+    headers: { 'Authorization': `Bearer ${token}` },
+  });
+  const data = await response.json();
+  if (!data.success) throw new Error(data.message || 'Could not open the document');
+
+  window.open(data.data.url, '_blank', 'noopener');
+};
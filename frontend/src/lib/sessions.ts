@@ -0,0 +1,12 @@
+import type { AuthSession } from '../types';
+
+// Map a signed-in session from the API (snake_case) to the shared AuthSession type
+export const mapApiSession = (session: any): AuthSession => ({
+  id: session.id,
+  device: session.device,
+  ip: session.ip || undefined,
+  createdAt: session.created_at,
+  lastUsedAt: session.last_used_at,
+  expiresAt: session.expires_at,
+  current: session.current,
+});
@@ -26,7 +26,9 @@ import {
   IconUsers,
   IconHeart,
   IconBuilding,
-  IconChartBar
+  IconChartBar,
+  IconClipboardList,
+  IconCalendarEvent
 } from '@tabler/icons-react';
 import { motion } from 'framer-motion';
 import { XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, PieChart, Pie, Cell, LineChart, Line } from 'recharts';
@@ -48,6 +50,16 @@ export const AdminDashboard: React.FC = () => {
       href: "/admin/users",
       icon: <IconUsers className="h-5 w-5 shrink-0 text-neutral-700 dark:text-neutral-200" />,
     },
+    {
+      label: "Questionnaire",
+      href: "/admin/questionnaire",
+      icon: <IconClipboardList className="h-5 w-5 shrink-0 text-neutral-700 dark:text-neutral-200" />,
+    },
+    {
+      label: "Drives",
+      href: "/admin/drives",
+      icon: <IconCalendarEvent className="h-5 w-5 shrink-0 text-neutral-700 dark:text-neutral-200" />,
+    },
     {
       label: "Inventory",
       href: "/admin/inventory",
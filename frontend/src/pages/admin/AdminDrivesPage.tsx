@@ -0,0 +1,137 @@
+import React, { useState } from 'react';
+import { useAuth } from '../../contexts/AuthContext';
+import { Sidebar, SidebarBody, SidebarLink } from '../../components/ui/sidebar';
+import { DonationDrivesManager } from '../../components/hospital/DonationDrivesManager';
+import { motion } from 'framer-motion';
+import { Heart } from 'lucide-react';
+import {
+    IconBrandTabler,
+    IconSettings,
+    IconUsers,
+    IconHeart,
+    IconBuilding,
+    IconChartBar,
+    IconClipboardList,
+    IconCalendarEvent
+} from '@tabler/icons-react';
+import { cn } from '@/lib/utils';
+
+export const AdminDrivesPage: React.FC = () => {
+    const { user } = useAuth();
+    const [sidebarOpen, setSidebarOpen] = useState(false);
+
+    // Sidebar navigation links
+    const sidebarLinks = [
+        {
+            label: "Dashboard",
+            href: "/admin/dashboard",
+            icon: <IconBrandTabler className="h-5 w-5 shrink-0 text-neutral-700 dark:text-neutral-200" />,
+        },
+        {
+            label: "Users",
+            href: "/admin/users",
+            icon: <IconUsers className="h-5 w-5 shrink-0 text-neutral-700 dark:text-neutral-200" />,
+        },
+        {
+            label: "Questionnaire",
+            href: "/admin/questionnaire",
+            icon: <IconClipboardList className="h-5 w-5 shrink-0 text-neutral-700 dark:text-neutral-200" />,
+        },
+        {
+            label: "Drives",
+            href: "/admin/drives",
+            icon: <IconCalendarEvent className="h-5 w-5 shrink-0 text-neutral-700 dark:text-neutral-200" />,
+        },
+        {
+            label: "Inventory",
+            href: "/admin/inventory",
+            icon: <IconHeart className="h-5 w-5 shrink-0 text-neutral-700 dark:text-neutral-200" />,
+        },
+        {
+            label: "Hospitals",
+            href: "/admin/hospitals",
+            icon: <IconBuilding className="h-5 w-5 shrink-0 text-neutral-700 dark:text-neutral-200" />,
+        },
+        {
+            label: "Reports",
+            href: "/admin/reports",
+            icon: <IconChartBar className="h-5 w-5 shrink-0 text-neutral-700 dark:text-neutral-200" />,
+        },
+        {
+            label: "Settings",
+            href: "/admin/settings",
+            icon: <IconSettings className="h-5 w-5 shrink-0 text-neutral-700 dark:text-neutral-200" />,
+        },
+    ];
+
+    return (
+        <div className={cn(
+            "flex w-full max-w-full flex-1 flex-col overflow-hidden bg-gray-50 md:flex-row",
+            "min-h-screen"
+        )}>
+            <Sidebar open={sidebarOpen} setOpen={setSidebarOpen}>
+                <SidebarBody className="justify-between gap-10">
+                    <div className="flex flex-1 flex-col overflow-x-hidden overflow-y-auto">
+                        <Logo />
+                        <div className="mt-8 flex flex-col gap-2">
+                            {sidebarLinks.map((link, idx) => (
+                                <SidebarLink key={idx} link={link} />
+                            ))}
+                        </div>
+                    </div>
+                    <div>
+                        <SidebarLink
+                            link={{
+                                label: user?.name || "Admin User",
+                                href: "#",
+                                icon: (
+                                    <img
+                                        src="https://images.unsplash.com/photo-1472099645785-5658abf4ff4e?ixlib=rb-4.0.3&auto=format&fit=crop&w=50&q=80"
+                                        className="h-7 w-7 shrink-0 rounded-full"
+                                        width={50}
+                                        height={50}
+                                        alt="Avatar"
+                                    />
+                                ),
+                            }}
+                        />
+                    </div>
+                </SidebarBody>
+            </Sidebar>
+
+            {/* Main Content */}
+            <div className="flex flex-1">
+                <div className="flex h-full w-full flex-1 flex-col gap-2 rounded-tl-2xl border border-neutral-200 bg-white p-2 md:p-6 dark:border-neutral-700 dark:bg-neutral-900 overflow-y-auto">
+                    {/* Header */}
+                    <div className="bg-white shadow-sm border-b rounded-lg p-6 mb-6">
+                        <h1 className="text-2xl font-bold text-gray-900">Donation Drives</h1>
+                        <p className="text-gray-600">Organise drives on behalf of any hospital and follow RSVPs and collections.</p>
+                    </div>
+
+                    <DonationDrivesManager selectHospital />
+                </div>
+            </div>
+        </div>
+    );
+};
+
+// Logo component
+const Logo = () => {
+    return (
+        <a
+            href="#"
+            className="relative z-20 flex items-center space-x-2 py-1 text-sm font-normal text-black"
+        >
+            <Heart className="h-5 w-6 shrink-0 text-red-600" />
+            <motion.span
+                initial={{ opacity: 0 }}
+                animate={{ opacity: 1 }}
+                className="font-medium whitespace-pre text-black dark:text-white"
+            >
+                RaktSetu
+            </motion.span>
+        </a>
+    );
+};
+
+export default AdminDrivesPage;
@@ -0,0 +1,567 @@
+import React, { useState, useEffect } from 'react';
+import { useAuth } from '../../contexts/AuthContext';
+import { Sidebar, SidebarBody, SidebarLink } from '../../components/ui/sidebar';
+import { motion } from 'framer-motion';
+import {
+    Heart,
+    Plus,
+    Trash2,
+    Copy,
+    Save,
+    CheckCircle,
+    AlertCircle,
+    RefreshCw
+} from 'lucide-react';
+import {
+    IconBrandTabler,
+    IconSettings,
+    IconUsers,
+    IconHeart,
+    IconBuilding,
+    IconChartBar,
+    IconClipboardList,
+    IconCalendarEvent
+} from '@tabler/icons-react';
+import { format } from 'date-fns';
+import { cn } from '@/lib/utils';
+import { QUESTIONNAIRE_STATUS_STYLES, mapApiQuestionnaire, toApiQuestionnaire } from '../../lib/questionnaire';
+import type { Questionnaire, QuestionOption, QuizQuestion } from '../../types';
+
+const emptyOption = (): QuestionOption => ({ value: '', label: '', weight: 0, deferral: null });
+
+export const AdminQuestionnairePage: React.FC = () => {
+    const { user, token } = useAuth();
+    const [versions, setVersions] = useState<Questionnaire[]>([]);
+    const [draft, setDraft] = useState<Questionnaire | null>(null);
+    const [loading, setLoading] = useState(true);
+    const [saving, setSaving] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const [notice, setNotice] = useState<string | null>(null);
+    const [sidebarOpen, setSidebarOpen] = useState(false);
+
+    const API_BASE = '/api';
+
+    // Sidebar navigation links
+    const sidebarLinks = [
+        {
+            label: "Dashboard",
+            href: "/admin/dashboard",
+            icon: <IconBrandTabler className="h-5 w-5 shrink-0 text-neutral-700 dark:text-neutral-200" />,
+        },
+        {
+            label: "Users",
+            href: "/admin/users",
+            icon: <IconUsers className="h-5 w-5 shrink-0 text-neutral-700 dark:text-neutral-200" />,
+        },
+        {
+            label: "Questionnaire",
+            href: "/admin/questionnaire",
+            icon: <IconClipboardList className="h-5 w-5 shrink-0 text-neutral-700 dark:text-neutral-200" />,
+        },
+        {
+            label: "Drives",
+            href: "/admin/drives",
+            icon: <IconCalendarEvent className="h-5 w-5 shrink-0 text-neutral-700 dark:text-neutral-200" />,
+        },
+        {
+            label: "Inventory",
+            href: "/admin/inventory",
+            icon: <IconHeart className="h-5 w-5 shrink-0 text-neutral-700 dark:text-neutral-200" />,
+        },
+        {
+            label: "Hospitals",
+            href: "/admin/hospitals",
+            icon: <IconBuilding className="h-5 w-5 shrink-0 text-neutral-700 dark:text-neutral-200" />,
+        },
+        {
+            label: "Reports",
+            href: "/admin/reports",
+            icon: <IconChartBar className="h-5 w-5 shrink-0 text-neutral-700 dark:text-neutral-200" />,
+        },
+        {
+            label: "Settings",
+            href: "/admin/settings",
+            icon: <IconSettings className="h-5 w-5 shrink-0 text-neutral-700 dark:text-neutral-200" />,
+        },
+    ];
+
+    const isEditable = draft?.status === 'draft';
+
+    // Send a request to the questionnaire API and return its data
+    const request = async (path: string, options: RequestInit = {}) => {
+        const response = await fetch(`${API_BASE}/admin/questionnaires${path}`, {
+            ...options,
+            headers: {
+                'Authorization': `Bearer ${token}`,
+                'Content-Type': 'application/json'
+            }
+        });
+        const data = await response.json();
+        if (!data.success) {
+            throw new Error(data.message || 'Request failed');
+        }
+        return data;
+    };
+
+    // Fetch all versions and select one (default: a draft, else the active version)
+    const fetchVersions = async (selectId?: string) => {
+        setLoading(true);
+        setError(null);
+
+        try {
+            const data = await request('');
+            const list: Questionnaire[] = data.data.questionnaires.map(mapApiQuestionnaire);
+            setVersions(list);
+
+            const selected = list.find(q => q.id === selectId) ||
+                list.find(q => q.status === 'draft') ||
+                list.find(q => q.status === 'active') ||
+                list[0];
+            setDraft(selected ? structuredClone(selected) : null);
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Failed to load questionnaires');
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    useEffect(() => {
+        if (token) {
+            fetchVersions();
+        }
+    }, [token]);
+
+    // Run an action, then reload the versions
+    const runAction = async (action: () => Promise<any>, selectId?: string) => {
+        setSaving(true);
+        setError(null);
+        setNotice(null);
+
+        try {
+            const data = await action();
+            setNotice(data.message);
+            await fetchVersions(selectId ?? data.data?.questionnaire?.id);
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Something went wrong');
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    const createDraftFrom = (source: Questionnaire) =>
+        runAction(() => request('', { method: 'POST', body: JSON.stringify({ copy_from: source.id }) }));
+
+    const saveDraft = () => draft &&
+        runAction(() => request(`/${draft.id}`, { method: 'PUT', body: JSON.stringify(toApiQuestionnaire(draft)) }));
+
+    const activateDraft = () => {
+        if (!draft) return;
+        if (!window.confirm(`Make version ${draft.version} the quiz donors answer? Unsaved changes are saved first.`)) return;
+
+        runAction(async () => {
+            await request(`/${draft.id}`, { method: 'PUT', body: JSON.stringify(toApiQuestionnaire(draft)) });
+            return request(`/${draft.id}/activate`, { method: 'POST' });
+        });
+    };
+
+    const deleteDraft = () => {
+        if (!draft || !window.confirm(`Delete draft version ${draft.version}?`)) return;
+        runAction(() => request(`/${draft.id}`, { method: 'DELETE' }), '');
+    };
+
+    // Editing helpers
+    const updateQuestion = (index: number, patch: Partial<QuizQuestion>) => {
+        if (!draft) return;
+        const questions = draft.questions.map((q, i) => (i === index ? { ...q, ...patch } : q));
+        setDraft({ ...draft, questions });
+    };
+
+    const updateOption = (questionIndex: number, optionIndex: number, patch: Partial<QuestionOption>) => {
+        const question = draft?.questions[questionIndex];
+        if (!question) return;
+        const options = question.options.map((o, i) => (i === optionIndex ? { ...o, ...patch } : o));
+        updateQuestion(questionIndex, { options });
+    };
+
+    const addQuestion = () => {
+        if (!draft) return;
+        const nextId = Math.max(0, ...draft.questions.map(q => q.id)) + 1;
+        setDraft({
+            ...draft,
+            questions: [
+                ...draft.questions,
+                { id: nextId, category: '', question: '', options: [emptyOption(), emptyOption()] }
+            ]
+        });
+    };
+
+    const removeQuestion = (index: number) => {
+        if (!draft) return;
+        setDraft({ ...draft, questions: draft.questions.filter((_, i) => i !== index) });
+    };
+
+    const inputClass = "w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-red-500 focus:border-red-500 disabled:bg-gray-50 disabled:text-gray-600";
+
+    return (
+        <div className={cn(
+            "flex w-full max-w-full flex-1 flex-col overflow-hidden bg-gray-50 md:flex-row",
+            "min-h-screen"
+        )}>
+            <Sidebar open={sidebarOpen} setOpen={setSidebarOpen}>
+                <SidebarBody className="justify-between gap-10">
+                    <div className="flex flex-1 flex-col overflow-x-hidden overflow-y-auto">
+                        <Logo />
+                        <div className="mt-8 flex flex-col gap-2">
+                            {sidebarLinks.map((link, idx) => (
+                                <SidebarLink key={idx} link={link} />
+                            ))}
+                        </div>
+                    </div>
+                    <div>
+                        <SidebarLink
+                            link={{
+                                label: user?.name || "Admin User",
+                                href: "#",
+                                icon: (
+                                    <img
+                                        src="https://images.unsplash.com/photo-1472099645785-5658abf4ff4e?ixlib=rb-4.0.3&auto=format&fit=crop&w=50&q=80"
+                                        className="h-7 w-7 shrink-0 rounded-full"
+                                        width={50}
+                                        height={50}
+                                        alt="Avatar"
+                                    />
+                                ),
+                            }}
+                        />
+                    </div>
+                </SidebarBody>
+            </Sidebar>
+
+            {/* Main Content */}
+            <div className="flex flex-1">
+                <div className="flex h-full w-full flex-1 flex-col gap-2 rounded-tl-2xl border border-neutral-200 bg-white p-2 md:p-6 dark:border-neutral-700 dark:bg-neutral-900 overflow-y-auto">
+                    {/* Header */}
+                    <div className="bg-white shadow-sm border-b rounded-lg p-6 mb-6">
+                        <div className="flex flex-col lg:flex-row lg:items-center lg:justify-between gap-4">
+                            <div>
+                                <h1 className="text-2xl font-bold text-gray-900">Eligibility Questionnaire</h1>
+                                <p className="text-gray-600">Edit quiz questions, weights and deferrals. Donors answer the active version.</p>
+                            </div>
+                            <button
+                                onClick={() => fetchVersions(draft?.id)}
+                                className="bg-blue-600 hover:bg-blue-700 text-white px-4 py-2 rounded-lg text-sm font-medium transition-colors flex items-center space-x-2"
+                            >
+                                <RefreshCw className="h-4 w-4" />
+                                <span>Refresh</span>
+                            </button>
+                        </div>
+                    </div>
+
+                    {/* Messages */}
+                    {error && (
+                        <motion.div
+                            initial={{ opacity: 0, y: -10 }}
+                            animate={{ opacity: 1, y: 0 }}
+                            className="bg-red-50 border border-red-200 rounded-lg p-4 mb-6 flex items-center space-x-2"
+                        >
+                            <AlertCircle className="h-5 w-5 text-red-500" />
+                            <span className="text-red-700">{error}</span>
+                        </motion.div>
+                    )}
+                    {notice && (
+                        <div className="bg-green-50 border border-green-200 rounded-lg p-4 mb-6 flex items-center space-x-2">
+                            <CheckCircle className="h-5 w-5 text-green-600" />
+                            <span className="text-green-700">{notice}</span>
+                        </div>
+                    )}
+
+                    {loading && versions.length === 0 ? (
+                        <div className="flex items-center justify-center py-12">
+                            <RefreshCw className="h-8 w-8 text-gray-400 animate-spin" />
+                        </div>
+                    ) : (
+                        <div className="grid grid-cols-1 lg:grid-cols-4 gap-6">
+                            {/* Versions */}
+                            <div className="bg-white rounded-xl shadow-md border p-4 h-fit">
+                                <h2 className="text-sm font-semibold text-gray-700 mb-3">Versions</h2>
+                                <div className="space-y-2">
+                                    {versions.map(version => {
+                                        const style = QUESTIONNAIRE_STATUS_STYLES[version.status];
+                                        return (
+                                            <button
+                                                key={version.id}
+                                                onClick={() => setDraft(structuredClone(version))}
+                                                className={cn(
+                                                    "w-full text-left p-3 rounded-lg border transition-colors",
+                                                    draft?.id === version.id ? "border-red-500 bg-red-50" : "border-gray-200 hover:bg-gray-50"
+                                                )}
+                                            >
+                                                <div className="flex items-center justify-between">
+                                                    <span className="font-medium text-gray-900">Version {version.version}</span>
+                                                    <span className={`px-2 py-0.5 text-xs font-medium rounded-full ${style.className}`}>
+                                                        {style.label}
+                                                    </span>
+                                                </div>
+                                                <p className="text-xs text-gray-500 mt-1">
+                                                    {version.questions.length} questions · {format(new Date(version.activatedAt || version.createdAt), 'MMM d, yyyy')}
+                                                </p>
+                                            </button>
+                                        );
+                                    })}
+                                </div>
+                            </div>
+
+                            {/* Editor */}
+                            {draft && (
+                                <div className="lg:col-span-3 bg-white rounded-xl shadow-md border p-6">
+                                    <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-3 mb-6">
+                                        <div>
+                                            <h2 className="text-xl font-semibold text-gray-900">Version {draft.version}</h2>
+                                            <p className="text-sm text-gray-500">
+                                                {isEditable
+                                                    ? 'Draft: changes are not seen by donors until you activate it.'
+                                                    : `This version is ${draft.status} and can no longer be changed.`}
+                                            </p>
+                                        </div>
+                                        <div className="flex flex-wrap gap-2">
+                                            {isEditable ? (
+                                                <>
+                                                    <button
+                                                        onClick={deleteDraft}
+                                                        disabled={saving}
+                                                        className="px-3 py-2 rounded-lg text-sm font-medium text-gray-600 hover:text-red-600 hover:bg-red-50 flex items-center space-x-1 disabled:opacity-50"
+                                                    >
+                                                        <Trash2 className="h-4 w-4" />
+                                                        <span>Delete</span>
+                                                    </button>
+                                                    <button
+                                                        onClick={saveDraft}
+                                                        disabled={saving}
+                                                        className="px-3 py-2 rounded-lg text-sm font-medium border border-gray-300 text-gray-700 hover:bg-gray-50 flex items-center space-x-1 disabled:opacity-50"
+                                                    >
+                                                        <Save className="h-4 w-4" />
+                                                        <span>Save Draft</span>
+                                                    </button>
+                                                    <button
+                                                        onClick={activateDraft}
+                                                        disabled={saving}
+                                                        className="px-3 py-2 rounded-lg text-sm font-medium bg-green-600 hover:bg-green-700 text-white flex items-center space-x-1 disabled:opacity-50"
+                                                    >
+                                                        <CheckCircle className="h-4 w-4" />
+                                                        <span>Activate</span>
+                                                    </button>
+                                                </>
+                                            ) : (
+                                                <button
+                                                    onClick={() => createDraftFrom(draft)}
+                                                    disabled={saving}
+                                                    className="px-3 py-2 rounded-lg text-sm font-medium bg-red-600 hover:bg-red-700 text-white flex items-center space-x-1 disabled:opacity-50"
+                                                >
+                                                    <Copy className="h-4 w-4" />
+                                                    <span>New Draft From This Version</span>
+                                                </button>
+                                            )}
+                                        </div>
+                                    </div>
+
+                                    {/* Settings */}
+                                    <div className="grid grid-cols-1 md:grid-cols-4 gap-4 mb-6">
+                                        <div>
+                                            <label className="block text-sm font-medium text-gray-700 mb-1">Pass mark (%)</label>
+                                            <input
+                                                type="number"
+                                                min={0}
+                                                max={100}
+                                                value={draft.passPercentage}
+                                                disabled={!isEditable}
+                                                onChange={(e) => setDraft({ ...draft, passPercentage: Number(e.target.value) })}
+                                                className={inputClass}
+                                            />
+                                        </div>
+                                        <div className="md:col-span-3">
+                                            <label className="block text-sm font-medium text-gray-700 mb-1">Notes</label>
+                                            <input
+                                                type="text"
+                                                value={draft.notes}
+                                                disabled={!isEditable}
+                                                onChange={(e) => setDraft({ ...draft, notes: e.target.value })}
+                                                placeholder="What changed in this version"
+                                                className={inputClass}
+                                            />
+                                        </div>
+                                    </div>
+
+                                    {/* Questions */}
+                                    <div className="space-y-4">
+                                        {draft.questions.map((question, qIndex) => (
+                                            <div key={question.id} className="border border-gray-200 rounded-xl p-4">
+                                                <div className="flex items-start gap-3 mb-3">
+                                                    <span className="mt-2 text-sm font-semibold text-gray-500 w-8">Q{qIndex + 1}</span>
+                                                    <div className="flex-1 grid grid-cols-1 md:grid-cols-4 gap-3">
+                                                        <input
+                                                            type="text"
+                                                            value={question.category}
+                                                            disabled={!isEditable}
+                                                            onChange={(e) => updateQuestion(qIndex, { category: e.target.value })}
+                                                            placeholder="Category"
+                                                            className={inputClass}
+                                                        />
+                                                        <input
+                                                            type="text"
+                                                            value={question.question}
+                                                            disabled={!isEditable}
+                                                            onChange={(e) => updateQuestion(qIndex, { question: e.target.value })}
+                                                            placeholder="Question"
+                                                            className={cn(inputClass, "md:col-span-3")}
+                                                        />
+                                                    </div>
+                                                    {isEditable && (
+                                                        <button
+                                                            onClick={() => removeQuestion(qIndex)}
+                                                            className="mt-1 p-2 text-gray-400 hover:text-red-600"
+                                                            aria-label="Remove question"
+                                                        >
+                                                            <Trash2 className="h-4 w-4" />
+                                                        </button>
+                                                    )}
+                                                </div>
+
+                                                {/* Options */}
+                                                <div className="ml-11 space-y-2">
+                                                    {question.options.map((option, oIndex) => (
+                                                        <div key={oIndex} className={cn("rounded-lg p-3", option.deferral ? "bg-red-50" : "bg-gray-50")}>
+                                                            <div className="grid grid-cols-2 md:grid-cols-12 gap-2 items-center">
+                                                                <input
+                                                                    type="text"
+                                                                    value={option.label}
+                                                                    disabled={!isEditable}
+                                                                    onChange={(e) => updateOption(qIndex, oIndex, { label: e.target.value })}
+                                                                    placeholder="Answer label"
+                                                                    className={cn(inputClass, "md:col-span-4")}
+                                                                />
+                                                                <input
+                                                                    type="text"
+                                                                    value={option.value}
+                                                                    disabled={!isEditable}
+                                                                    onChange={(e) => updateOption(qIndex, oIndex, { value: e.target.value })}
+                                                                    placeholder="Value"
+                                                                    className={cn(inputClass, "md:col-span-3")}
+                                                                />
+                                                                <input
+                                                                    type="number"
+                                                                    min={0}
+                                                                    value={option.weight}
+                                                                    disabled={!isEditable}
+                                                                    onChange={(e) => updateOption(qIndex, oIndex, { weight: Number(e.target.value) })}
+                                                                    aria-label="Weight"
+                                                                    className={cn(inputClass, "md:col-span-2")}
+                                                                />
+                                                                <label className="flex items-center space-x-2 text-sm text-gray-700 md:col-span-2">
+                                                                    <input
+                                                                        type="checkbox"
+                                                                        checked={option.deferral !== null}
+                                                                        disabled={!isEditable}
+                                                                        onChange={(e) => updateOption(qIndex, oIndex, {
+                                                                            deferral: e.target.checked ? { code: '', days: null, message: '' } : null
+                                                                        })}
+                                                                        className="rounded text-red-600 focus:ring-red-500"
+                                                                    />
+                                                                    <span>Disqualifying</span>
+                                                                </label>
+                                                                {isEditable && (
+                                                                    <button
+                                                                        onClick={() => updateQuestion(qIndex, { options: question.options.filter((_, i) => i !== oIndex) })}
+                                                                        className="justify-self-end p-1 text-gray-400 hover:text-red-600"
+                                                                        aria-label="Remove option"
+                                                                    >
+                                                                        <Trash2 className="h-4 w-4" />
+                                                                    </button>
+                                                                )}
+                                                            </div>
+
+                                                            {option.deferral && (
+                                                                <div className="grid grid-cols-1 md:grid-cols-12 gap-2 mt-2">
+                                                                    <input
+                                                                        type="text"
+                                                                        value={option.deferral.code}
+                                                                        disabled={!isEditable}
+                                                                        onChange={(e) => updateOption(qIndex, oIndex, { deferral: { ...option.deferral!, code: e.target.value } })}
+                                                                        placeholder="Deferral code"
+                                                                        className={cn(inputClass, "md:col-span-3")}
+                                                                    />
+                                                                    <input
+                                                                        type="number"
+                                                                        min={0}
+                                                                        value={option.deferral.days ?? ''}
+                                                                        disabled={!isEditable}
+                                                                        onChange={(e) => updateOption(qIndex, oIndex, {
+                                                                            deferral: { ...option.deferral!, days: e.target.value === '' ? null : Number(e.target.value) }
+                                                                        })}
+                                                                        placeholder="Days (empty = staff review)"
+                                                                        className={cn(inputClass, "md:col-span-3")}
+                                                                    />
+                                                                    <input
+                                                                        type="text"
+                                                                        value={option.deferral.message}
+                                                                        disabled={!isEditable}
+                                                                        onChange={(e) => updateOption(qIndex, oIndex, { deferral: { ...option.deferral!, message: e.target.value } })}
+                                                                        placeholder="Message shown to the donor"
+                                                                        className={cn(inputClass, "md:col-span-6")}
+                                                                    />
+                                                                </div>
+                                                            )}
+                                                        </div>
+                                                    ))}
+                                                    {isEditable && (
+                                                        <button
+                                                            onClick={() => updateQuestion(qIndex, { options: [...question.options, emptyOption()] })}
+                                                            className="text-sm font-medium text-red-600 hover:text-red-700 flex items-center space-x-1"
+                                                        >
+                                                            <Plus className="h-4 w-4" />
+                                                            <span>Add answer</span>
+                                                        </button>
+                                                    )}
+                                                </div>
+                                            </div>
+                                        ))}
+                                    </div>
+
+                                    {isEditable && (
+                                        <button
+                                            onClick={addQuestion}
+                                            className="mt-4 w-full py-3 border-2 border-dashed border-gray-300 rounded-xl text-sm font-medium text-gray-600 hover:border-red-400 hover:text-red-600 flex items-center justify-center space-x-1"
+                                        >
+                                            <Plus className="h-4 w-4" />
+                                            <span>Add question</span>
+                                        </button>
+                                    )}
+                                </div>
+                            )}
+                        </div>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+};
+
+// Logo component
+const Logo = () => {
+    return (
+        <a
+            href="#"
+            className="relative z-20 flex items-center space-x-2 py-1 text-sm font-normal text-black"
+        >
+            <Heart className="h-5 w-6 shrink-0 text-red-600" />
+            <motion.span
+                initial={{ opacity: 0 }}
+                animate={{ opacity: 1 }}
+                className="font-medium whitespace-pre text-black dark:text-white"
+            >
+                RaktSetu
+            </motion.span>
+        </a>
+    );
+};
+
+export default AdminQuestionnairePage;
@@ -1,5 +1,6 @@
 import React, { useState, useEffect } from 'react';
 import { useAuth } from '../../contexts/AuthContext';
+import { useRealtime } from '../../hooks/useRealtime';
 import { Sidebar, SidebarBody, SidebarLink } from '../../components/ui/sidebar';
 import { motion } from 'framer-motion';
 import {
@@ -18,7 +19,9 @@ import {
     IconUsers,
     IconHeart,
     IconBuilding,
-    IconChartBar
+    IconChartBar,
+    IconClipboardList,
+    IconCalendarEvent
 } from '@tabler/icons-react';
 import { cn } from '@/lib/utils';
 
@@ -86,6 +89,16 @@ export const AdminUsersPage: React.FC = () => {
             href: "/admin/users",
             icon: <IconUsers className="h-5 w-5 shrink-0 text-neutral-700 dark:text-neutral-200" />,
         },
+        {
+            label: "Questionnaire",
+            href: "/admin/questionnaire",
+            icon: <IconClipboardList className="h-5 w-5 shrink-0 text-neutral-700 dark:text-neutral-200" />,
+        },
+        {
+            label: "Drives",
+            href: "/admin/drives",
+            icon: <IconCalendarEvent className="h-5 w-5 shrink-0 text-neutral-700 dark:text-neutral-200" />,
+        },
         {
             label: "Inventory",
             href: "/admin/inventory",
@@ -170,6 +183,11 @@ export const AdminUsersPage: React.FC = () => {
         }
     }, [token, selectedRole]);
 
+    // Refresh live when accounts are created, changed or removed
+    useRealtime({
+        user: () => fetchUsers()
+    });
+
     // Filter users based on search query
     const filteredUsers = users.filter(user => {
         const searchLower = searchQuery.toLowerCase();
@@ -0,0 +1,122 @@
+import React, { useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { yupResolver } from '@hookform/resolvers/yup';
+import * as yup from 'yup';
+import { Link } from 'react-router-dom';
+import { Heart, AlertCircle, CheckCircle, Mail } from 'lucide-react';
+import { motion } from 'framer-motion';
+
+const API_BASE = '/api';
+
+const schema = yup.object({
+  email: yup.string().email('Invalid email').required('Email is required'),
+});
+
+interface ForgotPasswordFormData {
+  email: string;
+}
+
+export const ForgotPasswordPage: React.FC = () => {
+  const [error, setError] = useState('');
+  const [sentMessage, setSentMessage] = useState('');
+
+  const {
+    register,
+    handleSubmit,
+    formState: { errors, isSubmitting },
+  } = useForm<ForgotPasswordFormData>({
+    resolver: yupResolver(schema),
+  });
+
+  const onSubmit = async (data: ForgotPasswordFormData) => {
+    setError('');
+    try {
+      const response = await fetch(`${API_BASE}/auth/forgot-password`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ email: data.email })
+      });
+      const result = await response.json();
+
+      if (response.ok && result.success) {
+        setSentMessage(result.message);
+      } else {
+        setError(result.message || result.errors?.[0]?.message || 'Could not send the reset link. Please try again.');
+      }
+    } catch (err) {
+      setError('Network error. Please try again.');
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-red-50 via-white to-pink-50 flex items-center justify-center py-12 px-4 sm:px-6 lg:px-8">
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ duration: 0.8 }}
+        className="max-w-md w-full space-y-8"
+      >
+        <div className="text-center">
+          <div className="flex items-center justify-center space-x-2 mb-6">
+            <Heart className="h-12 w-12 text-red-600 animate-pulse" />
+            <h1 className="text-3xl font-bold text-gray-900">RaktSetu</h1>
+          </div>
+          <h2 className="text-2xl font-bold text-gray-900">Forgot your password?</h2>
+          <p className="mt-2 text-gray-600">Enter your email and we'll send you a link to choose a new one</p>
+        </div>
+
+        <div className="bg-white p-8 rounded-xl shadow-lg border border-gray-100 space-y-6">
+          {sentMessage ? (
+            <div className="bg-green-50 border border-green-200 rounded-lg p-4 flex items-start space-x-2">
+              <CheckCircle className="h-5 w-5 text-green-600 flex-shrink-0" />
+              <span className="text-green-700">{sentMessage}. The link works once and expires soon.</span>
+            </div>
+          ) : (
+            <form className="space-y-6" onSubmit={handleSubmit(onSubmit)}>
+              {error && (
+                <div className="bg-red-50 border border-red-200 rounded-lg p-4 flex items-center space-x-2">
+                  <AlertCircle className="h-5 w-5 text-red-500" />
+                  <span className="text-red-700">{error}</span>
+                </div>
+              )}
+
+              <div>
+                <label htmlFor="email" className="block text-sm font-medium text-gray-700 mb-2">
+                  Email Address
+                </label>
+                <div className="relative">
+                  <input
+                    {...register('email')}
+                    id="email"
+                    type="email"
+                    className="w-full pl-10 pr-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-red-500 focus:border-red-500 transition-colors"
+                    placeholder="Enter your email"
+                  />
+                  <Mail className="absolute left-3 top-2.5 h-4 w-4 text-gray-400" />
+                </div>
+                {errors.email && (
+                  <p className="mt-1 text-sm text-red-600">{errors.email.message}</p>
+                )}
+              </div>
+
+              <button
+                type="submit"
+                disabled={isSubmitting}
+                className="w-full flex justify-center py-3 px-4 border border-transparent rounded-lg shadow-sm text-sm font-medium text-white bg-red-600 hover:bg-red-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-red-500 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+              >
+                {isSubmitting ? 'Sending...' : 'Send reset link'}
+              </button>
+            </form>
+          )}
+
+          <p className="text-center text-sm text-gray-600">
+            Remembered it?{' '}
+            <Link to="/login" className="font-medium text-red-600 hover:text-red-500 transition-colors">
+              Back to sign in
+            </Link>
+          </p>
+        </div>
+      </motion.div>
+    </div>
+  );
+};
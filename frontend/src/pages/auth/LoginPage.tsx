@@ -6,6 +6,7 @@ import { Link, useNavigate } from 'react-router-dom';
 import { useAuth } from '../../contexts/AuthContext';
 import { Heart, Eye, EyeOff, AlertCircle, Mail } from 'lucide-react';
 import { motion } from 'framer-motion';
+import { GoogleSignIn } from '../../components/common/GoogleSignIn';
 
 const schema = yup.object({
   email: yup.string().email('Invalid email').required('Email is required'),
@@ -19,16 +20,9 @@ interface LoginFormData {
   role: string;
 }
 
-declare global {
-  interface Window {
-    google: any;
-  }
-}
-
 export const LoginPage: React.FC = () => {
   const [showPassword, setShowPassword] = useState(false);
   const [loginError, setLoginError] = useState('');
-  const [isGoogleLoading, setIsGoogleLoading] = useState(false);
   const { login, loading, user } = useAuth();
   const navigate = useNavigate();
 
@@ -52,61 +46,6 @@ export const LoginPage: React.FC = () => {
 
   const selectedRole = watch('role');
 
-  useEffect(() => {
-    // Load Google Sign-In script
-    const script = document.createElement('script');
-    script.src = 'https://accounts.google.com/gsi/client';
-    script.async = true;
-    script.defer = true;
-    document.body.appendChild(script);
-
-    script.onload = () => {
-      if (window.google) {
-        window.google.accounts.id.initialize({
-          client_id: '1234567890-abcdefghijklmnopqrstuvwxyz.apps.googleusercontent.com', // Replace with your actual client ID
-          callback: handleGoogleSignIn,
-        });
-      }
-    };
-
-    return () => {
-      document.body.removeChild(script);
-    };
-  }, []);
-
-  const handleGoogleSignIn = async (response: any) => {
-    setIsGoogleLoading(true);
-    setLoginError('');
-
-    try {
-      // Decode the JWT token to get user info
-      const payload = JSON.parse(atob(response.credential.split('.')[1]));
-
-      // For demo purposes, we'll use the email to determine role
-      // In a real app, you'd send this to your backend
-      const email = payload.email;
-      const name = payload.name;
-
-      // Mock role assignment based on email domain
-      let role = 'donor';
-      if (email.includes('admin')) role = 'admin';
-      else if (email.includes('hospital')) role = 'hospital';
-      else if (email.includes('seeker')) role = 'seeker';
-
-      const success = await login(email, 'google-auth', role);
-
-      if (success) {
-        navigate(`/${role}/dashboard`);
-      } else {
-        setLoginError('Google sign-in failed. Please try again.');
-      }
-    } catch (error) {
-      setLoginError('Google sign-in failed. Please try again.');
-    } finally {
-      setIsGoogleLoading(false);
-    }
-  };
-
   const onSubmit = async (data: LoginFormData) => {
     setLoginError('');
     const success = await login(data.email, data.password, data.role);
@@ -117,17 +56,6 @@ export const LoginPage: React.FC = () => {
     // Navigation happens in useEffect when user state updates
   };
 
-  const handleGoogleButtonClick = () => {
-    if (!selectedRole) {
-      setLoginError('Please select a role before signing in with Google.');
-      return;
-    }
-
-    if (window.google) {
-      window.google.accounts.id.prompt();
-    }
-  };
-
   const roles = [
     { value: 'admin', label: 'Administrator', color: 'bg-blue-100 text-blue-800', icon: '👨‍💼' },
     { value: 'donor', label: 'Blood Donor', color: 'bg-red-100 text-red-800', icon: '🩸' },
@@ -198,37 +126,7 @@ export const LoginPage: React.FC = () => {
           </div>
 
           {/* Google Sign In Button */}
-          <div className="space-y-4">
-            <div className="relative">
-              <div className="absolute inset-0 flex items-center">
-                <div className="w-full border-t border-gray-300" />
-              </div>
-              <div className="relative flex justify-center text-sm">
-                <span className="px-2 bg-white text-gray-500">Or continue with</span>
-              </div>
-            </div>
-
-            <button
-              type="button"
-              onClick={handleGoogleButtonClick}
-              disabled={isGoogleLoading || !selectedRole}
-              className="w-full flex justify-center items-center py-3 px-4 border border-gray-300 rounded-lg shadow-sm bg-white text-sm font-medium text-gray-700 hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-red-500 disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-200 transform hover:scale-105"
-            >
-              {isGoogleLoading ? (
-                <div className="animate-spin rounded-full h-5 w-5 border-b-2 border-gray-600"></div>
-              ) : (
-                <>
-                  <svg className="w-5 h-5 mr-2" viewBox="0 0 24 24">
-                    <path fill="#4285F4" d="M22.56 12.25c0-.78-.07-1.53-.2-2.25H12v4.26h5.92c-.26 1.37-1.04 2.53-2.21 3.31v2.77h3.57c2.08-1.92 3.28-4.74 3.28-8.09z" />
-                    <path fill="#34A853" d="M12 23c2.97 0 5.46-.98 7.28-2.66l-3.57-2.77c-.98.66-2.23 1.06-3.71 1.06-2.86 0-5.29-1.93-6.16-4.53H2.18v2.84C3.99 20.53 7.7 23 12 23z" />
-                    <path fill="#FBBC05" d="M5.84 14.09c-.22-.66-.35-1.36-.35-2.09s.13-1.43.35-2.09V7.07H2.18C1.43 8.55 1 10.22 1 12s.43 3.45 1.18 4.93l2.85-2.22.81-.62z" />
-                    <path fill="#EA4335" d="M12 5.38c1.62 0 3.06.56 4.21 1.64l3.15-3.15C17.45 2.09 14.97 1 12 1 7.7 1 3.99 3.47 2.18 7.07l3.66 2.84c.87-2.6 3.3-4.53 6.16-4.53z" />
-                  </svg>
-                  Continue with Google
-                </>
-              )}
-            </button>
-          </div>
+          <GoogleSignIn label="Continue with Google" dividerLabel="Or continue with" role={selectedRole} />
 
           <div className="relative">
             <div className="absolute inset-0 flex items-center">
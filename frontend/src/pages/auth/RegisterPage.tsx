@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState } from 'react';
 import { useForm } from 'react-hook-form';
 import { yupResolver } from '@hookform/resolvers/yup';
 import * as yup from 'yup';
@@ -6,6 +6,7 @@ import { Link, useNavigate } from 'react-router-dom';
 import { useAuth } from '../../contexts/AuthContext';
 import { Heart, Eye, EyeOff, AlertCircle, CheckCircle, Mail, User, Phone, MapPin } from 'lucide-react';
 import { motion } from 'framer-motion';
+import { GoogleSignIn } from '../../components/common/GoogleSignIn';
 
 const schema = yup.object({
   name: yup.string().required('Full name is required'),
@@ -29,18 +30,11 @@ interface RegisterFormData {
   terms: boolean;
 }
 
-declare global {
-  interface Window {
-    google: any;
-  }
-}
-
 export const RegisterPage: React.FC = () => {
   const [showPassword, setShowPassword] = useState(false);
   const [showConfirmPassword, setShowConfirmPassword] = useState(false);
   const [registerSuccess, setRegisterSuccess] = useState(false);
   const [registerError, setRegisterError] = useState('');
-  const [isGoogleLoading, setIsGoogleLoading] = useState(false);
   const { register: registerUser, loading } = useAuth();
   const navigate = useNavigate();
 
@@ -56,62 +50,6 @@ export const RegisterPage: React.FC = () => {
 
   const selectedRole = watch('role');
 
-  useEffect(() => {
-    // Load Google Sign-In script
-    const script = document.createElement('script');
-    script.src = 'https://accounts.google.com/gsi/client';
-    script.async = true;
-    script.defer = true;
-    document.body.appendChild(script);
-
-    script.onload = () => {
-      if (window.google) {
-        window.google.accounts.id.initialize({
-          client_id: '1234567890-abcdefghijklmnopqrstuvwxyz.apps.googleusercontent.com', // Replace with your actual client ID
-          callback: handleGoogleSignUp,
-        });
-      }
-    };
-
-    return () => {
-      document.body.removeChild(script);
-    };
-  }, []);
-
-  const handleGoogleSignUp = async (response: any) => {
-    setIsGoogleLoading(true);
-    setRegisterError('');
-
-    try {
-      // Decode the JWT token to get user info
-      const payload = JSON.parse(atob(response.credential.split('.')[1]));
-
-      const userData = {
-        name: payload.name,
-        email: payload.email,
-        password: 'google-auth-temp', // Placeholder for Google auth
-        phone: '', // Google doesn't provide phone by default
-        role: selectedRole,
-        googleAuth: true,
-      };
-
-      const result = await registerUser(userData);
-
-      if (result.success) {
-        setRegisterSuccess(true);
-        setTimeout(() => {
-          navigate('/login');
-        }, 2000);
-      } else {
-        setRegisterError(result.message || 'Google sign-up failed. Please try again.');
-      }
-    } catch (error) {
-      setRegisterError('Google sign-up failed. Please try again.');
-    } finally {
-      setIsGoogleLoading(false);
-    }
-  };
-
   const onSubmit = async (data: RegisterFormData) => {
     setRegisterError('');
     const result = await registerUser({
@@ -133,17 +71,6 @@ export const RegisterPage: React.FC = () => {
     }
   };
 
-  const handleGoogleButtonClick = () => {
-    if (!selectedRole) {
-      setRegisterError('Please select a role before signing up with Google.');
-      return;
-    }
-
-    if (window.google) {
-      window.google.accounts.id.prompt();
-    }
-  };
-
   const roles = [
     {
       value: 'donor',
@@ -251,37 +178,7 @@ export const RegisterPage: React.FC = () => {
           </div>
 
           {/* Google Sign Up Button */}
-          <div className="space-y-4">
-            <div className="relative">
-              <div className="absolute inset-0 flex items-center">
-                <div className="w-full border-t border-gray-300" />
-              </div>
-              <div className="relative flex justify-center text-sm">
-                <span className="px-2 bg-white text-gray-500">Quick registration with</span>
-              </div>
-            </div>
-
-            <button
-              type="button"
-              onClick={handleGoogleButtonClick}
-              disabled={isGoogleLoading || !selectedRole}
-              className="w-full flex justify-center items-center py-3 px-4 border border-gray-300 rounded-lg shadow-sm bg-white text-sm font-medium text-gray-700 hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-red-500 disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-200 transform hover:scale-105"
-            >
-              {isGoogleLoading ? (
-                <div className="animate-spin rounded-full h-5 w-5 border-b-2 border-gray-600"></div>
-              ) : (
-                <>
-                  <svg className="w-5 h-5 mr-2" viewBox="0 0 24 24">
-                    <path fill="#4285F4" d="M22.56 12.25c0-.78-.07-1.53-.2-2.25H12v4.26h5.92c-.26 1.37-1.04 2.53-2.21 3.31v2.77h3.57c2.08-1.92 3.28-4.74 3.28-8.09z" />
-                    <path fill="#34A853" d="M12 23c2.97 0 5.46-.98 7.28-2.66l-3.57-2.77c-.98.66-2.23 1.06-3.71 1.06-2.86 0-5.29-1.93-6.16-4.53H2.18v2.84C3.99 20.53 7.7 23 12 23z" />
-                    <path fill="#FBBC05" d="M5.84 14.09c-.22-.66-.35-1.36-.35-2.09s.13-1.43.35-2.09V7.07H2.18C1.43 8.55 1 10.22 1 12s.43 3.45 1.18 4.93l2.85-2.22.81-.62z" />
-                    <path fill="#EA4335" d="M12 5.38c1.62 0 3.06.56 4.21 1.64l3.15-3.15C17.45 2.09 14.97 1 12 1 7.7 1 3.99 3.47 2.18 7.07l3.66 2.84c.87-2.6 3.3-4.53 6.16-4.53z" />
-                  </svg>
-                  Sign up with Google
-                </>
-              )}
-            </button>
-          </div>
+          <GoogleSignIn label="Sign up with Google" dividerLabel="Quick registration with" role={selectedRole} />
 
           <div className="relative">
             <div className="absolute inset-0 flex items-center">
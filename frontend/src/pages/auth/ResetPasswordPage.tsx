@@ -0,0 +1,173 @@
+import React, { useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { yupResolver } from '@hookform/resolvers/yup';
+import * as yup from 'yup';
+import { Link, useSearchParams } from 'react-router-dom';
+import { useAuth } from '../../contexts/AuthContext';
+import { Heart, AlertCircle, CheckCircle, Eye, EyeOff } from 'lucide-react';
+import { motion } from 'framer-motion';
+
+const API_BASE = '/api';
+
+const schema = yup.object({
+  password: yup.string().min(6, 'Password must be at least 6 characters').required('Password is required'),
+  confirmPassword: yup
+    .string()
+    .oneOf([yup.ref('password')], 'Passwords do not match')
+    .required('Please confirm your password'),
+});
+
+interface ResetPasswordFormData {
+  password: string;
+  confirmPassword: string;
+}
+
+export const ResetPasswordPage: React.FC = () => {
+  const [searchParams] = useSearchParams();
+  const token = searchParams.get('token') || '';
+  const [showPassword, setShowPassword] = useState(false);
+  const [error, setError] = useState('');
+  const [done, setDone] = useState(false);
+  const { user, logout } = useAuth();
+
+  const {
+    register,
+    handleSubmit,
+    formState: { errors, isSubmitting },
+  } = useForm<ResetPasswordFormData>({
+    resolver: yupResolver(schema),
+  });
+
+  const onSubmit = async (data: ResetPasswordFormData) => {
+    setError('');
+    try {
+      const response = await fetch(`${API_BASE}/auth/reset-password`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify({ token, password: data.password })
+      });
+      const result = await response.json();
+
+      if (response.ok && result.success) {
+        // Resetting signs out every device, including this one
+        if (user) await logout();
+        setDone(true);
+      } else {
+        setError(result.message || result.errors?.[0]?.message || 'Could not reset your password.');
+      }
+    } catch (err) {
+      setError('Network error. Please try again.');
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-red-50 via-white to-pink-50 flex items-center justify-center py-12 px-4 sm:px-6 lg:px-8">
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ duration: 0.8 }}
+        className="max-w-md w-full space-y-8"
+      >
+        <div className="text-center">
+          <div className="flex items-center justify-center space-x-2 mb-6">
+            <Heart className="h-12 w-12 text-red-600 animate-pulse" />
+            <h1 className="text-3xl font-bold text-gray-900">RaktSetu</h1>
+          </div>
+          <h2 className="text-2xl font-bold text-gray-900">Choose a new password</h2>
+          <p className="mt-2 text-gray-600">You'll be signed out on every device</p>
+        </div>
+
+        <div className="bg-white p-8 rounded-xl shadow-lg border border-gray-100 space-y-6">
+          {done ? (
+            <div className="bg-green-50 border border-green-200 rounded-lg p-4 flex items-start space-x-2">
+              <CheckCircle className="h-5 w-5 text-green-600 flex-shrink-0" />
+              <span className="text-green-700">Your password has been changed. Sign in with your new password.</span>
+            </div>
+          ) : !token ? (
+            <div className="bg-red-50 border border-red-200 rounded-lg p-4 flex items-center space-x-2">
+              <AlertCircle className="h-5 w-5 text-red-500" />
+              <span className="text-red-700">This reset link is incomplete. Open the link from the email again, or ask for a new one.</span>
+            </div>
+          ) : (
+            <form className="space-y-6" onSubmit={handleSubmit(onSubmit)}>
+              {error && (
+                <div className="bg-red-50 border border-red-200 rounded-lg p-4 flex items-center space-x-2">
+                  <AlertCircle className="h-5 w-5 text-red-500" />
+                  <span className="text-red-700">{error}</span>
+                </div>
+              )}
+
+              <div>
+                <label htmlFor="password" className="block text-sm font-medium text-gray-700 mb-2">
+                  New Password
+                </label>
+                <div className="relative">
+                  <input
+                    {...register('password')}
+                    id="password"
+                    type={showPassword ? 'text' : 'password'}
+                    autoComplete="new-password"
+                    className="w-full px-3 py-2 pr-10 border border-gray-300 rounded-lg focus:ring-2 focus:ring-red-500 focus:border-red-500 transition-colors"
+                    placeholder="At least 6 characters"
+                  />
+                  <button
+                    type="button"
+                    className="absolute inset-y-0 right-0 pr-3 flex items-center"
+                    onClick={() => setShowPassword(!showPassword)}
+                  >
+                    {showPassword ? (
+                      <EyeOff className="h-4 w-4 text-gray-400" />
+                    ) : (
+                      <Eye className="h-4 w-4 text-gray-400" />
+                    )}
+                  </button>
+                </div>
+                {errors.password && (
+                  <p className="mt-1 text-sm text-red-600">{errors.password.message}</p>
+                )}
+              </div>
+
+              <div>
+                <label htmlFor="confirmPassword" className="block text-sm font-medium text-gray-700 mb-2">
+                  Confirm Password
+                </label>
+                <input
+                  {...register('confirmPassword')}
+                  id="confirmPassword"
+                  type={showPassword ? 'text' : 'password'}
+                  autoComplete="new-password"
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-red-500 focus:border-red-500 transition-colors"
+                  placeholder="Repeat the new password"
+                />
+                {errors.confirmPassword && (
+                  <p className="mt-1 text-sm text-red-600">{errors.confirmPassword.message}</p>
+                )}
+              </div>
+
+              <button
+                type="submit"
+                disabled={isSubmitting}
+                className="w-full flex justify-center py-3 px-4 border border-transparent rounded-lg shadow-sm text-sm font-medium text-white bg-red-600 hover:bg-red-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-red-500 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+              >
+                {isSubmitting ? 'Saving...' : 'Set new password'}
+              </button>
+            </form>
+          )}
+
+          <p className="text-center text-sm text-gray-600">
+            {done ? (
+              <Link to="/login" className="font-medium text-red-600 hover:text-red-500 transition-colors">
+                Go to sign in
+              </Link>
+            ) : (
+              <Link to="/forgot-password" className="font-medium text-red-600 hover:text-red-500 transition-colors">
+                Send a new reset link
+              </Link>
+            )}
+          </p>
+        </div>
+      </motion.div>
+    </div>
+  );
+};
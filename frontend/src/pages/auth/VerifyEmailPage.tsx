@@ -0,0 +1,115 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
+import { useAuth } from '../../contexts/AuthContext';
+import { Heart, AlertCircle, CheckCircle } from 'lucide-react';
+import { motion } from 'framer-motion';
+
+const API_BASE = '/api';
+
+export const VerifyEmailPage: React.FC = () => {
+  const [searchParams] = useSearchParams();
+  const token = searchParams.get('token') || '';
+  const [status, setStatus] = useState<'verifying' | 'verified' | 'failed'>('verifying');
+  const [message, setMessage] = useState('');
+  const { user, updateUser } = useAuth();
+  // Links work once, so never send the token twice (e.g. effects run twice in development)
+  const sent = useRef(false);
+
+  useEffect(() => {
+    if (sent.current) return;
+    sent.current = true;
+
+    if (!token) {
+      setStatus('failed');
+      setMessage('This verification link is incomplete');
+      return;
+    }
+
+    (async () => {
+      try {
+        const response = await fetch(`${API_BASE}/auth/verify-email`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ token })
+        });
+        const data = await response.json();
+
+        if (response.ok && data.success) {
+          setStatus('verified');
+          setMessage(`${data.data.user.email} is verified. Thank you!`);
+        } else {
+          setStatus('failed');
+          setMessage(data.message || 'This verification link is invalid or has expired.');
+        }
+      } catch (err) {
+        setStatus('failed');
+        setMessage('Network error. Please reload the page to try again');
+      }
+    })();
+  }, [token]);
+
+  // The link may be opened while signed in, or before the session has resumed
+  useEffect(() => {
+    if (status === 'verified' && user && !user.verified) {
+      updateUser({ verified: true });
+    }
+  }, [status, user]);
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-red-50 via-white to-pink-50 flex items-center justify-center py-12 px-4 sm:px-6 lg:px-8">
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ duration: 0.8 }}
+        className="max-w-md w-full space-y-8"
+      >
+        <div className="text-center">
+          <div className="flex items-center justify-center space-x-2 mb-6">
+            <Heart className="h-12 w-12 text-red-600 animate-pulse" />
+            <h1 className="text-3xl font-bold text-gray-900">RaktSetu</h1>
+          </div>
+          <h2 className="text-2xl font-bold text-gray-900">Email verification</h2>
+        </div>
+
+        <div className="bg-white p-8 rounded-xl shadow-lg border border-gray-100 space-y-6">
+          {status === 'verifying' && (
+            <div className="flex items-center justify-center space-x-2 text-gray-600">
+              <div className="animate-spin rounded-full h-5 w-5 border-b-2 border-red-600"></div>
+              <span>Verifying your email address...</span>
+            </div>
+          )}
+
+          {status === 'verified' && (
+            <div className="bg-green-50 border border-green-200 rounded-lg p-4 flex items-start space-x-2">
+              <CheckCircle className="h-5 w-5 text-green-600 flex-shrink-0" />
+              <span className="text-green-700">{message}</span>
+            </div>
+          )}
+
+          {status === 'failed' && (
+            <div className="bg-red-50 border border-red-200 rounded-lg p-4 flex items-start space-x-2">
+              <AlertCircle className="h-5 w-5 text-red-500 flex-shrink-0" />
+              <div className="text-red-700">
+                <p>{message}</p>
+                <p className="mt-1 text-sm">
+                  {user ? 'You can send a new link from the banner at the top of the page.' : 'Sign in to send a new link.'}
+                </p>
+              </div>
+            </div>
+          )}
+
+          {status !== 'verifying' && (
+            <p className="text-center text-sm">
+              <Link
+                to={user ? `/${user.role}/dashboard` : '/login'}
+                className="font-medium text-red-600 hover:text-red-500 transition-colors"
+              >
+                {user ? 'Go to your dashboard' : 'Go to sign in'}
+              </Link>
+            </p>
+          )}
+        </div>
+      </motion.div>
+    </div>
+  );
+};
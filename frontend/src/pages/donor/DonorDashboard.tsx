@@ -2,78 +2,171 @@
  * DonorDashboard - Enhanced Donor Dashboard
  * 
  * Features:
+ * - Eligibility status and deferral reasons (checked by the server)
  * - Eligibility Quiz modal
  * - Achievement badges (Gold/Silver/Bronze)
- * - Donation history
+ * - Donation history and stats (recorded by hospitals)
+ * - Donation appointment booking at hospital slots
+ * - Notification center (reminders and blood request appeals)
+ * - Notification channel settings
  * - Upcoming blood drives
  */
 
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
+import { useSearchParams } from 'react-router-dom';
 import { useAuth } from '../../contexts/AuthContext';
+import { useNotifications } from '../../contexts/NotificationContext';
 import { DashboardCard } from '../../components/dashboard/DashboardCard';
 import { DonorEligibilityQuiz, type QuizResult } from '../../components/donor/DonorEligibilityQuiz';
 import { DonorAchievements } from '../../components/donor/DonorAchievements';
+import { NotificationPreferences } from '../../components/donor/NotificationPreferences';
+import { ActiveSessions } from '../../components/common/ActiveSessions';
+import { NotificationDrawer } from '../../components/donor/NotificationDrawer';
+import { DonationAppointments } from '../../components/donor/DonationAppointments';
+import { EmergencyAppeals } from '../../components/donor/EmergencyAppeals';
+import { NearbyDrives } from '../../components/donor/NearbyDrives';
 import { ProfilePhotoUpload } from '../../components/common/ProfilePhotoUpload';
 import { ProfileUploadHelp } from '../../components/common/ProfileUploadHelp';
 import {
   Heart,
-  Calendar,
   Award,
   Clock,
   MapPin,
   ClipboardCheck,
-  Sparkles
+  Sparkles,
+  Bell
 } from 'lucide-react';
 import { motion } from 'framer-motion';
 import { format } from 'date-fns';
+import { mapApiDeferral, mapApiEligibility } from '../../lib/eligibility';
+import type { Deferral, DonationRecord, DonorStats, Eligibility } from '../../types';
+
+// API base URL
+const API_BASE = 'http://localhost:3000';
+
+// Map a donation from the API (snake_case) to the shared DonationRecord type
+const mapApiDonation = (donation: any): DonationRecord => ({
+  id: donation.id,
+  date: donation.date,
+  location: donation.location,
+  city: donation.city || undefined,
+  bloodGroup: donation.blood_group,
+  component: donation.component,
+  units: donation.units
+});
+
+// Map donor stats from the API (snake_case) to the shared DonorStats type
+const mapApiDonorStats = (stats: any): DonorStats => ({
+  totalDonations: stats.total_donations,
+  donationsThisYear: stats.donations_this_year,
+  lastDonation: stats.last_donation || undefined,
+  eligibleNext: stats.eligible_next || undefined,
+  achievementBadge: stats.achievement_badge,
+  nextBadge: stats.next_badge,
+  donationsNeeded: stats.donations_needed,
+  nextMilestone: stats.next_milestone,
+  streak: stats.streak,
+  badges: stats.badges.map((badge: any) => ({
+    code: badge.code,
+    name: badge.name,
+    description: badge.description,
+    earnedAt: badge.earned_at
+  }))
+});
 
 export const DonorDashboard: React.FC = () => {
-  const { user, login, updateUser } = useAuth(); // Assuming login or a new updateUser method is available
+  const { user, token, updateUser } = useAuth();
   const [showQuiz, setShowQuiz] = useState(false);
   const [quizCompleted, setQuizCompleted] = useState(false);
   const [lastQuizResult, setLastQuizResult] = useState<QuizResult | null>(null);
+  const { unreadCount } = useNotifications();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [showNotifications, setShowNotifications] = useState(false);
+
+  // The navbar bell links here with ?notifications=open
+  useEffect(() => {
+    if (searchParams.get('notifications') === 'open') {
+      setShowNotifications(true);
+      setSearchParams({}, { replace: true });
+    }
+  }, [searchParams, setSearchParams]);
 
   const donorProfile = user?.profile as any;
 
-  // Mock donation history - in production, fetch from API
-  const donationHistory = [
-    { id: '1', date: '2024-01-15', location: 'City Blood Bank', status: 'completed', units: 1 },
-    { id: '2', date: '2023-11-10', location: 'Hospital Drive', status: 'completed', units: 1 },
-    { id: '3', date: '2023-09-05', location: 'Community Center', status: 'completed', units: 1 },
-    { id: '4', date: '2023-07-01', location: 'University Campus', status: 'completed', units: 1 },
-    { id: '5', date: '2023-04-20', location: 'City Blood Bank', status: 'completed', units: 1 },
-  ];
+  // Donation history and stats recorded by hospitals
+  const [donationHistory, setDonationHistory] = useState<DonationRecord[]>([]);
+  const [donorStats, setDonorStats] = useState<DonorStats | null>(null);
+  const [historyLoading, setHistoryLoading] = useState(true);
+  const [eligibility, setEligibility] = useState<Eligibility | null>(null);
+  const [deferrals, setDeferrals] = useState<Deferral[]>([]);
+
+  useEffect(() => {
+    if (!token) return;
+
+    const fetchEligibility = async () => {
+      try {
+        const response = await fetch(`${API_BASE}/api/eligibility/me`, {
+          headers: { 'Authorization': `Bearer ${token}` }
+        });
+        const data = await response.json();
+
+        if (data.success) {
+          setEligibility(mapApiEligibility(data.data.eligibility));
+          setDeferrals(data.data.deferrals.map(mapApiDeferral));
+        }
+      } catch (error) {
+        console.error('Error fetching eligibility:', error);
+      }
+    };
+
+    const fetchDonations = async () => {
+      try {
+        const response = await fetch(`${API_BASE}/api/donations/me`, {
+          headers: { 'Authorization': `Bearer ${token}` }
+        });
+        const data = await response.json();
+
+        if (data.success) {
+          setDonationHistory(data.data.donations.map(mapApiDonation));
+          setDonorStats(mapApiDonorStats(data.data.stats));
+        }
+      } catch (error) {
+        console.error('Error fetching donations:', error);
+      } finally {
+        setHistoryLoading(false);
+      }
+    };
 
-  const upcomingDrives = [
-    { id: '1', name: 'Community Health Drive', date: '2024-02-15', location: 'Community Center', distance: '2.3 km' },
-    { id: '2', name: 'University Blood Drive', date: '2024-02-20', location: 'State University', distance: '5.1 km' },
-    { id: '3', name: 'Corporate Donation Event', date: '2024-02-25', location: 'Tech Park', distance: '7.8 km' },
-  ];
+    fetchDonations();
+    fetchEligibility();
+  }, [token]);
 
-  const totalDonations = donorProfile?.totalDonations || donationHistory.length;
-  const donationsThisYear = donorProfile?.donationsThisYear || 3;
+  const totalDonations = donorStats?.totalDonations ?? donorProfile?.totalDonations ?? 0;
+  const eligibleNext = eligibility
+    ? eligibility.eligibleFrom
+    : donorStats ? donorStats.eligibleNext : donorProfile?.eligibleNext;
 
   const isEligibleToDonate = () => {
-    if (!donorProfile?.eligibleNext) return true;
-    return new Date() >= new Date(donorProfile.eligibleNext);
+    if (eligibility) return eligibility.eligible;
+    if (!eligibleNext) return true;
+    return new Date() >= new Date(eligibleNext);
   };
 
   const getDaysUntilEligible = () => {
-    if (!donorProfile?.eligibleNext) return 0;
-    const eligibleDate = new Date(donorProfile.eligibleNext);
+    if (!eligibleNext) return 0;
+    const eligibleDate = new Date(eligibleNext);
     const today = new Date();
     const diffTime = eligibleDate.getTime() - today.getTime();
     return Math.ceil(diffTime / (1000 * 60 * 60 * 24));
   };
 
-  // Handle quiz completion
+  // Handle quiz completion (the quiz saves the attempt and returns the new deferrals)
   const handleQuizComplete = (result: QuizResult) => {
     setLastQuizResult(result);
     setQuizCompleted(true);
-    console.log('Quiz completed:', result);
 
-    // In production, save to backend via API
-    // fetch('/api/donors/quiz', { method: 'POST', body: JSON.stringify(result) });
+    if (result.eligibility) setEligibility(result.eligibility);
+    if (result.deferrals) setDeferrals(result.deferrals);
   };
 
   // Handle photo update
@@ -90,6 +183,12 @@ export const DonorDashboard: React.FC = () => {
         onComplete={handleQuizComplete}
       />
 
+      {/* Notification Drawer */}
+      <NotificationDrawer
+        isOpen={showNotifications}
+        onClose={() => setShowNotifications(false)}
+      />
+
       {/* Header */}
       <div className="bg-white shadow-sm border-b">
         <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-6">
@@ -112,6 +211,19 @@ export const DonorDashboard: React.FC = () => {
                 <p className="text-sm text-gray-600">Blood Group</p>
                 <p className="text-lg font-semibold text-red-600">{donorProfile?.bloodGroup || 'Not Set'}</p>
               </div>
+              {/* Notifications Button */}
+              <button
+                onClick={() => setShowNotifications(true)}
+                className="relative p-2 rounded-lg border border-gray-200 text-gray-700 hover:text-red-600 hover:bg-red-50 transition-colors"
+                aria-label="Notifications"
+              >
+                <Bell className="h-5 w-5" />
+                {unreadCount > 0 && (
+                  <span className="absolute -top-1.5 -right-1.5 min-w-[1.25rem] h-5 px-1 flex items-center justify-center text-xs font-bold text-white bg-red-500 rounded-full">
+                    {unreadCount > 99 ? '99+' : unreadCount}
+                  </span>
+                )}
+              </button>
               {/* Take Quiz Button */}
               <button
                 onClick={() => setShowQuiz(true)}
@@ -176,7 +288,7 @@ export const DonorDashboard: React.FC = () => {
           />
           <DashboardCard
             title="Next Eligible"
-            value={isEligibleToDonate() ? 'Now' : `${getDaysUntilEligible()} days`}
+            value={isEligibleToDonate() ? 'Now' : eligibility?.requiresReview ? 'Review' : `${getDaysUntilEligible()} days`}
             icon={Clock}
             color={isEligibleToDonate() ? 'green' : 'yellow'}
             description="Ready to donate"
@@ -215,9 +327,41 @@ export const DonorDashboard: React.FC = () => {
                 }`}>
                 {isEligibleToDonate()
                   ? 'You can donate blood today. Find a nearby drive or center.'
-                  : `You'll be eligible to donate again in ${getDaysUntilEligible()} days.`
+                  : eligibility?.requiresReview
+                    ? 'Please speak to blood bank staff before your next donation.'
+                    : `You'll be eligible to donate again in ${getDaysUntilEligible()} days.`
                 }
               </p>
+              {!isEligibleToDonate() && eligibility && eligibility.reasons.length > 0 && (
+                <ul className="mt-2 space-y-1 text-sm text-yellow-800">
+                  {eligibility.reasons.map((reason, idx) => (
+                    <li key={idx}>
+                      • {reason.message}
+                      {reason.until && ` (until ${format(new Date(reason.until), 'MMM d, yyyy')})`}
+                    </li>
+                  ))}
+                </ul>
+              )}
+              {deferrals.length > 0 && (
+                <div className="mt-4 pt-4 border-t border-gray-200">
+                  <p className="text-sm font-semibold text-gray-800 mb-2">Deferrals from your last eligibility quiz</p>
+                  <ul className="space-y-1 text-sm text-gray-700">
+                    {deferrals.map((deferral, idx) => {
+                      const lifted = deferral.until !== null && new Date(deferral.until) <= new Date();
+                      return (
+                        <li key={idx} className="flex items-center justify-between gap-4">
+                          <span className="capitalize">{deferral.code.replace('_', ' ')}</span>
+                          <span className={lifted ? 'text-green-700' : 'text-yellow-800'}>
+                            {deferral.until
+                              ? `${lifted ? 'Lifted' : 'Lifts'} on ${format(new Date(deferral.until), 'MMM d, yyyy')}`
+                              : 'Needs a staff review'}
+                          </span>
+                        </li>
+                      );
+                    })}
+                  </ul>
+                </div>
+              )}
             </div>
             {isEligibleToDonate() && (
               <button className="bg-green-600 hover:bg-green-700 text-white px-6 py-3 rounded-lg font-medium transition-colors">
@@ -227,6 +371,19 @@ export const DonorDashboard: React.FC = () => {
           </div>
         </motion.div>
 
+        {/* Emergency Appeals */}
+        <EmergencyAppeals />
+
+        {/* Donation Appointment */}
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ duration: 0.6, delay: 0.05 }}
+          className="mb-8"
+        >
+          <DonationAppointments />
+        </motion.div>
+
         <div className="grid grid-cols-1 lg:grid-cols-3 gap-8 mb-8">
           {/* Donation History */}
           <motion.div
@@ -239,6 +396,14 @@ export const DonorDashboard: React.FC = () => {
               <h3 className="text-lg font-semibold text-gray-900">Donation History</h3>
             </div>
             <div className="divide-y divide-gray-200">
+              {historyLoading ? (
+                <p className="p-6 text-center text-gray-500">Loading donations...</p>
+              ) : donationHistory.length === 0 && (
+                <div className="p-6 text-center text-gray-500">
+                  <Heart className="h-8 w-8 mx-auto mb-2 text-gray-300" />
+                  <p>No donations recorded yet. Book an appointment to make your first one.</p>
+                </div>
+              )}
               {donationHistory.map((donation) => (
                 <div key={donation.id} className="p-6">
                   <div className="flex items-center justify-between">
@@ -255,7 +420,7 @@ export const DonorDashboard: React.FC = () => {
                       <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-green-100 text-green-800">
                         Completed
                       </span>
-                      <p className="text-sm text-gray-600 mt-1">{donation.units} unit</p>
+                      <p className="text-sm text-gray-600 mt-1">{donation.units} unit{donation.units !== 1 ? 's' : ''}</p>
                     </div>
                   </div>
                 </div>
@@ -270,10 +435,19 @@ export const DonorDashboard: React.FC = () => {
             transition={{ duration: 0.6, delay: 0.2 }}
           >
             <h3 className="text-lg font-semibold text-gray-900 mb-4">Your Achievements</h3>
-            <DonorAchievements
-              donationsThisYear={donationsThisYear}
-              totalDonations={totalDonations}
-            />
+            {donorStats ? (
+              <DonorAchievements stats={donorStats} />
+            ) : (
+              <div className="bg-white p-6 rounded-2xl border border-gray-200 text-sm text-gray-500">
+                {historyLoading ? 'Loading your achievements...' : 'Your achievements could not be loaded.'}
+              </div>
+            )}
+            <div className="mt-6">
+              <NotificationPreferences />
+            </div>
+            <div className="mt-6">
+              <ActiveSessions />
+            </div>
           </motion.div>
         </div>
 
@@ -284,28 +458,7 @@ export const DonorDashboard: React.FC = () => {
           transition={{ duration: 0.6, delay: 0.3 }}
           className="bg-white rounded-xl shadow-md"
         >
-          <div className="p-6 border-b border-gray-200">
-            <div className="flex items-center justify-between">
-              <h3 className="text-lg font-semibold text-gray-900">Upcoming Blood Drives</h3>
-              <button className="text-red-600 hover:text-red-700 text-sm font-medium">View All</button>
-            </div>
-          </div>
-          <div className="grid grid-cols-1 md:grid-cols-3 gap-6 p-6">
-            {upcomingDrives.map((drive) => (
-              <div key={drive.id} className="border border-gray-200 rounded-lg p-4 hover:shadow-md transition-shadow">
-                <div className="flex items-center justify-between mb-3">
-                  <Calendar className="h-5 w-5 text-red-600" />
-                  <span className="text-sm text-gray-600">{drive.distance}</span>
-                </div>
-                <h4 className="font-medium text-gray-900 mb-2">{drive.name}</h4>
-                <p className="text-sm text-gray-600 mb-1">📍 {drive.location}</p>
-                <p className="text-sm text-gray-600 mb-3">📅 {format(new Date(drive.date), 'MMM d, yyyy')}</p>
-                <button className="w-full bg-red-600 hover:bg-red-700 text-white py-2 px-4 rounded-lg text-sm font-medium transition-colors">
-                  Register
-                </button>
-              </div>
-            ))}
-          </div>
+          <NearbyDrives />
         </motion.div>
       </div>
     </div>
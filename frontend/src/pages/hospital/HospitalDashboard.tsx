@@ -2,13 +2,28 @@
  * HospitalDashboard - Hospital Staff Dashboard
  * 
  * Features:
- * 1. Blood Inventory Management Table
- * 2. Auto Reminder System for Donors
+ * 1. Incoming Blood Requests (routed by the matching service, with requisition review)
+ * 2. Blood Inventory Management Table (per component)
+ * 3. Expiring Soon Alerts
+ * 4. Blood Unit Tracking (individual bags)
+ * 5. Donation Appointments (daily list, check-in, recording donations, slot publishing)
+ * 6. Donation Drives (camps with RSVPs, collected units against a target)
+ * 7. Auto Reminder System for Donors
+ *
+ * Stock, request and appointment changes are pushed live from the server (useRealtime).
  */
 
 import React, { useState, useEffect } from 'react';
 import { useAuth } from '../../contexts/AuthContext';
+import { useRealtime } from '../../hooks/useRealtime';
+import type { Appointment, BloodComponent, BloodGroup, BloodUnit, DonationSlot, RequisitionStatus } from '../../types';
+import { BLOOD_COMPONENTS, COMPONENT_TYPES, DEFAULT_COMPONENT, getComponentLabel } from '../../lib/bloodComponents';
+import { APPOINTMENT_STATUS_STYLES, mapApiAppointment, mapApiSlot } from '../../lib/appointments';
 import { ProfilePhotoUpload } from '../../components/common/ProfilePhotoUpload';
+import { ActiveSessions } from '../../components/common/ActiveSessions';
+import { DonationDrivesManager } from '../../components/hospital/DonationDrivesManager';
+import { RequisitionDocuments } from '../../components/common/RequisitionDocuments';
+import { mapApiDocument } from '../../lib/requestDocuments';
 import { motion, AnimatePresence } from 'framer-motion';
 import {
   Droplet,
@@ -19,12 +34,18 @@ import {
   Send,
   AlertTriangle,
   CheckCircle,
+  Hourglass,
+  Inbox,
   Clock,
   Users,
   Package,
-  X
+  Tag,
+  X,
+  CalendarCheck,
+  UserCheck,
+  Trash2
 } from 'lucide-react';
-import { format, formatDistanceToNow } from 'date-fns';
+import { format, formatDistanceToNow, differenceInCalendarDays } from 'date-fns';
 
 // API base URL
 const API_BASE = 'http://localhost:3000';
@@ -41,16 +62,89 @@ const BLOOD_GROUP_COLORS: { [key: string]: string } = {
   'O-': 'bg-green-200 text-green-900'
 };
 
+// Hospital the staff account is linked to
+interface LinkedHospital {
+  id: string;
+  name: string;
+  city: string;
+  verified: boolean;
+  staff_count: number;
+}
+
 // Inventory item interface
 interface InventoryItem {
   id: string;
   blood_group: string;
+  component: BloodComponent;
+  component_label: string;
   units_available: number;
   last_updated: string;
   is_low_stock: boolean;
   min_threshold: number;
 }
 
+// Unit status colors
+const UNIT_STATUS_COLORS: Record<BloodUnit['status'], string> = {
+  available: 'bg-green-100 text-green-800',
+  reserved: 'bg-yellow-100 text-yellow-800',
+  expired: 'bg-gray-200 text-gray-700',
+  used: 'bg-blue-100 text-blue-800'
+};
+
+// Map a unit from the API (snake_case) to the shared BloodUnit type
+const mapApiUnit = (unit: any): BloodUnit => ({
+  id: unit.id,
+  bloodGroup: unit.blood_group as BloodGroup,
+  component: unit.component || DEFAULT_COMPONENT,
+  batchId: unit.batch_id,
+  donorId: unit.donor_id || '',
+  donorName: unit.donor_name || '',
+  collectionDate: unit.collection_date,
+  expiryDate: unit.expiry_date,
+  status: unit.status,
+  location: unit.storage_location || '',
+  volume: unit.volume
+});
+
+// Routed blood request interface
+interface IncomingRequest {
+  id: string;
+  blood_group: string;
+  component: BloodComponent;
+  component_label: string;
+  units_requested: number;
+  units_remaining: number;
+  urgency: 'low' | 'medium' | 'high' | 'critical';
+  reason: string;
+  location: string | null;
+  requester_name: string;
+  contact_phone: string | null;
+  status: string;
+  routing_status: 'pending' | 'accepted' | 'partial' | 'declined' | null;
+  available_units: number | null;
+  requisition_required: boolean;
+  requisition_status: RequisitionStatus;
+  requisition_note: string | null;
+  documents: any[];
+  allowed_transitions: string[];
+  created_at: string;
+}
+
+// Urgency badge colors
+const URGENCY_COLORS: Record<IncomingRequest['urgency'], string> = {
+  critical: 'bg-red-600 text-white',
+  high: 'bg-orange-100 text-orange-800',
+  medium: 'bg-yellow-100 text-yellow-800',
+  low: 'bg-gray-100 text-gray-700'
+};
+
+// Next steps a serving hospital can take, in lifecycle order
+const SERVING_ACTIONS: { status: string; label: string }[] = [
+  { status: 'reserved', label: 'Reserve Units' },
+  { status: 'dispatched', label: 'Mark Dispatched' },
+  { status: 'fulfilled', label: 'Mark Fulfilled' }
+];
+
 // Donor interface
 interface EligibleDonor {
   id: string;
@@ -63,14 +157,22 @@ interface EligibleDonor {
   reminder_sent: boolean;
 }
 
+// Extra details captured when receiving or issuing units
+interface InventoryActionDetails {
+  donor_email?: string;
+  collection_date?: string;
+  issued_to?: string;
+}
+
 // Modal for inventory actions
 interface InventoryModalProps {
   isOpen: boolean;
   onClose: () => void;
   bloodGroup: string;
+  component: BloodComponent;
   currentUnits: number;
   action: 'add' | 'update' | 'reduce';
-  onSubmit: (units: number) => void;
+  onSubmit: (units: number, details: InventoryActionDetails) => void;
   isLoading: boolean;
 }
 
@@ -78,19 +180,23 @@ const InventoryModal: React.FC<InventoryModalProps> = ({
   isOpen,
   onClose,
   bloodGroup,
+  component,
   currentUnits,
   action,
   onSubmit,
   isLoading
 }) => {
   const [units, setUnits] = useState<string>('');
+  const [donorEmail, setDonorEmail] = useState('');
+  const [collectionDate, setCollectionDate] = useState('');
+  const [issuedTo, setIssuedTo] = useState('');
 
   if (!isOpen) return null;
 
   const actionConfig = {
-    add: { title: 'Add Stock', color: 'green', label: 'Units to Add' },
+    add: { title: 'Receive Units', color: 'green', label: 'Bags Received' },
     update: { title: 'Update Stock', color: 'blue', label: 'New Total Units' },
-    reduce: { title: 'Reduce Stock', color: 'red', label: 'Units to Reduce' }
+    reduce: { title: 'Issue Units', color: 'red', label: 'Bags to Issue' }
   };
 
   const config = actionConfig[action];
@@ -98,8 +204,16 @@ const InventoryModal: React.FC<InventoryModalProps> = ({
   const handleSubmit = () => {
     const numUnits = parseInt(units);
     if (!isNaN(numUnits) && numUnits > 0) {
-      onSubmit(numUnits);
+      const details: InventoryActionDetails = action === 'add'
+        ? { donor_email: donorEmail || undefined, collection_date: collectionDate || undefined }
+        : action === 'reduce'
+          ? { issued_to: issuedTo || undefined }
+          : {};
+      onSubmit(numUnits, details);
       setUnits('');
+      setDonorEmail('');
+      setCollectionDate('');
+      setIssuedTo('');
     }
   };
 
@@ -128,6 +242,7 @@ const InventoryModal: React.FC<InventoryModalProps> = ({
             <span className={`inline-block px-3 py-1 rounded-full text-sm font-medium ${BLOOD_GROUP_COLORS[bloodGroup]}`}>
               {bloodGroup}
             </span>
+            <span className="ml-2 text-sm font-medium text-gray-700">{getComponentLabel(component)}</span>
             <p className="text-gray-600 mt-2">Current stock: {currentUnits} units</p>
           </div>
 
@@ -146,6 +261,53 @@ const InventoryModal: React.FC<InventoryModalProps> = ({
             />
           </div>
 
+          {action === 'add' && (
+            <div className="mb-4 space-y-3">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Donor Email <span className="text-gray-400">(optional)</span>
+                </label>
+                <input
+                  type="email"
+                  value={donorEmail}
+                  onChange={(e) => setDonorEmail(e.target.value)}
+                  className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-red-500 focus:border-red-500"
+                  placeholder="donor@example.com"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Collection Date <span className="text-gray-400">(defaults to today)</span>
+                </label>
+                <input
+                  type="date"
+                  value={collectionDate}
+                  onChange={(e) => setCollectionDate(e.target.value)}
+                  className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-red-500 focus:border-red-500"
+                />
+                <p className="text-xs text-gray-500 mt-1">
+                  {getComponentLabel(component)} expires {BLOOD_COMPONENTS[component].shelfLifeDays} days after collection.
+                </p>
+              </div>
+            </div>
+          )}
+
+          {action === 'reduce' && (
+            <div className="mb-4">
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Issued To <span className="text-gray-400">(patient / ward)</span>
+              </label>
+              <input
+                type="text"
+                value={issuedTo}
+                onChange={(e) => setIssuedTo(e.target.value)}
+                className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-red-500 focus:border-red-500"
+                placeholder="e.g. ICU Bed 4"
+              />
+              <p className="text-xs text-gray-500 mt-1">Bags closest to expiry are issued first.</p>
+            </div>
+          )}
+
           <div className="flex space-x-3">
             <button
               onClick={onClose}
@@ -175,9 +337,11 @@ export const HospitalDashboard: React.FC = () => {
   const { user, token, updateUser } = useAuth();
 
   // Inventory state
+  const [hospital, setHospital] = useState<LinkedHospital | null>(null);
   const [inventory, setInventory] = useState<InventoryItem[]>([]);
   const [inventoryLoading, setInventoryLoading] = useState(false);
   const [inventoryError, setInventoryError] = useState('');
+  const [selectedComponent, setSelectedComponent] = useState<BloodComponent>(DEFAULT_COMPONENT);
 
   // Modal state
   const [modalOpen, setModalOpen] = useState(false);
@@ -185,6 +349,34 @@ export const HospitalDashboard: React.FC = () => {
   const [selectedItem, setSelectedItem] = useState<InventoryItem | null>(null);
   const [actionLoading, setActionLoading] = useState(false);
 
+  // Blood units state
+  const [units, setUnits] = useState<BloodUnit[]>([]);
+  const [unitsLoading, setUnitsLoading] = useState(false);
+  const [unitStatusFilter, setUnitStatusFilter] = useState<'' | BloodUnit['status']>('available');
+
+  // Expiring units state
+  const [expiringUnits, setExpiringUnits] = useState<BloodUnit[]>([]);
+  const [expiringDays, setExpiringDays] = useState(7);
+
+  // Incoming requests state
+  const [incomingRequests, setIncomingRequests] = useState<IncomingRequest[]>([]);
+  const [servingRequests, setServingRequests] = useState<IncomingRequest[]>([]);
+  const [requestActionId, setRequestActionId] = useState<string | null>(null);
+  const [decliningId, setDecliningId] = useState<string | null>(null);
+  const [declineReason, setDeclineReason] = useState('');
+  const [partialId, setPartialId] = useState<string | null>(null);
+  const [partialUnits, setPartialUnits] = useState('');
+
+  // Donation appointments state
+  const [appointmentDate, setAppointmentDate] = useState(format(new Date(), 'yyyy-MM-dd'));
+  const [appointments, setAppointments] = useState<Appointment[]>([]);
+  const [appointmentsLoading, setAppointmentsLoading] = useState(false);
+  const [checkingInId, setCheckingInId] = useState<string | null>(null);
+  const [daySlots, setDaySlots] = useState<DonationSlot[]>([]);
+  const [slotForm, setSlotForm] = useState({ start_time: '09:00', end_time: '13:00', duration_minutes: '30', capacity: '4' });
+  const [slotMessage, setSlotMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+  const [publishingSlots, setPublishingSlots] = useState(false);
+
   // Donor reminders state
   const [donors, setDonors] = useState<EligibleDonor[]>([]);
   const [donorsLoading, setDonorsLoading] = useState(false);
@@ -196,19 +388,71 @@ export const HospitalDashboard: React.FC = () => {
     updateUser({ profilePicture: newUrl });
   };
 
-  // Fetch inventory on mount
+  // Fetch the linked hospital, donors and routed requests on mount
   useEffect(() => {
-    fetchInventory();
+    fetchHospitalProfile();
     fetchEligibleDonors();
+    fetchRequests();
   }, []);
 
+  // Live updates: stock changes (incl. colleagues and the expiry sweep) and routed requests
+  const { connected } = useRealtime({
+    inventory: (event) => {
+      if (event.rows.some(row => row.component === selectedComponent)) fetchInventory();
+      fetchUnits();
+      fetchExpiringUnits();
+    },
+    request: () => fetchRequests(),
+    appointment: (event) => {
+      if (format(new Date(event.donationDate), 'yyyy-MM-dd') === appointmentDate) fetchAppointments();
+      fetchDaySlots();
+    }
+  });
+
+  // Refetch inventory when the component tab changes
+  useEffect(() => {
+    fetchInventory();
+  }, [selectedComponent]);
+
+  // Refetch expiring units when the look-ahead window changes
+  useEffect(() => {
+    fetchExpiringUnits();
+  }, [expiringDays]);
+
+  // Refetch units when the status filter changes
+  useEffect(() => {
+    fetchUnits();
+  }, [unitStatusFilter]);
+
+  // Refetch appointments and slots when the day changes
+  useEffect(() => {
+    fetchAppointments();
+    fetchDaySlots();
+  }, [appointmentDate]);
+
+  // Fetch the hospital this account is linked to
+  const fetchHospitalProfile = async () => {
+    try {
+      const response = await fetch(`${API_BASE}/api/hospital/profile`, {
+        headers: { 'Authorization': `Bearer ${token}` }
+      });
+      const data = await response.json();
+
+      if (data.success) {
+        setHospital(data.data.hospital);
+      }
+    } catch (error) {
+      console.error('Error fetching hospital profile:', error);
+    }
+  };
+
   // Fetch blood inventory
   const fetchInventory = async () => {
     setInventoryLoading(true);
     setInventoryError('');
 
     try {
-      const response = await fetch(`${API_BASE}/api/hospital/inventory`, {
+      const response = await fetch(`${API_BASE}/api/hospital/inventory?component=${selectedComponent}`, {
         headers: { 'Authorization': `Bearer ${token}` }
       });
       const data = await response.json();
@@ -225,6 +469,157 @@ export const HospitalDashboard: React.FC = () => {
     }
   };
 
+  // Fetch individual blood units
+  const fetchUnits = async () => {
+    setUnitsLoading(true);
+
+    try {
+      const query = unitStatusFilter ? `?status=${unitStatusFilter}` : '';
+      const response = await fetch(`${API_BASE}/api/hospital/units${query}`, {
+        headers: { 'Authorization': `Bearer ${token}` }
+      });
+      const data = await response.json();
+
+      if (data.success) {
+        setUnits(data.data.units.map(mapApiUnit));
+      }
+    } catch (error) {
+      console.error('Error fetching units:', error);
+    } finally {
+      setUnitsLoading(false);
+    }
+  };
+
+  // Fetch units expiring within the selected window
+  const fetchExpiringUnits = async () => {
+    try {
+      const response = await fetch(`${API_BASE}/api/hospital/inventory/expiring?days=${expiringDays}`, {
+        headers: { 'Authorization': `Bearer ${token}` }
+      });
+      const data = await response.json();
+
+      if (data.success) {
+        setExpiringUnits(data.data.units.map(mapApiUnit));
+      }
+    } catch (error) {
+      console.error('Error fetching expiring units:', error);
+    }
+  };
+
+  // Issue a single unit, or reserve / release it
+  const handleUnitAction = async (unit: BloodUnit, action: 'issue' | 'reserved' | 'available') => {
+    try {
+      const response = action === 'issue'
+        ? await fetch(`${API_BASE}/api/hospital/units/issue`, {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            'Authorization': `Bearer ${token}`
+          },
+          body: JSON.stringify({ blood_group: unit.bloodGroup, component: unit.component, unit_ids: [unit.id] })
+        })
+        : await fetch(`${API_BASE}/api/hospital/units/${unit.id}/status`, {
+          method: 'PUT',
+          headers: {
+            'Content-Type': 'application/json',
+            'Authorization': `Bearer ${token}`
+          },
+          body: JSON.stringify({ status: action })
+        });
+
+      const data = await response.json();
+
+      if (data.success) {
+        fetchUnits();
+        fetchExpiringUnits();
+        fetchInventory();
+      } else {
+        alert(data.message || 'Action failed');
+      }
+    } catch (error) {
+      alert('Error performing action');
+    }
+  };
+
+  // Fetch requests routed to this hospital
+  const fetchRequests = async () => {
+    try {
+      const response = await fetch(`${API_BASE}/api/hospital/requests`, {
+        headers: { 'Authorization': `Bearer ${token}` }
+      });
+      const data = await response.json();
+
+      if (data.success) {
+        setIncomingRequests(data.data.incoming);
+        setServingRequests(data.data.serving);
+      }
+    } catch (error) {
+      console.error('Error fetching requests:', error);
+    }
+  };
+
+  // Accept, decline or partially supply a routed request
+  const handleRequestAction = async (
+    request: IncomingRequest,
+    action: 'accept' | 'decline' | 'partial',
+    body: Record<string, unknown> = {}
+  ) => {
+    setRequestActionId(request.id);
+
+    try {
+      const response = await fetch(`${API_BASE}/api/hospital/requests/${request.id}/${action}`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${token}`
+        },
+        body: JSON.stringify(body)
+      });
+      const data = await response.json();
+
+      if (data.success) {
+        setDecliningId(null);
+        setDeclineReason('');
+        setPartialId(null);
+        setPartialUnits('');
+        fetchRequests();
+      } else {
+        alert(data.message || 'Action failed');
+      }
+    } catch (error) {
+      alert('Error performing action');
+    } finally {
+      setRequestActionId(null);
+    }
+  };
+
+  // Move a request being served to its next status
+  const handleRequestStatus = async (request: IncomingRequest, status: string) => {
+    setRequestActionId(request.id);
+
+    try {
+      const response = await fetch(`${API_BASE}/api/requests/${request.id}`, {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${token}`
+        },
+        body: JSON.stringify({ status })
+      });
+      const data = await response.json();
+
+      if (data.success) {
+        fetchRequests();
+      } else {
+        alert(data.message || 'Action failed');
+      }
+    } catch (error) {
+      alert('Error performing action');
+    } finally {
+      setRequestActionId(null);
+    }
+  };
+
   // Fetch eligible donors
   const fetchEligibleDonors = async () => {
     setDonorsLoading(true);
@@ -245,6 +640,152 @@ export const HospitalDashboard: React.FC = () => {
     }
   };
 
+  // Fetch the appointments booked for the selected day
+  const fetchAppointments = async () => {
+    setAppointmentsLoading(true);
+
+    try {
+      const response = await fetch(`${API_BASE}/api/hospital/appointments?date=${appointmentDate}`, {
+        headers: { 'Authorization': `Bearer ${token}` }
+      });
+      const data = await response.json();
+
+      if (data.success) {
+        setAppointments(data.data.appointments.map(mapApiAppointment));
+      }
+    } catch (error) {
+      console.error('Error fetching appointments:', error);
+    } finally {
+      setAppointmentsLoading(false);
+    }
+  };
+
+  // Fetch the slots published for the selected day
+  const fetchDaySlots = async () => {
+    try {
+      const response = await fetch(`${API_BASE}/api/hospital/slots?from=${appointmentDate}&days=1`, {
+        headers: { 'Authorization': `Bearer ${token}` }
+      });
+      const data = await response.json();
+
+      if (data.success) {
+        setDaySlots(data.data.slots.map(mapApiSlot));
+      }
+    } catch (error) {
+      console.error('Error fetching slots:', error);
+    }
+  };
+
+  // Check in a donor who has arrived
+  const checkInDonor = async (appointment: Appointment) => {
+    setCheckingInId(appointment.id);
+
+    try {
+      const response = await fetch(`${API_BASE}/api/hospital/appointments/${appointment.id}/check-in`, {
+        method: 'POST',
+        headers: { 'Authorization': `Bearer ${token}` }
+      });
+      const data = await response.json();
+
+      if (data.success) {
+        const updated = mapApiAppointment(data.data.appointment);
+        setAppointments(prev => prev.map(a => (a.id === updated.id ? updated : a)));
+      } else {
+        alert(data.message || 'Could not check in donor');
+      }
+    } catch (error) {
+      alert('Error checking in donor');
+    } finally {
+      setCheckingInId(null);
+    }
+  };
+
+  // Record the donation of a checked-in donor (one unit of whole blood)
+  const recordDonation = async (appointment: Appointment) => {
+    if (!window.confirm(`Record 1 unit of ${appointment.bloodGroup} whole blood from ${appointment.donorName}?`)) return;
+
+    setCheckingInId(appointment.id);
+
+    try {
+      const response = await fetch(`${API_BASE}/api/hospital/donations`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${token}`
+        },
+        body: JSON.stringify({ appointment_id: appointment.id, units: 1, component: DEFAULT_COMPONENT })
+      });
+      const data = await response.json();
+
+      if (data.success) {
+        const updated = mapApiAppointment(data.data.donation);
+        setAppointments(prev => prev.map(a => (a.id === updated.id ? { ...a, status: updated.status } : a)));
+        fetchInventory();
+        fetchUnits();
+      } else {
+        alert(data.message || 'Could not record donation');
+      }
+    } catch (error) {
+      alert('Error recording donation');
+    } finally {
+      setCheckingInId(null);
+    }
+  };
+
+  // Publish slots for the selected day
+  const publishSlots = async () => {
+    setPublishingSlots(true);
+    setSlotMessage(null);
+
+    try {
+      const response = await fetch(`${API_BASE}/api/hospital/slots`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${token}`
+        },
+        body: JSON.stringify({
+          date: appointmentDate,
+          start_time: slotForm.start_time,
+          end_time: slotForm.end_time,
+          duration_minutes: parseInt(slotForm.duration_minutes),
+          capacity: parseInt(slotForm.capacity)
+        })
+      });
+      const data = await response.json();
+
+      if (data.success) {
+        setSlotMessage({ type: 'success', text: data.message });
+        fetchDaySlots();
+      } else {
+        setSlotMessage({ type: 'error', text: data.message || 'Could not publish slots' });
+      }
+    } catch (error) {
+      setSlotMessage({ type: 'error', text: 'Could not publish slots' });
+    } finally {
+      setPublishingSlots(false);
+    }
+  };
+
+  // Remove a slot nobody has booked
+  const deleteSlot = async (slot: DonationSlot) => {
+    try {
+      const response = await fetch(`${API_BASE}/api/hospital/slots/${slot.id}`, {
+        method: 'DELETE',
+        headers: { 'Authorization': `Bearer ${token}` }
+      });
+      const data = await response.json();
+
+      if (data.success) {
+        setDaySlots(prev => prev.filter(s => s.id !== slot.id));
+      } else {
+        alert(data.message || 'Could not remove slot');
+      }
+    } catch (error) {
+      alert('Error removing slot');
+    }
+  };
+
   // Open modal for inventory action
   const openModal = (item: InventoryItem, action: 'add' | 'update' | 'reduce') => {
     setSelectedItem(item);
@@ -253,7 +794,7 @@ export const HospitalDashboard: React.FC = () => {
   };
 
   // Handle inventory action
-  const handleInventoryAction = async (units: number) => {
+  const handleInventoryAction = async (units: number, details: InventoryActionDetails) => {
     if (!selectedItem) return;
 
     setActionLoading(true);
@@ -268,7 +809,9 @@ export const HospitalDashboard: React.FC = () => {
         },
         body: JSON.stringify({
           blood_group: selectedItem.blood_group,
-          units: units
+          component: selectedItem.component,
+          units: units,
+          ...details
         })
       });
 
@@ -277,6 +820,8 @@ export const HospitalDashboard: React.FC = () => {
       if (data.success) {
         setModalOpen(false);
         fetchInventory(); // Refresh data
+        fetchUnits();
+        fetchExpiringUnits();
       } else {
         alert(data.message || 'Action failed');
       }
@@ -325,19 +870,237 @@ export const HospitalDashboard: React.FC = () => {
               <div>
                 <h1 className="text-2xl font-bold text-gray-900">Hospital Dashboard</h1>
                 <p className="text-gray-600">
-                  Welcome, {(user?.profile as any)?.hospitalName || user?.name}
+                  Welcome, {hospital?.name || (user?.profile as any)?.hospitalName || user?.name}
                 </p>
+                {hospital && (
+                  <p className="flex items-center gap-2 text-xs text-gray-500 mt-1">
+                    {hospital.verified ? (
+                      <span className="inline-flex items-center gap-1 text-green-700">
+                        <CheckCircle className="h-3.5 w-3.5" /> Verified hospital
+                      </span>
+                    ) : (
+                      <span className="inline-flex items-center gap-1 text-yellow-700">
+                        <Hourglass className="h-3.5 w-3.5" /> Awaiting verification
+                      </span>
+                    )}
+                    <span>• {hospital.staff_count} staff account{hospital.staff_count !== 1 ? 's' : ''}</span>
+                  </p>
+                )}
               </div>
             </div>
             <div className="flex items-center space-x-2">
               <Package className="h-5 w-5 text-red-600" />
               <span className="text-sm font-medium">Blood Bank Management</span>
+              <span
+                className={`ml-2 inline-flex items-center gap-1 text-xs ${connected ? 'text-green-700' : 'text-gray-400'}`}
+                title={connected ? 'Receiving live updates' : 'Live updates unavailable; use refresh'}
+              >
+                <span className={`h-2 w-2 rounded-full ${connected ? 'bg-green-500' : 'bg-gray-300'}`} />
+                {connected ? 'Live' : 'Offline'}
+              </span>
             </div>
           </div>
         </div>
       </div>
 
       <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        {/* INCOMING REQUESTS */}
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          className="bg-white rounded-xl shadow-md mb-8"
+        >
+          <div className="p-6 border-b border-gray-200">
+            <div className="flex items-center justify-between">
+              <div className="flex items-center space-x-3">
+                <Inbox className="h-6 w-6 text-red-600" />
+                <div>
+                  <h2 className="text-xl font-semibold text-gray-900">
+                    Incoming Requests {incomingRequests.length > 0 && `(${incomingRequests.length})`}
+                  </h2>
+                  <p className="text-sm text-gray-600">Nearby patients whose blood group your stock can cover</p>
+                </div>
+              </div>
+              <button
+                onClick={fetchRequests}
+                className="flex items-center space-x-2 px-4 py-2 text-gray-600 hover:bg-gray-100 rounded-lg"
+              >
+                <RefreshCw className="h-4 w-4" />
+                <span>Refresh</span>
+              </button>
+            </div>
+          </div>
+
+          <div className="divide-y divide-gray-200">
+            {incomingRequests.length === 0 && servingRequests.length === 0 && (
+              <p className="px-6 py-8 text-center text-gray-500">No requests routed to your hospital right now.</p>
+            )}
+
+            {[...servingRequests, ...incomingRequests].map((request) => {
+              const isServing = request.routing_status === 'accepted';
+              const isBusy = requestActionId === request.id;
+              const awaitingRequisition = request.requisition_required && request.requisition_status !== 'verified';
+
+              return (
+                <div key={request.id} className={`px-6 py-4 ${isServing ? 'bg-blue-50' : ''}`}>
+                  <div className="flex flex-wrap items-start justify-between gap-4">
+                    <div>
+                      <div className="flex items-center space-x-2">
+                        <span className={`px-3 py-1 rounded-full text-sm font-bold ${BLOOD_GROUP_COLORS[request.blood_group]}`}>
+                          {request.blood_group}
+                        </span>
+                        <span className="font-semibold text-gray-900">
+                          {request.units_remaining} × {request.component_label}
+                        </span>
+                        <span className={`px-2 py-0.5 rounded-full text-xs font-medium capitalize ${URGENCY_COLORS[request.urgency]}`}>
+                          {request.urgency}
+                        </span>
+                        {isServing && (
+                          <span className="px-2 py-0.5 rounded-full text-xs font-medium bg-blue-100 text-blue-800 capitalize">
+                            {request.status === 'approved' ? 'Accepted' : request.status}
+                          </span>
+                        )}
+                      </div>
+                      <p className="text-sm text-gray-700 mt-2">{request.reason}</p>
+                      <p className="text-xs text-gray-500 mt-1">
+                        {request.requester_name}
+                        {request.location && ` • ${request.location}`}
+                        {request.contact_phone && ` • ${request.contact_phone}`}
+                        {' • '}{formatDistanceToNow(new Date(request.created_at), { addSuffix: true })}
+                      </p>
+                      {request.units_remaining < request.units_requested && (
+                        <p className="text-xs text-gray-500">
+                          {request.units_requested - request.units_remaining} of {request.units_requested} units already supplied
+                        </p>
+                      )}
+                      {!isServing && request.available_units !== null && (
+                        <p className={`text-xs mt-1 ${request.available_units >= request.units_remaining ? 'text-green-700' : 'text-amber-700'}`}>
+                          You hold {request.available_units} compatible units
+                        </p>
+                      )}
+                    </div>
+
+                    <div className="flex flex-wrap items-center gap-2">
+                      {isServing ? (
+                        <>
+                          {SERVING_ACTIONS.filter(a => request.allowed_transitions.includes(a.status)).map((a) => (
+                            <button
+                              key={a.status}
+                              onClick={() => handleRequestStatus(request, a.status)}
+                              disabled={isBusy}
+                              className="px-3 py-1.5 bg-blue-600 hover:bg-blue-700 text-white rounded-lg text-sm font-medium disabled:opacity-50"
+                            >
+                              {a.label}
+                            </button>
+                          ))}
+                          {request.status === 'approved' && request.units_remaining > 1 && (
+                            <button
+                              onClick={() => { setPartialId(request.id); setPartialUnits(''); }}
+                              disabled={isBusy}
+                              className="px-3 py-1.5 bg-amber-100 hover:bg-amber-200 text-amber-800 rounded-lg text-sm font-medium disabled:opacity-50"
+                            >
+                              Partial Supply
+                            </button>
+                          )}
+                          {request.allowed_transitions.includes('pending') && (
+                            <button
+                              onClick={() => handleRequestStatus(request, 'pending')}
+                              disabled={isBusy}
+                              className="px-3 py-1.5 border border-gray-300 text-gray-700 hover:bg-gray-50 rounded-lg text-sm font-medium disabled:opacity-50"
+                            >
+                              Hand Back
+                            </button>
+                          )}
+                        </>
+                      ) : (
+                        <>
+                          <button
+                            onClick={() => handleRequestAction(request, 'accept')}
+                            disabled={isBusy || awaitingRequisition}
+                            title={awaitingRequisition ? 'Verify the requisition before accepting' : undefined}
+                            className="px-3 py-1.5 bg-green-600 hover:bg-green-700 text-white rounded-lg text-sm font-medium disabled:opacity-50"
+                          >
+                            <CheckCircle className="h-4 w-4 inline mr-1" />Accept
+                          </button>
+                          <button
+                            onClick={() => { setDecliningId(request.id); setDeclineReason(''); }}
+                            disabled={isBusy}
+                            className="px-3 py-1.5 bg-red-100 hover:bg-red-200 text-red-700 rounded-lg text-sm font-medium disabled:opacity-50"
+                          >
+                            <X className="h-4 w-4 inline mr-1" />Decline
+                          </button>
+                        </>
+                      )}
+                    </div>
+                  </div>
+
+                  {(request.requisition_required || request.documents.length > 0) && (
+                    <div className="mt-3">
+                      <RequisitionDocuments
+                        requestId={request.id}
+                        documents={request.documents.map(mapApiDocument)}
+                        status={request.requisition_status}
+                        note={request.requisition_note || undefined}
+                        mode="reviewer"
+                        onChange={fetchRequests}
+                      />
+                    </div>
+                  )}
+
+                  {decliningId === request.id && (
+                    <div className="mt-3 flex items-center gap-2">
+                      <input
+                        type="text"
+                        value={declineReason}
+                        onChange={(e) => setDeclineReason(e.target.value)}
+                        className="flex-1 px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-red-500 focus:border-red-500"
+                        placeholder="Reason for declining (e.g. no compatible stock)"
+                        autoFocus
+                      />
+                      <button
+                        onClick={() => handleRequestAction(request, 'decline', { reason: declineReason })}
+                        disabled={!declineReason.trim() || isBusy}
+                        className="px-3 py-2 bg-red-600 hover:bg-red-700 text-white rounded-lg text-sm font-medium disabled:opacity-50"
+                      >
+                        Decline
+                      </button>
+                      <button onClick={() => setDecliningId(null)} className="px-3 py-2 text-gray-600 hover:bg-gray-100 rounded-lg text-sm">
+                        Cancel
+                      </button>
+                    </div>
+                  )}
+
+                  {partialId === request.id && (
+                    <div className="mt-3 flex items-center gap-2">
+                      <input
+                        type="number"
+                        min="1"
+                        max={request.units_remaining - 1}
+                        value={partialUnits}
+                        onChange={(e) => setPartialUnits(e.target.value)}
+                        className="w-40 px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-red-500 focus:border-red-500"
+                        placeholder="Units supplied"
+                        autoFocus
+                      />
+                      <span className="text-xs text-gray-500">The remaining units are sent to other hospitals.</span>
+                      <button
+                        onClick={() => handleRequestAction(request, 'partial', { units: parseInt(partialUnits) })}
+                        disabled={!partialUnits || isBusy}
+                        className="px-3 py-2 bg-amber-600 hover:bg-amber-700 text-white rounded-lg text-sm font-medium disabled:opacity-50"
+                      >
+                        Record Supply
+                      </button>
+                      <button onClick={() => setPartialId(null)} className="px-3 py-2 text-gray-600 hover:bg-gray-100 rounded-lg text-sm">
+                        Cancel
+                      </button>
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        </motion.div>
+
         {/* BLOOD INVENTORY MANAGEMENT */}
         <motion.div
           initial={{ opacity: 0, y: 20 }}
@@ -363,6 +1126,22 @@ export const HospitalDashboard: React.FC = () => {
             </div>
           </div>
 
+          {/* Component Tabs */}
+          <div className="px-6 pt-4 flex flex-wrap gap-2">
+            {COMPONENT_TYPES.map((component) => (
+              <button
+                key={component}
+                onClick={() => setSelectedComponent(component)}
+                className={`px-3 py-1.5 rounded-full text-sm font-medium ${selectedComponent === component
+                  ? 'bg-red-600 text-white'
+                  : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                  }`}
+              >
+                {BLOOD_COMPONENTS[component].label}
+              </button>
+            ))}
+          </div>
+
           {inventoryError && (
             <div className="mx-6 mt-4 p-4 bg-red-50 border border-red-200 rounded-lg text-red-700 flex items-center space-x-2">
               <AlertTriangle className="h-5 w-5" />
@@ -415,13 +1194,13 @@ export const HospitalDashboard: React.FC = () => {
                     <td className="px-6 py-4 text-right">
                       <div className="flex items-center justify-end space-x-2">
                         <button onClick={() => openModal(item, 'add')} className="px-3 py-1.5 bg-green-100 hover:bg-green-200 text-green-700 rounded-lg text-sm font-medium">
-                          <Plus className="h-4 w-4 inline mr-1" />Add
+                          <Plus className="h-4 w-4 inline mr-1" />Receive
                         </button>
                         <button onClick={() => openModal(item, 'update')} className="px-3 py-1.5 bg-blue-100 hover:bg-blue-200 text-blue-700 rounded-lg text-sm font-medium">
                           <RefreshCw className="h-4 w-4 inline mr-1" />Update
                         </button>
                         <button onClick={() => openModal(item, 'reduce')} disabled={item.units_available === 0} className="px-3 py-1.5 bg-red-100 hover:bg-red-200 text-red-700 rounded-lg text-sm font-medium disabled:opacity-50">
-                          <Minus className="h-4 w-4 inline mr-1" />Reduce
+                          <Minus className="h-4 w-4 inline mr-1" />Issue
                         </button>
                       </div>
                     </td>
@@ -432,6 +1211,380 @@ export const HospitalDashboard: React.FC = () => {
           </div>
         </motion.div>
 
+        {/* EXPIRING SOON */}
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ delay: 0.03 }}
+          className={`rounded-xl shadow-md mb-8 border ${expiringUnits.length > 0 ? 'bg-amber-50 border-amber-200' : 'bg-white border-transparent'}`}
+        >
+          <div className="p-6 flex items-center justify-between">
+            <div className="flex items-center space-x-3">
+              <Hourglass className={`h-6 w-6 ${expiringUnits.length > 0 ? 'text-amber-600' : 'text-gray-400'}`} />
+              <div>
+                <h2 className="text-xl font-semibold text-gray-900">
+                  Expiring Soon {expiringUnits.length > 0 && `(${expiringUnits.length})`}
+                </h2>
+                <p className="text-sm text-gray-600">
+                  Issue these bags first or transfer them before they are wasted
+                </p>
+              </div>
+            </div>
+            <select
+              value={expiringDays}
+              onChange={(e) => setExpiringDays(parseInt(e.target.value))}
+              className="border border-gray-300 rounded-lg px-3 py-2 text-sm bg-white focus:ring-2 focus:ring-red-500 focus:border-red-500"
+            >
+              <option value={3}>Next 3 days</option>
+              <option value={7}>Next 7 days</option>
+              <option value={14}>Next 14 days</option>
+            </select>
+          </div>
+
+          {expiringUnits.length === 0 ? (
+            <p className="px-6 pb-6 text-sm text-gray-500">
+              No units expire in the next {expiringDays} days.
+            </p>
+          ) : (
+            <div className="px-6 pb-6 grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-3">
+              {expiringUnits.map((unit) => {
+                const daysLeft = differenceInCalendarDays(new Date(unit.expiryDate), new Date());
+                return (
+                  <div key={unit.id} className="bg-white rounded-lg border border-amber-200 p-3 flex items-center justify-between">
+                    <div>
+                      <p className="font-mono text-sm text-gray-900">{unit.batchId}</p>
+                      <p className="text-xs text-gray-500">
+                        {BLOOD_COMPONENTS[unit.component].shortLabel} • Expires {format(new Date(unit.expiryDate), 'MMM d')}
+                        {unit.status === 'reserved' && ' • Reserved'}
+                      </p>
+                    </div>
+                    <div className="text-right">
+                      <span className={`px-2 py-0.5 rounded-full text-xs font-bold ${BLOOD_GROUP_COLORS[unit.bloodGroup]}`}>
+                        {unit.bloodGroup}
+                      </span>
+                      <p className={`text-xs font-medium mt-1 ${daysLeft <= 1 ? 'text-red-600' : 'text-amber-700'}`}>
+                        {daysLeft <= 0 ? 'Today' : `${daysLeft} day${daysLeft !== 1 ? 's' : ''} left`}
+                      </p>
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </motion.div>
+
+        {/* BLOOD UNITS */}
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ delay: 0.05 }}
+          className="bg-white rounded-xl shadow-md mb-8"
+        >
+          <div className="p-6 border-b border-gray-200">
+            <div className="flex items-center justify-between">
+              <div className="flex items-center space-x-3">
+                <Tag className="h-6 w-6 text-red-600" />
+                <div>
+                  <h2 className="text-xl font-semibold text-gray-900">Blood Units</h2>
+                  <p className="text-sm text-gray-600">Individual bags with batch, donor and expiry</p>
+                </div>
+              </div>
+              <div className="flex items-center space-x-2">
+                <select
+                  value={unitStatusFilter}
+                  onChange={(e) => setUnitStatusFilter(e.target.value as '' | BloodUnit['status'])}
+                  className="border border-gray-300 rounded-lg px-3 py-2 text-sm focus:ring-2 focus:ring-red-500 focus:border-red-500"
+                >
+                  <option value="">All Units</option>
+                  <option value="available">Available</option>
+                  <option value="reserved">Reserved</option>
+                  <option value="expired">Expired</option>
+                  <option value="used">Issued</option>
+                </select>
+                <button
+                  onClick={fetchUnits}
+                  className="flex items-center space-x-2 px-4 py-2 text-gray-600 hover:bg-gray-100 rounded-lg"
+                >
+                  <RefreshCw className={`h-4 w-4 ${unitsLoading ? 'animate-spin' : ''}`} />
+                  <span>Refresh</span>
+                </button>
+              </div>
+            </div>
+          </div>
+
+          <div className="overflow-x-auto max-h-[28rem] overflow-y-auto">
+            <table className="w-full">
+              <thead className="bg-gray-50 sticky top-0">
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Batch ID</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Blood Group</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Component</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Donor</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Collected</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Expires</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Status</th>
+                  <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase">Actions</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {unitsLoading && units.length === 0 ? (
+                  <tr>
+                    <td colSpan={8} className="px-6 py-8 text-center text-gray-500">Loading units...</td>
+                  </tr>
+                ) : units.length === 0 ? (
+                  <tr>
+                    <td colSpan={8} className="px-6 py-8 text-center text-gray-500">
+                      <Package className="h-8 w-8 mx-auto mb-2 text-gray-400" />
+                      <p>No units found</p>
+                    </td>
+                  </tr>
+                ) : (
+                  units.map((unit) => (
+                    <tr key={unit.id} className="hover:bg-gray-50">
+                      <td className="px-6 py-4 font-mono text-sm text-gray-900">{unit.batchId}</td>
+                      <td className="px-6 py-4">
+                        <span className={`px-3 py-1 rounded-full text-sm font-bold ${BLOOD_GROUP_COLORS[unit.bloodGroup]}`}>
+                          {unit.bloodGroup}
+                        </span>
+                      </td>
+                      <td className="px-6 py-4 text-sm text-gray-700">{getComponentLabel(unit.component)}</td>
+                      <td className="px-6 py-4 text-sm text-gray-700">{unit.donorName || 'Untraced'}</td>
+                      <td className="px-6 py-4 text-sm text-gray-500">{format(new Date(unit.collectionDate), 'MMM d, yyyy')}</td>
+                      <td className="px-6 py-4 text-sm text-gray-500">
+                        <div>{format(new Date(unit.expiryDate), 'MMM d, yyyy')}</div>
+                        {(unit.status === 'available' || unit.status === 'reserved') && (
+                          <div className="text-xs text-gray-400">{formatDistanceToNow(new Date(unit.expiryDate), { addSuffix: true })}</div>
+                        )}
+                      </td>
+                      <td className="px-6 py-4">
+                        <span className={`inline-flex items-center px-2 py-1 rounded-full text-xs font-medium capitalize ${UNIT_STATUS_COLORS[unit.status]}`}>
+                          {unit.status === 'used' ? 'Issued' : unit.status}
+                        </span>
+                      </td>
+                      <td className="px-6 py-4 text-right">
+                        {(unit.status === 'available' || unit.status === 'reserved') && (
+                          <div className="flex items-center justify-end space-x-2">
+                            <button
+                              onClick={() => handleUnitAction(unit, unit.status === 'available' ? 'reserved' : 'available')}
+                              className="px-3 py-1.5 bg-yellow-100 hover:bg-yellow-200 text-yellow-800 rounded-lg text-sm font-medium"
+                            >
+                              {unit.status === 'available' ? 'Reserve' : 'Release'}
+                            </button>
+                            <button
+                              onClick={() => handleUnitAction(unit, 'issue')}
+                              className="px-3 py-1.5 bg-red-100 hover:bg-red-200 text-red-700 rounded-lg text-sm font-medium"
+                            >
+                              <Minus className="h-4 w-4 inline mr-1" />Issue
+                            </button>
+                          </div>
+                        )}
+                      </td>
+                    </tr>
+                  ))
+                )}
+              </tbody>
+            </table>
+          </div>
+        </motion.div>
+
+        {/* DONATION APPOINTMENTS */}
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ delay: 0.08 }}
+          className="bg-white rounded-xl shadow-md mb-8"
+        >
+          <div className="p-6 border-b border-gray-200">
+            <div className="flex items-center justify-between">
+              <div className="flex items-center space-x-3">
+                <CalendarCheck className="h-6 w-6 text-red-600" />
+                <div>
+                  <h2 className="text-xl font-semibold text-gray-900">Donation Appointments</h2>
+                  <p className="text-sm text-gray-600">Check donors in as they arrive and publish booking slots</p>
+                </div>
+              </div>
+              <input
+                type="date"
+                value={appointmentDate}
+                onChange={(e) => e.target.value && setAppointmentDate(e.target.value)}
+                className="border border-gray-300 rounded-lg px-3 py-2 text-sm focus:ring-2 focus:ring-red-500 focus:border-red-500"
+              />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 lg:grid-cols-3">
+            {/* Appointments Table */}
+            <div className="lg:col-span-2 overflow-x-auto">
+              <table className="w-full">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Time</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Donor</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Blood Group</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Status</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Action</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200">
+                  {appointmentsLoading && appointments.length === 0 ? (
+                    <tr>
+                      <td colSpan={5} className="px-6 py-8 text-center text-gray-500">Loading appointments...</td>
+                    </tr>
+                  ) : appointments.length === 0 ? (
+                    <tr>
+                      <td colSpan={5} className="px-6 py-8 text-center text-gray-500">
+                        <CalendarCheck className="h-8 w-8 mx-auto mb-2 text-gray-400" />
+                        <p>No appointments on {format(new Date(`${appointmentDate}T00:00`), 'MMM d, yyyy')}</p>
+                      </td>
+                    </tr>
+                  ) : (
+                    appointments.map((appointment) => (
+                      <tr key={appointment.id} className="hover:bg-gray-50">
+                        <td className="px-6 py-4 text-sm text-gray-900 whitespace-nowrap">
+                          {format(new Date(appointment.donationDate), 'h:mm a')}
+                        </td>
+                        <td className="px-6 py-4">
+                          <p className="font-medium text-gray-900">{appointment.donorName}</p>
+                          <p className="text-sm text-gray-500">{appointment.donorPhone || appointment.donorEmail}</p>
+                        </td>
+                        <td className="px-6 py-4">
+                          <span className={`px-3 py-1 rounded-full text-sm font-bold ${BLOOD_GROUP_COLORS[appointment.bloodGroup] || 'bg-gray-100 text-gray-800'}`}>
+                            {appointment.bloodGroup}
+                          </span>
+                        </td>
+                        <td className="px-6 py-4">
+                          <span className={`px-2 py-1 rounded-full text-xs font-medium ${APPOINTMENT_STATUS_STYLES[appointment.status].className}`}>
+                            {APPOINTMENT_STATUS_STYLES[appointment.status].label}
+                          </span>
+                          {appointment.checkedInAt && (
+                            <p className="text-xs text-gray-500 mt-1">at {format(new Date(appointment.checkedInAt), 'h:mm a')}</p>
+                          )}
+                        </td>
+                        <td className="px-6 py-4">
+                          {appointment.status === 'scheduled' && appointmentDate === format(new Date(), 'yyyy-MM-dd') && (
+                            <button
+                              onClick={() => checkInDonor(appointment)}
+                              disabled={checkingInId === appointment.id}
+                              className="flex items-center space-x-1 px-3 py-1.5 text-sm bg-green-600 hover:bg-green-700 text-white rounded-lg disabled:opacity-50"
+                            >
+                              <UserCheck className="h-4 w-4" />
+                              <span>{checkingInId === appointment.id ? 'Checking in...' : 'Check In'}</span>
+                            </button>
+                          )}
+                          {appointment.status === 'checked_in' && (
+                            <button
+                              onClick={() => recordDonation(appointment)}
+                              disabled={checkingInId === appointment.id}
+                              className="flex items-center space-x-1 px-3 py-1.5 text-sm bg-red-600 hover:bg-red-700 text-white rounded-lg disabled:opacity-50"
+                            >
+                              <Droplet className="h-4 w-4" />
+                              <span>{checkingInId === appointment.id ? 'Saving...' : 'Record Donation'}</span>
+                            </button>
+                          )}
+                        </td>
+                      </tr>
+                    ))
+                  )}
+                </tbody>
+              </table>
+            </div>
+
+            {/* Slots for the day */}
+            <div className="p-6 border-t lg:border-t-0 lg:border-l border-gray-200">
+              <h3 className="text-sm font-semibold text-gray-900 mb-3">Slots on this day</h3>
+              {daySlots.length === 0 ? (
+                <p className="text-sm text-gray-500 mb-4">No slots published.</p>
+              ) : (
+                <div className="space-y-2 mb-4">
+                  {daySlots.map((slot) => (
+                    <div key={slot.id} className="flex items-center justify-between text-sm p-2 rounded-lg bg-gray-50">
+                      <span className="text-gray-900">
+                        {format(new Date(slot.startTime), 'h:mm a')} - {format(new Date(slot.endTime), 'h:mm a')}
+                      </span>
+                      <span className="flex items-center space-x-2">
+                        <span className="text-gray-500">{slot.bookedCount}/{slot.capacity} booked</span>
+                        {slot.bookedCount === 0 && (
+                          <button
+                            onClick={() => deleteSlot(slot)}
+                            className="text-gray-400 hover:text-red-600"
+                            aria-label="Remove slot"
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </button>
+                        )}
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              )}
+
+              <h3 className="text-sm font-semibold text-gray-900 mb-3">Publish slots</h3>
+              <div className="grid grid-cols-2 gap-2 mb-3">
+                <label className="text-xs text-gray-600">
+                  From
+                  <input
+                    type="time"
+                    value={slotForm.start_time}
+                    onChange={(e) => setSlotForm({ ...slotForm, start_time: e.target.value })}
+                    className="mt-1 w-full px-2 py-1.5 border border-gray-300 rounded-lg text-sm"
+                  />
+                </label>
+                <label className="text-xs text-gray-600">
+                  To
+                  <input
+                    type="time"
+                    value={slotForm.end_time}
+                    onChange={(e) => setSlotForm({ ...slotForm, end_time: e.target.value })}
+                    className="mt-1 w-full px-2 py-1.5 border border-gray-300 rounded-lg text-sm"
+                  />
+                </label>
+                <label className="text-xs text-gray-600">
+                  Minutes per slot
+                  <input
+                    type="number"
+                    min={5}
+                    value={slotForm.duration_minutes}
+                    onChange={(e) => setSlotForm({ ...slotForm, duration_minutes: e.target.value })}
+                    className="mt-1 w-full px-2 py-1.5 border border-gray-300 rounded-lg text-sm"
+                  />
+                </label>
+                <label className="text-xs text-gray-600">
+                  Donors per slot
+                  <input
+                    type="number"
+                    min={1}
+                    value={slotForm.capacity}
+                    onChange={(e) => setSlotForm({ ...slotForm, capacity: e.target.value })}
+                    className="mt-1 w-full px-2 py-1.5 border border-gray-300 rounded-lg text-sm"
+                  />
+                </label>
+              </div>
+              {slotMessage && (
+                <p className={`text-xs mb-2 ${slotMessage.type === 'success' ? 'text-green-700' : 'text-red-600'}`}>
+                  {slotMessage.text}
+                </p>
+              )}
+              <button
+                onClick={publishSlots}
+                disabled={publishingSlots}
+                className="w-full flex items-center justify-center space-x-2 px-4 py-2 bg-red-600 hover:bg-red-700 text-white rounded-lg text-sm font-medium disabled:opacity-50"
+              >
+                <Plus className="h-4 w-4" />
+                <span>{publishingSlots ? 'Publishing...' : 'Publish Slots'}</span>
+              </button>
+            </div>
+          </div>
+        </motion.div>
+
+        {/* DONATION DRIVES */}
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ delay: 0.09 }}
+        >
+          <DonationDrivesManager />
+        </motion.div>
+
         {/* AUTO REMINDER SYSTEM */}
         <motion.div
           initial={{ opacity: 0, y: 20 }}
@@ -528,6 +1681,15 @@ export const HospitalDashboard: React.FC = () => {
             </table>
           </div>
         </motion.div>
+
+        {/* SIGNED-IN DEVICES */}
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ delay: 0.11 }}
+        >
+          <ActiveSessions />
+        </motion.div>
       </div>
 
       {/* Inventory Action Modal */}
@@ -535,6 +1697,7 @@ export const HospitalDashboard: React.FC = () => {
         isOpen={modalOpen}
         onClose={() => setModalOpen(false)}
         bloodGroup={selectedItem?.blood_group || ''}
+        component={selectedItem?.component || selectedComponent}
         currentUnits={selectedItem?.units_available || 0}
         action={modalAction}
         onSubmit={handleInventoryAction}
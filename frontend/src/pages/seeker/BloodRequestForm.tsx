@@ -14,6 +14,9 @@ import {
 } from "../../components/ui/dialog";
 import { isValidContact } from "../../lib/validation";
 import { useAuth } from "../../contexts/AuthContext";
+import { BLOOD_COMPONENTS, COMPONENT_TYPES, DEFAULT_COMPONENT, getComponentLabel } from "../../lib/bloodComponents";
+import { DOCUMENT_ACCEPT } from "../../lib/requestDocuments";
+import type { BloodComponent } from "../../types";
 
 interface FormData {
   state: string;
@@ -23,6 +26,7 @@ interface FormData {
   feedback: string;
   proofImage: File | null;
   bloodGroup: string;
+  component: BloodComponent;
   units: string;
   urgency: string;
 }
@@ -41,6 +45,7 @@ const BloodRequestForm = ({ isOpen, onClose }: BloodRequestFormProps) => {
     feedback: "",
     proofImage: null,
     bloodGroup: "",
+    component: DEFAULT_COMPONENT,
     units: "",
     urgency: "",
   });
@@ -50,9 +55,34 @@ const BloodRequestForm = ({ isOpen, onClose }: BloodRequestFormProps) => {
   const [showWarning, setShowWarning] = useState(false);
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [submitError, setSubmitError] = useState("");
+  const [coords, setCoords] = useState<{ latitude: number; longitude: number } | null>(null);
+  const [locating, setLocating] = useState(false);
+  const [locationError, setLocationError] = useState("");
 
   const navigate = useNavigate();
-  const { token } = useAuth();
+  const { token, user } = useAuth();
+  const needsVerification = Boolean(user && !user.verified);
+
+  // Ask the browser where the patient is, so the request is placed exactly
+  const handleLocate = () => {
+    if (!navigator.geolocation) {
+      setLocationError("Location is not available in this browser");
+      return;
+    }
+    setLocating(true);
+    setLocationError("");
+    navigator.geolocation.getCurrentPosition(
+      (position) => {
+        setCoords({ latitude: position.coords.latitude, longitude: position.coords.longitude });
+        setLocating(false);
+      },
+      () => {
+        setLocationError("Could not get your location. The district and pin code will be used instead.");
+        setLocating(false);
+      },
+      { timeout: 10000, maximumAge: 10 * 60 * 1000 }
+    );
+  };
 
   const handleChange = (
     e: ChangeEvent<HTMLInputElement | HTMLTextAreaElement>
@@ -123,20 +153,33 @@ const BloodRequestForm = ({ isOpen, onClose }: BloodRequestFormProps) => {
 
       const requestData = {
         bloodGroup: formData.bloodGroup,
+        component: formData.component,
         unitsRequested: parseInt(formData.units),
         urgency: urgencyMap[formData.urgency] || "medium",
         reason: formData.feedback || `Blood needed in ${formData.district}, ${formData.state}`,
         location: `${formData.district}, ${formData.state} - ${formData.pincode}`,
-        contactPhone: formData.contact
+        contactPhone: formData.contact,
+        ...(coords || {})
       };
 
+      // Send the prescription along with the request when one was picked
+      const headers: Record<string, string> = { 'Authorization': `Bearer ${token}` };
+      let body: BodyInit;
+      if (formData.proofImage) {
+        const multipart = new window.FormData();
+        Object.entries(requestData).forEach(([key, value]) => multipart.append(key, String(value)));
+        multipart.append('documents', formData.proofImage);
+        multipart.append('documentKind', 'prescription');
+        body = multipart;
+      } else {
+        headers['Content-Type'] = 'application/json';
+        body = JSON.stringify(requestData);
+      }
+
       const response = await fetch('/api/requests', {
         method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${token}`
-        },
-        body: JSON.stringify(requestData)
+        headers,
+        body
       });
 
       const data = await response.json();
@@ -187,6 +230,12 @@ const BloodRequestForm = ({ isOpen, onClose }: BloodRequestFormProps) => {
           </div>
         )}
 
+        {needsVerification && (
+          <div className="mb-4 p-3 rounded-md bg-yellow-100 border border-yellow-400 text-yellow-700 text-sm">
+            ✉️ Verify your email address to submit requests. Open the link we emailed you, or send a new one from the banner at the top of the page.
+          </div>
+        )}
+
         {submitError && (
           <div className="mb-4 p-3 rounded-md bg-red-100 border border-red-400 text-red-700 text-sm">
             ❌ {submitError}
@@ -226,6 +275,21 @@ const BloodRequestForm = ({ isOpen, onClose }: BloodRequestFormProps) => {
               )}
             </div>
 
+            <div className="mt-4">
+              <Label htmlFor="component">Component</Label>
+              <Select
+                options={COMPONENT_TYPES.map((component) => ({
+                  label: BLOOD_COMPONENTS[component].label,
+                  value: component,
+                }))}
+                value={formData.component}
+                placeholder="Select component"
+                onChange={(value: string) =>
+                  handleSelectChange("component", value)
+                }
+              />
+            </div>
+
             <div className="mt-4">
               <Label htmlFor="units">Units Required</Label>
               <Input
@@ -269,6 +333,23 @@ const BloodRequestForm = ({ isOpen, onClose }: BloodRequestFormProps) => {
           </div>
 
           {/* Location */}
+          <div className="flex items-center justify-between text-sm">
+            <span className="text-gray-600">
+              {coords ? "Using your current location for nearby hospitals and donors" : "Share your location to reach the nearest hospitals and donors"}
+            </span>
+            <button
+              type="button"
+              onClick={coords ? () => setCoords(null) : handleLocate}
+              disabled={locating}
+              className="text-red-600 hover:underline font-medium disabled:opacity-50"
+            >
+              {locating ? "Locating..." : coords ? "Clear" : "Use my current location"}
+            </button>
+          </div>
+          {locationError && (
+            <p className="text-sm text-red-500">{locationError}</p>
+          )}
+
           <div>
             <Label htmlFor="state">State</Label>
             <Input
@@ -345,13 +426,13 @@ const BloodRequestForm = ({ isOpen, onClose }: BloodRequestFormProps) => {
           {/* File Upload */}
           <div>
             <Label htmlFor="proofImage">
-              Upload Proof (blood bag or receipt)
+              Doctor's Prescription or Requisition Form (JPG, PNG or PDF)
             </Label>
             <Input
               id="proofImage"
               name="proofImage"
               type="file"
-              accept="image/*"
+              accept={DOCUMENT_ACCEPT}
               onChange={handleChange}
               className="mt-1 w-full rounded-lg border-gray-300 shadow-sm focus:border-red-500 focus:ring-red-500"
             />
@@ -360,6 +441,9 @@ const BloodRequestForm = ({ isOpen, onClose }: BloodRequestFormProps) => {
                 Selected: {formData.proofImage.name}
               </p>
             )}
+            <p className="text-xs mt-1 text-gray-500">
+              Hospitals verify this before accepting your request. You can also upload it later from your dashboard.
+            </p>
           </div>
 
           {/* Feedback */}
@@ -379,6 +463,7 @@ const BloodRequestForm = ({ isOpen, onClose }: BloodRequestFormProps) => {
           <div className="flex justify-center">
             <Button
               type="submit"
+              disabled={needsVerification}
               className="px-6 py-2 rounded-xl bg-red-600 hover:bg-red-700 shadow-md text-white font-medium transition"
             >
               Submit Request
@@ -404,6 +489,10 @@ const BloodRequestForm = ({ isOpen, onClose }: BloodRequestFormProps) => {
                     <span className="font-medium">Blood Group:</span>{" "}
                     {formData.bloodGroup}
                   </p>
+                  <p>
+                    <span className="font-medium">Component:</span>{" "}
+                    {getComponentLabel(formData.component)}
+                  </p>
                   <p>
                     <span className="font-medium">Units Required:</span>{" "}
                     {formData.units}
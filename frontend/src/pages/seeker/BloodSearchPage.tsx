@@ -2,16 +2,23 @@
  * BloodSearchPage - Search for blood and find hospitals
  * 
  * This page allows blood seekers to:
- * 1. Search for hospitals by location
- * 2. View available blood units
- * 3. Contact hospitals directly
+ * 1. Search for hospitals by location, or near their current position
+ * 2. View available blood units, including groups compatible with the patient
+ * 3. Sort by distance or stock and filter by hospital type / open now
+ * 4. Contact hospitals directly
  */
 
 import React, { useState, useEffect } from 'react';
 import { useAuth } from '../../contexts/AuthContext';
-import { HospitalList, type Hospital } from '../../components/HospitalList';
+import {
+  HospitalList,
+  DEFAULT_HOSPITAL_FILTERS,
+  type Hospital,
+  type HospitalFilters
+} from '../../components/HospitalList';
 import { PlaceholdersAndVanishInput } from '../../components/ui/placeholders-and-vanish-input';
 import { AnimatedTooltip } from '../../components/ui/animated-tooltip';
+import type { BloodCompatibility } from '../../types';
 
 import {
   Search,
@@ -22,13 +29,19 @@ import {
   Filter,
   AlertCircle,
   Building2,
-  User
+  User,
+  LocateFixed
 } from 'lucide-react';
 import { motion } from 'framer-motion';
 
 // API base URL - adjust based on your setup
 const API_BASE = 'http://localhost:3000';
 
+// Radius for "Near me" searches (km)
+const NEAR_ME_RADIUS_KM = 25;
+
+type Coordinates = { lat: number; lng: number };
+
 interface Donor {
   id: number;
   name: string;
@@ -44,9 +57,15 @@ export const BloodSearchPage: React.FC = () => {
   const [selectedBloodGroup, setSelectedBloodGroup] = useState('');
   const [hospitals, setHospitals] = useState<Hospital[]>([]);
   const [searchedLocation, setSearchedLocation] = useState('');
+  const [searchedBloodGroup, setSearchedBloodGroup] = useState('');
+  const [compatibility, setCompatibility] = useState<BloodCompatibility | null>(null);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState('');
   const [hasSearched, setHasSearched] = useState(false);
+  const [filters, setFilters] = useState<HospitalFilters>(DEFAULT_HOSPITAL_FILTERS);
+  // Set when the last search was around the user's position
+  const [searchedCoords, setSearchedCoords] = useState<Coordinates | null>(null);
+  const [isLocating, setIsLocating] = useState(false);
 
   const placeholders = [
     "Search hospitals in Delhi...",
@@ -97,16 +116,30 @@ export const BloodSearchPage: React.FC = () => {
   /**
    * Fetch hospitals from the API based on location
    * This is the key function that connects frontend to backend!
+   * With coords, searches around that position instead of the location text.
    */
-  const fetchHospitals = async (location: string) => {
+  const fetchHospitals = async (
+    location: string,
+    bloodGroup: string = selectedBloodGroup,
+    searchFilters: HospitalFilters = filters,
+    coords: Coordinates | null = null
+  ) => {
     setIsLoading(true);
     setError('');
     setHasSearched(true);
 
     try {
-      // Call our backend API endpoint
+      // Call our backend API endpoint (ranked by compatibility when a blood group is selected)
+      const params = new URLSearchParams(coords
+        ? { lat: String(coords.lat), lng: String(coords.lng), radius: String(NEAR_ME_RADIUS_KM) }
+        : { location });
+      if (bloodGroup) params.set('bloodGroup', bloodGroup);
+      params.set('sort', searchFilters.sort);
+      if (searchFilters.types.length > 0) params.set('type', searchFilters.types.join(','));
+      if (searchFilters.openNow) params.set('openNow', 'true');
+
       const response = await fetch(
-        `${API_BASE}/api/hospitals/search?location=${encodeURIComponent(location)}`
+        `${API_BASE}/api/hospitals/${coords ? 'nearby' : 'search'}?${params}`
       );
 
       const data = await response.json();
@@ -126,11 +159,19 @@ export const BloodSearchPage: React.FC = () => {
           hasBloodBank: h.hasBloodBank !== false,
           availableBloodGroups: h.availableBloodGroups || [],
           is24x7: h.is24x7,
-          coordinates: h.coordinates
+          operatingHours: h.operatingHours,
+          openNow: h.openNow,
+          coordinates: h.coordinates,
+          distanceKm: h.distanceKm,
+          matchingBloodGroups: h.matchingBloodGroups,
+          exactMatch: h.exactMatch,
+          compatibleUnits: h.compatibleUnits
         }));
 
         setHospitals(hospitalList);
         setSearchedLocation(location);
+        setSearchedCoords(coords);
+        setSearchedBloodGroup(bloodGroup);
         console.log(`✅ Found ${hospitalList.length} hospitals for "${location}"`);
       } else {
         setError(data.message || 'Failed to fetch hospitals');
@@ -145,6 +186,78 @@ export const BloodSearchPage: React.FC = () => {
     }
   };
 
+  /**
+   * Fetch which donor groups the selected patient group can receive
+   */
+  const fetchCompatibility = async (bloodGroup: string) => {
+    if (!bloodGroup) {
+      setCompatibility(null);
+      return;
+    }
+
+    try {
+      const response = await fetch(
+        `${API_BASE}/api/compatibility?bloodGroup=${encodeURIComponent(bloodGroup)}`
+      );
+      const data = await response.json();
+
+      if (response.ok && data.success) {
+        setCompatibility(data.data);
+      }
+    } catch (err) {
+      console.error('Error fetching compatibility:', err);
+    }
+  };
+
+  // Handle blood group filter change - re-run the last search for the new group
+  const handleBloodGroupChange = (bloodGroup: string) => {
+    setSelectedBloodGroup(bloodGroup);
+    fetchCompatibility(bloodGroup);
+
+    // Stock ranking needs a patient group
+    const nextFilters = !bloodGroup && filters.sort === 'stock'
+      ? { ...filters, sort: DEFAULT_HOSPITAL_FILTERS.sort }
+      : filters;
+    setFilters(nextFilters);
+
+    if (searchedLocation) {
+      fetchHospitals(searchedLocation, bloodGroup, nextFilters, searchedCoords);
+    }
+  };
+
+  // Handle sort / type / open-now changes - re-run the last search
+  const handleFiltersChange = (nextFilters: HospitalFilters) => {
+    setFilters(nextFilters);
+
+    if (searchedLocation) {
+      fetchHospitals(searchedLocation, selectedBloodGroup, nextFilters, searchedCoords);
+    }
+  };
+
+  // Search around the user's current position
+  const handleNearMe = () => {
+    if (!navigator.geolocation) {
+      setError('Location is not available in this browser. Search by city instead.');
+      return;
+    }
+
+    setIsLocating(true);
+    navigator.geolocation.getCurrentPosition(
+      (position) => {
+        setIsLocating(false);
+        fetchHospitals('your location', selectedBloodGroup, filters, {
+          lat: position.coords.latitude,
+          lng: position.coords.longitude
+        });
+      },
+      () => {
+        setIsLocating(false);
+        setError('Could not get your location. Search by city instead.');
+      },
+      { timeout: 10000, maximumAge: 10 * 60 * 1000 }
+    );
+  };
+
   // Handle search input change
   const handleSearch = (e: React.ChangeEvent<HTMLInputElement>) => {
     setSearchQuery(e.target.value);
@@ -201,6 +314,14 @@ export const BloodSearchPage: React.FC = () => {
           <div className="mt-6 text-center">
             <p className="text-sm text-gray-500 mb-3">Quick search by city:</p>
             <div className="flex flex-wrap gap-2 justify-center">
+              <button
+                onClick={handleNearMe}
+                disabled={isLocating}
+                className="px-4 py-2 text-sm font-medium text-white bg-red-600 border border-red-600 rounded-lg hover:bg-red-700 transition-colors flex items-center space-x-1 disabled:opacity-50"
+              >
+                <LocateFixed className="h-4 w-4" />
+                <span>{isLocating ? 'Locating...' : 'Near me'}</span>
+              </button>
               {quickSearchCities.map((city) => (
                 <button
                   key={city}
@@ -217,15 +338,33 @@ export const BloodSearchPage: React.FC = () => {
           <div className="flex flex-wrap gap-4 mt-6 justify-center">
             <select
               value={selectedBloodGroup}
-              onChange={(e) => setSelectedBloodGroup(e.target.value)}
+              onChange={(e) => handleBloodGroupChange(e.target.value)}
               className="border border-gray-300 rounded-lg px-4 py-2 text-sm focus:ring-2 focus:ring-red-500 focus:border-red-500"
             >
               <option value="">All Blood Groups</option>
               {bloodGroups.map(group => (
-                <option key={group} value={group}>{group}</option>
+                <option key={group} value={group}>Patient is {group}</option>
               ))}
             </select>
           </div>
+
+          {/* Compatible donor groups for the selected patient group */}
+          {compatibility && compatibility.bloodGroup === selectedBloodGroup && (
+            <div className="mt-4 flex flex-wrap items-center justify-center gap-2 text-sm">
+              <span className="text-gray-600">{compatibility.bloodGroup} patients can receive red cells from:</span>
+              {compatibility.canReceiveFrom.red_cells.map((group) => (
+                <span
+                  key={group}
+                  className={`px-2 py-1 text-xs font-medium rounded ${group === compatibility.bloodGroup
+                    ? 'bg-red-600 text-white'
+                    : 'bg-red-100 text-red-800'
+                    }`}
+                >
+                  {group}
+                </span>
+              ))}
+            </div>
+          )}
         </div>
 
         {/* Error Message */}
@@ -242,6 +381,9 @@ export const BloodSearchPage: React.FC = () => {
             hospitals={hospitals}
             searchedLocation={searchedLocation}
             isLoading={isLoading}
+            bloodGroup={searchedBloodGroup || undefined}
+            filters={filters}
+            onFiltersChange={handleFiltersChange}
           />
         )}
 
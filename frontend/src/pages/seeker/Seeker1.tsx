@@ -8,7 +8,9 @@ import BloodRequestForm from './BloodRequestForm';
 import { useState, useEffect } from 'react';
 import { useAuth } from '../../contexts/AuthContext';
 import { ProfilePhotoUpload } from '../../components/common/ProfilePhotoUpload';
+import { ActiveSessions } from '../../components/common/ActiveSessions';
 import { ProfileUploadHelp } from '../../components/common/ProfileUploadHelp';
+import { RequestTimeline } from '../../components/seeker/RequestTimeline';
 
 // Leaflet imports
 import { MapContainer, TileLayer, Marker, Popup } from "react-leaflet";
@@ -193,6 +195,16 @@ export default function BloodDashboard() {
         </CardContent>
       </Card>
 
+      {/* My Requests */}
+      <Card className="bg-white border border-gray-200 shadow-md col-span-2">
+        <CardHeader>
+          <CardTitle className="text-sm font-semibold text-gray-700">My Blood Requests</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <RequestTimeline />
+        </CardContent>
+      </Card>
+
       {/* Mission Tracker */}
       <Card className="bg-white border border-gray-200 shadow-md col-span-2">
         <CardHeader>
@@ -204,6 +216,11 @@ export default function BloodDashboard() {
           </div>
         </CardContent>
       </Card>
+
+      {/* Signed-in Devices */}
+      <div className="col-span-2">
+        <ActiveSessions />
+      </div>
     </div>
   );
 }
@@ -5,15 +5,48 @@ export interface User {
   phone: string;
   role: 'admin' | 'donor' | 'seeker' | 'hospital';
   verified: boolean;
+  phoneVerified?: boolean;
+  googleLinked?: boolean;
   createdAt: string;
   profilePicture?: string;
   profile?: DonorProfile | HospitalProfile;
+  hospital?: string;
+  notificationPreferences?: NotificationPreferences;
+}
+
+export type GoogleSignInResult =
+  | { status: 'signed_in'; user: User }
+  | { status: 'signup_required'; message: string; profile: { name: string; email: string } }
+  | { status: 'link_required'; message: string; email: string }
+  | { status: 'error'; message: string };
+
+export interface GoogleSignupDetails {
+  role: string;
+  phone: string;
+  location?: string;
+}
+
+export interface AuthSession {
+  id: string;
+  device: string;
+  ip?: string;
+  createdAt: string;
+  lastUsedAt: string;
+  expiresAt: string;
+  current: boolean;
+}
+
+export interface NotificationPreferences {
+  email: boolean;
+  sms: boolean;
+  app: boolean;
 }
 
 export interface DonorProfile {
   bloodGroup: BloodGroup;
   dateOfBirth: string;
   weight: number;
+  sex?: 'male' | 'female' | 'other';
   lastDonation?: string;
   eligibleNext?: string;
   totalDonations: number;
@@ -32,9 +65,20 @@ export interface HospitalProfile {
 
 export type BloodGroup = 'A+' | 'A-' | 'B+' | 'B-' | 'AB+' | 'AB-' | 'O+' | 'O-';
 
+export type BloodProduct = 'red_cells' | 'plasma' | 'platelets' | 'whole_blood';
+
+export type BloodComponent = 'whole_blood' | 'prbc' | 'platelets' | 'plasma' | 'cryo';
+
+export interface BloodCompatibility {
+  bloodGroup: BloodGroup;
+  canReceiveFrom: Record<BloodProduct, BloodGroup[]>;
+  canDonateTo: Record<BloodProduct, BloodGroup[]>;
+}
+
 export interface BloodUnit {
   id: string;
   bloodGroup: BloodGroup;
+  component: BloodComponent;
   batchId: string;
   donorId: string;
   donorName: string;
@@ -45,20 +89,101 @@ export interface BloodUnit {
   volume: number;
 }
 
+export type BloodRequestStatus =
+  | 'pending'
+  | 'approved'
+  | 'reserved'
+  | 'dispatched'
+  | 'fulfilled'
+  | 'rejected'
+  | 'cancelled'
+  | 'expired';
+
+export interface RequestStatusChange {
+  from: BloodRequestStatus | null;
+  to: BloodRequestStatus;
+  changedByName?: string;
+  actor: 'admin' | 'hospital' | 'requester' | 'system';
+  note?: string;
+  changedAt: string;
+}
+
 export interface BloodRequest {
   id: string;
   requesterId: string;
   requesterName: string;
   requesterType: 'hospital' | 'seeker';
   bloodGroup: BloodGroup;
+  component: BloodComponent;
   unitsRequested: number;
   urgency: 'low' | 'medium' | 'high' | 'critical';
   reason: string;
-  status: 'pending' | 'approved' | 'fulfilled' | 'rejected';
+  status: BloodRequestStatus;
+  statusHistory: RequestStatusChange[];
+  allowedTransitions: BloodRequestStatus[];
+  servingHospitalName?: string;
+  location?: string;
   createdAt: string;
   approvedBy?: string;
   fulfilledAt?: string;
   notes?: string;
+  broadcast?: EmergencyBroadcast;
+  donorResponses?: DonorResponse[];
+  documents?: RequestDocument[];
+  requisition?: Requisition;
+  requisitionRequired?: boolean;
+  canReviewRequisition?: boolean;
+}
+
+export type RequestDocumentKind = 'prescription' | 'requisition' | 'other';
+
+export type RequisitionStatus = 'pending' | 'verified' | 'rejected';
+
+export interface RequestDocument {
+  id: string;
+  kind: RequestDocumentKind;
+  originalName: string;
+  mimeType: string;
+  size: number;
+  uploadedAt: string;
+  url: string;
+}
+
+export interface Requisition {
+  status: RequisitionStatus;
+  note?: string;
+  reviewedAt?: string;
+}
+
+export interface EmergencyBroadcast {
+  count: number;
+  donorsNotified: number;
+  lastSentAt?: string;
+}
+
+export interface DonorResponse {
+  donorId: string;
+  donorName: string;
+  bloodGroup: BloodGroup;
+  phone?: string;
+  etaMinutes: number;
+  note?: string;
+  status: 'coming' | 'withdrawn';
+  respondedAt: string;
+}
+
+export interface EmergencyAppeal {
+  id: string;
+  requesterName: string;
+  bloodGroup: BloodGroup;
+  component: BloodComponent;
+  unitsRequested: number;
+  reason: string;
+  location?: string;
+  contactPhone?: string;
+  createdAt: string;
+  responders: number;
+  myResponse: { status: DonorResponse['status']; etaMinutes: number; expectedAt: string } | null;
 }
 
 export interface InventoryStats {
@@ -75,4 +200,243 @@ export interface DashboardStats {
   completedRequests: number;
   totalHospitals: number;
   inventoryStats: InventoryStats;
-}
\ No newline at end of file
+}
+export interface InventoryEvent {
+  hospitalId: string;
+  rows: {
+    blood_group: BloodGroup;
+    component: BloodComponent;
+    units_available: number;
+    is_low_stock: boolean;
+  }[];
+  at: string;
+}
+
+export interface RequestEvent {
+  id: string;
+  action: 'created' | 'updated' | 'deleted';
+  status: BloodRequestStatus;
+  bloodGroup: BloodGroup;
+  component: BloodComponent;
+  unitsRequested: number;
+  urgency: BloodRequest['urgency'];
+  updatedAt: string;
+}
+
+export type NotificationType = 'donation_reminder' | 'blood_request' | 'emergency_appeal' | 'thank_you' | 'achievement' | 'general';
+
+export interface AppNotification {
+  id: string;
+  type: NotificationType;
+  title?: string;
+  message: string;
+  link?: string;
+  hospitalName?: string;
+  isRead: boolean;
+  createdAt: string;
+}
+
+export interface NotificationEvent {
+  id?: string;
+  type: NotificationType;
+  title: string;
+  message: string;
+  link?: string;
+  createdAt: string;
+}
+
+export interface UserEvent {
+  id: string;
+  role: User['role'];
+  action: 'created' | 'updated' | 'deleted';
+}
+
+export type AppointmentStatus = 'scheduled' | 'checked_in' | 'completed' | 'cancelled';
+
+export interface DonationSlot {
+  id: string;
+  hospitalId: string;
+  hospitalName?: string;
+  hospitalAddress?: string;
+  hospitalCity?: string;
+  startTime: string;
+  endTime: string;
+  capacity: number;
+  bookedCount: number;
+  spacesLeft: number;
+}
+
+export interface Appointment {
+  id: string;
+  status: AppointmentStatus;
+  bloodGroup: BloodGroup;
+  donationDate: string;
+  endTime?: string;
+  slotId: string;
+  hospitalId: string;
+  hospitalName: string;
+  hospitalAddress?: string;
+  donorName: string;
+  donorPhone?: string;
+  donorEmail?: string;
+  notes?: string;
+  checkedInAt?: string;
+}
+
+export type DriveStatus = 'upcoming' | 'ongoing' | 'ended' | 'cancelled';
+
+export type DriveRegistrationStatus = 'registered' | 'checked_in' | 'donated' | 'cancelled';
+
+export interface DriveRegistrationCounts {
+  registered: number;
+  checkedIn: number;
+  donated: number;
+  cancelled: number;
+}
+
+export interface DonationDrive {
+  id: string;
+  name: string;
+  description?: string;
+  hospitalId: string;
+  hospitalName?: string;
+  venueName: string;
+  address: string;
+  city: string;
+  latitude: number;
+  longitude: number;
+  startTime: string;
+  endTime: string;
+  targetUnits: number;
+  collectedUnits: number;
+  capacity: number;
+  registeredCount: number;
+  placesLeft: number;
+  status: DriveStatus;
+  cancelledReason?: string;
+  distanceKm: number | null;
+  myRegistration?: { id: string; status: DriveRegistrationStatus } | null;
+  registrations?: DriveRegistrationCounts;
+}
+
+export interface DriveRegistration {
+  id: string;
+  driveId: string;
+  drive?: DonationDrive;
+  donorId: string;
+  donorName: string;
+  donorEmail?: string;
+  donorPhone?: string;
+  bloodGroup: BloodGroup;
+  status: DriveRegistrationStatus;
+  registeredAt: string;
+  checkedInAt?: string;
+  unitsCollected: number;
+}
+
+export interface DonationRecord {
+  id: string;
+  date: string;
+  location: string;
+  city?: string;
+  bloodGroup: BloodGroup;
+  component: BloodComponent;
+  units: number;
+}
+
+export type AchievementLevel = 'gold' | 'silver' | 'bronze' | 'none';
+
+export interface DonorStreak {
+  current: number;
+  longest: number;
+  since: string | null;
+}
+
+export interface DonorBadge {
+  code: string;
+  name: string;
+  description: string;
+  earnedAt: string | null;
+}
+
+export interface DonorStats {
+  totalDonations: number;
+  donationsThisYear: number;
+  lastDonation?: string;
+  eligibleNext?: string;
+  achievementBadge: AchievementLevel;
+  nextBadge: AchievementLevel | null;
+  donationsNeeded: number;
+  nextMilestone: number | null;
+  streak: DonorStreak;
+  badges: DonorBadge[];
+}
+
+export interface EligibilityReason {
+  code: string;
+  message: string;
+  until: string | null;
+}
+
+export interface Eligibility {
+  eligible: boolean;
+  eligibleFrom: string | null;
+  requiresReview: boolean;
+  reasons: EligibilityReason[];
+}
+
+export interface Deferral {
+  code: string;
+  message: string;
+  startsAt: string | null;
+  until: string | null;
+}
+
+export interface QuestionDeferral {
+  code: string;
+  days: number | null;
+  message: string;
+}
+
+export interface QuestionOption {
+  value: string;
+  label: string;
+  weight: number;
+  deferral: QuestionDeferral | null;
+}
+
+export interface QuizQuestion {
+  id: number;
+  category: string;
+  question: string;
+  options: QuestionOption[];
+}
+
+export type QuestionnaireStatus = 'draft' | 'active' | 'archived';
+
+export interface Questionnaire {
+  id: string;
+  version: number;
+  status: QuestionnaireStatus;
+  passPercentage: number;
+  notes: string;
+  questions: QuizQuestion[];
+  createdAt: string;
+  activatedAt?: string;
+}
+
+export interface AppointmentEvent {
+  id: string;
+  action: 'booked' | 'rescheduled' | 'cancelled' | 'checked_in' | 'completed';
+  status: AppointmentStatus;
+  donationDate: string;
+  hospitalId: string;
+}
+
+export interface RealtimeEventMap {
+  inventory: InventoryEvent;
+  request: RequestEvent;
+  appointment: AppointmentEvent;
+  notification: NotificationEvent;
+  user: UserEvent;
+}